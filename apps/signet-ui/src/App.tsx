@@ -4,6 +4,8 @@ import { fetchConnectionInfo } from './lib/connection.js';
 import { ToastProvider, useToast } from './contexts/ToastContext.js';
 import { SettingsProvider, useSettings, isStandalone } from './contexts/SettingsContext.js';
 import { ServerEventsProvider, useServerEventsContext } from './contexts/ServerEventsContext.js';
+import { AccessProvider } from './contexts/AccessContext.js';
+import { useAccess } from './hooks/useAccess.js';
 import { AppLayout } from './components/layout/AppLayout.js';
 import type { NavItem } from './components/layout/Sidebar.js';
 import { Toast } from './components/shared/Toast.js';
@@ -18,20 +20,33 @@ import { ConnectAppModal } from './components/apps/ConnectAppModal.js';
 import { SettingsPanel } from './components/settings/SettingsPanel.js';
 import { HelpPanel } from './components/help/HelpPanel.js';
 import { LogsPanel } from './components/logs/LogsPanel.js';
+import { PoliciesPanel } from './components/policies/PoliciesPanel.js';
 import { LockScreen } from './components/shared/LockScreen.js';
+import { LoginScreen } from './components/shared/LoginScreen.js';
 import { useRequests } from './hooks/useRequests.js';
 import { useKeys } from './hooks/useKeys.js';
+import { useSeeds } from './hooks/useSeeds.js';
 import { useApps } from './hooks/useApps.js';
 import { useDashboard } from './hooks/useDashboard.js';
 import { useRelays } from './hooks/useRelays.js';
 import { useHealth } from './hooks/useHealth.js';
 import { useDeadManSwitch } from './hooks/useDeadManSwitch.js';
+import { useTrustProfiles } from './hooks/useTrustProfiles.js';
+import { useQuorum } from './hooks/useQuorum.js';
+import { useApiTokens } from './hooks/useApiTokens.js';
+import { useOperators } from './hooks/useOperators.js';
+import { useWebhooks } from './hooks/useWebhooks.js';
+import { useAuth, type UseAuthResult } from './hooks/useAuth.js';
 import './design-system.css';
 import './styles.css';
 
 type NotificationPermissionState = 'default' | 'granted' | 'denied' | 'unsupported';
 
-function AppContent() {
+interface AppContentProps {
+  auth: UseAuthResult;
+}
+
+function AppContent({ auth }: AppContentProps) {
   const [connectionLoading, setConnectionLoading] = useState(true);
   const [activeNav, setActiveNav] = useState<NavItem>('home');
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>('default');
@@ -47,15 +62,22 @@ function AppContent() {
   const { showToast } = useToast();
   const { settings } = useSettings();
   const { connected: sseConnected } = useServerEventsContext();
+  const { can, canAllKeys } = useAccess();
 
   // Hooks for data - each hook handles its own SSE events
   const requests = useRequests();
   const keys = useKeys();
+  const seeds = useSeeds();
   const apps = useApps();
   const dashboard = useDashboard();
   const relays = useRelays();
   const health = useHealth();
   const deadManSwitch = useDeadManSwitch();
+  const trustProfiles = useTrustProfiles();
+  const quorum = useQuorum();
+  const apiTokens = useApiTokens();
+  const operators = useOperators();
+  const webhooks = useWebhooks();
 
   // Wait for initial connection before showing the app
   useEffect(() => {
@@ -250,6 +272,7 @@ function AppContent() {
             keys={keys.keys}
             passwords={requests.passwords}
             appNames={appNames}
+            trustProfiles={trustProfiles.profiles}
             showAutoApproved={showAutoApproved}
             onPasswordChange={requests.setPassword}
             onAppNameChange={handleAppNameChange}
@@ -268,6 +291,7 @@ function AppContent() {
         return (
           <AppsPanel
             apps={apps.apps}
+            trustProfiles={trustProfiles.profiles}
             loading={apps.loading}
             error={apps.error}
             onRevokeApp={async (appId) => {
@@ -300,6 +324,46 @@ function AppContent() {
               }
               return success;
             }}
+            onUpdateTrustProfile={async (appId: number, trustProfileId: number) => {
+              const success = await apps.updateTrustProfile(appId, trustProfileId);
+              if (success) {
+                showToast({
+                  message: 'Trust profile updated',
+                  type: 'success',
+                });
+              }
+              return success;
+            }}
+            onUpdateQuotas={async (appId, quotas) => {
+              const success = await apps.updateQuotas(appId, quotas);
+              if (success) {
+                showToast({
+                  message: quotas ? 'Rate limits updated' : 'Rate limits removed',
+                  type: 'success',
+                });
+              }
+              return success;
+            }}
+            onUpdateSchedule={async (appId, schedule) => {
+              const success = await apps.updateSchedule(appId, schedule);
+              if (success) {
+                showToast({
+                  message: schedule ? 'Schedule updated' : 'Schedule removed',
+                  type: 'success',
+                });
+              }
+              return success;
+            }}
+            onRemoveCondition={async (appId, conditionId) => {
+              const success = await apps.removeCondition(appId, conditionId);
+              if (success) {
+                showToast({
+                  message: 'Signing rule removed',
+                  type: 'success',
+                });
+              }
+              return success;
+            }}
             onSuspendApp={async (appId: number) => {
               const success = await apps.suspendApp(appId);
               if (success) {
@@ -363,6 +427,7 @@ function AppContent() {
             selectedIds={requests.selectedIds}
             searchQuery={requests.searchQuery}
             sortBy={requests.sortBy}
+            trustProfiles={trustProfiles.profiles}
             onFilterChange={requests.setFilter}
             onPasswordChange={requests.setPassword}
             onApprove={requests.approve}
@@ -374,6 +439,9 @@ function AppContent() {
           />
         );
 
+      case 'policies':
+        return <PoliciesPanel keys={keys.keys} />;
+
       case 'logs':
         return <LogsPanel />;
 
@@ -390,9 +458,12 @@ function AppContent() {
             locking={keys.locking}
             lockingAll={keys.lockingAll}
             renaming={keys.renaming}
+            savingRelays={keys.savingRelays}
             encrypting={keys.encrypting}
             migrating={keys.migrating}
             exporting={keys.exporting}
+            rotating={keys.rotating}
+            seeds={seeds}
             forceShowCreateForm={showCreateKeyForm}
             onCreateKey={keys.createKey}
             onDeleteKey={keys.deleteKey}
@@ -409,9 +480,13 @@ function AppContent() {
               return result;
             }}
             onRenameKey={keys.renameKey}
+            onSetKeyRelays={keys.setKeyRelays}
             onEncryptKey={keys.encryptKey}
             onMigrateKey={keys.migrateKey}
             onExportKey={keys.exportKey}
+            onExportKeyShares={keys.exportKeyShares}
+            onRotateKey={keys.rotateKey}
+            onRepublishMigration={keys.republishMigration}
             onClearError={keys.clearError}
             onCreateFormClose={() => setShowCreateKeyForm(false)}
           />
@@ -426,6 +501,12 @@ function AppContent() {
             notificationPermission={notificationPermission}
             onRequestNotificationPermission={handleRequestNotificationPermission}
             keys={keys.keys}
+            trustProfiles={trustProfiles}
+            quorum={quorum}
+            auth={auth}
+            apiTokens={apiTokens}
+            operators={operators}
+            webhooks={webhooks}
           />
         );
 
@@ -450,7 +531,7 @@ function AppContent() {
       onLockKey={keys.lockKey}
       onUnlockKey={keys.unlockKey}
       onConnectApp={() => setConnectAppModalOpen(true)}
-      onAddKey={handleAddKey}
+      onAddKey={canAllKeys('keys') ? handleAddKey : undefined}
     >
       {renderContent()}
 
@@ -469,7 +550,8 @@ function AppContent() {
       {/* Connect App Modal */}
       <ConnectAppModal
         open={connectAppModalOpen}
-        keys={keys.keys}
+        keys={keys.keys.filter(key => can('apps', key.name))}
+        trustProfiles={trustProfiles.profiles}
         onClose={() => setConnectAppModalOpen(false)}
         onSuccess={(warning) => {
           apps.refresh();
@@ -499,13 +581,36 @@ function AppContent() {
   );
 }
 
+// Show the login screen until the user has a session (when the API requires one)
+function AuthGate() {
+  const auth = useAuth();
+
+  if (auth.loading) {
+    return (
+      <div className="app-loading">
+        <LoadingSpinner size="large" text="Connecting to Signet..." />
+      </div>
+    );
+  }
+
+  if (auth.needsLogin) {
+    return <LoginScreen auth={auth} />;
+  }
+
+  return (
+    <AccessProvider status={auth.status}>
+      <ServerEventsProvider>
+        <AppContent auth={auth} />
+      </ServerEventsProvider>
+    </AccessProvider>
+  );
+}
+
 export default function App() {
   return (
     <SettingsProvider>
       <ToastProvider>
-        <ServerEventsProvider>
-          <AppContent />
-        </ServerEventsProvider>
+        <AuthGate />
       </ToastProvider>
     </SettingsProvider>
   );
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AppQuotaConfig, QuotaOverflowAction, QuotaRule } from '@signet/types';
+import { Gauge, Loader2, Plus, Trash2 } from 'lucide-react';
+import styles from './AppQuotaModal.module.css';
+
+const METHOD_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Any method' },
+  { value: 'sign_event', label: 'Sign event' },
+  { value: 'nip44_encrypt', label: 'Encrypt (NIP-44)' },
+  { value: 'nip44_decrypt', label: 'Decrypt (NIP-44)' },
+  { value: 'nip04_encrypt', label: 'Encrypt (NIP-04)' },
+  { value: 'nip04_decrypt', label: 'Decrypt (NIP-04)' },
+  { value: 'get_public_key', label: 'Get public key' },
+];
+
+/** Form state keeps raw input strings so partially typed numbers aren't lost */
+interface RuleDraft {
+  method: string;
+  kind: string;
+  perMinute: string;
+  perHour: string;
+  perDay: string;
+}
+
+function toDraft(rule: QuotaRule): RuleDraft {
+  return {
+    method: rule.method ?? '',
+    kind: rule.kind !== undefined ? String(rule.kind) : '',
+    perMinute: rule.perMinute !== undefined ? String(rule.perMinute) : '',
+    perHour: rule.perHour !== undefined ? String(rule.perHour) : '',
+    perDay: rule.perDay !== undefined ? String(rule.perDay) : '',
+  };
+}
+
+function parseCount(value: string): number | undefined | null {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) return null;
+  return parsed;
+}
+
+const EMPTY_RULE: RuleDraft = { method: 'sign_event', kind: '', perMinute: '', perHour: '', perDay: '' };
+
+interface AppQuotaModalProps {
+  open: boolean;
+  appName: string;
+  quotas: AppQuotaConfig | null;
+  loading: boolean;
+  error: string | null;
+  onSubmit: (quotas: AppQuotaConfig | null) => void;
+  onCancel: () => void;
+}
+
+export function AppQuotaModal({
+  open,
+  appName,
+  quotas,
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: AppQuotaModalProps) {
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+  const [overflow, setOverflow] = useState<QuotaOverflowAction>('deny');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setRules(quotas?.rules.length ? quotas.rules.map(toDraft) : [{ ...EMPTY_RULE }]);
+      setOverflow(quotas?.overflow ?? 'deny');
+      setValidationError(null);
+    }
+  }, [open, quotas]);
+
+  const updateRule = (index: number, field: keyof RuleDraft, value: string) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, [field]: value } : rule));
+  };
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null);
+
+    const parsedRules: QuotaRule[] = [];
+    for (const draft of rules) {
+      const perMinute = parseCount(draft.perMinute);
+      const perHour = parseCount(draft.perHour);
+      const perDay = parseCount(draft.perDay);
+      const kind = draft.kind.trim() ? Number(draft.kind) : undefined;
+
+      if (perMinute === null || perHour === null || perDay === null) {
+        setValidationError('Limits must be whole numbers greater than zero');
+        return;
+      }
+      if (perMinute === undefined && perHour === undefined && perDay === undefined) {
+        setValidationError('Each rule needs at least one limit');
+        return;
+      }
+      if (kind !== undefined && (!Number.isInteger(kind) || kind < 0)) {
+        setValidationError('Event kind must be a whole number');
+        return;
+      }
+
+      parsedRules.push({
+        method: draft.method || undefined,
+        kind: draft.method === 'sign_event' || !draft.method ? kind : undefined,
+        perMinute,
+        perHour,
+        perDay,
+      });
+    }
+
+    onSubmit(parsedRules.length > 0 ? { rules: parsedRules, overflow } : null);
+  }, [rules, overflow, onSubmit]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  }, [onCancel]);
+
+  if (!open) return null;
+
+  const displayError = validationError || error;
+
+  return (
+    <div className={styles.overlay} onClick={onCancel} onKeyDown={handleKeyDown}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quota-modal-title"
+      >
+        <div className={styles.header}>
+          <div className={styles.icon}>
+            <Gauge size={20} />
+          </div>
+          <h2 id="quota-modal-title" className={styles.title}>Rate Limits</h2>
+        </div>
+
+        <p className={styles.description}>
+          Cap how many requests <strong>{appName}</strong> can have approved automatically.
+          Limits apply before trust level and permission auto-approval.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <div className={styles.rules}>
+            {rules.map((rule, index) => (
+              <div key={index} className={styles.rule}>
+                <div className={styles.ruleTarget}>
+                  <select
+                    className={styles.select}
+                    value={rule.method}
+                    onChange={(e) => updateRule(index, 'method', e.target.value)}
+                    disabled={loading}
+                    aria-label="Method"
+                  >
+                    {METHOD_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {(rule.method === 'sign_event' || !rule.method) && (
+                    <input
+                      type="number"
+                      min={0}
+                      className={styles.kindInput}
+                      value={rule.kind}
+                      onChange={(e) => updateRule(index, 'kind', e.target.value)}
+                      placeholder="Any kind"
+                      disabled={loading}
+                      aria-label="Event kind"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    className={styles.removeButton}
+                    onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                    disabled={loading}
+                    aria-label="Remove rule"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className={styles.limits}>
+                  <label className={styles.limit}>
+                    <input
+                      type="number"
+                      min={1}
+                      className={styles.limitInput}
+                      value={rule.perMinute}
+                      onChange={(e) => updateRule(index, 'perMinute', e.target.value)}
+                      disabled={loading}
+                    />
+                    <span>/ min</span>
+                  </label>
+                  <label className={styles.limit}>
+                    <input
+                      type="number"
+                      min={1}
+                      className={styles.limitInput}
+                      value={rule.perHour}
+                      onChange={(e) => updateRule(index, 'perHour', e.target.value)}
+                      disabled={loading}
+                    />
+                    <span>/ hour</span>
+                  </label>
+                  <label className={styles.limit}>
+                    <input
+                      type="number"
+                      min={1}
+                      className={styles.limitInput}
+                      value={rule.perDay}
+                      onChange={(e) => updateRule(index, 'perDay', e.target.value)}
+                      disabled={loading}
+                    />
+                    <span>/ day</span>
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            className={styles.addButton}
+            onClick={() => setRules(prev => [...prev, { ...EMPTY_RULE }])}
+            disabled={loading}
+          >
+            <Plus size={14} />
+            Add rule
+          </button>
+
+          <div className={styles.options}>
+            <span className={styles.optionsLabel}>When a limit is reached</span>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name="quotaOverflow"
+                value="deny"
+                checked={overflow === 'deny'}
+                onChange={() => setOverflow('deny')}
+                disabled={loading}
+              />
+              <span className={styles.optionLabel}>Deny the request</span>
+            </label>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name="quotaOverflow"
+                value="manual"
+                checked={overflow === 'manual'}
+                onChange={() => setOverflow('manual')}
+                disabled={loading}
+              />
+              <span className={styles.optionLabel}>Ask me to approve it</span>
+            </label>
+          </div>
+
+          {displayError && (
+            <p className={styles.error}>{displayError}</p>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onCancel}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.submitButton}
+              disabled={loading}
+            >
+              {loading ? (
+                <>
+                  <Loader2 size={14} className={styles.spinning} />
+                  Saving...
+                </>
+              ) : (
+                rules.length === 0 ? 'Remove Limits' : 'Save Limits'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
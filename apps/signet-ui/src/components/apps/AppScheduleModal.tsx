@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AppSchedule, ScheduleOutsideAction, ScheduleWindow } from '@signet/types';
+import { CalendarClock, Loader2, Plus, Trash2 } from 'lucide-react';
+import { WEEKDAY_LABELS, getLocalTimezone, isValidTimezone, parseTimeOfDay } from '../../lib/schedule.js';
+import styles from './AppScheduleModal.module.css';
+
+const EMPTY_WINDOW: ScheduleWindow = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+interface AppScheduleModalProps {
+  open: boolean;
+  appName: string;
+  schedule: AppSchedule | null;
+  loading: boolean;
+  error: string | null;
+  onSubmit: (schedule: AppSchedule | null) => void;
+  onCancel: () => void;
+}
+
+export function AppScheduleModal({
+  open,
+  appName,
+  schedule,
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: AppScheduleModalProps) {
+  const [timezone, setTimezone] = useState('');
+  const [windows, setWindows] = useState<ScheduleWindow[]>([]);
+  const [outside, setOutside] = useState<ScheduleOutsideAction>('manual');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setTimezone(schedule?.timezone ?? getLocalTimezone());
+      setWindows(schedule?.windows.length ? schedule.windows : [{ ...EMPTY_WINDOW }]);
+      setOutside(schedule?.outside ?? 'manual');
+      setValidationError(null);
+    }
+  }, [open, schedule]);
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    setWindows(prev => prev.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null);
+
+    if (windows.length === 0) {
+      onSubmit(null);
+      return;
+    }
+    if (!isValidTimezone(timezone.trim())) {
+      setValidationError('Unknown timezone');
+      return;
+    }
+    for (const window of windows) {
+      if (window.days.length === 0) {
+        setValidationError('Each window needs at least one day');
+        return;
+      }
+      if (parseTimeOfDay(window.start) === null || parseTimeOfDay(window.end) === null) {
+        setValidationError('Times must be in HH:MM format');
+        return;
+      }
+    }
+
+    onSubmit({ timezone: timezone.trim(), windows, outside });
+  }, [timezone, windows, outside, onSubmit]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  }, [onCancel]);
+
+  if (!open) return null;
+
+  const displayError = validationError || error;
+
+  return (
+    <div className={styles.overlay} onClick={onCancel} onKeyDown={handleKeyDown}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="schedule-modal-title"
+      >
+        <div className={styles.header}>
+          <div className={styles.icon}>
+            <CalendarClock size={20} />
+          </div>
+          <h2 id="schedule-modal-title" className={styles.title}>Schedule</h2>
+        </div>
+
+        <p className={styles.description}>
+          Only let <strong>{appName}</strong> act during these windows.
+          Outside them nothing is approved automatically.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Timezone</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g., Europe/Berlin"
+              disabled={loading}
+            />
+          </label>
+
+          <div className={styles.windows}>
+            {windows.map((window, index) => (
+              <div key={index} className={styles.window}>
+                <div className={styles.days}>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      className={`${styles.day} ${window.days.includes(day) ? styles.daySelected : ''}`}
+                      onClick={() => toggleDay(index, day)}
+                      disabled={loading}
+                      aria-pressed={window.days.includes(day)}
+                    >
+                      {label.slice(0, 2)}
+                    </button>
+                  ))}
+                </div>
+                <div className={styles.times}>
+                  <input
+                    type="time"
+                    className={styles.input}
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                    disabled={loading}
+                    aria-label="Start time"
+                  />
+                  <span className={styles.timeSeparator}>to</span>
+                  <input
+                    type="time"
+                    className={styles.input}
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                    disabled={loading}
+                    aria-label="End time"
+                  />
+                  <button
+                    type="button"
+                    className={styles.removeButton}
+                    onClick={() => setWindows(prev => prev.filter((_, i) => i !== index))}
+                    disabled={loading}
+                    aria-label="Remove window"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            className={styles.addButton}
+            onClick={() => setWindows(prev => [...prev, { ...EMPTY_WINDOW }])}
+            disabled={loading}
+          >
+            <Plus size={14} />
+            Add window
+          </button>
+
+          <div className={styles.options}>
+            <span className={styles.fieldLabel}>Outside the schedule</span>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name="scheduleOutside"
+                value="manual"
+                checked={outside === 'manual'}
+                onChange={() => setOutside('manual')}
+                disabled={loading}
+              />
+              <span className={styles.optionLabel}>Ask me to approve requests</span>
+            </label>
+            <label className={styles.option}>
+              <input
+                type="radio"
+                name="scheduleOutside"
+                value="deny"
+                checked={outside === 'deny'}
+                onChange={() => setOutside('deny')}
+                disabled={loading}
+              />
+              <span className={styles.optionLabel}>Deny requests</span>
+            </label>
+          </div>
+
+          {displayError && (
+            <p className={styles.error}>{displayError}</p>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onCancel}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.submitButton}
+              disabled={loading}
+            >
+              {loading ? (
+                <>
+                  <Loader2 size={14} className={styles.spinning} />
+                  Saving...
+                </>
+              ) : (
+                windows.length === 0 ? 'Remove Schedule' : 'Save Schedule'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
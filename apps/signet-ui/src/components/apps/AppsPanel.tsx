@@ -1,13 +1,17 @@
-import React, { useState, useMemo } from 'react';
-import type { ConnectedApp, TrustLevel, MethodBreakdown } from '@signet/types';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { AppQuotaConfig, AppSchedule, ConnectedApp, TrustLevel, TrustProfile, MethodBreakdown } from '@signet/types';
 import { parseConnectPermissions, formatPermission } from '@signet/types';
-import { toNpub, formatLastActive } from '../../lib/formatters.js';
+import { toNpub, formatLastActive, formatTimeAgo, formatQuotaLimit, formatQuotaRule, formatScheduleWindow, formatSigningCondition, formatPolicyRuleTarget, formatAppPolicyRuleUsage } from '../../lib/formatters.js';
 import { getPermissionRisk, getTrustLevelInfo } from '../../lib/event-labels.js';
 import { LoadingSpinner } from '../shared/LoadingSpinner.js';
 import { ConfirmDialog } from '../shared/ConfirmDialog.js';
 import { PageHeader } from '../shared/PageHeader.js';
 import { SuspendAppModal } from './SuspendAppModal.js';
-import { ChevronDown, ChevronRight, Search, Smartphone, Pause, Play, Plus, Loader2 } from 'lucide-react';
+import { AppQuotaModal } from './AppQuotaModal.js';
+import { AppScheduleModal } from './AppScheduleModal.js';
+import { isWithinSchedule } from '../../lib/schedule.js';
+import { useAccess } from '../../hooks/useAccess.js';
+import { ChevronDown, ChevronRight, Search, Smartphone, Pause, Play, Plus, Loader2, X } from 'lucide-react';
 import styles from './AppsPanel.module.css';
 
 const METHOD_COLORS: Record<keyof MethodBreakdown, string> = {
@@ -67,6 +71,7 @@ type SortOption = 'recent' | 'requests' | 'name';
 
 interface AppsPanelProps {
   apps: ConnectedApp[];
+  trustProfiles: TrustProfile[];
   loading: boolean;
   error: string | null;
   suspendingAll: boolean;
@@ -74,6 +79,10 @@ interface AppsPanelProps {
   onRevokeApp: (appId: number) => Promise<boolean>;
   onUpdateDescription: (appId: number, description: string) => Promise<boolean>;
   onUpdateTrustLevel: (appId: number, trustLevel: TrustLevel) => Promise<boolean>;
+  onUpdateTrustProfile: (appId: number, trustProfileId: number) => Promise<boolean>;
+  onUpdateQuotas: (appId: number, quotas: AppQuotaConfig | null) => Promise<boolean>;
+  onUpdateSchedule: (appId: number, schedule: AppSchedule | null) => Promise<boolean>;
+  onRemoveCondition: (appId: number, conditionId: number) => Promise<boolean>;
   onSuspendApp: (appId: number, until?: Date) => Promise<boolean>;
   onUnsuspendApp: (appId: number) => Promise<boolean>;
   onSuspendAllApps: (until?: Date) => Promise<{ success: boolean; suspendedCount?: number }>;
@@ -84,6 +93,7 @@ interface AppsPanelProps {
 
 export function AppsPanel({
   apps,
+  trustProfiles,
   loading,
   error,
   suspendingAll,
@@ -91,6 +101,10 @@ export function AppsPanel({
   onRevokeApp,
   onUpdateDescription,
   onUpdateTrustLevel,
+  onUpdateTrustProfile,
+  onUpdateQuotas,
+  onUpdateSchedule,
+  onRemoveCondition,
   onSuspendApp,
   onUnsuspendApp,
   onSuspendAllApps,
@@ -98,6 +112,7 @@ export function AppsPanel({
   onClearError,
   onOpenConnectModal,
 }: AppsPanelProps) {
+  const { can, canAllKeys } = useAccess();
   const [expandedId, setExpandedId] = useState<number | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editName, setEditName] = useState('');
@@ -105,11 +120,23 @@ export function AppsPanel({
   const [suspendModalApp, setSuspendModalApp] = useState<ConnectedApp | null>(null);
   const [showSuspendAllModal, setShowSuspendAllModal] = useState(false);
   const [suspending, setSuspending] = useState(false);
+  const [quotaModalApp, setQuotaModalApp] = useState<ConnectedApp | null>(null);
+  const [savingQuotas, setSavingQuotas] = useState(false);
+  const [scheduleModalApp, setScheduleModalApp] = useState<ConnectedApp | null>(null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const [now, setNow] = useState(() => new Date());
   const [trustMenuOpen, setTrustMenuOpen] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [keyFilter, setKeyFilter] = useState('all');
   const [sortBy, setSortBy] = useState<SortOption>('recent');
 
+  // Re-evaluate schedule badges as time passes
+  useEffect(() => {
+    if (!apps.some(app => app.schedule)) return;
+    const interval = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(interval);
+  }, [apps]);
+
   // Calculate counts for bulk actions
   const activeAppsCount = useMemo(() => apps.filter(app => !app.suspendedAt).length, [apps]);
   const suspendedAppsCount = useMemo(() => apps.filter(app => !!app.suspendedAt).length, [apps]);
@@ -190,6 +217,11 @@ export function AppsPanel({
     setTrustMenuOpen(null);
   };
 
+  const handleTrustProfileChange = async (appId: number, trustProfileId: number) => {
+    await onUpdateTrustProfile(appId, trustProfileId);
+    setTrustMenuOpen(null);
+  };
+
   const handleSuspendSubmit = async (until?: Date) => {
     if (!suspendModalApp) return;
     setSuspending(true);
@@ -201,6 +233,32 @@ export function AppsPanel({
     }
   };
 
+  const handleQuotaSubmit = async (quotas: AppQuotaConfig | null) => {
+    if (!quotaModalApp) return;
+    setSavingQuotas(true);
+    try {
+      const success = await onUpdateQuotas(quotaModalApp.id, quotas);
+      if (success) {
+        setQuotaModalApp(null);
+      }
+    } finally {
+      setSavingQuotas(false);
+    }
+  };
+
+  const handleScheduleSubmit = async (schedule: AppSchedule | null) => {
+    if (!scheduleModalApp) return;
+    setSavingSchedule(true);
+    try {
+      const success = await onUpdateSchedule(scheduleModalApp.id, schedule);
+      if (success) {
+        setScheduleModalApp(null);
+      }
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
   const handleSuspendAllSubmit = async (until?: Date) => {
     const result = await onSuspendAllApps(until);
     if (result.success) {
@@ -227,31 +285,35 @@ export function AppsPanel({
         count={apps.length}
         action={
           <div className={styles.headerActions}>
-            <button
-              type="button"
-              className={styles.iconButton}
-              onClick={handleToggleSuspendResume}
-              disabled={apps.length === 0 || suspendingAll || resumingAll}
-              title={allSuspended ? 'Resume all apps' : 'Suspend all apps'}
-              aria-label={allSuspended ? 'Resume all apps' : 'Suspend all apps'}
-            >
-              {suspendingAll || resumingAll ? (
-                <Loader2 size={16} className={styles.spinning} />
-              ) : allSuspended ? (
-                <Play size={16} />
-              ) : (
-                <Pause size={16} />
-              )}
-            </button>
-            <button
-              type="button"
-              className={styles.iconButton}
-              onClick={onOpenConnectModal}
-              title="Connect app"
-              aria-label="Connect app"
-            >
-              <Plus size={16} />
-            </button>
+            {canAllKeys('apps') && (
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={handleToggleSuspendResume}
+                disabled={apps.length === 0 || suspendingAll || resumingAll}
+                title={allSuspended ? 'Resume all apps' : 'Suspend all apps'}
+                aria-label={allSuspended ? 'Resume all apps' : 'Suspend all apps'}
+              >
+                {suspendingAll || resumingAll ? (
+                  <Loader2 size={16} className={styles.spinning} />
+                ) : allSuspended ? (
+                  <Play size={16} />
+                ) : (
+                  <Pause size={16} />
+                )}
+              </button>
+            )}
+            {can('apps') && (
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={onOpenConnectModal}
+                title="Connect app"
+                aria-label="Connect app"
+              >
+                <Plus size={16} />
+              </button>
+            )}
           </div>
         }
       />
@@ -327,8 +389,13 @@ export function AppsPanel({
           {filteredApps.map(app => {
             const isExpanded = expandedId === app.id;
             const isSuspended = !!app.suspendedAt;
+            const mayManage = can('apps', app.keyName);
             const trustInfo = getTrustLevelInfo(app.trustLevel);
+            // A custom trust profile replaces the app's trust level
+            const trustLabel = app.trustProfile?.name ?? trustInfo.label;
+            const trustClass = app.trustProfile ? styles.custom : styles[app.trustLevel];
             const displayName = app.description || toNpub(app.userPubkey).slice(0, 16) + '...';
+            const ruleConditions = app.conditions.filter(condition => condition.constraints || !condition.allowed);
 
             return (
               <div key={app.id} className={`${styles.appCard} ${isExpanded ? styles.expanded : ''} ${isSuspended ? styles.suspended : ''}`}>
@@ -345,9 +412,16 @@ export function AppsPanel({
                   <div className={styles.appMeta}>
                     <span className={styles.appKey}>{app.keyName}</span>
                     <span className={styles.dot}>•</span>
-                    <span className={`${styles.trustBadge} ${styles[app.trustLevel]}`}>
-                      {trustInfo.label}
+                    <span className={`${styles.trustBadge} ${trustClass}`}>
+                      {trustLabel}
                     </span>
+                    {app.schedule && (
+                      isWithinSchedule(app.schedule, now) ? (
+                        <span className={`${styles.scheduleBadge} ${styles.inSchedule}`}>On schedule</span>
+                      ) : (
+                        <span className={`${styles.scheduleBadge} ${styles.offSchedule}`}>Off schedule</span>
+                      )
+                    )}
                   </div>
                   <span className={styles.appRequests}>{app.requestCount} requests</span>
                   <span className={styles.expandIcon}>
@@ -378,6 +452,54 @@ export function AppsPanel({
                       </div>
                     </div>
 
+                    {ruleConditions.length > 0 && (
+                      <div className={styles.detailSection}>
+                        <span className={styles.detailLabel}>Signing Rules</span>
+                        <div className={styles.conditionList}>
+                          {ruleConditions.map(condition => (
+                            <div key={condition.id} className={styles.condition}>
+                              <span className={`${styles.permission} ${condition.allowed ? styles.low : styles.high}`}>
+                                {formatSigningCondition(condition)}
+                              </span>
+                              {mayManage && (
+                                <button
+                                  type="button"
+                                  className={styles.conditionRemove}
+                                  onClick={() => onRemoveCondition(app.id, condition.id)}
+                                  aria-label="Remove rule"
+                                >
+                                  <X size={12} />
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {app.policy && (
+                      <div className={styles.detailSection}>
+                        <span className={styles.detailLabel}>Policy</span>
+                        <div className={styles.conditionList}>
+                          {app.policy.rules.map(rule => (
+                            <span
+                              key={rule.id}
+                              className={`${styles.permission} ${rule.remainingUsage === 0 ? styles.critical : ''}`}
+                              title={formatAppPolicyRuleUsage(rule)}
+                            >
+                              {formatPolicyRuleTarget(rule)}: {rule.remainingUsage === null ? 'unlimited' : `${rule.remainingUsage} left`}
+                            </span>
+                          ))}
+                        </div>
+                        <span className={styles.quotaNote}>
+                          {app.policy.name}
+                          {app.policy.expired
+                            ? ' · expired'
+                            : app.policy.expiresAt ? ` · expires ${new Date(app.policy.expiresAt).toLocaleString()}` : ''}
+                        </span>
+                      </div>
+                    )}
+
                     {app.requestCount > 0 && (
                       <div className={styles.detailSection}>
                         <span className={styles.detailLabel}>Usage</span>
@@ -390,10 +512,11 @@ export function AppsPanel({
                       <div className={styles.trustSelector}>
                         <button
                           type="button"
-                          className={`${styles.trustButton} ${styles[app.trustLevel]}`}
+                          className={`${styles.trustButton} ${trustClass}`}
                           onClick={() => setTrustMenuOpen(trustMenuOpen === app.id ? null : app.id)}
+                          disabled={!mayManage}
                         >
-                          {trustInfo.label}
+                          {trustLabel}
                           <ChevronDown size={14} />
                         </button>
                         {trustMenuOpen === app.id && (
@@ -404,7 +527,7 @@ export function AppsPanel({
                                 <button
                                   type="button"
                                   key={level}
-                                  className={`${styles.trustMenuItem} ${app.trustLevel === level ? styles.selected : ''}`}
+                                  className={`${styles.trustMenuItem} ${!app.trustProfile && app.trustLevel === level ? styles.selected : ''}`}
                                   onClick={() => handleTrustChange(app.id, level)}
                                 >
                                   <span className={styles.trustMenuLabel}>{info.label}</span>
@@ -412,45 +535,105 @@ export function AppsPanel({
                                 </button>
                               );
                             })}
+                            {trustProfiles.map(profile => (
+                              <button
+                                type="button"
+                                key={profile.id}
+                                className={`${styles.trustMenuItem} ${app.trustProfile?.id === profile.id ? styles.selected : ''}`}
+                                onClick={() => handleTrustProfileChange(app.id, profile.id)}
+                              >
+                                <span className={styles.trustMenuLabel}>{profile.name}</span>
+                                <span className={styles.trustMenuDesc}>{profile.description ?? 'Custom trust profile'}</span>
+                              </button>
+                            ))}
                           </div>
                         )}
                       </div>
                     </div>
 
-                    <div className={styles.actions}>
-                      {editingId === app.id ? (
-                        <div className={styles.editRow}>
-                          <input
-                            type="text"
-                            className={styles.editInput}
-                            value={editName}
-                            onChange={(e) => setEditName(e.target.value)}
-                            placeholder="App name"
-                            autoFocus
-                          />
-                          <button type="button" className={styles.saveButton} onClick={saveEdit}>Save</button>
-                          <button type="button" className={styles.cancelButton} onClick={cancelEdit}>Cancel</button>
-                        </div>
+                    <div className={styles.detailSection}>
+                      <span className={styles.detailLabel}>Rate Limits</span>
+                      {app.quotas ? (
+                        <>
+                          <div className={styles.permissions}>
+                            {app.quotas.rules.map((rule, i) => (
+                              <span key={i} className={styles.permission}>{formatQuotaRule(rule)}</span>
+                            ))}
+                          </div>
+                          <span className={styles.quotaNote}>
+                            {app.quotas.overflow === 'manual' ? 'Over limit: ask for approval' : 'Over limit: deny'}
+                          </span>
+                        </>
                       ) : (
+                        <span className={styles.quotaNote}>No limits</span>
+                      )}
+                      {app.lastQuotaHit && (
+                        <span className={styles.quotaHit}>
+                          Limit of {formatQuotaLimit(app.lastQuotaHit.limit, app.lastQuotaHit.window)} reached {formatTimeAgo(app.lastQuotaHit.at)}
+                        </span>
+                      )}
+                    </div>
+
+                    <div className={styles.detailSection}>
+                      <span className={styles.detailLabel}>Schedule</span>
+                      {app.schedule ? (
                         <>
-                          <button type="button" className={styles.renameButton} onClick={() => startEdit(app)}>
-                            Rename
-                          </button>
-                          {isSuspended ? (
-                            <button type="button" className={styles.resumeButton} onClick={() => onUnsuspendApp(app.id)}>
-                              Resume
-                            </button>
-                          ) : (
-                            <button type="button" className={styles.suspendButton} onClick={() => setSuspendModalApp(app)}>
-                              Suspend
-                            </button>
-                          )}
-                          <button type="button" className={styles.revokeButton} onClick={() => setRevokeConfirm(app.id)}>
-                            Revoke Access
-                          </button>
+                          <div className={styles.permissions}>
+                            {app.schedule.windows.map((window, i) => (
+                              <span key={i} className={styles.permission}>{formatScheduleWindow(window)}</span>
+                            ))}
+                          </div>
+                          <span className={styles.quotaNote}>
+                            {app.schedule.timezone} · {app.schedule.outside === 'manual' ? 'Outside: ask for approval' : 'Outside: deny'}
+                          </span>
                         </>
+                      ) : (
+                        <span className={styles.quotaNote}>Any time</span>
                       )}
                     </div>
+
+                    {mayManage && (
+                      <div className={styles.actions}>
+                        {editingId === app.id ? (
+                          <div className={styles.editRow}>
+                            <input
+                              type="text"
+                              className={styles.editInput}
+                              value={editName}
+                              onChange={(e) => setEditName(e.target.value)}
+                              placeholder="App name"
+                              autoFocus
+                            />
+                            <button type="button" className={styles.saveButton} onClick={saveEdit}>Save</button>
+                            <button type="button" className={styles.cancelButton} onClick={cancelEdit}>Cancel</button>
+                          </div>
+                        ) : (
+                          <>
+                            <button type="button" className={styles.renameButton} onClick={() => startEdit(app)}>
+                              Rename
+                            </button>
+                            <button type="button" className={styles.renameButton} onClick={() => { onClearError(); setQuotaModalApp(app); }}>
+                              Rate Limits
+                            </button>
+                            <button type="button" className={styles.renameButton} onClick={() => { onClearError(); setScheduleModalApp(app); }}>
+                              Schedule
+                            </button>
+                            {isSuspended ? (
+                              <button type="button" className={styles.resumeButton} onClick={() => onUnsuspendApp(app.id)}>
+                                Resume
+                              </button>
+                            ) : (
+                              <button type="button" className={styles.suspendButton} onClick={() => setSuspendModalApp(app)}>
+                                Suspend
+                              </button>
+                            )}
+                            <button type="button" className={styles.revokeButton} onClick={() => setRevokeConfirm(app.id)}>
+                              Revoke Access
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -478,6 +661,26 @@ export function AppsPanel({
         onCancel={() => setSuspendModalApp(null)}
       />
 
+      <AppQuotaModal
+        open={quotaModalApp !== null}
+        appName={quotaModalApp?.description || toNpub(quotaModalApp?.userPubkey || '').slice(0, 16) + '...'}
+        quotas={quotaModalApp?.quotas ?? null}
+        loading={savingQuotas}
+        error={error}
+        onSubmit={handleQuotaSubmit}
+        onCancel={() => setQuotaModalApp(null)}
+      />
+
+      <AppScheduleModal
+        open={scheduleModalApp !== null}
+        appName={scheduleModalApp?.description || toNpub(scheduleModalApp?.userPubkey || '').slice(0, 16) + '...'}
+        schedule={scheduleModalApp?.schedule ?? null}
+        loading={savingSchedule}
+        error={error}
+        onSubmit={handleScheduleSubmit}
+        onCancel={() => setScheduleModalApp(null)}
+      />
+
       <SuspendAppModal
         open={showSuspendAllModal}
         appCount={activeAppsCount}
@@ -16,9 +16,10 @@ import {
   ChevronRight,
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
-import type { KeyInfo, TrustLevel } from '@signet/types';
+import type { KeyInfo, TrustLevel, TrustProfile } from '@signet/types';
 import { connectViaNostrconnect, generateConnectionToken, getRelayTrustScores } from '../../lib/api-client.js';
 import { copyToClipboard } from '../../lib/clipboard.js';
+import { formatTrustProfileKinds } from '../../lib/trust-profiles.js';
 import {
   parseNostrconnectUri,
   formatPermission,
@@ -33,6 +34,7 @@ const QRScanner = lazy(() => import('../shared/QRScanner.js').then(m => ({ defau
 interface ConnectAppModalProps {
   open: boolean;
   keys: KeyInfo[];
+  trustProfiles: TrustProfile[];
   onClose: () => void;
   /** Called on success. Warning is set if relay notification failed (partial success). */
   onSuccess: (warning?: string) => void;
@@ -61,6 +63,7 @@ type TabType = 'bunker' | 'nostrconnect';
 export function ConnectAppModal({
   open,
   keys,
+  trustProfiles,
   onClose,
   onSuccess,
 }: ConnectAppModalProps) {
@@ -72,6 +75,7 @@ export function ConnectAppModal({
   const [appName, setAppName] = useState('');
   const [selectedKeyName, setSelectedKeyName] = useState('');
   const [trustLevel, setTrustLevel] = useState<TrustLevel>('reasonable');
+  const [trustProfileId, setTrustProfileId] = useState<number | null>(null);
   const [connecting, setConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showScanner, setShowScanner] = useState(false);
@@ -96,6 +100,8 @@ export function ConnectAppModal({
 
   const parsedData: ParsedNostrconnect | null = parseResult?.success ? parseResult.data : null;
 
+  const selectedProfile = trustProfiles.find((profile) => profile.id === trustProfileId) ?? null;
+
   // Get active keys for selection
   const activeKeys = useMemo(() => keys.filter((k) => k.status === 'online'), [keys]);
 
@@ -204,6 +210,7 @@ export function ConnectAppModal({
     setAppName('');
     setSelectedKeyName('');
     setTrustLevel('reasonable');
+    setTrustProfileId(null);
     setError(null);
     setShowScanner(false);
     setDetailsExpanded(false);
@@ -230,6 +237,7 @@ export function ConnectAppModal({
         uri,
         keyName: selectedKeyName,
         trustLevel,
+        trustProfileId: selectedProfile?.id,
         description: appName || undefined,
       });
 
@@ -249,7 +257,7 @@ export function ConnectAppModal({
     } finally {
       setConnecting(false);
     }
-  }, [parsedData, selectedKeyName, trustLevel, uri, appName, onSuccess, handleClose]);
+  }, [parsedData, selectedKeyName, trustLevel, selectedProfile, uri, appName, onSuccess, handleClose]);
 
   // Handle QR scan result
   const handleQRScan = useCallback((result: string) => {
@@ -668,17 +676,32 @@ export function ConnectAppModal({
                       <select
                         id="trust-level"
                         className={styles.select}
-                        value={trustLevel}
-                        onChange={(e) => setTrustLevel(e.target.value as TrustLevel)}
+                        value={selectedProfile ? `profile-${selectedProfile.id}` : trustLevel}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (value.startsWith('profile-')) {
+                            setTrustProfileId(Number(value.slice('profile-'.length)));
+                          } else {
+                            setTrustLevel(value as TrustLevel);
+                            setTrustProfileId(null);
+                          }
+                        }}
                       >
                         {TRUST_LEVEL_OPTIONS.map((option) => (
                           <option key={option.value} value={option.value}>
                             {option.label}
                           </option>
                         ))}
+                        {trustProfiles.map((profile) => (
+                          <option key={profile.id} value={`profile-${profile.id}`}>
+                            {profile.name}
+                          </option>
+                        ))}
                       </select>
                       <p className={styles.fieldHint}>
-                        {TRUST_LEVEL_OPTIONS.find((o) => o.value === trustLevel)?.description}
+                        {selectedProfile
+                          ? formatTrustProfileKinds(selectedProfile.kinds)
+                          : TRUST_LEVEL_OPTIONS.find((o) => o.value === trustLevel)?.description}
                       </p>
                     </div>
                   </div>
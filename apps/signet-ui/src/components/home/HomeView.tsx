@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import type { DisplayRequest, DashboardStats, TrustLevel, RelayStatusResponse, MixedActivityEntry, HealthStatus, KeyInfo } from '@signet/types';
+import type { DisplayRequest, DashboardStats, TrustLevel, TrustProfile, RelayStatusResponse, MixedActivityEntry, HealthStatus, KeyInfo } from '@signet/types';
 import type { UIHealthStatus } from '../../hooks/useHealth.js';
 import type { DeadManSwitchStatus } from '../../lib/api-client.js';
 import { Key } from 'lucide-react';
 import { PageHeader } from '../shared/PageHeader.js';
 import { SkeletonStatCard, SkeletonCard } from '../shared/Skeleton.js';
 import { SystemStatusModal } from '../shared/SystemStatusModal.js';
+import { RelayDetailModal } from '../shared/RelayDetailModal.js';
 import { StatsRow } from './StatsRow.js';
 import { PendingRequestsList } from './PendingRequestsList.js';
 import { RecentActivityFeed } from './RecentActivityFeed.js';
@@ -25,10 +26,11 @@ interface HomeViewProps {
   keys: KeyInfo[];
   passwords: Record<string, string>;
   appNames: Record<string, string>;
+  trustProfiles: TrustProfile[];
   showAutoApproved: boolean;
   onPasswordChange: (requestId: string, password: string) => void;
   onAppNameChange: (requestId: string, appName: string) => void;
-  onApprove: (requestId: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string) => Promise<void>;
+  onApprove: (requestId: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string, trustProfileId?: number) => Promise<void>;
   onDeny: (requestId: string) => Promise<void>;
   onViewDetails: (request: DisplayRequest) => void;
   onNavigateToActivity: () => void;
@@ -52,6 +54,7 @@ export function HomeView({
   keys,
   passwords,
   appNames,
+  trustProfiles,
   showAutoApproved,
   onPasswordChange,
   onAppNameChange,
@@ -65,6 +68,7 @@ export function HomeView({
   onReset,
 }: HomeViewProps) {
   const [statusModalOpen, setStatusModalOpen] = useState(false);
+  const [relayModalOpen, setRelayModalOpen] = useState(false);
 
   if (loading) {
     return (
@@ -128,6 +132,16 @@ export function HomeView({
         deadManSwitchUrgency={deadManSwitchUrgency}
         keys={keys}
         onReset={onReset}
+        onOpenRelayHealth={() => {
+          setStatusModalOpen(false);
+          setRelayModalOpen(true);
+        }}
+      />
+
+      <RelayDetailModal
+        open={relayModalOpen}
+        onClose={() => setRelayModalOpen(false)}
+        relayStatus={relayStatus}
       />
 
       {/* Onboarding - show when no keys exist at all */}
@@ -156,6 +170,7 @@ export function HomeView({
             requests={requests}
             passwords={passwords}
             appNames={appNames}
+            trustProfiles={trustProfiles}
             onPasswordChange={onPasswordChange}
             onAppNameChange={onAppNameChange}
             onApprove={onApprove}
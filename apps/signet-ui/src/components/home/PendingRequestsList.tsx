@@ -1,19 +1,24 @@
 import React, { useState } from 'react';
-import type { DisplayRequest, TrustLevel } from '@signet/types';
+import type { DisplayRequest, TrustLevel, TrustProfile } from '@signet/types';
 import { getMethodLabel, getKindLabel } from '@signet/types';
 import { ChevronDown, ChevronRight, Check, X, Inbox } from 'lucide-react';
 import { getTrustLevelInfo } from '../../lib/event-labels.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import styles from './HomeView.module.css';
 
 const TRUST_LEVELS: TrustLevel[] = ['paranoid', 'reasonable', 'full'];
 
+// A built-in trust level or the ID of a custom trust profile
+type TrustChoice = TrustLevel | number;
+
 interface PendingRequestsListProps {
   requests: DisplayRequest[];
   passwords: Record<string, string>;
   appNames: Record<string, string>;
+  trustProfiles: TrustProfile[];
   onPasswordChange: (requestId: string, password: string) => void;
   onAppNameChange: (requestId: string, appName: string) => void;
-  onApprove: (requestId: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string) => Promise<void>;
+  onApprove: (requestId: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string, trustProfileId?: number) => Promise<void>;
   onDeny: (requestId: string) => Promise<void>;
   onViewDetails: (request: DisplayRequest) => void;
 }
@@ -22,31 +27,42 @@ export function PendingRequestsList({
   requests,
   passwords,
   appNames,
+  trustProfiles,
   onPasswordChange,
   onAppNameChange,
   onApprove,
   onDeny,
   onViewDetails,
 }: PendingRequestsListProps) {
+  const { can } = useAccess();
   const [expandedRequestId, setExpandedRequestId] = useState<string | null>(null);
-  const [selectedTrustLevels, setSelectedTrustLevels] = useState<Record<string, TrustLevel>>({});
+  const [selectedTrustLevels, setSelectedTrustLevels] = useState<Record<string, TrustChoice>>({});
   const [alwaysAllowFlags, setAlwaysAllowFlags] = useState<Record<string, boolean>>({});
   const [removingItems, setRemovingItems] = useState<Record<string, 'approved' | 'denied'>>({});
 
   const pendingRequests = requests.filter(r => r.state === 'pending');
 
-  const getTrustLevel = (requestId: string): TrustLevel => {
-    return selectedTrustLevels[requestId] || 'reasonable';
+  const getTrustLevel = (requestId: string): TrustChoice => {
+    const choice = selectedTrustLevels[requestId];
+    // Fall back if the selected profile was deleted
+    if (typeof choice === 'number' && !trustProfiles.some(profile => profile.id === choice)) {
+      return 'reasonable';
+    }
+    return choice ?? 'reasonable';
   };
 
-  const setTrustLevel = (requestId: string, level: TrustLevel) => {
+  const setTrustLevel = (requestId: string, level: TrustChoice) => {
     setSelectedTrustLevels(prev => ({ ...prev, [requestId]: level }));
   };
 
-  const handleApprove = async (requestId: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string) => {
+  const handleApprove = async (requestId: string, trustLevel?: TrustChoice, alwaysAllow?: boolean, allowKind?: number, appName?: string) => {
     setRemovingItems(prev => ({ ...prev, [requestId]: 'approved' }));
     await new Promise(resolve => setTimeout(resolve, 300));
-    await onApprove(requestId, trustLevel, alwaysAllow, allowKind, appName);
+    if (typeof trustLevel === 'number') {
+      await onApprove(requestId, undefined, alwaysAllow, allowKind, appName, trustLevel);
+    } else {
+      await onApprove(requestId, trustLevel, alwaysAllow, allowKind, appName);
+    }
     setRemovingItems(prev => {
       const next = { ...prev };
       delete next[requestId];
@@ -178,38 +194,53 @@ export function PendingRequestsList({
                                   </button>
                                 );
                               })}
+                              {trustProfiles.map(profile => (
+                                <button
+                                  type="button"
+                                  key={profile.id}
+                                  className={`${styles.trustOption} ${getTrustLevel(request.id) === profile.id ? styles.trustOptionSelected : ''}`}
+                                  onClick={() => setTrustLevel(request.id, profile.id)}
+                                >
+                                  <span className={styles.trustOptionLabel}>{profile.name}</span>
+                                  <span className={styles.trustOptionDesc}>{profile.description ?? 'Custom trust profile'}</span>
+                                </button>
+                              ))}
                             </div>
                           </div>
                         </>
                       )}
                     </div>
                     <div className={styles.listItemActions}>
-                      <button
-                        type="button"
-                        className={styles.approveButton}
-                        onClick={() => {
-                          const alwaysAllow = request.method !== 'connect' ? alwaysAllowFlags[request.id] : undefined;
-                          const allowKind = alwaysAllow && request.method === 'sign_event' ? request.eventPreview?.kind : undefined;
-                          handleApprove(
-                            request.id,
-                            request.method === 'connect' ? getTrustLevel(request.id) : undefined,
-                            alwaysAllow,
-                            allowKind,
-                            request.method === 'connect' ? appNames[request.id] : undefined
-                          );
-                        }}
-                        disabled={!!removingState}
-                      >
-                        {removingState === 'approved' ? <Check size={16} /> : 'Approve'}
-                      </button>
-                      <button
-                        type="button"
-                        className={styles.denyButton}
-                        onClick={() => handleDeny(request.id)}
-                        disabled={!!removingState}
-                      >
-                        {removingState === 'denied' ? <X size={16} /> : 'Deny'}
-                      </button>
+                      {can('requests', request.keyName) && (
+                        <>
+                          <button
+                            type="button"
+                            className={styles.approveButton}
+                            onClick={() => {
+                              const alwaysAllow = request.method !== 'connect' ? alwaysAllowFlags[request.id] : undefined;
+                              const allowKind = alwaysAllow && request.method === 'sign_event' ? request.eventPreview?.kind : undefined;
+                              handleApprove(
+                                request.id,
+                                request.method === 'connect' ? getTrustLevel(request.id) : undefined,
+                                alwaysAllow,
+                                allowKind,
+                                request.method === 'connect' ? appNames[request.id] : undefined
+                              );
+                            }}
+                            disabled={!!removingState}
+                          >
+                            {removingState === 'approved' ? <Check size={16} /> : 'Approve'}
+                          </button>
+                          <button
+                            type="button"
+                            className={styles.denyButton}
+                            onClick={() => handleDeny(request.id)}
+                            disabled={!!removingState}
+                          >
+                            {removingState === 'denied' ? <X size={16} /> : 'Deny'}
+                          </button>
+                        </>
+                      )}
                       <button
                         type="button"
                         className={styles.detailsButton}
@@ -1,7 +1,7 @@
 import React from 'react';
 import type { ActivityEntry, AdminActivityEntry, MixedActivityEntry } from '@signet/types';
 import { getMethodLabelPastTense } from '@signet/types';
-import { Clock, ChevronRight, Check, X, Activity, Shield, Repeat, Lock, Unlock, Link, Pause, Play, Server, Eye, Terminal } from 'lucide-react';
+import { Clock, ChevronRight, Check, X, Activity, Shield, Repeat, Lock, Unlock, Link, Pause, Play, Server, Eye, Terminal, AlertTriangle } from 'lucide-react';
 import { formatTimeAgo } from '../../lib/formatters.js';
 import styles from './HomeView.module.css';
 
@@ -131,6 +131,10 @@ export function RecentActivityFeed({
                   <span className={styles.statusBadge}>
                     {regularEntry.type === 'denial' ? (
                       <span className={styles.badgeDenied}>Denied</span>
+                    ) : regularEntry.delivery === 'failed' ? (
+                      <span className={styles.badgeUndelivered} title="Approved, but no relay accepted the response">
+                        <AlertTriangle size={12} /> Not delivered
+                      </span>
                     ) : regularEntry.approvalType === 'manual' ? (
                       <span className={styles.badgeApproved} title="Manually approved by you">
                         <Check size={12} /> Approved
@@ -1,26 +1,35 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { EncryptionFormat } from '@signet/types';
+import type { EncryptionFormat, SeedInfo } from '@signet/types';
 import styles from './KeysPanel.module.css';
 import { HelpCircle } from 'lucide-react';
 
 interface CreateKeyFormProps {
   creating: boolean;
+  seeds: SeedInfo[];
   onSubmit: (data: {
     keyName: string;
     passphrase?: string;
     confirmPassphrase?: string;
     nsec?: string;
+    shares?: string[];
+    seed?: string;
+    seedPassphrase?: string;
+    derivationIndex?: number;
     encryption?: EncryptionFormat;
   }) => Promise<boolean>;
   onCancel: () => void;
 }
 
-export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormProps) {
+export function CreateKeyForm({ creating, seeds, onSubmit, onCancel }: CreateKeyFormProps) {
   const [keyName, setKeyName] = useState('');
   const [passphrase, setPassphrase] = useState('');
   const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const [nsec, setNsec] = useState('');
-  const [createMode, setCreateMode] = useState<'generate' | 'import'>('generate');
+  const [sharesText, setSharesText] = useState('');
+  const [seedName, setSeedName] = useState('');
+  const [seedPassphrase, setSeedPassphrase] = useState('');
+  const [derivationIndex, setDerivationIndex] = useState('');
+  const [createMode, setCreateMode] = useState<'generate' | 'import' | 'recover' | 'seed'>('generate');
   const [encryption, setEncryption] = useState<EncryptionFormat>('none');
   const [showNip49Tooltip, setShowNip49Tooltip] = useState(false);
   const [showLegacyTooltip, setShowLegacyTooltip] = useState(false);
@@ -30,12 +39,21 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
     return nsec.trim().startsWith('ncryptsec1');
   }, [nsec]);
 
+  // One share per line when recovering from Shamir shares
+  const shares = useMemo(() => {
+    return sharesText.split('\n').map((line) => line.trim()).filter(Boolean);
+  }, [sharesText]);
+
+  const selectedSeed = seeds.find((seed) => seed.name === seedName);
+
   // Clear sensitive data on unmount
   useEffect(() => {
     return () => {
       setPassphrase('');
       setConfirmPassphrase('');
       setNsec('');
+      setSharesText('');
+      setSeedPassphrase('');
     };
   }, []);
 
@@ -71,6 +89,12 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
           passphrase: encryption !== 'none' ? passphrase.trim() : undefined,
           confirmPassphrase: encryption !== 'none' ? confirmPassphrase.trim() : undefined,
           nsec: createMode === 'import' ? nsec.trim() : undefined,
+          shares: createMode === 'recover' ? shares : undefined,
+          ...(createMode === 'seed' && {
+            seed: seedName,
+            seedPassphrase: selectedSeed?.isEncrypted ? seedPassphrase : undefined,
+            derivationIndex: derivationIndex.trim() ? Number(derivationIndex) : undefined,
+          }),
           encryption,
         };
 
@@ -81,6 +105,9 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
       setPassphrase('');
       setConfirmPassphrase('');
       setNsec('');
+      setSharesText('');
+      setSeedPassphrase('');
+      setDerivationIndex('');
       setEncryption('none');
       onCancel();
     }
@@ -111,6 +138,7 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
           onClick={() => {
             setCreateMode('generate');
             setNsec('');
+            setSharesText('');
           }}
         >
           Generate New
@@ -118,10 +146,37 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
         <button
           type="button"
           className={`${styles.modeButton} ${createMode === 'import' ? styles.active : ''}`}
-          onClick={() => setCreateMode('import')}
+          onClick={() => {
+            setCreateMode('import');
+            setSharesText('');
+          }}
         >
           Import Existing
         </button>
+        <button
+          type="button"
+          className={`${styles.modeButton} ${createMode === 'recover' ? styles.active : ''}`}
+          onClick={() => {
+            setCreateMode('recover');
+            setNsec('');
+          }}
+        >
+          Recover from Shares
+        </button>
+        {seeds.length > 0 && (
+          <button
+            type="button"
+            className={`${styles.modeButton} ${createMode === 'seed' ? styles.active : ''}`}
+            onClick={() => {
+              setCreateMode('seed');
+              setNsec('');
+              setSharesText('');
+              setSeedName((current) => current || seeds[0].name);
+            }}
+          >
+            Derive from Seed
+          </button>
+        )}
       </div>
 
       {createMode === 'import' && (
@@ -146,6 +201,80 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
         </div>
       )}
 
+      {createMode === 'recover' && (
+        <div className={styles.formGroup}>
+          <label className={styles.label} htmlFor="shares">
+            Key Shares
+          </label>
+          <textarea
+            id="shares"
+            value={sharesText}
+            onChange={(e) => setSharesText(e.target.value)}
+            placeholder="signet-share:..."
+            className={`${styles.input} ${styles.relaysInput}`}
+            rows={4}
+            spellCheck={false}
+            autoComplete="off"
+            required
+          />
+          <span className={styles.hint}>
+            One share per line. Enter as many shares as were needed when the key was split.
+          </span>
+        </div>
+      )}
+
+      {createMode === 'seed' && (
+        <>
+          <div className={styles.formGroup}>
+            <label className={styles.label} htmlFor="seed">Seed</label>
+            <select
+              id="seed"
+              value={seedName}
+              onChange={(e) => setSeedName(e.target.value)}
+              className={styles.input}
+              required
+            >
+              {seeds.map((seed) => (
+                <option key={seed.name} value={seed.name}>
+                  {seed.name} ({seed.keys.length} key{seed.keys.length !== 1 ? 's' : ''})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.formGroup}>
+            <label className={styles.label} htmlFor="derivationIndex">Account Index</label>
+            <input
+              id="derivationIndex"
+              type="number"
+              min={0}
+              value={derivationIndex}
+              onChange={(e) => setDerivationIndex(e.target.value)}
+              placeholder={selectedSeed ? `${selectedSeed.nextIndex} (next unused)` : ''}
+              className={styles.input}
+            />
+            <span className={styles.hint}>
+              Keys are derived along the NIP-06 path m/44'/1237'/index'/0/0. Leave empty for a new identity, or
+              enter an earlier index to restore a key.
+            </span>
+          </div>
+          {selectedSeed?.isEncrypted && (
+            <div className={styles.formGroup}>
+              <label className={styles.label} htmlFor="seedPassphrase">Seed Passphrase</label>
+              <input
+                id="seedPassphrase"
+                type="password"
+                value={seedPassphrase}
+                onChange={(e) => setSeedPassphrase(e.target.value)}
+                placeholder="Passphrase the seed is encrypted with"
+                className={styles.input}
+                autoComplete="off"
+                required
+              />
+            </div>
+          )}
+        </>
+      )}
+
       {showEncryptionOptions && (
         <div className={styles.formGroup}>
           <label className={styles.label}>Encryption</label>
@@ -274,7 +403,12 @@ export function CreateKeyForm({ creating, onSubmit, onCancel }: CreateKeyFormPro
       )}
 
       <button type="submit" className={styles.submitButton} disabled={creating}>
-        {creating ? 'Creating...' : createMode === 'generate' ? 'Generate Key' : 'Import Key'}
+        {creating
+          ? 'Creating...'
+          : createMode === 'generate' ? 'Generate Key'
+            : createMode === 'recover' ? 'Recover Key'
+            : createMode === 'seed' ? 'Derive Key'
+            : 'Import Key'}
       </button>
     </form>
   );
@@ -1,17 +1,22 @@
 import React, { useEffect, useRef } from 'react';
 import { Key, X } from 'lucide-react';
-import type { EncryptionFormat } from '@signet/types';
+import type { EncryptionFormat, SeedInfo } from '@signet/types';
 import { CreateKeyForm } from './CreateKeyForm.js';
 import styles from './CreateKeyModal.module.css';
 
 interface CreateKeyModalProps {
   open: boolean;
   creating: boolean;
+  seeds: SeedInfo[];
   onSubmit: (data: {
     keyName: string;
     passphrase?: string;
     confirmPassphrase?: string;
     nsec?: string;
+    shares?: string[];
+    seed?: string;
+    seedPassphrase?: string;
+    derivationIndex?: number;
     encryption?: EncryptionFormat;
   }) => Promise<boolean>;
   onClose: () => void;
@@ -20,6 +25,7 @@ interface CreateKeyModalProps {
 export function CreateKeyModal({
   open,
   creating,
+  seeds,
   onSubmit,
   onClose,
 }: CreateKeyModalProps) {
@@ -113,6 +119,7 @@ export function CreateKeyModal({
         <div className={styles.content}>
           <CreateKeyForm
             creating={creating}
+            seeds={seeds}
             onSubmit={onSubmit}
             onCancel={onClose}
           />
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
-import type { KeyInfo, ConnectedApp } from '@signet/types';
-import { ChevronDown, ChevronRight, Copy, QrCode, Lock, Unlock, Trash2, Users, Pencil, Shield, Download, ArrowUpCircle, HelpCircle } from 'lucide-react';
+import type { KeyInfo, ConnectedApp, RotateKeyRequest, RotateKeyResult } from '@signet/types';
+import { ChevronDown, ChevronRight, Copy, QrCode, Lock, Unlock, Trash2, Users, Pencil, Shield, Download, ArrowUpCircle, HelpCircle, Radio, RefreshCw, Megaphone, Sprout } from 'lucide-react';
 import { formatRelativeTime, toNpub } from '../../lib/formatters.js';
 import { getTrustLevelInfo } from '../../lib/event-labels.js';
 import { copyToClipboard as copyText } from '../../lib/clipboard.js';
 import { BunkerURIModal } from '../layout/BunkerURIModal.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import styles from './KeysPanel.module.css';
 
 interface KeyCardProps {
@@ -15,16 +16,24 @@ interface KeyCardProps {
   unlocking: string | null;  // Key name being unlocked, or null
   locking: string | null;    // Key name being locked, or null
   renaming: boolean;
+  savingRelays: boolean;
   encrypting: boolean;
   migrating: boolean;
   exporting: boolean;
+  rotating: boolean;
+  canRotate: boolean;  // Rotation creates a key, so it needs access to all keys
+  seedSiblings: string[];  // Other keys derived from the same seed
   onToggleExpand: () => void;
   onUnlock: (passphrase: string) => Promise<boolean>;
   onLock: () => void;
   onRename: (newName: string) => Promise<boolean>;
+  onSetRelays: (relays: string[]) => Promise<boolean>;
   onEncrypt: (encryption: 'nip49' | 'legacy', passphrase: string, confirmPassphrase: string) => Promise<boolean>;
   onMigrate: (passphrase: string) => Promise<boolean>;
   onExport: (format: 'nsec' | 'nip49', currentPassphrase?: string, exportPassphrase?: string, confirmExportPassphrase?: string) => Promise<{ key?: string; format?: 'nsec' | 'ncryptsec' } | null>;
+  onExportShares: (threshold: number, shareCount: number) => Promise<string[] | null>;
+  onRotate: (request: RotateKeyRequest) => Promise<RotateKeyResult | null>;
+  onRepublishMigration: () => Promise<boolean>;
   onDelete: () => void;
   onShowQR: (value: string, title: string) => void;
   onClearError: () => void;
@@ -38,20 +47,31 @@ export function KeyCard({
   unlocking,
   locking,
   renaming,
+  savingRelays,
   encrypting,
   migrating,
   exporting,
+  rotating,
+  canRotate,
+  seedSiblings,
   onToggleExpand,
   onUnlock,
   onLock,
   onRename,
+  onSetRelays,
   onEncrypt,
   onMigrate,
   onExport,
+  onExportShares,
+  onRotate,
+  onRepublishMigration,
   onDelete,
   onShowQR,
   onClearError,
 }: KeyCardProps) {
+  const { can } = useAccess();
+  const mayManage = can('keys', key.name);
+
   // Unlock state
   const [unlockPassphrase, setUnlockPassphrase] = useState('');
 
@@ -59,6 +79,10 @@ export function KeyCard({
   const [isRenaming, setIsRenaming] = useState(false);
   const [editName, setEditName] = useState('');
 
+  // Relays state
+  const [showRelays, setShowRelays] = useState(false);
+  const [isEditingRelays, setIsEditingRelays] = useState(false);
+  const [relaysText, setRelaysText] = useState('');
 
   // Encrypt state (for unencrypted keys)
   const [isEncrypting, setIsEncrypting] = useState(false);
@@ -74,9 +98,22 @@ export function KeyCard({
 
   // Export state
   const [isExporting, setIsExporting] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'nsec' | 'nip49'>('nip49');
+  const [exportFormat, setExportFormat] = useState<'nsec' | 'nip49' | 'shamir'>('nip49');
   const [exportNewPassphrase, setExportNewPassphrase] = useState('');
   const [exportConfirmPassphrase, setExportConfirmPassphrase] = useState('');
+  const [shareThreshold, setShareThreshold] = useState(2);
+  const [shareCount, setShareCount] = useState(3);
+  const [exportedShares, setExportedShares] = useState<string[] | null>(null);
+
+  // Rotate state
+  const [isRotating, setIsRotating] = useState(false);
+  const [successorName, setSuccessorName] = useState('');
+  const [rotatePassphrase, setRotatePassphrase] = useState('');
+  const [rotateConfirmPassphrase, setRotateConfirmPassphrase] = useState('');
+  const [rotateReason, setRotateReason] = useState('');
+  const [rotateMoveApps, setRotateMoveApps] = useState(true);
+  const [rotateAnnounce, setRotateAnnounce] = useState(true);
+  const [migrationPublished, setMigrationPublished] = useState(false);
 
   // Clipboard feedback
   const [copiedField, setCopiedField] = useState<string | null>(null);
@@ -123,6 +160,27 @@ export function KeyCard({
     }
   };
 
+  // Relay handlers
+  const startEditRelays = () => {
+    setIsEditingRelays(true);
+    setRelaysText(key.customRelays ? key.relays.join('\n') : '');
+    onClearError();
+  };
+
+  const cancelEditRelays = () => {
+    setIsEditingRelays(false);
+    setRelaysText('');
+  };
+
+  const handleSaveRelays = async (relays: string[]) => {
+    const success = await onSetRelays(relays);
+    if (success) {
+      cancelEditRelays();
+    }
+  };
+
+  const parsedRelays = relaysText.split(/[\s,]+/).map(relay => relay.trim()).filter(Boolean);
+
   // Encrypt handlers
   const startEncrypt = () => {
     setIsEncrypting(true);
@@ -175,6 +233,9 @@ export function KeyCard({
     setExportFormat('nip49');
     setExportNewPassphrase('');
     setExportConfirmPassphrase('');
+    setShareThreshold(2);
+    setShareCount(3);
+    setExportedShares(null);
     onClearError();
   };
 
@@ -182,9 +243,54 @@ export function KeyCard({
     setIsExporting(false);
     setExportNewPassphrase('');
     setExportConfirmPassphrase('');
+    setExportedShares(null);
+  };
+
+  const downloadText = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const sharesValid = shareThreshold >= 2 && shareThreshold <= shareCount && shareCount <= 16;
+
+  const handleExportShares = async () => {
+    if (!sharesValid) return;
+    const shares = await onExportShares(shareThreshold, shareCount);
+    if (shares) {
+      setExportedShares(shares);
+    }
+  };
+
+  const handleDownloadShares = () => {
+    if (!exportedShares) return;
+    // One file with every share, to be split up and handed out
+    const content = [
+      `# Signet Key Shares: ${key.name}`,
+      `# Exported: ${new Date().toISOString()}`,
+      `# Any ${shareThreshold} of these ${exportedShares.length} shares recover the key.`,
+      '# Give each share to a different holder and do not keep them together.',
+      '',
+      `npub: ${key.npub}`,
+      '',
+      ...exportedShares.map((share, index) => `share ${index + 1}: ${share}`),
+      '',
+    ].join('\n');
+    downloadText(content, `${key.name}-shares.txt`);
   };
 
   const handleExport = async () => {
+    if (exportFormat === 'shamir') {
+      await handleExportShares();
+      return;
+    }
+
     // For NIP-49 export, need new passphrase
     if (exportFormat === 'nip49') {
       if (!exportNewPassphrase.trim() || exportNewPassphrase !== exportConfirmPassphrase) return;
@@ -192,7 +298,7 @@ export function KeyCard({
     // Export only works for online keys (key is in memory, no passphrase needed)
 
     const result = await onExport(
-      exportFormat,
+      exportFormat as 'nsec' | 'nip49',
       undefined,  // No current passphrase needed for online keys
       exportFormat === 'nip49' ? exportNewPassphrase : undefined,
       exportFormat === 'nip49' ? exportConfirmPassphrase : undefined
@@ -209,27 +315,66 @@ export function KeyCard({
       ].join('\n');
 
       // Trigger file download
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${key.name}-${result.format}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadText(content, `${key.name}-${result.format}.txt`);
 
       // Close the export form
       cancelExport();
     }
   };
 
+  // Rotate handlers
+  const startRotate = () => {
+    setIsRotating(true);
+    setSuccessorName(`${key.name}-new`);
+    setRotatePassphrase('');
+    setRotateConfirmPassphrase('');
+    setRotateReason('');
+    setRotateMoveApps(true);
+    setRotateAnnounce(true);
+    onClearError();
+  };
+
+  const cancelRotate = () => {
+    setIsRotating(false);
+    setRotatePassphrase('');
+    setRotateConfirmPassphrase('');
+  };
+
+  const rotatePassphraseMismatch = rotatePassphrase !== rotateConfirmPassphrase;
+
+  const handleRotate = async () => {
+    if (!successorName.trim() || rotatePassphraseMismatch) return;
+    const result = await onRotate({
+      successorName: successorName.trim(),
+      ...(rotatePassphrase && {
+        encryption: 'nip49' as const,
+        passphrase: rotatePassphrase,
+        confirmPassphrase: rotateConfirmPassphrase,
+      }),
+      reason: rotateReason.trim() || undefined,
+      moveApps: rotateMoveApps,
+      announce: rotateAnnounce,
+    });
+    if (result) {
+      cancelRotate();
+    }
+  };
+
+  const handleRepublishMigration = async () => {
+    setMigrationPublished(false);
+    const success = await onRepublishMigration();
+    setMigrationPublished(success);
+  };
+
   const handleToggleExpand = () => {
     if (!expanded) {
       // Reset local state when expanding
       setUnlockPassphrase('');
       setIsRenaming(false);
       setEditName('');
+      setShowRelays(false);
+      setIsEditingRelays(false);
+      setRelaysText('');
       setIsEncrypting(false);
       setEncryptPassphrase('');
       setEncryptConfirmPassphrase('');
@@ -238,6 +383,11 @@ export function KeyCard({
       setIsExporting(false);
       setExportNewPassphrase('');
       setExportConfirmPassphrase('');
+      setExportedShares(null);
+      setIsRotating(false);
+      setRotatePassphrase('');
+      setRotateConfirmPassphrase('');
+      setMigrationPublished(false);
       onClearError();
     }
     onToggleExpand();
@@ -257,6 +407,12 @@ export function KeyCard({
             key.status === 'locked' ? styles.locked : ''
           }`} />
           <span className={styles.keyName}>{key.name}</span>
+          {key.retired && <span className={styles.retiredBadge}>Retired</span>}
+          {key.derivation && (
+            <span className={styles.seedBadge} title={`Derived from seed ${key.derivation.seed}`}>
+              {key.derivation.seed} #{key.derivation.index}
+            </span>
+          )}
         </div>
         <div className={styles.keyMeta}>
           {key.npub && (
@@ -289,30 +445,32 @@ export function KeyCard({
                 <span>Key is Locked</span>
               </div>
               <p className={styles.unlockHint}>
-                Enter passphrase to unlock and start signing
+                {mayManage ? 'Enter passphrase to unlock and start signing' : 'A key admin must unlock this key'}
               </p>
-              <div className={styles.unlockForm}>
-                <input
-                  type="password"
-                  className={styles.input}
-                  value={unlockPassphrase}
-                  onChange={(e) => setUnlockPassphrase(e.target.value)}
-                  placeholder="Enter passphrase"
-                  aria-label="Passphrase to unlock key"
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') handleUnlock();
-                  }}
-                />
-                <button
-                  type="button"
-                  className={styles.unlockButton}
-                  onClick={handleUnlock}
-                  disabled={unlocking === key.name || !unlockPassphrase.trim()}
-                >
-                  <Unlock size={16} />
-                  {unlocking === key.name ? 'Unlocking...' : 'Unlock'}
-                </button>
-              </div>
+              {mayManage && (
+                <div className={styles.unlockForm}>
+                  <input
+                    type="password"
+                    className={styles.input}
+                    value={unlockPassphrase}
+                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                    placeholder="Enter passphrase"
+                    aria-label="Passphrase to unlock key"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleUnlock();
+                    }}
+                  />
+                  <button
+                    type="button"
+                    className={styles.unlockButton}
+                    onClick={handleUnlock}
+                    disabled={unlocking === key.name || !unlockPassphrase.trim()}
+                  >
+                    <Unlock size={16} />
+                    {unlocking === key.name ? 'Unlocking...' : 'Unlock'}
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <>
@@ -343,7 +501,63 @@ export function KeyCard({
                 </div>
               )}
 
-              {key.status === 'online' && (
+              {key.retired && (
+                <div className={styles.detailSection}>
+                  <span className={styles.detailLabel}>
+                    <RefreshCw size={14} />
+                    Retired
+                  </span>
+                  <p className={styles.encryptionInfo}>
+                    Replaced by <strong>{key.retired.successor}</strong> {formatRelativeTime(key.retired.at, now)}.
+                    This key no longer serves apps and only signs its migration events.
+                  </p>
+                  <div className={styles.detailRow}>
+                    <code className={styles.detailValue}>{toNpub(key.retired.successorPubkey)}</code>
+                    <div className={styles.detailActions}>
+                      <button
+                        type="button"
+                        className={styles.actionButton}
+                        onClick={() => copyToClipboard(toNpub(key.retired!.successorPubkey), `successor-${key.name}`)}
+                      >
+                        <Copy size={14} />
+                        {copiedField === `successor-${key.name}` ? 'Copied' : 'Copy'}
+                      </button>
+                    </div>
+                  </div>
+                  {mayManage && key.status === 'online' && (
+                    <div className={styles.setPassphraseActions}>
+                      <button
+                        type="button"
+                        className={styles.setPassphraseButton}
+                        onClick={handleRepublishMigration}
+                        disabled={rotating}
+                      >
+                        <Megaphone size={14} />
+                        {rotating ? 'Publishing...' : 'Republish Migration'}
+                      </button>
+                      {migrationPublished && <span className={styles.exportSuccess}>Published</span>}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {key.derivation && (
+                <div className={styles.detailSection}>
+                  <span className={styles.detailLabel}>
+                    <Sprout size={14} />
+                    Seed
+                  </span>
+                  <p className={styles.encryptionInfo}>
+                    Derived from seed <strong>{key.derivation.seed}</strong>, account {key.derivation.index}
+                    {' '}(m/44'/1237'/{key.derivation.index}'/0/0).
+                    {seedSiblings.length > 0
+                      ? ` The seed's mnemonic also backs up ${seedSiblings.join(', ')}.`
+                      : " The seed's mnemonic backs up this key."}
+                  </p>
+                </div>
+              )}
+
+              {key.status === 'online' && !key.retired && (
                 <div className={styles.detailSection}>
                   <span className={styles.detailLabel}>Bunker Connection</span>
                   <div className={styles.detailRow}>
@@ -365,277 +579,550 @@ export function KeyCard({
                 </div>
               )}
 
-              {/* Encryption section */}
+              {/* Relays section */}
               <div className={styles.detailSection}>
-                <span className={styles.detailLabel}>
-                  <Shield size={14} />
-                  Encryption
-                  {key.encryptionFormat && key.encryptionFormat !== 'none' && (
-                    <span className={`${styles.encryptionBadge} ${styles[key.encryptionFormat]}`}>
-                      {key.encryptionFormat === 'nip49' ? 'NIP-49' : 'Legacy'}
+                <button
+                  type="button"
+                  className={styles.expandableLabel}
+                  onClick={() => setShowRelays(!showRelays)}
+                  aria-expanded={showRelays}
+                >
+                  <span className={styles.expandableLabelLeft}>
+                    <Radio size={14} />
+                    Relays
+                    <span className={styles.relaySource}>{key.customRelays ? 'Own set' : 'Shared'}</span>
+                  </span>
+                  <span className={styles.expandableLabelRight}>
+                    <span className={styles.countBadge}>{key.relays.length}</span>
+                    <ChevronDown size={14} className={showRelays ? styles.chevronExpanded : ''} />
+                  </span>
+                </button>
+                {showRelays && (
+                  isEditingRelays ? (
+                    <div className={styles.exportForm}>
+                      <p className={styles.migrateHint}>
+                        One relay per line. This key will listen and advertise only on these relays; leave empty to use the shared relays.
+                      </p>
+                      <textarea
+                        className={`${styles.input} ${styles.relaysInput}`}
+                        value={relaysText}
+                        onChange={(e) => setRelaysText(e.target.value)}
+                        placeholder="wss://relay.example.com"
+                        aria-label="Relays for this key"
+                        rows={4}
+                        autoFocus
+                      />
+                      <div className={styles.setPassphraseActions}>
+                        <button
+                          type="button"
+                          className={styles.saveButton}
+                          onClick={() => handleSaveRelays(parsedRelays)}
+                          disabled={savingRelays}
+                        >
+                          {savingRelays ? 'Saving...' : 'Save Relays'}
+                        </button>
+                        <button type="button" className={styles.cancelButton} onClick={cancelEditRelays}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className={styles.exportForm}>
+                      <ul className={styles.relayList}>
+                        {key.relays.map(relay => (
+                          <li key={relay} className={styles.detailValue}>{relay}</li>
+                        ))}
+                      </ul>
+                      {mayManage && (
+                        <div className={styles.setPassphraseActions}>
+                          <button type="button" className={styles.setPassphraseButton} onClick={startEditRelays}>
+                            <Pencil size={14} />
+                            Edit Relays
+                          </button>
+                          {key.customRelays && (
+                            <button
+                              type="button"
+                              className={styles.cancelButton}
+                              onClick={() => handleSaveRelays([])}
+                              disabled={savingRelays}
+                            >
+                              Use Shared Relays
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+
+              {mayManage && (
+                <>
+                  {/* Encryption section */}
+                  <div className={styles.detailSection}>
+                    <span className={styles.detailLabel}>
+                      <Shield size={14} />
+                      Encryption
+                      {key.encryptionFormat && key.encryptionFormat !== 'none' && (
+                        <span className={`${styles.encryptionBadge} ${styles[key.encryptionFormat]}`}>
+                          {key.encryptionFormat === 'nip49' ? 'NIP-49' : 'Legacy'}
+                        </span>
+                      )}
                     </span>
-                  )}
-                </span>
 
-                {/* Unencrypted key - show encrypt form or button */}
-                {!key.isEncrypted && (
-                  <>
-                    {isEncrypting ? (
-                      <div className={styles.encryptForm}>
+                    {/* Unencrypted key - show encrypt form or button */}
+                    {!key.isEncrypted && (
+                      <>
+                        {isEncrypting ? (
+                          <div className={styles.encryptForm}>
+                            <div className={styles.radioGroup}>
+                              <label className={styles.radioLabel}>
+                                <input
+                                  type="radio"
+                                  name="encryptFormat"
+                                  value="nip49"
+                                  checked={encryptFormat === 'nip49'}
+                                  onChange={() => setEncryptFormat('nip49')}
+                                  className={styles.radioInput}
+                                />
+                                <span>NIP-49 (Recommended)</span>
+                                <button
+                                  type="button"
+                                  className={styles.tooltipButton}
+                                  onMouseEnter={() => setShowNip49Tooltip(true)}
+                                  onMouseLeave={() => setShowNip49Tooltip(false)}
+                                  onFocus={() => setShowNip49Tooltip(true)}
+                                  onBlur={() => setShowNip49Tooltip(false)}
+                                  aria-label="More info about NIP-49"
+                                >
+                                  <HelpCircle size={14} />
+                                </button>
+                                {showNip49Tooltip && (
+                                  <div className={styles.tooltip}>
+                                    <strong>NIP-49 Encryption</strong>
+                                    <p>Uses XChaCha20-Poly1305 with scrypt. The ncryptsec format is portable to other Nostr tools.</p>
+                                  </div>
+                                )}
+                              </label>
+                              <label className={styles.radioLabel}>
+                                <input
+                                  type="radio"
+                                  name="encryptFormat"
+                                  value="legacy"
+                                  checked={encryptFormat === 'legacy'}
+                                  onChange={() => setEncryptFormat('legacy')}
+                                  className={styles.radioInput}
+                                />
+                                <span>Legacy</span>
+                                <button
+                                  type="button"
+                                  className={styles.tooltipButton}
+                                  onMouseEnter={() => setShowLegacyTooltip(true)}
+                                  onMouseLeave={() => setShowLegacyTooltip(false)}
+                                  onFocus={() => setShowLegacyTooltip(true)}
+                                  onBlur={() => setShowLegacyTooltip(false)}
+                                  aria-label="More info about Legacy encryption"
+                                >
+                                  <HelpCircle size={14} />
+                                </button>
+                                {showLegacyTooltip && (
+                                  <div className={styles.tooltip}>
+                                    <strong>Legacy Encryption</strong>
+                                    <p>Uses AES-256-GCM with PBKDF2. Signet-specific, not portable.</p>
+                                  </div>
+                                )}
+                              </label>
+                            </div>
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={encryptPassphrase}
+                              onChange={(e) => setEncryptPassphrase(e.target.value)}
+                              placeholder="Passphrase"
+                              aria-label="Encryption passphrase"
+                              autoFocus
+                            />
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={encryptConfirmPassphrase}
+                              onChange={(e) => setEncryptConfirmPassphrase(e.target.value)}
+                              placeholder="Confirm passphrase"
+                              aria-label="Confirm encryption passphrase"
+                              aria-invalid={encryptPassphrase && encryptConfirmPassphrase && encryptPassphrase !== encryptConfirmPassphrase ? true : undefined}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && encryptPassphrase && encryptPassphrase === encryptConfirmPassphrase) {
+                                  handleEncrypt();
+                                }
+                                if (e.key === 'Escape') cancelEncrypt();
+                              }}
+                            />
+                            {encryptPassphrase && encryptConfirmPassphrase && encryptPassphrase !== encryptConfirmPassphrase && (
+                              <span className={styles.passphraseMismatch} role="alert">Passphrases do not match</span>
+                            )}
+                            <div className={styles.setPassphraseActions}>
+                              <button
+                                type="button"
+                                className={styles.saveButton}
+                                onClick={handleEncrypt}
+                                disabled={encrypting || !encryptPassphrase.trim() || encryptPassphrase !== encryptConfirmPassphrase}
+                              >
+                                {encrypting ? 'Encrypting...' : 'Encrypt Key'}
+                              </button>
+                              <button type="button" className={styles.cancelButton} onClick={cancelEncrypt}>
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className={styles.securityWarning}>
+                            <p>This key is stored unencrypted. Anyone with access to the config file can read it.</p>
+                            <button type="button" className={styles.setPassphraseButton} onClick={startEncrypt}>
+                              <Lock size={14} />
+                              Add Encryption
+                            </button>
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    {/* Legacy encrypted - show migrate option */}
+                    {key.isEncrypted && key.encryptionFormat === 'legacy' && (
+                      <>
+                        {isMigrating ? (
+                          <div className={styles.migrateForm}>
+                            <p className={styles.migrateHint}>
+                              Upgrade to NIP-49 encryption for better portability. Enter your current passphrase.
+                            </p>
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={migratePassphrase}
+                              onChange={(e) => setMigratePassphrase(e.target.value)}
+                              placeholder="Current passphrase"
+                              aria-label="Current passphrase for migration"
+                              autoFocus
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && migratePassphrase) handleMigrate();
+                                if (e.key === 'Escape') cancelMigrate();
+                              }}
+                            />
+                            <div className={styles.setPassphraseActions}>
+                              <button
+                                type="button"
+                                className={styles.saveButton}
+                                onClick={handleMigrate}
+                                disabled={migrating || !migratePassphrase.trim()}
+                              >
+                                {migrating ? 'Migrating...' : 'Migrate to NIP-49'}
+                              </button>
+                              <button type="button" className={styles.cancelButton} onClick={cancelMigrate}>
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className={styles.migrateInfo}>
+                            <p>Using legacy encryption. Consider upgrading to NIP-49 for portability.</p>
+                            <button type="button" className={styles.migrateButton} onClick={startMigrate}>
+                              <ArrowUpCircle size={14} />
+                              Migrate to NIP-49
+                            </button>
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    {/* NIP-49 encrypted - show badge info */}
+                    {key.isEncrypted && key.encryptionFormat === 'nip49' && (
+                      <p className={styles.encryptionInfo}>
+                        Using NIP-49 encryption. Key can be exported as portable ncryptsec.
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Export section - for all keys */}
+                  <div className={styles.detailSection}>
+                    <button
+                      type="button"
+                      className={styles.expandableLabel}
+                      onClick={() => isExporting ? cancelExport() : startExport()}
+                      aria-expanded={isExporting}
+                    >
+                      <span className={styles.expandableLabelLeft}>
+                        <Download size={14} />
+                        Export
+                      </span>
+                      <ChevronDown size={14} className={isExporting ? styles.chevronExpanded : ''} />
+                    </button>
+                    {isExporting && (
+                      <div className={styles.exportForm}>
                         <div className={styles.radioGroup}>
                           <label className={styles.radioLabel}>
                             <input
                               type="radio"
-                              name="encryptFormat"
+                              name="exportFormat"
                               value="nip49"
-                              checked={encryptFormat === 'nip49'}
-                              onChange={() => setEncryptFormat('nip49')}
+                              checked={exportFormat === 'nip49'}
+                              onChange={() => setExportFormat('nip49')}
                               className={styles.radioInput}
                             />
-                            <span>NIP-49 (Recommended)</span>
-                            <button
-                              type="button"
-                              className={styles.tooltipButton}
-                              onMouseEnter={() => setShowNip49Tooltip(true)}
-                              onMouseLeave={() => setShowNip49Tooltip(false)}
-                              onFocus={() => setShowNip49Tooltip(true)}
-                              onBlur={() => setShowNip49Tooltip(false)}
-                              aria-label="More info about NIP-49"
-                            >
-                              <HelpCircle size={14} />
-                            </button>
-                            {showNip49Tooltip && (
-                              <div className={styles.tooltip}>
-                                <strong>NIP-49 Encryption</strong>
-                                <p>Uses XChaCha20-Poly1305 with scrypt. The ncryptsec format is portable to other Nostr tools.</p>
-                              </div>
-                            )}
+                            <span>NIP-49 (ncryptsec)</span>
                           </label>
                           <label className={styles.radioLabel}>
                             <input
                               type="radio"
-                              name="encryptFormat"
-                              value="legacy"
-                              checked={encryptFormat === 'legacy'}
-                              onChange={() => setEncryptFormat('legacy')}
+                              name="exportFormat"
+                              value="nsec"
+                              checked={exportFormat === 'nsec'}
+                              onChange={() => setExportFormat('nsec')}
                               className={styles.radioInput}
                             />
-                            <span>Legacy</span>
-                            <button
-                              type="button"
-                              className={styles.tooltipButton}
-                              onMouseEnter={() => setShowLegacyTooltip(true)}
-                              onMouseLeave={() => setShowLegacyTooltip(false)}
-                              onFocus={() => setShowLegacyTooltip(true)}
-                              onBlur={() => setShowLegacyTooltip(false)}
-                              aria-label="More info about Legacy encryption"
-                            >
-                              <HelpCircle size={14} />
-                            </button>
-                            {showLegacyTooltip && (
-                              <div className={styles.tooltip}>
-                                <strong>Legacy Encryption</strong>
-                                <p>Uses AES-256-GCM with PBKDF2. Signet-specific, not portable.</p>
-                              </div>
-                            )}
+                            <span>Plain nsec</span>
+                          </label>
+                          <label className={styles.radioLabel}>
+                            <input
+                              type="radio"
+                              name="exportFormat"
+                              value="shamir"
+                              checked={exportFormat === 'shamir'}
+                              onChange={() => {
+                                setExportFormat('shamir');
+                                setExportedShares(null);
+                              }}
+                              className={styles.radioInput}
+                            />
+                            <span>Shamir shares</span>
                           </label>
                         </div>
-                        <input
-                          type="password"
-                          className={styles.input}
-                          value={encryptPassphrase}
-                          onChange={(e) => setEncryptPassphrase(e.target.value)}
-                          placeholder="Passphrase"
-                          aria-label="Encryption passphrase"
-                          autoFocus
-                        />
-                        <input
-                          type="password"
-                          className={styles.input}
-                          value={encryptConfirmPassphrase}
-                          onChange={(e) => setEncryptConfirmPassphrase(e.target.value)}
-                          placeholder="Confirm passphrase"
-                          aria-label="Confirm encryption passphrase"
-                          aria-invalid={encryptPassphrase && encryptConfirmPassphrase && encryptPassphrase !== encryptConfirmPassphrase ? true : undefined}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter' && encryptPassphrase && encryptPassphrase === encryptConfirmPassphrase) {
-                              handleEncrypt();
-                            }
-                            if (e.key === 'Escape') cancelEncrypt();
-                          }}
-                        />
-                        {encryptPassphrase && encryptConfirmPassphrase && encryptPassphrase !== encryptConfirmPassphrase && (
-                          <span className={styles.passphraseMismatch} role="alert">Passphrases do not match</span>
+
+                        {/* Export passphrase for NIP-49 export */}
+                        {exportFormat === 'nip49' && (
+                          <>
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={exportNewPassphrase}
+                              onChange={(e) => setExportNewPassphrase(e.target.value)}
+                              placeholder="Export passphrase"
+                              aria-label="Passphrase for exported key"
+                              autoFocus
+                            />
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={exportConfirmPassphrase}
+                              onChange={(e) => setExportConfirmPassphrase(e.target.value)}
+                              placeholder="Confirm export passphrase"
+                              aria-label="Confirm export passphrase"
+                              aria-invalid={exportNewPassphrase && exportConfirmPassphrase && exportNewPassphrase !== exportConfirmPassphrase ? true : undefined}
+                            />
+                            {exportNewPassphrase && exportConfirmPassphrase && exportNewPassphrase !== exportConfirmPassphrase && (
+                              <span className={styles.passphraseMismatch} role="alert">Passphrases do not match</span>
+                            )}
+                          </>
                         )}
-                        <div className={styles.setPassphraseActions}>
-                          <button
-                            type="button"
-                            className={styles.saveButton}
-                            onClick={handleEncrypt}
-                            disabled={encrypting || !encryptPassphrase.trim() || encryptPassphrase !== encryptConfirmPassphrase}
-                          >
-                            {encrypting ? 'Encrypting...' : 'Encrypt Key'}
-                          </button>
-                          <button type="button" className={styles.cancelButton} onClick={cancelEncrypt}>
-                            Cancel
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className={styles.securityWarning}>
-                        <p>This key is stored unencrypted. Anyone with access to the config file can read it.</p>
-                        <button type="button" className={styles.setPassphraseButton} onClick={startEncrypt}>
-                          <Lock size={14} />
-                          Add Encryption
-                        </button>
-                      </div>
-                    )}
-                  </>
-                )}
 
-                {/* Legacy encrypted - show migrate option */}
-                {key.isEncrypted && key.encryptionFormat === 'legacy' && (
-                  <>
-                    {isMigrating ? (
-                      <div className={styles.migrateForm}>
-                        <p className={styles.migrateHint}>
-                          Upgrade to NIP-49 encryption for better portability. Enter your current passphrase.
-                        </p>
-                        <input
-                          type="password"
-                          className={styles.input}
-                          value={migratePassphrase}
-                          onChange={(e) => setMigratePassphrase(e.target.value)}
-                          placeholder="Current passphrase"
-                          aria-label="Current passphrase for migration"
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter' && migratePassphrase) handleMigrate();
-                            if (e.key === 'Escape') cancelMigrate();
-                          }}
-                        />
-                        <div className={styles.setPassphraseActions}>
+                        {exportFormat === 'nsec' && (
+                          <p className={styles.exportWarning}>
+                            Warning: Plain nsec can be read by anyone who sees it.
+                          </p>
+                        )}
+
+                        {/* Split settings for Shamir shares */}
+                        {exportFormat === 'shamir' && !exportedShares && (
+                          <>
+                            <div className={styles.shareCounts}>
+                              <label className={styles.shareCountLabel}>
+                                Shares needed
+                                <input
+                                  type="number"
+                                  className={styles.input}
+                                  value={shareThreshold}
+                                  onChange={(e) => setShareThreshold(Number(e.target.value))}
+                                  min={2}
+                                  max={shareCount}
+                                  aria-invalid={!sharesValid ? true : undefined}
+                                />
+                              </label>
+                              <label className={styles.shareCountLabel}>
+                                Total shares
+                                <input
+                                  type="number"
+                                  className={styles.input}
+                                  value={shareCount}
+                                  onChange={(e) => setShareCount(Number(e.target.value))}
+                                  min={2}
+                                  max={16}
+                                  aria-invalid={!sharesValid ? true : undefined}
+                                />
+                              </label>
+                            </div>
+                            <p className={styles.migrateHint}>
+                              Any {shareThreshold} of {shareCount} shares recover the key. Fewer reveal nothing about it.
+                            </p>
+                          </>
+                        )}
+
+                        {exportFormat === 'shamir' && exportedShares && (
+                          <>
+                            <p className={styles.exportWarning}>
+                              Give each share to a different holder. Anyone with {shareThreshold} shares has the key.
+                            </p>
+                            <ul className={styles.shareList}>
+                              {exportedShares.map((share, index) => (
+                                <li key={share} className={styles.detailRow}>
+                                  <code className={styles.detailValue}>{share}</code>
+                                  <div className={styles.detailActions}>
+                                    <button
+                                      type="button"
+                                      className={styles.actionButton}
+                                      onClick={() => copyToClipboard(share, `share-${index}`)}
+                                    >
+                                      <Copy size={14} />
+                                      {copiedField === `share-${index}` ? 'Copied' : 'Copy'}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className={styles.actionButton}
+                                      onClick={() => onShowQR(share, `Share ${index + 1} of ${exportedShares.length}`)}
+                                    >
+                                      <QrCode size={14} />
+                                      QR
+                                    </button>
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                            <div className={styles.setPassphraseActions}>
+                              <button type="button" className={styles.saveButton} onClick={handleDownloadShares}>
+                                Download All
+                              </button>
+                              <button type="button" className={styles.cancelButton} onClick={cancelExport}>
+                                Done
+                              </button>
+                            </div>
+                          </>
+                        )}
+
+                        {!(exportFormat === 'shamir' && exportedShares) && (
                           <button
                             type="button"
                             className={styles.saveButton}
-                            onClick={handleMigrate}
-                            disabled={migrating || !migratePassphrase.trim()}
+                            onClick={handleExport}
+                            disabled={
+                              exporting ||
+                              (exportFormat === 'nip49' && (!exportNewPassphrase.trim() || exportNewPassphrase !== exportConfirmPassphrase)) ||
+                              (exportFormat === 'shamir' && !sharesValid)
+                            }
                           >
-                            {migrating ? 'Migrating...' : 'Migrate to NIP-49'}
+                            {exporting ? 'Exporting...' : exportFormat === 'shamir' ? 'Create Shares' : 'Download'}
                           </button>
-                          <button type="button" className={styles.cancelButton} onClick={cancelMigrate}>
-                            Cancel
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className={styles.migrateInfo}>
-                        <p>Using legacy encryption. Consider upgrading to NIP-49 for portability.</p>
-                        <button type="button" className={styles.migrateButton} onClick={startMigrate}>
-                          <ArrowUpCircle size={14} />
-                          Migrate to NIP-49
-                        </button>
+                        )}
                       </div>
                     )}
-                  </>
-                )}
-
-                {/* NIP-49 encrypted - show badge info */}
-                {key.isEncrypted && key.encryptionFormat === 'nip49' && (
-                  <p className={styles.encryptionInfo}>
-                    Using NIP-49 encryption. Key can be exported as portable ncryptsec.
-                  </p>
-                )}
-              </div>
+                  </div>
 
-              {/* Export section - for all keys */}
-              <div className={styles.detailSection}>
-                <button
-                  type="button"
-                  className={styles.expandableLabel}
-                  onClick={() => isExporting ? cancelExport() : startExport()}
-                  aria-expanded={isExporting}
-                >
-                  <span className={styles.expandableLabelLeft}>
-                    <Download size={14} />
-                    Export
-                  </span>
-                  <ChevronDown size={14} className={isExporting ? styles.chevronExpanded : ''} />
-                </button>
-                {isExporting && (
-                  <div className={styles.exportForm}>
-                    <div className={styles.radioGroup}>
-                      <label className={styles.radioLabel}>
-                        <input
-                          type="radio"
-                          name="exportFormat"
-                          value="nip49"
-                          checked={exportFormat === 'nip49'}
-                          onChange={() => setExportFormat('nip49')}
-                          className={styles.radioInput}
-                        />
-                        <span>NIP-49 (ncryptsec)</span>
-                      </label>
-                      <label className={styles.radioLabel}>
-                        <input
-                          type="radio"
-                          name="exportFormat"
-                          value="nsec"
-                          checked={exportFormat === 'nsec'}
-                          onChange={() => setExportFormat('nsec')}
-                          className={styles.radioInput}
-                        />
-                        <span>Plain nsec</span>
-                      </label>
+                  {/* Rotate section - replace a suspected compromised key */}
+                  {canRotate && !key.retired && key.status === 'online' && (
+                    <div className={styles.detailSection}>
+                      <button
+                        type="button"
+                        className={styles.expandableLabel}
+                        onClick={() => isRotating ? cancelRotate() : startRotate()}
+                        aria-expanded={isRotating}
+                      >
+                        <span className={styles.expandableLabelLeft}>
+                          <RefreshCw size={14} />
+                          Rotate
+                        </span>
+                        <ChevronDown size={14} className={isRotating ? styles.chevronExpanded : ''} />
+                      </button>
+                      {isRotating && (
+                        <div className={styles.exportForm}>
+                          <p className={styles.migrateHint}>
+                            Creates a new key, copies this key's profile, follows and relay list to it, and
+                            publishes a migration event from this key pointing at the new one. This key is then
+                            retired and stops serving apps.
+                          </p>
+                          <input
+                            type="text"
+                            className={styles.input}
+                            value={successorName}
+                            onChange={(e) => setSuccessorName(e.target.value)}
+                            placeholder="New key name"
+                            aria-label="New key name"
+                            autoFocus
+                          />
+                          <input
+                            type="password"
+                            className={styles.input}
+                            value={rotatePassphrase}
+                            onChange={(e) => setRotatePassphrase(e.target.value)}
+                            placeholder="Passphrase for new key (optional)"
+                            aria-label="Passphrase for new key"
+                          />
+                          {rotatePassphrase && (
+                            <input
+                              type="password"
+                              className={styles.input}
+                              value={rotateConfirmPassphrase}
+                              onChange={(e) => setRotateConfirmPassphrase(e.target.value)}
+                              placeholder="Confirm passphrase"
+                              aria-label="Confirm passphrase for new key"
+                              aria-invalid={rotateConfirmPassphrase && rotatePassphraseMismatch ? true : undefined}
+                            />
+                          )}
+                          {rotatePassphrase && rotateConfirmPassphrase && rotatePassphraseMismatch && (
+                            <span className={styles.passphraseMismatch} role="alert">Passphrases do not match</span>
+                          )}
+                          <input
+                            type="text"
+                            className={styles.input}
+                            value={rotateReason}
+                            onChange={(e) => setRotateReason(e.target.value)}
+                            placeholder="Reason, e.g. suspected compromise (optional, public)"
+                            aria-label="Reason for rotation"
+                            maxLength={500}
+                          />
+                          <label className={styles.checkbox}>
+                            <input
+                              type="checkbox"
+                              checked={rotateMoveApps}
+                              onChange={(e) => setRotateMoveApps(e.target.checked)}
+                            />
+                            <span>Move connected apps to the new key</span>
+                          </label>
+                          <label className={styles.checkbox}>
+                            <input
+                              type="checkbox"
+                              checked={rotateAnnounce}
+                              onChange={(e) => setRotateAnnounce(e.target.checked)}
+                            />
+                            <span>Post a note announcing the new key</span>
+                          </label>
+                          <p className={styles.exportWarning}>
+                            Apps must reconnect using the new key's bunker URI.
+                          </p>
+                          <div className={styles.setPassphraseActions}>
+                            <button
+                              type="button"
+                              className={styles.saveButton}
+                              onClick={handleRotate}
+                              disabled={rotating || !successorName.trim() || rotatePassphraseMismatch}
+                            >
+                              {rotating ? 'Rotating...' : 'Rotate Key'}
+                            </button>
+                            <button type="button" className={styles.cancelButton} onClick={cancelRotate}>
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
                     </div>
-
-                    {/* Export passphrase for NIP-49 export */}
-                    {exportFormat === 'nip49' && (
-                      <>
-                        <input
-                          type="password"
-                          className={styles.input}
-                          value={exportNewPassphrase}
-                          onChange={(e) => setExportNewPassphrase(e.target.value)}
-                          placeholder="Export passphrase"
-                          aria-label="Passphrase for exported key"
-                          autoFocus
-                        />
-                        <input
-                          type="password"
-                          className={styles.input}
-                          value={exportConfirmPassphrase}
-                          onChange={(e) => setExportConfirmPassphrase(e.target.value)}
-                          placeholder="Confirm export passphrase"
-                          aria-label="Confirm export passphrase"
-                          aria-invalid={exportNewPassphrase && exportConfirmPassphrase && exportNewPassphrase !== exportConfirmPassphrase ? true : undefined}
-                        />
-                        {exportNewPassphrase && exportConfirmPassphrase && exportNewPassphrase !== exportConfirmPassphrase && (
-                          <span className={styles.passphraseMismatch} role="alert">Passphrases do not match</span>
-                        )}
-                      </>
-                    )}
-
-                    {exportFormat === 'nsec' && (
-                      <p className={styles.exportWarning}>
-                        Warning: Plain nsec can be read by anyone who sees it.
-                      </p>
-                    )}
-
-                    <button
-                      type="button"
-                      className={styles.saveButton}
-                      onClick={handleExport}
-                      disabled={
-                        exporting ||
-                        (exportFormat === 'nip49' && (!exportNewPassphrase.trim() || exportNewPassphrase !== exportConfirmPassphrase))
-                      }
-                    >
-                      {exporting ? 'Exporting...' : 'Download'}
-                    </button>
-                  </div>
-                )}
-              </div>
+                  )}
+                </>
+              )}
             </>
           )}
 
@@ -678,71 +1165,73 @@ export function KeyCard({
             </div>
           )}
 
-          <div className={styles.actions}>
-            {isRenaming ? (
-              <div className={styles.renameRow}>
-                <input
-                  type="text"
-                  className={styles.input}
-                  value={editName}
-                  onChange={(e) => setEditName(e.target.value)}
-                  placeholder="New key name"
-                  aria-label="New key name"
-                  autoFocus
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') handleRename();
-                    if (e.key === 'Escape') cancelRename();
-                  }}
-                />
-                <button
-                  type="button"
-                  className={styles.saveButton}
-                  onClick={handleRename}
-                  disabled={renaming || !editName.trim() || editName.trim() === key.name}
-                >
-                  {renaming ? 'Saving...' : 'Save'}
-                </button>
-                <button
-                  type="button"
-                  className={styles.cancelButton}
-                  onClick={cancelRename}
-                >
-                  Cancel
-                </button>
-              </div>
-            ) : (
-              <>
-                <button
-                  type="button"
-                  className={styles.renameButton}
-                  onClick={startRename}
-                >
-                  <Pencil size={16} />
-                  Rename
-                </button>
-                {key.status === 'online' && key.isEncrypted && (
+          {mayManage && (
+            <div className={styles.actions}>
+              {isRenaming ? (
+                <div className={styles.renameRow}>
+                  <input
+                    type="text"
+                    className={styles.input}
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    placeholder="New key name"
+                    aria-label="New key name"
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') cancelRename();
+                    }}
+                  />
                   <button
                     type="button"
-                    className={styles.lockButton}
-                    onClick={onLock}
-                    disabled={locking === key.name}
-                    title="Lock key to remove it from memory"
+                    className={styles.saveButton}
+                    onClick={handleRename}
+                    disabled={renaming || !editName.trim() || editName.trim() === key.name}
                   >
-                    <Lock size={16} />
-                    {locking === key.name ? 'Locking...' : 'Lock'}
+                    {renaming ? 'Saving...' : 'Save'}
                   </button>
-                )}
-                <button
-                  type="button"
-                  className={styles.deleteButton}
-                  onClick={onDelete}
-                >
-                  <Trash2 size={16} />
-                  Delete Key
-                </button>
-              </>
-            )}
-          </div>
+                  <button
+                    type="button"
+                    className={styles.cancelButton}
+                    onClick={cancelRename}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className={styles.renameButton}
+                    onClick={startRename}
+                  >
+                    <Pencil size={16} />
+                    Rename
+                  </button>
+                  {key.status === 'online' && key.isEncrypted && (
+                    <button
+                      type="button"
+                      className={styles.lockButton}
+                      onClick={onLock}
+                      disabled={locking === key.name}
+                      title="Lock key to remove it from memory"
+                    >
+                      <Lock size={16} />
+                      {locking === key.name ? 'Locking...' : 'Lock'}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={onDelete}
+                  >
+                    <Trash2 size={16} />
+                    Delete Key
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
       )}
 
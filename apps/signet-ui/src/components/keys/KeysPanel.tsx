@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { KeyInfo, ConnectedApp } from '@signet/types';
+import type { KeyInfo, ConnectedApp, RotateKeyRequest, RotateKeyResult } from '@signet/types';
 import { LoadingSpinner } from '../shared/LoadingSpinner.js';
 import { ConfirmDialog } from '../shared/ConfirmDialog.js';
 import { QRModal } from '../shared/QRModal.js';
@@ -7,6 +7,9 @@ import { PageHeader } from '../shared/PageHeader.js';
 import { Key, Lock, Plus, Loader2 } from 'lucide-react';
 import { CreateKeyModal } from './CreateKeyModal.js';
 import { KeyCard } from './KeyCard.js';
+import { SeedsSection } from './SeedsSection.js';
+import type { UseSeedsResult } from '../../hooks/useSeeds.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import styles from './KeysPanel.module.css';
 
 interface KeysPanelProps {
@@ -20,19 +23,26 @@ interface KeysPanelProps {
   locking: string | null;
   lockingAll: boolean;
   renaming: boolean;
+  savingRelays: boolean;
   encrypting: boolean;
   migrating: boolean;
   exporting: boolean;
+  rotating: boolean;
+  seeds: UseSeedsResult;
   forceShowCreateForm?: boolean;
-  onCreateKey: (data: { keyName: string; passphrase?: string; nsec?: string }) => Promise<KeyInfo | null>;
+  onCreateKey: (data: { keyName: string; passphrase?: string; nsec?: string; seed?: string; seedPassphrase?: string; derivationIndex?: number }) => Promise<KeyInfo | null>;
   onDeleteKey: (keyName: string, passphrase?: string) => Promise<{ success: boolean; revokedApps?: number }>;
   onUnlockKey: (keyName: string, passphrase: string) => Promise<boolean>;
   onLockKey: (keyName: string) => Promise<boolean>;
   onLockAllKeys: () => Promise<{ success: boolean; lockedCount?: number }>;
   onRenameKey: (keyName: string, newName: string) => Promise<boolean>;
+  onSetKeyRelays: (keyName: string, relays: string[]) => Promise<boolean>;
   onEncryptKey: (keyName: string, encryption: 'nip49' | 'legacy', passphrase: string, confirmPassphrase: string) => Promise<boolean>;
   onMigrateKey: (keyName: string, passphrase: string) => Promise<boolean>;
   onExportKey: (keyName: string, format: 'nsec' | 'nip49', currentPassphrase?: string, exportPassphrase?: string, confirmExportPassphrase?: string) => Promise<{ key?: string; format?: 'nsec' | 'ncryptsec' } | null>;
+  onExportKeyShares: (keyName: string, threshold: number, shareCount: number) => Promise<string[] | null>;
+  onRotateKey: (keyName: string, request: RotateKeyRequest) => Promise<RotateKeyResult | null>;
+  onRepublishMigration: (keyName: string) => Promise<boolean>;
   onClearError: () => void;
   onCreateFormClose?: () => void;
 }
@@ -48,9 +58,12 @@ export function KeysPanel({
   locking,
   lockingAll,
   renaming,
+  savingRelays,
   encrypting,
   migrating,
   exporting,
+  rotating,
+  seeds,
   forceShowCreateForm,
   onCreateKey,
   onDeleteKey,
@@ -58,12 +71,19 @@ export function KeysPanel({
   onLockKey,
   onLockAllKeys,
   onRenameKey,
+  onSetKeyRelays,
   onEncryptKey,
   onMigrateKey,
   onExportKey,
+  onExportKeyShares,
+  onRotateKey,
+  onRepublishMigration,
   onClearError,
   onCreateFormClose,
 }: KeysPanelProps) {
+  const { canAllKeys } = useAccess();
+  // Adding keys and locking every key at once need access to all keys
+  const canManageAllKeys = canAllKeys('keys');
   const [expandedKey, setExpandedKey] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<KeyInfo | null>(null);
@@ -73,11 +93,11 @@ export function KeysPanel({
 
   // Respond to external trigger to show create form
   useEffect(() => {
-    if (forceShowCreateForm) {
+    if (forceShowCreateForm && canManageAllKeys) {
       setShowCreateForm(true);
       onClearError();
     }
-  }, [forceShowCreateForm, onClearError]);
+  }, [forceShowCreateForm, canManageAllKeys, onClearError]);
 
   // Count lockable keys (online + encrypted)
   const lockableKeysCount = useMemo(() =>
@@ -92,11 +112,17 @@ export function KeysPanel({
     return apps.filter(app => app.keyName === keyName);
   };
 
+  const getSeedSiblings = (key: KeyInfo): string[] => {
+    if (!key.derivation) return [];
+    const seed = seeds.seeds.find(s => s.name === key.derivation!.seed);
+    return seed ? seed.keys.map(k => k.name).filter(name => name !== key.name) : [];
+  };
+
   const isKeyEncrypted = (key: KeyInfo): boolean => {
     return key.status === 'locked';
   };
 
-  const handleCreateKey = async (data: { keyName: string; passphrase?: string; nsec?: string }): Promise<boolean> => {
+  const handleCreateKey = async (data: { keyName: string; passphrase?: string; nsec?: string; seed?: string; seedPassphrase?: string; derivationIndex?: number }): Promise<boolean> => {
     const result = await onCreateKey(data);
     if (result) {
       setShowCreateForm(false);
@@ -167,30 +193,32 @@ export function KeysPanel({
         title="Keys"
         count={keys.length}
         action={
-          <div className={styles.headerActions}>
-            <button
-              type="button"
-              className={styles.iconButton}
-              onClick={() => setShowLockAllConfirm(true)}
-              disabled={lockableKeysCount === 0 || lockingAll}
-              title="Lock all keys"
-              aria-label="Lock all keys"
-            >
-              {lockingAll ? <Loader2 size={16} className={styles.spinning} /> : <Lock size={16} />}
-            </button>
-            <button
-              type="button"
-              className={styles.iconButton}
-              onClick={() => {
-                setShowCreateForm(true);
-                onClearError();
-              }}
-              title="Add key"
-              aria-label="Add key"
-            >
-              <Plus size={16} />
-            </button>
-          </div>
+          canManageAllKeys && (
+            <div className={styles.headerActions}>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => setShowLockAllConfirm(true)}
+                disabled={lockableKeysCount === 0 || lockingAll}
+                title="Lock all keys"
+                aria-label="Lock all keys"
+              >
+                {lockingAll ? <Loader2 size={16} className={styles.spinning} /> : <Lock size={16} />}
+              </button>
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={() => {
+                  setShowCreateForm(true);
+                  onClearError();
+                }}
+                title="Add key"
+                aria-label="Add key"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+          )
         }
       />
 
@@ -199,6 +227,7 @@ export function KeysPanel({
       <CreateKeyModal
         open={showCreateForm}
         creating={creating}
+        seeds={seeds.seeds}
         onSubmit={handleCreateKey}
         onClose={() => {
           setShowCreateForm(false);
@@ -226,16 +255,24 @@ export function KeysPanel({
               unlocking={unlocking}
               locking={locking}
               renaming={renaming}
+              savingRelays={savingRelays}
               encrypting={encrypting}
               migrating={migrating}
               exporting={exporting}
+              rotating={rotating}
+              canRotate={canManageAllKeys}
+              seedSiblings={getSeedSiblings(key)}
               onToggleExpand={() => handleToggleExpand(key.name)}
               onUnlock={(passphrase) => onUnlockKey(key.name, passphrase)}
               onLock={() => onLockKey(key.name)}
               onRename={(newName) => handleRename(key.name, newName)}
+              onSetRelays={(relays) => onSetKeyRelays(key.name, relays)}
               onEncrypt={(encryption, passphrase, confirmPassphrase) => onEncryptKey(key.name, encryption, passphrase, confirmPassphrase)}
               onMigrate={(passphrase) => onMigrateKey(key.name, passphrase)}
               onExport={(format, currentPassphrase, exportPassphrase, confirmExportPassphrase) => onExportKey(key.name, format, currentPassphrase, exportPassphrase, confirmExportPassphrase)}
+              onExportShares={(threshold, shareCount) => onExportKeyShares(key.name, threshold, shareCount)}
+              onRotate={(request) => onRotateKey(key.name, request)}
+              onRepublishMigration={() => onRepublishMigration(key.name)}
               onDelete={() => handleDeleteClick(key)}
               onShowQR={(value, title) => setQrModal({ value, title })}
               onClearError={onClearError}
@@ -244,6 +281,8 @@ export function KeysPanel({
         </div>
       )}
 
+      <SeedsSection seeds={seeds} />
+
       <ConfirmDialog
         open={deleteConfirm !== null}
         title="Delete Key"
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import type { SeedInfo } from '@signet/types';
+import { Copy, Download, Eye, Lock, Plus, Sprout } from 'lucide-react';
+import { copyToClipboard as copyText } from '../../lib/clipboard.js';
+import type { UseSeedsResult } from '../../hooks/useSeeds.js';
+import { useAccess } from '../../hooks/useAccess.js';
+import styles from './KeysPanel.module.css';
+
+interface SeedsSectionProps {
+  seeds: UseSeedsResult;
+}
+
+const downloadMnemonic = (seedName: string, mnemonic: string) => {
+  const content = [
+    `# Signet Seed: ${seedName}`,
+    `# Exported: ${new Date().toISOString()}`,
+    "# Every key derived from this seed (NIP-06, m/44'/1237'/<index>'/0/0) can be restored from these words.",
+    '',
+    mnemonic,
+    '',
+  ].join('\n');
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${seedName}-mnemonic.txt`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export function SeedsSection({ seeds }: SeedsSectionProps) {
+  const { isOwner } = useAccess();
+  const [showCreate, setShowCreate] = useState(false);
+  const [seedName, setSeedName] = useState('');
+  const [mnemonicInput, setMnemonicInput] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  // Mnemonic on screen: generated on creation or revealed on request
+  const [shown, setShown] = useState<{ seedName: string; mnemonic: string } | null>(null);
+  const [revealing, setRevealing] = useState<string | null>(null);
+  const [revealPassphrase, setRevealPassphrase] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const passphraseMismatch = passphrase !== '' && confirmPassphrase !== '' && passphrase !== confirmPassphrase;
+
+  const resetCreate = () => {
+    setShowCreate(false);
+    setSeedName('');
+    setMnemonicInput('');
+    setPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!seedName.trim() || passphraseMismatch) return;
+
+    const name = seedName.trim();
+    const result = await seeds.createSeed({
+      seedName: name,
+      mnemonic: mnemonicInput.trim() || undefined,
+      passphrase: passphrase || undefined,
+      confirmPassphrase: passphrase ? confirmPassphrase : undefined,
+    });
+    if (result) {
+      resetCreate();
+      if (result.mnemonic) {
+        setShown({ seedName: name, mnemonic: result.mnemonic });
+      }
+    }
+  };
+
+  const startReveal = (seed: SeedInfo) => {
+    seeds.clearError();
+    setShown(null);
+    setRevealPassphrase('');
+    if (seed.isEncrypted) {
+      setRevealing(seed.name);
+    } else {
+      reveal(seed.name);
+    }
+  };
+
+  const reveal = async (name: string, passphraseValue?: string) => {
+    const mnemonic = await seeds.exportSeed(name, passphraseValue);
+    if (mnemonic) {
+      setRevealing(null);
+      setRevealPassphrase('');
+      setShown({ seedName: name, mnemonic });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shown) return;
+    if (await copyText(shown.mnemonic)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  if (seeds.seeds.length === 0 && !isOwner) {
+    return null;
+  }
+
+  return (
+    <div className={styles.detailSection}>
+      <div className={styles.expandableLabel}>
+        <span className={styles.expandableLabelLeft}>
+          <Sprout size={14} />
+          Seeds
+          <span className={styles.countBadge}>{seeds.seeds.length}</span>
+        </span>
+        {isOwner && !showCreate && (
+          <button
+            type="button"
+            className={styles.actionButton}
+            onClick={() => {
+              seeds.clearError();
+              setShowCreate(true);
+            }}
+          >
+            <Plus size={14} />
+            New Seed
+          </button>
+        )}
+      </div>
+      <p className={styles.migrateHint}>
+        A seed is a BIP-39 mnemonic that keys are derived from (NIP-06). One mnemonic backup covers every key derived from it.
+      </p>
+
+      {seeds.error && <div className={styles.error}>{seeds.error}</div>}
+
+      {showCreate && (
+        <form className={styles.setPassphraseForm} onSubmit={handleCreate}>
+          <input
+            type="text"
+            className={styles.input}
+            value={seedName}
+            onChange={(e) => setSeedName(e.target.value)}
+            placeholder="Seed name"
+            aria-label="Seed name"
+            required
+          />
+          <textarea
+            className={`${styles.input} ${styles.relaysInput}`}
+            value={mnemonicInput}
+            onChange={(e) => setMnemonicInput(e.target.value)}
+            placeholder="Existing mnemonic to import (leave empty to generate a new one)"
+            aria-label="Mnemonic"
+            rows={3}
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <input
+            type="password"
+            className={styles.input}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase (optional, encrypts the seed)"
+            aria-label="Seed passphrase"
+            autoComplete="new-password"
+          />
+          {passphrase && (
+            <input
+              type="password"
+              className={styles.input}
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              placeholder="Confirm passphrase"
+              aria-label="Confirm seed passphrase"
+              autoComplete="new-password"
+            />
+          )}
+          {passphraseMismatch && <span className={styles.passphraseMismatch}>Passphrases do not match</span>}
+          <div className={styles.setPassphraseActions}>
+            <button
+              type="submit"
+              className={styles.saveButton}
+              disabled={seeds.creating || !seedName.trim() || passphraseMismatch || (passphrase !== '' && !confirmPassphrase)}
+            >
+              {seeds.creating ? 'Saving...' : mnemonicInput.trim() ? 'Import Seed' : 'Generate Seed'}
+            </button>
+            <button type="button" className={styles.cancelButton} onClick={resetCreate}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {shown && (
+        <div className={styles.exportForm}>
+          <p className={styles.exportWarning}>
+            Mnemonic for <strong>{shown.seedName}</strong>. Anyone with these words has every key derived from it.
+          </p>
+          <code className={styles.exportedKey}>{shown.mnemonic}</code>
+          <div className={styles.setPassphraseActions}>
+            <button type="button" className={styles.actionButton} onClick={handleCopy}>
+              <Copy size={14} />
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              type="button"
+              className={styles.actionButton}
+              onClick={() => downloadMnemonic(shown.seedName, shown.mnemonic)}
+            >
+              <Download size={14} />
+              Download
+            </button>
+            <button type="button" className={styles.cancelButton} onClick={() => setShown(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {seeds.seeds.length > 0 && (
+        <ul className={styles.shareList}>
+          {seeds.seeds.map((seed) => (
+            <li key={seed.name} className={`${styles.appItem} ${styles.seedItem}`}>
+              <span className={styles.appName}>
+                {seed.isEncrypted && <Lock size={12} aria-label="Encrypted" />} {seed.name}
+              </span>
+              <span className={styles.appRequests}>
+                {seed.keys.length === 0
+                  ? 'No keys yet'
+                  : seed.keys.map((key) => `#${key.index} ${key.name}`).join(', ')}
+              </span>
+              {isOwner && (
+                <button
+                  type="button"
+                  className={styles.actionButton}
+                  onClick={() => startReveal(seed)}
+                  disabled={seeds.exporting}
+                >
+                  <Eye size={14} />
+                  Show Mnemonic
+                </button>
+              )}
+              {revealing === seed.name && (
+                <div className={styles.unlockForm}>
+                  <input
+                    type="password"
+                    className={styles.input}
+                    value={revealPassphrase}
+                    onChange={(e) => setRevealPassphrase(e.target.value)}
+                    placeholder="Seed passphrase"
+                    aria-label="Seed passphrase"
+                    autoComplete="off"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && revealPassphrase) reveal(seed.name, revealPassphrase);
+                    }}
+                  />
+                  <button
+                    type="button"
+                    className={styles.unlockButton}
+                    onClick={() => reveal(seed.name, revealPassphrase)}
+                    disabled={seeds.exporting || !revealPassphrase}
+                  >
+                    {seeds.exporting ? 'Decrypting...' : 'Show'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { Timer, AlertTriangle, Loader2 } from 'lucide-react';
 import { useDeadManSwitch } from '../../hooks/useDeadManSwitch.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import styles from './Sidebar.module.css';
 
 interface ResetModalProps {
@@ -113,6 +114,8 @@ interface DeadManSwitchCardProps {
 
 export function DeadManSwitchCard({ keys }: DeadManSwitchCardProps) {
   const { status, countdown, urgency, reset } = useDeadManSwitch();
+  // Only owners can reset the timer
+  const { isOwner } = useAccess();
   const [showResetModal, setShowResetModal] = useState(false);
   const [resetLoading, setResetLoading] = useState(false);
   const [resetError, setResetError] = useState<string | null>(null);
@@ -164,6 +167,7 @@ export function DeadManSwitchCard({ keys }: DeadManSwitchCardProps) {
           type="button"
           className={`${styles.navItem} ${styles.inactivityLockRow} ${styles.inactivityLockCritical}`}
           onClick={handleResetClick}
+          disabled={!isOwner}
           title="Inactivity Lock triggered - click to reset"
         >
           <span className={styles.navIcon}>
@@ -192,6 +196,7 @@ export function DeadManSwitchCard({ keys }: DeadManSwitchCardProps) {
         type="button"
         className={`${styles.navItem} ${styles.inactivityLockRow} ${urgencyClass}`}
         onClick={handleResetClick}
+        disabled={!isOwner}
         title="Click to reset timer"
       >
         <span className={styles.navIcon}>
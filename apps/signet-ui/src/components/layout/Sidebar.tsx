@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react';
-import { Home, Smartphone, Key, Activity, Settings, HelpCircle, ChevronDown, ChevronRight, Plus, Lock, LockOpen, Loader2, Terminal, Copy, Check } from 'lucide-react';
+import { Home, Smartphone, Key, Activity, Settings, HelpCircle, ChevronDown, ChevronRight, Plus, Lock, LockOpen, Loader2, Terminal, Copy, Check, ScrollText } from 'lucide-react';
 import type { KeyInfo, RelayStatusResponse } from '@signet/types';
 import { UnlockKeyModal } from './UnlockKeyModal.js';
 import { DeadManSwitchCard } from './DeadManSwitchCard.js';
@@ -7,7 +7,7 @@ import { copyToClipboard } from '../../lib/clipboard.js';
 import { generateConnectionToken } from '../../lib/api-client.js';
 import styles from './Sidebar.module.css';
 
-export type NavItem = 'home' | 'apps' | 'activity' | 'logs' | 'keys' | 'help' | 'settings';
+export type NavItem = 'home' | 'apps' | 'policies' | 'activity' | 'logs' | 'keys' | 'help' | 'settings';
 
 /**
  * Get CSS class for trust score badge based on score thresholds
@@ -111,6 +111,7 @@ export function Sidebar({
   const navItems: { id: NavItem; label: string; icon: React.ReactNode; badge?: number }[] = [
     { id: 'home', label: 'Home', icon: <Home size={18} />, badge: pendingCount > 0 ? pendingCount : undefined },
     { id: 'apps', label: 'Apps', icon: <Smartphone size={18} /> },
+    { id: 'policies', label: 'Policies', icon: <ScrollText size={18} /> },
     { id: 'activity', label: 'Activity', icon: <Activity size={18} /> },
     { id: 'logs', label: 'Logs', icon: <Terminal size={18} /> },
   ];
@@ -177,14 +178,16 @@ export function Sidebar({
               <span className={styles.sectionTitle}>Keys</span>
             </button>
             <div className={styles.sectionActions}>
-              <button
-                type="button"
-                className={styles.sectionAddButton}
-                onClick={() => onAddKey?.()}
-                aria-label="Add key"
-              >
-                <Plus size={14} />
-              </button>
+              {onAddKey && (
+                <button
+                  type="button"
+                  className={styles.sectionAddButton}
+                  onClick={onAddKey}
+                  aria-label="Add key"
+                >
+                  <Plus size={14} />
+                </button>
+              )}
               <button
                 type="button"
                 className={styles.sectionExpandButton}
@@ -323,7 +326,10 @@ export function Sidebar({
                             }`}
                           aria-label={relay.connected ? 'Connected' : 'Disconnected'}
                         />
-                        <span className={styles.relayUrl} title={relay.url}>
+                        <span
+                          className={styles.relayUrl}
+                          title={relay.keys?.length ? `${relay.url} (keys: ${relay.keys.join(', ')})` : relay.url}
+                        >
                           {displayUrl}
                         </span>
                         {relay.trustScore !== null ? (
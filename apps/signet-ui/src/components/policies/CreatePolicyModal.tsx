@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CreatePolicyRequest } from '@signet/types';
+import { ScrollText, Loader2, Plus, Trash2 } from 'lucide-react';
+import { POLICY_TEMPLATES } from '../../lib/policy-templates.js';
+import styles from './CreatePolicyModal.module.css';
+
+const METHOD_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'sign_event', label: 'Sign event' },
+  { value: 'get_public_key', label: 'Get public key' },
+  { value: 'nip44_encrypt', label: 'Encrypt (NIP-44)' },
+  { value: 'nip44_decrypt', label: 'Decrypt (NIP-44)' },
+  { value: 'nip04_encrypt', label: 'Encrypt (NIP-04)' },
+  { value: 'nip04_decrypt', label: 'Decrypt (NIP-04)' },
+  { value: 'ping', label: 'Ping' },
+];
+
+/** Form state keeps raw input strings so partially typed numbers aren't lost */
+interface RuleDraft {
+  method: string;
+  kind: string;
+  maxUsageCount: string;
+}
+
+function toDrafts(rules: CreatePolicyRequest['rules']): RuleDraft[] {
+  return rules.map(rule => ({
+    method: rule.method,
+    kind: rule.kind !== undefined && rule.kind !== 'all' ? String(rule.kind) : '',
+    maxUsageCount: rule.maxUsageCount ? String(rule.maxUsageCount) : '',
+  }));
+}
+
+const EMPTY_RULE: RuleDraft = { method: 'sign_event', kind: '', maxUsageCount: '' };
+const DEFAULT_TEMPLATE = POLICY_TEMPLATES[0];
+
+interface CreatePolicyModalProps {
+  open: boolean;
+  loading: boolean;
+  error: string | null;
+  onSubmit: (request: CreatePolicyRequest) => void;
+  onCancel: () => void;
+}
+
+export function CreatePolicyModal({
+  open,
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: CreatePolicyModalProps) {
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE.id);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const applyTemplate = useCallback((id: string) => {
+    const template = POLICY_TEMPLATES.find(t => t.id === id) ?? DEFAULT_TEMPLATE;
+    setTemplateId(template.id);
+    setName(template.id === 'custom' ? '' : template.label);
+    setDescription(template.id === 'custom' ? '' : template.description);
+    setRules(template.rules.length > 0 ? toDrafts(template.rules) : [{ ...EMPTY_RULE }]);
+  }, []);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      applyTemplate(DEFAULT_TEMPLATE.id);
+      setExpiresAt('');
+      setValidationError(null);
+    }
+  }, [open, applyTemplate]);
+
+  const updateRule = (index: number, field: keyof RuleDraft, value: string) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, [field]: value } : rule));
+  };
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null);
+
+    if (!name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (rules.length === 0) {
+      setValidationError('Add at least one rule');
+      return;
+    }
+
+    const parsedRules: CreatePolicyRequest['rules'] = [];
+    for (const draft of rules) {
+      const kind = draft.kind.trim();
+      if (kind && !/^\d+$/.test(kind)) {
+        setValidationError('Event kind must be a whole number');
+        return;
+      }
+      let maxUsageCount: number | undefined;
+      if (draft.maxUsageCount.trim()) {
+        maxUsageCount = Number(draft.maxUsageCount);
+        if (!Number.isInteger(maxUsageCount) || maxUsageCount < 1) {
+          setValidationError('Max uses must be a whole number greater than zero');
+          return;
+        }
+      }
+      parsedRules.push({
+        method: draft.method,
+        kind: draft.method === 'sign_event' && kind ? kind : undefined,
+        maxUsageCount,
+      });
+    }
+
+    let expiresAtIso: string | undefined;
+    if (expiresAt) {
+      const date = new Date(expiresAt);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        setValidationError('Expiry must be in the future');
+        return;
+      }
+      expiresAtIso = date.toISOString();
+    }
+
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      expiresAt: expiresAtIso,
+      rules: parsedRules,
+    });
+  }, [name, description, expiresAt, rules, onSubmit]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  }, [onCancel]);
+
+  if (!open) return null;
+
+  const displayError = validationError || error;
+
+  return (
+    <div className={styles.overlay} onClick={onCancel} onKeyDown={handleKeyDown}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="create-policy-modal-title"
+      >
+        <div className={styles.header}>
+          <div className={styles.icon}>
+            <ScrollText size={20} />
+          </div>
+          <h2 id="create-policy-modal-title" className={styles.title}>New Policy</h2>
+        </div>
+
+        <p className={styles.description}>
+          Apps connecting with a token minted from this policy can only do what its rules allow.
+          Everything else needs your approval.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Template</span>
+            <select
+              className={styles.select}
+              value={templateId}
+              onChange={(e) => applyTemplate(e.target.value)}
+              disabled={loading}
+            >
+              {POLICY_TEMPLATES.map(template => (
+                <option key={template.id} value={template.id}>{template.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Name</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={loading}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Description</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              disabled={loading}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Expires</span>
+            <input
+              type="datetime-local"
+              className={styles.input}
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              disabled={loading}
+            />
+          </label>
+
+          <span className={styles.fieldLabel}>Rules</span>
+          <div className={styles.rules}>
+            {rules.map((rule, index) => (
+              <div key={index} className={styles.rule}>
+                <select
+                  className={styles.select}
+                  value={rule.method}
+                  onChange={(e) => updateRule(index, 'method', e.target.value)}
+                  disabled={loading}
+                  aria-label="Method"
+                >
+                  {METHOD_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {rule.method === 'sign_event' && (
+                  <input
+                    type="number"
+                    min={0}
+                    className={styles.numberInput}
+                    value={rule.kind}
+                    onChange={(e) => updateRule(index, 'kind', e.target.value)}
+                    placeholder="Any kind"
+                    disabled={loading}
+                    aria-label="Event kind"
+                  />
+                )}
+                <input
+                  type="number"
+                  min={1}
+                  className={styles.numberInput}
+                  value={rule.maxUsageCount}
+                  onChange={(e) => updateRule(index, 'maxUsageCount', e.target.value)}
+                  placeholder="Unlimited"
+                  disabled={loading}
+                  aria-label="Max uses"
+                />
+                <button
+                  type="button"
+                  className={styles.removeButton}
+                  onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                  disabled={loading}
+                  aria-label="Remove rule"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            className={styles.addButton}
+            onClick={() => setRules(prev => [...prev, { ...EMPTY_RULE }])}
+            disabled={loading}
+          >
+            <Plus size={14} />
+            Add rule
+          </button>
+
+          {displayError && (
+            <p className={styles.error}>{displayError}</p>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onCancel}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.submitButton}
+              disabled={loading}
+            >
+              {loading ? (
+                <>
+                  <Loader2 size={14} className={styles.spinning} />
+                  Creating...
+                </>
+              ) : (
+                'Create Policy'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
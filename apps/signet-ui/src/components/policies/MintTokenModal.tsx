@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CreatePolicyTokenRequest, CreatePolicyTokenResponse, KeyInfo, PolicyInfo } from '@signet/types';
+import { Check, Copy, Loader2, Ticket } from 'lucide-react';
+import { copyToClipboard } from '../../lib/clipboard.js';
+import styles from './MintTokenModal.module.css';
+
+interface MintTokenModalProps {
+  open: boolean;
+  policy: PolicyInfo | null;
+  keys: KeyInfo[];
+  loading: boolean;
+  error: string | null;
+  onSubmit: (request: CreatePolicyTokenRequest) => Promise<CreatePolicyTokenResponse | null>;
+  onClose: () => void;
+}
+
+export function MintTokenModal({
+  open,
+  policy,
+  keys,
+  loading,
+  error,
+  onSubmit,
+  onClose,
+}: MintTokenModalProps) {
+  const [keyName, setKeyName] = useState('');
+  const [clientName, setClientName] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState('24');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [minted, setMinted] = useState<CreatePolicyTokenResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setKeyName(keys[0]?.name ?? '');
+      setClientName('');
+      setExpiresInHours('24');
+      setValidationError(null);
+      setMinted(null);
+      setCopied(false);
+    }
+  }, [open, keys]);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null);
+    if (!policy) return;
+
+    if (!keyName) {
+      setValidationError('Choose a key');
+      return;
+    }
+    if (!clientName.trim()) {
+      setValidationError('Client name is required');
+      return;
+    }
+    let hours: number | undefined;
+    if (expiresInHours.trim()) {
+      hours = Number(expiresInHours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        setValidationError('Expiry must be a positive number of hours');
+        return;
+      }
+    }
+
+    const result = await onSubmit({
+      keyName,
+      clientName: clientName.trim(),
+      policyId: policy.id,
+      expiresInHours: hours,
+    });
+    if (result) {
+      setMinted(result);
+    }
+  }, [policy, keyName, clientName, expiresInHours, onSubmit]);
+
+  const shareValue = minted ? minted.bunkerUri ?? minted.token.token : '';
+
+  const handleCopy = useCallback(async () => {
+    if (shareValue) {
+      const success = await copyToClipboard(shareValue);
+      if (success) {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+    }
+  }, [shareValue]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  if (!open || !policy) return null;
+
+  const displayError = validationError || error;
+
+  return (
+    <div className={styles.overlay} onClick={onClose} onKeyDown={handleKeyDown}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mint-token-modal-title"
+      >
+        <div className={styles.header}>
+          <div className={styles.icon}>
+            <Ticket size={20} />
+          </div>
+          <div>
+            <h2 id="mint-token-modal-title" className={styles.title}>Mint Token</h2>
+            <p className={styles.subtitle}>{policy.name}</p>
+          </div>
+        </div>
+
+        {minted ? (
+          <>
+            <p className={styles.description}>
+              {minted.bunkerUri
+                ? 'Share this bunker URI with the app. It can be used to connect once.'
+                : 'The key is locked, so no bunker URI could be built. Unlock it, or pass this token as the connect secret.'}
+            </p>
+            <div className={styles.shareBox}>
+              <code className={styles.shareValue}>{shareValue}</code>
+              <button
+                type="button"
+                className={styles.copyButton}
+                onClick={handleCopy}
+                aria-label="Copy"
+              >
+                {copied ? <Check size={14} /> : <Copy size={14} />}
+              </button>
+            </div>
+            {minted.token.expiresAt && (
+              <p className={styles.hint}>
+                Expires {new Date(minted.token.expiresAt).toLocaleString()}
+              </p>
+            )}
+            <div className={styles.actions}>
+              <button type="button" className={styles.submitButton} onClick={onClose}>
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>Key</span>
+              <select
+                className={styles.input}
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                disabled={loading}
+              >
+                {keys.map(key => (
+                  <option key={key.name} value={key.name}>{key.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>Client name</span>
+              <input
+                type="text"
+                className={styles.input}
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                placeholder="e.g., My posting bot"
+                disabled={loading}
+              />
+            </label>
+
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>Token expires after (hours)</span>
+              <input
+                type="number"
+                min={1}
+                className={styles.input}
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(e.target.value)}
+                placeholder="Never"
+                disabled={loading}
+              />
+            </label>
+
+            {displayError && (
+              <p className={styles.error}>{displayError}</p>
+            )}
+
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className={styles.cancelButton}
+                onClick={onClose}
+                disabled={loading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className={styles.submitButton}
+                disabled={loading || keys.length === 0}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 size={14} className={styles.spinning} />
+                    Minting...
+                  </>
+                ) : (
+                  'Mint Token'
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
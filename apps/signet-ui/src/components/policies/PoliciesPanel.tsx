@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import type { CreatePolicyRequest, CreatePolicyTokenRequest, KeyInfo, PolicyInfo, PolicyToken } from '@signet/types';
+import { Plus, ScrollText, Ticket, Trash2 } from 'lucide-react';
+import { usePolicies } from '../../hooks/usePolicies.js';
+import { useAccess } from '../../hooks/useAccess.js';
+import { formatPolicyRuleTarget, formatPolicyRuleUsage } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import { LoadingSpinner } from '../shared/LoadingSpinner.js';
+import { PageHeader } from '../shared/PageHeader.js';
+import { CreatePolicyModal } from './CreatePolicyModal.js';
+import { MintTokenModal } from './MintTokenModal.js';
+import styles from './PoliciesPanel.module.css';
+
+type TokenStatus = 'pending' | 'redeemed' | 'expired';
+
+function getTokenStatus(token: PolicyToken, now: number): TokenStatus {
+  if (token.redeemedAt) return 'redeemed';
+  if (token.expiresAt && Date.parse(token.expiresAt) <= now) return 'expired';
+  return 'pending';
+}
+
+const TOKEN_STATUS_LABELS: Record<TokenStatus, string> = {
+  pending: 'Pending',
+  redeemed: 'Redeemed',
+  expired: 'Expired',
+};
+
+interface PoliciesPanelProps {
+  keys: KeyInfo[];
+}
+
+export function PoliciesPanel({ keys }: PoliciesPanelProps) {
+  // Policies and their tokens are managed by owners only
+  const { isOwner } = useAccess();
+  const {
+    policies,
+    tokens,
+    loading,
+    error,
+    createPolicy,
+    deletePolicy,
+    mintToken,
+    deleteToken,
+    clearError,
+  } = usePolicies();
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [mintPolicy, setMintPolicy] = useState<PolicyInfo | null>(null);
+  const [minting, setMinting] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PolicyInfo | null>(null);
+
+  const handleCreate = async (request: CreatePolicyRequest) => {
+    setCreating(true);
+    const success = await createPolicy(request);
+    setCreating(false);
+    if (success) {
+      setShowCreateModal(false);
+    }
+  };
+
+  const handleMint = async (request: CreatePolicyTokenRequest) => {
+    setMinting(true);
+    const result = await mintToken(request);
+    setMinting(false);
+    return result;
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deletePolicy(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const openCreateModal = () => {
+    clearError();
+    setShowCreateModal(true);
+  };
+
+  const openMintModal = (policy: PolicyInfo) => {
+    clearError();
+    setMintPolicy(policy);
+  };
+
+  if (loading && policies.length === 0) {
+    return <LoadingSpinner text="Loading policies..." />;
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className={styles.container}>
+      <PageHeader
+        title="Policies"
+        count={policies.length}
+        action={isOwner && (
+          <button
+            type="button"
+            className={styles.iconButton}
+            onClick={openCreateModal}
+            title="New policy"
+            aria-label="New policy"
+          >
+            <Plus size={16} />
+          </button>
+        )}
+      />
+
+      {error && !showCreateModal && !mintPolicy && <div className={styles.error}>{error}</div>}
+
+      {policies.length === 0 ? (
+        <div className={styles.emptyState}>
+          <div className={styles.emptyIcon}>
+            <ScrollText size={48} />
+          </div>
+          <p>No policies</p>
+          <p className={styles.emptyHint}>
+            Create a policy from a template, then mint a token to connect an app with exactly those permissions
+          </p>
+        </div>
+      ) : (
+        <div className={styles.list}>
+          {policies.map(policy => (
+            <div key={policy.id} className={styles.card}>
+              <div className={styles.cardHeader}>
+                <div className={styles.cardTitle}>
+                  <span className={styles.name}>{policy.name}</span>
+                  {policy.expired && <span className={styles.expiredBadge}>Expired</span>}
+                </div>
+                {isOwner && (
+                  <div className={styles.cardActions}>
+                    <button
+                      type="button"
+                      className={styles.actionButton}
+                      onClick={() => openMintModal(policy)}
+                      disabled={policy.expired || keys.length === 0}
+                    >
+                      <Ticket size={14} />
+                      Mint Token
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.deleteButton}
+                      onClick={() => setDeleteTarget(policy)}
+                      aria-label={`Delete ${policy.name}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {policy.description && <p className={styles.description}>{policy.description}</p>}
+              <ul className={styles.rules}>
+                {policy.rules.map(rule => (
+                  <li key={rule.id} className={styles.rule}>
+                    <span>{formatPolicyRuleTarget(rule)}</span>
+                    <span className={styles.usage}>{formatPolicyRuleUsage(rule)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className={styles.meta}>
+                {policy.tokenCount} token{policy.tokenCount === 1 ? '' : 's'}
+                {policy.expiresAt && (
+                  <> · {policy.expired ? 'Expired' : 'Expires'} {new Date(policy.expiresAt).toLocaleString()}</>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <section className={styles.tokens}>
+          <h2 className={styles.sectionTitle}>Tokens</h2>
+          <ul className={styles.tokenList}>
+            {tokens.map(token => {
+              const status = getTokenStatus(token, now);
+              return (
+                <li key={token.id} className={styles.token}>
+                  <div className={styles.tokenMain}>
+                    <span className={styles.name}>{token.redeemedBy ?? token.clientName}</span>
+                    <span className={styles.meta}>
+                      {token.policyName ?? 'No policy'} · {token.keyName}
+                    </span>
+                  </div>
+                  <span className={`${styles.statusBadge} ${styles[status]}`}>
+                    {TOKEN_STATUS_LABELS[status]}
+                  </span>
+                  {isOwner && (
+                    <button
+                      type="button"
+                      className={styles.deleteButton}
+                      onClick={() => deleteToken(token.id)}
+                      aria-label={`Delete token for ${token.clientName}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <CreatePolicyModal
+        open={showCreateModal}
+        loading={creating}
+        error={showCreateModal ? error : null}
+        onSubmit={handleCreate}
+        onCancel={() => setShowCreateModal(false)}
+      />
+
+      <MintTokenModal
+        open={mintPolicy !== null}
+        policy={mintPolicy}
+        keys={keys}
+        loading={minting}
+        error={mintPolicy ? error : null}
+        onSubmit={handleMint}
+        onClose={() => setMintPolicy(null)}
+      />
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Delete Policy"
+        message={
+          <>
+            Delete <strong>{deleteTarget?.name}</strong>? Apps connected through it lose its permissions
+            immediately, and unredeemed tokens stop working.
+          </>
+        }
+        confirmLabel="Delete"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { PoliciesPanel } from './PoliciesPanel.js';
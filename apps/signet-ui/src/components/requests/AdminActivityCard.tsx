@@ -1,7 +1,7 @@
 import React from 'react';
 import type { AdminActivityEntry } from '@signet/types';
 import { getAdminEventIcon, getAdminEventLabel } from '../shared/Icons.js';
-import { formatRelativeTime } from '../../lib/formatters.js';
+import { formatRelativeTime, toNpub } from '../../lib/formatters.js';
 import styles from './AdminActivityCard.module.css';
 
 interface AdminActivityCardProps {
@@ -19,6 +19,10 @@ export function AdminActivityCard({ entry }: AdminActivityCardProps) {
       entry.eventType === 'key_encrypted' || entry.eventType === 'key_migrated' ||
       entry.eventType === 'key_exported') {
     summary = entry.keyName || 'Unknown key';
+  } else if (entry.eventType === 'seed_exported') {
+    summary = entry.commandResult || 'Seed';
+  } else if (entry.eventType === 'key_rotated') {
+    summary = entry.commandResult ? `${entry.keyName}: ${entry.commandResult}` : entry.keyName || 'Unknown key';
   } else if (entry.eventType === 'app_connected' || entry.eventType === 'app_suspended' || entry.eventType === 'app_unsuspended') {
     summary = entry.appName || `App #${entry.appId}`;
   } else if (entry.eventType === 'daemon_started') {
@@ -33,11 +37,19 @@ export function AdminActivityCard({ entry }: AdminActivityCardProps) {
     summary = 'All keys locked';
   } else if (entry.eventType === 'deadman_reset') {
     summary = 'Timer';
+  } else if (entry.eventType === 'backup_created' || entry.eventType === 'backup_restored') {
+    summary = entry.commandResult || 'Backup';
   }
 
-  // Build details line: summary • via source • timestamp
+  // Build details line: summary • by actor • via source • timestamp
   const detailParts: string[] = [summary];
 
+  if (entry.actor?.startsWith('token:')) {
+    detailParts.push(`by API token ${entry.actor.slice('token:'.length)}`);
+  } else if (entry.actor) {
+    detailParts.push(`by ${toNpub(entry.actor).slice(0, 16)}…`);
+  }
+
   if (entry.clientName === 'kill-switch') {
     detailParts.push('via Kill Switch');
   } else if (entry.ipAddress) {
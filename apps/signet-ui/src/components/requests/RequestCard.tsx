@@ -1,10 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { Check, Shield, Repeat } from 'lucide-react';
-import type { DisplayRequest, RequestMeta, TrustLevel } from '@signet/types';
+import { Check, Shield, Repeat, SlidersHorizontal, Users, AlertTriangle } from 'lucide-react';
+import type { DisplayRequest, RequestMeta, TrustLevel, TrustProfile } from '@signet/types';
 import { getKindLabel, getMethodLabel, getTrustLevelBehavior, parseConnectPermissions, formatPermission } from '@signet/types';
 import { getMethodInfo, getTrustLevelInfo } from '../../lib/event-labels.js';
 import { formatTtl, truncateContent } from '../../lib/formatters.js';
+import { getTrustProfileBehavior } from '../../lib/trust-profiles.js';
 import { useSettings } from '../../contexts/SettingsContext.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import styles from './RequestCard.module.css';
 
 interface RequestCardProps {
@@ -13,8 +15,9 @@ interface RequestCardProps {
   password: string;
   selectionMode: boolean;
   selected: boolean;
+  trustProfiles: TrustProfile[];
   onPasswordChange: (password: string) => void;
-  onApprove: (trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number) => void;
+  onApprove: (trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, trustProfileId?: number) => void;
   onSelect: () => void;
   onViewDetails: () => void;
 }
@@ -25,19 +28,25 @@ export function RequestCard({
   password,
   selectionMode,
   selected,
+  trustProfiles,
   onPasswordChange,
   onApprove,
   onSelect,
   onViewDetails,
 }: RequestCardProps) {
   const { settings } = useSettings();
+  const { can } = useAccess();
   const [selectedTrustLevel, setSelectedTrustLevel] = useState<TrustLevel>(settings.defaultTrustLevel);
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
   const [alwaysAllow, setAlwaysAllow] = useState(false);
 
   const { Icon: MethodIcon } = getMethodInfo(request.method);
   const isApproving = meta.state === 'approving';
   const isPending = request.state === 'pending';
+  // Operators only see approve actions for keys their role covers
+  const mayApprove = can('requests', request.keyName);
   const canApprove = isPending && !isApproving;
+  const quorum = request.quorum ?? null;
 
   const trustLevels: TrustLevel[] = ['paranoid', 'reasonable', 'full'];
 
@@ -58,12 +67,15 @@ export function RequestCard({
     }
   }, [request.method, request.params]);
 
-  // Get behavior for selected trust level
-  const trustBehavior = getTrustLevelBehavior(selectedTrustLevel);
+  // Get behavior for selected trust level or custom profile
+  const selectedProfile = trustProfiles.find(profile => profile.id === selectedProfileId) ?? null;
+  const trustBehavior = selectedProfile
+    ? getTrustProfileBehavior(selectedProfile)
+    : getTrustLevelBehavior(selectedTrustLevel);
 
   return (
     <div className={`${styles.card} ${styles[request.state]} ${showCompact ? styles.compact : ''}`}>
-      {selectionMode && isPending && (
+      {selectionMode && isPending && mayApprove && (
         <input
           type="checkbox"
           checked={selected}
@@ -98,7 +110,11 @@ export function RequestCard({
               <span className={styles.badgeExpired}>Expired</span>
             )}
             {request.state === 'approved' && (
-              request.approvalType === 'manual' ? (
+              request.delivery?.status === 'failed' ? (
+                <span className={styles.badgeUndelivered} title="Approved, but no relay accepted the response">
+                  <AlertTriangle size={12} /> Not delivered
+                </span>
+              ) : request.approvalType === 'manual' ? (
                 <span className={styles.badgeApproved} title="Manually approved by you">
                   <Check size={12} /> Approved
                 </span>
@@ -156,7 +172,7 @@ export function RequestCard({
         )}
       </div>
 
-      {isPending && (
+      {isPending && mayApprove && (
         <div className={styles.actions}>
           {request.requiresPassword && (
             <input
@@ -193,8 +209,11 @@ export function RequestCard({
                         type="radio"
                         name={`trust-${request.id}`}
                         value={level}
-                        checked={selectedTrustLevel === level}
-                        onChange={() => setSelectedTrustLevel(level)}
+                        checked={!selectedProfile && selectedTrustLevel === level}
+                        onChange={() => {
+                          setSelectedTrustLevel(level);
+                          setSelectedProfileId(null);
+                        }}
                         disabled={isApproving}
                         className={styles.trustRadio}
                       />
@@ -206,6 +225,24 @@ export function RequestCard({
                     </label>
                   );
                 })}
+                {trustProfiles.map((profile) => (
+                  <label key={profile.id} className={styles.trustOption}>
+                    <input
+                      type="radio"
+                      name={`trust-${request.id}`}
+                      value={`profile-${profile.id}`}
+                      checked={selectedProfile?.id === profile.id}
+                      onChange={() => setSelectedProfileId(profile.id)}
+                      disabled={isApproving}
+                      className={styles.trustRadio}
+                    />
+                    <span className={`${styles.trustOptionLabel} ${styles.custom}`}>
+                      <SlidersHorizontal size={14} aria-hidden="true" />
+                      <span>{profile.name}</span>
+                    </span>
+                    <span className={styles.trustDescription}>{profile.description ?? 'Custom trust profile'}</span>
+                  </label>
+                ))}
               </div>
               <div className={styles.trustBreakdown}>
                 {trustBehavior.autoApprove.length > 0 && (
@@ -228,7 +265,9 @@ export function RequestCard({
               <button
                 type="button"
                 className={styles.connectButton}
-                onClick={() => onApprove(selectedTrustLevel)}
+                onClick={() => selectedProfile
+                  ? onApprove(undefined, undefined, undefined, selectedProfile.id)
+                  : onApprove(selectedTrustLevel)}
                 disabled={!canApprove}
               >
                 {isApproving ? 'Connecting...' : 'Connect'}
@@ -236,20 +275,35 @@ export function RequestCard({
             </div>
           ) : (
             <div className={styles.approveActions}>
-              <label className={styles.alwaysAllowLabel}>
-                <input
-                  type="checkbox"
-                  checked={alwaysAllow}
-                  onChange={(e) => setAlwaysAllow(e.target.checked)}
-                  disabled={isApproving}
-                  className={styles.alwaysAllowCheckbox}
-                />
-                <span>
-                  {request.method === 'sign_event' && eventKind !== undefined
-                    ? `Always allow ${getKindLabel(eventKind)}`
-                    : 'Always allow this action'}
-                </span>
-              </label>
+              {quorum && (
+                <div className={styles.quorum}>
+                  <span className={styles.quorumProgress}>
+                    <Users size={14} aria-hidden="true" />
+                    {quorum.approvals.length} of {quorum.threshold} approvals
+                  </span>
+                  {quorum.approvals.length > 0 && (
+                    <span className={styles.quorumApprovers}>
+                      Approved by {quorum.approvals.map(approval => approval.approverName).join(', ')}
+                    </span>
+                  )}
+                </div>
+              )}
+              {!quorum && (
+                <label className={styles.alwaysAllowLabel}>
+                  <input
+                    type="checkbox"
+                    checked={alwaysAllow}
+                    onChange={(e) => setAlwaysAllow(e.target.checked)}
+                    disabled={isApproving}
+                    className={styles.alwaysAllowCheckbox}
+                  />
+                  <span>
+                    {request.method === 'sign_event' && eventKind !== undefined
+                      ? `Always allow ${getKindLabel(eventKind)}`
+                      : 'Always allow this action'}
+                  </span>
+                </label>
+              )}
               <button
                 type="button"
                 className={styles.approveButton}
@@ -185,6 +185,29 @@ export function RequestDetailsModal({
               </div>
             </section>
 
+            {request.delivery && (
+              <section className={styles.section}>
+                <h3 className={styles.sectionTitle}>Response Delivery</h3>
+                <p className={`${styles.deliveryStatus} ${styles[request.delivery.status]}`}>
+                  {request.delivery.status === 'delivered'
+                    ? `Delivered to ${request.delivery.relays.filter(r => r.ok).length} of ${request.delivery.relays.length} relays`
+                    : 'Not delivered: no relay accepted the response'}
+                </p>
+                <ul className={styles.deliveryList}>
+                  {request.delivery.relays.map((relay) => (
+                    <li key={relay.url} className={styles.deliveryRelay}>
+                      <span className={relay.ok ? styles.deliveryOk : styles.deliveryFailed}>
+                        {relay.ok ? 'OK' : 'Failed'}
+                      </span>
+                      <span className={styles.deliveryUrl}>{relay.url}</span>
+                      {relay.retry && <span className={styles.deliveryRetry}>retry</span>}
+                      {relay.error && <span className={styles.deliveryError}>{relay.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
             <section className={styles.section}>
               <h3 className={styles.sectionTitle}>Permission Impact</h3>
               <p className={styles.impactText}>{getPermissionImpact()}</p>
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import type { DisplayRequest, RequestFilter, RequestMeta, TrustLevel, AdminActivityEntry } from '@signet/types';
+import type { DisplayRequest, RequestFilter, RequestMeta, TrustLevel, TrustProfile, AdminActivityEntry } from '@signet/types';
 import type { SortBy } from '../../hooks/useRequests.js';
 import { useAdminActivity } from '../../hooks/useAdminActivity.js';
 import { RequestCard } from './RequestCard.js';
@@ -93,9 +93,10 @@ interface RequestsPanelProps {
   selectedIds: Set<string>;
   searchQuery: string;
   sortBy: SortBy;
+  trustProfiles: TrustProfile[];
   onFilterChange: (filter: RequestFilter) => void;
   onPasswordChange: (id: string, password: string) => void;
-  onApprove: (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number) => void;
+  onApprove: (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string, trustProfileId?: number) => void;
   onLoadMore: () => void;
   onToggleSelection: (id: string) => void;
   onSearchChange: (query: string) => void;
@@ -116,6 +117,7 @@ export function RequestsPanel({
   selectedIds,
   searchQuery,
   sortBy,
+  trustProfiles,
   onFilterChange,
   onPasswordChange,
   onApprove,
@@ -302,8 +304,9 @@ export function RequestsPanel({
                           password={passwords[request.id] ?? ''}
                           selectionMode={selectionMode}
                           selected={selectedIds.has(request.id)}
+                          trustProfiles={trustProfiles}
                           onPasswordChange={(pw) => onPasswordChange(request.id, pw)}
-                          onApprove={(trustLevel, alwaysAllow, allowKind) => onApprove(request.id, trustLevel, alwaysAllow, allowKind)}
+                          onApprove={(trustLevel, alwaysAllow, allowKind, trustProfileId) => onApprove(request.id, trustLevel, alwaysAllow, allowKind, undefined, trustProfileId)}
                           onSelect={() => onToggleSelection(request.id)}
                           onViewDetails={() => setSelectedRequest(request)}
                         />
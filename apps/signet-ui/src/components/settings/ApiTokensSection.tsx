@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import type { ApiToken, ApiTokenScope, KeyInfo } from '@signet/types';
+import { Check, Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import type { UseApiTokensResult } from '../../hooks/useApiTokens.js';
+import { copyToClipboard } from '../../lib/clipboard.js';
+import { formatTimeAgo } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import styles from './ApiTokensSection.module.css';
+
+const SCOPE_OPTIONS: Array<{ scope: ApiTokenScope; label: string }> = [
+  { scope: 'read', label: 'Read' },
+  { scope: 'requests', label: 'Approve requests' },
+  { scope: 'apps', label: 'Manage apps' },
+  { scope: 'keys', label: 'Manage keys' },
+];
+
+const EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 30, label: 'Expires in 30 days' },
+  { days: 90, label: 'Expires in 90 days' },
+  { days: 365, label: 'Expires in 1 year' },
+  { days: null, label: 'Never expires' },
+];
+
+interface ApiTokensSectionProps {
+  apiTokens: UseApiTokensResult;
+  keys: KeyInfo[];
+}
+
+function describeToken(token: ApiToken): string {
+  const scopes = token.scopes
+    .map(scope => SCOPE_OPTIONS.find(option => option.scope === scope)?.label ?? scope)
+    .join(', ');
+  const keys = token.keyNames ? token.keyNames.join(', ') : 'all keys';
+  return `${scopes} · ${keys}`;
+}
+
+function describeUsage(token: ApiToken): string {
+  const used = token.lastUsedAt ? `used ${formatTimeAgo(token.lastUsedAt)}` : 'never used';
+  if (!token.expiresAt) {
+    return used;
+  }
+  const expired = new Date(token.expiresAt).getTime() <= Date.now();
+  return `${used} · ${expired ? 'expired' : `expires ${new Date(token.expiresAt).toLocaleDateString()}`}`;
+}
+
+export function ApiTokensSection({ apiTokens, keys }: ApiTokensSectionProps) {
+  const { tokens, error, createToken, deleteToken, clearError } = apiTokens;
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [keyName, setKeyName] = useState('');
+  const [expiry, setExpiry] = useState('90');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ApiToken | null>(null);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(current => current.includes(scope)
+      ? current.filter(item => item !== scope)
+      : [...current, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    setValidationError(null);
+    if (!name.trim()) {
+      setValidationError('Token name is required');
+      return;
+    }
+    if (scopes.length === 0) {
+      setValidationError('Choose at least one scope');
+      return;
+    }
+
+    setSaving(true);
+    const created = await createToken({
+      name: name.trim(),
+      scopes,
+      keyNames: keyName ? [keyName] : undefined,
+      expiresInDays: expiry ? Number(expiry) : undefined,
+    });
+    setSaving(false);
+    if (created) {
+      setSecret(created);
+      setCopied(false);
+      setName('');
+      setScopes(['read']);
+      setKeyName('');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (secret && await copyToClipboard(secret)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteToken(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const displayError = validationError || error;
+
+  return (
+    <>
+      {displayError && <div className={styles.error}>{displayError}</div>}
+
+      {secret && (
+        <div className={styles.secret}>
+          <span className={styles.secretLabel}>Copy this token now. It won't be shown again.</span>
+          <div className={styles.secretRow}>
+            <code className={styles.secretValue}>{secret}</code>
+            <button type="button" className={styles.textButton} onClick={handleCopy}>
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button type="button" className={styles.textButton} onClick={() => setSecret(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length === 0 ? (
+        <p className={styles.empty}>No API tokens yet.</p>
+      ) : (
+        <ul className={styles.list}>
+          {tokens.map(token => (
+            <li key={token.id} className={styles.item}>
+              <div className={styles.itemInfo}>
+                <span className={styles.name}>
+                  <KeyRound size={14} aria-hidden="true" />
+                  {token.name}
+                  <code className={styles.prefix}>{token.prefix}…</code>
+                </span>
+                <span className={styles.detail}>{describeToken(token)}</span>
+                <span className={styles.detail}>{describeUsage(token)}</span>
+              </div>
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={styles.deleteButton}
+                  onClick={() => setDeleteTarget(token)}
+                  aria-label={`Revoke ${token.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleCreate}>
+        <div className={styles.row}>
+          <input
+            type="text"
+            className={styles.input}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Token name"
+            aria-label="Token name"
+            disabled={saving}
+          />
+          <select
+            className={styles.input}
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+            aria-label="Key"
+            disabled={saving}
+          >
+            <option value="">All keys</option>
+            {keys.map(key => (
+              <option key={key.name} value={key.name}>{key.name}</option>
+            ))}
+          </select>
+          <select
+            className={styles.input}
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            aria-label="Expiry"
+            disabled={saving}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.row}>
+          {SCOPE_OPTIONS.map(option => (
+            <label key={option.scope} className={styles.scope}>
+              <input
+                type="checkbox"
+                checked={scopes.includes(option.scope)}
+                onChange={() => toggleScope(option.scope)}
+                disabled={saving}
+              />
+              {option.label}
+            </label>
+          ))}
+          <button type="submit" className={styles.addButton} disabled={saving}>
+            <Plus size={14} />
+            Create Token
+          </button>
+        </div>
+      </form>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Revoke API Token"
+        message={
+          <>
+            Revoke <strong>{deleteTarget?.name}</strong>? Scripts using it stop working immediately.
+          </>
+        }
+        confirmLabel="Revoke"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import type { KeyInfo, Operator, OperatorRole } from '@signet/types';
+import { Plus, Trash2, UserCog } from 'lucide-react';
+import type { UseOperatorsResult } from '../../hooks/useOperators.js';
+import { toNpub } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import styles from './OperatorsSection.module.css';
+
+const ROLE_OPTIONS: Array<{ role: OperatorRole; label: string; description: string }> = [
+  { role: 'viewer', label: 'Viewer', description: 'See activity, keys and apps' },
+  { role: 'approver', label: 'Approver', description: 'Also approve and deny requests' },
+  { role: 'app-manager', label: 'App manager', description: 'Also connect and manage apps' },
+  { role: 'key-admin', label: 'Key admin', description: 'Also create, unlock and manage keys' },
+];
+
+interface OperatorsSectionProps {
+  operators: UseOperatorsResult;
+  keys: KeyInfo[];
+}
+
+function describeKeys(operator: Operator): string {
+  return operator.keyNames ? operator.keyNames.join(', ') : 'All keys';
+}
+
+export function OperatorsSection({ operators: operatorsHook, keys }: OperatorsSectionProps) {
+  const { operators, error, createOperator, updateOperator, deleteOperator, clearError } = operatorsHook;
+
+  const [name, setName] = useState('');
+  const [pubkey, setPubkey] = useState('');
+  const [role, setRole] = useState<OperatorRole>('approver');
+  const [keyName, setKeyName] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Operator | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    setValidationError(null);
+    if (!name.trim() || !pubkey.trim()) {
+      setValidationError('Name and npub are required');
+      return;
+    }
+
+    setSaving(true);
+    const created = await createOperator({
+      name: name.trim(),
+      pubkey: pubkey.trim(),
+      role,
+      keyNames: keyName ? [keyName] : undefined,
+    });
+    setSaving(false);
+    if (created) {
+      setName('');
+      setPubkey('');
+      setKeyName('');
+    }
+  };
+
+  const handleRoleChange = async (operator: Operator, nextRole: OperatorRole) => {
+    clearError();
+    await updateOperator(operator.id, { role: nextRole });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteOperator(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const displayError = validationError || error;
+
+  return (
+    <>
+      {displayError && <div className={styles.error}>{displayError}</div>}
+
+      {operators.length === 0 ? (
+        <p className={styles.empty}>No operators yet. Only owners can log in.</p>
+      ) : (
+        <ul className={styles.list}>
+          {operators.map(operator => (
+            <li key={operator.id} className={styles.item}>
+              <div className={styles.itemInfo}>
+                <span className={styles.name}>
+                  <UserCog size={14} aria-hidden="true" />
+                  {operator.name}
+                </span>
+                <span className={styles.detail}>
+                  {toNpub(operator.pubkey).slice(0, 20)}… · {describeKeys(operator)}
+                </span>
+              </div>
+              <div className={styles.actions}>
+                <select
+                  className={styles.roleSelect}
+                  value={operator.role}
+                  onChange={(e) => handleRoleChange(operator, e.target.value as OperatorRole)}
+                  aria-label={`Role for ${operator.name}`}
+                >
+                  {ROLE_OPTIONS.map(option => (
+                    <option key={option.role} value={option.role}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className={styles.deleteButton}
+                  onClick={() => setDeleteTarget(operator)}
+                  aria-label={`Remove ${operator.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleCreate}>
+        <div className={styles.row}>
+          <input
+            type="text"
+            className={styles.input}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Operator name"
+            disabled={saving}
+          />
+          <input
+            type="text"
+            className={styles.input}
+            value={pubkey}
+            onChange={(e) => setPubkey(e.target.value)}
+            placeholder="npub1..."
+            aria-label="Operator npub"
+            disabled={saving}
+          />
+        </div>
+        <div className={styles.row}>
+          <select
+            className={styles.input}
+            value={role}
+            onChange={(e) => setRole(e.target.value as OperatorRole)}
+            aria-label="Role"
+            disabled={saving}
+          >
+            {ROLE_OPTIONS.map(option => (
+              <option key={option.role} value={option.role}>{option.label}: {option.description}</option>
+            ))}
+          </select>
+          <select
+            className={styles.input}
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+            aria-label="Key"
+            disabled={saving}
+          >
+            <option value="">All keys</option>
+            {keys.map(key => (
+              <option key={key.name} value={key.name}>{key.name}</option>
+            ))}
+          </select>
+          <button type="submit" className={styles.addButton} disabled={saving}>
+            <Plus size={14} />
+            Add Operator
+          </button>
+        </div>
+      </form>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Remove Operator"
+        message={
+          <>
+            Remove <strong>{deleteTarget?.name}</strong>? They are logged out of the dashboard immediately.
+          </>
+        }
+        confirmLabel="Remove"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </>
+  );
+}
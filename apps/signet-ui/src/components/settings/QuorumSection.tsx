@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import type { Approver, KeyInfo, QuorumRule } from '@signet/types';
+import { MonitorSmartphone, Plus, Trash2, Users } from 'lucide-react';
+import type { UseQuorumResult } from '../../hooks/useQuorum.js';
+import { formatQuorumRuleTarget, toNpub } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import styles from './QuorumSection.module.css';
+
+interface QuorumSectionProps {
+  quorum: UseQuorumResult;
+  keys: KeyInfo[];
+}
+
+type DeleteTarget =
+  | { type: 'approver'; approver: Approver }
+  | { type: 'rule'; rule: QuorumRule };
+
+export function QuorumSection({ quorum, keys }: QuorumSectionProps) {
+  const {
+    approvers,
+    rules,
+    currentApproverId,
+    error,
+    createApprover,
+    deleteApprover,
+    claimSession,
+    releaseSession,
+    createRule,
+    deleteRule,
+    clearError,
+  } = quorum;
+
+  const [approverName, setApproverName] = useState('');
+  const [approverPubkey, setApproverPubkey] = useState('');
+  const [ruleKey, setRuleKey] = useState('');
+  const [ruleKind, setRuleKind] = useState('');
+  const [ruleThreshold, setRuleThreshold] = useState('2');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+
+  const handleAddApprover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    setValidationError(null);
+    if (!approverName.trim()) {
+      setValidationError('Approver name is required');
+      return;
+    }
+
+    setSaving(true);
+    const success = await createApprover({
+      name: approverName.trim(),
+      pubkey: approverPubkey.trim() || undefined,
+    });
+    setSaving(false);
+    if (success) {
+      setApproverName('');
+      setApproverPubkey('');
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    setValidationError(null);
+
+    const kind = ruleKind.trim() ? Number(ruleKind.trim()) : undefined;
+    if (kind !== undefined && !Number.isInteger(kind)) {
+      setValidationError('Event kind must be a whole number');
+      return;
+    }
+    if (!ruleKey && kind === undefined) {
+      setValidationError('Choose a key or an event kind');
+      return;
+    }
+
+    setSaving(true);
+    const success = await createRule({
+      keyName: ruleKey || undefined,
+      kind,
+      threshold: Number(ruleThreshold),
+    });
+    setSaving(false);
+    if (success) {
+      setRuleKey('');
+      setRuleKind('');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    if (deleteTarget.type === 'approver') {
+      await deleteApprover(deleteTarget.approver.id);
+    } else {
+      await deleteRule(deleteTarget.rule.id);
+    }
+    setDeleteTarget(null);
+  };
+
+  const displayError = validationError || error;
+
+  return (
+    <>
+      {displayError && <div className={styles.error}>{displayError}</div>}
+
+      <h4 className={styles.subheading}>Approvers</h4>
+      {approvers.length === 0 ? (
+        <p className={styles.empty}>No approvers yet.</p>
+      ) : (
+        <ul className={styles.list}>
+          {approvers.map(approver => {
+            const isCurrent = approver.id === currentApproverId;
+            return (
+              <li key={approver.id} className={styles.item}>
+                <div className={styles.itemInfo}>
+                  <span className={styles.name}>
+                    <Users size={14} aria-hidden="true" />
+                    {approver.name}
+                    {isCurrent && <span className={styles.badge}>This device</span>}
+                  </span>
+                  <span className={styles.detail}>
+                    {approver.pubkey ? toNpub(approver.pubkey) : 'Approves from a claimed device'}
+                  </span>
+                </div>
+                <div className={styles.actions}>
+                  {isCurrent && approver.hasSession ? (
+                    <button type="button" className={styles.textButton} onClick={() => releaseSession()}>
+                      Stop using this device
+                    </button>
+                  ) : !approver.pubkey && !approver.hasSession && currentApproverId === null && (
+                    <button type="button" className={styles.textButton} onClick={() => claimSession(approver.id)}>
+                      <MonitorSmartphone size={14} />
+                      Use this device
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={() => setDeleteTarget({ type: 'approver', approver })}
+                    aria-label={`Remove ${approver.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleAddApprover}>
+        <input
+          type="text"
+          className={styles.input}
+          value={approverName}
+          onChange={(e) => setApproverName(e.target.value)}
+          placeholder="Name"
+          aria-label="Approver name"
+          disabled={saving}
+        />
+        <input
+          type="text"
+          className={styles.input}
+          value={approverPubkey}
+          onChange={(e) => setApproverPubkey(e.target.value)}
+          placeholder="npub (optional)"
+          aria-label="Approver npub"
+          disabled={saving}
+        />
+        <button type="submit" className={styles.addButton} disabled={saving}>
+          <Plus size={14} />
+          Add Approver
+        </button>
+      </form>
+
+      <h4 className={styles.subheading}>Rules</h4>
+      {rules.length === 0 ? (
+        <p className={styles.empty}>No quorum rules. Requests are approved by a single approval.</p>
+      ) : (
+        <ul className={styles.list}>
+          {rules.map(rule => (
+            <li key={rule.id} className={styles.item}>
+              <div className={styles.itemInfo}>
+                <span className={styles.name}>{formatQuorumRuleTarget(rule)}</span>
+                <span className={styles.detail}>
+                  Needs {rule.threshold} of {approvers.length} approvers
+                </span>
+              </div>
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={styles.deleteButton}
+                  onClick={() => setDeleteTarget({ type: 'rule', rule })}
+                  aria-label={`Remove rule: ${formatQuorumRuleTarget(rule)}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleAddRule}>
+        <select
+          className={styles.input}
+          value={ruleKey}
+          onChange={(e) => setRuleKey(e.target.value)}
+          aria-label="Key"
+          disabled={saving}
+        >
+          <option value="">Any key</option>
+          {keys.map(key => (
+            <option key={key.name} value={key.name}>{key.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          inputMode="numeric"
+          className={styles.input}
+          value={ruleKind}
+          onChange={(e) => setRuleKind(e.target.value)}
+          placeholder="Any kind"
+          aria-label="Event kind"
+          disabled={saving}
+        />
+        <select
+          className={styles.input}
+          value={ruleThreshold}
+          onChange={(e) => setRuleThreshold(e.target.value)}
+          aria-label="Approvals needed"
+          disabled={saving}
+        >
+          {Array.from({ length: Math.max(approvers.length, 1) }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count} approval{count === 1 ? '' : 's'}</option>
+          ))}
+        </select>
+        <button type="submit" className={styles.addButton} disabled={saving || approvers.length === 0}>
+          <Plus size={14} />
+          Add Rule
+        </button>
+      </form>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title={deleteTarget?.type === 'approver' ? 'Remove Approver' : 'Remove Quorum Rule'}
+        message={
+          deleteTarget?.type === 'approver' ? (
+            <>
+              Remove <strong>{deleteTarget.approver.name}</strong>? Their approvals on pending
+              requests no longer count.
+            </>
+          ) : (
+            <>
+              Remove the rule for <strong>{deleteTarget ? formatQuorumRuleTarget(deleteTarget.rule) : ''}</strong>?
+              Requests already waiting still need their approvals.
+            </>
+          )
+        }
+        confirmLabel="Remove"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import type { DashboardSession, LoginMethod } from '@signet/types';
+import { LogOut, Trash2 } from 'lucide-react';
+import type { UseAuthResult } from '../../hooks/useAuth.js';
+import { formatTimeAgo, toNpub } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import styles from './SessionsSection.module.css';
+
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  nip07: 'Extension',
+  nip46: 'Bunker',
+  key: 'Signet key',
+};
+
+interface SessionsSectionProps {
+  auth: UseAuthResult;
+}
+
+export function SessionsSection({ auth }: SessionsSectionProps) {
+  const { status, sessions, error, refreshSessions, revokeSession, logout } = auth;
+  const [revokeTarget, setRevokeTarget] = useState<DashboardSession | null>(null);
+
+  const authenticated = status?.authenticated ?? false;
+
+  useEffect(() => {
+    if (authenticated) {
+      refreshSessions();
+    }
+  }, [authenticated, refreshSessions]);
+
+  const handleConfirmRevoke = async () => {
+    if (!revokeTarget) return;
+    await revokeSession(revokeTarget.id);
+    setRevokeTarget(null);
+  };
+
+  if (!authenticated) {
+    return <p className={styles.empty}>Not logged in. The API is open to anyone who can reach it.</p>;
+  }
+
+  return (
+    <>
+      {error && <div className={styles.error}>{error}</div>}
+
+      <div className={styles.current}>
+        <span className={styles.detail}>Logged in as {status?.pubkey ? toNpub(status.pubkey) : 'unknown'}</span>
+        <button type="button" className={styles.textButton} onClick={() => logout()}>
+          <LogOut size={14} />
+          Log out
+        </button>
+      </div>
+
+      <ul className={styles.list}>
+        {sessions.map(session => (
+          <li key={session.id} className={styles.item}>
+            <div className={styles.itemInfo}>
+              <span className={styles.name}>
+                {METHOD_LABELS[session.method] ?? session.method}
+                {session.current && <span className={styles.badge}>This browser</span>}
+              </span>
+              <span className={styles.detail}>
+                {toNpub(session.pubkey)} · active {formatTimeAgo(session.lastSeenAt)}
+              </span>
+              {session.userAgent && <span className={styles.detail}>{session.userAgent}</span>}
+            </div>
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className={styles.deleteButton}
+                onClick={() => setRevokeTarget(session)}
+                aria-label="Revoke session"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <ConfirmDialog
+        open={revokeTarget !== null}
+        title="Revoke Session"
+        message={
+          revokeTarget?.current
+            ? 'Revoke the session for this browser? You will be logged out.'
+            : 'Revoke this session? That browser will have to log in again.'
+        }
+        confirmLabel="Revoke"
+        danger
+        onConfirm={handleConfirmRevoke}
+        onCancel={() => setRevokeTarget(null)}
+      />
+    </>
+  );
+}
@@ -4,7 +4,20 @@ import { Loader2, Globe } from 'lucide-react';
 import { useSettings, isCapacitor } from '../../contexts/SettingsContext.js';
 import { getTrustLevelInfo } from '../../lib/event-labels.js';
 import { useDeadManSwitch } from '../../hooks/useDeadManSwitch.js';
+import type { UseTrustProfilesResult } from '../../hooks/useTrustProfiles.js';
+import type { UseQuorumResult } from '../../hooks/useQuorum.js';
+import type { UseAuthResult } from '../../hooks/useAuth.js';
+import type { UseApiTokensResult } from '../../hooks/useApiTokens.js';
+import type { UseOperatorsResult } from '../../hooks/useOperators.js';
+import type { UseWebhooksResult } from '../../hooks/useWebhooks.js';
+import { useAccess } from '../../hooks/useAccess.js';
 import { getRemoteAccessStatus, setRemoteAccess } from '../../lib/api-client.js';
+import { TrustProfilesSection } from './TrustProfilesSection.js';
+import { QuorumSection } from './QuorumSection.js';
+import { SessionsSection } from './SessionsSection.js';
+import { ApiTokensSection } from './ApiTokensSection.js';
+import { OperatorsSection } from './OperatorsSection.js';
+import { WebhooksSection } from './WebhooksSection.js';
 import styles from './SettingsPanel.module.css';
 
 const TRUST_LEVELS: TrustLevel[] = ['paranoid', 'reasonable', 'full'];
@@ -48,14 +61,29 @@ interface SettingsPanelProps {
   notificationPermission: NotificationPermissionState;
   onRequestNotificationPermission: () => void;
   keys: KeyInfo[];
+  trustProfiles: UseTrustProfilesResult;
+  quorum: UseQuorumResult;
+  auth: UseAuthResult;
+  apiTokens: UseApiTokensResult;
+  operators: UseOperatorsResult;
+  webhooks: UseWebhooksResult;
 }
 
 export function SettingsPanel({
   notificationPermission,
   onRequestNotificationPermission,
   keys,
+  trustProfiles,
+  quorum,
+  auth,
+  apiTokens,
+  operators,
+  webhooks,
 }: SettingsPanelProps) {
   const { settings, updateSettings } = useSettings();
+  // Daemon-wide settings are only shown to owners
+  const { isOwner } = useAccess();
+  const showOwnerSettings = !settings.isStandalone && isOwner;
   const deadman = useDeadManSwitch();
 
   const [remoteStatus, setRemoteStatus] = useState<{
@@ -198,6 +226,77 @@ export function SettingsPanel({
         </div>
       </div>
 
+      {showOwnerSettings && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>Trust Profiles</h3>
+          <p className={styles.sectionDescription}>
+            Named sets of event kinds and encryption methods to auto-approve.
+            Pick one instead of a trust level when approving a connection.
+          </p>
+
+          <TrustProfilesSection trustProfiles={trustProfiles} />
+        </div>
+      )}
+
+      {showOwnerSettings && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>Approval Quorum</h3>
+          <p className={styles.sectionDescription}>
+            Require several approvers to sign off on sensitive requests. Approvers log in
+            with their npub or approve from a device they've claimed.
+          </p>
+
+          <QuorumSection quorum={quorum} keys={keys} />
+        </div>
+      )}
+
+      {showOwnerSettings && auth.status?.loginEnabled && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>Operators</h3>
+          <p className={styles.sectionDescription}>
+            People who can log in with a limited role. Limit an operator to one key and they
+            only see actions for that key.
+          </p>
+
+          <OperatorsSection operators={operators} keys={keys} />
+        </div>
+      )}
+
+      {showOwnerSettings && auth.status?.loginEnabled && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>Dashboard Sessions</h3>
+          <p className={styles.sectionDescription}>
+            Browsers logged in to this dashboard. Revoke a session to log that browser out.
+          </p>
+
+          <SessionsSection auth={auth} />
+        </div>
+      )}
+
+      {showOwnerSettings && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>API Tokens</h3>
+          <p className={styles.sectionDescription}>
+            Tokens for scripts that call the REST API. Send them as <code>Authorization: Bearer</code>.
+            Each token only gets the scopes you pick, and can be limited to one key.
+          </p>
+
+          <ApiTokensSection apiTokens={apiTokens} keys={keys} />
+        </div>
+      )}
+
+      {showOwnerSettings && (
+        <div className={styles.section}>
+          <h3 className={styles.sectionTitle}>Webhooks</h3>
+          <p className={styles.sectionDescription}>
+            POST signed JSON to a URL when requests arrive, apps connect or keys lock. Payloads
+            carry names and IDs only, never request content or secrets.
+          </p>
+
+          <WebhooksSection webhooks={webhooks} />
+        </div>
+      )}
+
       <div className={styles.section}>
         <h3 className={styles.sectionTitle}>Network & Connection</h3>
         <p className={styles.sectionDescription}>
@@ -241,7 +340,7 @@ export function SettingsPanel({
           </div>
         )}
 
-        {!settings.isStandalone && !isCapacitor && remoteStatus && (
+        {showOwnerSettings && !isCapacitor && remoteStatus && (
           <>
             <div className={styles.setting}>
               <div className={styles.settingInfo}>
@@ -335,7 +434,7 @@ export function SettingsPanel({
                 type="checkbox"
                 checked={deadman.status?.enabled ?? false}
                 onChange={handleToggleClick}
-                disabled={dmsLoading || deadman.loading}
+                disabled={dmsLoading || deadman.loading || !isOwner}
                 aria-label="Enable Inactivity Lock"
               />
               <span className={styles.toggleSlider} />
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SaveTrustProfileRequest, TrustProfile, TrustProfileMethod } from '@signet/types';
+import { SlidersHorizontal, Loader2 } from 'lucide-react';
+import { TRUST_PROFILE_METHOD_OPTIONS, formatTrustProfileKinds, parseKindList } from '../../lib/trust-profiles.js';
+import styles from './TrustProfileModal.module.css';
+
+interface TrustProfileModalProps {
+  open: boolean;
+  /** Profile being edited, or null to create a new one */
+  profile: TrustProfile | null;
+  loading: boolean;
+  error: string | null;
+  onSubmit: (request: SaveTrustProfileRequest) => void;
+  onCancel: () => void;
+}
+
+export function TrustProfileModal({
+  open,
+  profile,
+  loading,
+  error,
+  onSubmit,
+  onCancel,
+}: TrustProfileModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [kinds, setKinds] = useState('');
+  const [methods, setMethods] = useState<TrustProfileMethod[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setName(profile?.name ?? '');
+      setDescription(profile?.description ?? '');
+      setKinds(profile?.kinds.join(', ') ?? '');
+      setMethods(profile?.methods ?? []);
+      setValidationError(null);
+    }
+  }, [open, profile]);
+
+  const parsedKinds = parseKindList(kinds);
+
+  const toggleMethod = (method: TrustProfileMethod) => {
+    setMethods(prev => prev.includes(method) ? prev.filter(m => m !== method) : [...prev, method]);
+  };
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError(null);
+
+    if (!name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (parsedKinds === null) {
+      setValidationError('Event kinds must be whole numbers separated by commas');
+      return;
+    }
+
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      kinds: parsedKinds,
+      methods,
+    });
+  }, [name, description, parsedKinds, methods, onSubmit]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  }, [onCancel]);
+
+  if (!open) return null;
+
+  const displayError = validationError || error;
+
+  return (
+    <div className={styles.overlay} onClick={onCancel} onKeyDown={handleKeyDown}>
+      <div
+        className={styles.modal}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trust-profile-modal-title"
+      >
+        <div className={styles.header}>
+          <div className={styles.icon}>
+            <SlidersHorizontal size={20} />
+          </div>
+          <h2 id="trust-profile-modal-title" className={styles.title}>
+            {profile ? 'Edit Trust Profile' : 'New Trust Profile'}
+          </h2>
+        </div>
+
+        <p className={styles.description}>
+          Apps using this profile can connect and read your public key without asking.
+          Only the event kinds and methods below are approved automatically.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Name</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Blogging client"
+              disabled={loading}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Description</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              disabled={loading}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Event kinds</span>
+            <input
+              type="text"
+              className={styles.input}
+              value={kinds}
+              onChange={(e) => setKinds(e.target.value)}
+              placeholder="e.g., 1, 30023, 30024"
+              disabled={loading}
+            />
+            {parsedKinds && parsedKinds.length > 0 && (
+              <span className={styles.hint}>{formatTrustProfileKinds(parsedKinds)}</span>
+            )}
+          </label>
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>Encryption</span>
+            <div className={styles.methods}>
+              {TRUST_PROFILE_METHOD_OPTIONS.map(option => (
+                <label key={option.value} className={styles.method}>
+                  <input
+                    type="checkbox"
+                    checked={methods.includes(option.value)}
+                    onChange={() => toggleMethod(option.value)}
+                    disabled={loading}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {displayError && (
+            <p className={styles.error}>{displayError}</p>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onCancel}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.submitButton}
+              disabled={loading}
+            >
+              {loading ? (
+                <>
+                  <Loader2 size={14} className={styles.spinning} />
+                  Saving...
+                </>
+              ) : (
+                profile ? 'Save Profile' : 'Create Profile'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { SaveTrustProfileRequest, TrustProfile } from '@signet/types';
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import type { UseTrustProfilesResult } from '../../hooks/useTrustProfiles.js';
+import { getTrustLevelInfo } from '../../lib/event-labels.js';
+import { formatTrustProfileKinds, getTrustProfileMethodLabel } from '../../lib/trust-profiles.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import { TrustProfileModal } from './TrustProfileModal.js';
+import styles from './TrustProfilesSection.module.css';
+
+interface TrustProfilesSectionProps {
+  trustProfiles: UseTrustProfilesResult;
+}
+
+function formatMethods(methods: TrustProfile['methods']): string | null {
+  return methods.length > 0 ? methods.map(getTrustProfileMethodLabel).join(', ') : null;
+}
+
+export function TrustProfilesSection({ trustProfiles }: TrustProfilesSectionProps) {
+  const { builtIn, profiles, error, createProfile, updateProfile, deleteProfile, clearError } = trustProfiles;
+
+  // undefined = closed, null = creating, profile = editing
+  const [editing, setEditing] = useState<TrustProfile | null | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<TrustProfile | null>(null);
+
+  const modalOpen = editing !== undefined;
+
+  const openModal = (profile: TrustProfile | null) => {
+    clearError();
+    setEditing(profile);
+  };
+
+  const handleSubmit = async (request: SaveTrustProfileRequest) => {
+    setSaving(true);
+    const success = editing
+      ? await updateProfile(editing.id, request)
+      : await createProfile(request);
+    setSaving(false);
+    if (success) {
+      setEditing(undefined);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteProfile(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <>
+      {error && !modalOpen && <div className={styles.error}>{error}</div>}
+
+      <ul className={styles.list}>
+        {builtIn.map(profile => {
+          const info = getTrustLevelInfo(profile.trustLevel);
+          const methods = formatMethods(profile.methods);
+          return (
+            <li key={profile.trustLevel} className={styles.profile}>
+              <div className={styles.header}>
+                <span className={`${styles.name} ${styles[profile.trustLevel]}`}>
+                  <info.Icon size={14} aria-hidden="true" />
+                  {info.label}
+                </span>
+                <span className={styles.badge}>Built-in</span>
+              </div>
+              <span className={styles.summary}>{formatTrustProfileKinds(profile.kinds)}</span>
+              {methods && <span className={styles.summary}>{methods}</span>}
+            </li>
+          );
+        })}
+
+        {profiles.map(profile => {
+          const methods = formatMethods(profile.methods);
+          return (
+            <li key={profile.id} className={styles.profile}>
+              <div className={styles.header}>
+                <span className={`${styles.name} ${styles.custom}`}>
+                  <SlidersHorizontal size={14} aria-hidden="true" />
+                  {profile.name}
+                </span>
+                <div className={styles.actions}>
+                  <button
+                    type="button"
+                    className={styles.actionButton}
+                    onClick={() => openModal(profile)}
+                    aria-label={`Edit ${profile.name}`}
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={() => setDeleteTarget(profile)}
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              {profile.description && <span className={styles.description}>{profile.description}</span>}
+              <span className={styles.summary}>{formatTrustProfileKinds(profile.kinds)}</span>
+              {methods && <span className={styles.summary}>{methods}</span>}
+              <span className={styles.meta}>
+                {profile.appCount} app{profile.appCount === 1 ? '' : 's'}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button type="button" className={styles.addButton} onClick={() => openModal(null)}>
+        <Plus size={14} />
+        New Profile
+      </button>
+
+      <TrustProfileModal
+        open={modalOpen}
+        profile={editing ?? null}
+        loading={saving}
+        error={modalOpen ? error : null}
+        onSubmit={handleSubmit}
+        onCancel={() => setEditing(undefined)}
+      />
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Delete Trust Profile"
+        message={
+          <>
+            Delete <strong>{deleteTarget?.name}</strong>? Apps using it fall back to Always Ask
+            until you choose a new trust level.
+          </>
+        }
+        confirmLabel="Delete"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import type { Webhook, WebhookDelivery, WebhookEventType } from '@signet/types';
+import { Check, Copy, Plus, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import type { UseWebhooksResult } from '../../hooks/useWebhooks.js';
+import { copyToClipboard } from '../../lib/clipboard.js';
+import { formatTimeAgo } from '../../lib/formatters.js';
+import { ConfirmDialog } from '../shared/ConfirmDialog.js';
+import styles from './WebhooksSection.module.css';
+
+const EVENT_OPTIONS: Array<{ type: WebhookEventType; label: string }> = [
+  { type: 'request:created', label: 'New request' },
+  { type: 'request:approved', label: 'Request approved' },
+  { type: 'request:denied', label: 'Request denied' },
+  { type: 'request:expired', label: 'Request expired' },
+  { type: 'request:auto_approved', label: 'Auto-approved' },
+  { type: 'app:connected', label: 'App connected' },
+  { type: 'app:revoked', label: 'App revoked' },
+  { type: 'key:created', label: 'Key created' },
+  { type: 'key:unlocked', label: 'Key unlocked' },
+  { type: 'key:locked', label: 'Key locked' },
+  { type: 'key:deleted', label: 'Key deleted' },
+  { type: 'deadman:panic', label: 'Inactivity lock' },
+  { type: 'backup:failed', label: 'Backup failed' },
+  { type: 'admin:event', label: 'Admin events' },
+];
+
+const DEFAULT_EVENTS: WebhookEventType[] = ['request:created', 'app:connected', 'key:locked', 'deadman:panic'];
+
+interface WebhooksSectionProps {
+  webhooks: UseWebhooksResult;
+}
+
+function describeEvents(webhook: Webhook): string {
+  if (webhook.events.length === EVENT_OPTIONS.length) {
+    return 'All events';
+  }
+  return webhook.events
+    .map(type => EVENT_OPTIONS.find(option => option.type === type)?.label ?? type)
+    .join(', ');
+}
+
+function describeDelivery(delivery: WebhookDelivery): string {
+  const result = delivery.status === 'delivered'
+    ? `delivered (HTTP ${delivery.responseStatus})`
+    : delivery.status === 'pending'
+      ? `retrying${delivery.error ? ` after ${delivery.error}` : ''}`
+      : `failed: ${delivery.error ?? 'unknown error'}`;
+  const attempts = delivery.attempts === 1 ? '1 attempt' : `${delivery.attempts} attempts`;
+  return `${result} · ${attempts}`;
+}
+
+export function WebhooksSection({ webhooks: webhooksHook }: WebhooksSectionProps) {
+  const { webhooks, error, createWebhook, updateWebhook, deleteWebhook, testWebhook, loadDeliveries, clearError } = webhooksHook;
+
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(DEFAULT_EVENTS);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Webhook | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [testingId, setTestingId] = useState<number | null>(null);
+
+  const toggleEvent = (type: WebhookEventType) => {
+    setEvents(current => current.includes(type)
+      ? current.filter(item => item !== type)
+      : [...current, type]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    setValidationError(null);
+    if (!name.trim() || !url.trim()) {
+      setValidationError('Name and URL are required');
+      return;
+    }
+    if (events.length === 0) {
+      setValidationError('Choose at least one event');
+      return;
+    }
+
+    setSaving(true);
+    const created = await createWebhook({ name: name.trim(), url: url.trim(), events });
+    setSaving(false);
+    if (created) {
+      setSecret(created);
+      setCopied(false);
+      setName('');
+      setUrl('');
+      setEvents(DEFAULT_EVENTS);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (secret && await copyToClipboard(secret)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const showDeliveries = async (webhookId: number) => {
+    setExpandedId(webhookId);
+    setDeliveries(await loadDeliveries(webhookId));
+  };
+
+  const handleToggleDeliveries = async (webhook: Webhook) => {
+    if (expandedId === webhook.id) {
+      setExpandedId(null);
+      return;
+    }
+    await showDeliveries(webhook.id);
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    clearError();
+    setTestingId(webhook.id);
+    await testWebhook(webhook.id);
+    setTestingId(null);
+    await showDeliveries(webhook.id);
+  };
+
+  const handleToggleEnabled = async (webhook: Webhook) => {
+    clearError();
+    await updateWebhook(webhook.id, { enabled: !webhook.enabled });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteWebhook(deleteTarget.id);
+    if (expandedId === deleteTarget.id) {
+      setExpandedId(null);
+    }
+    setDeleteTarget(null);
+  };
+
+  const displayError = validationError || error;
+
+  return (
+    <>
+      {displayError && <div className={styles.error}>{displayError}</div>}
+
+      {secret && (
+        <div className={styles.secret}>
+          <span className={styles.secretLabel}>Copy this signing secret now. It won't be shown again.</span>
+          <div className={styles.secretRow}>
+            <code className={styles.secretValue}>{secret}</code>
+            <button type="button" className={styles.textButton} onClick={handleCopy}>
+              {copied ? <Check size={14} /> : <Copy size={14} />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button type="button" className={styles.textButton} onClick={() => setSecret(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {webhooks.length === 0 ? (
+        <p className={styles.empty}>No webhooks yet.</p>
+      ) : (
+        <ul className={styles.list}>
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className={styles.item}>
+              <div className={styles.itemRow}>
+                <div className={styles.itemInfo}>
+                  <span className={styles.name}>
+                    <WebhookIcon size={14} aria-hidden="true" />
+                    {webhook.name}
+                    {!webhook.enabled && <span className={styles.badge}>Paused</span>}
+                  </span>
+                  <span className={styles.detail}>{webhook.url}</span>
+                  <span className={styles.detail}>{describeEvents(webhook)}</span>
+                </div>
+                <div className={styles.actions}>
+                  <label className={styles.toggle}>
+                    <input
+                      type="checkbox"
+                      checked={webhook.enabled}
+                      onChange={() => handleToggleEnabled(webhook)}
+                      aria-label={`Enable ${webhook.name}`}
+                    />
+                    <span className={styles.toggleSlider}></span>
+                  </label>
+                  <button
+                    type="button"
+                    className={styles.textButton}
+                    onClick={() => handleTest(webhook)}
+                    disabled={testingId === webhook.id}
+                  >
+                    <Send size={14} />
+                    {testingId === webhook.id ? 'Sending…' : 'Test'}
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.textButton}
+                    onClick={() => handleToggleDeliveries(webhook)}
+                    aria-expanded={expandedId === webhook.id}
+                  >
+                    Log
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={() => setDeleteTarget(webhook)}
+                    aria-label={`Remove ${webhook.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === webhook.id && (
+                deliveries.length === 0 ? (
+                  <p className={styles.empty}>No deliveries yet.</p>
+                ) : (
+                  <ul className={styles.deliveries}>
+                    {deliveries.map(delivery => (
+                      <li key={delivery.id} className={styles.delivery}>
+                        <span className={`${styles.status} ${styles[delivery.status]}`}>{delivery.eventType}</span>
+                        <span className={styles.detail}>
+                          {formatTimeAgo(delivery.createdAt)} · {describeDelivery(delivery)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className={styles.form} onSubmit={handleCreate}>
+        <div className={styles.row}>
+          <input
+            type="text"
+            className={styles.input}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Webhook name"
+            disabled={saving}
+          />
+          <input
+            type="url"
+            className={styles.input}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/signet"
+            aria-label="Webhook URL"
+            disabled={saving}
+          />
+        </div>
+        <div className={styles.row}>
+          {EVENT_OPTIONS.map(option => (
+            <label key={option.type} className={styles.event}>
+              <input
+                type="checkbox"
+                checked={events.includes(option.type)}
+                onChange={() => toggleEvent(option.type)}
+                disabled={saving}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <div className={styles.row}>
+          <button type="submit" className={styles.addButton} disabled={saving}>
+            <Plus size={14} />
+            Add Webhook
+          </button>
+        </div>
+      </form>
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Remove Webhook"
+        message={
+          <>
+            Remove <strong>{deleteTarget?.name}</strong>? Its delivery log and any pending retries are deleted.
+          </>
+        }
+        confirmLabel="Remove"
+        danger
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </>
+  );
+}
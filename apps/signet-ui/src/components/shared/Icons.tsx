@@ -17,6 +17,7 @@ import {
   ChevronDown,
   AlertCircle,
   RefreshCw,
+  Sprout,
   Search,
   X,
   Trash2,
@@ -34,6 +35,8 @@ import {
   Download,
   KeyRound,
   Timer,
+  Archive,
+  ArchiveRestore,
   type LucideProps,
 } from 'lucide-react';
 import type { AdminEventType } from '@signet/types';
@@ -135,6 +138,10 @@ export function getAdminEventIcon(eventType: AdminEventType): React.ComponentTyp
       return KeyRound;
     case 'key_exported':
       return Download;
+    case 'key_rotated':
+      return RefreshCw;
+    case 'seed_exported':
+      return Sprout;
     case 'auth_failed':
       return AlertCircle;
     case 'app_connected':
@@ -153,6 +160,10 @@ export function getAdminEventIcon(eventType: AdminEventType): React.ComponentTyp
       return AlertCircle;
     case 'deadman_reset':
       return Timer;
+    case 'backup_created':
+      return Archive;
+    case 'backup_restored':
+      return ArchiveRestore;
     default:
       return FileText;
   }
@@ -171,6 +182,10 @@ export function getAdminEventLabel(eventType: AdminEventType): string {
       return 'Encryption migrated';
     case 'key_exported':
       return 'Key exported';
+    case 'key_rotated':
+      return 'Key rotated';
+    case 'seed_exported':
+      return 'Seed exported';
     case 'auth_failed':
       return 'Auth failed';
     case 'app_connected':
@@ -189,6 +204,10 @@ export function getAdminEventLabel(eventType: AdminEventType): string {
       return 'Panic triggered';
     case 'deadman_reset':
       return 'Inactivity timer reset';
+    case 'backup_created':
+      return 'Backup created';
+    case 'backup_restored':
+      return 'Backup restored';
     default:
       return eventType;
   }
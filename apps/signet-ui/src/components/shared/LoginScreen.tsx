@@ -0,0 +1,197 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Loader2, LogIn, Puzzle, Link2, KeyRound } from 'lucide-react';
+import type { UseAuthResult } from '../../hooks/useAuth.js';
+import { hasNostrExtension } from '../../lib/dashboard-auth.js';
+import styles from './LoginScreen.module.css';
+
+type LoginTab = 'extension' | 'bunker' | 'key';
+
+interface LoginScreenProps {
+  auth: UseAuthResult;
+}
+
+export function LoginScreen({ auth }: LoginScreenProps) {
+  const { status, error, loginExtension, loginBunker, loginKey, clearError } = auth;
+  const [tab, setTab] = useState<LoginTab>(() => (hasNostrExtension() ? 'extension' : 'bunker'));
+  const [bunkerUri, setBunkerUri] = useState('');
+  const [keyName, setKeyName] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [authUrl, setAuthUrl] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Clear passphrase on unmount (security hygiene)
+  useEffect(() => {
+    return () => setPassphrase('');
+  }, []);
+
+  const handleTabChange = (next: LoginTab) => {
+    clearError();
+    setAuthUrl(null);
+    setTab(next);
+  };
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    setSubmitting(true);
+    setAuthUrl(null);
+    try {
+      if (tab === 'extension') {
+        await loginExtension();
+      } else if (tab === 'bunker') {
+        await loginBunker(bunkerUri, (url) => {
+          setAuthUrl(url);
+          window.open(url, '_blank', 'noopener,noreferrer');
+        });
+      } else if (await loginKey(keyName.trim(), passphrase)) {
+        setPassphrase('');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [tab, bunkerUri, keyName, passphrase, submitting, loginExtension, loginBunker, loginKey]);
+
+  const canSubmit = tab === 'extension'
+    || (tab === 'bunker' && bunkerUri.trim().length > 0)
+    || (tab === 'key' && keyName.trim().length > 0 && passphrase.length > 0);
+
+  return (
+    <div className={styles.loginScreen}>
+      <div className={styles.content}>
+        <div className={styles.iconContainer}>
+          <LogIn size={40} />
+        </div>
+
+        <h1 className={styles.title}>Log in to Signet</h1>
+
+        <p className={styles.description}>
+          Sign a one-time challenge with an admin key to open the dashboard.
+        </p>
+
+        <div className={styles.card}>
+          {status && !status.loginEnabled ? (
+            <p className={styles.notice}>
+              No admin npubs are configured. Add your npub to <code>adminNpubs</code> in the
+              Signet config file and restart the daemon.
+            </p>
+          ) : (
+            <>
+              <div className={styles.tabs} role="tablist">
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === 'extension'}
+                  className={`${styles.tab} ${tab === 'extension' ? styles.tabActive : ''}`}
+                  onClick={() => handleTabChange('extension')}
+                >
+                  <Puzzle size={14} />
+                  Extension
+                </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === 'bunker'}
+                  className={`${styles.tab} ${tab === 'bunker' ? styles.tabActive : ''}`}
+                  onClick={() => handleTabChange('bunker')}
+                >
+                  <Link2 size={14} />
+                  Bunker
+                </button>
+                <button
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === 'key'}
+                  className={`${styles.tab} ${tab === 'key' ? styles.tabActive : ''}`}
+                  onClick={() => handleTabChange('key')}
+                >
+                  <KeyRound size={14} />
+                  Signet Key
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className={styles.form}>
+                {tab === 'extension' && (
+                  <p className={styles.hint}>
+                    {hasNostrExtension()
+                      ? 'Your NIP-07 extension will ask you to sign the login event.'
+                      : 'No NIP-07 extension detected in this browser.'}
+                  </p>
+                )}
+
+                {tab === 'bunker' && (
+                  <div className={styles.formGroup}>
+                    <label htmlFor="login-bunker-uri">Bunker URI</label>
+                    <input
+                      id="login-bunker-uri"
+                      type="text"
+                      value={bunkerUri}
+                      onChange={(e) => setBunkerUri(e.target.value)}
+                      placeholder="bunker://... or name@domain"
+                      disabled={submitting}
+                      autoFocus
+                    />
+                  </div>
+                )}
+
+                {tab === 'key' && (
+                  <>
+                    <div className={styles.formGroup}>
+                      <label htmlFor="login-key-name">Key</label>
+                      <input
+                        id="login-key-name"
+                        type="text"
+                        value={keyName}
+                        onChange={(e) => setKeyName(e.target.value)}
+                        placeholder="Key name"
+                        disabled={submitting}
+                        autoFocus
+                      />
+                    </div>
+                    <div className={styles.formGroup}>
+                      <label htmlFor="login-key-passphrase">Passphrase</label>
+                      <input
+                        id="login-key-passphrase"
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Enter the key passphrase"
+                        disabled={submitting}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {authUrl && (
+                  <p className={styles.hint}>
+                    Your bunker needs approval.{' '}
+                    <a href={authUrl} target="_blank" rel="noopener noreferrer">Open approval page</a>
+                  </p>
+                )}
+
+                {error && (
+                  <div className={styles.error}>{error}</div>
+                )}
+
+                <button
+                  type="submit"
+                  className={styles.submitButton}
+                  disabled={submitting || !canSubmit || (tab === 'extension' && !hasNostrExtension())}
+                >
+                  {submitting ? (
+                    <>
+                      <Loader2 size={16} className={styles.spinning} />
+                      Waiting for signature...
+                    </>
+                  ) : (
+                    'Log In'
+                  )}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
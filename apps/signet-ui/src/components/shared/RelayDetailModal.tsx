@@ -1,7 +1,8 @@
 import React from 'react';
-import type { RelayStatusResponse } from '@signet/types';
-import { X, CheckCircle, XCircle } from 'lucide-react';
+import type { RelayHealthEntry, RelayHealthPoint, RelayRole, RelayStatus, RelayStatusResponse } from '@signet/types';
+import { X, CheckCircle, XCircle, ShieldCheck, ShieldAlert, ShieldEllipsis } from 'lucide-react';
 import { formatRelativeTime } from '../../lib/formatters.js';
+import { useRelayHealth } from '../../hooks/useRelayHealth.js';
 import styles from './RelayDetailModal.module.css';
 
 interface RelayDetailModalProps {
@@ -10,8 +11,130 @@ interface RelayDetailModalProps {
   relayStatus: RelayStatusResponse | null;
 }
 
+export function RelayAuthBadge({ relay }: { relay: RelayStatus }) {
+  switch (relay.auth) {
+    case 'authenticated':
+      return (
+        <span className={`${styles.relayAuth} ${styles.authOk}`}>
+          <ShieldCheck size={12} />
+          AUTH as {relay.authSigner}
+        </span>
+      );
+    case 'authenticating':
+      return (
+        <span className={styles.relayAuth}>
+          <ShieldEllipsis size={12} />
+          AUTH pending{relay.authSigner ? ` (${relay.authSigner})` : ''}
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className={`${styles.relayAuth} ${styles.authFailed}`} title={relay.authError ?? undefined}>
+          <ShieldAlert size={12} />
+          AUTH failed{relay.authError ? `: ${relay.authError}` : ''}
+        </span>
+      );
+    default:
+      return null;
+  }
+}
+
+const ROLE_LABELS: Partial<Record<RelayRole, string>> = {
+  promoted: 'Promoted backup',
+  demoted: 'Demoted',
+  backup: 'Backup',
+};
+
+const CHART_WIDTH = 200;
+const CHART_HEIGHT = 32;
+
+/**
+ * Health score history (0-100) as a sparkline; gaps where the relay had no score
+ */
+function HealthChart({ history }: { history: RelayHealthPoint[] }) {
+  if (history.filter((point) => point.score !== null).length < 2) {
+    return <span className={styles.chartEmpty}>Collecting history…</span>;
+  }
+
+  const step = CHART_WIDTH / Math.max(history.length - 1, 1);
+  const segments: string[] = [];
+  let current: string[] = [];
+  history.forEach((point, index) => {
+    if (point.score === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    const x = (index * step).toFixed(1);
+    const y = (CHART_HEIGHT - (point.score / 100) * CHART_HEIGHT).toFixed(1);
+    current.push(`${x},${y}`);
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  const first = history[0].at;
+  const last = history[history.length - 1].at;
+  return (
+    <svg
+      className={styles.chart}
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label={`Health score from ${new Date(first).toLocaleString()} to ${new Date(last).toLocaleString()}`}
+    >
+      {segments.map((points) => (
+        <polyline key={points} points={points} fill="none" vectorEffect="non-scaling-stroke" />
+      ))}
+    </svg>
+  );
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return '–';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function getScoreClass(score: number | null, minScore: number): string {
+  if (score === null) return '';
+  return score < minScore ? styles.scoreLow : styles.scoreOk;
+}
+
+function RelayHealthDetails({ entry, minScore }: { entry: RelayHealthEntry; minScore: number }) {
+  const { health } = entry;
+  const role = ROLE_LABELS[entry.role];
+  return (
+    <div className={styles.health}>
+      <div className={styles.healthStats}>
+        <span className={getScoreClass(health.score, minScore)}>
+          Score {health.score ?? '–'}
+        </span>
+        <span title="Connection attempts that succeeded">Connect {formatRate(health.connectRate)}</span>
+        <span title="Median publish acknowledgement time">Publish {formatLatency(health.publishLatencyMs)}</span>
+        <span title="Median time to end of stored events on probes">EOSE {formatLatency(health.eoseLatencyMs)}</span>
+        {health.recentFailures > 0 && (
+          <span className={styles.scoreLow}>{health.recentFailures} recent failures</span>
+        )}
+      </div>
+      {role && (
+        <span className={styles.relayRole}>
+          {role}
+          {entry.changedAt ? ` ${formatRelativeTime(entry.changedAt, Date.now())}` : ''}
+        </span>
+      )}
+      <HealthChart history={entry.history} />
+    </div>
+  );
+}
+
 export function RelayDetailModal({ open, onClose, relayStatus }: RelayDetailModalProps) {
   const now = Date.now();
+  const { report } = useRelayHealth(open);
+  const healthByUrl = new Map((report?.relays ?? []).map((entry) => [entry.url, entry]));
+  const minScore = report?.failover.minScore ?? 0;
+  const idleRelays = (report?.relays ?? []).filter((entry) => entry.role === 'backup' || entry.role === 'demoted');
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -33,6 +156,7 @@ export function RelayDetailModal({ open, onClose, relayStatus }: RelayDetailModa
 
         <div className={styles.summary}>
           {relayStatus.connected} of {relayStatus.total} relays connected
+          {report?.failover.enabled && ` · failover below score ${report.failover.minScore}`}
         </div>
 
         <div className={styles.relayList}>
@@ -49,12 +173,32 @@ export function RelayDetailModal({ open, onClose, relayStatus }: RelayDetailModa
                       ? `Disconnected ${formatRelativeTime(relay.lastDisconnected, now)}`
                       : 'Disconnected'}
                 </span>
+                {relay.keys && relay.keys.length > 0 && (
+                  <span className={styles.relayKeys}>Keys: {relay.keys.join(', ')}</span>
+                )}
+                <RelayAuthBadge relay={relay} />
+                {healthByUrl.has(relay.url) && (
+                  <RelayHealthDetails entry={healthByUrl.get(relay.url)!} minScore={minScore} />
+                )}
               </div>
               <div className={`${styles.relayStatus} ${relay.connected ? styles.connected : styles.disconnected}`}>
                 {relay.connected ? <CheckCircle size={18} /> : <XCircle size={18} />}
               </div>
             </div>
           ))}
+          {idleRelays.length > 0 && (
+            <>
+              <div className={styles.sectionLabel}>Not in use</div>
+              {idleRelays.map((entry) => (
+                <div key={entry.url} className={styles.relayItem}>
+                  <div className={styles.relayInfo}>
+                    <span className={styles.relayUrl}>{entry.url}</span>
+                    <RelayHealthDetails entry={entry} minScore={minScore} />
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import type { HealthStatus, RelayStatusResponse, KeyInfo } from '@signet/types';
 import type { UIHealthStatus } from '../../hooks/useHealth.js';
-import type { DeadManSwitchStatus } from '../../lib/api-client.js';
-import { X, XCircle, ChevronDown, ChevronUp, Timer } from 'lucide-react';
+import { runScheduledBackup, type DeadManSwitchStatus } from '../../lib/api-client.js';
+import { X, XCircle, ChevronDown, ChevronUp, Timer, Activity, Archive } from 'lucide-react';
 import { formatUptime, formatRelativeTime } from '../../lib/formatters.js';
+import { RelayAuthBadge } from './RelayDetailModal.js';
 import styles from './SystemStatusModal.module.css';
 
 interface SystemStatusModalProps {
@@ -17,6 +18,7 @@ interface SystemStatusModalProps {
     deadManSwitchUrgency: 'normal' | 'warning' | 'critical';
     keys: KeyInfo[];
     onReset?: (keyName: string, passphrase: string) => Promise<{ ok: boolean; error?: string; remainingAttempts?: number }>;
+    onOpenRelayHealth?: () => void;
 }
 
 const STATUS_LABELS: Record<UIHealthStatus, string> = {
@@ -46,6 +48,7 @@ export function SystemStatusModal({
     deadManSwitchUrgency,
     keys,
     onReset,
+    onOpenRelayHealth,
 }: SystemStatusModalProps) {
     const [relaysExpanded, setRelaysExpanded] = useState(false);
     const [resetDialogOpen, setResetDialogOpen] = useState(false);
@@ -54,6 +57,8 @@ export function SystemStatusModal({
     const [resetError, setResetError] = useState<string | null>(null);
     const [remainingAttempts, setRemainingAttempts] = useState<number | undefined>();
     const [resetting, setResetting] = useState(false);
+    const [backingUp, setBackingUp] = useState(false);
+    const [backupError, setBackupError] = useState<string | null>(null);
     const now = Date.now();
 
     // Get encrypted keys for reset
@@ -95,6 +100,19 @@ export function SystemStatusModal({
         setRemainingAttempts(undefined);
     };
 
+    const handleBackupNow = async () => {
+        setBackingUp(true);
+        setBackupError(null);
+        try {
+            // The outcome also arrives as a backup event and updates health.backups
+            await runScheduledBackup();
+        } catch (err) {
+            setBackupError(err instanceof Error ? err.message : 'Backup failed');
+        } finally {
+            setBackingUp(false);
+        }
+    };
+
     const handleBackdropClick = (e: React.MouseEvent) => {
         if (e.target === e.currentTarget) {
             onClose();
@@ -188,6 +206,12 @@ export function SystemStatusModal({
                                                             ? `Disconnected ${formatRelativeTime(relay.lastDisconnected, now)}`
                                                             : 'Disconnected'}
                                                 </span>
+                                                {relay.keys && relay.keys.length > 0 && (
+                                                    <span className={styles.relayKeys}>
+                                                        Keys: {relay.keys.join(', ')}
+                                                    </span>
+                                                )}
+                                                <RelayAuthBadge relay={relay} />
                                             </div>
                                             {relay.connected ? (
                                                 relay.trustScore !== null ? (
@@ -215,6 +239,17 @@ export function SystemStatusModal({
                                 </div>
                             )}
 
+                            {relaysExpanded && onOpenRelayHealth && (
+                                <button
+                                    type="button"
+                                    className={styles.relayHealthButton}
+                                    onClick={onOpenRelayHealth}
+                                >
+                                    <Activity size={14} />
+                                    Relay health and failover
+                                </button>
+                            )}
+
                             {/* Inactivity Lock Section */}
                             {deadManSwitchStatus?.enabled && (
                                 <div className={styles.inactivitySection}>
@@ -239,6 +274,44 @@ export function SystemStatusModal({
                                     )}
                                 </div>
                             )}
+
+                            {/* Scheduled Backups Section */}
+                            {health.backups?.enabled && (
+                                <div className={styles.inactivitySection}>
+                                    <div className={styles.inactivityHeader}>
+                                        <div className={styles.inactivityInfo}>
+                                            <Archive size={16} className={styles.inactivityIcon} />
+                                            <span className={styles.inactivityLabel}>Backups</span>
+                                        </div>
+                                        <span className={`${styles.inactivityCountdown} ${styles[health.backups.lastError ? 'urgency_critical' : 'urgency_normal']}`}>
+                                            {health.backups.lastSuccessAt
+                                                ? formatRelativeTime(health.backups.lastSuccessAt, now)
+                                                : 'Never'}
+                                        </span>
+                                    </div>
+                                    {health.backups.lastError && (
+                                        <p className={styles.backupError}>
+                                            Last attempt failed: {health.backups.lastError}
+                                        </p>
+                                    )}
+                                    {backupError && !health.backups.lastError && (
+                                        <p className={styles.backupError}>{backupError}</p>
+                                    )}
+                                    <p className={styles.backupDetail}>
+                                        {health.backups.snapshots} of {health.backups.keep} kept
+                                        {health.backups.nextRunAt && ` · next ${new Date(health.backups.nextRunAt).toLocaleString()}`}
+                                    </p>
+                                    <button
+                                        type="button"
+                                        className={styles.resetButton}
+                                        onClick={handleBackupNow}
+                                        disabled={backingUp || health.backups.running}
+                                    >
+                                        <Archive size={14} />
+                                        {backingUp || health.backups.running ? 'Backing up...' : 'Back Up Now'}
+                                    </button>
+                                </div>
+                            )}
                         </>
                     ) : (
                         <div className={styles.offlineMessage}>
@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import type { AuthStatusResponse } from '@signet/types';
+import { AccessContext, FULL_ACCESS, type AccessContextValue } from '../hooks/useAccess.js';
+
+export function AccessProvider({ status, children }: { status: AuthStatusResponse | null; children: React.ReactNode }) {
+  const value = useMemo<AccessContextValue>(() => {
+    if (!status?.requireAuth || status.role === 'owner') {
+      return { ...FULL_ACCESS, role: status?.role ?? null };
+    }
+    const { role, scopes, keyNames } = status;
+    return {
+      role,
+      isOwner: false,
+      can: (scope, keyName) => {
+        if (!scopes.includes(scope)) {
+          return false;
+        }
+        return !keyName || keyNames === null || keyNames.includes(keyName);
+      },
+      canAllKeys: (scope) => scopes.includes(scope) && keyNames === null,
+    };
+  }, [status]);
+
+  return (
+    <AccessContext.Provider value={value}>
+      {children}
+    </AccessContext.Provider>
+  );
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { ApiTokenScope, DashboardRole } from '@signet/types';
+
+export interface AccessContextValue {
+    /** Role of the logged-in user, or null when the dashboard has no login */
+    role: DashboardRole | null;
+    /** Owners can manage operators, tokens, policies and other global settings */
+    isOwner: boolean;
+    /** Whether the user may perform actions needing this scope (on this key, if given) */
+    can: (scope: ApiTokenScope, keyName?: string | null) => boolean;
+    /** Whether the user may perform actions needing this scope on every key at once (lock all, suspend all) */
+    canAllKeys: (scope: ApiTokenScope) => boolean;
+}
+
+export const AccessContext = createContext<AccessContextValue | null>(null);
+
+// Without a required login (or in standalone mode) there are no roles: allow everything
+export const FULL_ACCESS: AccessContextValue = {
+    role: null,
+    isOwner: true,
+    can: () => true,
+    canAllKeys: () => true,
+};
+
+/**
+ * What the logged-in user may do, as provided by AccessProvider
+ */
+export function useAccess(): AccessContextValue {
+    return useContext(AccessContext) ?? FULL_ACCESS;
+}
@@ -0,0 +1,100 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ApiToken, ApiTokensResponse, CreateApiTokenRequest, CreateApiTokenResponse } from '@signet/types';
+import { apiGet, apiPost, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useAccess } from './useAccess.js';
+import { useMutation } from './useMutation.js';
+
+export interface UseApiTokensResult {
+    tokens: ApiToken[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    /** Returns the token secret, which is only shown once */
+    createToken: (request: CreateApiTokenRequest) => Promise<string | null>;
+    deleteToken: (tokenId: number) => Promise<boolean>;
+    clearError: () => void;
+}
+
+type MutationResult = { ok?: boolean; error?: string };
+
+export function useApiTokens(): UseApiTokensResult {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { isOwner } = useAccess();
+
+    const refresh = useCallback(async () => {
+        // Only owners can manage API tokens
+        if (isStandalone() || !isOwner) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<ApiTokensResponse>('/api-tokens');
+            setTokens(response.tokens);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load API tokens'));
+        } finally {
+            setLoading(false);
+        }
+    }, [isOwner]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const createTokenMutation = useMutation(
+        async (request: CreateApiTokenRequest) => {
+            const result = await apiPost<CreateApiTokenResponse | MutationResult>('/api-tokens', request);
+            if (!result?.ok || !('secret' in result)) {
+                throw new Error(('error' in result ? result.error : undefined) ?? 'Failed to create API token');
+            }
+            return result.secret;
+        },
+        { errorPrefix: 'Failed to create API token', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteTokenMutation = useMutation(
+        async (tokenId: number) => {
+            const result = await apiDelete<MutationResult>(`/api-tokens/${tokenId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to revoke API token');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to revoke API token', onSuccess: refresh, onError: setError }
+    );
+
+    const createToken = useCallback(
+        (request: CreateApiTokenRequest) => createTokenMutation.mutate(request),
+        [createTokenMutation]
+    );
+
+    const deleteToken = useCallback(async (tokenId: number): Promise<boolean> => {
+        const result = await deleteTokenMutation.mutate(tokenId);
+        return result ?? false;
+    }, [deleteTokenMutation]);
+
+    const { clearError: clearCreateError } = createTokenMutation;
+    const { clearError: clearDeleteError } = deleteTokenMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateError();
+        clearDeleteError();
+    }, [clearCreateError, clearDeleteError]);
+
+    return {
+        tokens,
+        loading,
+        error: error || createTokenMutation.error || deleteTokenMutation.error,
+        refresh,
+        createToken,
+        deleteToken,
+        clearError,
+    };
+}
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { ConnectedApp, TrustLevel } from '@signet/types';
-import { apiGet, apiPost, apiPatch, suspendAllApps as suspendAllAppsApi, resumeAllApps as resumeAllAppsApi } from '../lib/api-client.js';
+import type { AppQuotaConfig, AppSchedule, ConnectedApp, TrustLevel } from '@signet/types';
+import { apiGet, apiPost, apiPatch, apiDelete, suspendAllApps as suspendAllAppsApi, resumeAllApps as resumeAllAppsApi } from '../lib/api-client.js';
 import { buildErrorMessage } from '../lib/formatters.js';
 import { useSSESubscription } from '../contexts/ServerEventsContext.js';
 import { useMutation } from './useMutation.js';
@@ -14,6 +14,10 @@ interface UseAppsResult {
     revokeApp: (appId: number) => Promise<boolean>;
     updateDescription: (appId: number, description: string) => Promise<boolean>;
     updateTrustLevel: (appId: number, trustLevel: TrustLevel) => Promise<boolean>;
+    updateTrustProfile: (appId: number, trustProfileId: number) => Promise<boolean>;
+    updateQuotas: (appId: number, quotas: AppQuotaConfig | null) => Promise<boolean>;
+    updateSchedule: (appId: number, schedule: AppSchedule | null) => Promise<boolean>;
+    removeCondition: (appId: number, conditionId: number) => Promise<boolean>;
     suspendApp: (appId: number, until?: Date) => Promise<boolean>;
     unsuspendApp: (appId: number) => Promise<boolean>;
     suspendAllApps: (until?: Date) => Promise<{ success: boolean; suspendedCount?: number }>;
@@ -83,6 +87,11 @@ export function useApps(): UseAppsResult {
             setApps(prev => prev.map(app =>
                 app.id === event.app.id ? event.app : app
             ));
+        } else if (event.type === 'app:quota_exceeded') {
+            // Surface the latest quota hit without refetching
+            setApps(prev => prev.map(app =>
+                app.id === event.appId ? { ...app, lastQuotaHit: event.hit } : app
+            ));
         }
     }, [refresh]);
 
@@ -132,6 +141,58 @@ export function useApps(): UseAppsResult {
         { errorPrefix: 'Failed to update trust level', onSuccess: refresh, onError: setError }
     );
 
+    // Update trust profile mutation
+    const trustProfileMutation = useMutation(
+        async ({ appId, trustProfileId }: { appId: number; trustProfileId: number }) => {
+            if (isStandalone()) return true;
+            const result = await apiPatch<{ ok?: boolean; error?: string }>(`/apps/${appId}`, { trustProfileId });
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update trust profile');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update trust profile', onSuccess: refresh, onError: setError }
+    );
+
+    // Update quotas mutation
+    const quotasMutation = useMutation(
+        async ({ appId, quotas }: { appId: number; quotas: AppQuotaConfig | null }) => {
+            if (isStandalone()) return true;
+            const result = await apiPatch<{ ok?: boolean; error?: string }>(`/apps/${appId}`, { quotas });
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update rate limits');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update rate limits', onSuccess: refresh, onError: setError }
+    );
+
+    // Update schedule mutation
+    const scheduleMutation = useMutation(
+        async ({ appId, schedule }: { appId: number; schedule: AppSchedule | null }) => {
+            if (isStandalone()) return true;
+            const result = await apiPatch<{ ok?: boolean; error?: string }>(`/apps/${appId}`, { schedule });
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update schedule');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update schedule', onSuccess: refresh, onError: setError }
+    );
+
+    // Remove signing condition mutation
+    const removeConditionMutation = useMutation(
+        async ({ appId, conditionId }: { appId: number; conditionId: number }) => {
+            if (isStandalone()) return true;
+            const result = await apiDelete<{ ok?: boolean; error?: string }>(`/apps/${appId}/conditions/${conditionId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to remove condition');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to remove condition', onSuccess: refresh, onError: setError }
+    );
+
     // Suspend app mutation
     const suspendMutation = useMutation(
         async ({ appId, until }: { appId: number; until?: Date }) => {
@@ -201,6 +262,26 @@ export function useApps(): UseAppsResult {
         return result ?? false;
     }, [trustLevelMutation]);
 
+    const updateTrustProfile = useCallback(async (appId: number, trustProfileId: number): Promise<boolean> => {
+        const result = await trustProfileMutation.mutate({ appId, trustProfileId });
+        return result ?? false;
+    }, [trustProfileMutation]);
+
+    const updateQuotas = useCallback(async (appId: number, quotas: AppQuotaConfig | null): Promise<boolean> => {
+        const result = await quotasMutation.mutate({ appId, quotas });
+        return result ?? false;
+    }, [quotasMutation]);
+
+    const updateSchedule = useCallback(async (appId: number, schedule: AppSchedule | null): Promise<boolean> => {
+        const result = await scheduleMutation.mutate({ appId, schedule });
+        return result ?? false;
+    }, [scheduleMutation]);
+
+    const removeCondition = useCallback(async (appId: number, conditionId: number): Promise<boolean> => {
+        const result = await removeConditionMutation.mutate({ appId, conditionId });
+        return result ?? false;
+    }, [removeConditionMutation]);
+
     const suspendApp = useCallback(async (appId: number, until?: Date): Promise<boolean> => {
         const result = await suspendMutation.mutate({ appId, until });
         return result ?? false;
@@ -230,6 +311,10 @@ export function useApps(): UseAppsResult {
         || revokeMutation.error
         || descriptionMutation.error
         || trustLevelMutation.error
+        || trustProfileMutation.error
+        || quotasMutation.error
+        || scheduleMutation.error
+        || removeConditionMutation.error
         || suspendMutation.error
         || unsuspendMutation.error
         || suspendAllMutation.error
@@ -243,6 +328,10 @@ export function useApps(): UseAppsResult {
         revokeApp,
         updateDescription,
         updateTrustLevel,
+        updateTrustProfile,
+        updateQuotas,
+        updateSchedule,
+        removeCondition,
         suspendApp,
         unsuspendApp,
         suspendAllApps,
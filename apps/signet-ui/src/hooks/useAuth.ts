@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { AuthStatusResponse, DashboardSession, DashboardSessionsResponse, LoginResponse } from '@signet/types';
+import { apiGet, apiPost, apiDelete } from '../lib/api-client.js';
+import { loginWithBunker, loginWithExtension, loginWithKey } from '../lib/dashboard-auth.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+
+export interface UseAuthResult {
+    status: AuthStatusResponse | null;
+    /** Whether the dashboard must show the login screen */
+    needsLogin: boolean;
+    sessions: DashboardSession[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    loginExtension: () => Promise<boolean>;
+    loginBunker: (bunkerUri: string, onAuthUrl?: (url: string) => void) => Promise<boolean>;
+    loginKey: (keyName: string, passphrase: string) => Promise<boolean>;
+    logout: () => Promise<boolean>;
+    refreshSessions: () => Promise<void>;
+    revokeSession: (sessionId: string) => Promise<boolean>;
+    clearError: () => void;
+}
+
+export function useAuth(): UseAuthResult {
+    const [status, setStatus] = useState<AuthStatusResponse | null>(null);
+    const [sessions, setSessions] = useState<DashboardSession[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (isStandalone()) {
+            setLoading(false);
+            return;
+        }
+        try {
+            setStatus(await apiGet<AuthStatusResponse>('/auth/status'));
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to check login status'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const refreshSessions = useCallback(async () => {
+        try {
+            const response = await apiGet<DashboardSessionsResponse>('/auth/sessions');
+            setSessions(response.sessions);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load sessions'));
+        }
+    }, []);
+
+    const runLogin = useCallback(async (login: () => Promise<LoginResponse>): Promise<boolean> => {
+        setError(null);
+        try {
+            await login();
+            await refresh();
+            return true;
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Login failed'));
+            return false;
+        }
+    }, [refresh]);
+
+    const loginExtension = useCallback(
+        () => runLogin(loginWithExtension),
+        [runLogin]
+    );
+
+    const loginBunker = useCallback(
+        (bunkerUri: string, onAuthUrl?: (url: string) => void) => runLogin(() => loginWithBunker(bunkerUri, onAuthUrl)),
+        [runLogin]
+    );
+
+    const loginKey = useCallback(
+        (keyName: string, passphrase: string) => runLogin(() => loginWithKey(keyName, passphrase)),
+        [runLogin]
+    );
+
+    const logout = useCallback(async (): Promise<boolean> => {
+        try {
+            await apiPost('/auth/logout');
+            setSessions([]);
+            await refresh();
+            return true;
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Failed to log out'));
+            return false;
+        }
+    }, [refresh]);
+
+    const revokeSession = useCallback(async (sessionId: string): Promise<boolean> => {
+        const current = sessions.find(session => session.id === sessionId)?.current ?? false;
+        try {
+            await apiDelete(`/auth/sessions/${encodeURIComponent(sessionId)}`);
+            if (current) {
+                setSessions([]);
+                await refresh();
+            } else {
+                await refreshSessions();
+            }
+            return true;
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Failed to revoke session'));
+            return false;
+        }
+    }, [sessions, refresh, refreshSessions]);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    return {
+        status,
+        needsLogin: Boolean(status?.requireAuth && !status.authenticated),
+        sessions,
+        loading,
+        error,
+        refresh,
+        loginExtension,
+        loginBunker,
+        loginKey,
+        logout,
+        refreshSessions,
+        revokeSession,
+        clearError,
+    };
+}
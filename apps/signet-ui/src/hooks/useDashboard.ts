@@ -84,6 +84,16 @@ export function useDashboard(): UseDashboardResult {
       }
     }
 
+    // Flag entries whose response no relay accepted
+    if (event.type === 'request:delivery') {
+      setActivity(prev => prev.map(entry =>
+        'requestId' in entry && entry.requestId === event.requestId
+          ? { ...entry, delivery: event.delivery.status }
+          : entry
+      ));
+      return;
+    }
+
     // Handle admin events (key lock/unlock, app suspend/unsuspend, daemon start)
     if (event.type === 'admin:event') {
       setActivity(prev => [event.activity, ...prev].slice(0, 20));
@@ -55,6 +55,11 @@ export function useHealth(): UseHealthResult {
                 setError(null);
                 setLoading(false);
                 break;
+            case 'backup:completed':
+            case 'backup:failed':
+                // Snapshot results arrive between health updates
+                setHealth((current) => current ? { ...current, backups: event.status } : current);
+                break;
             case 'reconnected':
                 // SSE reconnection - fetch to ensure consistency
                 refresh();
@@ -1,14 +1,18 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { KeyInfo, EncryptionFormat } from '@signet/types';
+import type { KeyInfo, EncryptionFormat, RotateKeyRequest, RotateKeyResult } from '@signet/types';
 import {
     apiGet,
     apiPost,
     apiPatch,
     apiDelete,
+    apiPut,
     lockAllKeys as lockAllKeysApi,
     encryptKey as encryptKeyApi,
     migrateKeyToNip49 as migrateKeyApi,
     exportKey as exportKeyApi,
+    exportKeyShares as exportKeySharesApi,
+    rotateKey as rotateKeyApi,
+    republishMigration as republishMigrationApi,
 } from '../lib/api-client.js';
 import { buildErrorMessage } from '../lib/formatters.js';
 import { useMutation } from './useMutation.js';
@@ -33,6 +37,10 @@ interface UseKeysResult {
         passphrase?: string;
         confirmPassphrase?: string;
         nsec?: string;
+        shares?: string[];
+        seed?: string;
+        seedPassphrase?: string;
+        derivationIndex?: number;
         encryption?: EncryptionFormat;
     }) => Promise<KeyInfo | null>;
     deleteKey: (keyName: string, passphrase?: string) => Promise<{ success: boolean; revokedApps?: number }>;
@@ -41,20 +49,26 @@ interface UseKeysResult {
     lockKey: (keyName: string) => Promise<boolean>;
     lockAllKeys: () => Promise<{ success: boolean; lockedCount?: number }>;
     renameKey: (keyName: string, newName: string) => Promise<boolean>;
+    setKeyRelays: (keyName: string, relays: string[]) => Promise<boolean>;
     setPassphrase: (keyName: string, passphrase: string) => Promise<boolean>;
     encryptKey: (keyName: string, encryption: 'nip49' | 'legacy', passphrase: string, confirmPassphrase: string) => Promise<boolean>;
     migrateKey: (keyName: string, passphrase: string) => Promise<boolean>;
     exportKey: (keyName: string, format: 'nsec' | 'nip49', currentPassphrase?: string, exportPassphrase?: string, confirmExportPassphrase?: string) => Promise<{ key?: string; format?: 'nsec' | 'ncryptsec' } | null>;
+    exportKeyShares: (keyName: string, threshold: number, shareCount: number, currentPassphrase?: string) => Promise<string[] | null>;
+    rotateKey: (keyName: string, request: RotateKeyRequest) => Promise<RotateKeyResult | null>;
+    republishMigration: (keyName: string, currentPassphrase?: string) => Promise<boolean>;
     creating: boolean;
     deleting: boolean;
     unlocking: string | null;  // Key name being unlocked, or null
     locking: string | null;    // Key name being locked, or null
     lockingAll: boolean;
     renaming: boolean;
+    savingRelays: boolean;
     settingPassphrase: boolean;
     encrypting: boolean;
     migrating: boolean;
     exporting: boolean;
+    rotating: boolean;
     clearError: () => void;
 }
 
@@ -125,6 +139,10 @@ export function useKeys(): UseKeysResult {
             passphrase?: string;
             confirmPassphrase?: string;
             nsec?: string;
+            shares?: string[];
+            seed?: string;
+            seedPassphrase?: string;
+            derivationIndex?: number;
             encryption?: EncryptionFormat;
         }) => {
             if (!data.keyName.trim()) {
@@ -132,6 +150,12 @@ export function useKeys(): UseKeysResult {
             }
 
             if (isStandalone()) {
+                if (data.shares?.length) {
+                    throw new Error('Recovering a key from shares requires the Signet daemon');
+                }
+                if (data.seed) {
+                    throw new Error('Deriving a key from a seed requires the Signet daemon');
+                }
                 const { mobileSigner } = await import('../lib/mobile-signer.js');
                 await mobileSigner.createKey(data.keyName, data.nsec);
                 return null;
@@ -261,6 +285,21 @@ export function useKeys(): UseKeysResult {
         { errorPrefix: 'Failed to rename key', onSuccess: refresh, onError: setError }
     );
 
+    const setRelaysMutation = useMutation(
+        async ({ keyName, relays }: { keyName: string; relays: string[] }) => {
+            if (isStandalone()) return true; // Standalone signer uses its own fixed relays
+            const result = await apiPut<{ ok?: boolean; error?: string }>(
+                `/keys/${encodeURIComponent(keyName)}/relays`,
+                { relays }
+            );
+            if (!result.ok) {
+                throw new Error(result.error || 'Failed to update relays');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update relays', onSuccess: refresh, onError: setError }
+    );
+
     const setPassphraseMutation = useMutation(
         async ({ keyName, passphrase }: { keyName: string; passphrase: string }) => {
             if (!passphrase.trim()) {
@@ -343,12 +382,64 @@ export function useKeys(): UseKeysResult {
         { errorPrefix: 'Failed to export key', onError: setError }
     );
 
+    // Export key as Shamir shares mutation
+    const exportSharesMutation = useMutation(
+        async ({
+            keyName,
+            threshold,
+            shareCount,
+            currentPassphrase,
+        }: {
+            keyName: string;
+            threshold: number;
+            shareCount: number;
+            currentPassphrase?: string;
+        }) => {
+            const result = await exportKeySharesApi(keyName, threshold, shareCount, currentPassphrase);
+            if (!result.ok || !result.shares) {
+                throw new Error(result.error || 'Failed to export key shares');
+            }
+            return result.shares;
+        },
+        { errorPrefix: 'Failed to export key shares', onError: setError }
+    );
+
+    // Rotate key mutation
+    const rotateMutation = useMutation(
+        async ({ keyName, request }: { keyName: string; request: RotateKeyRequest }) => {
+            if (!request.successorName.trim()) {
+                throw new Error('Successor key name is required');
+            }
+            const result = await rotateKeyApi(keyName, request);
+            if (!result.ok || !result.successor) {
+                throw new Error(result.error || 'Failed to rotate key');
+            }
+            return result as RotateKeyResult;
+        },
+        { errorPrefix: 'Failed to rotate key', onSuccess: refresh, onError: setError }
+    );
+
+    const republishMutation = useMutation(
+        async ({ keyName, currentPassphrase }: { keyName: string; currentPassphrase?: string }) => {
+            const result = await republishMigrationApi(keyName, currentPassphrase);
+            if (!result.ok) {
+                throw new Error(result.error || 'Failed to publish migration events');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to publish migration events', onError: setError }
+    );
+
     // Wrapper functions to maintain the same API
     const createKey = useCallback(async (data: {
         keyName: string;
         passphrase?: string;
         confirmPassphrase?: string;
         nsec?: string;
+        shares?: string[];
+        seed?: string;
+        seedPassphrase?: string;
+        derivationIndex?: number;
         encryption?: EncryptionFormat;
     }) => {
         return createMutation.mutate(data);
@@ -393,6 +484,11 @@ export function useKeys(): UseKeysResult {
         return result ?? false;
     }, [renameMutation]);
 
+    const setKeyRelays = useCallback(async (keyName: string, relays: string[]) => {
+        const result = await setRelaysMutation.mutate({ keyName, relays });
+        return result ?? false;
+    }, [setRelaysMutation]);
+
     const setPassphrase = useCallback(async (keyName: string, passphrase: string) => {
         const result = await setPassphraseMutation.mutate({ keyName, passphrase });
         return result ?? false;
@@ -430,6 +526,26 @@ export function useKeys(): UseKeysResult {
         return result ?? null;
     }, [exportMutation]);
 
+    const exportKeyShares = useCallback(async (
+        keyName: string,
+        threshold: number,
+        shareCount: number,
+        currentPassphrase?: string
+    ) => {
+        const result = await exportSharesMutation.mutate({ keyName, threshold, shareCount, currentPassphrase });
+        return result ?? null;
+    }, [exportSharesMutation]);
+
+    const rotateKey = useCallback(async (keyName: string, request: RotateKeyRequest) => {
+        const result = await rotateMutation.mutate({ keyName, request });
+        return result ?? null;
+    }, [rotateMutation]);
+
+    const republishMigration = useCallback(async (keyName: string, currentPassphrase?: string) => {
+        const result = await republishMutation.mutate({ keyName, currentPassphrase });
+        return result ?? false;
+    }, [republishMutation]);
+
     const clearError = useCallback(() => {
         setError(null);
     }, []);
@@ -441,10 +557,14 @@ export function useKeys(): UseKeysResult {
         || lockMutation.error
         || lockAllMutation.error
         || renameMutation.error
+        || setRelaysMutation.error
         || setPassphraseMutation.error
         || encryptMutation.error
         || migrateMutation.error
-        || exportMutation.error;
+        || exportMutation.error
+        || exportSharesMutation.error
+        || rotateMutation.error
+        || republishMutation.error;
 
     return {
         keys,
@@ -458,20 +578,26 @@ export function useKeys(): UseKeysResult {
         lockKey,
         lockAllKeys,
         renameKey,
+        setKeyRelays,
         setPassphrase,
         encryptKey,
         migrateKey,
         exportKey,
+        exportKeyShares,
+        rotateKey,
+        republishMigration,
         creating: createMutation.loading,
         deleting: deleteMutation.loading,
         unlocking: unlockingKeyName,
         locking: lockingKeyName,
         lockingAll: lockAllMutation.loading,
         renaming: renameMutation.loading,
+        savingRelays: setRelaysMutation.loading,
         settingPassphrase: setPassphraseMutation.loading,
         encrypting: encryptMutation.loading,
         migrating: migrateMutation.loading,
-        exporting: exportMutation.loading,
+        exporting: exportMutation.loading || exportSharesMutation.loading,
+        rotating: rotateMutation.loading || republishMutation.loading,
         clearError,
     };
 }
@@ -0,0 +1,119 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { CreateOperatorRequest, Operator, OperatorsResponse, UpdateOperatorRequest } from '@signet/types';
+import { apiGet, apiPost, apiPatch, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useAccess } from './useAccess.js';
+import { useMutation } from './useMutation.js';
+
+export interface UseOperatorsResult {
+    operators: Operator[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    createOperator: (request: CreateOperatorRequest) => Promise<boolean>;
+    updateOperator: (operatorId: number, request: UpdateOperatorRequest) => Promise<boolean>;
+    deleteOperator: (operatorId: number) => Promise<boolean>;
+    clearError: () => void;
+}
+
+type MutationResult = { ok?: boolean; error?: string };
+
+export function useOperators(): UseOperatorsResult {
+    const [operators, setOperators] = useState<Operator[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { isOwner } = useAccess();
+
+    const refresh = useCallback(async () => {
+        // Only owners can manage operators
+        if (isStandalone() || !isOwner) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<OperatorsResponse>('/operators');
+            setOperators(response.operators);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load operators'));
+        } finally {
+            setLoading(false);
+        }
+    }, [isOwner]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const createOperatorMutation = useMutation(
+        async (request: CreateOperatorRequest) => {
+            const result = await apiPost<MutationResult>('/operators', request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to add operator');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to add operator', onSuccess: refresh, onError: setError }
+    );
+
+    const updateOperatorMutation = useMutation(
+        async ({ operatorId, request }: { operatorId: number; request: UpdateOperatorRequest }) => {
+            const result = await apiPatch<MutationResult>(`/operators/${operatorId}`, request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update operator');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update operator', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteOperatorMutation = useMutation(
+        async (operatorId: number) => {
+            const result = await apiDelete<MutationResult>(`/operators/${operatorId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to remove operator');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to remove operator', onSuccess: refresh, onError: setError }
+    );
+
+    const createOperator = useCallback(async (request: CreateOperatorRequest): Promise<boolean> => {
+        const result = await createOperatorMutation.mutate(request);
+        return result ?? false;
+    }, [createOperatorMutation]);
+
+    const updateOperator = useCallback(async (operatorId: number, request: UpdateOperatorRequest): Promise<boolean> => {
+        const result = await updateOperatorMutation.mutate({ operatorId, request });
+        return result ?? false;
+    }, [updateOperatorMutation]);
+
+    const deleteOperator = useCallback(async (operatorId: number): Promise<boolean> => {
+        const result = await deleteOperatorMutation.mutate(operatorId);
+        return result ?? false;
+    }, [deleteOperatorMutation]);
+
+    const { clearError: clearCreateError } = createOperatorMutation;
+    const { clearError: clearUpdateError } = updateOperatorMutation;
+    const { clearError: clearDeleteError } = deleteOperatorMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateError();
+        clearUpdateError();
+        clearDeleteError();
+    }, [clearCreateError, clearUpdateError, clearDeleteError]);
+
+    return {
+        operators,
+        loading,
+        error: error || createOperatorMutation.error || updateOperatorMutation.error || deleteOperatorMutation.error,
+        refresh,
+        createOperator,
+        updateOperator,
+        deleteOperator,
+        clearError,
+    };
+}
@@ -0,0 +1,163 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+    CreatePolicyRequest,
+    CreatePolicyTokenRequest,
+    CreatePolicyTokenResponse,
+    PolicyInfo,
+    PolicyToken,
+} from '@signet/types';
+import { apiGet, apiPost, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { useSSESubscription } from '../contexts/ServerEventsContext.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useMutation } from './useMutation.js';
+import type { ServerEvent } from './useServerEvents.js';
+
+interface UsePoliciesResult {
+    policies: PolicyInfo[];
+    tokens: PolicyToken[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    createPolicy: (request: CreatePolicyRequest) => Promise<boolean>;
+    deletePolicy: (policyId: number) => Promise<boolean>;
+    mintToken: (request: CreatePolicyTokenRequest) => Promise<CreatePolicyTokenResponse | null>;
+    deleteToken: (tokenId: number) => Promise<boolean>;
+    clearError: () => void;
+}
+
+export function usePolicies(): UsePoliciesResult {
+    const [policies, setPolicies] = useState<PolicyInfo[]>([]);
+    const [tokens, setTokens] = useState<PolicyToken[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (isStandalone()) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const [policyResponse, tokenResponse] = await Promise.all([
+                apiGet<{ policies: PolicyInfo[] }>('/policies'),
+                apiGet<{ tokens: PolicyToken[] }>('/tokens'),
+            ]);
+            setPolicies(policyResponse.policies);
+            setTokens(tokenResponse.tokens);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load policies'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Redeeming a token shows up as a new app; refresh to pick up the redemption
+    const handleSSEEvent = useCallback((event: ServerEvent) => {
+        if (event.type === 'reconnected' || event.type === 'app:connected') {
+            refresh();
+        }
+    }, [refresh]);
+
+    useSSESubscription(handleSSEEvent);
+
+    const createPolicyMutation = useMutation(
+        async (request: CreatePolicyRequest) => {
+            const result = await apiPost<{ ok?: boolean; error?: string }>('/policies', request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to create policy');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to create policy', onSuccess: refresh, onError: setError }
+    );
+
+    const deletePolicyMutation = useMutation(
+        async (policyId: number) => {
+            const result = await apiDelete<{ ok?: boolean; error?: string }>(`/policies/${policyId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to delete policy');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to delete policy', onSuccess: refresh, onError: setError }
+    );
+
+    const mintTokenMutation = useMutation(
+        async (request: CreatePolicyTokenRequest) => {
+            const result = await apiPost<CreatePolicyTokenResponse & { error?: string }>('/tokens', request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to mint token');
+            }
+            return result;
+        },
+        { errorPrefix: 'Failed to mint token', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteTokenMutation = useMutation(
+        async (tokenId: number) => {
+            const result = await apiDelete<{ ok?: boolean; error?: string }>(`/tokens/${tokenId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to delete token');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to delete token', onSuccess: refresh, onError: setError }
+    );
+
+    const createPolicy = useCallback(async (request: CreatePolicyRequest): Promise<boolean> => {
+        const result = await createPolicyMutation.mutate(request);
+        return result ?? false;
+    }, [createPolicyMutation]);
+
+    const deletePolicy = useCallback(async (policyId: number): Promise<boolean> => {
+        const result = await deletePolicyMutation.mutate(policyId);
+        return result ?? false;
+    }, [deletePolicyMutation]);
+
+    const mintToken = useCallback(async (request: CreatePolicyTokenRequest) => {
+        return mintTokenMutation.mutate(request);
+    }, [mintTokenMutation]);
+
+    const deleteToken = useCallback(async (tokenId: number): Promise<boolean> => {
+        const result = await deleteTokenMutation.mutate(tokenId);
+        return result ?? false;
+    }, [deleteTokenMutation]);
+
+    const { clearError: clearCreatePolicyError } = createPolicyMutation;
+    const { clearError: clearDeletePolicyError } = deletePolicyMutation;
+    const { clearError: clearMintTokenError } = mintTokenMutation;
+    const { clearError: clearDeleteTokenError } = deleteTokenMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreatePolicyError();
+        clearDeletePolicyError();
+        clearMintTokenError();
+        clearDeleteTokenError();
+    }, [clearCreatePolicyError, clearDeletePolicyError, clearMintTokenError, clearDeleteTokenError]);
+
+    const combinedError = error
+        || createPolicyMutation.error
+        || deletePolicyMutation.error
+        || mintTokenMutation.error
+        || deleteTokenMutation.error;
+
+    return {
+        policies,
+        tokens,
+        loading,
+        error: combinedError,
+        refresh,
+        createPolicy,
+        deletePolicy,
+        mintToken,
+        deleteToken,
+        clearError,
+    };
+}
@@ -0,0 +1,187 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Approver, CreateApproverRequest, CreateQuorumRuleRequest, QuorumResponse, QuorumRule } from '@signet/types';
+import { apiGet, apiPost, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { useSSESubscription } from '../contexts/ServerEventsContext.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useMutation } from './useMutation.js';
+import type { ServerEvent } from './useServerEvents.js';
+
+export interface UseQuorumResult {
+    approvers: Approver[];
+    rules: QuorumRule[];
+    /** Approver this browser approves as, if any */
+    currentApproverId: number | null;
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    createApprover: (request: CreateApproverRequest) => Promise<boolean>;
+    deleteApprover: (approverId: number) => Promise<boolean>;
+    claimSession: (approverId: number) => Promise<boolean>;
+    releaseSession: () => Promise<boolean>;
+    createRule: (request: CreateQuorumRuleRequest) => Promise<boolean>;
+    deleteRule: (ruleId: number) => Promise<boolean>;
+    clearError: () => void;
+}
+
+type MutationResult = { ok?: boolean; error?: string };
+
+function requireOk(result: MutationResult | undefined, fallback: string): true {
+    if (!result?.ok) {
+        throw new Error(result?.error ?? fallback);
+    }
+    return true;
+}
+
+export function useQuorum(): UseQuorumResult {
+    const [approvers, setApprovers] = useState<Approver[]>([]);
+    const [rules, setRules] = useState<QuorumRule[]>([]);
+    const [currentApproverId, setCurrentApproverId] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (isStandalone()) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<QuorumResponse>('/quorum');
+            setApprovers(response.approvers);
+            setRules(response.rules);
+            setCurrentApproverId(response.currentApproverId);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load approvers'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSSEEvent = useCallback((event: ServerEvent) => {
+        if (event.type === 'reconnected') {
+            refresh();
+        }
+    }, [refresh]);
+
+    useSSESubscription(handleSSEEvent);
+
+    const createApproverMutation = useMutation(
+        async (request: CreateApproverRequest) =>
+            requireOk(await apiPost<MutationResult>('/quorum/approvers', request), 'Failed to add approver'),
+        { errorPrefix: 'Failed to add approver', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteApproverMutation = useMutation(
+        async (approverId: number) =>
+            requireOk(await apiDelete<MutationResult>(`/quorum/approvers/${approverId}`), 'Failed to remove approver'),
+        { errorPrefix: 'Failed to remove approver', onSuccess: refresh, onError: setError }
+    );
+
+    const claimSessionMutation = useMutation(
+        async (approverId: number) =>
+            requireOk(await apiPost<MutationResult>(`/quorum/approvers/${approverId}/session`, {}), 'Failed to use this device'),
+        { errorPrefix: 'Failed to use this device', onSuccess: refresh, onError: setError }
+    );
+
+    const releaseSessionMutation = useMutation(
+        async () =>
+            requireOk(await apiDelete<MutationResult>('/quorum/session'), 'Failed to stop approving from this device'),
+        { errorPrefix: 'Failed to stop approving from this device', onSuccess: refresh, onError: setError }
+    );
+
+    const createRuleMutation = useMutation(
+        async (request: CreateQuorumRuleRequest) =>
+            requireOk(await apiPost<MutationResult>('/quorum/rules', request), 'Failed to add quorum rule'),
+        { errorPrefix: 'Failed to add quorum rule', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteRuleMutation = useMutation(
+        async (ruleId: number) =>
+            requireOk(await apiDelete<MutationResult>(`/quorum/rules/${ruleId}`), 'Failed to remove quorum rule'),
+        { errorPrefix: 'Failed to remove quorum rule', onSuccess: refresh, onError: setError }
+    );
+
+    const createApprover = useCallback(async (request: CreateApproverRequest): Promise<boolean> => {
+        const result = await createApproverMutation.mutate(request);
+        return result ?? false;
+    }, [createApproverMutation]);
+
+    const deleteApprover = useCallback(async (approverId: number): Promise<boolean> => {
+        const result = await deleteApproverMutation.mutate(approverId);
+        return result ?? false;
+    }, [deleteApproverMutation]);
+
+    const claimSession = useCallback(async (approverId: number): Promise<boolean> => {
+        const result = await claimSessionMutation.mutate(approverId);
+        return result ?? false;
+    }, [claimSessionMutation]);
+
+    const releaseSession = useCallback(async (): Promise<boolean> => {
+        const result = await releaseSessionMutation.mutate(undefined);
+        return result ?? false;
+    }, [releaseSessionMutation]);
+
+    const createRule = useCallback(async (request: CreateQuorumRuleRequest): Promise<boolean> => {
+        const result = await createRuleMutation.mutate(request);
+        return result ?? false;
+    }, [createRuleMutation]);
+
+    const deleteRule = useCallback(async (ruleId: number): Promise<boolean> => {
+        const result = await deleteRuleMutation.mutate(ruleId);
+        return result ?? false;
+    }, [deleteRuleMutation]);
+
+    const { clearError: clearCreateApproverError } = createApproverMutation;
+    const { clearError: clearDeleteApproverError } = deleteApproverMutation;
+    const { clearError: clearClaimSessionError } = claimSessionMutation;
+    const { clearError: clearReleaseSessionError } = releaseSessionMutation;
+    const { clearError: clearCreateRuleError } = createRuleMutation;
+    const { clearError: clearDeleteRuleError } = deleteRuleMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateApproverError();
+        clearDeleteApproverError();
+        clearClaimSessionError();
+        clearReleaseSessionError();
+        clearCreateRuleError();
+        clearDeleteRuleError();
+    }, [
+        clearCreateApproverError,
+        clearDeleteApproverError,
+        clearClaimSessionError,
+        clearReleaseSessionError,
+        clearCreateRuleError,
+        clearDeleteRuleError,
+    ]);
+
+    const combinedError = error
+        || createApproverMutation.error
+        || deleteApproverMutation.error
+        || claimSessionMutation.error
+        || releaseSessionMutation.error
+        || createRuleMutation.error
+        || deleteRuleMutation.error;
+
+    return {
+        approvers,
+        rules,
+        currentApproverId,
+        loading,
+        error: combinedError,
+        refresh,
+        createApprover,
+        deleteApprover,
+        claimSession,
+        releaseSession,
+        createRule,
+        deleteRule,
+        clearError,
+    };
+}
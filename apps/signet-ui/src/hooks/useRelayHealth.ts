@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RelayHealthResponse } from '@signet/types';
+import { apiGet } from '../lib/api-client.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+
+// The daemon probes relays every 5 minutes; refresh a bit more often while open
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+interface UseRelayHealthResult {
+  report: RelayHealthResponse | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+/**
+ * Relay health scores, history and failover roles. Only fetched while
+ * `enabled` (e.g. the relay detail modal is open).
+ */
+export function useRelayHealth(enabled: boolean): UseRelayHealthResult {
+  const [report, setReport] = useState<RelayHealthResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    // The standalone signer has no daemon measuring relays
+    if (isStandalone()) {
+      return;
+    }
+    setLoading(true);
+    try {
+      setReport(await apiGet<RelayHealthResponse>('/relays/health'));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load relay health');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  return { report, loading, error, refresh };
+}
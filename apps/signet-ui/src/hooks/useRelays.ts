@@ -30,11 +30,11 @@ export function useRelays(): UseRelaysResult {
           connected: 5,
           total: 5,
           relays: [
-            { url: 'wss://relay.nip46.com', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null },
-            { url: 'wss://relay.primal.net', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null },
-            { url: 'wss://relay.damus.io', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null },
-            { url: 'wss://theforest.nostr1.com', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null },
-            { url: 'wss://nostr.oxtr.dev', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null }
+            { url: 'wss://relay.nip46.com', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null, auth: 'none', authSigner: null, authError: null },
+            { url: 'wss://relay.primal.net', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null, auth: 'none', authSigner: null, authError: null },
+            { url: 'wss://relay.damus.io', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null, auth: 'none', authSigner: null, authError: null },
+            { url: 'wss://theforest.nostr1.com', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null, auth: 'none', authSigner: null, authError: null },
+            { url: 'wss://nostr.oxtr.dev', connected: true, lastConnected: new Date().toISOString(), lastDisconnected: null, trustScore: null, auth: 'none', authSigner: null, authError: null }
           ]
         });
       } else {
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useMemo, useOptimistic, startTransition } from 'react';
-import type { PendingRequest, PendingRequestWire, DisplayRequest, RequestMeta, TrustLevel, RequestFilter } from '@signet/types';
+import type { PendingRequest, PendingRequestWire, DisplayRequest, RequestMeta, RequestQuorum, TrustLevel, RequestFilter } from '@signet/types';
 import { apiGet, apiPost, apiDelete } from '../lib/api-client.js';
 import { buildErrorMessage, formatRelativeTime, toNpub } from '../lib/formatters.js';
 import { useSSESubscription } from '../contexts/ServerEventsContext.js';
@@ -24,7 +24,7 @@ interface UseRequestsResult {
   passwords: Record<string, string>;
   setPassword: (id: string, password: string) => void;
   meta: Record<string, RequestMeta>;
-  approve: (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string) => Promise<void>;
+  approve: (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string, trustProfileId?: number) => Promise<void>;
   deny: (id: string) => Promise<void>;
   loadMore: () => Promise<void>;
   refresh: () => Promise<void>;
@@ -204,6 +204,18 @@ export function useRequests(): UseRequestsResult {
       return;
     }
 
+    // Handle quorum progress: another approver signed off, but more approvals are needed
+    if (event.type === 'request:quorum') {
+      setRequests(prev => prev.map(r => r.id === event.requestId ? { ...r, quorum: event.quorum } : r));
+      return;
+    }
+
+    // Handle delivery outcome: the response was published (or no relay accepted it)
+    if (event.type === 'request:delivery') {
+      setRequests(prev => prev.map(r => r.id === event.requestId ? { ...r, delivery: event.delivery } : r));
+      return;
+    }
+
     // Handle auto-approved: refresh to update the list
     // Note: auto_approved events don't include request ID, and are rate-limited,
     // so we refresh to ensure consistency
@@ -251,7 +263,7 @@ export function useRequests(): UseRequestsResult {
   }, []);
 
   // Approval and denial operations
-  const approve = useCallback(async (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string) => {
+  const approve = useCallback(async (id: string, trustLevel?: TrustLevel, alwaysAllow?: boolean, allowKind?: number, appName?: string, trustProfileId?: number) => {
     const request = requests.find(r => r.id === id);
     const requiresPassword = request?.requiresPassword ?? false;
     const password = passwords[id]?.trim() ?? '';
@@ -275,13 +287,16 @@ export function useRequests(): UseRequestsResult {
         const { mobileSigner } = await import('../lib/mobile-signer.js');
         await mobileSigner.approve(id);
       } else {
-        const payload: { password?: string; trustLevel?: TrustLevel; alwaysAllow?: boolean; allowKind?: number; appName?: string } = {};
+        const payload: { password?: string; trustLevel?: TrustLevel; trustProfileId?: number; alwaysAllow?: boolean; allowKind?: number; appName?: string } = {};
         if (requiresPassword) {
           payload.password = password;
         }
         if (trustLevel) {
           payload.trustLevel = trustLevel;
         }
+        if (trustProfileId !== undefined) {
+          payload.trustProfileId = trustProfileId;
+        }
         if (alwaysAllow) {
           payload.alwaysAllow = alwaysAllow;
         }
@@ -291,11 +306,19 @@ export function useRequests(): UseRequestsResult {
         if (appName) {
           payload.appName = appName;
         }
-        const result = await apiPost<{ ok?: boolean; error?: string }>(`/requests/${id}`, payload);
+        const result = await apiPost<{ ok?: boolean; error?: string; pending?: boolean; quorum?: RequestQuorum }>(`/requests/${id}`, payload);
 
         if (!result?.ok) {
           throw new Error(result?.error ?? 'Authorization failed');
         }
+
+        // Quorum requests stay pending until enough approvers have approved
+        if (result.pending && result.quorum) {
+          const { approvals, threshold } = result.quorum;
+          setMeta(prev => ({ ...prev, [id]: { state: 'success', message: `Approval recorded (${approvals.length} of ${threshold})` } }));
+          await refresh();
+          return;
+        }
       }
 
       setMeta(prev => ({ ...prev, [id]: { state: 'success', message: 'Approved' } }));
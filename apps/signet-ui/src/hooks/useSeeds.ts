@@ -0,0 +1,121 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { SeedInfo, CreateSeedRequest, CreateSeedResult } from '@signet/types';
+import { apiGet, apiPost } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useSSESubscription } from '../contexts/ServerEventsContext.js';
+import type { ServerEvent } from './useServerEvents.js';
+import { useMutation } from './useMutation.js';
+
+export interface UseSeedsResult {
+    seeds: SeedInfo[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    /** A generated mnemonic is only returned here, once */
+    createSeed: (request: CreateSeedRequest) => Promise<CreateSeedResult | null>;
+    exportSeed: (seedName: string, passphrase?: string) => Promise<string | null>;
+    creating: boolean;
+    exporting: boolean;
+    clearError: () => void;
+}
+
+type MutationResult = { ok?: boolean; error?: string };
+
+export function useSeeds(): UseSeedsResult {
+    const [seeds, setSeeds] = useState<SeedInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        // The standalone signer holds single keys, not seeds
+        if (isStandalone()) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<{ seeds: SeedInfo[] }>('/seeds');
+            setSeeds(response.seeds);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load seeds'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Deriving, renaming or deleting keys changes each seed's key list
+    const handleSSEEvent = useCallback((event: ServerEvent) => {
+        if (
+            event.type === 'reconnected' ||
+            event.type === 'key:created' ||
+            event.type === 'key:deleted' ||
+            event.type === 'key:renamed'
+        ) {
+            refresh();
+        }
+    }, [refresh]);
+
+    useSSESubscription(handleSSEEvent);
+
+    const createSeedMutation = useMutation(
+        async (request: CreateSeedRequest) => {
+            const result = await apiPost<(CreateSeedResult & { ok: true }) | MutationResult>('/seeds', request);
+            if (!result?.ok || !('seed' in result)) {
+                throw new Error(('error' in result ? result.error : undefined) ?? 'Failed to create seed');
+            }
+            return { seed: result.seed, mnemonic: result.mnemonic };
+        },
+        { errorPrefix: 'Failed to create seed', onSuccess: refresh, onError: setError }
+    );
+
+    const exportSeedMutation = useMutation(
+        async ({ seedName, passphrase }: { seedName: string; passphrase?: string }) => {
+            const result = await apiPost<{ ok?: boolean; mnemonic?: string; error?: string }>(
+                `/seeds/${encodeURIComponent(seedName)}/export`,
+                { passphrase }
+            );
+            if (!result?.ok || !result.mnemonic) {
+                throw new Error(result?.error ?? 'Failed to show mnemonic');
+            }
+            return result.mnemonic;
+        },
+        { errorPrefix: 'Failed to show mnemonic', onError: setError }
+    );
+
+    const createSeed = useCallback(async (request: CreateSeedRequest) => {
+        const result = await createSeedMutation.mutate(request);
+        return result ?? null;
+    }, [createSeedMutation]);
+
+    const exportSeed = useCallback(async (seedName: string, passphrase?: string) => {
+        const result = await exportSeedMutation.mutate({ seedName, passphrase });
+        return result ?? null;
+    }, [exportSeedMutation]);
+
+    const { clearError: clearCreateError } = createSeedMutation;
+    const { clearError: clearExportError } = exportSeedMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateError();
+        clearExportError();
+    }, [clearCreateError, clearExportError]);
+
+    return {
+        seeds,
+        loading,
+        error: error || createSeedMutation.error || exportSeedMutation.error,
+        refresh,
+        createSeed,
+        exportSeed,
+        creating: createSeedMutation.loading,
+        exporting: exportSeedMutation.loading,
+        clearError,
+    };
+}
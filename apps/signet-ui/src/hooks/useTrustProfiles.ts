@@ -0,0 +1,140 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { BuiltInTrustProfile, SaveTrustProfileRequest, TrustProfile, TrustProfilesResponse } from '@signet/types';
+import { apiGet, apiPost, apiPut, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { useSSESubscription } from '../contexts/ServerEventsContext.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useMutation } from './useMutation.js';
+import type { ServerEvent } from './useServerEvents.js';
+
+export interface UseTrustProfilesResult {
+    builtIn: BuiltInTrustProfile[];
+    profiles: TrustProfile[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    createProfile: (request: SaveTrustProfileRequest) => Promise<boolean>;
+    updateProfile: (profileId: number, request: SaveTrustProfileRequest) => Promise<boolean>;
+    deleteProfile: (profileId: number) => Promise<boolean>;
+    clearError: () => void;
+}
+
+export function useTrustProfiles(): UseTrustProfilesResult {
+    const [builtIn, setBuiltIn] = useState<BuiltInTrustProfile[]>([]);
+    const [profiles, setProfiles] = useState<TrustProfile[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (isStandalone()) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<TrustProfilesResponse>('/trust-profiles');
+            setBuiltIn(response.builtIn);
+            setProfiles(response.profiles);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load trust profiles'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // App counts change as apps connect, switch profile or are revoked
+    const handleSSEEvent = useCallback((event: ServerEvent) => {
+        if (
+            event.type === 'reconnected' ||
+            event.type === 'app:connected' ||
+            event.type === 'app:updated' ||
+            event.type === 'app:revoked' ||
+            event.type === 'apps:updated'
+        ) {
+            refresh();
+        }
+    }, [refresh]);
+
+    useSSESubscription(handleSSEEvent);
+
+    const createMutation = useMutation(
+        async (request: SaveTrustProfileRequest) => {
+            const result = await apiPost<{ ok?: boolean; error?: string }>('/trust-profiles', request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to create trust profile');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to create trust profile', onSuccess: refresh, onError: setError }
+    );
+
+    const updateMutation = useMutation(
+        async ({ profileId, request }: { profileId: number; request: SaveTrustProfileRequest }) => {
+            const result = await apiPut<{ ok?: boolean; error?: string }>(`/trust-profiles/${profileId}`, request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update trust profile');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update trust profile', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteMutation = useMutation(
+        async (profileId: number) => {
+            const result = await apiDelete<{ ok?: boolean; error?: string }>(`/trust-profiles/${profileId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to delete trust profile');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to delete trust profile', onSuccess: refresh, onError: setError }
+    );
+
+    const createProfile = useCallback(async (request: SaveTrustProfileRequest): Promise<boolean> => {
+        const result = await createMutation.mutate(request);
+        return result ?? false;
+    }, [createMutation]);
+
+    const updateProfile = useCallback(async (profileId: number, request: SaveTrustProfileRequest): Promise<boolean> => {
+        const result = await updateMutation.mutate({ profileId, request });
+        return result ?? false;
+    }, [updateMutation]);
+
+    const deleteProfile = useCallback(async (profileId: number): Promise<boolean> => {
+        const result = await deleteMutation.mutate(profileId);
+        return result ?? false;
+    }, [deleteMutation]);
+
+    const { clearError: clearCreateError } = createMutation;
+    const { clearError: clearUpdateError } = updateMutation;
+    const { clearError: clearDeleteError } = deleteMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateError();
+        clearUpdateError();
+        clearDeleteError();
+    }, [clearCreateError, clearUpdateError, clearDeleteError]);
+
+    const combinedError = error
+        || createMutation.error
+        || updateMutation.error
+        || deleteMutation.error;
+
+    return {
+        builtIn,
+        profiles,
+        loading,
+        error: combinedError,
+        refresh,
+        createProfile,
+        updateProfile,
+        deleteProfile,
+        clearError,
+    };
+}
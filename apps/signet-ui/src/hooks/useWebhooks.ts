@@ -0,0 +1,165 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+    CreateWebhookRequest,
+    CreateWebhookResponse,
+    UpdateWebhookRequest,
+    Webhook,
+    WebhookDeliveriesResponse,
+    WebhookDelivery,
+    WebhooksResponse,
+} from '@signet/types';
+import { apiGet, apiPost, apiPatch, apiDelete } from '../lib/api-client.js';
+import { buildErrorMessage } from '../lib/formatters.js';
+import { isStandalone } from '../contexts/SettingsContext.js';
+import { useAccess } from './useAccess.js';
+import { useMutation } from './useMutation.js';
+
+export interface UseWebhooksResult {
+    webhooks: Webhook[];
+    loading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    /** Returns the signing secret, which is only shown once */
+    createWebhook: (request: CreateWebhookRequest) => Promise<string | null>;
+    updateWebhook: (webhookId: number, request: UpdateWebhookRequest) => Promise<boolean>;
+    deleteWebhook: (webhookId: number) => Promise<boolean>;
+    /** Returns the test delivery once its first attempt is done */
+    testWebhook: (webhookId: number) => Promise<WebhookDelivery | null>;
+    loadDeliveries: (webhookId: number) => Promise<WebhookDelivery[]>;
+    clearError: () => void;
+}
+
+type MutationResult = { ok?: boolean; error?: string };
+
+export function useWebhooks(): UseWebhooksResult {
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { isOwner } = useAccess();
+
+    const refresh = useCallback(async () => {
+        // Only owners can manage webhooks
+        if (isStandalone() || !isOwner) {
+            setLoading(false);
+            return;
+        }
+        setLoading(true);
+        try {
+            const response = await apiGet<WebhooksResponse>('/webhooks');
+            setWebhooks(response.webhooks);
+            setError(null);
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load webhooks'));
+        } finally {
+            setLoading(false);
+        }
+    }, [isOwner]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const createWebhookMutation = useMutation(
+        async (request: CreateWebhookRequest) => {
+            const result = await apiPost<CreateWebhookResponse | MutationResult>('/webhooks', request);
+            if (!result?.ok || !('secret' in result)) {
+                throw new Error(('error' in result ? result.error : undefined) ?? 'Failed to add webhook');
+            }
+            return result.secret;
+        },
+        { errorPrefix: 'Failed to add webhook', onSuccess: refresh, onError: setError }
+    );
+
+    const updateWebhookMutation = useMutation(
+        async ({ webhookId, request }: { webhookId: number; request: UpdateWebhookRequest }) => {
+            const result = await apiPatch<MutationResult>(`/webhooks/${webhookId}`, request);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to update webhook');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to update webhook', onSuccess: refresh, onError: setError }
+    );
+
+    const deleteWebhookMutation = useMutation(
+        async (webhookId: number) => {
+            const result = await apiDelete<MutationResult>(`/webhooks/${webhookId}`);
+            if (!result?.ok) {
+                throw new Error(result?.error ?? 'Failed to remove webhook');
+            }
+            return true;
+        },
+        { errorPrefix: 'Failed to remove webhook', onSuccess: refresh, onError: setError }
+    );
+
+    const testWebhookMutation = useMutation(
+        async (webhookId: number) => {
+            const result = await apiPost<{ ok?: boolean; delivery?: WebhookDelivery; error?: string }>(`/webhooks/${webhookId}/test`);
+            if (!result?.ok || !result.delivery) {
+                throw new Error(result?.error ?? 'Failed to send test event');
+            }
+            return result.delivery;
+        },
+        { errorPrefix: 'Failed to send test event', onError: setError }
+    );
+
+    const createWebhook = useCallback(
+        (request: CreateWebhookRequest) => createWebhookMutation.mutate(request),
+        [createWebhookMutation]
+    );
+
+    const updateWebhook = useCallback(async (webhookId: number, request: UpdateWebhookRequest): Promise<boolean> => {
+        const result = await updateWebhookMutation.mutate({ webhookId, request });
+        return result ?? false;
+    }, [updateWebhookMutation]);
+
+    const deleteWebhook = useCallback(async (webhookId: number): Promise<boolean> => {
+        const result = await deleteWebhookMutation.mutate(webhookId);
+        return result ?? false;
+    }, [deleteWebhookMutation]);
+
+    const testWebhook = useCallback(
+        (webhookId: number) => testWebhookMutation.mutate(webhookId),
+        [testWebhookMutation]
+    );
+
+    const loadDeliveries = useCallback(async (webhookId: number): Promise<WebhookDelivery[]> => {
+        try {
+            const response = await apiGet<WebhookDeliveriesResponse>(`/webhooks/${webhookId}/deliveries`);
+            return response.deliveries;
+        } catch (err) {
+            setError(buildErrorMessage(err, 'Unable to load deliveries'));
+            return [];
+        }
+    }, []);
+
+    const { clearError: clearCreateError } = createWebhookMutation;
+    const { clearError: clearUpdateError } = updateWebhookMutation;
+    const { clearError: clearDeleteError } = deleteWebhookMutation;
+    const { clearError: clearTestError } = testWebhookMutation;
+
+    const clearError = useCallback(() => {
+        setError(null);
+        clearCreateError();
+        clearUpdateError();
+        clearDeleteError();
+        clearTestError();
+    }, [clearCreateError, clearUpdateError, clearDeleteError, clearTestError]);
+
+    return {
+        webhooks,
+        loading,
+        error: error
+            || createWebhookMutation.error
+            || updateWebhookMutation.error
+            || deleteWebhookMutation.error
+            || testWebhookMutation.error,
+        refresh,
+        createWebhook,
+        updateWebhook,
+        deleteWebhook,
+        testWebhook,
+        loadDeliveries,
+        clearError,
+    };
+}
@@ -1,3 +1,5 @@
+import type { RotateKeyRequest, RotateKeyResult, ScheduledBackupStatus } from '@signet/types';
+
 // Default request timeout (30 seconds)
 const DEFAULT_TIMEOUT_MS = 30_000;
 
@@ -424,6 +426,7 @@ export async function connectViaNostrconnect(params: {
   uri: string;
   keyName: string;
   trustLevel: 'paranoid' | 'reasonable' | 'full';
+  trustProfileId?: number;
   description?: string;
 }): Promise<{
   ok: boolean;
@@ -617,6 +620,58 @@ export async function exportKey(
   });
 }
 
+/**
+ * Split a key into Shamir shares, any `threshold` of which recover it.
+ */
+export async function exportKeyShares(
+  keyName: string,
+  threshold: number,
+  shareCount: number,
+  currentPassphrase?: string
+): Promise<{
+  ok: boolean;
+  shares?: string[];
+  threshold?: number;
+  error?: string;
+}> {
+  return apiPost(`/keys/${encodeURIComponent(keyName)}/export`, {
+    format: 'shamir',
+    threshold,
+    shareCount,
+    currentPassphrase,
+  });
+}
+
+/**
+ * Replace a key with a new successor key and retire the old one.
+ */
+export async function rotateKey(
+  keyName: string,
+  request: RotateKeyRequest
+): Promise<Partial<RotateKeyResult> & {
+  ok?: boolean;
+  error?: string;
+}> {
+  return apiPost(`/keys/${encodeURIComponent(keyName)}/rotate`, request);
+}
+
+/**
+ * Publish a retired key's migration events again.
+ */
+export async function republishMigration(
+  keyName: string,
+  currentPassphrase?: string
+): Promise<{
+  ok?: boolean;
+  eventIds?: string[];
+  relays?: number;
+  error?: string;
+}> {
+  return apiPost(`/keys/${encodeURIComponent(keyName)}/migration`, {
+    currentPassphrase,
+  });
+}
+
 /**
  * Fetch trust scores for arbitrary relay URLs.
  * Used by NostrConnect modal to show scores for app-specified relays.
@@ -652,3 +707,10 @@ export async function setRemoteAccess(enabled: boolean): Promise<{
 }> {
   return apiPost('/system/remote-access', { enabled });
 }
+
+/**
+ * Take a scheduled backup snapshot now instead of waiting for the next one.
+ */
+export async function runScheduledBackup(): Promise<ScheduledBackupStatus> {
+  return apiPost('/backup/schedule/run');
+}
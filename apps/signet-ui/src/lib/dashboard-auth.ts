@@ -0,0 +1,123 @@
+import { generateSecretKey } from 'nostr-tools/pure';
+import { BunkerSigner, parseBunkerInput } from 'nostr-tools/nip46';
+import type { WindowNostr } from 'nostr-tools/nip07';
+import type {
+  AuthChallengeResponse,
+  KeyLoginRequest,
+  LoginRequest,
+  LoginResponse,
+  SignedLoginEvent,
+} from '@signet/types';
+import { callApi } from './api-client.js';
+
+/** NIP-98 HTTP auth event kind */
+const HTTP_AUTH_KIND = 27235;
+
+const LOGIN_PATH = '/auth/login';
+
+/** How long to wait for a bunker to sign before giving up */
+const BUNKER_TIMEOUT_MS = 60_000;
+
+type EventTemplate = Pick<SignedLoginEvent, 'kind' | 'created_at' | 'tags' | 'content'>;
+
+/**
+ * POST to a login endpoint. These run before there's a session, so they
+ * skip the CSRF token (which needs one) and rely on rate limiting instead.
+ */
+async function loginPost<T>(path: string, body: unknown): Promise<T> {
+  const response = await callApi(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }, { expectJson: true });
+  return response.json();
+}
+
+function getExtension(): WindowNostr | undefined {
+  return (window as Window & { nostr?: WindowNostr }).nostr;
+}
+
+export function hasNostrExtension(): boolean {
+  return getExtension() !== undefined;
+}
+
+export async function requestLoginChallenge(): Promise<string> {
+  const { challenge } = await loginPost<AuthChallengeResponse>('/auth/challenge', {});
+  return challenge;
+}
+
+/**
+ * Build the NIP-98 event that proves who is logging in
+ */
+export function buildLoginEvent(challenge: string): EventTemplate {
+  return {
+    kind: HTTP_AUTH_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    content: '',
+    tags: [
+      ['u', new URL(LOGIN_PATH, window.location.origin).toString()],
+      ['method', 'POST'],
+      ['challenge', challenge],
+    ],
+  };
+}
+
+/**
+ * Log in by signing the challenge with a NIP-07 browser extension
+ */
+export async function loginWithExtension(): Promise<LoginResponse> {
+  const extension = getExtension();
+  if (!extension) {
+    throw new Error('No Nostr extension found');
+  }
+  const challenge = await requestLoginChallenge();
+  const event = await extension.signEvent(buildLoginEvent(challenge));
+  const body: LoginRequest = { event, method: 'nip07' };
+  return loginPost<LoginResponse>(LOGIN_PATH, body);
+}
+
+/**
+ * Log in by signing the challenge with a NIP-46 bunker
+ */
+export async function loginWithBunker(bunkerInput: string, onAuthUrl?: (url: string) => void): Promise<LoginResponse> {
+  const pointer = await parseBunkerInput(bunkerInput.trim());
+  if (!pointer) {
+    throw new Error('Invalid bunker URI');
+  }
+
+  const signer = BunkerSigner.fromBunker(generateSecretKey(), pointer, { onauth: onAuthUrl });
+  try {
+    await withTimeout(signer.connect(), 'Bunker did not respond');
+    const challenge = await requestLoginChallenge();
+    const event = await withTimeout(signer.signEvent(buildLoginEvent(challenge)), 'Bunker did not sign the login');
+    const body: LoginRequest = { event, method: 'nip46' };
+    return await loginPost<LoginResponse>(LOGIN_PATH, body);
+  } finally {
+    signer.close().catch(() => {});
+  }
+}
+
+/**
+ * Log in by unlocking one of Signet's own keys
+ */
+export async function loginWithKey(keyName: string, passphrase: string): Promise<LoginResponse> {
+  const challenge = await requestLoginChallenge();
+  const body: KeyLoginRequest = { challenge, keyName, passphrase };
+  return loginPost<LoginResponse>(`${LOGIN_PATH}/key`, body);
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), BUNKER_TIMEOUT_MS);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
@@ -1,5 +1,7 @@
 import { nip19 } from 'nostr-tools';
+import { getMethodLabel, type AppPolicyRuleUsage, type AppSigningCondition, type EventConstraints, type PolicyRuleInfo, type QuorumRule, type QuotaRule, type QuotaWindow, type ScheduleWindow } from '@signet/types';
 import { ApiError, TimeoutError } from './api-client.js';
+import { WEEKDAY_LABELS } from './schedule.js';
 
 export const toNpub = (hex: string): string => {
   try {
@@ -144,6 +146,131 @@ export const formatTtl = (seconds: number): string => {
   return `${minutes}m ${secs.toString().padStart(2, '0')}s remaining`;
 };
 
+const QUOTA_WINDOW_LABELS: Record<QuotaWindow, string> = {
+  minute: 'min',
+  hour: 'hour',
+  day: 'day',
+};
+
+export const formatQuotaLimit = (limit: number, window: QuotaWindow): string => {
+  return `${limit}/${QUOTA_WINDOW_LABELS[window]}`;
+};
+
+/**
+ * Format a quota rule for display.
+ * e.g., "Sign a note: 30/min, 500/day", "All requests: 100/hour"
+ */
+export const formatQuotaRule = (rule: QuotaRule): string => {
+  const target = rule.method
+    ? getMethodLabel(rule.method, rule.kind)
+    : rule.kind !== undefined ? getMethodLabel('sign_event', rule.kind) : 'All requests';
+
+  const limits: string[] = [];
+  if (rule.perMinute !== undefined) limits.push(formatQuotaLimit(rule.perMinute, 'minute'));
+  if (rule.perHour !== undefined) limits.push(formatQuotaLimit(rule.perHour, 'hour'));
+  if (rule.perDay !== undefined) limits.push(formatQuotaLimit(rule.perDay, 'day'));
+
+  return `${target}: ${limits.join(', ')}`;
+};
+
+/**
+ * Format a schedule window for display.
+ * e.g., "Mon–Fri 09:00–18:00", "Sat, Sun all day", "Every day 22:00–02:00"
+ */
+export const formatScheduleWindow = (window: ScheduleWindow): string => {
+  const days = [...new Set(window.days)].sort((a, b) => a - b);
+  const contiguous = days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+
+  let dayLabel: string;
+  if (days.length === 7) {
+    dayLabel = 'Every day';
+  } else if (contiguous && days.length >= 3) {
+    dayLabel = `${WEEKDAY_LABELS[days[0]]}–${WEEKDAY_LABELS[days[days.length - 1]]}`;
+  } else {
+    dayLabel = days.map(day => WEEKDAY_LABELS[day]).join(', ');
+  }
+
+  const hours = window.start === window.end ? 'all day' : `${window.start}–${window.end}`;
+  return `${dayLabel} ${hours}`;
+};
+
+/**
+ * Summarize event constraints for display.
+ * e.g., "no #p tags, requires #t=bitcoin, max 280 chars"
+ */
+export const formatEventConstraints = (constraints: EventConstraints): string => {
+  const parts: string[] = [];
+  if (constraints.forbidTags?.length) {
+    parts.push(`no ${constraints.forbidTags.map(name => `#${name}`).join('/')} tags`);
+  }
+  for (const tag of constraints.requireTags ?? []) {
+    parts.push(`requires #${tag.name}${tag.value !== undefined ? `=${tag.value}` : ''}`);
+  }
+  if (constraints.contentMatches !== undefined) parts.push(`content matches /${constraints.contentMatches}/`);
+  if (constraints.contentNotMatches !== undefined) parts.push(`content not matching /${constraints.contentNotMatches}/`);
+  if (constraints.maxContentLength !== undefined) parts.push(`max ${constraints.maxContentLength} chars`);
+  if (constraints.maxPastMinutes !== undefined) parts.push(`at most ${constraints.maxPastMinutes}m old`);
+  if (constraints.maxFutureMinutes !== undefined) parts.push(`at most ${constraints.maxFutureMinutes}m ahead`);
+  return parts.join(', ');
+};
+
+/**
+ * Format a signing condition for display.
+ * e.g., "Allow Sign a note: no #p tags", "Deny all kinds: content matches /spam/"
+ */
+export const formatSigningCondition = (condition: AppSigningCondition): string => {
+  const kind = condition.kind && condition.kind !== 'all' ? Number(condition.kind) : undefined;
+  const target = condition.method === 'sign_event' && condition.kind === 'all'
+    ? 'all kinds'
+    : getMethodLabel(condition.method, kind);
+  const verb = condition.allowed ? 'Allow' : 'Deny';
+  const summary = condition.constraints ? formatEventConstraints(condition.constraints) : '';
+  return summary ? `${verb} ${target}: ${summary}` : `${verb} ${target}`;
+};
+
+/**
+ * Format a policy rule's target for display.
+ * e.g., "Sign a note", "Sign any event", "Encrypt (NIP-44)"
+ */
+export const formatPolicyRuleTarget = (rule: Pick<PolicyRuleInfo, 'method' | 'kind'>): string => {
+  if (rule.method === 'sign_event' && (!rule.kind || rule.kind === 'all')) {
+    return 'Sign any event';
+  }
+  const kind = rule.kind && rule.kind !== 'all' ? Number(rule.kind) : undefined;
+  return getMethodLabel(rule.method, kind);
+};
+
+/**
+ * Format how much of a policy rule has been used by all apps together.
+ * e.g., "12 used · 100 per app", "12 used (unlimited)"
+ */
+export const formatPolicyRuleUsage = (rule: PolicyRuleInfo): string => {
+  if (rule.maxUsageCount === null) {
+    return `${rule.currentUsageCount} used (unlimited)`;
+  }
+  return `${rule.currentUsageCount} used · ${rule.maxUsageCount} per app`;
+};
+
+/**
+ * Format how much of a policy rule one app has used.
+ * e.g., "12/100 used", "12 used (unlimited)"
+ */
+export const formatAppPolicyRuleUsage = (rule: AppPolicyRuleUsage): string => {
+  if (rule.maxUsageCount === null) {
+    return `${rule.usageCount} used (unlimited)`;
+  }
+  return `${rule.usageCount}/${rule.maxUsageCount} used`;
+};
+
+/**
+ * Format which requests a quorum rule covers.
+ * e.g., "Sign a profile with org", "Sign any event with org", "Sign a contact list with any key"
+ */
+export const formatQuorumRuleTarget = (rule: Pick<QuorumRule, 'keyName' | 'kind'>): string => {
+  const target = rule.kind !== null ? getMethodLabel('sign_event', rule.kind) : 'Sign any event';
+  return `${target} with ${rule.keyName ?? 'any key'}`;
+};
+
 export const truncateContent = (content: string, maxLength: number = 200): string => {
   if (content.length <= maxLength) return content;
   return content.substring(0, maxLength) + '…';
@@ -144,6 +144,9 @@ class MobileSigner {
                     lastConnected: new Date().toISOString(),
                     lastDisconnected: null,
                     trustScore: null,
+                    auth: 'none',
+                    authSigner: null,
+                    authError: null,
                 })),
             },
         });
@@ -228,6 +231,8 @@ class MobileSigner {
             status: 'online',
             isEncrypted: false,
             encryptionFormat: 'none',
+            relays: [...this.relays],
+            customRelays: false,
             userCount: 0,
             tokenCount: 0,
             requestCount: 0,
@@ -381,6 +386,8 @@ class MobileSigner {
                 status: 'online',
                 isEncrypted: false,
                 encryptionFormat: 'none',
+                relays: [...this.relays],
+                customRelays: false,
                 userCount: 0,
                 tokenCount: 0,
                 requestCount: 0,
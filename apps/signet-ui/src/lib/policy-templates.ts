@@ -0,0 +1,69 @@
+import type { CreatePolicyRequest } from '@signet/types';
+
+export interface PolicyTemplate {
+  id: string;
+  label: string;
+  description: string;
+  rules: CreatePolicyRequest['rules'];
+}
+
+/**
+ * Starting points for the policy editor. Every rule can be edited
+ * before the policy is saved.
+ */
+export const POLICY_TEMPLATES: PolicyTemplate[] = [
+  {
+    id: 'posting-bot',
+    label: 'Posting bot',
+    description: 'Publish notes, capped at a fixed number of posts',
+    rules: [
+      { method: 'get_public_key' },
+      { method: 'ping' },
+      { method: 'sign_event', kind: '1', maxUsageCount: 100 },
+    ],
+  },
+  {
+    id: 'read-only',
+    label: 'Read-only identity',
+    description: 'Reveal the public key, nothing else',
+    rules: [
+      { method: 'get_public_key' },
+      { method: 'ping' },
+    ],
+  },
+  {
+    id: 'dm-client',
+    label: 'Direct messages',
+    description: 'Encrypt, decrypt and seal private messages',
+    rules: [
+      { method: 'get_public_key' },
+      { method: 'nip44_encrypt' },
+      { method: 'nip44_decrypt' },
+      { method: 'sign_event', kind: '13' },
+    ],
+  },
+  {
+    id: 'zap-sender',
+    label: 'Zap sender',
+    description: 'Sign zap requests, capped at a fixed number of zaps',
+    rules: [
+      { method: 'get_public_key' },
+      { method: 'sign_event', kind: '9734', maxUsageCount: 50 },
+    ],
+  },
+  {
+    id: 'blossom',
+    label: 'Blossom uploads',
+    description: 'Authorize media uploads to Blossom servers',
+    rules: [
+      { method: 'get_public_key' },
+      { method: 'sign_event', kind: '24242' },
+    ],
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Start from an empty rule list',
+    rules: [],
+  },
+];
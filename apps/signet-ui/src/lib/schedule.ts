@@ -0,0 +1,78 @@
+import type { AppSchedule, ScheduleWindow } from '@signet/types';
+
+/**
+ * Mirrors the daemon's schedule evaluation (apps/signet/src/daemon/lib/schedule.ts)
+ * so the dashboard can show whether an app is currently inside its schedule.
+ */
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The browser's timezone, used as the default for new schedules
+ */
+export function getLocalTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function getZonedTime(timezone: string, date: Date): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function windowContains(window: ScheduleWindow, day: number, minutes: number): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null) return false;
+
+  if (start === end) {
+    return window.days.includes(day);
+  }
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the tail after midnight belongs to the previous day's window
+  const previousDay = (day + 6) % 7;
+  return (window.days.includes(day) && minutes >= start)
+    || (window.days.includes(previousDay) && minutes < end);
+}
+
+export function isWithinSchedule(schedule: AppSchedule, date = new Date()): boolean {
+  try {
+    const { day, minutes } = getZonedTime(schedule.timezone, date);
+    return schedule.windows.some(window => windowContains(window, day, minutes));
+  } catch {
+    return false;
+  }
+}
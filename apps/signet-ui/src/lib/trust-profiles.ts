@@ -0,0 +1,57 @@
+import type { BuiltInTrustProfile, TrustLevelBehavior, TrustProfile, TrustProfileMethod } from '@signet/types';
+import { getKindLabel } from '@signet/types';
+
+export const TRUST_PROFILE_METHOD_OPTIONS: { value: TrustProfileMethod; label: string }[] = [
+  { value: 'nip44_encrypt', label: 'NIP-44 encrypt' },
+  { value: 'nip44_decrypt', label: 'NIP-44 decrypt' },
+  { value: 'nip04_encrypt', label: 'NIP-04 encrypt (DMs)' },
+  { value: 'nip04_decrypt', label: 'NIP-04 decrypt (DMs)' },
+];
+
+export function getTrustProfileMethodLabel(method: TrustProfileMethod): string {
+  return TRUST_PROFILE_METHOD_OPTIONS.find(option => option.value === method)?.label ?? method;
+}
+
+/**
+ * Format a profile's kinds for display, e.g. "Short Text Note, Long-form Content"
+ */
+export function formatTrustProfileKinds(kinds: number[] | 'all'): string {
+  if (kinds === 'all') return 'All event kinds';
+  if (kinds.length === 0) return 'No event kinds';
+  return kinds.map(kind => getKindLabel(kind)).join(', ');
+}
+
+/**
+ * Describe what a custom or built-in profile auto-approves,
+ * in the same shape as the built-in trust level breakdown
+ */
+export function getTrustProfileBehavior(profile: TrustProfile | BuiltInTrustProfile): TrustLevelBehavior {
+  const autoApprove = ['Connect, ping and public key'];
+  if (profile.kinds === 'all' || profile.kinds.length > 0) {
+    autoApprove.push(formatTrustProfileKinds(profile.kinds));
+  }
+  autoApprove.push(...profile.methods.map(getTrustProfileMethodLabel));
+
+  return {
+    label: profile.name,
+    description: profile.description ?? '',
+    autoApprove,
+    requiresApproval: profile.kinds === 'all' ? [] : ['Everything else'],
+  };
+}
+
+/**
+ * Parse a comma- or space-separated list of event kinds.
+ * Returns null if any entry is not a kind number.
+ */
+export function parseKindList(value: string): number[] | null {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const kinds: number[] = [];
+  for (const part of parts) {
+    if (!/^\d+$/.test(part)) return null;
+    const kind = Number(part);
+    if (kind > 65535) return null;
+    kinds.push(kind);
+  }
+  return kinds;
+}
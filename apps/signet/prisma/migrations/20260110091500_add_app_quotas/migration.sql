@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "KeyUser" ADD COLUMN "quotas" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SigningCondition" ADD COLUMN "policyRuleId" INTEGER REFERENCES "PolicyRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "SigningCondition_policyRuleId_idx" ON "SigningCondition"("policyRuleId");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TrustProfile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "kinds" TEXT NOT NULL,
+    "methods" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrustProfile_name_key" ON "TrustProfile"("name");
+
+-- AlterTable
+ALTER TABLE "KeyUser" ADD COLUMN "trustProfileId" INTEGER REFERENCES "TrustProfile" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "KeyUser_trustProfileId_idx" ON "KeyUser"("trustProfileId");
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "quorumThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Approver" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "pubkey" TEXT,
+    "sessionTokenHash" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "QuorumRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "keyName" TEXT,
+    "kind" INTEGER,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "RequestApproval" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "requestId" TEXT NOT NULL,
+    "approverId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RequestApproval_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "Request" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RequestApproval_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "Approver" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Approver_name_key" ON "Approver"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Approver_pubkey_key" ON "Approver"("pubkey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Approver_sessionTokenHash_key" ON "Approver"("sessionTokenHash");
+
+-- CreateIndex
+CREATE INDEX "QuorumRule_keyName_idx" ON "QuorumRule"("keyName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RequestApproval_requestId_approverId_key" ON "RequestApproval"("requestId", "approverId");
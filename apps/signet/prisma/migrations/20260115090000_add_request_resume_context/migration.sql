@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "rpcParams" TEXT;
+ALTER TABLE "Request" ADD COLUMN "relays" TEXT;
+ALTER TABLE "Request" ADD COLUMN "respondedAt" DATETIME;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "Operator" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "pubkey" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "keyNames" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Operator_name_key" ON "Operator"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Operator_pubkey_key" ON "Operator"("pubkey");
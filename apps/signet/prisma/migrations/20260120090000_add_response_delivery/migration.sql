@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "deliveryStatus" TEXT;
+ALTER TABLE "Request" ADD COLUMN "deliveryRelays" TEXT;
+ALTER TABLE "Request" ADD COLUMN "deliveryAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Log" ADD COLUMN "requestId" TEXT;
+ALTER TABLE "Log" ADD COLUMN "deliveryStatus" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Log_requestId_idx" ON "Log"("requestId");
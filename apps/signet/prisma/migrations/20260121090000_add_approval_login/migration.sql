@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RequestApproval" ADD COLUMN "approvedBy" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RequestApproval_requestId_approvedBy_key" ON "RequestApproval"("requestId", "approvedBy");
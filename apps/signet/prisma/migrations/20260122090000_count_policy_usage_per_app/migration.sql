@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "SigningCondition" ADD COLUMN "usageCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Apps start from the usage their rule had so far, so no limit is reset by the upgrade
+UPDATE "SigningCondition"
+SET "usageCount" = COALESCE((SELECT "currentUsageCount" FROM "PolicyRule" WHERE "PolicyRule"."id" = "SigningCondition"."policyRuleId"), 0)
+WHERE "policyRuleId" IS NOT NULL;
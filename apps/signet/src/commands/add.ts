@@ -2,6 +2,7 @@ import readline from 'readline';
 import { nip19 } from 'nostr-tools';
 import { encryptSecret, encryptNip49, decryptNip49, isNcryptsec } from '../config/keyring.js';
 import { loadConfig, saveConfig } from '../config/config.js';
+import { combineKeyShares, parseShare } from '../daemon/lib/shamir.js';
 
 type AddKeyOptions = {
     configPath: string;
@@ -9,12 +10,49 @@ type AddKeyOptions = {
     noEncrypt?: boolean;
     useNip49?: boolean;
     useLegacy?: boolean;
+    fromShares?: boolean;
 };
 
 function ask(prompt: string, rl: readline.Interface): Promise<string> {
     return new Promise((resolve) => rl.question(prompt, resolve));
 }
 
+/**
+ * Prompt for Shamir shares until the threshold recorded in them is reached,
+ * then return the recovered key as an nsec.
+ */
+async function askForShares(rl: readline.Interface): Promise<string> {
+    const shares: string[] = [];
+    let threshold: number | undefined;
+
+    while (threshold === undefined || shares.length < threshold) {
+        const label = threshold === undefined ? 'Share 1' : `Share ${shares.length + 1} of ${threshold}`;
+        const answer = (await ask(`${label}: `, rl)).trim();
+        if (!answer) {
+            continue;
+        }
+
+        try {
+            const share = parseShare(answer);
+            if (shares.some((entered) => parseShare(entered).index === share.index)) {
+                console.error(`Share ${share.index} was already entered.`);
+                continue;
+            }
+            threshold ??= share.threshold;
+            shares.push(answer);
+        } catch (err) {
+            console.error((err as Error).message);
+        }
+    }
+
+    try {
+        return nip19.nsecEncode(combineKeyShares(shares));
+    } catch (err) {
+        console.error(`Could not recover key: ${(err as Error).message}`);
+        process.exit(1);
+    }
+}
+
 export async function addKey(options: AddKeyOptions): Promise<void> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -22,7 +60,9 @@ export async function addKey(options: AddKeyOptions): Promise<void> {
     });
 
     try {
-        const secret = await ask(`nsec or ncryptsec for ${options.keyName}: `, rl);
+        const secret = options.fromShares
+            ? await askForShares(rl)
+            : await ask(`nsec or ncryptsec for ${options.keyName}: `, rl);
         const trimmedSecret = secret.trim();
 
         // Check if importing an ncryptsec
@@ -0,0 +1,173 @@
+import readline from 'readline';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { RestoreMode, RestoreReport } from '@signet/types';
+import { BackupService } from '../daemon/services/backup-service.js';
+import { validatePassphrase } from '../daemon/lib/validation.js';
+import { archiveFileStamp, openSnapshot } from '../daemon/lib/backup-archive.js';
+
+type BackupOptions = {
+    configPath: string;
+    output?: string;
+    includeHistory?: boolean;
+};
+
+type RestoreOptions = {
+    configPath: string;
+    file: string;
+    mode: RestoreMode;
+    dryRun?: boolean;
+};
+
+type UnpackSnapshotOptions = {
+    file: string;
+    output?: string;
+};
+
+function ask(prompt: string, rl: readline.Interface): Promise<string> {
+    return new Promise((resolve) => rl.question(prompt, resolve));
+}
+
+function defaultBackupName(createdAt: Date): string {
+    return `signet-backup-${archiveFileStamp(createdAt.toISOString())}.json`;
+}
+
+function printReport(report: RestoreReport): void {
+    const { restored } = report;
+    console.log(report.dryRun ? '\nDry run - nothing was changed. Would restore:' : '\nRestored:');
+    console.log(`  Keys:               ${restored.keys}`);
+    console.log(`  Seeds:              ${restored.seeds}`);
+    console.log(`  Apps:               ${restored.apps} (${restored.signingConditions} signing conditions)`);
+    console.log(`  Trust profiles:     ${restored.trustProfiles}`);
+    console.log(`  Policies:           ${restored.policies}`);
+    console.log(`  Settings:           ${restored.settings}`);
+    console.log(`  History entries:    ${restored.requests + restored.logs + restored.adminLogs}`);
+    console.log(`  Already up to date: ${report.unchanged}`);
+
+    if (report.conflicts.length > 0) {
+        console.log(`\nConflicts (${report.conflicts.length}), kept the local version:`);
+        for (const conflict of report.conflicts) {
+            console.log(`  - [${conflict.section}] ${conflict.name}: ${conflict.reason}`);
+        }
+    }
+
+    for (const note of report.notes) {
+        console.log(`\nNote: ${note}`);
+    }
+}
+
+export async function createBackup(options: BackupOptions): Promise<void> {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+    });
+
+    try {
+        const outputPath = resolve(options.output ?? defaultBackupName(new Date()));
+        if (existsSync(outputPath)) {
+            console.error(`${outputPath} already exists.`);
+            process.exit(1);
+        }
+
+        const passphrase = await ask('Backup passphrase: ', rl);
+        const passphraseResult = validatePassphrase(passphrase);
+        if (!passphrase || !passphraseResult.valid) {
+            console.error(passphraseResult.error ?? 'A passphrase is required.');
+            process.exit(1);
+        }
+        const confirmPassphrase = await ask('Confirm passphrase: ', rl);
+        if (passphrase !== confirmPassphrase) {
+            console.error('Passphrases do not match.');
+            process.exit(1);
+        }
+
+        const service = new BackupService({ configFile: options.configPath });
+        const { archive, manifest } = await service.createBackup({
+            passphrase,
+            includeHistory: options.includeHistory,
+        });
+        writeFileSync(outputPath, archive, { encoding: 'utf8', mode: 0o600 });
+
+        const { counts } = manifest;
+        console.log(`\nBackup written to ${outputPath}`);
+        console.log(`  ${counts.keys} keys, ${counts.seeds} seeds, ${counts.apps} apps, ${counts.trustProfiles} trust profiles, ${counts.policies} policies, ${counts.settings} settings`);
+        if (manifest.includesHistory) {
+            console.log(`  ${counts.requests} requests, ${counts.logs} activity entries, ${counts.adminLogs} admin events`);
+        }
+        console.log('Keep the passphrase safe: the backup cannot be restored without it.');
+    } finally {
+        rl.close();
+    }
+}
+
+export async function restoreBackup(options: RestoreOptions): Promise<void> {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+    });
+
+    try {
+        if (!existsSync(options.file)) {
+            console.error(`${options.file} not found.`);
+            process.exit(1);
+        }
+        const archive = readFileSync(options.file, 'utf8');
+
+        const passphrase = await ask('Backup passphrase: ', rl);
+        const service = new BackupService({ configFile: options.configPath });
+        const report = await service.restoreBackup(archive, passphrase, {
+            mode: options.mode,
+            dryRun: options.dryRun,
+        });
+
+        console.log(`Backup from ${report.manifest.createdAt}${report.manifest.signetVersion ? ` (Signet ${report.manifest.signetVersion})` : ''}`);
+        printReport(report);
+
+        if (!report.dryRun) {
+            console.log('\nRestart Signet if it is running so it picks up the restored keys and settings.');
+        }
+    } finally {
+        rl.close();
+    }
+}
+
+/**
+ * Decrypt a scheduled snapshot into a directory holding signet.json and
+ * signet.db, ready to be put in place while Signet is stopped.
+ */
+export async function unpackSnapshot(options: UnpackSnapshotOptions): Promise<void> {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+    });
+
+    try {
+        if (!existsSync(options.file)) {
+            console.error(`${options.file} not found.`);
+            process.exit(1);
+        }
+        const archive = readFileSync(options.file, 'utf8');
+
+        const passphrase = await ask('Backup passphrase: ', rl);
+        const { manifest, config, database } = openSnapshot(archive, passphrase);
+
+        const outputDir = resolve(options.output ?? `signet-snapshot-${archiveFileStamp(manifest.createdAt)}`);
+        const configPath = join(outputDir, 'signet.json');
+        const databasePath = join(outputDir, 'signet.db');
+        for (const path of [configPath, databasePath]) {
+            if (existsSync(path)) {
+                console.error(`${path} already exists.`);
+                process.exit(1);
+            }
+        }
+
+        mkdirSync(outputDir, { recursive: true, mode: 0o700 });
+        writeFileSync(configPath, config, { encoding: 'utf8', mode: 0o600 });
+        writeFileSync(databasePath, database, { mode: 0o600 });
+
+        console.log(`Snapshot from ${manifest.createdAt}${manifest.signetVersion ? ` (Signet ${manifest.signetVersion})` : ''} unpacked to ${outputDir}`);
+        console.log('Stop Signet, then replace your signet.json and database with these files to roll back.');
+    } finally {
+        rl.close();
+    }
+}
@@ -2,8 +2,15 @@
 // This maintains backwards compatibility for existing imports
 export type {
     StoredKey,
+    RetiredKey,
+    KeyDerivation,
+    StoredSeed,
     AdminConfig,
     NostrConfig,
+    RelayAuthConfig,
+    RelayFailoverConfig,
+    LocalRelayConfig,
+    ScheduledBackupConfig,
     ConfigFile,
     KillSwitchConfig,
     KillSwitchDmType,
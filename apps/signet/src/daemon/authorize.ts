@@ -2,17 +2,15 @@ import type { Event } from 'nostr-tools/pure';
 import createDebug from 'debug';
 import prisma from '../db.js';
 import type { ConnectionManager } from './connection-manager.js';
+import type { Nip46Backend, ResumedRequest } from './nip46-backend.js';
 import { getEventService, emitCurrentStats } from './services/index.js';
 import { requestRepository } from './repositories/request-repository.js';
 import { parseEventPreview } from './lib/parse.js';
+import { logger } from './lib/logger.js';
+import { getQuorumThreshold } from './lib/quorum.js';
 import type { PendingRequest } from '@signet/types';
-import {
-    POLL_INITIAL_INTERVAL_MS,
-    POLL_MAX_INTERVAL_MS,
-    POLL_TIMEOUT_MS,
-    POLL_MULTIPLIER,
-    REQUEST_EXPIRY_MS,
-} from './constants.js';
+import { decisionBus, type DecisionOutcome } from './lib/decision-bus.js';
+import { DECISION_RECONCILE_INTERVAL_MS, DECISION_TIMEOUT_MS, REQUEST_EXPIRY_MS } from './constants.js';
 
 const debug = createDebug('signet:authorize');
 
@@ -34,12 +32,52 @@ function serialiseParam(payload?: string | Event): string | undefined {
     }
 }
 
+/**
+ * What a pending request needs to be answered after a daemon restart
+ */
+export interface ResumeContext {
+    /** Full NIP-46 params */
+    params: string[];
+    /** Relays the response goes out on */
+    relays?: string[];
+}
+
+// Requests with a live handler in this process (resuming them would answer twice)
+const awaitingRequests = new Set<string>();
+
+/**
+ * Expire a request if it is still pending after the delay.
+ * The record is kept for history.
+ */
+function scheduleExpiry(requestId: string, delayMs: number): void {
+    setTimeout(async () => {
+        try {
+            // Check if the request is still pending (not processed)
+            const currentRecord = await prisma.request.findUnique({
+                where: { id: requestId },
+                select: { allowed: true },
+            });
+
+            // Only emit expired event if request was never processed
+            if (currentRecord && currentRecord.allowed === null) {
+                decisionBus.publish(requestId, 'expired');
+                getEventService().emitRequestExpired(requestId);
+                // Emit stats update (pending count decreased)
+                await emitCurrentStats();
+            }
+        } catch (error) {
+            debug(`Failed to check request expiry ${requestId}: ${error}`);
+        }
+    }, delayMs);
+}
+
 async function persistRequest(
     keyName: string | undefined,
     requestId: string,
     remotePubkey: string,
     method: string,
-    payload?: string | Event
+    payload?: string | Event,
+    context?: ResumeContext
 ) {
     const params = serialiseParam(payload);
 
@@ -52,6 +90,9 @@ async function persistRequest(
         }
     }
 
+    // Requests covered by a quorum rule keep the threshold they were created with
+    const quorumThreshold = await getQuorumThreshold(keyName, method, payload);
+
     const record = await prisma.request.create({
         data: {
             keyName,
@@ -60,6 +101,9 @@ async function persistRequest(
             method,
             params,
             keyUserId,
+            quorumThreshold,
+            rpcParams: context ? JSON.stringify(context.params) : undefined,
+            relays: context?.relays ? JSON.stringify(context.relays) : undefined,
         },
         include: { KeyUser: true },
     });
@@ -85,31 +129,14 @@ async function persistRequest(
         processedAt: null,
         autoApproved: false,
         appName: record.KeyUser?.description ?? null,
+        quorum: quorumThreshold !== null ? { threshold: quorumThreshold, approvals: [] } : null,
     });
 
     // Emit stats update (pending count increased)
     await emitCurrentStats();
 
     // Schedule expiry notification - don't delete the record, keep for history
-    const dbRecordId = record.id;
-    setTimeout(async () => {
-        try {
-            // Check if the request is still pending (not processed)
-            const currentRecord = await prisma.request.findUnique({
-                where: { id: dbRecordId },
-                select: { allowed: true },
-            });
-
-            // Only emit expired event if request was never processed
-            if (currentRecord && currentRecord.allowed === null) {
-                eventService.emitRequestExpired(dbRecordId);
-                // Emit stats update (pending count decreased)
-                await emitCurrentStats();
-            }
-        } catch (error) {
-            debug(`Failed to check request expiry ${dbRecordId}: ${error}`);
-        }
-    }, REQUEST_EXPIRY_MS);
+    scheduleExpiry(record.id, REQUEST_EXPIRY_MS);
 
     return record;
 }
@@ -131,73 +158,95 @@ function buildRequestUrl(baseUrl: string, requestId: string): string {
 }
 
 /**
- * Wait for a web-based authorization decision with exponential backoff
+ * Wait for a web-based authorization decision.
+ *
+ * Decisions arrive on the decision bus as soon as they are recorded. The
+ * database stays the source of truth: it is checked once after subscribing
+ * (in case the decision landed while the auth_url was being sent) and then
+ * at a slow interval to catch decisions made outside this process.
  */
-function awaitWebDecision(requestId: string): Promise<string | undefined> {
+function awaitWebDecision(
+    requestId: string,
+    params: string | undefined,
+    timeoutMs = DECISION_TIMEOUT_MS
+): Promise<string | undefined> {
+    awaitingRequests.add(requestId);
+
     return new Promise((resolve, reject) => {
-        const startTime = Date.now();
-        let pollInterval = POLL_INITIAL_INTERVAL_MS;
+        let settled = false;
         let timeoutHandle: NodeJS.Timeout | null = null;
-        let pollHandle: NodeJS.Timeout | null = null;
+        let reconcileHandle: NodeJS.Timeout | null = null;
+        let unsubscribe: (() => void) | null = null;
 
         const cleanup = () => {
             if (timeoutHandle) {
                 clearTimeout(timeoutHandle);
                 timeoutHandle = null;
             }
-            if (pollHandle) {
-                clearTimeout(pollHandle);
-                pollHandle = null;
+            if (reconcileHandle) {
+                clearInterval(reconcileHandle);
+                reconcileHandle = null;
             }
+            unsubscribe?.();
+            unsubscribe = null;
+            awaitingRequests.delete(requestId);
         };
 
-        // Set overall timeout
-        timeoutHandle = setTimeout(() => {
+        const settle = (error: Error | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
             cleanup();
-            reject(new Error('Authorization request timed out'));
-        }, POLL_TIMEOUT_MS);
+            if (error) {
+                reject(error);
+            } else {
+                resolve(params);
+            }
+        };
+
+        const onDecision = (outcome: DecisionOutcome) => {
+            switch (outcome) {
+                case 'approved':
+                    settle(null);
+                    break;
+                case 'denied':
+                    settle(new Error('Request denied'));
+                    break;
+                case 'expired':
+                    settle(new Error('Authorization request expired'));
+                    break;
+            }
+        };
 
-        const poll = async () => {
+        const reconcile = async () => {
             try {
-                const record = await prisma.request.findUnique({ where: { id: requestId } });
+                const record = await prisma.request.findUnique({
+                    where: { id: requestId },
+                    select: { allowed: true },
+                });
 
                 if (!record) {
                     // Record was deleted (expired or processed externally)
-                    cleanup();
-                    reject(new Error('Authorization request expired or was deleted'));
-                    return;
-                }
-
-                if (record.allowed !== null && record.allowed !== undefined) {
-                    cleanup();
-                    if (record.allowed) {
-                        resolve(record.params ?? undefined);
-                    } else {
-                        reject(new Error('Request denied'));
-                    }
-                    return;
+                    settle(new Error('Authorization request expired or was deleted'));
+                } else if (record.allowed !== null) {
+                    onDecision(record.allowed ? 'approved' : 'denied');
                 }
-
-                // Still pending - schedule next poll with exponential backoff
-                pollInterval = Math.min(pollInterval * POLL_MULTIPLIER, POLL_MAX_INTERVAL_MS);
-                pollHandle = setTimeout(poll, pollInterval);
             } catch (error) {
-                // Database error - log and continue polling
-                debug(`Error polling for request ${requestId}: ${error}`);
-
-                // Check if we've exceeded timeout
-                if (Date.now() - startTime > POLL_TIMEOUT_MS) {
-                    cleanup();
-                    reject(new Error('Authorization request timed out'));
-                    return;
-                }
-
-                pollHandle = setTimeout(poll, pollInterval);
+                // Database error - the next check or the bus will pick it up
+                debug(`Error checking request ${requestId}: ${error}`);
             }
         };
 
-        // Start polling
-        poll();
+        unsubscribe = decisionBus.subscribe(requestId, onDecision);
+
+        // Set overall timeout
+        timeoutHandle = setTimeout(() => {
+            settle(new Error('Authorization request timed out'));
+        }, timeoutMs);
+
+        reconcileHandle = setInterval(reconcile, DECISION_RECONCILE_INTERVAL_MS);
+        reconcile();
     });
 }
 
@@ -207,20 +256,134 @@ export async function requestAuthorization(
     remotePubkey: string,
     requestId: string,
     method: string,
-    payload?: string | Event
+    payload?: string | Event,
+    context?: ResumeContext
 ): Promise<string | undefined> {
-    const record = await persistRequest(keyName, requestId, remotePubkey, method, payload);
-    const baseUrl = await resolveBaseUrl(connectionManager);
+    const record = await persistRequest(keyName, requestId, remotePubkey, method, payload, context);
+
+    try {
+        const baseUrl = await resolveBaseUrl(connectionManager);
+
+        if (!baseUrl) {
+            throw new Error('No baseUrl configured - web authorization required');
+        }
+
+        const url = buildRequestUrl(baseUrl, record.id);
+
+        // Ensure relay connections are active before sending auth_url
+        await connectionManager.ensureConnected();
+        await connectionManager.sendResponse(requestId, remotePubkey, 'auth_url', undefined, url, context?.relays);
 
-    if (!baseUrl) {
-        throw new Error('No baseUrl configured - web authorization required');
+        return await awaitWebDecision(record.id, record.params ?? undefined);
+    } finally {
+        // The caller answers the client either way, so there's nothing left to resume
+        await markResponded(record.id);
     }
+}
 
-    const url = buildRequestUrl(baseUrl, record.id);
+async function markResponded(id: string): Promise<void> {
+    try {
+        await requestRepository.markResponded(id);
+    } catch (error) {
+        debug(`Failed to mark request ${id} as answered: ${error}`);
+    }
+}
 
-    // Ensure relay connections are active before sending auth_url
-    await connectionManager.ensureConnected();
-    await connectionManager.sendResponse(requestId, remotePubkey, 'auth_url', undefined, url);
+function parseJsonArray(value: string | null): string[] | undefined {
+    if (!value) {
+        return undefined;
+    }
+    try {
+        const parsed: unknown = JSON.parse(value);
+        return Array.isArray(parsed) && parsed.every((item) => typeof item === 'string') ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
 
-    return await awaitWebDecision(record.id);
+async function answerWhenDecided(
+    id: string,
+    request: ResumedRequest,
+    backend: Nip46Backend,
+    remainingMs: number
+): Promise<void> {
+    let permitted = false;
+    try {
+        await awaitWebDecision(id, undefined, remainingMs + (DECISION_TIMEOUT_MS - REQUEST_EXPIRY_MS));
+        permitted = true;
+    } catch (error) {
+        debug(`Resumed request ${id} not approved: ${error}`);
+    }
+
+    try {
+        if (permitted) {
+            await backend.completeResumedRequest(request);
+        } else {
+            await backend.rejectResumedRequest(request, 'Not authorized');
+        }
+    } catch (error) {
+        debug(`Failed to answer resumed request ${id}: ${error}`);
+    }
+    await markResponded(id);
+}
+
+/**
+ * Pick up requests for a key that were still owed a response when the daemon
+ * last stopped. Decided requests are answered straight away, requests that
+ * expired while the daemon was down get an explicit error, and the rest wait
+ * for a decision for whatever remains of their expiry window.
+ *
+ * Called whenever a key's backend starts, since answers need the key unlocked.
+ */
+export async function resumePendingRequests(keyName: string, backend: Nip46Backend): Promise<number> {
+    const records = await requestRepository.findUnanswered(keyName);
+    let resumed = 0;
+
+    for (const record of records) {
+        if (awaitingRequests.has(record.id)) {
+            continue;
+        }
+
+        const params = parseJsonArray(record.rpcParams);
+        if (!params) {
+            debug(`Request ${record.id} has unreadable params, not resuming`);
+            await markResponded(record.id);
+            continue;
+        }
+
+        const request: ResumedRequest = {
+            id: record.requestId,
+            method: record.method,
+            remotePubkey: record.remotePubkey,
+            params,
+            relays: parseJsonArray(record.relays),
+        };
+        const remainingMs = record.createdAt.getTime() + REQUEST_EXPIRY_MS - Date.now();
+        resumed++;
+
+        if (record.allowed !== null || remainingMs <= 0) {
+            try {
+                if (record.allowed === true) {
+                    await backend.completeResumedRequest(request);
+                } else if (record.allowed === false) {
+                    await backend.rejectResumedRequest(request, 'Not authorized');
+                } else {
+                    await backend.rejectResumedRequest(request, 'Request expired while the signer was offline');
+                }
+            } catch (error) {
+                debug(`Failed to answer resumed request ${record.id}: ${error}`);
+            }
+            await markResponded(record.id);
+            continue;
+        }
+
+        // Still within its expiry window: wait for a decision like a live request
+        scheduleExpiry(record.id, remainingMs);
+        void answerWhenDecided(record.id, request, backend, remainingMs);
+    }
+
+    if (resumed > 0) {
+        logger.info('Resumed pending requests', { key: keyName, count: resumed });
+    }
+    return resumed;
 }
@@ -7,10 +7,11 @@ import { logger } from './lib/logger.js';
 import createDebug from 'debug';
 import fs from 'fs';
 import path from 'path';
-import type { ConnectionInfo } from '@signet/types';
+import type { ConnectionInfo, ResponseDelivery } from '@signet/types';
 import type { ConfigFile } from '../config/types.js';
 import { loadConfig } from '../config/config.js';
 import type { RelayPool } from './lib/relay-pool.js';
+import { publishResponse, describeDeliveryFailures } from './lib/response-delivery.js';
 
 const debug = createDebug('signet:connection');
 
@@ -18,6 +19,8 @@ export interface ConnectionManagerConfig {
     key: string;          // Admin key (nsec or hex)
     relays: string[];
     secret?: string;
+    /** Relays advertised besides nostr.relays (the embedded local relay) */
+    extraRelays?: string[];
 }
 
 interface Nip46Response {
@@ -40,6 +43,7 @@ export class ConnectionManager {
     private readonly pubkey: string;
     private readonly secret?: string;
     private readonly relays: string[];
+    private readonly extraRelays: string[];
     private connectionInfo?: ConnectionInfo;
     private readyResolver?: () => void;
     private readonly readyPromise: Promise<void>;
@@ -48,6 +52,7 @@ export class ConnectionManager {
         this.configFile = configFile;
         this.secret = config.secret;
         this.relays = config.relays;
+        this.extraRelays = config.extraRelays ?? [];
         this.pool = pool;
 
         // Parse the admin key
@@ -109,14 +114,18 @@ export class ConnectionManager {
     /**
      * Send a NIP-46 response to a remote client.
      * This is used for sending auth_url responses during the authorization flow.
+     * Goes out on `relays` (the requesting key's relays) or else the shared
+     * relays. Retries on alternate relays when those all fail, and throws if
+     * no relay accepted the response.
      */
     public async sendResponse(
         requestId: string,
         remotePubkey: string,
         result: string,
         error?: string,
-        authUrl?: string
-    ): Promise<void> {
+        authUrl?: string,
+        relays?: string[]
+    ): Promise<ResponseDelivery> {
         const response: Nip46Response = error
             ? { id: requestId, result, error }
             : { id: requestId, result };
@@ -141,7 +150,11 @@ export class ConnectionManager {
         }, this.nsec);
 
         debug('sending response %s to %s', requestId, npubEncode(remotePubkey));
-        await this.pool.publish(event);
+        const delivery = await publishResponse(this.pool, event, relays ?? this.pool.getRelays());
+        if (delivery.status === 'failed') {
+            throw new Error(`Failed to publish to any relay: ${describeDeliveryFailures(delivery)}`);
+        }
+        return delivery;
     }
 
     private writeConnectionStrings(): void {
@@ -187,7 +200,7 @@ export class ConnectionManager {
             relaySources = [...this.relays];
         }
 
-        const normalised = relaySources
+        const normalised = [...relaySources, ...this.extraRelays]
             .map((relay) => this.normaliseRelay(relay))
             .filter((relay): relay is string => Boolean(relay));
 
@@ -200,6 +213,11 @@ export class ConnectionManager {
             return null;
         }
 
+        // Plain ws:// is kept for LAN relays
+        if (/^ws:\/\//i.test(trimmed)) {
+            return trimmed;
+        }
+
         const withoutScheme = trimmed.replace(/^[a-z]+:\/\//i, '').replace(/^\/+/, '');
         if (!withoutScheme) {
             return null;
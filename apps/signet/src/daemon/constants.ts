@@ -2,12 +2,10 @@
  * Shared constants for the Signet daemon
  */
 
-// Request expiry and polling
+// Request expiry and decisions
 export const REQUEST_EXPIRY_MS = 600_000; // 10 minutes
-export const POLL_TIMEOUT_MS = 605_000; // 605 seconds (slightly longer than expiry)
-export const POLL_INITIAL_INTERVAL_MS = 100;
-export const POLL_MAX_INTERVAL_MS = 2_000;
-export const POLL_MULTIPLIER = 1.5;
+export const DECISION_TIMEOUT_MS = 605_000; // 605 seconds (slightly longer than expiry)
+export const DECISION_RECONCILE_INTERVAL_MS = 30_000; // database fallback for decisions missed by the bus
 
 // Web authorization polling (slightly different initial interval for web handlers)
 export const WEB_POLL_INITIAL_INTERVAL_MS = 200;
@@ -20,11 +18,47 @@ export const RATE_LIMIT_BLOCK_DURATION_MS = 60_000; // 1 minute
 // JWT
 export const JWT_EXPIRY = '7d';
 
+// Dashboard login
+export const LOGIN_CHALLENGE_TTL_MS = 5 * 60_000; // 5 minutes to sign a challenge
+export const LOGIN_EVENT_MAX_AGE_SECONDS = 60; // Allowed clock skew for the signed login event
+export const SESSION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // Matches JWT_EXPIRY
+export const SESSION_CACHE_TTL_MS = 60_000; // How long an active session check is cached
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60_000; // Minimum gap between lastSeenAt updates
+
+// API tokens
+export const API_TOKEN_CACHE_TTL_MS = 60_000; // How long a looked-up token is cached
+export const MAX_API_TOKENS = 50;
+export const MAX_API_TOKEN_EXPIRY_DAYS = 365 * 2;
+
+// Dashboard operators
+export const MAX_OPERATORS = 50;
+
+// Webhooks
+export const MAX_WEBHOOKS = 20;
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+export const WEBHOOK_RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000]; // After each failed attempt
+export const MAX_WEBHOOK_DELIVERIES = 100; // Delivery log entries kept per webhook
+
+// Metrics
+export const APPROVAL_LATENCY_BUCKETS_SEC = [1, 5, 15, 30, 60, 120, 300, 600]; // Requests expire after 10 minutes
+
 // Relay health monitoring
 export const HEALTH_CHECK_INTERVAL_MS = 30_000; // 30 seconds
 export const RECONNECT_INITIAL_DELAY_MS = 1_000; // 1 second
 export const RECONNECT_MAX_DELAY_MS = 30_000; // 30 seconds
 export const RECONNECT_MULTIPLIER = 2;
+export const RELAY_PROBE_INTERVAL_MS = 5 * 60_000; // 5 minutes between probe rounds
+export const RELAY_PROBE_TIMEOUT_MS = 10_000; // Connect and EOSE timeout per probe
+export const RELAY_HEALTH_WINDOW_MS = 60 * 60_000; // Samples older than 1 hour don't count
+export const RELAY_HEALTH_MAX_SAMPLES = 200; // Per relay, within the window
+export const RELAY_HEALTH_MIN_SAMPLES = 3; // Before a relay gets a score
+export const RELAY_HEALTH_RECENT_MS = 15 * 60_000; // Window for "recent failures"
+export const RELAY_HEALTH_FAILURE_LIMIT = 5; // Recent failures that zero the failure component
+export const RELAY_HEALTH_FAST_MS = 500; // Latency at or below this scores full marks
+export const RELAY_HEALTH_SLOW_MS = 5_000; // Latency at or above this scores nothing
+export const RELAY_HEALTH_HISTORY_POINTS = 288; // 24 hours of 5-minute points
+export const RELAY_FAILOVER_MIN_SCORE = 40; // Default score below which a shared relay is demoted
+export const RELAY_FAILOVER_COOLDOWN_MS = 30 * 60_000; // A promoted relay is kept at least this long
 
 // SSE keep-alive
 export const SSE_KEEPALIVE_INTERVAL_MS = 30_000; // 30 seconds
@@ -32,6 +66,9 @@ export const SSE_KEEPALIVE_INTERVAL_MS = 30_000; // 30 seconds
 // Valid trust levels
 export const VALID_TRUST_LEVELS = ['paranoid', 'reasonable', 'full'] as const;
 
+// Methods a custom trust profile can auto-approve besides sign_event
+export const TRUST_PROFILE_METHODS = ['nip04_encrypt', 'nip04_decrypt', 'nip44_encrypt', 'nip44_decrypt'] as const;
+
 // ACL cache
 export const ACL_CACHE_TTL_MS = 30_000; // 30 seconds
 export const ACL_CACHE_MAX_SIZE = 1000;
@@ -47,6 +84,42 @@ export const RELAY_WATCHDOG_RESET_COOLDOWN_MS = 5 * 60_000; // 5 minutes between
 export const RELAY_HEARTBEAT_INTERVAL_MS = 30_000; // 30 seconds
 export const RELAY_SLEEP_DETECTION_THRESHOLD_MS = RELAY_HEARTBEAT_INTERVAL_MS * 3; // 90 seconds
 
+// Local relay
+export const LOCAL_RELAY_DEFAULT_HOST = '0.0.0.0'; // Reachable from the LAN
+export const LOCAL_RELAY_DEFAULT_PORT = 4869;
+export const LOCAL_RELAY_KINDS = [24133, 24135]; // NIP-46 request/response kinds only
+export const LOCAL_RELAY_RETENTION_MS = 60_000; // Events are replayed to late subscribers for 1 minute
+export const LOCAL_RELAY_MAX_EVENTS = 1000; // Held in memory
+export const LOCAL_RELAY_MAX_SUBSCRIPTIONS = 20; // Per connection
+export const LOCAL_RELAY_MAX_MESSAGE_BYTES = 128 * 1024;
+
+// NIP-46 response delivery
+export const RESPONSE_RETRY_MAX_RELAYS = 3; // Alternate relays tried when no relay accepted a response
+
+// Backups
+export const BACKUP_FORMAT = 'signet-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_PBKDF2_ITERATIONS = 600_000; // Same as key encryption (keyring v2)
+export const BACKUP_MAX_BYTES = 50 * 1024 * 1024; // Largest archive accepted by POST /backup/restore
+export const SNAPSHOT_FORMAT = 'signet-snapshot';
+export const SNAPSHOT_INTERVAL_HOURS = 24;
+export const SNAPSHOT_KEEP = 7;
+export const SNAPSHOT_MAX_AGE_DAYS = 30;
+export const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 1000; // How often the scheduler checks whether a snapshot is due
+export const SNAPSHOT_RETRY_MS = 60 * 60 * 1000; // Wait after a failed snapshot before trying again
+
+// Shamir key shares
+export const SHAMIR_SHARE_PREFIX = 'signet-share:';
+export const SHAMIR_SHARE_VERSION = 1;
+export const SHAMIR_MAX_SHARES = 16;
+
+// Key rotation
+export const KEY_MIGRATION_KIND = 1776; // NIP-41 draft migration event
+export const MAX_ROTATION_REASON_LENGTH = 500;
+
+// Seeds (NIP-06)
+export const MAX_DERIVATION_INDEX = 0x7fffffff; // Largest hardened BIP-32 index
+
 // Input validation limits
 export const MAX_KEY_NAME_LENGTH = 64;
 export const MAX_APP_NAME_LENGTH = 128;
@@ -54,3 +127,14 @@ export const MIN_PASSPHRASE_LENGTH = 8; // Minimum for security
 export const MAX_PASSPHRASE_LENGTH = 128;
 export const MAX_URI_LENGTH = 2048;
 export const MAX_RELAYS_PER_CONNECTION = 10;
+export const MAX_QUOTA_RULES = 20;
+export const MAX_QUOTA_LIMIT = 100_000;
+export const MAX_SCHEDULE_WINDOWS = 14;
+export const MAX_TRUST_PROFILE_KINDS = 100;
+export const MAX_APPROVERS = 20;
+export const MAX_CONSTRAINT_TAGS = 20;
+export const MAX_CONSTRAINT_PATTERN_LENGTH = 256;
+export const MAX_CONSTRAINT_MINUTES = 7 * 24 * 60; // 1 week
+export const MAX_POLICY_RULES = 50;
+export const MAX_POLICY_USAGE_COUNT = 1_000_000;
+export const MAX_TOKEN_EXPIRY_HOURS = 24 * 365; // 1 year
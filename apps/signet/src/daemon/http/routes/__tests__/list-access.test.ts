@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { npubEncode } from 'nostr-tools/nip19';
+import {
+  createAuthMiddleware,
+  registerAuthPlugins,
+  setApiTokenAuthorizer,
+  setSessionAuthorizer,
+  setSessionValidator,
+  signToken,
+} from '../../../lib/auth.js';
+import { getRouteContext } from '../../../lib/access.js';
+import { logBuffer } from '../../../lib/log-buffer.js';
+import { generateApiToken, hashApiToken } from '../../../lib/api-tokens.js';
+import { ApiTokenService } from '../../../services/api-token-service.js';
+import { DashboardAuthService } from '../../../services/dashboard-auth-service.js';
+import type { KeyService, AppService, RequestService } from '../../../services/index.js';
+import type { OperatorService } from '../../../services/operator-service.js';
+import type { PreHandlerFull } from '../../types.js';
+import { registerKeysRoutes } from '../keys.js';
+import { registerAppsRoutes } from '../apps.js';
+import { registerRequestRoutes } from '../requests.js';
+import { registerLogsRoutes } from '../logs.js';
+import { registerTokensRoutes } from '../tokens.js';
+
+vi.mock('../../../../db.js', () => ({
+  default: {
+    adminLog: {
+      findMany: vi.fn(),
+    },
+    apiToken: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    token: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const OWNER_PUBKEY = getPublicKey(generateSecretKey());
+const OPERATOR_PUBKEY = getPublicKey(generateSecretKey());
+const API_TOKEN = generateApiToken();
+const POLICY_TOKEN_SECRET = 'ab12cd'.padEnd(64, '0');
+
+describe('list routes for key-limited callers', () => {
+  let fastify: FastifyInstance;
+  let mockPrisma: any;
+  const keyService = {
+    listKeys: vi.fn(),
+    listSeeds: vi.fn(),
+  };
+  const appService = {
+    listApps: vi.fn(),
+  };
+  const requestService = {
+    listRequests: vi.fn(),
+  };
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await registerAuthPlugins(fastify, 'test-secret');
+
+    const operatorService = {
+      getAccess: (pubkey: string) => pubkey === OPERATOR_PUBKEY
+        ? { role: 'viewer', scopes: ['read'], keyNames: ['main'] }
+        : null,
+    };
+    const dashboardAuth = new DashboardAuthService({
+      adminNpubs: [npubEncode(OWNER_PUBKEY)],
+      keyService: {} as KeyService,
+      operatorService: operatorService as unknown as OperatorService,
+    });
+    setSessionValidator(async () => true);
+    setSessionAuthorizer((pubkey, request) => dashboardAuth.authorize(pubkey, getRouteContext(request)));
+    const apiTokens = new ApiTokenService();
+    setApiTokenAuthorizer((token, request) => apiTokens.authorize(token, getRouteContext(request)));
+
+    const preHandler: PreHandlerFull = {
+      auth: [createAuthMiddleware(fastify)],
+      csrf: [],
+      rateLimit: [],
+    };
+    registerKeysRoutes(fastify, { keyService: keyService as unknown as KeyService }, preHandler);
+    registerAppsRoutes(fastify, { appService: appService as unknown as AppService }, preHandler);
+    registerRequestRoutes(fastify, {
+      requestService: requestService as unknown as RequestService,
+      appService: appService as unknown as AppService,
+    }, preHandler);
+    registerLogsRoutes(fastify, preHandler.auth);
+    registerTokensRoutes(fastify, { keyService: keyService as unknown as KeyService }, preHandler);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    setSessionValidator(null);
+    setSessionAuthorizer(null);
+    setApiTokenAuthorizer(null);
+    await fastify.close();
+  });
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    keyService.listKeys.mockResolvedValue([{ name: 'main' }, { name: 'alt' }]);
+    keyService.listSeeds.mockResolvedValue([
+      { name: 'shared', keys: [{ name: 'main', index: 0 }, { name: 'alt', index: 1 }] },
+      { name: 'other', keys: [{ name: 'alt', index: 0 }] },
+    ]);
+    appService.listApps.mockResolvedValue([{ id: 1, keyName: 'main' }, { id: 2, keyName: 'alt' }]);
+    requestService.listRequests.mockResolvedValue([]);
+    mockPrisma.adminLog.findMany.mockResolvedValue([]);
+    mockPrisma.apiToken.findUnique.mockImplementation(({ where }: any) => Promise.resolve(
+      where.tokenHash === hashApiToken(API_TOKEN)
+        ? { id: 1, name: 'ci', tokenHash: where.tokenHash, scopes: 'read', keyNames: 'main', expiresAt: null }
+        : null,
+    ));
+    mockPrisma.apiToken.update.mockResolvedValue({});
+    mockPrisma.token.findMany.mockResolvedValue([{
+      id: 4,
+      keyName: 'main',
+      clientName: 'Phone',
+      token: POLICY_TOKEN_SECRET,
+      policyId: 1,
+      policy: { name: 'Notes' },
+      KeyUser: null,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      expiresAt: null,
+      redeemedAt: null,
+    }]);
+  });
+
+  function get(url: string, pubkey: string) {
+    return fastify.inject({
+      method: 'GET',
+      url,
+      headers: { authorization: `Bearer ${signToken(fastify, pubkey, 'session-1')}` },
+    });
+  }
+
+  it('should only list the operator\'s keys', async () => {
+    const response = await get('/keys', OPERATOR_PUBKEY);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().keys).toEqual([{ name: 'main' }]);
+  });
+
+  it('should list every key for owners', async () => {
+    const response = await get('/keys', OWNER_PUBKEY);
+
+    expect(response.json().keys).toEqual([{ name: 'main' }, { name: 'alt' }]);
+  });
+
+  it('should only list seeds behind the operator\'s keys', async () => {
+    const response = await get('/seeds', OPERATOR_PUBKEY);
+
+    expect(response.json().seeds).toEqual([{ name: 'shared', keys: [{ name: 'main', index: 0 }] }]);
+  });
+
+  it('should only list apps on the operator\'s keys', async () => {
+    const response = await get('/apps', OPERATOR_PUBKEY);
+
+    expect(response.json().apps).toEqual([{ id: 1, keyName: 'main' }]);
+  });
+
+  it('should only query requests and admin events for the operator\'s keys', async () => {
+    const response = await get('/requests?status=all', OPERATOR_PUBKEY);
+
+    expect(response.statusCode).toBe(200);
+    expect(requestService.listRequests).toHaveBeenCalledWith(expect.objectContaining({ keyNames: ['main'] }));
+    expect(mockPrisma.adminLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { keyName: { in: ['main'] } },
+    }));
+  });
+
+  it('should only return log entries for the operator\'s keys', async () => {
+    logBuffer.clear();
+    logBuffer.push({ timestamp: '2026-01-01T00:00:00Z', level: 'info', message: 'main', data: { key: 'main' } });
+    logBuffer.push({ timestamp: '2026-01-01T00:00:01Z', level: 'info', message: 'alt', data: { key: 'alt' } });
+    logBuffer.push({ timestamp: '2026-01-01T00:00:02Z', level: 'info', message: 'daemon' });
+
+    const operatorLogs = (await get('/logs', OPERATOR_PUBKEY)).json().logs;
+    const ownerLogs = (await get('/logs', OWNER_PUBKEY)).json().logs;
+
+    expect(operatorLogs.map((entry: { message: string }) => entry.message)).toEqual(['main']);
+    expect(ownerLogs).toHaveLength(3);
+  });
+
+  describe('API tokens limited to a key', () => {
+    function getWithToken(url: string) {
+      return fastify.inject({ method: 'GET', url, headers: { authorization: `Bearer ${API_TOKEN}` } });
+    }
+
+    it('should only list the token\'s keys and apps', async () => {
+      const keys = await getWithToken('/keys');
+      const apps = await getWithToken('/apps');
+
+      expect(keys.statusCode).toBe(200);
+      expect(keys.json().keys).toEqual([{ name: 'main' }]);
+      expect(apps.json().apps).toEqual([{ id: 1, keyName: 'main' }]);
+    });
+
+    it('should only query requests for the token\'s keys', async () => {
+      await getWithToken('/requests?status=approved');
+
+      expect(requestService.listRequests).toHaveBeenCalledWith(expect.objectContaining({ keyNames: ['main'] }));
+    });
+
+    it('should not reveal policy token secrets to a read-only token', async () => {
+      const response = await getWithToken('/tokens');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().tokens).toEqual([expect.objectContaining({ id: 4, prefix: 'ab12cd' })]);
+      expect(response.body).not.toContain(POLICY_TOKEN_SECRET);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateApiTokenRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getApiTokenService } from '../../services/index.js';
+import { sendError } from '../../lib/route-errors.js';
+
+/**
+ * API token management. API tokens themselves can't call these routes,
+ * so only a dashboard session can mint or revoke tokens.
+ */
+export function registerApiTokensRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerFull
+): void {
+    // List API tokens (GET - no CSRF needed)
+    fastify.get('/api-tokens', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const tokens = await getApiTokenService().listTokens();
+        return reply.send({ tokens });
+    });
+
+    // Create an API token; the secret is only returned here (POST - needs CSRF)
+    fastify.post('/api-tokens', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { token, secret } = await getApiTokenService().createToken(request.body as CreateApiTokenRequest);
+            return reply.send({ ok: true, token, secret });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Revoke an API token (DELETE - needs CSRF)
+    fastify.delete('/api-tokens/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { id } = request.params as { id: string };
+        const tokenId = Number(id);
+
+        if (!Number.isInteger(tokenId)) {
+            return reply.code(400).send({ error: 'Invalid API token ID' });
+        }
+
+        try {
+            await getApiTokenService().deleteToken(tokenId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
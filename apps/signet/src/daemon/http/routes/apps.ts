@@ -1,11 +1,12 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import type { AppService } from '../../services/index.js';
 import { emitCurrentStats, getEventService } from '../../services/index.js';
-import type { TrustLevel } from '@signet/types';
+import type { TrustLevel, AppQuotaConfig, AppSchedule, CreateSigningConditionRequest } from '@signet/types';
 import type { PreHandlerAuthCsrf } from '../types.js';
 import { sendError } from '../../lib/route-errors.js';
 import { adminLogRepository } from '../../repositories/admin-log-repository.js';
 import { getClientInfo } from '../../lib/client-info.js';
+import { getVisibleKeys, isKeyVisible } from '../../lib/access.js';
 
 export interface AppsRouteConfig {
     appService: AppService;
@@ -17,8 +18,9 @@ export function registerAppsRoutes(
     preHandler: PreHandlerAuthCsrf
 ): void {
     // List all connected apps (GET - no CSRF needed)
-    fastify.get('/apps', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
-        const apps = await config.appService.listApps();
+    fastify.get('/apps', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const visible = getVisibleKeys(request);
+        const apps = (await config.appService.listApps()).filter(app => isKeyVisible(visible, app.keyName));
         return reply.send({ apps });
     });
 
@@ -43,7 +45,7 @@ export function registerAppsRoutes(
         }
     });
 
-    // Update app (description and/or trust level) (PATCH - needs CSRF)
+    // Update app (description, trust level, quotas and/or schedule) (PATCH - needs CSRF)
     fastify.patch('/apps/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const params = request.params as { id: string };
         const appId = Number(params.id);
@@ -52,11 +54,20 @@ export function registerAppsRoutes(
             return reply.code(400).send({ error: 'Invalid app ID' });
         }
 
-        const body = request.body as { description?: string; trustLevel?: TrustLevel };
+        const body = request.body as {
+            description?: string;
+            trustLevel?: TrustLevel;
+            trustProfileId?: number | null;
+            quotas?: AppQuotaConfig | null;
+            schedule?: AppSchedule | null;
+        };
         const description = body?.description?.trim();
         const trustLevel = body?.trustLevel;
+        const trustProfileId = body?.trustProfileId;
+        const quotas = body?.quotas;
+        const schedule = body?.schedule;
 
-        if (!description && !trustLevel) {
+        if (!description && !trustLevel && trustProfileId === undefined && quotas === undefined && schedule === undefined) {
             return reply.code(400).send({ error: 'Nothing to update' });
         }
 
@@ -66,7 +77,50 @@ export function registerAppsRoutes(
             }
             if (trustLevel) {
                 await config.appService.updateTrustLevel(appId, trustLevel);
+            } else if (trustProfileId !== undefined) {
+                await config.appService.updateTrustProfile(appId, trustProfileId);
             }
+            if (quotas !== undefined) {
+                await config.appService.updateQuotas(appId, quotas);
+            }
+            if (schedule !== undefined) {
+                await config.appService.updateSchedule(appId, schedule);
+            }
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Add a signing condition to an app (POST - needs CSRF)
+    fastify.post('/apps/:id/conditions', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const params = request.params as { id: string };
+        const appId = Number(params.id);
+
+        if (!Number.isFinite(appId)) {
+            return reply.code(400).send({ error: 'Invalid app ID' });
+        }
+
+        try {
+            const conditionId = await config.appService.addCondition(appId, request.body as CreateSigningConditionRequest);
+            return reply.send({ ok: true, conditionId });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Remove a signing condition from an app (DELETE - needs CSRF)
+    fastify.delete('/apps/:id/conditions/:conditionId', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const params = request.params as { id: string; conditionId: string };
+        const appId = Number(params.id);
+        const conditionId = Number(params.conditionId);
+
+        if (!Number.isFinite(appId) || !Number.isFinite(conditionId)) {
+            return reply.code(400).send({ error: 'Invalid app or condition ID' });
+        }
+
+        try {
+            await config.appService.removeCondition(appId, conditionId);
             return reply.send({ ok: true });
         } catch (error) {
             return sendError(reply, error);
@@ -0,0 +1,159 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { AuthStatusResponse, KeyLoginRequest, LoginMethod, LoginRequest, LoginResponse } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getDashboardAuthService, LOGIN_PATH, type LoginResult } from '../../services/dashboard-auth-service.js';
+import {
+    clearAuthCookie,
+    clearCsrfCookie,
+    generateCsrfToken,
+    setAuthCookie,
+    setCsrfCookie,
+    signToken,
+    verifyToken,
+} from '../../lib/auth.js';
+import { sendError } from '../../lib/route-errors.js';
+
+export interface AuthRouteConfig {
+    /** Whether cookies should be marked secure (HTTPS) */
+    secureCookies: boolean;
+    requireAuth: boolean;
+    /**
+     * Origins login events may be signed for (baseUrl and allowedOrigins).
+     * When empty, the origin the request was sent to is used.
+     */
+    loginOrigins: string[];
+}
+
+/**
+ * Read a NIP-98 event from an `Authorization: Nostr <base64>` header
+ */
+function parseNostrAuthorization(request: FastifyRequest): unknown {
+    const header = request.headers.authorization;
+    if (!header?.startsWith('Nostr ')) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(Buffer.from(header.slice(6), 'base64').toString('utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+function requestOrigin(request: FastifyRequest): string {
+    return `${request.protocol}://${request.headers.host ?? 'localhost'}`;
+}
+
+export function registerAuthRoutes(
+    fastify: FastifyInstance,
+    config: AuthRouteConfig,
+    preHandler: PreHandlerFull
+): void {
+    const loginOrigins = (request: FastifyRequest): string[] =>
+        config.loginOrigins.length > 0 ? config.loginOrigins : [requestOrigin(request)];
+
+    const startSession = (reply: FastifyReply, result: LoginResult) => {
+        setAuthCookie(reply, signToken(fastify, result.pubkey, result.sessionId), config.secureCookies);
+        const csrfToken = generateCsrfToken();
+        setCsrfCookie(reply, csrfToken, config.secureCookies);
+        const response: LoginResponse = { ok: true, pubkey: result.pubkey, sessionId: result.sessionId, csrfToken };
+        return reply.send(response);
+    };
+
+    // Whether a login is needed and who is logged in (no auth - the login screen needs it)
+    fastify.get('/auth/status', async (request: FastifyRequest, reply: FastifyReply) => {
+        const payload = await verifyToken(fastify, request);
+        const service = getDashboardAuthService();
+        const access = payload ? service.getAccess(payload.pubkey) : null;
+        const response: AuthStatusResponse = {
+            requireAuth: config.requireAuth,
+            authenticated: payload !== null,
+            pubkey: payload?.pubkey ?? null,
+            loginEnabled: service.loginEnabled,
+            role: access?.role ?? null,
+            scopes: access?.scopes ?? [],
+            keyNames: access?.keyNames ?? null,
+        };
+        return reply.send(response);
+    });
+
+    // Issue a one-time login challenge (no auth or CSRF - there's no session yet)
+    fastify.post('/auth/challenge', { preHandler: preHandler.rateLimit }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        return reply.send(getDashboardAuthService().createChallenge());
+    });
+
+    // Log in with a NIP-98 event signed by a NIP-07 extension or NIP-46 bunker
+    fastify.post(LOGIN_PATH, { preHandler: preHandler.rateLimit }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const body = (request.body ?? {}) as LoginRequest;
+        const event = body.event ?? parseNostrAuthorization(request);
+        const method: LoginMethod = body.method === 'nip46' ? 'nip46' : 'nip07';
+
+        try {
+            const result = await getDashboardAuthService().loginWithEvent(
+                event,
+                loginOrigins(request),
+                method,
+                request.headers['user-agent']
+            );
+            return startSession(reply, result);
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Log in by unlocking one of Signet's own keys
+    fastify.post(`${LOGIN_PATH}/key`, { preHandler: preHandler.rateLimit }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const body = (request.body ?? {}) as Partial<KeyLoginRequest>;
+
+        try {
+            const result = await getDashboardAuthService().loginWithKey(
+                body.challenge ?? '',
+                body.keyName ?? '',
+                body.passphrase ?? '',
+                `${loginOrigins(request)[0]}${LOGIN_PATH}`,
+                request.headers['user-agent']
+            );
+            return startSession(reply, result);
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // End the current session (POST - needs CSRF)
+    fastify.post('/auth/logout', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const payload = await verifyToken(fastify, request);
+        if (payload) {
+            try {
+                await getDashboardAuthService().revokeSession(payload.sid);
+            } catch {
+                // Already gone - logging out is still fine
+            }
+        }
+        clearAuthCookie(reply);
+        clearCsrfCookie(reply);
+        return reply.send({ ok: true });
+    });
+
+    // List active sessions (GET - no CSRF needed)
+    fastify.get('/auth/sessions', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const payload = await verifyToken(fastify, request);
+        const sessions = await getDashboardAuthService().listSessions(payload?.sid);
+        return reply.send({ sessions });
+    });
+
+    // Revoke a session (DELETE - needs CSRF)
+    fastify.delete('/auth/sessions/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const payload = await verifyToken(fastify, request);
+            await getDashboardAuthService().revokeSession(id);
+            if (payload?.sid === id) {
+                clearAuthCookie(reply);
+                clearCsrfCookie(reply);
+            }
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
@@ -0,0 +1,141 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { BackupCounts, CreateBackupRequest, RestoreBackupRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getBackupService, getEventService, getScheduledBackupService } from '../../services/index.js';
+import { adminLogRepository } from '../../repositories/admin-log-repository.js';
+import { getClientInfo } from '../../lib/client-info.js';
+import { sendError } from '../../lib/route-errors.js';
+import { toErrorMessage } from '../../lib/errors.js';
+import { validatePassphrase } from '../../lib/validation.js';
+import { archiveFileStamp } from '../../lib/backup-archive.js';
+import { BACKUP_MAX_BYTES } from '../../constants.js';
+
+/**
+ * Short summary for the admin log, e.g. "2 keys, 5 apps, 1 policy"
+ */
+function describeCounts(counts: BackupCounts): string {
+    const parts: Array<[number, string, string]> = [
+        [counts.keys, 'key', 'keys'],
+        [counts.seeds, 'seed', 'seeds'],
+        [counts.apps, 'app', 'apps'],
+        [counts.trustProfiles, 'trust profile', 'trust profiles'],
+        [counts.policies, 'policy', 'policies'],
+        [counts.settings, 'setting', 'settings'],
+        [counts.requests + counts.logs + counts.adminLogs, 'history entry', 'history entries'],
+    ];
+    const summary = parts
+        .filter(([count]) => count > 0)
+        .map(([count, one, many]) => `${count} ${count === 1 ? one : many}`)
+        .join(', ');
+    return summary || 'nothing';
+}
+
+/**
+ * Encrypted backup and restore. Only owners (`adminNpubs`) can call these
+ * routes.
+ */
+export function registerBackupRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerFull
+): void {
+    // Download an encrypted archive of the whole install (POST - needs CSRF)
+    fastify.post('/backup', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const body = (request.body ?? {}) as Partial<CreateBackupRequest>;
+
+        if (!body.passphrase || !body.passphrase.trim()) {
+            return reply.code(400).send({ error: 'passphrase is required' });
+        }
+        const passphraseResult = validatePassphrase(body.passphrase);
+        if (!passphraseResult.valid) {
+            return reply.code(400).send({ error: passphraseResult.error });
+        }
+        if (body.passphrase !== body.confirmPassphrase) {
+            return reply.code(400).send({ error: 'Passphrase confirmation does not match' });
+        }
+
+        try {
+            const { archive, manifest } = await getBackupService().createBackup({
+                passphrase: body.passphrase,
+                includeHistory: body.includeHistory === true,
+            });
+
+            const adminLog = await adminLogRepository.create({
+                eventType: 'backup_created',
+                commandResult: describeCounts(manifest.counts),
+                ...getClientInfo(request),
+            });
+            getEventService().emitAdminEvent(adminLogRepository.toActivityEntry(adminLog));
+
+            const filename = `signet-backup-${archiveFileStamp(manifest.createdAt)}.json`;
+            return reply
+                .header('Content-Type', 'application/json; charset=utf-8')
+                .header('Content-Disposition', `attachment; filename="${filename}"`)
+                .send(archive);
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Restore an archive, or preview the restore with dryRun (POST - needs CSRF)
+    fastify.post('/backup/restore', {
+        bodyLimit: BACKUP_MAX_BYTES,
+        preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf],
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const body = (request.body ?? {}) as Partial<RestoreBackupRequest>;
+
+        if (typeof body.archive !== 'string' || !body.archive.trim()) {
+            return reply.code(400).send({ error: 'archive is required' });
+        }
+        if (!body.passphrase) {
+            return reply.code(400).send({ error: 'passphrase is required' });
+        }
+        if (body.mode !== undefined && body.mode !== 'full' && body.mode !== 'merge') {
+            return reply.code(400).send({ error: 'mode must be "full" or "merge"' });
+        }
+
+        try {
+            const report = await getBackupService().restoreBackup(body.archive, body.passphrase, {
+                mode: body.mode,
+                dryRun: body.dryRun === true,
+            });
+
+            if (!report.dryRun) {
+                const adminLog = await adminLogRepository.create({
+                    eventType: 'backup_restored',
+                    command: report.mode,
+                    commandResult: describeCounts(report.restored),
+                    ...getClientInfo(request),
+                });
+                getEventService().emitAdminEvent(adminLogRepository.toActivityEntry(adminLog));
+                getEventService().emitAppsUpdated();
+            }
+
+            return reply.send(report);
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Status of scheduled snapshots
+    fastify.get('/backup/schedule', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        return reply.send(getScheduledBackupService().getStatus());
+    });
+
+    // Take a scheduled snapshot now instead of waiting for the next one (POST - needs CSRF)
+    fastify.post('/backup/schedule/run', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const service = getScheduledBackupService();
+        if (!service.enabled) {
+            return reply.code(400).send({ error: 'Scheduled backups are not enabled in signet.json' });
+        }
+        if (service.getStatus().running) {
+            return reply.code(409).send({ error: 'A snapshot is already being written' });
+        }
+
+        try {
+            return reply.send(await service.runNow());
+        } catch (error) {
+            // Always a problem on this machine, even when the message says "Invalid"
+            return reply.code(500).send({ error: toErrorMessage(error) });
+        }
+    });
+}
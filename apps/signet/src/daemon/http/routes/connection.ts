@@ -1,15 +1,15 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { RelayStatusResponse, RelayTrustScoreResponse } from '@signet/types';
+import type { RelayHealthResponse, RelayStatusResponse, RelayTrustScoreResponse } from '@signet/types';
 import type { ConnectionManager } from '../../connection-manager.js';
-import type { RelayService } from '../../services/index.js';
-import type { NostrConfig } from '../../../config/types.js';
+import type { KeyService, RelayService } from '../../services/index.js';
 import type { PreHandlerAuthCsrf } from '../types.js';
 import { logger } from '../../lib/logger.js';
+import { sendError } from '../../lib/route-errors.js';
 
 export interface ConnectionRouteConfig {
     connectionManager: ConnectionManager;
-    nostrConfig: NostrConfig;
     relayService: RelayService;
+    keyService: Pick<KeyService, 'getKeyRelays' | 'getRelayKeys'>;
     getTrustScore?: (url: string) => number | null;
     getTrustScoresForRelays?: (urls: string[]) => Promise<Map<string, number | null>>;
 }
@@ -19,6 +19,10 @@ export function registerConnectionRoutes(
     config: ConnectionRouteConfig,
     preHandler: PreHandlerAuthCsrf
 ): void {
+    /**
+     * Admin connection info. nostrRelays lists the shared relays in use
+     * (after any failover). Each key's bunker URI and relays are in GET /keys.
+     */
     fastify.get('/connection', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
         await config.connectionManager.waitUntilReady();
         const info = config.connectionManager.getConnectionInfo();
@@ -33,16 +37,31 @@ export function registerConnectionRoutes(
             npubUri: info.npubUri,
             hexUri: info.hexUri,
             relays: info.relays,
-            nostrRelays: config.nostrConfig.relays,
+            nostrRelays: config.relayService.getRelays(),
         });
     });
 
-    fastify.get('/relays', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
-        const statuses = config.relayService.getStatus();
-        const connected = config.relayService.getConnectedCount();
+    /**
+     * Relay status, with the keys listening on each relay.
+     * With ?key=<name>, only that key's relays are listed and counted.
+     */
+    fastify.get('/relays', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { key } = request.query as { key?: string };
+        const relayKeys = config.keyService.getRelayKeys();
+
+        let statuses = config.relayService.getStatus();
+        if (key) {
+            let keyRelays: string[];
+            try {
+                keyRelays = config.keyService.getKeyRelays(key);
+            } catch (error) {
+                return sendError(reply, error);
+            }
+            statuses = statuses.filter(s => keyRelays.includes(s.url));
+        }
 
         const response: RelayStatusResponse = {
-            connected,
+            connected: statuses.filter(s => s.connected).length,
             total: statuses.length,
             relays: statuses.map(s => ({
                 url: s.url,
@@ -50,12 +69,26 @@ export function registerConnectionRoutes(
                 lastConnected: s.lastConnected?.toISOString() ?? null,
                 lastDisconnected: s.lastDisconnected?.toISOString() ?? null,
                 trustScore: config.getTrustScore?.(s.url) ?? null,
+                auth: s.auth,
+                authSigner: s.authSigner,
+                authError: s.authError,
+                keys: relayKeys.get(s.url) ?? [],
             })),
         };
 
         return reply.send(response);
     });
 
+    /**
+     * Relay health scores and history from Signet's own measurements,
+     * with each relay's failover role.
+     * GET /relays/health
+     */
+    fastify.get('/relays/health', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const response: RelayHealthResponse = config.relayService.getHealthReport();
+        return reply.send(response);
+    });
+
     /**
      * Force reset relay connections.
      * Use when WebSocket connections are silently dead (e.g., after fail2ban/iptables changes).
@@ -1,6 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import type { DashboardService } from '../../services/index.js';
 import type { PreHandlerAuth } from '../types.js';
+import { getVisibleKeys } from '../../lib/access.js';
 
 export interface DashboardRouteConfig {
     dashboardService: DashboardService;
@@ -11,8 +12,8 @@ export function registerDashboardRoutes(
     config: DashboardRouteConfig,
     preHandler: PreHandlerAuth
 ): void {
-    fastify.get('/dashboard', { preHandler }, async (_request: FastifyRequest, reply: FastifyReply) => {
-        const data = await config.dashboardService.getDashboardData();
+    fastify.get('/dashboard', { preHandler }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const data = await config.dashboardService.getDashboardData(getVisibleKeys(request));
         return reply.send(data);
     });
 }
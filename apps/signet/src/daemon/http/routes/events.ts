@@ -2,6 +2,8 @@ import createDebug from 'debug';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import type { EventService, ServerEvent } from '../../services/event-service.js';
 import type { PreHandlerAuth } from '../types.js';
+import prisma from '../../../db.js';
+import { getVisibleKeys, isKeyVisible } from '../../lib/access.js';
 
 const debug = createDebug('signet:sse');
 
@@ -9,6 +11,50 @@ export interface EventsRouteConfig {
     eventService: EventService;
 }
 
+/**
+ * Keys an event is about, or null for events that aren't tied to a key
+ * (stats, relays, health and so on). Events that only carry an ID are
+ * looked up; once the record is gone they count as tied to no visible key.
+ */
+async function getEventKeys(event: ServerEvent): Promise<Array<string | null | undefined> | null> {
+    switch (event.type) {
+        case 'request:created':
+            return [event.request.keyName];
+        case 'request:approved':
+        case 'request:denied':
+        case 'request:auto_approved':
+        case 'admin:event':
+            return [event.activity.keyName];
+        case 'request:expired':
+        case 'request:quorum':
+        case 'request:delivery': {
+            const record = await prisma.request.findUnique({ where: { id: event.requestId }, select: { keyName: true } });
+            return [record?.keyName];
+        }
+        case 'app:connected':
+        case 'app:updated':
+            return [event.app.keyName];
+        case 'app:revoked': {
+            const app = await prisma.keyUser.findUnique({ where: { id: event.appId }, select: { keyName: true } });
+            return [app?.keyName];
+        }
+        case 'app:quota_exceeded':
+        case 'key:unlocked':
+        case 'key:locked':
+        case 'key:deleted':
+        case 'key:updated':
+            return [event.keyName];
+        case 'key:created':
+            return [event.key.name];
+        case 'key:renamed':
+            return [event.oldName, event.newName];
+        case 'log:entry':
+            return [event.entry.data?.key as string | undefined];
+        default:
+            return null;
+    }
+}
+
 /**
  * Register SSE (Server-Sent Events) routes for real-time updates
  */
@@ -38,9 +84,18 @@ export function registerEventsRoutes(
         // Send initial connection event
         reply.raw.write(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
 
+        // Key-limited callers only get events about their keys
+        const visible = getVisibleKeys(request);
+
         // Event callback to send events to client
-        const eventCallback = (event: ServerEvent) => {
+        const eventCallback = async (event: ServerEvent) => {
             try {
+                if (visible) {
+                    const keys = await getEventKeys(event);
+                    if (keys && !keys.some(keyName => isKeyVisible(visible, keyName))) {
+                        return;
+                    }
+                }
                 debug('Sending SSE event: %s', event.type);
                 reply.raw.write(`data: ${JSON.stringify(event)}\n\n`);
             } catch (error) {
@@ -5,8 +5,11 @@ import type { PreHandlerFull } from '../types.js';
 import { sendError } from '../../lib/route-errors.js';
 import { adminLogRepository } from '../../repositories/admin-log-repository.js';
 import { getClientInfo } from '../../lib/client-info.js';
-import { validateKeyName, validatePassphrase, sanitizeString } from '../../lib/validation.js';
-import type { EncryptionFormat } from '@signet/types';
+import { validateKeyName, validatePassphrase, validateRelays, sanitizeString } from '../../lib/validation.js';
+import { validateShareCounts } from '../../lib/shamir.js';
+import type { CreateSeedRequest, EncryptionFormat, RotateKeyRequest, SetKeyRelaysRequest } from '@signet/types';
+import { MAX_ROTATION_REASON_LENGTH } from '../../constants.js';
+import { getVisibleKeys, isKeyVisible } from '../../lib/access.js';
 
 export interface KeysRouteConfig {
     keyService: KeyService;
@@ -18,8 +21,9 @@ export function registerKeysRoutes(
     preHandler: PreHandlerFull
 ): void {
     // List all keys (GET - no CSRF needed)
-    fastify.get('/keys', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
-        const keys = await config.keyService.listKeys();
+    fastify.get('/keys', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const visible = getVisibleKeys(request);
+        const keys = (await config.keyService.listKeys()).filter(key => isKeyVisible(visible, key.name));
         return reply.send({ keys });
     });
 
@@ -30,7 +34,12 @@ export function registerKeysRoutes(
             passphrase?: string;
             confirmPassphrase?: string;
             nsec?: string;
+            shares?: string[];
+            seed?: string;
+            seedPassphrase?: string;
+            derivationIndex?: number;
             encryption?: EncryptionFormat;
+            relays?: string[];
         };
 
         // Validate key name
@@ -53,13 +62,34 @@ export function registerKeysRoutes(
             return reply.code(400).send({ error: 'Invalid encryption format' });
         }
 
+        // Validate the key's own relay set if one was given
+        if (body.relays !== undefined && body.relays.length > 0) {
+            const relaysResult = validateRelays(body.relays);
+            if (!relaysResult.valid) {
+                return reply.code(400).send({ error: relaysResult.error });
+            }
+        }
+
+        if (body.shares !== undefined && (!Array.isArray(body.shares) || body.shares.some((share) => typeof share !== 'string'))) {
+            return reply.code(400).send({ error: 'shares must be an array of strings' });
+        }
+
+        if (body.seed !== undefined && typeof body.seed !== 'string') {
+            return reply.code(400).send({ error: 'seed must be a seed name' });
+        }
+
         try {
             const key = await config.keyService.createKey({
                 keyName: sanitizeString(body.keyName),
                 passphrase: body.passphrase,
                 confirmPassphrase: body.confirmPassphrase,
                 nsec: body.nsec,
+                shares: body.shares,
+                seed: body.seed,
+                seedPassphrase: body.seedPassphrase,
+                derivationIndex: body.derivationIndex,
                 encryption,
+                relays: body.relays,
             });
 
             // Emit stats and health updates (key count changed)
@@ -179,6 +209,31 @@ export function registerKeysRoutes(
         }
     });
 
+    // Set the relays a key listens on (PUT - needs CSRF)
+    fastify.put('/keys/:keyName/relays', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { keyName } = request.params as { keyName: string };
+        const { relays } = (request.body ?? {}) as Partial<SetKeyRelaysRequest>;
+
+        if (!Array.isArray(relays) || relays.some(relay => typeof relay !== 'string')) {
+            return reply.code(400).send({ error: 'relays array is required' });
+        }
+
+        // An empty list returns the key to the shared relays
+        if (relays.length > 0) {
+            const relaysResult = validateRelays(relays);
+            if (!relaysResult.valid) {
+                return reply.code(400).send({ error: relaysResult.error });
+            }
+        }
+
+        try {
+            const effective = await config.keyService.setKeyRelays(keyName, relays);
+            return reply.send({ ok: true, relays: effective, customRelays: relays.length > 0 });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
     // Delete a key (DELETE - needs CSRF)
     fastify.delete('/keys/:keyName', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { keyName } = request.params as { keyName: string };
@@ -234,6 +289,9 @@ export function registerKeysRoutes(
         if (!config.keyService.isKeyActive(keyName)) {
             return reply.code(400).send({ error: 'Key is not active' });
         }
+        if (config.keyService.isKeyRetired(keyName)) {
+            return reply.code(400).send({ error: 'Key is retired' });
+        }
 
         try {
             const tokenService = getConnectionTokenService();
@@ -345,13 +403,23 @@ export function registerKeysRoutes(
         const { keyName } = request.params as { keyName: string };
         const body = request.body as {
             currentPassphrase?: string;
-            format?: 'nip49' | 'nsec';
+            format?: 'nip49' | 'nsec' | 'shamir';
             exportPassphrase?: string;
             confirmExportPassphrase?: string;
+            threshold?: number;
+            shareCount?: number;
         };
 
-        if (!body.format || !['nip49', 'nsec'].includes(body.format)) {
-            return reply.code(400).send({ error: 'format must be "nip49" or "nsec"' });
+        if (!body.format || !['nip49', 'nsec', 'shamir'].includes(body.format)) {
+            return reply.code(400).send({ error: 'format must be "nip49", "nsec" or "shamir"' });
+        }
+
+        // Validate the split for Shamir shares
+        if (body.format === 'shamir') {
+            const countsResult = validateShareCounts(Number(body.threshold), Number(body.shareCount));
+            if (!countsResult.valid) {
+                return reply.code(400).send({ error: countsResult.error });
+            }
         }
 
         // Validate export passphrase if nip49 format
@@ -371,13 +439,23 @@ export function registerKeysRoutes(
         }
 
         try {
-            const result = await config.keyService.exportKey(
-                keyName,
-                body.currentPassphrase,
-                body.format,
-                body.exportPassphrase,
-                body.confirmExportPassphrase
-            );
+            const result = body.format === 'shamir'
+                ? {
+                    format: 'shamir' as const,
+                    ...await config.keyService.exportKeyShares(
+                        keyName,
+                        body.currentPassphrase,
+                        Number(body.threshold),
+                        Number(body.shareCount)
+                    ),
+                }
+                : await config.keyService.exportKey(
+                    keyName,
+                    body.currentPassphrase,
+                    body.format,
+                    body.exportPassphrase,
+                    body.confirmExportPassphrase
+                );
 
             // Log admin event
             const clientInfo = getClientInfo(request);
@@ -406,4 +484,157 @@ export function registerKeysRoutes(
             return sendError(reply, error);
         }
     });
+
+    // Rotate a key to a new successor (POST - needs CSRF + rate limit)
+    fastify.post('/keys/:keyName/rotate', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { keyName } = request.params as { keyName: string };
+        const body = (request.body ?? {}) as Partial<RotateKeyRequest>;
+
+        const successorResult = validateKeyName(body.successorName);
+        if (!successorResult.valid) {
+            return reply.code(400).send({ error: successorResult.error });
+        }
+
+        if (body.passphrase) {
+            const passphraseResult = validatePassphrase(body.passphrase);
+            if (!passphraseResult.valid) {
+                return reply.code(400).send({ error: passphraseResult.error });
+            }
+        }
+
+        const encryption = body.encryption ?? 'none';
+        if (!['none', 'nip49', 'legacy'].includes(encryption)) {
+            return reply.code(400).send({ error: 'Invalid encryption format' });
+        }
+
+        if (body.reason !== undefined && (typeof body.reason !== 'string' || body.reason.length > MAX_ROTATION_REASON_LENGTH)) {
+            return reply.code(400).send({ error: `reason must be a string of at most ${MAX_ROTATION_REASON_LENGTH} characters` });
+        }
+
+        try {
+            const successorName = sanitizeString(body.successorName);
+            const result = await config.keyService.rotateKey(keyName, {
+                successorName,
+                currentPassphrase: body.currentPassphrase,
+                passphrase: body.passphrase,
+                confirmPassphrase: body.confirmPassphrase,
+                encryption,
+                moveApps: body.moveApps,
+                reason: body.reason,
+                announce: body.announce,
+            });
+
+            const adminLog = await adminLogRepository.create({
+                eventType: 'key_rotated',
+                keyName,
+                commandResult: `Replaced by ${successorName}, ${result.movedApps} app${result.movedApps === 1 ? '' : 's'} moved`,
+                ...getClientInfo(request),
+            });
+            getEventService().emitAdminEvent(adminLogRepository.toActivityEntry(adminLog));
+            if (result.movedApps > 0) {
+                getEventService().emitAppsUpdated();
+            }
+
+            // Emit stats and health updates (key count changed)
+            await emitCurrentStats();
+            emitCurrentHealth();
+
+            return reply.send({ ok: true, ...result });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Publish a retired key's migration events again (POST - needs CSRF + rate limit)
+    fastify.post('/keys/:keyName/migration', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { keyName } = request.params as { keyName: string };
+        const body = (request.body ?? {}) as { currentPassphrase?: string; reason?: string; announce?: boolean };
+
+        if (body.reason !== undefined && (typeof body.reason !== 'string' || body.reason.length > MAX_ROTATION_REASON_LENGTH)) {
+            return reply.code(400).send({ error: `reason must be a string of at most ${MAX_ROTATION_REASON_LENGTH} characters` });
+        }
+
+        try {
+            const result = await config.keyService.republishMigration(keyName, body.currentPassphrase, {
+                reason: body.reason,
+                announce: body.announce,
+            });
+            return reply.send({ ok: true, ...result });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // List seeds and the keys derived from each (GET - no CSRF needed)
+    // Key-limited callers only see seeds behind their keys, and only those keys
+    fastify.get('/seeds', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const visible = getVisibleKeys(request);
+        const seeds = (await config.keyService.listSeeds())
+            .map(seed => ({ ...seed, keys: seed.keys.filter(key => isKeyVisible(visible, key.name)) }))
+            .filter(seed => visible === null || seed.keys.length > 0);
+        return reply.send({ seeds });
+    });
+
+    // Store a generated or imported seed (POST - needs CSRF + rate limit)
+    fastify.post('/seeds', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const body = (request.body ?? {}) as Partial<CreateSeedRequest>;
+
+        const seedNameResult = validateKeyName(body.seedName, 'Seed name');
+        if (!seedNameResult.valid) {
+            return reply.code(400).send({ error: seedNameResult.error });
+        }
+
+        if (body.passphrase) {
+            const passphraseResult = validatePassphrase(body.passphrase);
+            if (!passphraseResult.valid) {
+                return reply.code(400).send({ error: passphraseResult.error });
+            }
+        }
+
+        if (body.mnemonic !== undefined && typeof body.mnemonic !== 'string') {
+            return reply.code(400).send({ error: 'mnemonic must be a string' });
+        }
+
+        try {
+            const result = await config.keyService.createSeed({
+                seedName: sanitizeString(body.seedName),
+                mnemonic: body.mnemonic,
+                passphrase: body.passphrase,
+                confirmPassphrase: body.confirmPassphrase,
+            });
+            return reply.send({ ok: true, ...result });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Reveal a seed's mnemonic for backup (POST - needs CSRF + rate limit)
+    fastify.post('/seeds/:seedName/export', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { seedName } = request.params as { seedName: string };
+        const { passphrase } = (request.body ?? {}) as { passphrase?: string };
+
+        try {
+            const mnemonic = await config.keyService.exportSeed(seedName, passphrase);
+
+            const adminLog = await adminLogRepository.create({
+                eventType: 'seed_exported',
+                commandResult: seedName,
+                ...getClientInfo(request),
+            });
+            getEventService().emitAdminEvent(adminLogRepository.toActivityEntry(adminLog));
+
+            return reply.send({ ok: true, mnemonic });
+        } catch (error) {
+            // Log failed auth attempts
+            if (error instanceof Error && error.message.includes('passphrase')) {
+                const adminLog = await adminLogRepository.create({
+                    eventType: 'auth_failed',
+                    commandResult: seedName,
+                    ...getClientInfo(request),
+                });
+                getEventService().emitAdminEvent(adminLogRepository.toActivityEntry(adminLog));
+            }
+            return sendError(reply, error);
+        }
+    });
 }
@@ -2,6 +2,7 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import type { LogLevel, LogsResponse } from '@signet/types';
 import type { PreHandler } from '../types.js';
 import { logBuffer } from '../../lib/log-buffer.js';
+import { getVisibleKeys } from '../../lib/access.js';
 
 interface LogsQueryParams {
     level?: LogLevel;
@@ -23,6 +24,8 @@ export function registerLogsRoutes(
      * - level: Minimum log level (debug, info, warn, error)
      * - search: Text to search for in messages (case-insensitive)
      * - limit: Maximum entries to return (default: 100, max: 1000)
+     *
+     * Key-limited callers only get entries logged for their keys.
      */
     fastify.get('/logs', { preHandler }, async (request: FastifyRequest, reply: FastifyReply) => {
         const query = request.query as LogsQueryParams;
@@ -49,6 +52,7 @@ export function registerLogsRoutes(
             level: query.level,
             search: query.search,
             limit,
+            keyNames: getVisibleKeys(request),
         });
 
         const response: LogsResponse = { logs };
@@ -0,0 +1,20 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { PreHandlerAuth } from '../types.js';
+import { getMetricsService } from '../../services/index.js';
+import { METRICS_CONTENT_TYPES, negotiateMetricsFormat } from '../../lib/metrics.js';
+
+/**
+ * Prometheus scrape endpoint. Scrapers send an API token with the `read`
+ * scope as a bearer token when `requireAuth` is on.
+ */
+export function registerMetricsRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerAuth
+): void {
+    // GET /metrics - OpenMetrics if the scraper asks for it, Prometheus text otherwise
+    fastify.get('/metrics', { preHandler }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const format = negotiateMetricsFormat(request.headers.accept);
+        const body = await getMetricsService().render(format);
+        return reply.type(METRICS_CONTENT_TYPES[format]).send(body);
+    });
+}
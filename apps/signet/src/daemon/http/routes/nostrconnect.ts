@@ -5,7 +5,7 @@ import { sendError } from '../../lib/route-errors.js';
 import prisma from '../../../db.js';
 import { parseNostrconnectUri } from '../../lib/nostrconnect.js';
 import { invalidateAclCache } from '../../lib/acl.js';
-import { emitCurrentStats, getEventService, getNostrconnectService } from '../../services/index.js';
+import { emitCurrentStats, getEventService, getNostrconnectService, getTrustProfileService } from '../../services/index.js';
 import type { AppService } from '../../services/index.js';
 import { adminLogRepository } from '../../repositories/admin-log-repository.js';
 import { getClientInfo } from '../../lib/client-info.js';
@@ -16,6 +16,8 @@ interface NostrconnectRequest {
     uri: string;
     keyName: string;
     trustLevel: TrustLevel;
+    /** Custom trust profile that replaces the trust level */
+    trustProfileId?: number;
     description?: string;
 }
 
@@ -48,6 +50,9 @@ export function registerNostrconnectRoutes(
         if (!body.trustLevel || !['paranoid', 'reasonable', 'full'].includes(body.trustLevel)) {
             return reply.code(400).send({ error: 'trustLevel must be paranoid, reasonable, or full' });
         }
+        if (body.trustProfileId !== undefined && !Number.isInteger(body.trustProfileId)) {
+            return reply.code(400).send({ error: 'Invalid trust profile ID' });
+        }
 
         // Validate optional app name
         const appNameResult = validateAppName(body.description);
@@ -76,6 +81,14 @@ export function registerNostrconnectRoutes(
         const sanitizedDescription = sanitizeString(body.description);
 
         try {
+            if (body.trustProfileId !== undefined) {
+                await getTrustProfileService().requireProfile(body.trustProfileId);
+            }
+
+            // A custom profile decides auto-approval on its own, so it builds on paranoid
+            const trustLevel: TrustLevel = body.trustProfileId !== undefined ? 'paranoid' : body.trustLevel;
+            const trustProfileId = body.trustProfileId ?? null;
+
             // Check if already connected to this app
             const existing = await prisma.keyUser.findUnique({
                 where: {
@@ -108,14 +121,16 @@ export function registerNostrconnectRoutes(
                     suspendUntil: null,
                     description: sanitizedDescription || null,
                     nostrconnectRelays: JSON.stringify(relays),
-                    trustLevel: body.trustLevel,
+                    trustLevel,
+                    trustProfileId,
                 },
                 create: {
                     keyName: body.keyName,
                     userPubkey: clientPubkey,
                     description: sanitizedDescription || null,
                     nostrconnectRelays: JSON.stringify(relays),
-                    trustLevel: body.trustLevel,
+                    trustLevel,
+                    trustProfileId,
                 },
             });
 
@@ -0,0 +1,68 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateOperatorRequest, UpdateOperatorRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getOperatorService } from '../../services/index.js';
+import { sendError } from '../../lib/route-errors.js';
+
+function parseOperatorId(reply: FastifyReply, id: string): number | null {
+    const parsed = Number(id);
+    if (!Number.isInteger(parsed)) {
+        reply.code(400).send({ error: 'Invalid operator ID' });
+        return null;
+    }
+    return parsed;
+}
+
+/**
+ * Operator management. Only owners (`adminNpubs`) can call these routes.
+ */
+export function registerOperatorsRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerFull
+): void {
+    // List operators (GET - no CSRF needed)
+    fastify.get('/operators', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const operators = await getOperatorService().listOperators();
+        return reply.send({ operators });
+    });
+
+    // Add an operator (POST - needs CSRF)
+    fastify.post('/operators', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const operator = await getOperatorService().createOperator(request.body as CreateOperatorRequest);
+            return reply.send({ ok: true, operator });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Change an operator's role or keys (PATCH - needs CSRF)
+    fastify.patch('/operators/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const operatorId = parseOperatorId(reply, (request.params as { id: string }).id);
+        if (operatorId === null) {
+            return reply;
+        }
+
+        try {
+            const operator = await getOperatorService().updateOperator(operatorId, request.body as UpdateOperatorRequest);
+            return reply.send({ ok: true, operator });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Remove an operator and end their sessions (DELETE - needs CSRF)
+    fastify.delete('/operators/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const operatorId = parseOperatorId(reply, (request.params as { id: string }).id);
+        if (operatorId === null) {
+            return reply;
+        }
+
+        try {
+            await getOperatorService().deleteOperator(operatorId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
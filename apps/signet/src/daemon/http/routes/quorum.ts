@@ -0,0 +1,117 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateApproverRequest, CreateQuorumRuleRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getDashboardAuthService, getQuorumService } from '../../services/index.js';
+import { clearApproverCookie, getApproverIdentity, setApproverCookie } from '../../lib/auth.js';
+import { sendError } from '../../lib/route-errors.js';
+
+export interface QuorumRouteConfig {
+    /** Whether cookies should be marked secure (HTTPS) */
+    secureCookies: boolean;
+}
+
+function parseId(reply: FastifyReply, id: string, label: string): number | null {
+    const parsed = Number(id);
+    if (!Number.isInteger(parsed)) {
+        reply.code(400).send({ error: `Invalid ${label} ID` });
+        return null;
+    }
+    return parsed;
+}
+
+export function registerQuorumRoutes(
+    fastify: FastifyInstance,
+    config: QuorumRouteConfig,
+    preHandler: PreHandlerFull
+): void {
+    // List approvers and quorum rules (GET - no CSRF needed)
+    fastify.get('/quorum', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const service = getQuorumService();
+        const approver = await service.resolveApprover(await getApproverIdentity(fastify, request));
+        return reply.send(await service.listQuorum(approver?.id ?? null));
+    });
+
+    // Add an approver (POST - needs CSRF)
+    fastify.post('/quorum/approvers', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const approver = await getQuorumService().createApprover(request.body as CreateApproverRequest);
+            return reply.send({ ok: true, approver });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Remove an approver (DELETE - needs CSRF)
+    fastify.delete('/quorum/approvers/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const approverId = parseId(reply, (request.params as { id: string }).id, 'approver');
+        if (approverId === null) {
+            return reply;
+        }
+
+        try {
+            await getQuorumService().deleteApprover(approverId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Approve as this approver from the calling browser (POST - needs CSRF)
+    fastify.post('/quorum/approvers/:id/session', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const approverId = parseId(reply, (request.params as { id: string }).id, 'approver');
+        if (approverId === null) {
+            return reply;
+        }
+
+        // Only a logged-in owner may bind approvers, even with auth off
+        const identity = await getApproverIdentity(fastify, request);
+        if (!identity.pubkey || !getDashboardAuthService().isAdmin(identity.pubkey)) {
+            return reply.code(403).send({ error: 'Only a logged-in owner can bind an approver to this browser' });
+        }
+
+        try {
+            const token = await getQuorumService().claimSession(approverId, identity);
+            setApproverCookie(reply, token, config.secureCookies);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Stop approving from the calling browser (DELETE - needs CSRF)
+    fastify.delete('/quorum/session', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const service = getQuorumService();
+        const { sessionToken } = await getApproverIdentity(fastify, request);
+        const approver = await service.resolveApprover({ sessionToken });
+        if (approver) {
+            await service.releaseSession(approver.id);
+        }
+        clearApproverCookie(reply);
+        return reply.send({ ok: true });
+    });
+
+    // Add a quorum rule (POST - needs CSRF)
+    fastify.post('/quorum/rules', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const rule = await getQuorumService().createRule(request.body as CreateQuorumRuleRequest);
+            return reply.send({ ok: true, rule });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Remove a quorum rule (DELETE - needs CSRF)
+    fastify.delete('/quorum/rules/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const ruleId = parseId(reply, (request.params as { id: string }).id, 'quorum rule');
+        if (ruleId === null) {
+            return reply;
+        }
+
+        try {
+            await getQuorumService().deleteRule(ruleId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
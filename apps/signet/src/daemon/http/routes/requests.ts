@@ -1,14 +1,18 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import type { RequestService, AppService } from '../../services/index.js';
-import { emitCurrentStats } from '../../services/index.js';
+import { emitCurrentStats, getQuorumService, getTrustProfileService } from '../../services/index.js';
 import type { TrustLevel, ActivityEntry } from '@signet/types';
 import type { PreHandlerFull, RequestWithId, ProcessRequestRequest } from '../types.js';
 import prisma from '../../../db.js';
 import { grantPermissionsByTrustLevel, permitAllRequests, type AllowScope } from '../../lib/acl.js';
 import { getEventService } from '../../services/event-service.js';
 import { adminLogRepository } from '../../repositories/admin-log-repository.js';
+import { requestRepository } from '../../repositories/request-repository.js';
 import { extractEventKind } from '../../lib/parse.js';
 import { toErrorMessage } from '../../lib/errors.js';
+import { sendError } from '../../lib/route-errors.js';
+import { getApproverIdentity } from '../../lib/auth.js';
+import { getVisibleKeys } from '../../lib/access.js';
 import {
     authorizeRequestWebHandler,
     processRequestWebHandler,
@@ -17,6 +21,7 @@ import {
 interface BatchApprovalBody {
     ids: string[];
     trustLevel?: TrustLevel;
+    trustProfileId?: number;
     alwaysAllow?: boolean;
     allowKind?: number;
 }
@@ -24,6 +29,8 @@ interface BatchApprovalBody {
 interface BatchResult {
     id: string;
     success: boolean;
+    /** Approval recorded, but the request still waits for more approvers */
+    pending?: boolean;
     error?: string;
 }
 
@@ -54,10 +61,11 @@ export function registerRequestRoutes(
             : 0;
 
         const status = query.status || 'pending';
+        const keyNames = getVisibleKeys(request);
 
         // Handle admin filter specially - return admin activity logs only
         if (status === 'admin') {
-            const adminLogs = await adminLogRepository.findAll({ limit, offset });
+            const adminLogs = await adminLogRepository.findAll({ limit, offset, keyNames });
             const activity = adminLogs.map(log => adminLogRepository.toActivityEntry(log));
             return reply.send({ requests: activity });
         }
@@ -68,14 +76,14 @@ export function registerRequestRoutes(
 
             if (excludeAdmin) {
                 // Return only NIP-46 requests (for clients that handle admin separately)
-                const requests = await config.requestService.listRequests({ status, limit, offset });
+                const requests = await config.requestService.listRequests({ status, limit, offset, keyNames });
                 return reply.send({ requests });
             }
 
             // Fetch both types
             const [requests, adminLogs] = await Promise.all([
-                config.requestService.listRequests({ status, limit, offset }),
-                adminLogRepository.findAll({ limit, offset }),
+                config.requestService.listRequests({ status, limit, offset, keyNames }),
+                adminLogRepository.findAll({ limit, offset, keyNames }),
             ]);
 
             // Convert admin logs to activity entries
@@ -94,90 +102,31 @@ export function registerRequestRoutes(
             return reply.send({ requests: limited });
         }
 
-        const requests = await config.requestService.listRequests({ status, limit, offset });
+        const requests = await config.requestService.listRequests({ status, limit, offset, keyNames });
         return reply.send({ requests });
     });
 
     // Web authorization page (HTML)
-    fastify.get('/requests/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    fastify.get('/requests/:id', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
         return authorizeRequestWebHandler(request as RequestWithId, reply);
     });
 
-    // Process request approval (API)
-    fastify.post('/requests/:id', { preHandler: preHandler.rateLimit }, async (request: FastifyRequest, reply: FastifyReply) => {
-        return processRequestWebHandler(request as ProcessRequestRequest, reply);
+    // Process request approval (API; no CSRF so the HTML form can post)
+    fastify.post('/requests/:id', { preHandler: [...preHandler.rateLimit, ...preHandler.auth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        return processRequestWebHandler(request as ProcessRequestRequest, reply, config.requestService);
     });
 
     // Deny request (DELETE - needs CSRF)
     fastify.delete('/requests/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { id } = request.params as { id: string };
 
-        const record = await prisma.request.findUnique({ where: { id } });
-
-        if (!record) {
-            return reply.code(404).send({ error: 'Request not found' });
-        }
-
-        if (record.allowed !== null) {
-            return reply.code(400).send({ error: 'Request already processed' });
-        }
-
-        await prisma.request.update({
-            where: { id },
-            data: {
-                allowed: false,
-                processedAt: new Date(),
-            },
-        });
-
-        // Log the denial (no KeyUser created for denied apps)
-        let logId = 0;
-        if (record.keyName) {
-            const log = await prisma.log.create({
-                data: {
-                    timestamp: new Date(),
-                    type: 'denial',
-                    method: record.method,
-                    params: record.params,
-                    keyName: record.keyName,
-                    remotePubkey: record.remotePubkey,
-                },
-            });
-            logId = log.id;
-        }
-
-        // Look up app name from KeyUser if the app was already connected
-        let appName: string | undefined;
-        if (record.keyName && record.remotePubkey) {
-            const keyUser = await prisma.keyUser.findFirst({
-                where: {
-                    keyName: record.keyName,
-                    userPubkey: record.remotePubkey,
-                },
-                select: { description: true },
-            });
-            appName = keyUser?.description ?? undefined;
+        try {
+            await config.requestService.denyPendingRequest(id);
+        } catch (error) {
+            const message = toErrorMessage(error);
+            return reply.code(message === 'Request not found' ? 404 : 400).send({ error: message });
         }
 
-        // Build activity entry for SSE
-        const activity: ActivityEntry = {
-            id: logId,
-            timestamp: new Date().toISOString(),
-            type: 'denial',
-            method: record.method ?? undefined,
-            eventKind: record.method === 'sign_event' ? extractEventKind(record.params) : undefined,
-            keyName: record.keyName ?? undefined,
-            userPubkey: record.remotePubkey ?? undefined,
-            appName,
-            autoApproved: false,
-            approvalType: undefined,
-        };
-
-        getEventService().emitRequestDenied(id, activity);
-
-        // Emit stats update (pending count changed)
-        await emitCurrentStats();
-
         return reply.send({ ok: true });
     });
 
@@ -195,9 +144,21 @@ export function registerRequestRoutes(
         }
 
         const trustLevel: TrustLevel = body.trustLevel || 'reasonable';
+        const trustProfileId = body.trustProfileId;
+        if (trustProfileId !== undefined) {
+            if (!Number.isInteger(trustProfileId)) {
+                return reply.code(400).send({ error: 'Invalid trust profile ID' });
+            }
+            try {
+                await getTrustProfileService().requireProfile(trustProfileId);
+            } catch (error) {
+                return sendError(reply, error);
+            }
+        }
         const alwaysAllow = body.alwaysAllow === true;
         const allowKind = typeof body.allowKind === 'number' ? body.allowKind : undefined;
         const eventService = getEventService();
+        const approverIdentity = await getApproverIdentity(fastify, request);
         const results: BatchResult[] = [];
 
         for (const id of body.ids) {
@@ -215,16 +176,23 @@ export function registerRequestRoutes(
                     continue;
                 }
 
+                // Quorum requests only resolve once enough distinct approvers have approved
+                if (record.quorumThreshold !== null) {
+                    const { quorum, met } = await getQuorumService().recordApproval(
+                        record.id,
+                        record.quorumThreshold,
+                        approverIdentity
+                    );
+                    if (!met) {
+                        eventService.emitRequestQuorum(record.id, quorum);
+                        results.push({ id, success: true, pending: true });
+                        continue;
+                    }
+                }
+
                 // Approve the request
                 const processedAt = new Date();
-                await prisma.request.update({
-                    where: { id: record.id },
-                    data: {
-                        allowed: true,
-                        processedAt,
-                        approvalType: 'manual',
-                    },
-                });
+                await requestRepository.approve(record.id);
 
                 // Grant permissions based on request type (only if keyName is present)
                 if (record.keyName) {
@@ -233,7 +201,8 @@ export function registerRequestRoutes(
                             record.remotePubkey,
                             record.keyName,
                             trustLevel,
-                            undefined
+                            undefined,
+                            trustProfileId
                         );
 
                         // Emit app:connected event
@@ -278,6 +247,7 @@ export function registerRequestRoutes(
                             params: record.params,
                             keyUserId: keyUser.id,
                             approvalType: 'manual',
+                            requestId: record.id,
                         },
                     });
                     logId = log.id;
@@ -295,6 +265,7 @@ export function registerRequestRoutes(
                     appName,
                     autoApproved: false,
                     approvalType: 'manual',
+                    requestId: record.id,
                 };
 
                 // Emit approval event
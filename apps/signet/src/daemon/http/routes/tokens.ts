@@ -1,101 +1,66 @@
-import crypto from 'crypto';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreatePolicyTokenRequest } from '@signet/types';
 import type { PreHandlerFull } from '../types.js';
-import prisma from '../../../db.js';
+import type { KeyService } from '../../services/index.js';
+import { getPolicyService } from '../../services/index.js';
+import { sendError } from '../../lib/route-errors.js';
+import { getVisibleKeys, isKeyVisible } from '../../lib/access.js';
+
+export interface TokensRouteConfig {
+    keyService: KeyService;
+}
 
 export function registerTokensRoutes(
     fastify: FastifyInstance,
+    config: TokensRouteConfig,
     preHandler: PreHandlerFull
 ): void {
     // List all tokens (GET - no CSRF needed)
     fastify.get('/tokens', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { keyName } = request.query as { keyName?: string };
-
-        const tokens = await prisma.token.findMany({
-            where: keyName ? { keyName } : undefined,
-            include: {
-                policy: { include: { rules: true } },
-                KeyUser: true,
-            },
-            orderBy: { createdAt: 'desc' },
-        });
-
-        const payload = tokens.map((token) => ({
-            id: token.id,
-            keyName: token.keyName,
-            clientName: token.clientName,
-            token: token.token,
-            policyId: token.policyId,
-            policyName: token.policy?.name,
-            createdAt: token.createdAt.toISOString(),
-            expiresAt: token.expiresAt?.toISOString() ?? null,
-            redeemedAt: token.redeemedAt?.toISOString() ?? null,
-            redeemedBy: token.KeyUser?.description ?? null,
-        }));
-
-        return reply.send({ tokens: payload });
+        const visible = getVisibleKeys(request);
+        const tokens = (await getPolicyService().listTokens(keyName)).filter(token => isKeyVisible(visible, token.keyName));
+        return reply.send({ tokens });
     });
 
-    // Create a new token (POST - needs CSRF)
+    // Mint a new token tied to a policy (POST - needs CSRF)
     fastify.post('/tokens', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
-        const body = request.body as {
-            keyName?: string;
-            clientName?: string;
-            policyId?: number;
-            expiresInHours?: number;
-        };
+        const body = request.body as CreatePolicyTokenRequest;
 
-        if (!body.keyName || !body.clientName || !body.policyId) {
-            return reply.code(400).send({
-                error: 'keyName, clientName, and policyId are required',
-            });
-        }
+        try {
+            const created = await getPolicyService().createToken(body);
 
-        const policy = await prisma.policy.findUnique({
-            where: { id: body.policyId },
-        });
+            // The bunker URI needs the key's pubkey, so it's only available while the key is unlocked
+            const bunkerUri = config.keyService.buildBunkerUriWithToken(body.keyName, created.token);
 
-        if (!policy) {
-            return reply.code(404).send({ error: 'Policy not found' });
+            return reply.send({
+                ok: true,
+                token: {
+                    id: created.id,
+                    token: created.token,
+                    expiresAt: created.expiresAt?.toISOString() ?? null,
+                },
+                bunkerUri,
+            });
+        } catch (error) {
+            return sendError(reply, error);
         }
-
-        const token = crypto.randomBytes(32).toString('hex');
-        const expiresAt = body.expiresInHours
-            ? new Date(Date.now() + body.expiresInHours * 60 * 60 * 1000)
-            : undefined;
-
-        const created = await prisma.token.create({
-            data: {
-                keyName: body.keyName,
-                clientName: body.clientName,
-                createdBy: 'web-admin',
-                token,
-                policyId: policy.id,
-                expiresAt,
-            },
-        });
-
-        return reply.send({
-            ok: true,
-            token: {
-                id: created.id,
-                token: created.token,
-                expiresAt: created.expiresAt?.toISOString() ?? null,
-            },
-        });
     });
 
     // Delete a token (DELETE - needs CSRF)
     fastify.delete('/tokens/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { id } = request.params as { id: string };
+        const tokenId = Number(id);
+
+        if (!Number.isInteger(tokenId)) {
+            return reply.code(400).send({ error: 'Invalid token ID' });
+        }
 
         try {
-            await prisma.token.delete({
-                where: { id: parseInt(id, 10) },
-            });
+            await getPolicyService().deleteToken(tokenId);
             return reply.send({ ok: true });
         } catch (error) {
-            return reply.code(404).send({ error: 'Token not found' });
+            return sendError(reply, error);
         }
     });
 }
@@ -0,0 +1,77 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { SaveTrustProfileRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getTrustProfileService } from '../../services/index.js';
+import { sendError } from '../../lib/route-errors.js';
+import { VALID_TRUST_LEVELS } from '../../constants.js';
+
+/**
+ * Parse a profile id from the URL. Built-in trust levels are addressed by
+ * name and can't be changed.
+ */
+function parseProfileId(reply: FastifyReply, id: string): number | null {
+    if ((VALID_TRUST_LEVELS as readonly string[]).includes(id)) {
+        reply.code(400).send({ error: 'Built-in trust profiles are read-only' });
+        return null;
+    }
+
+    const profileId = Number(id);
+    if (!Number.isInteger(profileId)) {
+        reply.code(400).send({ error: 'Invalid trust profile ID' });
+        return null;
+    }
+    return profileId;
+}
+
+export function registerTrustProfilesRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerFull
+): void {
+    // List built-in and custom trust profiles (GET - no CSRF needed)
+    fastify.get('/trust-profiles', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const profiles = await getTrustProfileService().listProfiles();
+        return reply.send(profiles);
+    });
+
+    // Create a custom trust profile (POST - needs CSRF)
+    fastify.post('/trust-profiles', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const profile = await getTrustProfileService().createProfile(request.body as SaveTrustProfileRequest);
+            return reply.send({ ok: true, profile });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Replace a custom trust profile (PUT - needs CSRF)
+    fastify.put('/trust-profiles/:id', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { id } = request.params as { id: string };
+        const profileId = parseProfileId(reply, id);
+        if (profileId === null) {
+            return reply;
+        }
+
+        try {
+            const profile = await getTrustProfileService().updateProfile(profileId, request.body as SaveTrustProfileRequest);
+            return reply.send({ ok: true, profile });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Delete a custom trust profile; its apps fall back to paranoid (DELETE - needs CSRF)
+    fastify.delete('/trust-profiles/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { id } = request.params as { id: string };
+        const profileId = parseProfileId(reply, id);
+        if (profileId === null) {
+            return reply;
+        }
+
+        try {
+            await getTrustProfileService().deleteProfile(profileId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
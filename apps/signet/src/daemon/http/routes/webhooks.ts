@@ -0,0 +1,98 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CreateWebhookRequest, UpdateWebhookRequest } from '@signet/types';
+import type { PreHandlerFull } from '../types.js';
+import { getWebhookService } from '../../services/index.js';
+import { sendError } from '../../lib/route-errors.js';
+
+function parseWebhookId(reply: FastifyReply, id: string): number | null {
+    const parsed = Number(id);
+    if (!Number.isInteger(parsed)) {
+        reply.code(400).send({ error: 'Invalid webhook ID' });
+        return null;
+    }
+    return parsed;
+}
+
+/**
+ * Webhook management. Only owners (`adminNpubs`) can call these routes.
+ */
+export function registerWebhooksRoutes(
+    fastify: FastifyInstance,
+    preHandler: PreHandlerFull
+): void {
+    // List webhooks, without their secrets (GET - no CSRF needed)
+    fastify.get('/webhooks', { preHandler: preHandler.auth }, async (_request: FastifyRequest, reply: FastifyReply) => {
+        const webhooks = await getWebhookService().listWebhooks();
+        return reply.send({ webhooks });
+    });
+
+    // Create a webhook; the signing secret is only returned here (POST - needs CSRF)
+    fastify.post('/webhooks', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { webhook, secret } = await getWebhookService().createWebhook(request.body as CreateWebhookRequest);
+            return reply.send({ ok: true, webhook, secret });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Change a webhook's URL, events or enabled flag (PATCH - needs CSRF)
+    fastify.patch('/webhooks/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const webhookId = parseWebhookId(reply, (request.params as { id: string }).id);
+        if (webhookId === null) {
+            return reply;
+        }
+
+        try {
+            const webhook = await getWebhookService().updateWebhook(webhookId, request.body as UpdateWebhookRequest);
+            return reply.send({ ok: true, webhook });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Delete a webhook and its delivery log (DELETE - needs CSRF)
+    fastify.delete('/webhooks/:id', { preHandler: [...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const webhookId = parseWebhookId(reply, (request.params as { id: string }).id);
+        if (webhookId === null) {
+            return reply;
+        }
+
+        try {
+            await getWebhookService().deleteWebhook(webhookId);
+            return reply.send({ ok: true });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Recent deliveries, newest first (GET - no CSRF needed)
+    fastify.get('/webhooks/:id/deliveries', { preHandler: preHandler.auth }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const webhookId = parseWebhookId(reply, (request.params as { id: string }).id);
+        if (webhookId === null) {
+            return reply;
+        }
+
+        try {
+            const deliveries = await getWebhookService().listDeliveries(webhookId);
+            return reply.send({ deliveries });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+
+    // Send a test event and wait for the first attempt (POST - needs CSRF)
+    fastify.post('/webhooks/:id/test', { preHandler: [...preHandler.rateLimit, ...preHandler.auth, ...preHandler.csrf] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const webhookId = parseWebhookId(reply, (request.params as { id: string }).id);
+        if (webhookId === null) {
+            return reply;
+        }
+
+        try {
+            const delivery = await getWebhookService().sendTest(webhookId);
+            return reply.send({ ok: true, delivery });
+        } catch (error) {
+            return sendError(reply, error);
+        }
+    });
+}
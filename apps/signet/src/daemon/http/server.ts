@@ -9,9 +9,13 @@ import {
     createCsrfMiddleware,
     generateCsrfToken,
     setCsrfCookie,
+    setSessionValidator,
+    setApiTokenAuthorizer,
+    setSessionAuthorizer,
     isAllowedOrigin,
 } from '../lib/auth.js';
 import { logger } from '../lib/logger.js';
+import { getRouteContext } from '../lib/access.js';
 import { registerConnectionRoutes, type ConnectionRouteConfig } from './routes/connection.js';
 import { registerRequestRoutes, type RequestsRouteConfig } from './routes/requests.js';
 import { registerKeysRoutes, type KeysRouteConfig } from './routes/keys.js';
@@ -19,14 +23,23 @@ import { registerAppsRoutes, type AppsRouteConfig } from './routes/apps.js';
 import { registerDashboardRoutes, type DashboardRouteConfig } from './routes/dashboard.js';
 import { registerTokensRoutes } from './routes/tokens.js';
 import { registerPoliciesRoutes } from './routes/policies.js';
+import { registerTrustProfilesRoutes } from './routes/trust-profiles.js';
+import { registerQuorumRoutes } from './routes/quorum.js';
 import { registerEventsRoutes } from './routes/events.js';
 import { registerNostrconnectRoutes } from './routes/nostrconnect.js';
 import { registerDeadManSwitchRoutes } from './routes/dead-man-switch.js';
 import { registerLogsRoutes } from './routes/logs.js';
 import { registerSystemRoutes } from './routes/system.js';
+import { registerMetricsRoutes } from './routes/metrics.js';
+import { registerAuthRoutes } from './routes/auth.js';
+import { registerApiTokensRoutes } from './routes/api-tokens.js';
+import { registerOperatorsRoutes } from './routes/operators.js';
+import { registerWebhooksRoutes } from './routes/webhooks.js';
+import { registerBackupRoutes } from './routes/backup.js';
+import { getApiTokenService, getDashboardAuthService } from '../services/index.js';
 import type { KeyService, RequestService, AppService, DashboardService, EventService, RelayService } from '../services/index.js';
 import type { ConnectionManager } from '../connection-manager.js';
-import type { NostrConfig } from '../../config/types.js';
+import type { ScheduledBackupStatus } from '@signet/types';
 
 export interface HealthStatus {
     status: 'ok' | 'degraded';
@@ -39,6 +52,7 @@ export interface HealthStatus {
     lastPoolReset: string | null;
     caches?: Record<string, { size: number; hits: number; misses: number; evictions: number }>;
     logBuffer?: { entries: number; maxEntries: number; estimatedKB: number };
+    backups?: ScheduledBackupStatus;
 }
 
 export interface HttpServerConfig {
@@ -49,7 +63,6 @@ export interface HttpServerConfig {
     allowedOrigins: string[];
     requireAuth: boolean;
     connectionManager: ConnectionManager;
-    nostrConfig: NostrConfig;
     keyService: KeyService;
     requestService: RequestService;
     appService: AppService;
@@ -130,6 +143,15 @@ export class HttpServer {
     }
 
     private async setupRoutes(): Promise<void> {
+        // Tokens are only honoured while their dashboard session is active
+        setSessionValidator((sessionId, pubkey) => getDashboardAuthService().isSessionActive(sessionId, pubkey));
+
+        // Operators are held to their role on every route
+        setSessionAuthorizer((pubkey, request) => getDashboardAuthService().authorize(pubkey, getRouteContext(request)));
+
+        // API tokens are checked against the scope and keys of the route they call
+        setApiTokenAuthorizer((token, request) => getApiTokenService().authorize(token, getRouteContext(request)));
+
         const authMiddleware = createAuthMiddleware(this.fastify, this.config.requireAuth);
         const csrfMiddleware = createCsrfMiddleware();
         const rateLimitAuth = createRateLimitMiddleware('auth');
@@ -154,11 +176,50 @@ export class HttpServer {
             return reply.send({ token });
         });
 
+        // Dashboard login routes (login endpoints are rate-limited, not CSRF-protected)
+        registerAuthRoutes(this.fastify, {
+            secureCookies: useSecureCookies,
+            requireAuth: this.config.requireAuth,
+            loginOrigins: this.getLoginOrigins(),
+        }, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
+        // API token management (dashboard sessions only)
+        registerApiTokensRoutes(this.fastify, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
+        // Operator management (owners only)
+        registerOperatorsRoutes(this.fastify, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
+        // Webhook management (owners only)
+        registerWebhooksRoutes(this.fastify, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
+        // Encrypted backup and restore (owners only, rate-limited like key routes)
+        registerBackupRoutes(this.fastify, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitKeys],
+        });
+
         // Connection routes (POST /connections/refresh needs CSRF)
         registerConnectionRoutes(this.fastify, {
             connectionManager: this.config.connectionManager,
-            nostrConfig: this.config.nostrConfig,
             relayService: this.config.relayService,
+            keyService: this.config.keyService,
             getTrustScore: this.config.getTrustScore,
             getTrustScoresForRelays: this.config.getTrustScoresForRelays,
         }, { auth: [authMiddleware], csrf: [csrfMiddleware] });
@@ -197,6 +258,8 @@ export class HttpServer {
 
         // Token routes (state-changing, needs CSRF)
         registerTokensRoutes(this.fastify, {
+            keyService: this.config.keyService,
+        }, {
             auth: [authMiddleware],
             csrf: [csrfMiddleware],
             rateLimit: [rateLimitAuth],
@@ -209,6 +272,22 @@ export class HttpServer {
             rateLimit: [rateLimitAuth],
         });
 
+        // Trust profile routes (state-changing, needs CSRF)
+        registerTrustProfilesRoutes(this.fastify, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
+        // Approval quorum routes (state-changing, needs CSRF)
+        registerQuorumRoutes(this.fastify, {
+            secureCookies: useSecureCookies,
+        }, {
+            auth: [authMiddleware],
+            csrf: [csrfMiddleware],
+            rateLimit: [rateLimitAuth],
+        });
+
         // Events routes (SSE, GET only, no CSRF needed)
         registerEventsRoutes(this.fastify, {
             eventService: this.config.eventService,
@@ -233,6 +312,9 @@ export class HttpServer {
         // Logs routes (GET only, no CSRF needed)
         registerLogsRoutes(this.fastify, [authMiddleware]);
 
+        // Prometheus metrics (GET only, no CSRF needed)
+        registerMetricsRoutes(this.fastify, [authMiddleware]);
+
         // System routes
         registerSystemRoutes(this.fastify, {
             auth: [authMiddleware],
@@ -240,6 +322,25 @@ export class HttpServer {
         });
     }
 
+    /**
+     * Origins the dashboard is served from: baseUrl plus any explicit
+     * allowedOrigins (a wildcard says nothing about where the UI lives)
+     */
+    private getLoginOrigins(): string[] {
+        const origins = new Set<string>();
+        for (const url of [this.config.baseUrl, ...this.config.allowedOrigins]) {
+            if (!url || url === '*') {
+                continue;
+            }
+            try {
+                origins.add(new URL(url).origin);
+            } catch {
+                // Not a URL (an invalid baseUrl is reported at startup)
+            }
+        }
+        return [...origins];
+    }
+
     private async listen(): Promise<void> {
         await this.fastify.listen({
             port: this.config.port,
@@ -5,6 +5,7 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
  */
 export interface JwtUserPayload {
     pubkey: string;
+    sid: string;
     iat?: number;
     exp?: number;
 }
@@ -29,6 +30,7 @@ export interface RequestWithId extends FastifyRequest {
  */
 export interface ProcessRequestBody {
     trustLevel?: string;
+    trustProfileId?: number;
     alwaysAllow?: boolean;
     allowKind?: number;
     appName?: string;
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkRouteAccess, hasKeyAccess, requiredScope, resolveTargetKeys, type AccessGrant } from '../access.js';
+
+vi.mock('../../../db.js', () => ({
+    default: {
+        request: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+        },
+        keyUser: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+function grant(scopes: AccessGrant['scopes'], keyNames: string[] | null = null): AccessGrant {
+    return { scopes, keyNames };
+}
+
+describe('requiredScope', () => {
+    it('should need read for GET requests', () => {
+        expect(requiredScope('GET', '/dashboard')).toBe('read');
+        expect(requiredScope('get', '/keys')).toBe('read');
+    });
+
+    it('should map changes to the scope of their area', () => {
+        expect(requiredScope('POST', '/requests/batch')).toBe('requests');
+        expect(requiredScope('POST', '/requests/:id')).toBe('requests');
+        expect(requiredScope('DELETE', '/requests/:id')).toBe('requests');
+        expect(requiredScope('POST', '/apps/:id/revoke')).toBe('apps');
+        expect(requiredScope('POST', '/nostrconnect')).toBe('apps');
+        expect(requiredScope('POST', '/keys/:keyName/lock')).toBe('keys');
+    });
+
+    it('should leave management and unmapped endpoints to owners', () => {
+        expect(requiredScope('GET', '/api-tokens')).toBeNull();
+        expect(requiredScope('DELETE', '/api-tokens/:id')).toBeNull();
+        expect(requiredScope('GET', '/operators')).toBeNull();
+        expect(requiredScope('POST', '/webhooks/:id/test')).toBeNull();
+        expect(requiredScope('POST', '/backup/restore')).toBeNull();
+        expect(requiredScope('POST', '/seeds/:seedName/export')).toBeNull();
+        expect(requiredScope('GET', '/auth/sessions')).toBeNull();
+        expect(requiredScope('POST', '/policies')).toBeNull();
+        expect(requiredScope('PUT', '/dead-man-switch')).toBeNull();
+    });
+
+    it('should let anyone signed in log out', () => {
+        expect(requiredScope('POST', '/auth/logout')).toBe('any');
+    });
+
+    it('should not match prefixes inside other words', () => {
+        expect(requiredScope('POST', '/keysets')).toBeNull();
+    });
+});
+
+describe('hasKeyAccess', () => {
+    it('should let unlimited grants act on anything', () => {
+        expect(hasKeyAccess(grant(['read']), ['main'])).toBe(true);
+        expect(hasKeyAccess(grant(['read']), 'all')).toBe(true);
+    });
+
+    it('should limit restricted grants to their keys', () => {
+        const restricted = grant(['read'], ['main']);
+        expect(hasKeyAccess(restricted, ['main'])).toBe(true);
+        expect(hasKeyAccess(restricted, ['main', 'alt'])).toBe(false);
+        expect(hasKeyAccess(restricted, 'all')).toBe(false);
+    });
+});
+
+describe('resolveTargetKeys', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        const dbModule = await import('../../../db.js');
+        mockPrisma = dbModule.default;
+        vi.clearAllMocks();
+    });
+
+    it('should use the key name in the route', async () => {
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'main' } })).toEqual(['main']);
+    });
+
+    it('should treat key creation and bulk actions as every key', async () => {
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/keys' })).toBe('all');
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/apps/suspend-all' })).toBe('all');
+        // Rotation creates the successor key
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/keys/:keyName/rotate', params: { keyName: 'main' } })).toBe('all');
+    });
+
+    it('should look up the key behind requests and apps', async () => {
+        mockPrisma.request.findUnique.mockResolvedValue({ keyName: 'alt' });
+        mockPrisma.request.findMany.mockResolvedValue([{ keyName: 'main' }, { keyName: null }]);
+        mockPrisma.keyUser.findUnique.mockResolvedValue({ keyName: 'main' });
+
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/requests/:id', params: { id: 'req-1' } })).toEqual(['alt']);
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/requests/batch', body: { ids: ['a', 'b'] } })).toEqual(['main', '']);
+        expect(await resolveTargetKeys({ method: 'POST', routeUrl: '/apps/:id/revoke', params: { id: '4' } })).toEqual(['main']);
+        expect(mockPrisma.keyUser.findUnique).toHaveBeenCalledWith({ where: { id: 4 }, select: { keyName: true } });
+    });
+
+    it('should not tie list endpoints or missing targets to a key', async () => {
+        mockPrisma.request.findUnique.mockResolvedValue(null);
+
+        expect(await resolveTargetKeys({ method: 'GET', routeUrl: '/requests' })).toBeNull();
+        expect(await resolveTargetKeys({ method: 'DELETE', routeUrl: '/requests/:id', params: { id: 'gone' } })).toBeNull();
+    });
+});
+
+describe('checkRouteAccess', () => {
+    it('should allow routes covered by the grant', async () => {
+        expect(await checkRouteAccess(grant(['read']), { method: 'GET', routeUrl: '/dashboard' })).toBeNull();
+    });
+
+    it('should explain why a caller is refused', async () => {
+        expect(await checkRouteAccess(grant(['read']), { method: 'POST', routeUrl: '/policies' }))
+            .toEqual({ reason: 'endpoint' });
+        expect(await checkRouteAccess(grant(['read']), { method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'main' } }))
+            .toEqual({ reason: 'scope', scope: 'keys' });
+        expect(await checkRouteAccess(grant(['keys'], ['main']), { method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'alt' } }))
+            .toEqual({ reason: 'key' });
+    });
+});
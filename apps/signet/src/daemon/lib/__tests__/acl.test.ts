@@ -1,11 +1,32 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
     isKindSafe,
     getTrustLevelInfo,
     scopeToCondition,
+    describeAutoApprovals,
+    checkRequestPermission,
+    clearAclCache,
     SAFE_KINDS,
     SENSITIVE_KINDS,
 } from '../acl.js';
+import { quotaTracker } from '../quota.js';
+import prisma from '../../../db.js';
+
+vi.mock('../../../db.js', () => ({
+    default: {
+        keyUser: { findUnique: vi.fn(), update: vi.fn() },
+        signingCondition: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+}));
+
+vi.mock('../policy-usage.js', () => ({
+    consumePolicyRuleUsage: vi.fn(async () => false),
+    isPolicyRuleActive: vi.fn(() => true),
+}));
+
+vi.mock('../quorum.js', () => ({
+    getQuorumThreshold: vi.fn(async () => null),
+}));
 
 describe('isKindSafe', () => {
     it('should return true for safe kinds', () => {
@@ -102,6 +123,36 @@ describe('scopeToCondition', () => {
     });
 });
 
+describe('describeAutoApprovals', () => {
+    it('should auto-approve nothing at paranoid', () => {
+        expect(describeAutoApprovals('paranoid', null)).toEqual({ methods: [], kinds: [] });
+    });
+
+    it('should describe reasonable trust without NIP-04', () => {
+        const summary = describeAutoApprovals('reasonable', null);
+        expect(summary.methods).toEqual(['connect', 'get_public_key', 'ping', 'nip44_encrypt', 'nip44_decrypt']);
+        expect(summary.kinds).toContain(1);
+        expect(summary.kinds).not.toContain(0);
+    });
+
+    it('should auto-approve every kind at full trust', () => {
+        const summary = describeAutoApprovals('full', null);
+        expect(summary.methods).toContain('nip04_decrypt');
+        expect(summary.kinds).toBe('all');
+    });
+
+    it('should follow a trust profile instead of the trust level', () => {
+        const summary = describeAutoApprovals('full', {
+            kinds: new Set([30023, 1]),
+            methods: new Set(['nip04_encrypt']),
+        });
+        expect(summary).toEqual({
+            methods: ['connect', 'get_public_key', 'ping', 'nip04_encrypt'],
+            kinds: [1, 30023],
+        });
+    });
+});
+
 describe('SAFE_KINDS and SENSITIVE_KINDS sets', () => {
     it('should contain expected social kinds as safe', () => {
         // Common social actions
@@ -122,3 +173,77 @@ describe('SAFE_KINDS and SENSITIVE_KINDS sets', () => {
         expect(SENSITIVE_KINDS.has(23195)).toBe(true); // Wallet response
     });
 });
+
+describe('checkRequestPermission', () => {
+    const mockPrisma = prisma as unknown as {
+        keyUser: { findUnique: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+        signingCondition: { findFirst: ReturnType<typeof vi.fn>; findMany: ReturnType<typeof vi.fn> };
+    };
+    const note = JSON.stringify({ kind: 1, content: 'hello', tags: [], created_at: 1700000000 });
+
+    beforeEach(() => {
+        clearAclCache();
+        quotaTracker.clear();
+        mockPrisma.keyUser.findUnique.mockResolvedValue({
+            id: 1,
+            revokedAt: null,
+            suspendedAt: null,
+            suspendUntil: null,
+            trustLevel: 'full',
+            quotas: JSON.stringify({ overflow: 'deny', rules: [{ method: 'sign_event', perMinute: 2 }] }),
+            schedule: null,
+            trustProfile: null,
+        });
+        mockPrisma.keyUser.update.mockResolvedValue({});
+        mockPrisma.signingCondition.findFirst.mockResolvedValue(null);
+        // Grant from a policy rule with no uses left
+        mockPrisma.signingCondition.findMany.mockResolvedValue([{
+            id: 1, method: 'sign_event', kind: '1', content: null, allowed: true, policyRuleId: 31, usageCount: 1,
+            policyRule: { id: 31, method: 'sign_event', kind: '1', maxUsageCount: 1, currentUsageCount: 1, Policy: null },
+        }]);
+    });
+
+    it('should count a request once when an exhausted policy rule falls back to trust', async () => {
+        const first = await checkRequestPermission('main', 'a'.repeat(64), 'sign_event', note);
+        const second = await checkRequestPermission('main', 'a'.repeat(64), 'sign_event', note);
+        const third = await checkRequestPermission('main', 'a'.repeat(64), 'sign_event', note);
+
+        expect(first).toMatchObject({ permitted: true, approvalType: 'auto_trust' });
+        expect(second).toMatchObject({ permitted: true, approvalType: 'auto_trust' });
+        expect(third).toMatchObject({ permitted: false, quotaExceeded: { limit: 2, window: 'minute' } });
+    });
+
+    describe('outside the schedule', () => {
+        beforeEach(() => {
+            // No windows, so every request arrives outside the schedule
+            mockPrisma.keyUser.findUnique.mockResolvedValue({
+                id: 1,
+                revokedAt: null,
+                suspendedAt: null,
+                suspendUntil: null,
+                trustLevel: 'full',
+                quotas: null,
+                schedule: JSON.stringify({ timezone: 'UTC', windows: [], outside: 'manual' }),
+                trustProfile: null,
+            });
+        });
+
+        it('should still refuse a request matching an explicit deny', async () => {
+            mockPrisma.signingCondition.findMany.mockResolvedValue([{
+                id: 2, method: 'sign_event', kind: '1', content: null, allowed: false, policyRuleId: null, usageCount: 0, policyRule: null,
+            }]);
+
+            const result = await checkRequestPermission('main', 'a'.repeat(64), 'sign_event', note);
+
+            expect(result).toMatchObject({ permitted: false, autoApproved: false });
+        });
+
+        it('should queue a request that would be auto-approved for manual approval', async () => {
+            mockPrisma.signingCondition.findMany.mockResolvedValue([]);
+
+            const result = await checkRequestPermission('main', 'a'.repeat(64), 'sign_event', note);
+
+            expect(result).toMatchObject({ permitted: undefined, autoApproved: false, outsideSchedule: true });
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+    API_TOKEN_PREFIX,
+    generateApiToken,
+    getDisplayPrefix,
+    hashApiToken,
+    isApiToken,
+    parseKeyNames,
+    parseScopes,
+} from '../api-tokens.js';
+
+describe('generateApiToken', () => {
+    it('should create distinct prefixed tokens', () => {
+        const a = generateApiToken();
+        const b = generateApiToken();
+        expect(a.startsWith(API_TOKEN_PREFIX)).toBe(true);
+        expect(isApiToken(a)).toBe(true);
+        expect(a).not.toBe(b);
+    });
+
+    it('should hash tokens deterministically', () => {
+        const token = generateApiToken();
+        expect(hashApiToken(token)).toBe(hashApiToken(token));
+        expect(hashApiToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should keep only a short display prefix', () => {
+        const token = generateApiToken();
+        expect(getDisplayPrefix(token)).toBe(token.slice(0, API_TOKEN_PREFIX.length + 6));
+    });
+});
+
+describe('isApiToken', () => {
+    it('should not treat JWTs or empty values as API tokens', () => {
+        expect(isApiToken('eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBe(false);
+        expect(isApiToken(undefined)).toBe(false);
+        expect(isApiToken('')).toBe(false);
+    });
+});
+
+describe('parseScopes', () => {
+    it('should drop unknown scopes', () => {
+        expect(parseScopes('read, keys,admin')).toEqual(['read', 'keys']);
+    });
+});
+
+describe('parseKeyNames', () => {
+    it('should treat null as every key', () => {
+        expect(parseKeyNames(null)).toBeNull();
+        expect(parseKeyNames('main,alt')).toEqual(['main', 'alt']);
+    });
+});
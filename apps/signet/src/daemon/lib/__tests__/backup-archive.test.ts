@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { sealBackup, openBackup, sealSnapshot, openSnapshot } from '../backup-archive.js';
+
+// Fewer PBKDF2 rounds than real backups so the tests stay fast
+const ITERATIONS = 1000;
+const PASSPHRASE = 'correct horse battery';
+
+const manifest = {
+    createdAt: '2026-01-21T10:00:00.000Z',
+    signetVersion: '0.0.3',
+    includesHistory: false,
+    counts: { keys: 1, seeds: 0, apps: 0, signingConditions: 0, trustProfiles: 0, policies: 0, settings: 0, requests: 0, logs: 0, adminLogs: 0 },
+};
+const data = { keys: [{ name: 'main', ncryptsec: 'ncryptsec1example' }] };
+
+describe('backup archive', () => {
+    it('should round-trip contents and fill in the manifest checksum', () => {
+        const sealed = sealBackup(manifest, data, PASSPHRASE, ITERATIONS);
+
+        const opened = openBackup<typeof data>(sealed.archive, PASSPHRASE);
+
+        expect(opened.data).toEqual(data);
+        expect(opened.manifest).toEqual(sealed.manifest);
+        expect(opened.manifest.version).toBe(1);
+        expect(opened.manifest.checksum).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should only leave the format and date readable', () => {
+        const { archive } = sealBackup(manifest, data, PASSPHRASE, ITERATIONS);
+
+        expect(JSON.parse(archive)).toMatchObject({ format: 'signet-backup', version: 1, createdAt: manifest.createdAt });
+        expect(archive).not.toContain('ncryptsec1example');
+    });
+
+    it('should reject a wrong passphrase', () => {
+        const { archive } = sealBackup(manifest, data, PASSPHRASE, ITERATIONS);
+
+        expect(() => openBackup(archive, 'wrong passphrase')).toThrow('Invalid passphrase or corrupted backup');
+    });
+
+    it('should reject tampered ciphertext', () => {
+        const envelope = JSON.parse(sealBackup(manifest, data, PASSPHRASE, ITERATIONS).archive);
+        const bytes = Buffer.from(envelope.data, 'base64');
+        bytes[0] ^= 0xff;
+        envelope.data = bytes.toString('base64');
+
+        expect(() => openBackup(JSON.stringify(envelope), PASSPHRASE)).toThrow('Invalid passphrase or corrupted backup');
+    });
+
+    it('should reject files that are not Signet backups or need a newer Signet', () => {
+        const envelope = JSON.parse(sealBackup(manifest, data, PASSPHRASE, ITERATIONS).archive);
+
+        expect(() => openBackup('{"hello":"world"}', PASSPHRASE)).toThrow('not a Signet backup file');
+        expect(() => openBackup('not json', PASSPHRASE)).toThrow('not a Signet backup file');
+        expect(() => openBackup(JSON.stringify({ ...envelope, version: 2 }), PASSPHRASE)).toThrow('needs a newer Signet');
+        expect(() => openBackup(JSON.stringify({ ...envelope, kdf: { ...envelope.kdf, iterations: 1e12 } }), PASSPHRASE))
+            .toThrow('unsupported encryption');
+    });
+
+    describe('snapshots', () => {
+        const config = '{"nostr":{"relays":[]}}\n';
+        const database = Buffer.from('SQLite format 3\0 rest of the file');
+
+        it('should round-trip signet.json and the database copy', () => {
+            const sealed = sealSnapshot({ createdAt: manifest.createdAt }, config, database, PASSPHRASE, ITERATIONS);
+
+            const opened = openSnapshot(sealed.archive, PASSPHRASE);
+
+            expect(opened.config).toBe(config);
+            expect(opened.database.equals(database)).toBe(true);
+            expect(opened.manifest).toEqual(sealed.manifest);
+            expect(opened.manifest.databaseBytes).toBe(database.length);
+        });
+
+        it('should not be mistaken for a backup, or the other way round', () => {
+            const { archive: snapshot } = sealSnapshot({ createdAt: manifest.createdAt }, config, database, PASSPHRASE, ITERATIONS);
+            const { archive: backup } = sealBackup(manifest, data, PASSPHRASE, ITERATIONS);
+
+            expect(() => openBackup(snapshot, PASSPHRASE)).toThrow('not a Signet backup file');
+            expect(() => openSnapshot(backup, PASSPHRASE)).toThrow('not a Signet snapshot file');
+            expect(() => openSnapshot(snapshot, 'wrong passphrase')).toThrow('Invalid passphrase or corrupted snapshot');
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../db.js', () => ({
+    default: {
+        keyUser: {
+            findUnique: vi.fn(),
+        },
+        quorumRule: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../../db.js';
+import { describeSigner, SUPPORTED_METHODS } from '../capabilities.js';
+import { invalidateQuorumRuleCache } from '../quorum.js';
+
+const findUnique = prisma.keyUser.findUnique as unknown as ReturnType<typeof vi.fn>;
+const findQuorumRules = prisma.quorumRule.findMany as unknown as ReturnType<typeof vi.fn>;
+
+function makeKeyUser(overrides: Record<string, unknown> = {}) {
+    return {
+        revokedAt: null,
+        suspendedAt: null,
+        suspendUntil: null,
+        trustLevel: 'paranoid',
+        quotas: null,
+        schedule: null,
+        trustProfile: null,
+        signingConditions: [],
+        ...overrides,
+    };
+}
+
+describe('describeSigner', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        invalidateQuorumRuleCache();
+        findQuorumRules.mockResolvedValue([]);
+    });
+
+    it('should list methods and encryption without permissions for unknown clients', async () => {
+        findUnique.mockResolvedValue(null);
+
+        const description = await describeSigner('main', 'pubkey');
+
+        expect(description.methods).toEqual([...SUPPORTED_METHODS]);
+        expect(description.methods).toContain('describe');
+        expect(description.encryption).toEqual(['nip44', 'nip04']);
+        expect(description.permissions).toBeNull();
+    });
+
+    it('should hide permissions from revoked apps', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({ revokedAt: new Date() }));
+
+        const description = await describeSigner('main', 'pubkey');
+
+        expect(description.permissions).toBeNull();
+    });
+
+    it('should report explicit grants and denials', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({
+            signingConditions: [
+                { method: 'connect', kind: null, content: null, allowed: true },
+                { method: 'sign_event', kind: '1', content: null, allowed: true },
+                { method: 'sign_event', kind: 'all', content: '{"tags":[]}', allowed: true },
+                { method: 'nip04_decrypt', kind: null, content: null, allowed: false },
+            ],
+        }));
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions).toMatchObject({
+            trustLevel: 'paranoid',
+            trustProfile: null,
+            suspended: false,
+            blocked: false,
+            autoApprove: { methods: [], kinds: [] },
+            granted: [
+                { method: 'sign_event', kind: 1, constrained: false },
+                { method: 'sign_event', kind: 'all', constrained: true },
+            ],
+            denied: [{ method: 'nip04_decrypt', kind: 'all', constrained: false }],
+        });
+    });
+
+    it('should describe a trust profile by name', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({
+            trustLevel: 'full',
+            trustProfile: { name: 'Blogging', kinds: '[30023]', methods: '[]' },
+        }));
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.trustProfile).toBe('Blogging');
+        expect(permissions?.autoApprove.kinds).toEqual([30023]);
+    });
+
+    it('should report blocked and suspended apps as auto-approving nothing', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({
+            trustLevel: 'full',
+            suspendedAt: new Date(),
+            signingConditions: [{ method: '*', kind: null, content: null, allowed: false }],
+        }));
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.suspended).toBe(true);
+        expect(permissions?.blocked).toBe(true);
+        expect(permissions?.autoApprove).toEqual({ methods: [], kinds: [] });
+    });
+
+    it('should report nothing auto-approved outside the app\'s schedule', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({
+            trustLevel: 'full',
+            schedule: JSON.stringify({ timezone: 'UTC', windows: [], outside: 'manual' }),
+        }));
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.outsideSchedule).toBe(true);
+        expect(permissions?.autoApprove).toEqual({ methods: [], kinds: [] });
+    });
+
+    it('should leave out kinds that wait for an approval quorum', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({ trustLevel: 'reasonable' }));
+        findQuorumRules.mockResolvedValue([
+            { keyName: 'main', kind: 1, threshold: 2 },
+            { keyName: 'other', kind: null, threshold: 2 },
+        ]);
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.quorumKinds).toEqual([1]);
+        expect(permissions?.autoApprove.kinds).not.toContain(1);
+        expect(permissions?.autoApprove.kinds).toContain(7);
+    });
+
+    it('should report no kinds when every sign_event on the key needs a quorum', async () => {
+        findUnique.mockResolvedValue(makeKeyUser({ trustLevel: 'full' }));
+        findQuorumRules.mockResolvedValue([{ keyName: null, kind: null, threshold: 2 }]);
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.quorumKinds).toBe('all');
+        expect(permissions?.autoApprove.kinds).toEqual([]);
+    });
+
+    it('should leave out grants from policy rules the app used up and report quotas', async () => {
+        const quotas = { rules: [{ method: 'sign_event', perHour: 10 }], overflow: 'manual' };
+        const policy = { expiresAt: null, deletedAt: null };
+        findUnique.mockResolvedValue(makeKeyUser({
+            quotas: JSON.stringify(quotas),
+            signingConditions: [
+                {
+                    method: 'sign_event', kind: '1', content: null, allowed: true, usageCount: 5,
+                    policyRule: { id: 1, method: 'sign_event', kind: '1', maxUsageCount: 5, currentUsageCount: 5, Policy: policy },
+                },
+                {
+                    method: 'sign_event', kind: '7', content: null, allowed: true, usageCount: 2,
+                    policyRule: { id: 2, method: 'sign_event', kind: '7', maxUsageCount: 5, currentUsageCount: 9, Policy: policy },
+                },
+            ],
+        }));
+
+        const { permissions } = await describeSigner('main', 'pubkey');
+
+        expect(permissions?.granted).toEqual([{ method: 'sign_event', kind: 7, constrained: false }]);
+        expect(permissions?.quotas).toEqual(quotas);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DecisionBus } from '../decision-bus.js';
+
+describe('DecisionBus', () => {
+    let bus: DecisionBus;
+
+    beforeEach(() => {
+        bus = new DecisionBus();
+    });
+
+    it('should deliver a decision to every listener on the request', () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        bus.subscribe('req-1', first);
+        bus.subscribe('req-1', second);
+
+        bus.publish('req-1', 'approved');
+
+        expect(first).toHaveBeenCalledWith('approved');
+        expect(second).toHaveBeenCalledWith('approved');
+    });
+
+    it('should only deliver decisions for the subscribed request', () => {
+        const listener = vi.fn();
+        bus.subscribe('req-1', listener);
+
+        bus.publish('req-2', 'denied');
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should drop listeners once a request is decided', () => {
+        const listener = vi.fn();
+        bus.subscribe('req-1', listener);
+
+        bus.publish('req-1', 'denied');
+        bus.publish('req-1', 'approved');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(bus.waitingCount).toBe(0);
+    });
+
+    it('should stop delivering after unsubscribe', () => {
+        const listener = vi.fn();
+        const unsubscribe = bus.subscribe('req-1', listener);
+        expect(bus.waitingCount).toBe(1);
+
+        unsubscribe();
+        bus.publish('req-1', 'expired');
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(bus.waitingCount).toBe(0);
+    });
+
+    it('should keep notifying when a listener throws', () => {
+        const listener = vi.fn();
+        bus.subscribe('req-1', () => {
+            throw new Error('boom');
+        });
+        bus.subscribe('req-1', listener);
+
+        bus.publish('req-1', 'approved');
+
+        expect(listener).toHaveBeenCalledWith('approved');
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseEventConstraints,
+    toConstrainedEvent,
+    evaluateEventConstraints,
+    conditionApplies,
+    selectCondition,
+    type ConstrainedEvent,
+} from '../event-constraints.js';
+
+const NOW = 1_700_000_000_000;
+const NOW_SECONDS = NOW / 1000;
+
+function makeEvent(overrides: Partial<ConstrainedEvent> = {}): ConstrainedEvent {
+    return {
+        kind: 1,
+        content: 'gm',
+        tags: [],
+        created_at: NOW_SECONDS,
+        ...overrides,
+    };
+}
+
+describe('parseEventConstraints', () => {
+    it('should return null for empty or malformed values', () => {
+        expect(parseEventConstraints(null)).toBeNull();
+        expect(parseEventConstraints('')).toBeNull();
+        expect(parseEventConstraints('{oops')).toBeNull();
+        expect(parseEventConstraints('[1,2]')).toBeNull();
+    });
+
+    it('should parse stored constraints', () => {
+        expect(parseEventConstraints('{"forbidTags":["p"]}')).toEqual({ forbidTags: ['p'] });
+    });
+});
+
+describe('toConstrainedEvent', () => {
+    it('should parse a JSON payload', () => {
+        const event = makeEvent({ tags: [['t', 'nostr']] });
+        expect(toConstrainedEvent(JSON.stringify(event))).toEqual(event);
+    });
+
+    it('should return undefined for payloads that are not events', () => {
+        expect(toConstrainedEvent(undefined)).toBeUndefined();
+        expect(toConstrainedEvent('not json')).toBeUndefined();
+        expect(toConstrainedEvent('{"kind":1}')).toBeUndefined();
+    });
+});
+
+describe('evaluateEventConstraints', () => {
+    it('should reject events with forbidden tags', () => {
+        const constraints = { forbidTags: ['p'] };
+        expect(evaluateEventConstraints(constraints, makeEvent(), NOW)).toBe(true);
+        expect(evaluateEventConstraints(constraints, makeEvent({ tags: [['p', 'abc']] }), NOW)).toBe(false);
+    });
+
+    it('should require tags by name and optional value', () => {
+        const constraints = { requireTags: [{ name: 't', value: 'bitcoin' }] };
+        expect(evaluateEventConstraints(constraints, makeEvent({ tags: [['t', 'bitcoin']] }), NOW)).toBe(true);
+        expect(evaluateEventConstraints(constraints, makeEvent({ tags: [['t', 'nostr']] }), NOW)).toBe(false);
+        expect(evaluateEventConstraints({ requireTags: [{ name: 't' }] }, makeEvent({ tags: [['t', 'nostr']] }), NOW)).toBe(true);
+    });
+
+    it('should apply content patterns', () => {
+        expect(evaluateEventConstraints({ contentMatches: '^gm' }, makeEvent(), NOW)).toBe(true);
+        expect(evaluateEventConstraints({ contentMatches: '^gn' }, makeEvent(), NOW)).toBe(false);
+        expect(evaluateEventConstraints({ contentNotMatches: 'https?://' }, makeEvent({ content: 'see https://x.com' }), NOW)).toBe(false);
+    });
+
+    it('should return null for patterns that do not compile', () => {
+        expect(evaluateEventConstraints({ contentMatches: '(' }, makeEvent(), NOW)).toBeNull();
+    });
+
+    it('should cap content length', () => {
+        expect(evaluateEventConstraints({ maxContentLength: 2 }, makeEvent(), NOW)).toBe(true);
+        expect(evaluateEventConstraints({ maxContentLength: 1 }, makeEvent(), NOW)).toBe(false);
+    });
+
+    it('should enforce created_at skew', () => {
+        const constraints = { maxPastMinutes: 10, maxFutureMinutes: 5 };
+        expect(evaluateEventConstraints(constraints, makeEvent({ created_at: NOW_SECONDS - 9 * 60 }), NOW)).toBe(true);
+        expect(evaluateEventConstraints(constraints, makeEvent({ created_at: NOW_SECONDS - 11 * 60 }), NOW)).toBe(false);
+        expect(evaluateEventConstraints(constraints, makeEvent({ created_at: NOW_SECONDS + 6 * 60 }), NOW)).toBe(false);
+    });
+});
+
+describe('conditionApplies', () => {
+    const noMentions = JSON.stringify({ forbidTags: ['p'] });
+
+    it('should always apply unconstrained conditions', () => {
+        expect(conditionApplies({ content: null, allowed: true }, undefined, NOW)).toBe(true);
+    });
+
+    it('should only apply constrained allow rules to matching events', () => {
+        const condition = { content: noMentions, allowed: true };
+        expect(conditionApplies(condition, makeEvent(), NOW)).toBe(true);
+        expect(conditionApplies(condition, makeEvent({ tags: [['p', 'abc']] }), NOW)).toBe(false);
+        expect(conditionApplies(condition, undefined, NOW)).toBe(false);
+    });
+
+    it('should fail closed for constrained deny rules', () => {
+        const condition = { content: JSON.stringify({ contentMatches: '(' }), allowed: false };
+        expect(conditionApplies(condition, makeEvent(), NOW)).toBe(true);
+        expect(conditionApplies({ content: noMentions, allowed: false }, undefined, NOW)).toBe(true);
+    });
+});
+
+describe('selectCondition', () => {
+    it('should let a matching deny override a matching allow', () => {
+        const allow = { id: 1, content: null, allowed: true };
+        const deny = { id: 2, content: JSON.stringify({ contentMatches: 'spam' }), allowed: false };
+        expect(selectCondition([allow, deny], makeEvent({ content: 'buy spam' }), NOW)).toBe(deny);
+        expect(selectCondition([allow, deny], makeEvent(), NOW)).toBe(allow);
+    });
+
+    it('should return null when nothing applies', () => {
+        const allow = { id: 1, content: JSON.stringify({ forbidTags: ['p'] }), allowed: true };
+        expect(selectCondition([allow], makeEvent({ tags: [['p', 'abc']] }), NOW)).toBeNull();
+        expect(selectCondition([], makeEvent(), NOW)).toBeNull();
+    });
+});
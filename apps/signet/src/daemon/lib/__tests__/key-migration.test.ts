@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { generateSecretKey, getPublicKey, verifyEvent } from 'nostr-tools/pure';
+import { npubEncode } from 'nostr-tools/nip19';
+import { buildMigrationEvents } from '../key-migration.js';
+import { KEY_MIGRATION_KIND } from '../../constants.js';
+
+describe('buildMigrationEvents', () => {
+    const retired = generateSecretKey();
+    const successor = getPublicKey(generateSecretKey());
+
+    it('should sign a migration event and a note from the retired key', () => {
+        const [migration, note] = buildMigrationEvents(retired, successor, { reason: 'suspected compromise' }, 1700000000);
+
+        for (const event of [migration, note]) {
+            expect(verifyEvent(event)).toBe(true);
+            expect(event.pubkey).toBe(getPublicKey(retired));
+            expect(event.created_at).toBe(1700000000);
+            expect(event.tags).toContainEqual(['p', successor]);
+        }
+        expect(migration.kind).toBe(KEY_MIGRATION_KIND);
+        expect(migration.content).toBe('suspected compromise');
+        expect(note.kind).toBe(1);
+        expect(note.content).toContain(`nostr:${npubEncode(successor)}`);
+        expect(note.content).toContain('Reason: suspected compromise');
+    });
+
+    it('should leave out the note when not announcing', () => {
+        const events = buildMigrationEvents(retired, successor, { announce: false });
+
+        expect(events.map((event) => event.kind)).toEqual([KEY_MIGRATION_KIND]);
+        expect(events[0].content).toBe('');
+    });
+});
@@ -0,0 +1,188 @@
+import 'websocket-polyfill';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { finalizeEvent, generateSecretKey, type Event } from 'nostr-tools/pure';
+import { LocalRelay, resolveLocalRelayUrl } from '../local-relay.js';
+import { RelayPool } from '../relay-pool.js';
+
+const secretKey = generateSecretKey();
+
+// Plain JSON, as it comes back over the wire
+function signed(kind: number, content = 'encrypted'): Event {
+    const event = finalizeEvent({ kind, content, tags: [], created_at: Math.floor(Date.now() / 1000) }, secretKey);
+    return JSON.parse(JSON.stringify(event));
+}
+
+/**
+ * Raw relay connection that collects every message it receives
+ */
+async function connect(url: string) {
+    const socket = new WebSocket(url);
+    const messages: unknown[][] = [];
+    const waiters: Array<() => void> = [];
+    socket.on('message', (data: Buffer) => {
+        messages.push(JSON.parse(data.toString()));
+        waiters.splice(0).forEach(wake => wake());
+    });
+    await new Promise((resolve, reject) => {
+        socket.once('open', resolve);
+        socket.once('error', reject);
+    });
+
+    return {
+        send: (message: unknown[]) => socket.send(JSON.stringify(message)),
+        // Resolves with the first message matching the predicate
+        next: async (predicate: (message: unknown[]) => boolean): Promise<unknown[]> => {
+            for (;;) {
+                const found = messages.find(predicate);
+                if (found) {
+                    messages.splice(messages.indexOf(found), 1);
+                    return found;
+                }
+                await new Promise<void>(resolve => waiters.push(resolve));
+            }
+        },
+        close: () => socket.close(),
+    };
+}
+
+describe('LocalRelay', () => {
+    let relay: LocalRelay;
+    let url: string;
+
+    beforeEach(async () => {
+        relay = new LocalRelay({ host: '127.0.0.1', port: 0 });
+        await relay.start();
+        url = `ws://127.0.0.1:${relay.getPort()}`;
+    });
+
+    afterEach(async () => {
+        await relay.stop();
+    });
+
+    it('should accept NIP-46 events and fan them out to matching subscriptions', async () => {
+        const listener = await connect(url);
+        const publisher = await connect(url);
+        const event = signed(24133);
+
+        listener.send(['REQ', 'sub', { kinds: [24133], authors: [event.pubkey] }]);
+        await listener.next(message => message[0] === 'EOSE');
+        publisher.send(['EVENT', event]);
+
+        expect(await publisher.next(message => message[0] === 'OK')).toEqual(['OK', event.id, true, '']);
+        expect(await listener.next(message => message[0] === 'EVENT')).toEqual(['EVENT', 'sub', event]);
+        listener.close();
+        publisher.close();
+    });
+
+    it('should reject other kinds and bad signatures', async () => {
+        const client = await connect(url);
+        const note = signed(1);
+        const forged = { ...signed(24133), content: 'tampered' };
+
+        client.send(['EVENT', note]);
+        expect(await client.next(message => message[0] === 'OK')).toEqual(
+            ['OK', note.id, false, 'blocked: this relay only accepts NIP-46 events']
+        );
+
+        client.send(['EVENT', forged]);
+        expect(await client.next(message => message[0] === 'OK')).toEqual(['OK', forged.id, false, 'invalid: bad signature']);
+        client.close();
+    });
+
+    it('should replay recent events to late subscribers', async () => {
+        const publisher = await connect(url);
+        const first = signed(24133, 'first');
+        const second = signed(24133, 'second');
+        publisher.send(['EVENT', first]);
+        await publisher.next(message => message[0] === 'OK');
+        publisher.send(['EVENT', second]);
+        await publisher.next(message => message[0] === 'OK');
+
+        const listener = await connect(url);
+        listener.send(['REQ', 'late', { kinds: [24133], limit: 1 }]);
+
+        expect(await listener.next(message => message[0] === 'EVENT')).toEqual(['EVENT', 'late', second]);
+        expect(await listener.next(message => message[0] === 'EOSE')).toEqual(['EOSE', 'late']);
+        publisher.close();
+        listener.close();
+    });
+
+    it('should apply each filter limit on its own when replaying', async () => {
+        const publisher = await connect(url);
+        const request = signed(24133, 'request');
+        const response = signed(24133, 'response');
+        publisher.send(['EVENT', request]);
+        await publisher.next(message => message[0] === 'OK');
+        publisher.send(['EVENT', response]);
+        await publisher.next(message => message[0] === 'OK');
+
+        const listener = await connect(url);
+        listener.send(['REQ', 'both', { ids: [request.id] }, { kinds: [24133], limit: 1 }]);
+
+        expect(await listener.next(message => message[0] === 'EVENT')).toEqual(['EVENT', 'both', request]);
+        expect(await listener.next(message => message[0] === 'EVENT')).toEqual(['EVENT', 'both', response]);
+        expect(await listener.next(message => message[0] === 'EOSE')).toEqual(['EOSE', 'both']);
+        publisher.close();
+        listener.close();
+    });
+
+    it('should close subscriptions with malformed filters and keep serving others', async () => {
+        const listener = await connect(url);
+        const broken = await connect(url);
+        const publisher = await connect(url);
+        const event = signed(24133);
+
+        listener.send(['REQ', 'good', { kinds: [24133] }]);
+        await listener.next(message => message[0] === 'EOSE');
+        broken.send(['REQ', 'ids', { ids: 5 }]);
+        expect(await broken.next(message => message[0] === 'CLOSED')).toEqual(['CLOSED', 'ids', 'invalid: bad filter']);
+        broken.send(['REQ', 'tag', { kinds: [24133] }, { '#p': 'x' }]);
+        expect(await broken.next(message => message[0] === 'CLOSED')).toEqual(['CLOSED', 'tag', 'invalid: bad filter']);
+
+        publisher.send(['EVENT', event]);
+        expect(await publisher.next(message => message[0] === 'OK')).toEqual(['OK', event.id, true, '']);
+        expect(await listener.next(message => message[0] === 'EVENT')).toEqual(['EVENT', 'good', event]);
+        listener.close();
+        broken.close();
+        publisher.close();
+    });
+
+    it('should carry NIP-46 traffic between RelayPool instances without outside relays', async () => {
+        const signerPool = new RelayPool([url]);
+        const clientPool = new RelayPool([url]);
+        const request = signed(24133, 'request');
+
+        try {
+            const received = new Promise<Event>((resolve, reject) => {
+                const timer = setTimeout(() => reject(new Error('no event received')), 5000);
+                signerPool.subscribe({ kinds: [24133] }, (event) => {
+                    clearTimeout(timer);
+                    resolve(event);
+                }, 'signer', () => {
+                    clientPool.publish(request).catch(reject);
+                });
+            });
+
+            expect((await received).id).toBe(request.id);
+            expect(signerPool.getStatus()[0].connected).toBe(true);
+        } finally {
+            signerPool.close();
+            clientPool.close();
+        }
+    });
+});
+
+describe('resolveLocalRelayUrl', () => {
+    it('should prefer the configured URL', () => {
+        expect(resolveLocalRelayUrl({ url: 'ws://signet.lan:4869' })).toBe('ws://signet.lan:4869');
+    });
+
+    it('should advertise a specific bind address as is', () => {
+        expect(resolveLocalRelayUrl({ host: '192.168.1.20', port: 7000 })).toBe('ws://192.168.1.20:7000');
+    });
+
+    it('should swap a wildcard bind address for a reachable one', () => {
+        expect(resolveLocalRelayUrl({ host: '0.0.0.0' })).toMatch(/^ws:\/\/\d+\.\d+\.\d+\.\d+:4869$/);
+    });
+});
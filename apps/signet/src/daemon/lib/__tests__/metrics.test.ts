@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Counter, Histogram, gauge, negotiateMetricsFormat, renderMetrics } from '../metrics.js';
+
+describe('Counter', () => {
+    it('should add up series by label set', () => {
+        const counter = new Counter('signet_test', 'Test counter', ['method']);
+        counter.inc({ method: 'sign_event' });
+        counter.inc({ method: 'sign_event' }, 2);
+        counter.inc({ method: 'nip44_encrypt' });
+
+        expect(counter.collect().samples).toEqual([
+            { suffix: '_total', labels: { method: 'sign_event' }, value: 3 },
+            { suffix: '_total', labels: { method: 'nip44_encrypt' }, value: 1 },
+        ]);
+    });
+
+    it('should fill missing labels and drop unknown ones', () => {
+        const counter = new Counter('signet_test', 'Test counter', ['method', 'kind']);
+        counter.inc({ method: 'sign_event', extra: 'x' });
+
+        expect(counter.collect().samples[0].labels).toEqual({ method: 'sign_event', kind: '' });
+    });
+});
+
+describe('Histogram', () => {
+    it('should count observations into cumulative buckets', () => {
+        const histogram = new Histogram('signet_latency_seconds', 'Latency', [1, 10]);
+        histogram.observe({}, 0.5);
+        histogram.observe({}, 5);
+        histogram.observe({}, 50);
+
+        expect(histogram.collect().samples).toEqual([
+            { suffix: '_bucket', labels: { le: '1' }, value: 1 },
+            { suffix: '_bucket', labels: { le: '10' }, value: 2 },
+            { suffix: '_bucket', labels: { le: '+Inf' }, value: 3 },
+            { suffix: '_sum', labels: {}, value: 55.5 },
+            { suffix: '_count', labels: {}, value: 3 },
+        ]);
+    });
+});
+
+describe('renderMetrics', () => {
+    const counter = new Counter('signet_requests', 'Requests', ['outcome']);
+    counter.inc({ outcome: 'approved' });
+
+    it('should type counters by their sample name in Prometheus format', () => {
+        const text = renderMetrics([counter.collect()], 'prometheus');
+
+        expect(text).toBe([
+            '# HELP signet_requests_total Requests',
+            '# TYPE signet_requests_total counter',
+            'signet_requests_total{outcome="approved"} 1',
+            '',
+        ].join('\n'));
+    });
+
+    it('should type counters by family name and end with EOF in OpenMetrics', () => {
+        const text = renderMetrics([counter.collect()], 'openmetrics');
+
+        expect(text).toContain('# TYPE signet_requests counter\n');
+        expect(text).toContain('signet_requests_total{outcome="approved"} 1\n');
+        expect(text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('should escape label values', () => {
+        const text = renderMetrics([
+            gauge('signet_relay_connected', 'Relay state', [{ labels: { relay: 'wss://a"b\\c\n' }, value: 1 }]),
+        ], 'prometheus');
+
+        expect(text).toContain('signet_relay_connected{relay="wss://a\\"b\\\\c\\n"} 1');
+    });
+});
+
+describe('negotiateMetricsFormat', () => {
+    it('should use OpenMetrics only when asked', () => {
+        expect(negotiateMetricsFormat('application/openmetrics-text; version=1.0.0,text/plain;q=0.5')).toBe('openmetrics');
+        expect(negotiateMetricsFormat('text/plain')).toBe('prometheus');
+        expect(negotiateMetricsFormat(undefined)).toBe('prometheus');
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../db.js', () => ({
+    default: {
+        $executeRaw: vi.fn(),
+    },
+}));
+
+import { isPolicyExpired, isPolicyRuleActive, consumePolicyRuleUsage, toAppPolicyRuleUsage } from '../policy-usage.js';
+
+const NOW = Date.parse('2026-01-15T12:00:00Z');
+
+function makeRule(overrides: Partial<Parameters<typeof isPolicyRuleActive>[0]> = {}) {
+    return {
+        id: 1,
+        method: 'sign_event',
+        kind: '1',
+        maxUsageCount: 10,
+        currentUsageCount: 0,
+        Policy: { expiresAt: null, deletedAt: null },
+        ...overrides,
+    };
+}
+
+describe('isPolicyExpired', () => {
+    it('should treat policies without expiry as active', () => {
+        expect(isPolicyExpired({ expiresAt: null }, NOW)).toBe(false);
+    });
+
+    it('should expire once expiresAt has passed', () => {
+        expect(isPolicyExpired({ expiresAt: new Date(NOW + 1000) }, NOW)).toBe(false);
+        expect(isPolicyExpired({ expiresAt: new Date(NOW) }, NOW)).toBe(true);
+    });
+});
+
+describe('isPolicyRuleActive', () => {
+    it('should allow apps with uses left', () => {
+        expect(isPolicyRuleActive(makeRule(), 9, NOW)).toBe(true);
+    });
+
+    it('should allow unlimited rules', () => {
+        expect(isPolicyRuleActive(makeRule({ maxUsageCount: null }), 5000, NOW)).toBe(true);
+    });
+
+    it('should reject apps that used the rule up', () => {
+        expect(isPolicyRuleActive(makeRule(), 10, NOW)).toBe(false);
+    });
+
+    it('should go by the app\'s uses, not every app\'s together', () => {
+        expect(isPolicyRuleActive(makeRule({ currentUsageCount: 10 }), 2, NOW)).toBe(true);
+    });
+
+    it('should reject rules of expired, deleted or missing policies', () => {
+        expect(isPolicyRuleActive(makeRule({ Policy: { expiresAt: new Date(NOW - 1), deletedAt: null } }), 0, NOW)).toBe(false);
+        expect(isPolicyRuleActive(makeRule({ Policy: { expiresAt: null, deletedAt: new Date(NOW) } }), 0, NOW)).toBe(false);
+        expect(isPolicyRuleActive(makeRule({ Policy: null }), 0, NOW)).toBe(false);
+    });
+});
+
+describe('consumePolicyRuleUsage', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        const dbModule = await import('../../../db.js');
+        mockPrisma = dbModule.default;
+        vi.clearAllMocks();
+    });
+
+    it('should count the use for the app and the rule total', async () => {
+        mockPrisma.$executeRaw.mockResolvedValue(1);
+        await expect(consumePolicyRuleUsage(7, 1)).resolves.toBe(true);
+        expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return false when the app has used the rule up', async () => {
+        mockPrisma.$executeRaw.mockResolvedValue(0);
+        await expect(consumePolicyRuleUsage(7, 1)).resolves.toBe(false);
+        expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('toAppPolicyRuleUsage', () => {
+    it('should compute the app\'s remaining usage', () => {
+        expect(toAppPolicyRuleUsage(makeRule({ currentUsageCount: 8 }), 3)).toEqual({
+            id: 1,
+            method: 'sign_event',
+            kind: '1',
+            maxUsageCount: 10,
+            usageCount: 3,
+            remainingUsage: 7,
+        });
+    });
+
+    it('should report unlimited rules as null remaining', () => {
+        expect(toAppPolicyRuleUsage(makeRule({ maxUsageCount: null }), 4).remainingUsage).toBeNull();
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { nip19 } from 'nostr-tools';
+import {
+    findQuorumThreshold,
+    getQuorumThreshold,
+    invalidateQuorumRuleCache,
+    hashApproverToken,
+    parseApproverPubkey,
+    toRequestQuorum,
+    type QuorumRuleRecord,
+} from '../quorum.js';
+
+vi.mock('../../../db.js', () => ({
+    default: {
+        quorumRule: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+const PUBKEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+const RULES: QuorumRuleRecord[] = [
+    { keyName: 'org', kind: null, threshold: 2 },
+    { keyName: null, kind: 0, threshold: 3 },
+];
+
+describe('findQuorumThreshold', () => {
+    it('should match rules by key and kind', () => {
+        expect(findQuorumThreshold(RULES, 'org', 'sign_event', 1)).toBe(2);
+        expect(findQuorumThreshold(RULES, 'personal', 'sign_event', 0)).toBe(3);
+        expect(findQuorumThreshold(RULES, 'personal', 'sign_event', 1)).toBeNull();
+    });
+
+    it('should use the strictest matching rule', () => {
+        expect(findQuorumThreshold(RULES, 'org', 'sign_event', 0)).toBe(3);
+    });
+
+    it('should only apply to sign_event', () => {
+        expect(findQuorumThreshold(RULES, 'org', 'nip44_encrypt', undefined)).toBeNull();
+        expect(findQuorumThreshold(RULES, 'org', 'connect', undefined)).toBeNull();
+    });
+
+    it('should not match kind rules when the kind is unknown', () => {
+        expect(findQuorumThreshold([{ keyName: null, kind: 0, threshold: 2 }], 'org', 'sign_event', undefined)).toBeNull();
+    });
+});
+
+describe('getQuorumThreshold', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        const dbModule = await import('../../../db.js');
+        mockPrisma = dbModule.default;
+        vi.clearAllMocks();
+        invalidateQuorumRuleCache();
+    });
+
+    it('should read the kind from the event payload', async () => {
+        mockPrisma.quorumRule.findMany.mockResolvedValue(RULES);
+
+        const event = JSON.stringify({ kind: 0, content: '{}', tags: [], created_at: 1 });
+        expect(await getQuorumThreshold('personal', 'sign_event', event)).toBe(3);
+    });
+
+    it('should cache rules until invalidated', async () => {
+        mockPrisma.quorumRule.findMany.mockResolvedValue(RULES);
+
+        await getQuorumThreshold('org', 'sign_event');
+        await getQuorumThreshold('org', 'sign_event');
+        expect(mockPrisma.quorumRule.findMany).toHaveBeenCalledTimes(1);
+
+        invalidateQuorumRuleCache();
+        await getQuorumThreshold('org', 'sign_event');
+        expect(mockPrisma.quorumRule.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the lookup for other methods', async () => {
+        expect(await getQuorumThreshold('org', 'get_public_key')).toBeNull();
+        expect(mockPrisma.quorumRule.findMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('parseApproverPubkey', () => {
+    it('should accept hex pubkeys', () => {
+        expect(parseApproverPubkey(PUBKEY.toUpperCase())).toBe(PUBKEY);
+    });
+
+    it('should accept npubs', () => {
+        expect(parseApproverPubkey(` ${nip19.npubEncode(PUBKEY)} `)).toBe(PUBKEY);
+    });
+
+    it('should reject anything else', () => {
+        expect(parseApproverPubkey('npub1invalid')).toBeNull();
+        expect(parseApproverPubkey(nip19.noteEncode(PUBKEY))).toBeNull();
+        expect(parseApproverPubkey('alice')).toBeNull();
+    });
+});
+
+describe('hashApproverToken', () => {
+    it('should hash deterministically', () => {
+        expect(hashApproverToken('token')).toBe(hashApproverToken('token'));
+        expect(hashApproverToken('token')).not.toBe('token');
+    });
+});
+
+describe('toRequestQuorum', () => {
+    it('should list approvals with approver names', () => {
+        const approvedAt = new Date('2026-01-14T09:00:00Z');
+        expect(toRequestQuorum(2, [{ approverId: 4, createdAt: approvedAt, Approver: { name: 'Alice' } }])).toEqual({
+            threshold: 2,
+            approvals: [{ approverId: 4, approverName: 'Alice', approvedAt: '2026-01-14T09:00:00.000Z' }],
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AppQuotaConfig } from '@signet/types';
+import { QuotaTracker, parseQuotaConfig, ruleMatches, QUOTA_WINDOW_MS } from '../quota.js';
+
+describe('parseQuotaConfig', () => {
+    it('should return null for empty values', () => {
+        expect(parseQuotaConfig(null)).toBeNull();
+        expect(parseQuotaConfig(undefined)).toBeNull();
+        expect(parseQuotaConfig('')).toBeNull();
+    });
+
+    it('should return null for malformed JSON', () => {
+        expect(parseQuotaConfig('{not json')).toBeNull();
+        expect(parseQuotaConfig('{"overflow":"deny"}')).toBeNull();
+    });
+
+    it('should default unknown overflow actions to deny', () => {
+        expect(parseQuotaConfig('{"rules":[],"overflow":"explode"}')).toEqual({ rules: [], overflow: 'deny' });
+    });
+
+    it('should parse a stored config', () => {
+        const config: AppQuotaConfig = { overflow: 'manual', rules: [{ method: 'sign_event', perMinute: 10 }] };
+        expect(parseQuotaConfig(JSON.stringify(config))).toEqual(config);
+    });
+});
+
+describe('ruleMatches', () => {
+    it('should match everything when method and kind are omitted', () => {
+        expect(ruleMatches({ perMinute: 1 }, 'sign_event', 1)).toBe(true);
+        expect(ruleMatches({ perMinute: 1 }, 'nip44_encrypt')).toBe(true);
+    });
+
+    it('should match on method', () => {
+        expect(ruleMatches({ method: 'sign_event', perMinute: 1 }, 'sign_event', 7)).toBe(true);
+        expect(ruleMatches({ method: 'sign_event', perMinute: 1 }, 'nip44_encrypt')).toBe(false);
+    });
+
+    it('should only match the configured kind', () => {
+        expect(ruleMatches({ kind: 1, perMinute: 1 }, 'sign_event', 1)).toBe(true);
+        expect(ruleMatches({ kind: 1, perMinute: 1 }, 'sign_event', 7)).toBe(false);
+        expect(ruleMatches({ kind: 1, perMinute: 1 }, 'nip44_encrypt')).toBe(false);
+    });
+});
+
+describe('QuotaTracker', () => {
+    let tracker: QuotaTracker;
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+        tracker = new QuotaTracker();
+    });
+
+    it('should allow requests up to the limit', () => {
+        const config: AppQuotaConfig = { overflow: 'deny', rules: [{ perMinute: 3 }] };
+
+        for (let i = 0; i < 3; i++) {
+            expect(tracker.check(1, config, 'sign_event', 1, now + i)).toBeNull();
+            tracker.record(1, config, 'sign_event', 1, now + i);
+        }
+
+        const hit = tracker.check(1, config, 'sign_event', 1, now + 10);
+        expect(hit).toMatchObject({ method: 'sign_event', kind: 1, window: 'minute', limit: 3, action: 'deny' });
+    });
+
+    it('should free up quota once the window slides past old requests', () => {
+        const config: AppQuotaConfig = { overflow: 'deny', rules: [{ perMinute: 1 }] };
+
+        tracker.record(1, config, 'sign_event', 1, now);
+        expect(tracker.check(1, config, 'sign_event', 1, now + 1000)).not.toBeNull();
+        expect(tracker.check(1, config, 'sign_event', 1, now + QUOTA_WINDOW_MS.minute + 1)).toBeNull();
+    });
+
+    it('should enforce the tightest of several windows', () => {
+        const config: AppQuotaConfig = { overflow: 'manual', rules: [{ perMinute: 100, perHour: 2 }] };
+
+        tracker.record(1, config, 'ping', undefined, now);
+        tracker.record(1, config, 'ping', undefined, now + QUOTA_WINDOW_MS.minute * 5);
+
+        const hit = tracker.check(1, config, 'ping', undefined, now + QUOTA_WINDOW_MS.minute * 10);
+        expect(hit).toMatchObject({ window: 'hour', limit: 2, action: 'manual' });
+    });
+
+    it('should count per-kind rules separately', () => {
+        const config: AppQuotaConfig = { overflow: 'deny', rules: [{ method: 'sign_event', kind: 7, perMinute: 1 }] };
+
+        tracker.record(1, config, 'sign_event', 7, now);
+        expect(tracker.check(1, config, 'sign_event', 7, now + 1)).not.toBeNull();
+        expect(tracker.check(1, config, 'sign_event', 1, now + 1)).toBeNull();
+    });
+
+    it('should keep separate counters for rules on the same method', () => {
+        const config: AppQuotaConfig = {
+            overflow: 'deny',
+            rules: [{ method: 'sign_event', perMinute: 2 }, { method: 'sign_event', perHour: 10 }],
+        };
+
+        tracker.record(1, config, 'sign_event', 1, now);
+        expect(tracker.check(1, config, 'sign_event', 1, now + 1)).toBeNull();
+    });
+
+    it('should track apps independently', () => {
+        const config: AppQuotaConfig = { overflow: 'deny', rules: [{ perMinute: 1 }] };
+
+        tracker.record(1, config, 'sign_event', 1, now);
+        expect(tracker.check(1, config, 'sign_event', 1, now + 1)).not.toBeNull();
+        expect(tracker.check(2, config, 'sign_event', 1, now + 1)).toBeNull();
+    });
+
+    it('should remember the last hit until reset', () => {
+        const config: AppQuotaConfig = { overflow: 'deny', rules: [{ perMinute: 1 }] };
+
+        tracker.record(1, config, 'sign_event', 1, now);
+        tracker.check(1, config, 'sign_event', 1, now + 1);
+        expect(tracker.getLastHit(1)).toMatchObject({ limit: 1 });
+
+        tracker.reset(1);
+        expect(tracker.getLastHit(1)).toBeNull();
+        expect(tracker.check(1, config, 'sign_event', 1, now + 2)).toBeNull();
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { generateSecretKey, getPublicKey, verifyEvent } from 'nostr-tools/pure';
+import { nsecEncode } from 'nostr-tools/nip19';
+import { makeAuthEvent } from 'nostr-tools/nip42';
+import { bytesToHex } from '../hex.js';
+import {
+    DEDICATED_AUTH_SIGNER,
+    parseAuthSecret,
+    resolveRelayAuthSigner,
+    signRelayAuthEvent,
+} from '../relay-auth.js';
+
+const workSecret = generateSecretKey();
+const authSecret = generateSecretKey();
+const activeKeys = { work: nsecEncode(workSecret) };
+
+describe('parseAuthSecret', () => {
+    it('should accept nsec and hex secrets', () => {
+        expect(parseAuthSecret(nsecEncode(workSecret))).toEqual(workSecret);
+        expect(parseAuthSecret(bytesToHex(workSecret))).toEqual(workSecret);
+    });
+});
+
+describe('resolveRelayAuthSigner', () => {
+    it('should ignore challenges when AUTH is not configured', () => {
+        expect(resolveRelayAuthSigner('wss://relay.example.com/', undefined, activeKeys)).toBeNull();
+        expect(resolveRelayAuthSigner('wss://relay.example.com/', {}, activeKeys)).toBeNull();
+    });
+
+    it('should use the key named for the relay, matching normalized URLs', () => {
+        const signer = resolveRelayAuthSigner('wss://private.example.com/', {
+            relays: { 'wss://Private.example.com': 'work' },
+            key: bytesToHex(authSecret),
+        }, activeKeys);
+
+        expect(signer?.label).toBe('work');
+        expect(signer?.secretKey).toEqual(workSecret);
+    });
+
+    it('should fall back to the dedicated relay-auth key', () => {
+        const signer = resolveRelayAuthSigner('wss://other.example.com/', {
+            relays: { 'wss://private.example.com': 'work' },
+            key: nsecEncode(authSecret),
+        }, activeKeys);
+
+        expect(signer?.label).toBe(DEDICATED_AUTH_SIGNER);
+        expect(signer?.secretKey).toEqual(authSecret);
+    });
+
+    it('should throw when the configured key is locked', () => {
+        expect(() => resolveRelayAuthSigner('wss://private.example.com', {
+            relays: { 'wss://private.example.com': 'personal' },
+        }, activeKeys)).toThrow('Key "personal" is locked or missing');
+    });
+});
+
+describe('signRelayAuthEvent', () => {
+    it('should sign kind 22242 events with the signer key', () => {
+        const template = makeAuthEvent('wss://private.example.com/', 'challenge-1');
+        const event = signRelayAuthEvent(template, { label: 'work', secretKey: workSecret });
+
+        expect(verifyEvent(event)).toBe(true);
+        expect(event.kind).toBe(22242);
+        expect(event.pubkey).toBe(getPublicKey(workSecret));
+        expect(event.tags).toContainEqual(['challenge', 'challenge-1']);
+    });
+
+    it('should refuse other kinds', () => {
+        const template = { kind: 1, content: 'hello', tags: [], created_at: 0 };
+
+        expect(() => signRelayAuthEvent(template, { label: 'work', secretKey: workSecret }))
+            .toThrow('Refusing to sign kind 1 as relay AUTH');
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RelayHealthTracker } from '../relay-health.js';
+import { RELAY_HEALTH_HISTORY_POINTS, RELAY_HEALTH_WINDOW_MS } from '../../constants.js';
+
+const RELAY = 'wss://relay.example.com';
+
+describe('RelayHealthTracker', () => {
+    let now: number;
+    let tracker: RelayHealthTracker;
+
+    beforeEach(() => {
+        now = Date.parse('2026-01-01T00:00:00Z');
+        tracker = new RelayHealthTracker(() => now);
+    });
+
+    it('should not score a relay until it has enough samples', () => {
+        tracker.record({ url: RELAY, type: 'connect', ok: true, latencyMs: 100 });
+
+        expect(tracker.getHealth(RELAY)).toMatchObject({ score: null, connectRate: 1, samples: 1 });
+    });
+
+    it('should give a fast, reliable relay full marks', () => {
+        for (let i = 0; i < 3; i++) {
+            tracker.record({ url: RELAY, type: 'connect', ok: true, latencyMs: 80 });
+            tracker.record({ url: RELAY, type: 'eose', ok: true, latencyMs: 120 });
+            tracker.record({ url: RELAY, type: 'publish', ok: true, latencyMs: 200 });
+        }
+
+        expect(tracker.getHealth(RELAY)).toEqual({
+            score: 100,
+            connectRate: 1,
+            publishRate: 1,
+            publishLatencyMs: 200,
+            eoseLatencyMs: 120,
+            recentFailures: 0,
+            samples: 9,
+        });
+    });
+
+    it('should score a relay that never connects at zero', () => {
+        for (let i = 0; i < 5; i++) {
+            tracker.record({ url: RELAY, type: 'connect', ok: false });
+        }
+
+        expect(tracker.getHealth(RELAY)).toMatchObject({ score: 0, connectRate: 0, recentFailures: 5 });
+    });
+
+    it('should mark down slow relays', () => {
+        for (let i = 0; i < 3; i++) {
+            tracker.record({ url: RELAY, type: 'connect', ok: true });
+            tracker.record({ url: RELAY, type: 'eose', ok: true, latencyMs: 2750 });
+        }
+
+        // Half the latency component: 100 - 20 * 0.5
+        expect(tracker.getHealth(RELAY).score).toBe(90);
+    });
+
+    it('should forget samples older than the window', () => {
+        for (let i = 0; i < 3; i++) {
+            tracker.record({ url: RELAY, type: 'connect', ok: false });
+        }
+        now += RELAY_HEALTH_WINDOW_MS + 1;
+        tracker.record({ url: RELAY, type: 'connect', ok: true });
+
+        expect(tracker.getHealth(RELAY)).toMatchObject({ connectRate: 1, recentFailures: 0, samples: 1 });
+    });
+
+    it('should keep a bounded history of snapshots', () => {
+        tracker.record({ url: RELAY, type: 'connect', ok: true });
+        for (let i = 0; i < RELAY_HEALTH_HISTORY_POINTS + 5; i++) {
+            tracker.snapshot([RELAY]);
+            now += 1000;
+        }
+
+        const history = tracker.getHistory(RELAY);
+        expect(history).toHaveLength(RELAY_HEALTH_HISTORY_POINTS);
+        expect(history[0].connectRate).toBe(1);
+    });
+
+    it('should drop relays that are no longer retained', () => {
+        tracker.record({ url: RELAY, type: 'connect', ok: true });
+        tracker.snapshot([RELAY]);
+        tracker.retain([]);
+
+        expect(tracker.getHealth(RELAY).samples).toBe(0);
+        expect(tracker.getHistory(RELAY)).toEqual([]);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { PendingRequest } from '@signet/types';
+import { formatPendingRequestDm, parseRequestDecision, shortRequestId } from '../request-notifications.js';
+
+const REQUEST_ID = '3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+
+function makeRequest(overrides: Partial<PendingRequest> = {}): PendingRequest {
+    return {
+        id: REQUEST_ID,
+        keyName: 'main',
+        method: 'sign_event',
+        remotePubkey: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+        params: null,
+        eventPreview: { kind: 1, content: 'Hello\nworld', tags: [] },
+        createdAt: '2026-01-15T10:00:00.000Z',
+        expiresAt: '2026-01-15T10:01:00.000Z',
+        ttlSeconds: 60,
+        requiresPassword: false,
+        processedAt: null,
+        autoApproved: false,
+        appName: 'Damus',
+        ...overrides,
+    };
+}
+
+describe('parseRequestDecision', () => {
+    it('should parse approve and deny replies', () => {
+        expect(parseRequestDecision('approve 3f2a9c1e')).toEqual({ action: 'approve', requestId: '3f2a9c1e', always: false });
+        expect(parseRequestDecision('approve 3f2a9c1e always')).toEqual({ action: 'approve', requestId: '3f2a9c1e', always: true });
+        expect(parseRequestDecision('deny 3f2a9c1e')).toEqual({ action: 'deny', requestId: '3f2a9c1e' });
+    });
+
+    it('should accept full request IDs', () => {
+        expect(parseRequestDecision(`deny ${REQUEST_ID}`)).toEqual({ action: 'deny', requestId: REQUEST_ID });
+    });
+
+    it('should reject malformed replies', () => {
+        expect(parseRequestDecision('approve')).toBeNull();
+        expect(parseRequestDecision('approve abc')).toBeNull();
+        expect(parseRequestDecision('approve damus')).toBeNull();
+        expect(parseRequestDecision('deny 3f2a9c1e always')).toBeNull();
+        expect(parseRequestDecision('approve 3f2a9c1e forever')).toBeNull();
+    });
+});
+
+describe('formatPendingRequestDm', () => {
+    it('should summarize the request with reply instructions', () => {
+        const dm = formatPendingRequestDm(makeRequest());
+
+        expect(dm).toContain(`Pending request ${shortRequestId(REQUEST_ID)}`);
+        expect(dm).toContain('App: Damus');
+        expect(dm).toContain('Method: sign_event (kind 1)');
+        expect(dm).toContain('Content: Hello world');
+        expect(dm).toContain('"approve 3f2a9c1e always"');
+    });
+
+    it('should truncate long content', () => {
+        const dm = formatPendingRequestDm(makeRequest({ eventPreview: { kind: 1, content: 'x'.repeat(500), tags: [] } }));
+
+        expect(dm).toContain(`${'x'.repeat(120)}…`);
+        expect(dm).not.toContain('x'.repeat(121));
+    });
+
+    it('should fall back to the app pubkey and mention quorums', () => {
+        const dm = formatPendingRequestDm(makeRequest({
+            appName: null,
+            method: 'nip44_decrypt',
+            eventPreview: null,
+            quorum: { threshold: 2, approvals: [] },
+        }));
+
+        expect(dm).toContain('App: 0123456789ab…');
+        expect(dm).toContain('Method: nip44_decrypt');
+        expect(dm).toContain('Needs 2 approvals');
+        expect(dm).not.toContain('Content:');
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Event } from 'nostr-tools/pure';
+import { publishResponse, toResponseDelivery } from '../response-delivery.js';
+import type { RelayPool } from '../relay-pool.js';
+
+const KEY_RELAY = 'wss://key.example';
+const APP_RELAY = 'wss://app.example';
+const BACKUP_RELAYS = ['wss://backup-1.example', 'wss://backup-2.example', 'wss://backup-3.example', 'wss://backup-4.example'];
+
+const event = { id: 'abc', kind: 24133 } as Event;
+
+/**
+ * Pool stand-in where only the relays in `accepting` answer OK
+ */
+function createPool(accepting: Set<string>) {
+    return {
+        publishSettled: vi.fn(async (_event: Event, relays: string[]) => ({
+            successes: relays.filter(url => accepting.has(url)),
+            failures: relays
+                .filter(url => !accepting.has(url))
+                .map(url => ({ url, error: 'blocked: rate-limited' })),
+        })),
+        getAlternateRelays: vi.fn((exclude: string[]) => BACKUP_RELAYS.filter(url => !exclude.includes(url))),
+    };
+}
+
+describe('publishResponse', () => {
+    it('should record every relay the response went to', async () => {
+        const pool = createPool(new Set([KEY_RELAY]));
+
+        const delivery = await publishResponse(pool as unknown as RelayPool, event, [KEY_RELAY, APP_RELAY, KEY_RELAY]);
+
+        expect(delivery.status).toBe('delivered');
+        expect(delivery.relays).toEqual([
+            { url: KEY_RELAY, ok: true },
+            { url: APP_RELAY, ok: false, error: 'blocked: rate-limited' },
+        ]);
+        expect(pool.getAlternateRelays).not.toHaveBeenCalled();
+    });
+
+    it('should retry on the best alternate relays when every relay fails', async () => {
+        const pool = createPool(new Set([BACKUP_RELAYS[1]]));
+
+        const delivery = await publishResponse(pool as unknown as RelayPool, event, [KEY_RELAY]);
+
+        expect(pool.getAlternateRelays).toHaveBeenCalledWith([KEY_RELAY]);
+        expect(pool.publishSettled).toHaveBeenLastCalledWith(event, BACKUP_RELAYS.slice(0, 3));
+        expect(delivery.status).toBe('delivered');
+        expect(delivery.relays).toContainEqual({ url: BACKUP_RELAYS[1], ok: true, retry: true });
+        expect(delivery.relays).toContainEqual({ url: KEY_RELAY, ok: false, error: 'blocked: rate-limited' });
+    });
+
+    it('should report failure when the retry fails too', async () => {
+        const pool = createPool(new Set());
+
+        const delivery = await publishResponse(pool as unknown as RelayPool, event, [KEY_RELAY]);
+
+        expect(delivery.status).toBe('failed');
+        expect(delivery.relays).toHaveLength(4);
+        expect(delivery.relays.every(result => !result.ok)).toBe(true);
+    });
+});
+
+describe('toResponseDelivery', () => {
+    const at = new Date('2026-01-20T09:00:00Z');
+
+    it('should return null until a response was sent', () => {
+        expect(toResponseDelivery(null, null, null)).toBeNull();
+    });
+
+    it('should rebuild a stored outcome', () => {
+        const relays = JSON.stringify([{ url: KEY_RELAY, ok: false, error: 'timeout' }]);
+
+        expect(toResponseDelivery('failed', relays, at)).toEqual({
+            status: 'failed',
+            relays: [{ url: KEY_RELAY, ok: false, error: 'timeout' }],
+            at: '2026-01-20T09:00:00.000Z',
+        });
+    });
+
+    it('should keep the status when the relay detail is unreadable', () => {
+        expect(toResponseDelivery('delivered', 'not json', at)?.relays).toEqual([]);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { AppSchedule } from '@signet/types';
+import {
+    parseAppSchedule,
+    parseTimeOfDay,
+    isValidTimezone,
+    getZonedTime,
+    isWithinSchedule,
+} from '../schedule.js';
+
+const WEEKDAYS_9_TO_6: AppSchedule = {
+    timezone: 'UTC',
+    windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }],
+    outside: 'manual',
+};
+
+describe('parseAppSchedule', () => {
+    it('should return null for empty or malformed values', () => {
+        expect(parseAppSchedule(null)).toBeNull();
+        expect(parseAppSchedule('')).toBeNull();
+        expect(parseAppSchedule('{oops')).toBeNull();
+        expect(parseAppSchedule('{"windows":[]}')).toBeNull();
+    });
+
+    it('should default unknown outside actions to manual', () => {
+        const parsed = parseAppSchedule(JSON.stringify({ ...WEEKDAYS_9_TO_6, outside: 'ignore' }));
+        expect(parsed?.outside).toBe('manual');
+    });
+});
+
+describe('parseTimeOfDay', () => {
+    it('should parse HH:MM', () => {
+        expect(parseTimeOfDay('00:00')).toBe(0);
+        expect(parseTimeOfDay('09:30')).toBe(570);
+        expect(parseTimeOfDay('23:59')).toBe(1439);
+    });
+
+    it('should reject malformed times', () => {
+        expect(parseTimeOfDay('24:00')).toBeNull();
+        expect(parseTimeOfDay('9:30')).toBeNull();
+        expect(parseTimeOfDay('09:60')).toBeNull();
+        expect(parseTimeOfDay(930)).toBeNull();
+    });
+});
+
+describe('isValidTimezone', () => {
+    it('should accept IANA names and reject unknown ones', () => {
+        expect(isValidTimezone('UTC')).toBe(true);
+        expect(isValidTimezone('Europe/Berlin')).toBe(true);
+        expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+        expect(isValidTimezone('')).toBe(false);
+    });
+});
+
+describe('getZonedTime', () => {
+    it('should convert to the schedule timezone', () => {
+        // Monday 2026-01-12 08:30 UTC is 09:30 in Berlin (CET, UTC+1)
+        const date = new Date('2026-01-12T08:30:00Z');
+        expect(getZonedTime('UTC', date)).toEqual({ day: 1, minutes: 510 });
+        expect(getZonedTime('Europe/Berlin', date)).toEqual({ day: 1, minutes: 570 });
+    });
+});
+
+describe('isWithinSchedule', () => {
+    it('should match inside a weekday window', () => {
+        expect(isWithinSchedule(WEEKDAYS_9_TO_6, new Date('2026-01-12T09:00:00Z'))).toBe(true);
+        expect(isWithinSchedule(WEEKDAYS_9_TO_6, new Date('2026-01-16T17:59:00Z'))).toBe(true);
+    });
+
+    it('should not match outside the hours or on other days', () => {
+        expect(isWithinSchedule(WEEKDAYS_9_TO_6, new Date('2026-01-12T08:59:00Z'))).toBe(false);
+        expect(isWithinSchedule(WEEKDAYS_9_TO_6, new Date('2026-01-12T18:00:00Z'))).toBe(false);
+        // Saturday
+        expect(isWithinSchedule(WEEKDAYS_9_TO_6, new Date('2026-01-17T12:00:00Z'))).toBe(false);
+    });
+
+    it('should evaluate windows in the schedule timezone', () => {
+        const berlin = { ...WEEKDAYS_9_TO_6, timezone: 'Europe/Berlin' };
+        // 08:30 UTC is 09:30 in Berlin
+        expect(isWithinSchedule(berlin, new Date('2026-01-12T08:30:00Z'))).toBe(true);
+        // 17:30 UTC is 18:30 in Berlin
+        expect(isWithinSchedule(berlin, new Date('2026-01-12T17:30:00Z'))).toBe(false);
+    });
+
+    it('should carry overnight windows into the next day', () => {
+        const fridayNight: AppSchedule = {
+            timezone: 'UTC',
+            windows: [{ days: [5], start: '22:00', end: '02:00' }],
+            outside: 'deny',
+        };
+        expect(isWithinSchedule(fridayNight, new Date('2026-01-16T23:00:00Z'))).toBe(true);
+        // Saturday 01:00 belongs to Friday's window
+        expect(isWithinSchedule(fridayNight, new Date('2026-01-17T01:00:00Z'))).toBe(true);
+        expect(isWithinSchedule(fridayNight, new Date('2026-01-17T02:00:00Z'))).toBe(false);
+        // Friday 01:00 belongs to Thursday, which isn't scheduled
+        expect(isWithinSchedule(fridayNight, new Date('2026-01-16T01:00:00Z'))).toBe(false);
+    });
+
+    it('should treat equal start and end as the whole day', () => {
+        const sundays: AppSchedule = {
+            timezone: 'UTC',
+            windows: [{ days: [0], start: '00:00', end: '00:00' }],
+            outside: 'deny',
+        };
+        expect(isWithinSchedule(sundays, new Date('2026-01-18T23:59:00Z'))).toBe(true);
+        expect(isWithinSchedule(sundays, new Date('2026-01-19T00:00:00Z'))).toBe(false);
+    });
+
+    it('should fail closed for unknown timezones', () => {
+        const broken = { ...WEEKDAYS_9_TO_6, timezone: 'Nowhere/Special' };
+        expect(isWithinSchedule(broken, new Date('2026-01-12T12:00:00Z'))).toBe(false);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '../hex.js';
+import { derivationPath, deriveSeedKey, generateMnemonic, normalizeMnemonic } from '../seed.js';
+
+// Test vector from NIP-06
+const MNEMONIC = 'leader monkey parrot ring guide accident before fence cannon height naive bean';
+const SECRET_0 = '7f7ff03d123792d6ac594bfa67bf6d0c0ab55b6b1fdb6249303fe861f1ccba9a';
+
+describe('deriveSeedKey', () => {
+    it('should derive the NIP-06 key for account 0', () => {
+        expect(bytesToHex(deriveSeedKey(MNEMONIC, 0))).toBe(SECRET_0);
+        expect(derivationPath(0)).toBe("m/44'/1237'/0'/0/0");
+    });
+
+    it('should derive a different key for each index', () => {
+        const keys = [0, 1, 2].map((index) => bytesToHex(deriveSeedKey(MNEMONIC, index)));
+
+        expect(new Set(keys).size).toBe(3);
+        expect(bytesToHex(deriveSeedKey(MNEMONIC, 1))).toBe(keys[1]);
+    });
+
+    it('should reject indexes outside the hardened range', () => {
+        expect(() => deriveSeedKey(MNEMONIC, -1)).toThrow('Invalid derivation index');
+        expect(() => deriveSeedKey(MNEMONIC, 1.5)).toThrow('Invalid derivation index');
+        expect(() => deriveSeedKey(MNEMONIC, 2 ** 31)).toThrow('Invalid derivation index');
+    });
+});
+
+describe('normalizeMnemonic', () => {
+    it('should tidy spacing and case', () => {
+        expect(normalizeMnemonic(`  ${MNEMONIC.toUpperCase().split(' ').join('\n')} `)).toBe(MNEMONIC);
+    });
+
+    it('should reject unknown words and bad checksums', () => {
+        expect(() => normalizeMnemonic(MNEMONIC.replace('bean', 'beans'))).toThrow('Invalid mnemonic');
+        expect(() => normalizeMnemonic(MNEMONIC.replace('bean', 'leader'))).toThrow('Invalid mnemonic');
+    });
+
+    it('should accept generated mnemonics', () => {
+        const mnemonic = generateMnemonic();
+
+        expect(mnemonic.split(' ')).toHaveLength(12);
+        expect(normalizeMnemonic(mnemonic)).toBe(mnemonic);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { generateSecretKey } from 'nostr-tools/pure';
+import { combineKeyShares, parseShare, splitKey, validateShareCounts } from '../shamir.js';
+import { bytesToHex } from '../hex.js';
+
+// A share with one hex digit of its value changed
+function corrupt(share: string): string {
+    const at = share.length - 20;
+    const digit = share[at] === '0' ? '1' : '0';
+    return share.slice(0, at) + digit + share.slice(at + 1);
+}
+
+describe('splitKey / combineKeyShares', () => {
+    it('should recover the key from any threshold of shares', () => {
+        const secret = generateSecretKey();
+        const shares = splitKey(secret, 3, 5);
+
+        expect(shares).toHaveLength(5);
+        for (const picked of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]]) {
+            const recovered = combineKeyShares(picked.map((i) => shares[i]));
+            expect(bytesToHex(recovered)).toBe(bytesToHex(secret));
+        }
+    });
+
+    it('should refuse fewer shares than the threshold', () => {
+        const shares = splitKey(generateSecretKey(), 3, 5);
+
+        expect(() => combineKeyShares(shares.slice(0, 2))).toThrow('3 different shares are required, got 2');
+        // The same share twice only counts once
+        expect(() => combineKeyShares([shares[0], shares[0], shares[1]])).toThrow('got 2');
+    });
+
+    it('should refuse shares of different keys', () => {
+        const a = splitKey(generateSecretKey(), 2, 3);
+        const b = splitKey(generateSecretKey(), 2, 3);
+
+        expect(() => combineKeyShares([a[0], b[1]])).toThrow('different keys');
+    });
+
+    it('should reject out of range counts', () => {
+        expect(validateShareCounts(2, 3).valid).toBe(true);
+        expect(validateShareCounts(1, 3).valid).toBe(false);
+        expect(validateShareCounts(4, 3).valid).toBe(false);
+        expect(validateShareCounts(2, 17).valid).toBe(false);
+        expect(() => splitKey(generateSecretKey(), 5, 3)).toThrow('Threshold');
+    });
+});
+
+describe('parseShare', () => {
+    it('should decode the header fields', () => {
+        const shares = splitKey(generateSecretKey(), 2, 4);
+        const share = parseShare(`  ${shares[2].toUpperCase()}\n`);
+
+        expect(share).toMatchObject({ threshold: 2, index: 3 });
+        expect(share.keyId).toMatch(/^[0-9a-f]{8}$/);
+        expect(share.value).toHaveLength(32);
+    });
+
+    it('should catch typos with the checksum', () => {
+        const [share] = splitKey(generateSecretKey(), 2, 2);
+
+        expect(() => parseShare(corrupt(share))).toThrow('checksum mismatch');
+        expect(() => parseShare(share.slice(0, -2))).toThrow('wrong length');
+        expect(() => parseShare('nsec1abc')).toThrow('Invalid share');
+    });
+});
@@ -5,6 +5,9 @@ import {
     validatePassphrase,
     validateUri,
     validateRelays,
+    validateQuotaConfig,
+    validateAppSchedule,
+    validateEventConstraints,
     sanitizeString,
 } from '../validation.js';
 
@@ -139,6 +142,132 @@ describe('validateRelays', () => {
     });
 });
 
+describe('validateAppSchedule', () => {
+    const valid = {
+        timezone: 'Europe/Berlin',
+        windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }],
+        outside: 'manual',
+    };
+
+    it('should accept a valid schedule', () => {
+        expect(validateAppSchedule(valid)).toEqual({ valid: true });
+    });
+
+    it('should reject unknown timezones', () => {
+        const result = validateAppSchedule({ ...valid, timezone: 'Nowhere/Special' });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('timezone');
+    });
+
+    it('should reject unknown outside actions', () => {
+        expect(validateAppSchedule({ ...valid, outside: 'ignore' }).valid).toBe(false);
+    });
+
+    it('should require at least one window', () => {
+        expect(validateAppSchedule({ ...valid, windows: [] }).valid).toBe(false);
+    });
+
+    it('should reject invalid days and times', () => {
+        expect(validateAppSchedule({ ...valid, windows: [{ days: [7], start: '09:00', end: '18:00' }] }).valid).toBe(false);
+        expect(validateAppSchedule({ ...valid, windows: [{ days: [], start: '09:00', end: '18:00' }] }).valid).toBe(false);
+        expect(validateAppSchedule({ ...valid, windows: [{ days: [1], start: '9am', end: '18:00' }] }).valid).toBe(false);
+    });
+});
+
+describe('validateQuotaConfig', () => {
+    it('should accept a valid config', () => {
+        expect(validateQuotaConfig({
+            overflow: 'deny',
+            rules: [
+                { perMinute: 30 },
+                { method: 'sign_event', kind: 1, perHour: 100, perDay: 500 },
+            ],
+        })).toEqual({ valid: true });
+    });
+
+    it('should accept an empty rule list', () => {
+        expect(validateQuotaConfig({ overflow: 'manual', rules: [] })).toEqual({ valid: true });
+    });
+
+    it('should reject unknown overflow actions', () => {
+        const result = validateQuotaConfig({ overflow: 'ignore', rules: [] });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('overflow');
+    });
+
+    it('should reject rules without a limit', () => {
+        const result = validateQuotaConfig({ overflow: 'deny', rules: [{ method: 'sign_event' }] });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('at least one limit');
+    });
+
+    it('should reject non-positive or fractional limits', () => {
+        expect(validateQuotaConfig({ overflow: 'deny', rules: [{ perMinute: 0 }] }).valid).toBe(false);
+        expect(validateQuotaConfig({ overflow: 'deny', rules: [{ perHour: 1.5 }] }).valid).toBe(false);
+        expect(validateQuotaConfig({ overflow: 'deny', rules: [{ perDay: -3 }] }).valid).toBe(false);
+    });
+
+    it('should reject invalid kinds', () => {
+        const result = validateQuotaConfig({ overflow: 'deny', rules: [{ kind: 'note', perMinute: 5 }] });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('kind');
+    });
+
+    it('should reject too many rules', () => {
+        const rules = Array.from({ length: 50 }, () => ({ perMinute: 1 }));
+        const result = validateQuotaConfig({ overflow: 'deny', rules });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('At most');
+    });
+});
+
+describe('validateEventConstraints', () => {
+    it('should accept valid constraints', () => {
+        expect(validateEventConstraints({
+            forbidTags: ['p'],
+            requireTags: [{ name: 't', value: 'bitcoin' }, { name: 'client' }],
+            contentNotMatches: 'https?://',
+            maxContentLength: 280,
+            maxPastMinutes: 10,
+            maxFutureMinutes: 5,
+        })).toEqual({ valid: true });
+    });
+
+    it('should require at least one constraint', () => {
+        const result = validateEventConstraints({});
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('required');
+    });
+
+    it('should reject non-objects', () => {
+        expect(validateEventConstraints(null).valid).toBe(false);
+        expect(validateEventConstraints(['p']).valid).toBe(false);
+    });
+
+    it('should reject invalid tag lists', () => {
+        expect(validateEventConstraints({ forbidTags: 'p' }).valid).toBe(false);
+        expect(validateEventConstraints({ forbidTags: [''] }).valid).toBe(false);
+        expect(validateEventConstraints({ requireTags: [{ value: 'x' }] }).valid).toBe(false);
+        expect(validateEventConstraints({ requireTags: [{ name: 't', value: 1 }] }).valid).toBe(false);
+    });
+
+    it('should reject regexes that do not compile', () => {
+        const result = validateEventConstraints({ contentMatches: '(unclosed' });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('pattern');
+    });
+
+    it('should reject overly long regexes', () => {
+        expect(validateEventConstraints({ contentMatches: 'a'.repeat(257) }).valid).toBe(false);
+    });
+
+    it('should reject negative or fractional numbers', () => {
+        expect(validateEventConstraints({ maxContentLength: -1 }).valid).toBe(false);
+        expect(validateEventConstraints({ maxPastMinutes: 1.5 }).valid).toBe(false);
+        expect(validateEventConstraints({ maxFutureMinutes: 7 * 24 * 60 + 1 }).valid).toBe(false);
+    });
+});
+
 describe('sanitizeString', () => {
     it('should trim whitespace', () => {
         expect(sanitizeString('  hello  ')).toBe('hello');
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import type { ServerEvent } from '../../services/event-service.js';
+import {
+    generateWebhookSecret,
+    getRetryDelay,
+    parseWebhookEvents,
+    parseWebhookUrl,
+    signWebhookPayload,
+    toWebhookData,
+} from '../webhooks.js';
+import { WEBHOOK_RETRY_DELAYS_MS } from '../../constants.js';
+
+describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+        const secret = generateWebhookSecret();
+        const body = JSON.stringify({ hello: 'world' });
+        const expected = crypto.createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+
+        expect(signWebhookPayload(secret, 1700000000, body)).toBe(`sha256=${expected}`);
+    });
+
+    it('should change with the timestamp', () => {
+        const secret = generateWebhookSecret();
+        expect(signWebhookPayload(secret, 1, '{}')).not.toBe(signWebhookPayload(secret, 2, '{}'));
+    });
+
+    it('should create distinct prefixed secrets', () => {
+        const a = generateWebhookSecret();
+        expect(a.startsWith('whsec_')).toBe(true);
+        expect(a).not.toBe(generateWebhookSecret());
+    });
+});
+
+describe('getRetryDelay', () => {
+    it('should back off after each failed attempt', () => {
+        expect(getRetryDelay(1)).toBe(WEBHOOK_RETRY_DELAYS_MS[0]);
+        expect(getRetryDelay(2)).toBe(WEBHOOK_RETRY_DELAYS_MS[1]);
+    });
+
+    it('should give up once every retry is used', () => {
+        expect(getRetryDelay(WEBHOOK_RETRY_DELAYS_MS.length + 1)).toBeNull();
+    });
+});
+
+describe('parseWebhookUrl', () => {
+    it('should accept http and https URLs', () => {
+        expect(parseWebhookUrl('https://example.com/hook')).toBe('https://example.com/hook');
+        expect(parseWebhookUrl(' http://localhost:8080/x ')).toBe('http://localhost:8080/x');
+    });
+
+    it('should reject other schemes and garbage', () => {
+        expect(parseWebhookUrl('ftp://example.com')).toBeNull();
+        expect(parseWebhookUrl('javascript:alert(1)')).toBeNull();
+        expect(parseWebhookUrl('not a url')).toBeNull();
+        expect(parseWebhookUrl(42)).toBeNull();
+    });
+});
+
+describe('parseWebhookEvents', () => {
+    it('should drop unknown event types', () => {
+        expect(parseWebhookEvents('request:created, bogus,key:locked')).toEqual(['request:created', 'key:locked']);
+    });
+});
+
+describe('toWebhookData', () => {
+    it('should leave out request params', () => {
+        const event = {
+            type: 'request:created',
+            request: {
+                id: 'req-1',
+                keyName: 'main',
+                method: 'nip44_decrypt',
+                params: '["pubkey","secret ciphertext"]',
+                eventPreview: null,
+                remotePubkey: 'abc',
+                appName: 'Client',
+                expiresAt: '2026-01-19T09:00:00.000Z',
+            },
+        } as unknown as ServerEvent;
+
+        const result = toWebhookData(event);
+
+        expect(result?.type).toBe('request:created');
+        expect(result?.data).toEqual({
+            requestId: 'req-1',
+            keyName: 'main',
+            method: 'nip44_decrypt',
+            eventKind: null,
+            remotePubkey: 'abc',
+            appName: 'Client',
+            expiresAt: '2026-01-19T09:00:00.000Z',
+        });
+        expect(JSON.stringify(result)).not.toContain('secret ciphertext');
+    });
+
+    it('should leave out bunker URIs of new keys', () => {
+        const event = {
+            type: 'key:created',
+            key: { name: 'main', npub: 'npub1xyz', bunkerUri: 'bunker://abc?secret=hunter2', status: 'online' },
+        } as unknown as ServerEvent;
+
+        const result = toWebhookData(event);
+
+        expect(result?.data).toEqual({ keyName: 'main', npub: 'npub1xyz' });
+        expect(JSON.stringify(result)).not.toContain('hunter2');
+    });
+
+    it('should leave out admin command text', () => {
+        const event = {
+            type: 'admin:event',
+            activity: {
+                eventType: 'command_executed',
+                keyName: 'main',
+                command: 'unlock main hunter2',
+                commandResult: 'ok',
+                ipAddress: '10.0.0.1',
+            },
+        } as unknown as ServerEvent;
+
+        const serialized = JSON.stringify(toWebhookData(event));
+
+        expect(serialized).not.toContain('hunter2');
+        expect(serialized).not.toContain('10.0.0.1');
+    });
+
+    it('should leave out the backup directory', () => {
+        const event = {
+            type: 'backup:failed',
+            status: {
+                enabled: true,
+                directory: '/home/alice/.signet-config/backups',
+                lastFailureAt: '2026-02-01T03:00:00.000Z',
+                lastError: 'No backup passphrase',
+                lastSuccessAt: null,
+            },
+        } as unknown as ServerEvent;
+
+        const result = toWebhookData(event);
+
+        expect(result?.data).toEqual({ failedAt: '2026-02-01T03:00:00.000Z', error: 'No backup passphrase', lastSuccessAt: null });
+    });
+
+    it('should skip events webhooks do not carry', () => {
+        expect(toWebhookData({ type: 'ping' })).toBeNull();
+        expect(toWebhookData({ type: 'apps:updated' })).toBeNull();
+    });
+});
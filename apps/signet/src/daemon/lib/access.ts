@@ -0,0 +1,215 @@
+/**
+ * Route access checks shared by API tokens and operator roles.
+ *
+ * Both grant a set of scopes that map onto groups of endpoints, optionally
+ * limited to specific keys. Routes are matched by their pattern (e.g.
+ * `/keys/:keyName/lock`), so the table here covers every route in
+ * `http/routes`. Anything not covered is left to owners (`adminNpubs`).
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { ApiTokenScope } from '@signet/types';
+import prisma from '../../db.js';
+
+/**
+ * Scopes and keys granted to a caller
+ */
+export interface AccessGrant {
+    scopes: ApiTokenScope[];
+    /** Keys the caller is limited to, or null for every key */
+    keyNames: string[] | null;
+}
+
+/**
+ * The route being called, as seen by the auth middleware
+ */
+export interface RouteContext {
+    method: string;
+    /** Route pattern, e.g. `/keys/:keyName/lock` */
+    routeUrl: string;
+    params?: Record<string, string>;
+    body?: unknown;
+}
+
+/**
+ * Why a caller was refused: the endpoint isn't delegable, a scope is
+ * missing, or the route acts on a key outside the grant
+ */
+export type AccessDenial =
+    | { reason: 'endpoint' }
+    | { reason: 'scope'; scope: ApiTokenScope }
+    | { reason: 'key' };
+
+// Token, operator, session and webhook management and backups stay with owners
+const OWNER_ONLY_PREFIXES = ['/auth/sessions', '/api-tokens', '/operators', '/webhooks', '/backup'];
+
+// Open to anyone who is signed in, whatever their scopes
+const ANY_SCOPE_ROUTES = new Set(['/auth/logout']);
+
+// Scope needed to change things under each route prefix
+const MUTATION_SCOPES: Array<{ prefix: string; scope: ApiTokenScope }> = [
+    { prefix: '/requests', scope: 'requests' },
+    { prefix: '/apps', scope: 'apps' },
+    { prefix: '/nostrconnect', scope: 'apps' },
+    { prefix: '/keys', scope: 'keys' },
+];
+
+// Actions that touch every key, so key-limited callers can't use them.
+// Rotating a key creates its successor, which is as broad as POST /keys.
+const ALL_KEYS_ROUTES = new Set(['/keys/lock-all', '/keys/:keyName/rotate', '/apps/suspend-all', '/apps/resume-all']);
+
+// Keys each authenticated request may see, set by the auth middleware
+const visibleKeys = new WeakMap<FastifyRequest, string[] | null>();
+
+export function matchesPrefix(url: string, prefix: string): boolean {
+    return url === prefix || url.startsWith(`${prefix}/`);
+}
+
+export function getRouteContext(request: FastifyRequest): RouteContext {
+    return {
+        method: request.method,
+        routeUrl: request.routeOptions.url ?? request.url,
+        params: request.params as Record<string, string>,
+        body: request.body,
+    };
+}
+
+/**
+ * The scope a route needs, 'any' if every signed-in caller may use it, or
+ * null if only owners may call it. Reads need `read`; changes need the
+ * scope of the area they touch.
+ */
+export function requiredScope(method: string, routeUrl: string): ApiTokenScope | 'any' | null {
+    if (ANY_SCOPE_ROUTES.has(routeUrl)) {
+        return 'any';
+    }
+    if (OWNER_ONLY_PREFIXES.some((prefix) => matchesPrefix(routeUrl, prefix))) {
+        return null;
+    }
+
+    const upper = method.toUpperCase();
+    if (upper === 'GET' || upper === 'HEAD') {
+        return 'read';
+    }
+
+    return MUTATION_SCOPES.find(({ prefix }) => matchesPrefix(routeUrl, prefix))?.scope ?? null;
+}
+
+/**
+ * Whether a grant covers the given keys.
+ * Unlimited grants cover anything; limited grants only their keys, and never
+ * actions that span every key (`'all'`).
+ */
+export function hasKeyAccess(grant: Pick<AccessGrant, 'keyNames'>, keyNames: string[] | 'all'): boolean {
+    if (grant.keyNames === null) {
+        return true;
+    }
+    if (keyNames === 'all') {
+        return false;
+    }
+    const allowed = grant.keyNames;
+    return keyNames.every((keyName) => allowed.includes(keyName));
+}
+
+/**
+ * The keys a route acts on: specific key names, `'all'` for actions that
+ * span every key, or null when the route isn't tied to a key (list
+ * endpoints, or a target that doesn't exist and will 404 anyway).
+ */
+export async function resolveTargetKeys(context: RouteContext): Promise<string[] | 'all' | null> {
+    const { routeUrl, params = {} } = context;
+    const method = context.method.toUpperCase();
+    const body = (context.body ?? {}) as Record<string, unknown>;
+
+    if (ALL_KEYS_ROUTES.has(routeUrl) || (routeUrl === '/keys' && method === 'POST')) {
+        return 'all';
+    }
+    if (params.keyName) {
+        return [params.keyName];
+    }
+
+    if (routeUrl === '/nostrconnect') {
+        return typeof body.keyName === 'string' ? [body.keyName] : null;
+    }
+
+    if (routeUrl === '/requests/batch') {
+        const ids = Array.isArray(body.ids) ? body.ids.filter((id): id is string => typeof id === 'string') : [];
+        const requests = await prisma.request.findMany({
+            where: { id: { in: ids } },
+            select: { keyName: true },
+        });
+        return requests.map((request) => request.keyName ?? '');
+    }
+
+    if (routeUrl.startsWith('/requests/') && params.id) {
+        const request = await prisma.request.findUnique({
+            where: { id: params.id },
+            select: { keyName: true },
+        });
+        return request ? [request.keyName ?? ''] : null;
+    }
+
+    if (routeUrl.startsWith('/apps/') && params.id) {
+        const id = Number(params.id);
+        if (!Number.isInteger(id)) {
+            return null;
+        }
+        const app = await prisma.keyUser.findUnique({
+            where: { id },
+            select: { keyName: true },
+        });
+        return app ? [app.keyName] : null;
+    }
+
+    return null;
+}
+
+/**
+ * Check a grant against the route being called.
+ * Returns null if allowed, or why the caller was refused.
+ */
+export async function checkRouteAccess(grant: AccessGrant, context: RouteContext): Promise<AccessDenial | null> {
+    const scope = requiredScope(context.method, context.routeUrl);
+    if (scope === 'any') {
+        return null;
+    }
+    if (scope === null) {
+        return { reason: 'endpoint' };
+    }
+    if (!grant.scopes.includes(scope)) {
+        return { reason: 'scope', scope };
+    }
+
+    if (grant.keyNames !== null) {
+        const targetKeys = await resolveTargetKeys(context);
+        if (targetKeys !== null && !hasKeyAccess(grant, targetKeys)) {
+            return { reason: 'key' };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Record the keys the caller of a request is limited to (null for every key)
+ */
+export function setVisibleKeys(request: FastifyRequest, keyNames: string[] | null): void {
+    visibleKeys.set(request, keyNames);
+}
+
+/**
+ * The keys the caller of a request may see, or null for every key.
+ * List routes aren't tied to a key, so they pass checkRouteAccess and filter
+ * their results with this instead.
+ */
+export function getVisibleKeys(request: FastifyRequest): string[] | null {
+    return visibleKeys.get(request) ?? null;
+}
+
+/**
+ * Whether a record belonging to `keyName` is visible. Key-limited callers
+ * don't see records that aren't tied to a key.
+ */
+export function isKeyVisible(keyNames: string[] | null, keyName: string | null | undefined): boolean {
+    return keyNames === null || (!!keyName && keyNames.includes(keyName));
+}
@@ -1,8 +1,15 @@
 import type { Event } from 'nostr-tools/pure';
+import type { AppQuotaConfig, AppSchedule, QuotaHit } from '@signet/types';
 import createDebug from 'debug';
 import prisma from '../../db.js';
 import { ACL_CACHE_TTL_MS, ACL_CACHE_MAX_SIZE } from '../constants.js';
 import { TTLCache } from './ttl-cache.js';
+import { parseQuotaConfig, quotaTracker } from './quota.js';
+import { isWithinSchedule, parseAppSchedule } from './schedule.js';
+import { selectCondition, toConstrainedEvent } from './event-constraints.js';
+import { consumePolicyRuleUsage, isPolicyRuleActive } from './policy-usage.js';
+import { toTrustProfileRules, type TrustProfileRules } from './trust-profile.js';
+import { getQuorumThreshold } from './quorum.js';
 
 const debug = createDebug('signet:acl');
 
@@ -28,13 +35,16 @@ interface CacheEntry {
         trustLevel: string | null;
     };
     hasExplicitDeny: boolean;
+    quotas: AppQuotaConfig | null;
+    schedule: AppSchedule | null;
+    trustProfile: TrustProfileRules | null;
 }
 
 /**
  * Check if an app is currently suspended.
  * Returns true if suspended and suspension hasn't expired yet.
  */
-function isCurrentlySuspended(suspendedAt: Date | null, suspendUntil: Date | null): boolean {
+export function isCurrentlySuspended(suspendedAt: Date | null, suspendUntil: Date | null): boolean {
     if (!suspendedAt) {
         return false;
     }
@@ -90,6 +100,15 @@ export function invalidateAclCacheForKey(keyName: string): void {
     aclCache.deleteMatching((key) => key.startsWith(prefix));
 }
 
+/**
+ * Invalidate cache entries for a set of apps, e.g. every app using a trust profile.
+ */
+export function invalidateAclCacheForApps(apps: Array<{ keyName: string; userPubkey: string }>): void {
+    for (const app of apps) {
+        invalidateAclCache(app.keyName, app.userPubkey);
+    }
+}
+
 /**
  * Clear the entire ACL cache.
  */
@@ -114,12 +133,16 @@ export type ApprovalType = 'manual' | 'auto_trust' | 'auto_permission';
  * - autoApproved: true if permitted automatically (for backwards compatibility)
  * - approvalType: distinguishes between trust level and explicit permission auto-approval
  * - keyUserId: the KeyUser id (for logging)
+ * - quotaExceeded: set when a rate limit blocked auto-approval
+ * - outsideSchedule: set when the request arrived outside the app's schedule
  */
 export interface PermissionResult {
     permitted: boolean | undefined;
     autoApproved: boolean;
     approvalType?: ApprovalType;
     keyUserId?: number;
+    quotaExceeded?: QuotaHit;
+    outsideSchedule?: boolean;
 }
 
 /**
@@ -301,6 +324,137 @@ function shouldAutoApproveByTrustLevel(
     }
 }
 
+/**
+ * Check if a request should be auto-approved by a custom trust profile.
+ * Like "reasonable", requests that don't sign or decrypt anything are always approved;
+ * everything else must be listed in the profile.
+ */
+function shouldAutoApproveByProfile(
+    profile: TrustProfileRules,
+    method: RpcMethod,
+    payload?: string | Event
+): boolean {
+    switch (method) {
+        case 'connect':
+        case 'ping':
+        case 'get_public_key':
+            return true;
+        case 'encrypt':
+            // Legacy generic names are NIP-04
+            return profile.methods.has('nip04_encrypt');
+        case 'decrypt':
+            return profile.methods.has('nip04_decrypt');
+        case 'nip04_encrypt':
+        case 'nip04_decrypt':
+        case 'nip44_encrypt':
+        case 'nip44_decrypt':
+            return profile.methods.has(method);
+        case 'sign_event': {
+            const kind = extractKind(payload);
+            return kind !== undefined && profile.kinds.has(kind);
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * What an app's trust level or profile auto-approves, for capability discovery.
+ * sign_event is described by event kind since its approval depends on the event.
+ */
+export interface AutoApprovalSummary {
+    methods: RpcMethod[];
+    kinds: number[] | 'all';
+}
+
+// Methods reported by describeAutoApprovals (legacy generic names are left out)
+const DESCRIBED_METHODS: RpcMethod[] = [
+    'connect',
+    'get_public_key',
+    'ping',
+    'nip04_encrypt',
+    'nip04_decrypt',
+    'nip44_encrypt',
+    'nip44_decrypt',
+];
+
+/**
+ * Summarize what a trust level (or a profile replacing it) auto-approves,
+ * using the same rules as checkRequestPermission.
+ */
+export function describeAutoApprovals(trustLevel: TrustLevel, profile: TrustProfileRules | null): AutoApprovalSummary {
+    const byKind = (a: number, b: number) => a - b;
+
+    if (profile) {
+        return {
+            methods: DESCRIBED_METHODS.filter((method) => shouldAutoApproveByProfile(profile, method)),
+            kinds: [...profile.kinds].sort(byKind),
+        };
+    }
+
+    let kinds: number[] | 'all' = [];
+    if (trustLevel === 'full') {
+        kinds = 'all';
+    } else if (trustLevel === 'reasonable') {
+        kinds = [...SAFE_KINDS].filter(isKindSafe).sort(byKind);
+    }
+
+    return {
+        methods: DESCRIBED_METHODS.filter((method) => shouldAutoApproveByTrustLevel(trustLevel, method)),
+        kinds,
+    };
+}
+
+/**
+ * Enforce an app's quota before auto-approving a request.
+ * Within quota, the approval passes through; the caller records the usage
+ * with recordQuotaUsage once the request is actually approved.
+ * Over quota, the request is denied or escalated to manual approval
+ * depending on the app's overflow setting.
+ */
+function checkQuota(
+    keyUserId: number,
+    quotas: AppQuotaConfig | null,
+    method: RpcMethod,
+    payload: string | Event | undefined,
+    approval: PermissionResult
+): PermissionResult {
+    if (!quotas || quotas.rules.length === 0) {
+        return approval;
+    }
+
+    const kind = method === 'sign_event' ? extractKind(payload) : undefined;
+    const hit = quotaTracker.check(keyUserId, quotas, method, kind);
+
+    if (hit) {
+        debug('Quota exceeded for keyUser %d: %s %d/%s (%s)', keyUserId, method, hit.limit, hit.window, hit.action);
+        return {
+            permitted: hit.action === 'deny' ? false : undefined,
+            autoApproved: false,
+            keyUserId,
+            quotaExceeded: hit,
+        };
+    }
+
+    return approval;
+}
+
+/**
+ * Count an auto-approved request against the app's quota.
+ */
+function recordQuotaUsage(
+    keyUserId: number,
+    quotas: AppQuotaConfig | null,
+    method: RpcMethod,
+    payload: string | Event | undefined
+): void {
+    if (!quotas || quotas.rules.length === 0) {
+        return;
+    }
+    const kind = method === 'sign_event' ? extractKind(payload) : undefined;
+    quotaTracker.record(keyUserId, quotas, method, kind);
+}
+
 /**
  * Check if a request is permitted with full result details.
  * Returns permission decision, whether it was auto-approved, and the keyUserId.
@@ -315,6 +469,9 @@ export async function checkRequestPermission(
     let cached = getCachedEntry(keyName, remotePubkey);
     let keyUserId: number;
     let trustLevel: TrustLevel;
+    let quotas: AppQuotaConfig | null;
+    let schedule: AppSchedule | null;
+    let trustProfile: TrustProfileRules | null;
 
     if (cached) {
         // Use cached data for quick checks
@@ -329,11 +486,23 @@ export async function checkRequestPermission(
         }
         keyUserId = cached.keyUser.id;
         trustLevel = (cached.keyUser.trustLevel as TrustLevel) ?? 'reasonable';
+        quotas = cached.quotas;
+        schedule = cached.schedule;
+        trustProfile = cached.trustProfile;
     } else {
         // Fetch from database and cache
         const keyUser = await prisma.keyUser.findUnique({
             where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
-            select: { id: true, revokedAt: true, suspendedAt: true, suspendUntil: true, trustLevel: true },
+            select: {
+                id: true,
+                revokedAt: true,
+                suspendedAt: true,
+                suspendUntil: true,
+                trustLevel: true,
+                quotas: true,
+                schedule: true,
+                trustProfile: { select: { kinds: true, methods: true } },
+            },
         });
 
         if (!keyUser) {
@@ -357,6 +526,9 @@ export async function checkRequestPermission(
             setCachedEntry(keyName, remotePubkey, {
                 keyUser,
                 hasExplicitDeny: false,
+                quotas: null,
+                schedule: null,
+                trustProfile: null,
             });
             return { permitted: false, autoApproved: false, keyUserId: keyUser.id };
         }
@@ -371,9 +543,15 @@ export async function checkRequestPermission(
         });
 
         // Cache the result
+        quotas = parseQuotaConfig(keyUser.quotas);
+        schedule = parseAppSchedule(keyUser.schedule);
+        trustProfile = keyUser.trustProfile ? toTrustProfileRules(keyUser.trustProfile) : null;
         setCachedEntry(keyName, remotePubkey, {
             keyUser,
             hasExplicitDeny: !!explicitDeny,
+            quotas,
+            schedule,
+            trustProfile,
         });
 
         if (explicitDeny) {
@@ -384,28 +562,83 @@ export async function checkRequestPermission(
         trustLevel = (keyUser.trustLevel as TrustLevel) ?? 'reasonable';
     }
 
-    // Check for explicit permission condition (not cached - method/kind specific)
+    // Check for explicit permission conditions (not cached - method/kind specific).
+    // Conditions may carry event constraints, so every candidate is evaluated.
+    // Conditions granted by an expired policy, or a rule this app has used up, are skipped.
     const query = buildConditionQuery(method, payload);
-    const condition = await prisma.signingCondition.findFirst({
+    const conditions = await prisma.signingCondition.findMany({
         where: {
             keyUserId,
             ...query,
         },
+        include: { policyRule: { include: { Policy: { select: { expiresAt: true, deletedAt: true } } } } },
+        orderBy: { id: 'asc' },
     });
+    const event = method === 'sign_event' ? toConstrainedEvent(payload) : undefined;
+    const condition = selectCondition(
+        conditions.filter((c) => !c.policyRule || isPolicyRuleActive(c.policyRule, c.usageCount)),
+        event
+    );
+
+    // Explicit deny - refused whatever the schedule says
+    if (condition?.allowed === false) {
+        return { permitted: false, autoApproved: false, keyUserId };
+    }
+
+    // Outside the app's schedule nothing is auto-approved
+    if (schedule && !isWithinSchedule(schedule)) {
+        debug('Request from keyUser %d outside schedule (%s)', keyUserId, schedule.outside);
+        return {
+            permitted: schedule.outside === 'deny' ? false : undefined,
+            autoApproved: false,
+            keyUserId,
+            outsideSchedule: true,
+        };
+    }
+
+    // Requests covered by an approval quorum always wait for approvers
+    if (await getQuorumThreshold(keyName, method, payload) !== null) {
+        debug('Request from keyUser %d needs an approval quorum', keyUserId);
+        return { permitted: undefined, autoApproved: false, keyUserId };
+    }
 
-    if (condition) {
-        if (condition.allowed === true) {
-            // Explicit permission grant - auto-approved via SigningCondition
-            return { permitted: true, autoApproved: true, approvalType: 'auto_permission', keyUserId };
+    if (condition?.allowed === true) {
+        // Explicit permission grant - auto-approved via SigningCondition (subject to quota)
+        const result = checkQuota(keyUserId, quotas, method, payload, {
+            permitted: true,
+            autoApproved: true,
+            approvalType: 'auto_permission',
+            keyUserId,
+        });
+        if (!result.permitted) {
+            return result;
         }
-        if (condition.allowed === false) {
-            // Explicit deny - not auto-approved
-            return { permitted: false, autoApproved: false, keyUserId };
+
+        // Policy grants are only honored while the app has uses of the rule left.
+        // A used-up rule falls through without counting against the quota.
+        if (condition.policyRuleId === null || await consumePolicyRuleUsage(condition.id, condition.policyRuleId)) {
+            recordQuotaUsage(keyUserId, quotas, method, payload);
+            return result;
         }
+        debug('Policy rule %d used up by keyUser %d', condition.policyRuleId, keyUserId);
     }
 
-    // No explicit condition - check trust level for auto-approval
-    if (shouldAutoApproveByTrustLevel(trustLevel, method, payload)) {
+    // No explicit condition - check the trust profile or trust level for auto-approval
+    const trusted = trustProfile
+        ? shouldAutoApproveByProfile(trustProfile, method, payload)
+        : shouldAutoApproveByTrustLevel(trustLevel, method, payload);
+    if (trusted) {
+        const result = checkQuota(keyUserId, quotas, method, payload, {
+            permitted: true,
+            autoApproved: true,
+            approvalType: 'auto_trust',
+            keyUserId,
+        });
+        if (!result.permitted) {
+            return result;
+        }
+        recordQuotaUsage(keyUserId, quotas, method, payload);
+
         // Update lastUsedAt for tracking (fire and forget to avoid blocking)
         prisma.keyUser.update({
             where: { id: keyUserId },
@@ -414,7 +647,7 @@ export async function checkRequestPermission(
             // Log at debug level - this is non-critical but shouldn't be completely silent
             debug('Failed to update lastUsedAt for keyUser %d: %s', keyUserId, error?.message ?? error);
         });
-        return { permitted: true, autoApproved: true, approvalType: 'auto_trust', keyUserId };
+        return result;
     }
 
     // No decision - will trigger approval request
@@ -502,13 +735,19 @@ export async function grantPermissionsByTrustLevel(
     remotePubkey: string,
     keyName: string,
     trustLevel: TrustLevel,
-    description?: string
+    description?: string,
+    trustProfileId?: number
 ): Promise<number> {
+    // A custom profile decides auto-approval on its own, so it builds on paranoid
+    if (trustProfileId !== undefined) {
+        trustLevel = 'paranoid';
+    }
+
     // Create or update KeyUser with trust level
     const keyUser = await prisma.keyUser.upsert({
         where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
-        update: { trustLevel, description: description ?? undefined },
-        create: { keyName, userPubkey: remotePubkey, trustLevel, description },
+        update: { trustLevel, trustProfileId: trustProfileId ?? null, description: description ?? undefined },
+        create: { keyName, userPubkey: remotePubkey, trustLevel, trustProfileId, description },
     });
 
     // Always grant connect permission explicitly
@@ -542,6 +781,7 @@ export async function grantPermissionsByTrustLevel(
 
 /**
  * Update the trust level for an existing app.
+ * This also takes the app off any custom trust profile.
  */
 export async function updateTrustLevel(
     keyUserId: number,
@@ -549,7 +789,7 @@ export async function updateTrustLevel(
 ): Promise<void> {
     const keyUser = await prisma.keyUser.update({
         where: { id: keyUserId },
-        data: { trustLevel },
+        data: { trustLevel, trustProfileId: null },
         select: { keyName: true, userPubkey: true },
     });
 
@@ -603,6 +843,26 @@ export async function updateTrustLevel(
     invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
 }
 
+/**
+ * Move an existing app onto a custom trust profile.
+ * Permissions granted at full trust are withdrawn first, as when downgrading to paranoid.
+ */
+export async function updateTrustProfile(
+    keyUserId: number,
+    trustProfileId: number
+): Promise<void> {
+    await updateTrustLevel(keyUserId, 'paranoid');
+
+    const keyUser = await prisma.keyUser.update({
+        where: { id: keyUserId },
+        data: { trustProfileId },
+        select: { keyName: true, userPubkey: true },
+    });
+
+    // Invalidate cache since the trust profile changed
+    invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
+}
+
 /**
  * Get trust level for an app.
  */
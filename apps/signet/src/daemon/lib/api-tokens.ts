@@ -0,0 +1,68 @@
+/**
+ * Scoped API tokens for scripts calling the REST API.
+ *
+ * Tokens are sent as `Authorization: Bearer signet_...` and only their
+ * SHA-256 hash is stored. Each token carries scopes that map onto groups of
+ * endpoints (see access.ts), and can be limited to specific keys. Token and
+ * session management stay dashboard-only, so a leaked token can't mint more
+ * tokens.
+ */
+
+import crypto from 'crypto';
+import type { ApiTokenScope } from '@signet/types';
+
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['read', 'requests', 'apps', 'keys'];
+
+/** Every API token starts with this, which is how the auth middleware tells them from JWTs */
+export const API_TOKEN_PREFIX = 'signet_';
+
+/** Characters of the token kept for display */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/**
+ * The token behind an authenticated request
+ */
+export interface ApiTokenIdentity {
+    id: number;
+    name: string;
+    scopes: ApiTokenScope[];
+    /** Keys the token is limited to, or null for every key */
+    keyNames: string[] | null;
+}
+
+export function generateApiToken(): string {
+    return `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+export function hashApiToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getDisplayPrefix(token: string): string {
+    return token.slice(0, DISPLAY_PREFIX_LENGTH);
+}
+
+export function isApiToken(value: string | undefined): value is string {
+    return Boolean(value?.startsWith(API_TOKEN_PREFIX));
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+    return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a stored comma-separated list, dropping unknown scopes
+ */
+export function parseScopes(value: string): ApiTokenScope[] {
+    return value.split(',').map((scope) => scope.trim()).filter(isApiTokenScope);
+}
+
+/**
+ * Parse stored key names (null means every key)
+ */
+export function parseKeyNames(value: string | null): string[] | null {
+    if (value === null) {
+        return null;
+    }
+    return value.split(',').map((name) => name.trim()).filter(Boolean);
+}
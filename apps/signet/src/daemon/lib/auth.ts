@@ -9,10 +9,13 @@ import {
     RATE_LIMIT_BLOCK_DURATION_MS,
 } from '../constants.js';
 import { TTLCache } from './ttl-cache.js';
+import { isApiToken, type ApiTokenIdentity } from './api-tokens.js';
+import { setVisibleKeys } from './access.js';
 
 const COOKIE_NAME = 'signet_auth';
 const CSRF_COOKIE_NAME = 'signet_csrf';
 const CSRF_HEADER_NAME = 'x-csrf-token';
+const APPROVER_COOKIE_NAME = 'signet_approver';
 
 interface RateLimitEntry {
     count: number;
@@ -34,10 +37,63 @@ const rateLimitStore = new TTLCache<RateLimitEntry>('rate-limit', {
 
 export interface JwtPayload {
     pubkey: string;
+    /** Dashboard session the token was issued for */
+    sid: string;
     iat?: number;
     exp?: number;
 }
 
+/**
+ * Checks that the session behind a token has not been revoked or expired
+ */
+export type SessionValidator = (sessionId: string, pubkey: string) => Promise<boolean>;
+
+let sessionValidator: SessionValidator | null = null;
+
+/**
+ * Set the check run on every verified token. Without one, no token is accepted.
+ */
+export function setSessionValidator(validator: SessionValidator | null): void {
+    sessionValidator = validator;
+}
+
+/**
+ * Checks an API token against the route it is calling. Returns the token's
+ * identity, or the status and error to reply with.
+ */
+export type ApiTokenAuthorizer = (
+    token: string,
+    request: FastifyRequest
+) => Promise<{ ok: true; identity: ApiTokenIdentity } | { ok: false; status: number; error: string }>;
+
+let apiTokenAuthorizer: ApiTokenAuthorizer | null = null;
+
+/**
+ * Set the check run for API tokens. Without one, API tokens are rejected.
+ */
+export function setApiTokenAuthorizer(authorizer: ApiTokenAuthorizer | null): void {
+    apiTokenAuthorizer = authorizer;
+}
+
+/**
+ * Checks a logged-in pubkey against the route it is calling (operator roles).
+ * Returns the keys the session is limited to, or null for every key.
+ */
+export type SessionAuthorizer = (
+    pubkey: string,
+    request: FastifyRequest
+) => Promise<{ ok: true; keyNames: string[] | null } | { ok: false; status: number; error: string }>;
+
+let sessionAuthorizer: SessionAuthorizer | null = null;
+
+/**
+ * Set the role check run for dashboard sessions. Without one, any valid
+ * session may call any route.
+ */
+export function setSessionAuthorizer(authorizer: SessionAuthorizer | null): void {
+    sessionAuthorizer = authorizer;
+}
+
 /**
  * Generate a cryptographically secure JWT secret
  */
@@ -63,37 +119,38 @@ export async function registerAuthPlugins(
 }
 
 /**
- * Create a signed JWT token for a user
+ * Create a signed JWT token for a dashboard session
  */
-export function signToken(fastify: FastifyInstance, pubkey: string): string {
-    return fastify.jwt.sign({ pubkey }, { expiresIn: JWT_EXPIRY });
+export function signToken(fastify: FastifyInstance, pubkey: string, sessionId: string): string {
+    return fastify.jwt.sign({ pubkey, sid: sessionId }, { expiresIn: JWT_EXPIRY });
 }
 
 /**
  * Verify and decode a JWT token from the request
- * Returns the payload if valid, null otherwise
+ * Returns the payload if valid and its session is still active, null otherwise
  */
 export async function verifyToken(
     fastify: FastifyInstance,
     request: FastifyRequest
 ): Promise<JwtPayload | null> {
     try {
+        let decoded: JwtPayload | null = null;
+
         // Try cookie first
         const cookieToken = (request.cookies as Record<string, string>)?.[COOKIE_NAME];
+        const authHeader = request.headers.authorization;
         if (cookieToken) {
-            const decoded = fastify.jwt.verify<JwtPayload>(cookieToken);
-            return decoded;
+            decoded = fastify.jwt.verify<JwtPayload>(cookieToken);
+        } else if (authHeader?.startsWith('Bearer ')) {
+            // Try Authorization header
+            decoded = fastify.jwt.verify<JwtPayload>(authHeader.slice(7));
         }
 
-        // Try Authorization header
-        const authHeader = request.headers.authorization;
-        if (authHeader?.startsWith('Bearer ')) {
-            const token = authHeader.slice(7);
-            const decoded = fastify.jwt.verify<JwtPayload>(token);
-            return decoded;
+        if (!decoded?.sid || !sessionValidator) {
+            return null;
         }
 
-        return null;
+        return await sessionValidator(decoded.sid, decoded.pubkey) ? decoded : null;
     } catch {
         return null;
     }
@@ -123,6 +180,46 @@ export function clearAuthCookie(reply: FastifyReply): void {
     reply.clearCookie(COOKIE_NAME, { path: '/' });
 }
 
+/**
+ * Identify who is approving a quorum request: the pubkey of the dashboard
+ * login (if any) and the approver session cookie claimed on this browser
+ */
+export async function getApproverIdentity(
+    fastify: FastifyInstance,
+    request: FastifyRequest
+): Promise<{ pubkey: string | null; sessionToken: string | null }> {
+    const payload = await verifyToken(fastify, request);
+    const sessionToken = (request.cookies as Record<string, string> | undefined)?.[APPROVER_COOKIE_NAME];
+    return {
+        pubkey: payload?.pubkey ?? null,
+        sessionToken: sessionToken ?? null,
+    };
+}
+
+/**
+ * Set the approver session cookie after claiming an approver identity
+ */
+export function setApproverCookie(
+    reply: FastifyReply,
+    token: string,
+    secure: boolean = true
+): void {
+    reply.setCookie(APPROVER_COOKIE_NAME, token, {
+        path: '/',
+        httpOnly: true,
+        secure,
+        sameSite: 'strict',
+        maxAge: 365 * 24 * 60 * 60, // 1 year in seconds
+    });
+}
+
+/**
+ * Clear the approver session cookie
+ */
+export function clearApproverCookie(reply: FastifyReply): void {
+    reply.clearCookie(APPROVER_COOKIE_NAME, { path: '/' });
+}
+
 /**
  * Generate a CSRF token
  */
@@ -241,7 +338,10 @@ export function sanitizeCallbackUrl(url: string | null | undefined): string | nu
 }
 
 /**
- * Create authentication middleware for protected routes
+ * Create authentication middleware for protected routes.
+ * Accepts a dashboard session (cookie or Bearer JWT) or a scoped API token.
+ * Sessions are held to the operator's role; API tokens to their scopes.
+ * API tokens are always checked, even when auth is off, so their scopes hold.
  * @param fastify - Fastify instance
  * @param requireAuth - If false, skip authentication (for local-only deployments)
  */
@@ -250,6 +350,21 @@ export function createAuthMiddleware(fastify: FastifyInstance, requireAuth: bool
         request: FastifyRequest,
         reply: FastifyReply
     ): Promise<void> {
+        const authHeader = request.headers.authorization;
+        const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7).trim() : undefined;
+        if (isApiToken(bearer)) {
+            const result = apiTokenAuthorizer
+                ? await apiTokenAuthorizer(bearer, request)
+                : { ok: false as const, status: 401, error: 'Invalid or expired API token' };
+            if (!result.ok) {
+                reply.code(result.status).send({ error: result.error });
+                return;
+            }
+            (request as FastifyRequest & { apiToken: ApiTokenIdentity }).apiToken = result.identity;
+            setVisibleKeys(request, result.identity.keyNames);
+            return;
+        }
+
         // Skip auth if not required (local-only mode)
         if (!requireAuth) {
             return;
@@ -265,6 +380,15 @@ export function createAuthMiddleware(fastify: FastifyInstance, requireAuth: bool
         // Attach the authenticated user info to the request
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         (request as FastifyRequest & { user: JwtPayload }).user = payload;
+
+        if (sessionAuthorizer) {
+            const result = await sessionAuthorizer(payload.pubkey, request);
+            if (!result.ok) {
+                reply.code(result.status).send({ error: result.error });
+                return;
+            }
+            setVisibleKeys(request, result.keyNames);
+        }
     };
 }
 
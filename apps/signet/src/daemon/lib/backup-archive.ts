@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import type { BackupManifest, SnapshotManifest } from '@signet/types';
+import { BACKUP_FORMAT, BACKUP_PBKDF2_ITERATIONS, BACKUP_VERSION, SNAPSHOT_FORMAT } from '../constants.js';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const MAX_ITERATIONS = BACKUP_PBKDF2_ITERATIONS * 10;
+
+type ArchiveFormat = typeof BACKUP_FORMAT | typeof SNAPSHOT_FORMAT;
+
+/**
+ * Archive as written to disk: a JSON envelope around the encrypted manifest
+ * and contents. Only the format, version and date are readable without the
+ * passphrase.
+ */
+interface BackupEnvelope {
+    format: ArchiveFormat;
+    version: number;
+    createdAt: string;
+    kdf: { name: 'pbkdf2-sha256'; iterations: number; salt: string };
+    cipher: typeof CIPHER;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/**
+ * Decrypted archive
+ */
+export interface BackupPayload<T> {
+    manifest: BackupManifest;
+    data: T;
+}
+
+/**
+ * Decrypted snapshot: signet.json as it was on disk and a copy of the database
+ */
+export interface SnapshotPayload {
+    manifest: SnapshotManifest;
+    config: string;
+    database: Buffer;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, iterations: number): Buffer {
+    return crypto.pbkdf2Sync(passphrase.normalize('NFKC'), salt, iterations, KEY_LENGTH, 'sha256');
+}
+
+function sha256(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function checksum(data: unknown): string {
+    return sha256(JSON.stringify(data));
+}
+
+/**
+ * Timestamp used in archive file names, e.g. 20260121-100000
+ */
+export function archiveFileStamp(createdAt: string): string {
+    return createdAt.slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+}
+
+/**
+ * Encrypt backup contents with a passphrase (PBKDF2-SHA256 + AES-256-GCM).
+ * The manifest's version and checksum are filled in here.
+ */
+export function sealBackup<T>(
+    manifest: Omit<BackupManifest, 'checksum' | 'version'>,
+    data: T,
+    passphrase: string,
+    iterations = BACKUP_PBKDF2_ITERATIONS
+): { archive: string; manifest: BackupManifest } {
+    const payload: BackupPayload<T> = {
+        manifest: { ...manifest, version: BACKUP_VERSION, checksum: checksum(data) },
+        data,
+    };
+    const archive = seal(BACKUP_FORMAT, manifest.createdAt, JSON.stringify(payload), passphrase, iterations);
+    return { archive, manifest: payload.manifest };
+}
+
+/**
+ * Decrypt an archive and check its integrity.
+ * Throws if the archive is malformed, from a newer Signet, the passphrase is
+ * wrong, or the contents don't match the manifest checksum.
+ */
+export function openBackup<T>(archive: string, passphrase: string): BackupPayload<T> {
+    const payload = JSON.parse(open(BACKUP_FORMAT, archive, passphrase)) as BackupPayload<T>;
+    if (!payload?.manifest || payload.data === undefined) {
+        throw new Error('Invalid backup: missing manifest');
+    }
+    if (payload.manifest.checksum !== checksum(payload.data)) {
+        throw new Error('Invalid backup: contents do not match the manifest checksum');
+    }
+    return payload;
+}
+
+/**
+ * Encrypt a snapshot of signet.json and the database, the same way as
+ * backups but under its own format so the two can't be mixed up.
+ */
+export function sealSnapshot(
+    manifest: Pick<SnapshotManifest, 'createdAt' | 'signetVersion'>,
+    config: string,
+    database: Buffer,
+    passphrase: string,
+    iterations = BACKUP_PBKDF2_ITERATIONS
+): { archive: string; manifest: SnapshotManifest } {
+    const fullManifest: SnapshotManifest = {
+        ...manifest,
+        version: BACKUP_VERSION,
+        configChecksum: sha256(config),
+        databaseChecksum: sha256(database),
+        databaseBytes: database.length,
+    };
+    const plaintext = JSON.stringify({ manifest: fullManifest, config, database: database.toString('base64') });
+    const archive = seal(SNAPSHOT_FORMAT, manifest.createdAt, plaintext, passphrase, iterations);
+    return { archive, manifest: fullManifest };
+}
+
+/**
+ * Decrypt a snapshot and check both copies against the manifest checksums
+ */
+export function openSnapshot(archive: string, passphrase: string): SnapshotPayload {
+    const payload = JSON.parse(open(SNAPSHOT_FORMAT, archive, passphrase)) as {
+        manifest?: SnapshotManifest;
+        config?: string;
+        database?: string;
+    };
+    if (!payload?.manifest || typeof payload.config !== 'string' || typeof payload.database !== 'string') {
+        throw new Error('Invalid snapshot: missing manifest');
+    }
+
+    const database = Buffer.from(payload.database, 'base64');
+    if (payload.manifest.configChecksum !== sha256(payload.config)
+        || payload.manifest.databaseChecksum !== sha256(database)) {
+        throw new Error('Invalid snapshot: contents do not match the manifest checksum');
+    }
+    return { manifest: payload.manifest, config: payload.config, database };
+}
+
+function seal(format: ArchiveFormat, createdAt: string, plaintext: string, passphrase: string, iterations: number): string {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(CIPHER, deriveKey(passphrase, salt, iterations), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const envelope: BackupEnvelope = {
+        format,
+        version: BACKUP_VERSION,
+        createdAt,
+        kdf: { name: 'pbkdf2-sha256', iterations, salt: salt.toString('base64') },
+        cipher: CIPHER,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: encrypted.toString('base64'),
+    };
+    return JSON.stringify(envelope, null, 2) + '\n';
+}
+
+function open(format: ArchiveFormat, archive: string, passphrase: string): string {
+    const envelope = parseEnvelope(format, archive);
+
+    try {
+        const salt = Buffer.from(envelope.kdf.salt, 'base64');
+        const decipher = crypto.createDecipheriv(
+            CIPHER,
+            deriveKey(passphrase, salt, envelope.kdf.iterations),
+            Buffer.from(envelope.iv, 'base64')
+        );
+        decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+        return Buffer.concat([
+            decipher.update(Buffer.from(envelope.data, 'base64')),
+            decipher.final(),
+        ]).toString('utf8');
+    } catch {
+        throw new Error(`Invalid passphrase or corrupted ${describe(format)}`);
+    }
+}
+
+function describe(format: ArchiveFormat): string {
+    return format === SNAPSHOT_FORMAT ? 'snapshot' : 'backup';
+}
+
+function parseEnvelope(format: ArchiveFormat, archive: string): BackupEnvelope {
+    const kind = describe(format);
+    let envelope: BackupEnvelope;
+    try {
+        envelope = JSON.parse(archive) as BackupEnvelope;
+    } catch {
+        throw new Error(`Invalid ${kind}: not a Signet ${kind} file`);
+    }
+
+    if (envelope?.format !== format) {
+        throw new Error(`Invalid ${kind}: not a Signet ${kind} file`);
+    }
+    if (typeof envelope.version !== 'number' || envelope.version > BACKUP_VERSION) {
+        throw new Error(`Invalid ${kind}: format version ${envelope.version} needs a newer Signet`);
+    }
+    if (envelope.cipher !== CIPHER || envelope.kdf?.name !== 'pbkdf2-sha256') {
+        throw new Error(`Invalid ${kind}: unsupported encryption`);
+    }
+    // Bounded so a crafted archive can't tie the daemon up deriving its key
+    const { iterations } = envelope.kdf;
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_ITERATIONS) {
+        throw new Error(`Invalid ${kind}: unsupported encryption`);
+    }
+    return envelope;
+}
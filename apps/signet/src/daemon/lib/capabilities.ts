@@ -0,0 +1,187 @@
+/**
+ * NIP-46 capability discovery.
+ *
+ * Answers the `describe` method: which methods and encryption schemes Signet
+ * supports and, for a connected app, what it will actually auto-approve, so
+ * clients can adapt their UX instead of finding out request by request.
+ */
+
+import type { AppQuotaConfig } from '@signet/types';
+import prisma from '../../db.js';
+import {
+    describeAutoApprovals,
+    isCurrentlySuspended,
+    type AutoApprovalSummary,
+    type TrustLevel,
+} from './acl.js';
+import { toTrustProfileRules } from './trust-profile.js';
+import { isPolicyRuleActive } from './policy-usage.js';
+import { getQuorumKinds } from './quorum.js';
+import { parseQuotaConfig } from './quota.js';
+import { isWithinSchedule, parseAppSchedule } from './schedule.js';
+
+/** NIP-46 methods the backend answers */
+export const SUPPORTED_METHODS = [
+    'connect',
+    'sign_event',
+    'get_public_key',
+    'nip04_encrypt',
+    'nip04_decrypt',
+    'nip44_encrypt',
+    'nip44_decrypt',
+    'ping',
+    'switch_relays',
+    'get_relays',
+    'describe',
+] as const;
+
+/** Encryption schemes, preferred first */
+export const ENCRYPTION_SCHEMES = ['nip44', 'nip04'] as const;
+
+/**
+ * An explicit allow or deny rule on the app
+ */
+export interface PermissionRule {
+    method: string;
+    kind: number | 'all';
+    /** The rule only applies to events matching its content constraints */
+    constrained: boolean;
+}
+
+export interface AppPermissions {
+    trustLevel: TrustLevel;
+    /** Name of the custom trust profile replacing the trust level, if any */
+    trustProfile: string | null;
+    /** Suspended or blocked apps get every request denied */
+    suspended: boolean;
+    blocked: boolean;
+    /** Outside the app's schedule nothing is auto-approved */
+    outsideSchedule: boolean;
+    /** What is auto-approved right now, after suspension, schedule and quorum rules */
+    autoApprove: AutoApprovalSummary;
+    /** Rate limits that send auto-approvable requests to manual approval (or deny them) once reached */
+    quotas: AppQuotaConfig | null;
+    /** sign_event kinds that always wait for an approval quorum, even when granted */
+    quorumKinds: number[] | 'all';
+    /** Grants from exhausted or expired policy rules are left out */
+    granted: PermissionRule[];
+    denied: PermissionRule[];
+}
+
+export interface SignerDescription {
+    methods: string[];
+    encryption: string[];
+    /** Null until the client has connected */
+    permissions: AppPermissions | null;
+}
+
+function toPermissionRule(condition: { method: string | null; kind: string | null; content: string | null }): PermissionRule | null {
+    if (!condition.method || condition.method === 'connect' || condition.method === '*') {
+        return null;
+    }
+    const kind = condition.kind && condition.kind !== 'all' ? Number(condition.kind) : 'all';
+    return {
+        method: condition.method,
+        kind: Number.isInteger(kind) ? kind : 'all',
+        constrained: Boolean(condition.content),
+    };
+}
+
+/**
+ * Drop the kinds that wait for a quorum from an auto-approval summary
+ */
+function withoutQuorumKinds(summary: AutoApprovalSummary, quorumKinds: number[] | 'all'): AutoApprovalSummary {
+    if (quorumKinds === 'all') {
+        return { ...summary, kinds: [] };
+    }
+    if (summary.kinds === 'all' || quorumKinds.length === 0) {
+        // An 'all' summary stays as is; quorumKinds lists the exceptions
+        return summary;
+    }
+    return { ...summary, kinds: summary.kinds.filter((kind) => !quorumKinds.includes(kind)) };
+}
+
+/**
+ * Look up what an app may do with a key, using the same checks as
+ * checkRequestPermission. Quota usage isn't reported, only the limits.
+ */
+export async function getAppPermissions(keyName: string, remotePubkey: string): Promise<AppPermissions | null> {
+    const keyUser = await prisma.keyUser.findUnique({
+        where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
+        select: {
+            revokedAt: true,
+            suspendedAt: true,
+            suspendUntil: true,
+            trustLevel: true,
+            quotas: true,
+            schedule: true,
+            trustProfile: { select: { name: true, kinds: true, methods: true } },
+            signingConditions: {
+                select: {
+                    method: true,
+                    kind: true,
+                    content: true,
+                    allowed: true,
+                    usageCount: true,
+                    policyRule: { include: { Policy: { select: { expiresAt: true, deletedAt: true } } } },
+                },
+            },
+        },
+    });
+
+    if (!keyUser || keyUser.revokedAt) {
+        return null;
+    }
+
+    const trustLevel = (keyUser.trustLevel as TrustLevel) ?? 'reasonable';
+    const profile = keyUser.trustProfile ? toTrustProfileRules(keyUser.trustProfile) : null;
+    const granted: PermissionRule[] = [];
+    const denied: PermissionRule[] = [];
+    let blocked = false;
+
+    for (const condition of keyUser.signingConditions) {
+        if (condition.method === '*' && condition.allowed === false) {
+            blocked = true;
+            continue;
+        }
+        const rule = toPermissionRule(condition);
+        if (!rule || condition.allowed === null) {
+            continue;
+        }
+        if (condition.policyRule && !isPolicyRuleActive(condition.policyRule, condition.usageCount)) {
+            continue;
+        }
+        (condition.allowed ? granted : denied).push(rule);
+    }
+
+    const suspended = isCurrentlySuspended(keyUser.suspendedAt, keyUser.suspendUntil);
+    const schedule = parseAppSchedule(keyUser.schedule);
+    const outsideSchedule = schedule !== null && !isWithinSchedule(schedule);
+    const quorumKinds = await getQuorumKinds(keyName);
+
+    return {
+        trustLevel,
+        trustProfile: keyUser.trustProfile?.name ?? null,
+        suspended,
+        blocked,
+        outsideSchedule,
+        autoApprove: suspended || blocked || outsideSchedule
+            ? { methods: [], kinds: [] }
+            : withoutQuorumKinds(describeAutoApprovals(trustLevel, profile), quorumKinds),
+        quotas: parseQuotaConfig(keyUser.quotas),
+        quorumKinds,
+        granted,
+        denied,
+    };
+}
+
+/**
+ * Build the `describe` response for a client
+ */
+export async function describeSigner(keyName: string, remotePubkey: string): Promise<SignerDescription> {
+    return {
+        methods: [...SUPPORTED_METHODS],
+        encryption: [...ENCRYPTION_SCHEMES],
+        permissions: await getAppPermissions(keyName, remotePubkey),
+    };
+}
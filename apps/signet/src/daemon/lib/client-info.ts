@@ -1,10 +1,26 @@
 import type { FastifyRequest } from 'fastify';
 import type { ClientInfo } from '../repositories/admin-log-repository.js';
+import type { ApiTokenIdentity } from './api-tokens.js';
+import type { JwtPayload } from './auth.js';
+
+type IdentifiedRequest = FastifyRequest & { apiToken?: ApiTokenIdentity; user?: JwtPayload };
+
+/**
+ * Who made an authenticated request: `token:<name>` for an API token, the
+ * pubkey of a dashboard login, or undefined when auth is off
+ */
+export function getActor(request: FastifyRequest): string | undefined {
+    const { apiToken, user } = request as IdentifiedRequest;
+    if (apiToken) {
+        return `token:${apiToken.name}`;
+    }
+    return user?.pubkey;
+}
 
 /**
  * Extract client information from a Fastify request.
  * Looks for the X-Signet-Client header (format: "name/version" e.g., "signet-android/1.3.0")
- * and the client IP address.
+ * the client IP address and the actor behind the request.
  */
 export function getClientInfo(request: FastifyRequest): ClientInfo {
     const clientHeader = request.headers['x-signet-client'];
@@ -38,6 +54,7 @@ export function getClientInfo(request: FastifyRequest): ClientInfo {
         clientName,
         clientVersion,
         ipAddress,
+        actor: getActor(request),
     };
 }
 
@@ -0,0 +1,73 @@
+/**
+ * In-process bus for request decisions.
+ *
+ * NIP-46 handlers waiting on a manual approval subscribe here instead of
+ * polling the Request table. Whoever records a decision (HTTP routes, batch
+ * approval, admin DMs, expiry) publishes it once the database write is done,
+ * so the database stays the durable record and waiters resolve immediately.
+ */
+
+import createDebug from 'debug';
+
+const debug = createDebug('signet:decision-bus');
+
+export type DecisionOutcome = 'approved' | 'denied' | 'expired';
+
+export type DecisionListener = (outcome: DecisionOutcome) => void;
+
+export class DecisionBus {
+    private listeners = new Map<string, Set<DecisionListener>>();
+
+    /**
+     * Listen for the decision on a request. Returns an unsubscribe function.
+     */
+    subscribe(requestId: string, listener: DecisionListener): () => void {
+        let listeners = this.listeners.get(requestId);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(requestId, listeners);
+        }
+        listeners.add(listener);
+
+        return () => {
+            const current = this.listeners.get(requestId);
+            if (!current) {
+                return;
+            }
+            current.delete(listener);
+            if (current.size === 0) {
+                this.listeners.delete(requestId);
+            }
+        };
+    }
+
+    /**
+     * Deliver a decision to everyone waiting on the request.
+     * A request is decided once, so its listeners are dropped afterwards.
+     */
+    publish(requestId: string, outcome: DecisionOutcome): void {
+        const listeners = this.listeners.get(requestId);
+        if (!listeners) {
+            return;
+        }
+        this.listeners.delete(requestId);
+
+        debug('Request %s %s (%d waiting)', requestId, outcome, listeners.size);
+        for (const listener of listeners) {
+            try {
+                listener(outcome);
+            } catch (error) {
+                debug('Decision listener failed for %s: %s', requestId, error);
+            }
+        }
+    }
+
+    /**
+     * Number of requests with someone waiting on them
+     */
+    get waitingCount(): number {
+        return this.listeners.size;
+    }
+}
+
+export const decisionBus = new DecisionBus();
@@ -0,0 +1,181 @@
+/**
+ * Content-based signing conditions.
+ *
+ * A SigningCondition can carry EventConstraints as JSON in its `content` column.
+ * The constraints inspect the event being signed (tags, content, created_at),
+ * so an app can be auto-approved for a narrow slice of a kind instead of the
+ * whole kind.
+ */
+
+import type { Event } from 'nostr-tools/pure';
+import type { EventConstraints } from '@signet/types';
+import createDebug from 'debug';
+
+const debug = createDebug('signet:event-constraints');
+
+/**
+ * The subset of an event that constraints look at.
+ */
+export type ConstrainedEvent = Pick<Event, 'kind' | 'content' | 'tags' | 'created_at'>;
+
+/**
+ * Parse stored constraints. Returns null for missing or malformed JSON.
+ */
+export function parseEventConstraints(raw: string | null | undefined): EventConstraints | null {
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return null;
+        }
+        return parsed as EventConstraints;
+    } catch {
+        debug('ignoring malformed event constraints');
+        return null;
+    }
+}
+
+/**
+ * Extract the event being signed from a sign_event payload.
+ * Returns undefined if the payload doesn't look like an unsigned event.
+ */
+export function toConstrainedEvent(payload?: string | Event): ConstrainedEvent | undefined {
+    if (!payload) {
+        return undefined;
+    }
+
+    let candidate: unknown = payload;
+    if (typeof payload === 'string') {
+        try {
+            candidate = JSON.parse(payload);
+        } catch {
+            return undefined;
+        }
+    }
+
+    const event = candidate as Partial<ConstrainedEvent> | null;
+    if (
+        !event ||
+        typeof event.content !== 'string' ||
+        !Array.isArray(event.tags) ||
+        typeof event.created_at !== 'number'
+    ) {
+        return undefined;
+    }
+
+    return event as ConstrainedEvent;
+}
+
+function hasTag(event: ConstrainedEvent, name: string, value?: string): boolean {
+    return event.tags.some((tag) =>
+        Array.isArray(tag) && tag[0] === name && (value === undefined || tag[1] === value)
+    );
+}
+
+function testPattern(pattern: string, content: string): boolean | null {
+    try {
+        return new RegExp(pattern, 'u').test(content);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check an event against a set of constraints.
+ * @returns true if every constraint is satisfied, false if any is violated,
+ *          or null if the constraints can't be evaluated (e.g. a broken regex)
+ */
+export function evaluateEventConstraints(
+    constraints: EventConstraints,
+    event: ConstrainedEvent,
+    now = Date.now()
+): boolean | null {
+    if (constraints.forbidTags?.some((name) => hasTag(event, name))) {
+        return false;
+    }
+
+    if (constraints.requireTags?.some(({ name, value }) => !hasTag(event, name, value))) {
+        return false;
+    }
+
+    if (constraints.maxContentLength !== undefined && event.content.length > constraints.maxContentLength) {
+        return false;
+    }
+
+    const nowSeconds = Math.floor(now / 1000);
+    if (constraints.maxPastMinutes !== undefined && event.created_at < nowSeconds - constraints.maxPastMinutes * 60) {
+        return false;
+    }
+    if (constraints.maxFutureMinutes !== undefined && event.created_at > nowSeconds + constraints.maxFutureMinutes * 60) {
+        return false;
+    }
+
+    if (constraints.contentMatches !== undefined) {
+        const matched = testPattern(constraints.contentMatches, event.content);
+        if (matched === null) return null;
+        if (!matched) return false;
+    }
+
+    if (constraints.contentNotMatches !== undefined) {
+        const matched = testPattern(constraints.contentNotMatches, event.content);
+        if (matched === null) return null;
+        if (matched) return false;
+    }
+
+    return true;
+}
+
+/**
+ * A stored condition, as far as constraint matching is concerned.
+ */
+export interface ConstrainedCondition {
+    content: string | null;
+    allowed: boolean | null;
+}
+
+/**
+ * Decide whether a condition applies to a request.
+ * Unconstrained conditions always apply. Constrained allow rules apply only
+ * when the event satisfies them; constrained deny rules fail closed, so an
+ * event that can't be evaluated is treated as matching.
+ */
+export function conditionApplies(condition: ConstrainedCondition, event: ConstrainedEvent | undefined, now = Date.now()): boolean {
+    const constraints = parseEventConstraints(condition.content);
+    if (!constraints) {
+        return true;
+    }
+
+    const result = event ? evaluateEventConstraints(constraints, event, now) : null;
+    if (condition.allowed === false) {
+        return result !== false;
+    }
+    return result === true;
+}
+
+/**
+ * Pick the condition that decides a request. Matching deny rules win over
+ * matching allow rules, so a narrow deny can carve exceptions out of a
+ * broader grant.
+ */
+export function selectCondition<T extends ConstrainedCondition>(
+    conditions: T[],
+    event: ConstrainedEvent | undefined,
+    now = Date.now()
+): T | null {
+    let allow: T | null = null;
+    for (const condition of conditions) {
+        if (!conditionApplies(condition, event, now)) {
+            continue;
+        }
+        if (condition.allowed === false) {
+            return condition;
+        }
+        if (condition.allowed === true && !allow) {
+            allow = condition;
+        }
+    }
+    return allow;
+}
@@ -0,0 +1,99 @@
+import { SimplePool } from 'nostr-tools/pool';
+import { finalizeEvent, getPublicKey, type Event, type UnsignedEvent } from 'nostr-tools/pure';
+import { npubEncode } from 'nostr-tools/nip19';
+import { getProfileRelays, publishEvent } from './profile.js';
+import { KEY_MIGRATION_KIND } from '../constants.js';
+
+/**
+ * NIP-41-style key migration announcements.
+ *
+ * NIP-41 is still a draft, so a rotation is announced with events anyone can
+ * check against the retired key alone:
+ * - kind 1776, signed by the retired key, `p`-tagging the successor pubkey
+ *   with the reason for the rotation as content
+ * - optionally a kind 1 note from the retired key pointing followers at the
+ *   successor's npub, for clients that don't know about migrations
+ */
+
+export interface MigrationOptions {
+    /** Why the key was rotated, e.g. "suspected compromise" */
+    reason?: string;
+    /** Also publish a kind 1 note announcing the successor (default: true) */
+    announce?: boolean;
+}
+
+export interface MigrationResult {
+    eventIds: string[];
+    /** Relays that accepted the migration event */
+    relays: number;
+}
+
+/**
+ * Build the signed migration events for a retired key
+ */
+export function buildMigrationEvents(
+    secretKey: Uint8Array,
+    successorPubkey: string,
+    options: MigrationOptions = {},
+    createdAt = Math.floor(Date.now() / 1000)
+): Event[] {
+    const pubkey = getPublicKey(secretKey);
+    const reason = options.reason?.trim() ?? '';
+    const successorNpub = npubEncode(successorPubkey);
+
+    const events = [
+        finalizeEvent({
+            kind: KEY_MIGRATION_KIND,
+            pubkey,
+            content: reason,
+            tags: [
+                ['p', successorPubkey],
+                ['alt', `Key migration: this key has moved to ${successorNpub}`],
+            ],
+            created_at: createdAt,
+        } as UnsignedEvent, secretKey),
+    ];
+
+    if (options.announce !== false) {
+        const lines = [`This key has been retired. Please follow nostr:${successorNpub} instead.`];
+        if (reason) {
+            lines.push('', `Reason: ${reason}`);
+        }
+        events.push(finalizeEvent({
+            kind: 1,
+            pubkey,
+            content: lines.join('\n'),
+            tags: [['p', successorPubkey]],
+            created_at: createdAt,
+        } as UnsignedEvent, secretKey));
+    }
+
+    return events;
+}
+
+/**
+ * Sign and publish the migration events from a retired key
+ */
+export async function publishMigration(
+    secretKey: Uint8Array,
+    successorPubkey: string,
+    relays: string[],
+    options: MigrationOptions = {}
+): Promise<MigrationResult> {
+    const events = buildMigrationEvents(secretKey, successorPubkey, options);
+    const pool = new SimplePool();
+    const targetRelays = getProfileRelays(relays);
+
+    try {
+        let accepted = 0;
+        for (const event of events) {
+            const successes = await publishEvent(pool, targetRelays, event, `kind ${event.kind} migration`);
+            if (event.kind === KEY_MIGRATION_KIND) {
+                accepted = successes;
+            }
+        }
+        return { eventIds: events.map((event) => event.id), relays: accepted };
+    } finally {
+        pool.close(targetRelays);
+    }
+}
@@ -0,0 +1,326 @@
+import http from 'http';
+import os from 'os';
+import WebSocket, { WebSocketServer } from 'ws';
+import { validateEvent, verifyEvent, type Event } from 'nostr-tools/pure';
+import { matchFilter, matchFilters, type Filter } from 'nostr-tools/filter';
+import createDebug from 'debug';
+import type { LocalRelayConfig } from '../../config/types.js';
+import { toErrorMessage } from './errors.js';
+import { logger } from './logger.js';
+import {
+    LOCAL_RELAY_DEFAULT_HOST,
+    LOCAL_RELAY_DEFAULT_PORT,
+    LOCAL_RELAY_KINDS,
+    LOCAL_RELAY_MAX_EVENTS,
+    LOCAL_RELAY_MAX_MESSAGE_BYTES,
+    LOCAL_RELAY_MAX_SUBSCRIPTIONS,
+    LOCAL_RELAY_RETENTION_MS,
+} from '../constants.js';
+
+const debug = createDebug('signet:local-relay');
+
+interface RelayClient {
+    socket: WebSocket;
+    subscriptions: Map<string, Filter[]>;
+}
+
+interface StoredEvent {
+    event: Event;
+    receivedAt: number;
+}
+
+export interface LocalRelayOptions {
+    /** Address to bind (default: 0.0.0.0) */
+    host?: string;
+    /** Port to listen on; 0 picks a free one (default: 4869) */
+    port?: number;
+}
+
+/**
+ * URL clients use to reach the embedded relay: nostr.localRelay.url, or the
+ * bind address with a wildcard host swapped for this machine's LAN address.
+ */
+export function resolveLocalRelayUrl(config: LocalRelayConfig, port = config.port ?? LOCAL_RELAY_DEFAULT_PORT): string {
+    if (config.url) {
+        return config.url;
+    }
+
+    const host = config.host ?? LOCAL_RELAY_DEFAULT_HOST;
+    const reachableHost = host === '0.0.0.0' || host === '::' ? findLanAddress() ?? '127.0.0.1' : host;
+    return `ws://${reachableHost}:${port}`;
+}
+
+function findLanAddress(): string | null {
+    for (const addresses of Object.values(os.networkInterfaces())) {
+        for (const address of addresses ?? []) {
+            if (address.family === 'IPv4' && !address.internal) {
+                return address.address;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Minimal Nostr relay for NIP-46 traffic on the local network.
+ *
+ * Only accepts NIP-46 kinds. Events live in memory for a short while so a
+ * client that subscribes just after a request or response was published
+ * still gets it; nothing is written to disk.
+ */
+export class LocalRelay {
+    private readonly host: string;
+    private readonly port: number;
+    private server?: http.Server;
+    private wss?: WebSocketServer;
+    private readonly clients = new Set<RelayClient>();
+    private events: StoredEvent[] = [];
+    private readonly eventIds = new Set<string>();
+
+    constructor(options: LocalRelayOptions) {
+        this.host = options.host ?? LOCAL_RELAY_DEFAULT_HOST;
+        this.port = options.port ?? LOCAL_RELAY_DEFAULT_PORT;
+    }
+
+    /**
+     * Start listening. Rejects if the port can't be bound.
+     */
+    public async start(): Promise<void> {
+        if (this.server) {
+            return;
+        }
+
+        const server = http.createServer((req, res) => this.handleHttp(req, res));
+        const wss = new WebSocketServer({ server, maxPayload: LOCAL_RELAY_MAX_MESSAGE_BYTES });
+        wss.on('connection', (socket: WebSocket) => this.handleConnection(socket));
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, this.host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        }).catch((error) => {
+            wss.close();
+            throw new Error(`Local relay could not listen on ${this.host}:${this.port}: ${toErrorMessage(error)}`);
+        });
+
+        this.server = server;
+        this.wss = wss;
+        logger.info('Local relay listening', { host: this.host, port: this.getPort() });
+    }
+
+    /**
+     * Disconnect every client and stop listening
+     */
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = undefined;
+        for (const client of this.clients) {
+            client.socket.terminate();
+        }
+        this.clients.clear();
+        this.wss?.close();
+        this.wss = undefined;
+        this.events = [];
+        this.eventIds.clear();
+
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        logger.info('Local relay stopped');
+    }
+
+    /**
+     * Port the relay is bound to (the assigned one when started with port 0)
+     */
+    public getPort(): number {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address.port : this.port;
+    }
+
+    /**
+     * NIP-11 relay information; plain HTTP requests get nothing else
+     */
+    private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+        if (req.headers.accept?.includes('application/nostr+json')) {
+            res.writeHead(200, {
+                'Content-Type': 'application/nostr+json',
+                'Access-Control-Allow-Origin': '*',
+            });
+            res.end(JSON.stringify({
+                name: 'Signet local relay',
+                description: 'Ephemeral relay for NIP-46 traffic on this network',
+                supported_nips: [1, 11, 46],
+                software: 'signet',
+                limitation: {
+                    max_message_length: LOCAL_RELAY_MAX_MESSAGE_BYTES,
+                    max_subscriptions: LOCAL_RELAY_MAX_SUBSCRIPTIONS,
+                },
+            }));
+            return;
+        }
+
+        res.writeHead(426, { 'Content-Type': 'text/plain' });
+        res.end('Use a Nostr client to connect to this relay');
+    }
+
+    private handleConnection(socket: WebSocket): void {
+        const client: RelayClient = { socket, subscriptions: new Map() };
+        this.clients.add(client);
+        debug('client connected (%d total)', this.clients.size);
+
+        socket.on('message', (data: Buffer) => {
+            this.handleMessage(client, data.toString());
+        });
+        socket.on('close', () => {
+            this.clients.delete(client);
+            debug('client disconnected (%d total)', this.clients.size);
+        });
+        socket.on('error', (error: Error) => {
+            debug('client error: %s', error.message);
+        });
+    }
+
+    private handleMessage(client: RelayClient, raw: string): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            this.send(client, ['NOTICE', 'invalid: message is not JSON']);
+            return;
+        }
+
+        if (!Array.isArray(message) || typeof message[0] !== 'string') {
+            this.send(client, ['NOTICE', 'invalid: message is not a JSON array']);
+            return;
+        }
+
+        switch (message[0]) {
+            case 'EVENT':
+                this.send(client, this.handleEvent(message[1]));
+                return;
+            case 'REQ':
+                this.handleReq(client, message[1], message.slice(2));
+                return;
+            case 'CLOSE':
+                if (typeof message[1] === 'string') {
+                    client.subscriptions.delete(message[1]);
+                }
+                return;
+            default:
+                this.send(client, ['NOTICE', `error: unsupported message type ${message[0]}`]);
+        }
+    }
+
+    /**
+     * Store and fan out an event. Returns the OK message for the publisher.
+     */
+    private handleEvent(event: unknown): unknown[] {
+        if (!isEventLike(event) || !validateEvent(event)) {
+            return ['OK', isEventLike(event) ? event.id : '', false, 'invalid: malformed event'];
+        }
+        if (!LOCAL_RELAY_KINDS.includes(event.kind)) {
+            return ['OK', event.id, false, 'blocked: this relay only accepts NIP-46 events'];
+        }
+        if (this.eventIds.has(event.id)) {
+            return ['OK', event.id, true, 'duplicate: already have this event'];
+        }
+        if (!verifyEvent(event)) {
+            return ['OK', event.id, false, 'invalid: bad signature'];
+        }
+
+        this.prune();
+        this.events.push({ event, receivedAt: Date.now() });
+        this.eventIds.add(event.id);
+        while (this.events.length > LOCAL_RELAY_MAX_EVENTS) {
+            this.eventIds.delete(this.events.shift()!.event.id);
+        }
+
+        for (const client of this.clients) {
+            for (const [subscriptionId, filters] of client.subscriptions) {
+                if (matchFilters(filters, event)) {
+                    this.send(client, ['EVENT', subscriptionId, event]);
+                }
+            }
+        }
+
+        debug('accepted event %s (kind %d)', event.id.slice(0, 8), event.kind);
+        return ['OK', event.id, true, ''];
+    }
+
+    private handleReq(client: RelayClient, subscriptionId: unknown, filters: unknown[]): void {
+        if (typeof subscriptionId !== 'string' || subscriptionId.length === 0 || subscriptionId.length > 64) {
+            this.send(client, ['NOTICE', 'invalid: bad subscription id']);
+            return;
+        }
+        if (filters.length === 0 || !filters.every(isFilter)) {
+            this.send(client, ['CLOSED', subscriptionId, 'invalid: bad filter']);
+            return;
+        }
+        if (!client.subscriptions.has(subscriptionId) && client.subscriptions.size >= LOCAL_RELAY_MAX_SUBSCRIPTIONS) {
+            this.send(client, ['CLOSED', subscriptionId, 'error: too many subscriptions']);
+            return;
+        }
+
+        const subscriptionFilters = filters as Filter[];
+        client.subscriptions.set(subscriptionId, subscriptionFilters);
+
+        // Replay held events (oldest first); each filter keeps its own newest `limit` matches
+        this.prune();
+        const held = this.events.map(stored => stored.event);
+        const replay = new Set<Event>();
+        for (const filter of subscriptionFilters) {
+            const matching = held.filter(event => matchFilter(filter, event));
+            const kept = filter.limit === undefined ? matching : matching.slice(Math.max(0, matching.length - filter.limit));
+            kept.forEach(event => replay.add(event));
+        }
+
+        for (const event of held.filter(event => replay.has(event))) {
+            this.send(client, ['EVENT', subscriptionId, event]);
+        }
+        this.send(client, ['EOSE', subscriptionId]);
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - LOCAL_RELAY_RETENTION_MS;
+        while (this.events.length > 0 && this.events[0].receivedAt < cutoff) {
+            this.eventIds.delete(this.events.shift()!.event.id);
+        }
+    }
+
+    private send(client: RelayClient, message: unknown[]): void {
+        if (client.socket.readyState === WebSocket.OPEN) {
+            client.socket.send(JSON.stringify(message));
+        }
+    }
+}
+
+function isEventLike(value: unknown): value is Event {
+    return typeof value === 'object' && value !== null && typeof (value as Event).id === 'string';
+}
+
+/**
+ * Check a REQ filter's shape so matching can't throw on it: ids, authors
+ * and #tag fields are string arrays, kinds an integer array, and since,
+ * until and limit non-negative integers.
+ */
+function isFilter(value: unknown): value is Filter {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return false;
+    }
+    return Object.entries(value).every(([field, content]) => {
+        if (field === 'ids' || field === 'authors' || field.startsWith('#')) {
+            return Array.isArray(content) && content.every(item => typeof item === 'string');
+        }
+        if (field === 'kinds') {
+            return Array.isArray(content) && content.every(item => Number.isInteger(item));
+        }
+        if (field === 'since' || field === 'until' || field === 'limit') {
+            return Number.isInteger(content) && (content as number) >= 0;
+        }
+        return true;
+    });
+}
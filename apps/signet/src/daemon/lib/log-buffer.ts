@@ -19,6 +19,8 @@ export interface LogFilterOptions {
     search?: string;
     /** Maximum number of entries to return */
     limit?: number;
+    /** Only entries logged for these keys (`data.key`), or null for all */
+    keyNames?: string[] | null;
 }
 
 const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
@@ -59,7 +61,7 @@ export class LogBuffer {
      * Returns newest entries first (reversed order).
      */
     filter(options: LogFilterOptions = {}): LogEntry[] {
-        const { level, search, limit = 100 } = options;
+        const { level, search, limit = 100, keyNames = null } = options;
         const minLevel = level ? LOG_LEVEL_ORDER[level] : 0;
         const searchLower = search?.toLowerCase();
 
@@ -74,6 +76,11 @@ export class LogBuffer {
                 return false;
             }
 
+            // Filter by key
+            if (keyNames && !keyNames.includes(entry.data?.key as string)) {
+                return false;
+            }
+
             return true;
         });
 
@@ -0,0 +1,183 @@
+/**
+ * Minimal Prometheus / OpenMetrics text exposition.
+ *
+ * Counters and histograms keep their own state; gauges are read at scrape
+ * time and passed in as plain families. renderMetrics() writes either the
+ * classic Prometheus text format (0.0.4) or OpenMetrics 1.0, which differ
+ * only in how counters are typed and in the trailing `# EOF`.
+ *
+ * Usage:
+ *   const requests = new Counter('signet_requests', 'Requests handled', ['method']);
+ *   requests.inc({ method: 'sign_event' });
+ *   const body = renderMetrics([requests.collect()], 'prometheus');
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type MetricLabels = Record<string, string>;
+export type MetricsFormat = 'prometheus' | 'openmetrics';
+
+export interface MetricSample {
+    /** Appended to the family name (`_total`, `_bucket`, `_sum`, `_count`) */
+    suffix?: string;
+    labels?: MetricLabels;
+    value: number;
+}
+
+export interface MetricFamily {
+    name: string;
+    help: string;
+    type: MetricType;
+    samples: MetricSample[];
+}
+
+export const METRICS_CONTENT_TYPES: Record<MetricsFormat, string> = {
+    prometheus: 'text/plain; version=0.0.4; charset=utf-8',
+    openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+};
+
+/**
+ * Pick the exposition format from a scraper's Accept header
+ */
+export function negotiateMetricsFormat(accept: string | undefined): MetricsFormat {
+    return accept?.includes('application/openmetrics-text') ? 'openmetrics' : 'prometheus';
+}
+
+// Stable key for a label set, so the same labels in any order share a series
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+function pickLabels(labelNames: readonly string[], labels: MetricLabels): MetricLabels {
+    const picked: MetricLabels = {};
+    for (const name of labelNames) {
+        picked[name] = labels[name] ?? '';
+    }
+    return picked;
+}
+
+export class Counter {
+    private readonly series = new Map<string, { labels: MetricLabels; value: number }>();
+
+    constructor(
+        readonly name: string,
+        private readonly help: string,
+        private readonly labelNames: readonly string[] = []
+    ) {}
+
+    inc(labels: MetricLabels = {}, amount = 1): void {
+        const picked = pickLabels(this.labelNames, labels);
+        const key = labelKey(picked);
+        const entry = this.series.get(key);
+        if (entry) {
+            entry.value += amount;
+        } else {
+            this.series.set(key, { labels: picked, value: amount });
+        }
+    }
+
+    collect(): MetricFamily {
+        return {
+            name: this.name,
+            help: this.help,
+            type: 'counter',
+            samples: Array.from(this.series.values(), ({ labels, value }) => ({ suffix: '_total', labels, value })),
+        };
+    }
+}
+
+export class Histogram {
+    private readonly buckets: number[];
+    private readonly series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+    constructor(
+        readonly name: string,
+        private readonly help: string,
+        buckets: readonly number[],
+        private readonly labelNames: readonly string[] = []
+    ) {
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: MetricLabels, value: number): void {
+        const picked = pickLabels(this.labelNames, labels);
+        const key = labelKey(picked);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels: picked, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        for (let i = 0; i < this.buckets.length; i++) {
+            if (value <= this.buckets[i]) {
+                entry.counts[i]++;
+            }
+        }
+        entry.sum += value;
+        entry.count++;
+    }
+
+    collect(): MetricFamily {
+        const samples: MetricSample[] = [];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                samples.push({ suffix: '_bucket', labels: { ...labels, le: formatValue(bound) }, value: counts[i] });
+            });
+            samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count });
+            samples.push({ suffix: '_sum', labels, value: sum });
+            samples.push({ suffix: '_count', labels, value: count });
+        }
+        return { name: this.name, help: this.help, type: 'histogram', samples };
+    }
+}
+
+/**
+ * A gauge family from values read at scrape time
+ */
+export function gauge(name: string, help: string, samples: MetricSample[]): MetricFamily {
+    return { name, help, type: 'gauge', samples };
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (value === Infinity) {
+        return '+Inf';
+    }
+    if (value === -Infinity) {
+        return '-Inf';
+    }
+    return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+    const entries = Object.entries(labels ?? {});
+    if (entries.length === 0) {
+        return '';
+    }
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+export function renderMetrics(families: MetricFamily[], format: MetricsFormat): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        // Prometheus 0.0.4 names the counter by its sample; OpenMetrics by the family
+        const typeName = family.type === 'counter' && format === 'prometheus' ? `${family.name}_total` : family.name;
+        lines.push(`# HELP ${typeName} ${escapeHelp(family.help)}`);
+        lines.push(`# TYPE ${typeName} ${family.type}`);
+        for (const sample of family.samples) {
+            lines.push(`${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+    }
+    if (format === 'openmetrics') {
+        lines.push('# EOF');
+    }
+    return `${lines.join('\n')}\n`;
+}
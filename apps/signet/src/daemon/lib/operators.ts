@@ -0,0 +1,59 @@
+/**
+ * Dashboard roles.
+ *
+ * Owners (`adminNpubs`) can do everything. Operators get a role whose scopes
+ * are checked against each route (see access.ts), and can be limited to
+ * specific keys.
+ */
+
+import { decode as nip19Decode } from 'nostr-tools/nip19';
+import type { ApiTokenScope, DashboardRole, OperatorRole } from '@signet/types';
+import { API_TOKEN_SCOPES } from './api-tokens.js';
+import type { AccessGrant } from './access.js';
+
+export const OPERATOR_ROLES: readonly OperatorRole[] = ['viewer', 'approver', 'app-manager', 'key-admin'];
+
+/** Scopes granted by each role; each role includes the ones before it */
+const ROLE_SCOPES: Record<OperatorRole, ApiTokenScope[]> = {
+    viewer: ['read'],
+    approver: ['read', 'requests'],
+    'app-manager': ['read', 'requests', 'apps'],
+    'key-admin': ['read', 'requests', 'apps', 'keys'],
+};
+
+/**
+ * What a dashboard login may do
+ */
+export interface DashboardAccess extends AccessGrant {
+    role: DashboardRole;
+}
+
+export const OWNER_ACCESS: DashboardAccess = {
+    role: 'owner',
+    scopes: [...API_TOKEN_SCOPES],
+    keyNames: null,
+};
+
+export function isOperatorRole(value: unknown): value is OperatorRole {
+    return typeof value === 'string' && (OPERATOR_ROLES as readonly string[]).includes(value);
+}
+
+export function getRoleScopes(role: OperatorRole): ApiTokenScope[] {
+    return ROLE_SCOPES[role];
+}
+
+/**
+ * Parse an npub or hex pubkey, returning the hex pubkey or null
+ */
+export function parseOperatorPubkey(value: string): string | null {
+    const trimmed = value.trim();
+    if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+        return trimmed.toLowerCase();
+    }
+    try {
+        const decoded = nip19Decode(trimmed);
+        return decoded.type === 'npub' ? decoded.data : null;
+    } catch {
+        return null;
+    }
+}
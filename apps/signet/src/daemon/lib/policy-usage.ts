@@ -0,0 +1,97 @@
+/**
+ * Policy rule usage tracking.
+ *
+ * Signing conditions granted by a policy token point back at the PolicyRule
+ * they came from. The rule's maxUsageCount applies to each app on its own:
+ * every approval through a condition consumes one of that app's uses, kept
+ * on the condition. Once an app has used up a rule, or the policy expires,
+ * the condition stops auto-approving and requests fall back to the app's
+ * trust level. The rule keeps a total across apps for display.
+ */
+
+import type { AppPolicyRuleUsage, PolicyRuleInfo } from '@signet/types';
+import prisma from '../../db.js';
+
+export interface PolicyRuleRecord {
+    id: number;
+    method: string;
+    kind: string | null;
+    maxUsageCount: number | null;
+    currentUsageCount: number | null;
+}
+
+export interface PolicyRuleWithPolicy extends PolicyRuleRecord {
+    Policy: { expiresAt: Date | null; deletedAt: Date | null } | null;
+}
+
+/**
+ * Check whether a policy has passed its expiry date.
+ */
+export function isPolicyExpired(policy: { expiresAt: Date | null }, now = Date.now()): boolean {
+    return policy.expiresAt !== null && policy.expiresAt.getTime() <= now;
+}
+
+/**
+ * Check whether a condition granted by a rule can still approve requests:
+ * the policy exists, isn't deleted or expired, and the app has uses left.
+ */
+export function isPolicyRuleActive(rule: PolicyRuleWithPolicy, usageCount: number, now = Date.now()): boolean {
+    if (!rule.Policy || rule.Policy.deletedAt || isPolicyExpired(rule.Policy, now)) {
+        return false;
+    }
+    return rule.maxUsageCount === null || usageCount < rule.maxUsageCount;
+}
+
+/**
+ * Atomically consume one of an app's uses of the rule behind a signing condition.
+ * The increment and the limit check happen in a single UPDATE, so concurrent
+ * requests can never push an app past the rule's maxUsageCount.
+ * @returns false if the app had already used up the rule
+ */
+export async function consumePolicyRuleUsage(conditionId: number, ruleId: number): Promise<boolean> {
+    const updated = await prisma.$executeRaw`
+        UPDATE "SigningCondition"
+        SET "usageCount" = "usageCount" + 1
+        WHERE "id" = ${conditionId}
+          AND NOT EXISTS (
+              SELECT 1 FROM "PolicyRule"
+              WHERE "id" = ${ruleId} AND "maxUsageCount" IS NOT NULL AND "maxUsageCount" <= "SigningCondition"."usageCount"
+          )
+    `;
+    if (updated === 0) {
+        return false;
+    }
+    await prisma.$executeRaw`
+        UPDATE "PolicyRule"
+        SET "currentUsageCount" = COALESCE("currentUsageCount", 0) + 1
+        WHERE "id" = ${ruleId}
+    `;
+    return true;
+}
+
+/**
+ * Convert a rule record to its API shape.
+ */
+export function toPolicyRuleInfo(rule: PolicyRuleRecord): PolicyRuleInfo {
+    return {
+        id: rule.id,
+        method: rule.method,
+        kind: rule.kind,
+        maxUsageCount: rule.maxUsageCount,
+        currentUsageCount: rule.currentUsageCount ?? 0,
+    };
+}
+
+/**
+ * A rule as it applies to one app, given the app's uses so far
+ */
+export function toAppPolicyRuleUsage(rule: PolicyRuleRecord, usageCount: number): AppPolicyRuleUsage {
+    return {
+        id: rule.id,
+        method: rule.method,
+        kind: rule.kind,
+        maxUsageCount: rule.maxUsageCount,
+        usageCount,
+        remainingUsage: rule.maxUsageCount === null ? null : Math.max(0, rule.maxUsageCount - usageCount),
+    };
+}
@@ -1,5 +1,5 @@
 import { SimplePool } from 'nostr-tools/pool';
-import { finalizeEvent, getPublicKey, type UnsignedEvent } from 'nostr-tools/pure';
+import { finalizeEvent, getPublicKey, type Event, type UnsignedEvent } from 'nostr-tools/pure';
 import createDebug from 'debug';
 
 const debug = createDebug('signet:profile');
@@ -24,6 +24,28 @@ export interface ProfileOverrides {
     lud16?: string;
 }
 
+// Kinds that make up a key's public profile: metadata, contacts and relay list
+const PROFILE_KINDS = [0, 3, 10002];
+const PROFILE_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Relays a key's profile is published to: its own relays plus the well-known
+ * profile relays, so other clients can find it.
+ */
+export function getProfileRelays(relays: string[]): string[] {
+    return Array.from(new Set([...relays, ...PROFILE_RELAYS]));
+}
+
+/**
+ * Publish an event and report how many relays accepted it
+ */
+export async function publishEvent(pool: SimplePool, relays: string[], event: Event, label: string): Promise<number> {
+    const results = await Promise.allSettled(pool.publish(relays, event));
+    const successes = results.filter(r => r.status === 'fulfilled').length;
+    debug('%s published to %d/%d relays', label, successes, relays.length);
+    return successes;
+}
+
 function buildDefaultProfile(): ProfileOverrides {
     return {
         display_name: 'New Signet user',
@@ -63,9 +85,7 @@ export async function createSkeletonProfile(
             created_at: createdAt,
         } as UnsignedEvent, secretKey);
 
-        const profileResults = await Promise.allSettled(pool.publish(targetRelays, profileEvent));
-        const profileSuccesses = profileResults.filter(r => r.status === 'fulfilled').length;
-        debug('profile published to %d/%d relays', profileSuccesses, targetRelays.length);
+        await publishEvent(pool, targetRelays, profileEvent, 'profile');
 
         // Kind 3: Contact list (empty, just with a reference to signet author)
         const contactsEvent = finalizeEvent({
@@ -79,9 +99,7 @@ export async function createSkeletonProfile(
             created_at: createdAt,
         } as UnsignedEvent, secretKey);
 
-        const contactsResults = await Promise.allSettled(pool.publish(targetRelays, contactsEvent));
-        const contactsSuccesses = contactsResults.filter(r => r.status === 'fulfilled').length;
-        debug('contacts published to %d/%d relays', contactsSuccesses, targetRelays.length);
+        await publishEvent(pool, targetRelays, contactsEvent, 'contacts');
 
         // Kind 10002: Relay list
         const relayListEvent = finalizeEvent({
@@ -92,10 +110,68 @@ export async function createSkeletonProfile(
             created_at: createdAt,
         } as UnsignedEvent, secretKey);
 
-        const relayResults = await Promise.allSettled(pool.publish(targetRelays, relayListEvent));
-        const relaySuccesses = relayResults.filter(r => r.status === 'fulfilled').length;
-        debug('relay list published to %d/%d relays', relaySuccesses, targetRelays.length);
+        await publishEvent(pool, targetRelays, relayListEvent, 'relay list');
+
+    } finally {
+        pool.close(targetRelays);
+    }
+}
+
+/**
+ * Re-sign another key's latest profile (kind 0), contact list (kind 3) and
+ * relay list (kind 10002) with a new key and publish them.
+ * Used when a key is rotated. Returns the kinds that were copied; kinds the
+ * old key never published are skipped.
+ */
+export async function copyProfile(
+    fromPubkey: string,
+    secretKey: Uint8Array,
+    relays: string[]
+): Promise<number[]> {
+    const pubkey = getPublicKey(secretKey);
+    const pool = new SimplePool();
+    const targetRelays = getProfileRelays(relays);
+
+    try {
+        const found = await pool.querySync(
+            targetRelays,
+            { kinds: PROFILE_KINDS, authors: [fromPubkey] },
+            { maxWait: PROFILE_FETCH_TIMEOUT_MS }
+        );
+
+        // Keep the newest event of each kind
+        const latest = new Map<number, Event>();
+        for (const event of found) {
+            const current = latest.get(event.kind);
+            if (!current || event.created_at > current.created_at) {
+                latest.set(event.kind, event);
+            }
+        }
+
+        const createdAt = Math.floor(Date.now() / 1000);
+        const copied: number[] = [];
+        for (const kind of PROFILE_KINDS) {
+            const original = latest.get(kind);
+            if (!original) {
+                continue;
+            }
+
+            // Contact lists that follow the old key follow the new one instead
+            const tags = original.tags.map((tag) =>
+                tag[0] === 'p' && tag[1] === fromPubkey ? ['p', pubkey, ...tag.slice(2)] : tag
+            );
+            const event = finalizeEvent({
+                kind,
+                pubkey,
+                content: original.content,
+                tags,
+                created_at: createdAt,
+            } as UnsignedEvent, secretKey);
 
+            await publishEvent(pool, targetRelays, event, `kind ${kind} copy`);
+            copied.push(kind);
+        }
+        return copied;
     } finally {
         pool.close(targetRelays);
     }
@@ -0,0 +1,151 @@
+/**
+ * Approval quorum rules.
+ *
+ * A quorum rule makes matching sign_event requests wait for approvals from
+ * several distinct approvers. Matching requests are never auto-approved; the
+ * threshold is stamped on the Request record when it is created, and the
+ * record is only marked allowed once that many approvals have been collected.
+ */
+
+import crypto from 'crypto';
+import type { Event } from 'nostr-tools/pure';
+import type { RequestQuorum } from '@signet/types';
+import { decode as nip19Decode } from 'nostr-tools/nip19';
+import createDebug from 'debug';
+import prisma from '../../db.js';
+import { extractEventKind } from './parse.js';
+
+const debug = createDebug('signet:quorum');
+
+export interface QuorumRuleRecord {
+    keyName: string | null;
+    kind: number | null;
+    threshold: number;
+}
+
+/**
+ * Find the number of approvals a request needs.
+ * When several rules match, the strictest wins. Returns null if no rule applies.
+ */
+export function findQuorumThreshold(
+    rules: QuorumRuleRecord[],
+    keyName: string | null | undefined,
+    method: string,
+    kind: number | undefined
+): number | null {
+    if (method !== 'sign_event' || !keyName) {
+        return null;
+    }
+
+    let threshold: number | null = null;
+    for (const rule of rules) {
+        if (rule.keyName !== null && rule.keyName !== keyName) continue;
+        if (rule.kind !== null && rule.kind !== kind) continue;
+        threshold = Math.max(threshold ?? 0, rule.threshold);
+    }
+    return threshold;
+}
+
+// Rules are read on every sign_event, so they're cached until changed
+let cachedRules: QuorumRuleRecord[] | null = null;
+
+export function invalidateQuorumRuleCache(): void {
+    cachedRules = null;
+}
+
+async function loadQuorumRules(): Promise<QuorumRuleRecord[]> {
+    if (!cachedRules) {
+        cachedRules = await prisma.quorumRule.findMany({
+            select: { keyName: true, kind: true, threshold: true },
+        });
+    }
+    return cachedRules;
+}
+
+/**
+ * Look up the quorum a request needs, or null if it needs none
+ */
+export async function getQuorumThreshold(
+    keyName: string | null | undefined,
+    method: string,
+    payload?: string | Event
+): Promise<number | null> {
+    if (method !== 'sign_event' || !keyName) {
+        return null;
+    }
+
+    const rules = await loadQuorumRules();
+    if (rules.length === 0) {
+        return null;
+    }
+
+    const params = typeof payload === 'string' ? payload : payload ? JSON.stringify(payload) : null;
+    const threshold = findQuorumThreshold(rules, keyName, method, extractEventKind(params));
+    if (threshold !== null) {
+        debug('sign_event on %s needs %d approvals', keyName, threshold);
+    }
+    return threshold;
+}
+
+/**
+ * sign_event kinds on a key that always wait for a quorum: 'all' if a rule
+ * covers every kind, otherwise the kinds named by matching rules
+ */
+export async function getQuorumKinds(keyName: string): Promise<number[] | 'all'> {
+    const kinds = new Set<number>();
+    for (const rule of await loadQuorumRules()) {
+        if (rule.keyName !== null && rule.keyName !== keyName) continue;
+        if (rule.kind === null) {
+            return 'all';
+        }
+        kinds.add(rule.kind);
+    }
+    return [...kinds].sort((a, b) => a - b);
+}
+
+/**
+ * Hash an approver session token for storage
+ */
+export function hashApproverToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApproverToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Parse an npub or hex pubkey. Returns the hex pubkey, or null if invalid.
+ */
+export function parseApproverPubkey(input: string): string | null {
+    const value = input.trim();
+    if (/^[0-9a-f]{64}$/i.test(value)) {
+        return value.toLowerCase();
+    }
+    try {
+        const decoded = nip19Decode(value);
+        return decoded.type === 'npub' ? decoded.data : null;
+    } catch {
+        return null;
+    }
+}
+
+export interface RequestApprovalRecord {
+    approverId: number;
+    createdAt: Date;
+    Approver: { name: string };
+}
+
+/**
+ * Build the approval progress shown for a quorum request
+ */
+export function toRequestQuorum(threshold: number, approvals: RequestApprovalRecord[]): RequestQuorum {
+    return {
+        threshold,
+        approvals: approvals.map((approval) => ({
+            approverId: approval.approverId,
+            approverName: approval.Approver.name,
+            approvedAt: approval.createdAt.toISOString(),
+        })),
+    };
+}
@@ -0,0 +1,192 @@
+/**
+ * Per-app rate limits and signing quotas.
+ *
+ * Quota rules are stored as JSON on the KeyUser record and evaluated by the ACL
+ * before a request is auto-approved. Usage is tracked in memory with sliding
+ * windows, so counters reset when the daemon restarts.
+ */
+
+import type { AppQuotaConfig, QuotaRule, QuotaWindow, QuotaHit, QuotaOverflowAction } from '@signet/types';
+import createDebug from 'debug';
+
+const debug = createDebug('signet:quota');
+
+export const QUOTA_WINDOW_MS: Record<QuotaWindow, number> = {
+    minute: 60_000,
+    hour: 60 * 60_000,
+    day: 24 * 60 * 60_000,
+};
+
+const WINDOW_FIELDS: Array<[QuotaWindow, keyof Pick<QuotaRule, 'perMinute' | 'perHour' | 'perDay'>]> = [
+    ['minute', 'perMinute'],
+    ['hour', 'perHour'],
+    ['day', 'perDay'],
+];
+
+const VALID_OVERFLOW_ACTIONS: QuotaOverflowAction[] = ['deny', 'manual'];
+
+/**
+ * Parse a stored quota config. Returns null for missing or malformed JSON
+ * so a corrupt value never blocks requests outright.
+ */
+export function parseQuotaConfig(raw: string | null | undefined): AppQuotaConfig | null {
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || !Array.isArray(parsed.rules)) {
+            return null;
+        }
+        return {
+            rules: parsed.rules,
+            overflow: VALID_OVERFLOW_ACTIONS.includes(parsed.overflow) ? parsed.overflow : 'deny',
+        };
+    } catch {
+        debug('ignoring malformed quota config');
+        return null;
+    }
+}
+
+/**
+ * Check whether a rule applies to a request.
+ * A rule without a kind matches every kind; a rule with a kind only matches sign_event.
+ */
+export function ruleMatches(rule: QuotaRule, method: string, kind?: number): boolean {
+    if (rule.method && rule.method !== method) {
+        return false;
+    }
+    if (rule.kind !== undefined && rule.kind !== kind) {
+        return false;
+    }
+    return true;
+}
+
+function getRuleKey(keyUserId: number, ruleIndex: number): string {
+    // Rules are identified by their position, so two rules for the same
+    // method and kind keep separate counters. Usage is reset whenever an
+    // app's quotas change, so positions never refer to a different rule.
+    return `${keyUserId}\x00${ruleIndex}`;
+}
+
+function getLongestWindowMs(rule: QuotaRule): number {
+    let longest = 0;
+    for (const [window, field] of WINDOW_FIELDS) {
+        if (rule[field] !== undefined) {
+            longest = Math.max(longest, QUOTA_WINDOW_MS[window]);
+        }
+    }
+    return longest;
+}
+
+function getLargestLimit(rule: QuotaRule): number {
+    let largest = 0;
+    for (const [, field] of WINDOW_FIELDS) {
+        largest = Math.max(largest, rule[field] ?? 0);
+    }
+    return largest;
+}
+
+/**
+ * Tracks quota usage with per-rule sliding windows.
+ * Each rule keeps at most `largest limit` timestamps, so memory stays bounded
+ * even for apps that hammer the signer.
+ */
+export class QuotaTracker {
+    private readonly usage = new Map<string, number[]>();
+    private readonly lastHits = new Map<number, QuotaHit>();
+
+    /**
+     * Check a request against the app's quota rules without recording it.
+     * @returns The first limit that would be exceeded, or null if within quota
+     */
+    check(keyUserId: number, config: AppQuotaConfig, method: string, kind?: number, now = Date.now()): QuotaHit | null {
+        for (const [index, rule] of config.rules.entries()) {
+            if (!ruleMatches(rule, method, kind)) {
+                continue;
+            }
+
+            const timestamps = this.prune(getRuleKey(keyUserId, index), rule, now);
+            for (const [window, field] of WINDOW_FIELDS) {
+                const limit = rule[field];
+                if (limit === undefined) {
+                    continue;
+                }
+                const windowStart = now - QUOTA_WINDOW_MS[window];
+                const used = timestamps.filter((ts) => ts > windowStart).length;
+                if (used >= limit) {
+                    const hit: QuotaHit = {
+                        method,
+                        kind,
+                        window,
+                        limit,
+                        action: config.overflow,
+                        at: new Date(now).toISOString(),
+                    };
+                    this.lastHits.set(keyUserId, hit);
+                    return hit;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Record an approved request against every matching rule.
+     */
+    record(keyUserId: number, config: AppQuotaConfig, method: string, kind?: number, now = Date.now()): void {
+        for (const [index, rule] of config.rules.entries()) {
+            if (!ruleMatches(rule, method, kind)) {
+                continue;
+            }
+            const key = getRuleKey(keyUserId, index);
+            const timestamps = this.prune(key, rule, now);
+            timestamps.push(now);
+
+            // Only the newest `largest limit` entries can ever matter for a check
+            const cap = getLargestLimit(rule);
+            if (timestamps.length > cap) {
+                timestamps.splice(0, timestamps.length - cap);
+            }
+        }
+    }
+
+    /**
+     * Get the most recent quota hit for an app, if any.
+     */
+    getLastHit(keyUserId: number): QuotaHit | null {
+        return this.lastHits.get(keyUserId) ?? null;
+    }
+
+    /**
+     * Forget usage and hits for an app (e.g. after its quotas change).
+     */
+    reset(keyUserId: number): void {
+        const prefix = `${keyUserId}\x00`;
+        for (const key of this.usage.keys()) {
+            if (key.startsWith(prefix)) {
+                this.usage.delete(key);
+            }
+        }
+        this.lastHits.delete(keyUserId);
+    }
+
+    /**
+     * Forget all usage.
+     */
+    clear(): void {
+        this.usage.clear();
+        this.lastHits.clear();
+    }
+
+    private prune(key: string, rule: QuotaRule, now: number): number[] {
+        const cutoff = now - getLongestWindowMs(rule);
+        const existing = this.usage.get(key) ?? [];
+        const kept = existing.filter((ts) => ts > cutoff);
+        this.usage.set(key, kept);
+        return kept;
+    }
+}
+
+export const quotaTracker = new QuotaTracker();
@@ -0,0 +1,92 @@
+/**
+ * NIP-42 relay authentication.
+ *
+ * Relays that require AUTH send a challenge on connect. Signet answers it
+ * with a kind 22242 event signed by the key named for that relay in
+ * `nostr.auth.relays`, or by the dedicated `nostr.auth.key`. These events
+ * are signed internally without app approval: they only prove which pubkey
+ * is connected and are bound to one relay and challenge.
+ */
+
+import { finalizeEvent, type EventTemplate, type VerifiedEvent } from 'nostr-tools/pure';
+import { decode as nip19Decode } from 'nostr-tools/nip19';
+import { normalizeURL } from 'nostr-tools/utils';
+import type { RelayAuthConfig } from '../../config/types.js';
+import { hexToBytes } from './hex.js';
+
+export const RELAY_AUTH_KIND = 22242;
+
+/** Signer label for the dedicated `nostr.auth.key` */
+export const DEDICATED_AUTH_SIGNER = 'relay-auth key';
+
+export interface RelayAuthSigner {
+    /** Key name, or DEDICATED_AUTH_SIGNER */
+    label: string;
+    secretKey: Uint8Array;
+}
+
+/**
+ * Parse an nsec or hex secret key
+ */
+export function parseAuthSecret(secret: string): Uint8Array {
+    if (secret.startsWith('nsec1')) {
+        const decoded = nip19Decode(secret);
+        if (decoded.type !== 'nsec') {
+            throw new Error('Invalid nsec key');
+        }
+        return decoded.data as Uint8Array;
+    }
+    return hexToBytes(secret);
+}
+
+function sameRelay(a: string, b: string): boolean {
+    try {
+        return normalizeURL(a) === normalizeURL(b);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Pick the signer for a relay's AUTH challenge.
+ * Returns null when no key is configured for the relay; throws when the
+ * configured key can't sign right now (locked or missing).
+ *
+ * @param activeKeys - Unlocked keys by name (nsec or hex secrets)
+ */
+export function resolveRelayAuthSigner(
+    relayUrl: string,
+    auth: RelayAuthConfig | undefined,
+    activeKeys: Record<string, string>
+): RelayAuthSigner | null {
+    if (!auth) {
+        return null;
+    }
+
+    const entry = Object.entries(auth.relays ?? {}).find(([url]) => sameRelay(url, relayUrl));
+    if (entry) {
+        const keyName = entry[1];
+        const secret = activeKeys[keyName];
+        if (!secret) {
+            throw new Error(`Key "${keyName}" is locked or missing`);
+        }
+        return { label: keyName, secretKey: parseAuthSecret(secret) };
+    }
+
+    if (auth.key) {
+        return { label: DEDICATED_AUTH_SIGNER, secretKey: parseAuthSecret(auth.key) };
+    }
+
+    return null;
+}
+
+/**
+ * Sign a relay's AUTH event. Refuses anything but kind 22242 so the
+ * approval-free path can't be used to sign other events.
+ */
+export function signRelayAuthEvent(template: EventTemplate, signer: RelayAuthSigner): VerifiedEvent {
+    if (template.kind !== RELAY_AUTH_KIND) {
+        throw new Error(`Refusing to sign kind ${template.kind} as relay AUTH`);
+    }
+    return finalizeEvent(template, signer.secretKey);
+}
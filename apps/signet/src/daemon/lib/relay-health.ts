@@ -0,0 +1,169 @@
+/**
+ * Relay quality scoring from Signet's own measurements.
+ *
+ * RelayPool reports connects, publish acknowledgements and health-probe
+ * EOSEs as samples. Each relay's score (0-100) is computed from the last
+ * hour of samples, so it works without any external service:
+ *
+ *   40% connect success rate
+ *   30% publish success rate (connect rate when nothing was published)
+ *   20% median publish / EOSE latency (500ms or less is full marks, 5s or more nothing)
+ *   10% failures in the last 15 minutes (5 or more is nothing)
+ */
+
+import type { RelayHealth, RelayHealthPoint } from '@signet/types';
+import {
+    RELAY_HEALTH_FAILURE_LIMIT,
+    RELAY_HEALTH_FAST_MS,
+    RELAY_HEALTH_HISTORY_POINTS,
+    RELAY_HEALTH_MAX_SAMPLES,
+    RELAY_HEALTH_MIN_SAMPLES,
+    RELAY_HEALTH_RECENT_MS,
+    RELAY_HEALTH_SLOW_MS,
+    RELAY_HEALTH_WINDOW_MS,
+} from '../constants.js';
+
+export type RelaySampleType = 'connect' | 'publish' | 'eose';
+
+export interface RelaySample {
+    url: string;
+    type: RelaySampleType;
+    ok: boolean;
+    latencyMs?: number;
+}
+
+interface StoredSample {
+    at: number;
+    type: RelaySampleType;
+    ok: boolean;
+    latencyMs?: number;
+}
+
+function rate(samples: StoredSample[]): number | null {
+    if (samples.length === 0) {
+        return null;
+    }
+    return samples.filter(s => s.ok).length / samples.length;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+}
+
+function latencies(samples: StoredSample[]): number[] {
+    return samples.filter(s => s.ok && s.latencyMs !== undefined).map(s => s.latencyMs as number);
+}
+
+/**
+ * Latency component: 1 at or below RELAY_HEALTH_FAST_MS, 0 at or above RELAY_HEALTH_SLOW_MS
+ */
+function latencyScore(latencyMs: number | null): number {
+    if (latencyMs === null) {
+        return 0;
+    }
+    if (latencyMs <= RELAY_HEALTH_FAST_MS) {
+        return 1;
+    }
+    if (latencyMs >= RELAY_HEALTH_SLOW_MS) {
+        return 0;
+    }
+    return 1 - (latencyMs - RELAY_HEALTH_FAST_MS) / (RELAY_HEALTH_SLOW_MS - RELAY_HEALTH_FAST_MS);
+}
+
+export class RelayHealthTracker {
+    private readonly samples = new Map<string, StoredSample[]>();
+    private readonly history = new Map<string, RelayHealthPoint[]>();
+
+    constructor(private readonly now: () => number = Date.now) {}
+
+    record(sample: RelaySample): void {
+        const list = this.samples.get(sample.url) ?? [];
+        list.push({ at: this.now(), type: sample.type, ok: sample.ok, latencyMs: sample.latencyMs });
+        this.samples.set(sample.url, this.prune(list));
+    }
+
+    getHealth(url: string): RelayHealth {
+        const list = this.prune(this.samples.get(url) ?? []);
+        const connects = list.filter(s => s.type === 'connect');
+        const publishes = list.filter(s => s.type === 'publish');
+        const eoses = list.filter(s => s.type === 'eose');
+
+        const recentCutoff = this.now() - RELAY_HEALTH_RECENT_MS;
+        const recentFailures = list.filter(s => !s.ok && s.at >= recentCutoff).length;
+        const connectRate = rate(connects);
+        const publishRate = rate(publishes);
+        const publishLatencyMs = median(latencies(publishes));
+        const eoseLatencyMs = median(latencies(eoses));
+
+        let score: number | null = null;
+        if (list.length >= RELAY_HEALTH_MIN_SAMPLES) {
+            // Without connect samples, judge availability by whether the relay answered at all
+            const connectComponent = connectRate ?? rate([...publishes, ...eoses]) ?? 0;
+            const publishComponent = publishRate ?? connectComponent;
+            const latency = median([...latencies(publishes), ...latencies(eoses)]);
+            const failureComponent = Math.max(0, 1 - recentFailures / RELAY_HEALTH_FAILURE_LIMIT);
+            score = Math.round(100 * (
+                0.4 * connectComponent +
+                0.3 * publishComponent +
+                0.2 * latencyScore(latency) +
+                0.1 * failureComponent
+            ));
+        }
+
+        return {
+            score,
+            connectRate,
+            publishRate,
+            publishLatencyMs,
+            eoseLatencyMs,
+            recentFailures,
+            samples: list.length,
+        };
+    }
+
+    /**
+     * Record a history point for each relay, keeping the last 24 hours
+     */
+    snapshot(urls: string[]): void {
+        const at = new Date(this.now()).toISOString();
+        for (const url of urls) {
+            const health = this.getHealth(url);
+            const points = this.history.get(url) ?? [];
+            points.push({
+                at,
+                score: health.score,
+                connectRate: health.connectRate,
+                publishLatencyMs: health.publishLatencyMs,
+                eoseLatencyMs: health.eoseLatencyMs,
+            });
+            this.history.set(url, points.slice(-RELAY_HEALTH_HISTORY_POINTS));
+        }
+    }
+
+    getHistory(url: string): RelayHealthPoint[] {
+        return [...(this.history.get(url) ?? [])];
+    }
+
+    /**
+     * Drop samples and history for relays no longer in use
+     */
+    retain(urls: string[]): void {
+        const keep = new Set(urls);
+        for (const url of [...this.samples.keys(), ...this.history.keys()]) {
+            if (!keep.has(url)) {
+                this.samples.delete(url);
+                this.history.delete(url);
+            }
+        }
+    }
+
+    private prune(list: StoredSample[]): StoredSample[] {
+        const cutoff = this.now() - RELAY_HEALTH_WINDOW_MS;
+        return list.filter(s => s.at >= cutoff).slice(-RELAY_HEALTH_MAX_SAMPLES);
+    }
+}
@@ -1,10 +1,15 @@
 import { SimplePool } from 'nostr-tools/pool';
-import { type Event } from 'nostr-tools/pure';
+import { type Event, type EventTemplate, type VerifiedEvent } from 'nostr-tools/pure';
 import { type Filter } from 'nostr-tools/filter';
+import { normalizeURL } from 'nostr-tools/utils';
 import createDebug from 'debug';
+import type { RelayAuthState } from '@signet/types';
 import { toErrorMessage } from './errors.js';
 import { logger } from './logger.js';
+import { signRelayAuthEvent, type RelayAuthSigner } from './relay-auth.js';
+import type { RelaySample } from './relay-health.js';
 import {
+    RELAY_PROBE_TIMEOUT_MS,
     RELAY_WATCHDOG_FAILURE_THRESHOLD,
     RELAY_WATCHDOG_RESET_COOLDOWN_MS,
     RELAY_HEARTBEAT_INTERVAL_MS,
@@ -19,10 +24,32 @@ export interface RelayStatus {
     lastConnected: Date | null;
     lastDisconnected: Date | null;
     lastError: string | null;
+    auth: RelayAuthState;
+    authSigner: string | null;
+    authError: string | null;
 }
 
 export type SubscriptionFilter = Filter;
 
+/**
+ * Picks the key that answers a relay's NIP-42 AUTH challenge.
+ * Returns null to ignore the challenge; throws if the configured key can't sign.
+ */
+export type RelayAuthResolver = (relayUrl: string) => RelayAuthSigner | null;
+
+/**
+ * Ranks relays to retry a publish on when every relay it went to failed.
+ * Relays in `exclude` were already tried.
+ */
+export type AlternateRelayProvider = (exclude: string[]) => string[];
+
+export interface PublishResult {
+    successes: string[];
+    failures: Array<{ url: string; error: string }>;
+}
+
+type AuthHandler = (template: EventTemplate) => Promise<VerifiedEvent>;
+
 interface ActiveSubscription {
     id: string;
     close: () => void;
@@ -31,7 +58,9 @@ interface ActiveSubscription {
 export type RelayPoolEvent =
     | { type: 'pool-reset' }
     | { type: 'status-change' }
-    | { type: 'sleep-detected'; data: { sleepDuration: number } };
+    | { type: 'sleep-detected'; data: { sleepDuration: number } }
+    | { type: 'relay-sample'; data: RelaySample }
+    | { type: 'relays-changed'; data: { demoted: string; promoted: string } };
 
 export type RelayPoolEventType = RelayPoolEvent['type'];
 export type RelayPoolListener = (event: RelayPoolEvent) => void;
@@ -42,11 +71,16 @@ export type RelayPoolListener = (event: RelayPoolEvent) => void;
  */
 export class RelayPool {
     private pool: SimplePool;
-    private readonly relays: string[];
+    // Shared relays; failover can swap entries, so this is a copy of the configured list
+    private relays: string[];
+    // Relays outside the default list that keys listen on, tracked for status
+    private extraRelays: string[] = [];
     private readonly subscriptions: Map<string, ActiveSubscription> = new Map();
     private readonly relayStatus: Map<string, RelayStatus> = new Map();
     private consecutiveFailures = 0;
     private lastReset: number = 0;
+    private authResolver?: RelayAuthResolver;
+    private alternateRelayProvider?: AlternateRelayProvider;
 
     // Sleep/wake detection
     private heartbeatTimer?: NodeJS.Timeout;
@@ -62,18 +96,12 @@ export class RelayPool {
     private onStatusChange?: () => void;
 
     constructor(relays: string[]) {
-        this.pool = new SimplePool();
-        this.relays = relays;
+        this.pool = this.createPool();
+        this.relays = [...relays];
 
         // Initialize status for all relays
         for (const url of relays) {
-            this.relayStatus.set(url, {
-                url,
-                connected: false,
-                lastConnected: null,
-                lastDisconnected: null,
-                lastError: null,
-            });
+            this.relayStatus.set(url, emptyStatus(url));
         }
 
         debug('RelayPool created with %d relays', relays.length);
@@ -165,6 +193,149 @@ export class RelayPool {
         return [...this.relays];
     }
 
+    /**
+     * Answer NIP-42 AUTH challenges with keys picked by the resolver.
+     * Applies to connections opened from now on.
+     */
+    public setAuthResolver(resolver: RelayAuthResolver): void {
+        this.authResolver = resolver;
+    }
+
+    /**
+     * Rank retry candidates with the given provider (relay health).
+     * Pass undefined to fall back to the tracked relays.
+     */
+    public setAlternateRelayProvider(provider?: AlternateRelayProvider): void {
+        this.alternateRelayProvider = provider;
+    }
+
+    /**
+     * Relays to retry a failed publish on, best first
+     */
+    public getAlternateRelays(exclude: string[]): string[] {
+        if (this.alternateRelayProvider) {
+            return this.alternateRelayProvider(exclude);
+        }
+        const tried = new Set(exclude);
+        return Array.from(new Set(this.getTrackedRelays())).filter(url => !tried.has(url));
+    }
+
+    /**
+     * Every relay whose status is tracked: the defaults plus per-key relays.
+     */
+    public getTrackedRelays(): string[] {
+        return [...this.relays, ...this.extraRelays];
+    }
+
+    /**
+     * Track status for relays that keys use beyond the default list.
+     * Replaces the previous set; relays no longer used are dropped and closed.
+     */
+    public setExtraRelays(urls: string[]): void {
+        const next = Array.from(new Set(urls)).filter(url => !this.relays.includes(url));
+        const removed = this.extraRelays.filter(url => !next.includes(url));
+
+        for (const url of next) {
+            if (!this.relayStatus.has(url)) {
+                this.relayStatus.set(url, emptyStatus(url));
+            }
+        }
+        for (const url of removed) {
+            this.relayStatus.delete(url);
+        }
+        if (removed.length > 0) {
+            try {
+                this.pool.close(removed);
+            } catch (error) {
+                debug('error closing unused relays: %s', toErrorMessage(error));
+            }
+        }
+
+        const changed = removed.length > 0 || next.length !== this.extraRelays.length;
+        this.extraRelays = next;
+        debug('tracking %d extra relays', next.length);
+        if (changed) {
+            this.onStatusChange?.();
+        }
+    }
+
+    /**
+     * Swap a shared relay for another (failover). Subscriptions on the shared
+     * relays are restarted by listeners of the 'relays-changed' event.
+     */
+    public replaceRelay(demoted: string, promoted: string): void {
+        const index = this.relays.indexOf(demoted);
+        if (index === -1 || this.relays.includes(promoted)) {
+            return;
+        }
+
+        this.relays[index] = promoted;
+        this.extraRelays = this.extraRelays.filter(url => url !== promoted);
+        if (!this.relayStatus.has(promoted)) {
+            this.relayStatus.set(promoted, emptyStatus(promoted));
+        }
+        this.relayStatus.delete(demoted);
+
+        logger.warn('Relay replaced', { demoted, promoted });
+        this.emit({ type: 'relays-changed', data: { demoted, promoted } });
+        this.onStatusChange?.();
+    }
+
+    /**
+     * Measure one relay: connect, then time an empty REQ until EOSE.
+     * Works for relays outside the pool too (backups); their connection is
+     * closed afterwards.
+     */
+    public async probeRelay(url: string): Promise<void> {
+        const tracked = this.relayStatus.has(url);
+        const started = Date.now();
+
+        let relay: Awaited<ReturnType<SimplePool['ensureRelay']>>;
+        try {
+            relay = await this.pool.ensureRelay(url, { connectionTimeout: RELAY_PROBE_TIMEOUT_MS });
+        } catch (error) {
+            const message = toErrorMessage(error);
+            this.emitSample({ url, type: 'connect', ok: false });
+            if (tracked) {
+                this.updateRelayStatus(url, false, message);
+            }
+            debug('probe of %s failed to connect: %s', url, message);
+            return;
+        }
+        this.emitSample({ url, type: 'connect', ok: true, latencyMs: Date.now() - started });
+
+        const eoseStarted = Date.now();
+        const ok = await new Promise<boolean>((resolve) => {
+            let settled = false;
+            const finish = (result: boolean) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    sub.close();
+                    resolve(result);
+                }
+            };
+            const timer = setTimeout(() => finish(false), RELAY_PROBE_TIMEOUT_MS);
+            const sub = relay.subscribe([{ kinds: [24133], limit: 0 }], {
+                // Our own timer decides; the relay's EOSE timeout would look like a real EOSE
+                eoseTimeout: RELAY_PROBE_TIMEOUT_MS * 2,
+                oneose: () => finish(true),
+                onclose: () => finish(false),
+            });
+        });
+        this.emitSample({ url, type: 'eose', ok, latencyMs: ok ? Date.now() - eoseStarted : undefined });
+
+        if (tracked) {
+            this.updateRelayStatus(url, ok, ok ? undefined : 'Health probe timed out');
+        } else if (!this.getTrackedRelays().includes(url)) {
+            try {
+                this.pool.close([url]);
+            } catch (error) {
+                debug('error closing probed relay %s: %s', url, toErrorMessage(error));
+            }
+        }
+    }
+
     /**
      * Subscribe to events matching a filter.
      * Returns a cleanup function to close the subscription.
@@ -203,12 +374,10 @@ export class RelayPool {
                 },
                 oneose: () => {
                     debug('EOSE received for subscription %s', subscriptionId);
-                    // Mark all relays as connected when we receive EOSE
+                    // Mark relays as connected when we receive EOSE
                     // (indicates at least one relay responded)
-                    // Only mark pool's relays, not custom relays
-                    if (!customRelays) {
-                        this.markAllRelaysConnected();
-                    }
+                    // Only tracked relays are marked, not arbitrary custom relays
+                    this.markRelaysConnected(relaysToUse);
                     onEose?.();
                 },
                 onclose: (reasons) => {
@@ -236,12 +405,35 @@ export class RelayPool {
      * @param event - The event to publish
      * @param customRelays - Optional custom relays to publish to (defaults to pool's configured relays)
      */
-    public async publish(event: Event, customRelays?: string[]): Promise<{ successes: string[]; failures: Array<{ url: string; error: string }> }> {
+    public async publish(event: Event, customRelays?: string[]): Promise<PublishResult> {
+        const result = await this.publishSettled(event, customRelays);
+
+        if (result.successes.length === 0) {
+            throw new Error(`Failed to publish to any relay: ${result.failures.map(f => `${f.url}: ${f.error}`).join(', ')}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Publish an event to relays and report which accepted it.
+     * Unlike publish(), resolves even when every relay failed.
+     */
+    public async publishSettled(event: Event, customRelays?: string[]): Promise<PublishResult> {
         const relaysToUse = customRelays ?? this.relays;
         debug('publishing event %s (kind %d) to %d relays', event.id?.slice(0, 8), event.kind, relaysToUse.length);
 
+        const started = Date.now();
         const results = await Promise.allSettled(
-            this.pool.publish(relaysToUse, event)
+            this.pool.publish(relaysToUse, event).map(async (promise) => {
+                const reason = await promise;
+                // SimplePool resolves connection failures instead of rejecting;
+                // those were sampled as failed connects
+                if (String(reason).startsWith('connection failure')) {
+                    throw new ConnectionFailure(String(reason));
+                }
+                return Date.now() - started;
+            })
         );
 
         const successes: string[] = [];
@@ -251,28 +443,28 @@ export class RelayPool {
             const relayUrl = relaysToUse[index];
             if (result.status === 'fulfilled') {
                 successes.push(relayUrl);
-                // Only update status for pool's configured relays
-                if (this.relays.includes(relayUrl)) {
+                // Only update status for tracked relays
+                if (this.relayStatus.has(relayUrl)) {
                     this.updateRelayStatus(relayUrl, true);
+                    this.emitSample({ url: relayUrl, type: 'publish', ok: true, latencyMs: result.value });
                 }
                 this.onPublishSuccess?.(event, relayUrl);
                 debug('published to %s', relayUrl);
             } else {
                 const errorMsg = result.reason?.message ?? String(result.reason);
                 failures.push({ url: relayUrl, error: errorMsg });
-                // Only update status for pool's configured relays
-                if (this.relays.includes(relayUrl)) {
+                // Only update status for tracked relays
+                if (this.relayStatus.has(relayUrl)) {
                     this.updateRelayStatus(relayUrl, false, errorMsg);
+                    if (!(result.reason instanceof ConnectionFailure)) {
+                        this.emitSample({ url: relayUrl, type: 'publish', ok: false });
+                    }
                 }
                 this.onPublishFailure?.(event, relayUrl, result.reason);
                 debug('failed to publish to %s: %s', relayUrl, errorMsg);
             }
         });
 
-        if (successes.length === 0) {
-            throw new Error(`Failed to publish to any relay: ${failures.map(f => `${f.url}: ${f.error}`).join(', ')}`);
-        }
-
         debug('published to %d/%d relays', successes.length, relaysToUse.length);
         return { successes, failures };
     }
@@ -304,7 +496,7 @@ export class RelayPool {
         // Derive connected state from timestamps
         // A relay is considered connected if lastConnected > lastDisconnected
         // or if lastConnected exists and lastDisconnected is null
-        for (const url of this.relays) {
+        for (const url of this.getTrackedRelays()) {
             const existing = this.relayStatus.get(url);
             if (existing) {
                 const isConnected = existing.lastConnected !== null && (
@@ -353,7 +545,7 @@ export class RelayPool {
         }
         this.subscriptions.clear();
 
-        this.pool.close(this.relays);
+        this.pool.close(this.getTrackedRelays());
         debug('relay pool closed');
     }
 
@@ -410,22 +602,20 @@ export class RelayPool {
 
         // Close the existing pool
         try {
-            this.pool.close(this.relays);
+            this.pool.close(this.getTrackedRelays());
         } catch (error) {
             logger.error('Error closing pool', { error: toErrorMessage(error) });
         }
 
         // Create a fresh pool
-        this.pool = new SimplePool();
+        this.pool = this.createPool();
         this.consecutiveFailures = 0;
         this.lastReset = Date.now();
 
         // Reset all relay statuses
-        for (const url of this.relays) {
+        for (const url of this.getTrackedRelays()) {
             this.relayStatus.set(url, {
-                url,
-                connected: false,
-                lastConnected: null,
+                ...emptyStatus(url),
                 lastDisconnected: new Date(),
                 lastError: 'Pool reset',
             });
@@ -453,7 +643,7 @@ export class RelayPool {
         const existing = this.relayStatus.get(url);
         const previouslyConnected = existing?.connected ?? false;
         this.relayStatus.set(url, {
-            url,
+            ...(existing ?? emptyStatus(url)),
             connected,
             lastConnected: connected ? new Date() : (existing?.lastConnected ?? null),
             lastDisconnected: !connected && error ? new Date() : (existing?.lastDisconnected ?? null),
@@ -465,13 +655,108 @@ export class RelayPool {
         }
     }
 
+    private createPool(): SimplePool {
+        const pool = new SimplePool();
+        // Called whenever the pool opens or reuses a relay connection
+        pool.automaticallyAuth = (url) => this.getAuthHandler(url);
+        pool.onRelayConnectionFailure = (url) => {
+            const tracked = this.findTrackedRelay(url);
+            if (tracked) {
+                this.emitSample({ url: tracked, type: 'connect', ok: false });
+            }
+        };
+        return pool;
+    }
+
+    private emitSample(sample: RelaySample): void {
+        this.emit({ type: 'relay-sample', data: sample });
+    }
+
     /**
-     * Mark all relays as connected (called when EOSE received).
+     * Build the handler that signs a relay's AUTH event, or null to ignore its challenge.
      */
-    private markAllRelaysConnected(): void {
+    private getAuthHandler(url: string): AuthHandler | null {
+        if (!this.authResolver) {
+            return null;
+        }
+
+        let resolved: RelayAuthSigner | null;
+        try {
+            resolved = this.authResolver(url);
+        } catch (error) {
+            this.updateAuthStatus(url, 'failed', null, toErrorMessage(error));
+            return null;
+        }
+        if (!resolved) {
+            return null;
+        }
+        const signer = resolved;
+
+        const handler: AuthHandler = async (template) => {
+            const event = signRelayAuthEvent(template, signer);
+            this.updateAuthStatus(url, 'authenticating', signer.label, null);
+            debug('answering AUTH challenge from %s as %s', url, signer.label);
+            // The relay only exposes the outcome through auth(), which exists once this returns
+            setTimeout(() => {
+                this.watchAuth(url, handler, signer.label).catch(() => undefined);
+            }, 0);
+            return event;
+        };
+        return handler;
+    }
+
+    /**
+     * Wait for the relay's OK to an AUTH event and record the result.
+     */
+    private async watchAuth(url: string, handler: AuthHandler, label: string): Promise<void> {
+        try {
+            const relay = await this.pool.ensureRelay(url);
+            await relay.auth(handler);
+            this.updateAuthStatus(url, 'authenticated', label, null);
+            logger.info('Authenticated to relay', { relay: url, signer: label });
+        } catch (error) {
+            const message = toErrorMessage(error);
+            this.updateAuthStatus(url, 'failed', label, message);
+            logger.warn('Relay AUTH failed', { relay: url, signer: label, error: message });
+        }
+    }
+
+    private updateAuthStatus(url: string, auth: RelayAuthState, authSigner: string | null, authError: string | null): void {
+        const tracked = this.findTrackedRelay(url);
+        const existing = tracked ? this.relayStatus.get(tracked) : undefined;
+        if (!tracked || !existing) {
+            return;
+        }
+        if (existing.auth === auth && existing.authSigner === authSigner && existing.authError === authError) {
+            return;
+        }
+        this.relayStatus.set(tracked, { ...existing, auth, authSigner, authError });
+        this.onStatusChange?.();
+    }
+
+    /**
+     * Map a relay URL as nostr-tools normalizes it back to the tracked URL.
+     */
+    private findTrackedRelay(url: string): string | undefined {
+        if (this.relayStatus.has(url)) {
+            return url;
+        }
+        return this.getTrackedRelays().find((tracked) => {
+            try {
+                return normalizeURL(tracked) === url;
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Mark tracked relays among the given ones as connected (called when EOSE received).
+     */
+    private markRelaysConnected(urls: string[]): void {
         const now = new Date();
         let anyChanged = false;
-        for (const url of this.relays) {
+        for (const url of urls) {
             const existing = this.relayStatus.get(url);
             if (existing && !existing.connected) {
                 this.relayStatus.set(url, {
@@ -487,3 +772,21 @@ export class RelayPool {
         }
     }
 }
+
+/**
+ * A relay that could not be reached, as opposed to one that rejected the event
+ */
+class ConnectionFailure extends Error {}
+
+function emptyStatus(url: string): RelayStatus {
+    return {
+        url,
+        connected: false,
+        lastConnected: null,
+        lastDisconnected: null,
+        lastError: null,
+        auth: 'none',
+        authSigner: null,
+        authError: null,
+    };
+}
@@ -0,0 +1,80 @@
+/**
+ * Pending request notifications for the kill switch admin.
+ *
+ * When enabled, Signet DMs the admin a short summary of each request that
+ * needs manual approval. The admin answers with `approve <id>`,
+ * `approve <id> always` or `deny <id>`, where <id> is the short request ID
+ * from the summary (or any longer prefix of the full request ID).
+ */
+
+import type { PendingRequest } from '@signet/types';
+
+/** Characters of the request ID shown in notifications */
+export const SHORT_REQUEST_ID_LENGTH = 8;
+
+// Keep previews short enough to read in a phone notification
+const CONTENT_PREVIEW_LENGTH = 120;
+
+export type RequestDecision =
+    | { action: 'approve'; requestId: string; always: boolean }
+    | { action: 'deny'; requestId: string };
+
+export function shortRequestId(id: string): string {
+    return id.slice(0, SHORT_REQUEST_ID_LENGTH);
+}
+
+/**
+ * Parse an `approve <id> [always]` or `deny <id>` reply (already lowercased).
+ * Returns null for anything else.
+ */
+export function parseRequestDecision(command: string): RequestDecision | null {
+    const match = /^(approve|deny)\s+([0-9a-f-]{4,36})(\s+always)?$/.exec(command.trim());
+    if (!match) {
+        return null;
+    }
+
+    const [, action, requestId, always] = match;
+    if (action === 'deny') {
+        return always ? null : { action, requestId };
+    }
+    return { action: 'approve', requestId, always: Boolean(always) };
+}
+
+function describeMethod(request: PendingRequest): string {
+    if (request.method === 'sign_event' && request.eventPreview) {
+        return `sign_event (kind ${request.eventPreview.kind})`;
+    }
+    return request.method;
+}
+
+function previewContent(content: string): string {
+    const singleLine = content.replace(/\s+/g, ' ').trim();
+    return singleLine.length > CONTENT_PREVIEW_LENGTH
+        ? `${singleLine.slice(0, CONTENT_PREVIEW_LENGTH)}…`
+        : singleLine;
+}
+
+/**
+ * Build the DM sent to the admin when a request needs approval
+ */
+export function formatPendingRequestDm(request: PendingRequest): string {
+    const id = shortRequestId(request.id);
+    const lines = [
+        `🔔 Pending request ${id}`,
+        `App: ${request.appName ?? `${request.remotePubkey.slice(0, 12)}…`}`,
+        `Key: ${request.keyName ?? 'unknown'}`,
+        `Method: ${describeMethod(request)}`,
+    ];
+
+    const content = request.eventPreview?.content;
+    if (content) {
+        lines.push(`Content: ${previewContent(content)}`);
+    }
+    if (request.quorum) {
+        lines.push(`Needs ${request.quorum.threshold} approvals`);
+    }
+
+    lines.push('');
+    lines.push(`Reply "approve ${id}", "approve ${id} always" or "deny ${id}"`);
+    return lines.join('\n');
+}
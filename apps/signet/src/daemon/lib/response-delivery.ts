@@ -0,0 +1,71 @@
+import type { Event } from 'nostr-tools/pure';
+import type { RelayDeliveryResult, ResponseDelivery, ResponseDeliveryStatus } from '@signet/types';
+import type { PublishResult, RelayPool } from './relay-pool.js';
+import { RESPONSE_RETRY_MAX_RELAYS } from '../constants.js';
+
+/**
+ * Publish a NIP-46 response and report which relays accepted it.
+ * If none of `relays` did, retries once on the best alternate relays the
+ * pool knows of. Relay failures never throw; they show up in the result.
+ */
+export async function publishResponse(pool: RelayPool, event: Event, relays: string[]): Promise<ResponseDelivery> {
+    const targets = Array.from(new Set(relays));
+    const results = toDeliveryResults(await pool.publishSettled(event, targets), false);
+
+    if (!results.some(result => result.ok)) {
+        const alternates = pool.getAlternateRelays(targets).slice(0, RESPONSE_RETRY_MAX_RELAYS);
+        if (alternates.length > 0) {
+            results.push(...toDeliveryResults(await pool.publishSettled(event, alternates), true));
+        }
+    }
+
+    return {
+        status: results.some(result => result.ok) ? 'delivered' : 'failed',
+        relays: results,
+        at: new Date().toISOString(),
+    };
+}
+
+/**
+ * One-line summary of the relays that failed, for logs and errors
+ */
+export function describeDeliveryFailures(delivery: ResponseDelivery): string {
+    return delivery.relays
+        .filter(result => !result.ok)
+        .map(result => `${result.url}: ${result.error ?? 'failed'}`)
+        .join(', ');
+}
+
+/**
+ * Rebuild a stored delivery outcome (Request.deliveryStatus, deliveryRelays, deliveryAt).
+ * Returns null while the response hasn't been sent.
+ */
+export function toResponseDelivery(
+    status: string | null | undefined,
+    relays: string | null | undefined,
+    at: Date | null | undefined
+): ResponseDelivery | null {
+    if ((status !== 'delivered' && status !== 'failed') || !at) {
+        return null;
+    }
+
+    let results: RelayDeliveryResult[] = [];
+    if (relays) {
+        try {
+            const parsed: unknown = JSON.parse(relays);
+            results = Array.isArray(parsed) ? parsed as RelayDeliveryResult[] : [];
+        } catch {
+            // Keep the status even if the per-relay detail is unreadable
+        }
+    }
+
+    return { status: status satisfies ResponseDeliveryStatus, relays: results, at: at.toISOString() };
+}
+
+function toDeliveryResults({ successes, failures }: PublishResult, retry: boolean): RelayDeliveryResult[] {
+    const flag = retry ? { retry } : {};
+    return [
+        ...successes.map(url => ({ url, ok: true, ...flag })),
+        ...failures.map(({ url, error }) => ({ url, ok: false, error, ...flag })),
+    ];
+}
@@ -5,6 +5,8 @@ import { toErrorMessage } from './errors.js';
  * Error message to HTTP status code mappings for common application errors.
  */
 const errorStatusMap: Array<{ pattern: RegExp | string; status: number }> = [
+    // 401 Unauthorized (checked first: login errors can mention required fields)
+    { pattern: 'Login failed', status: 401 },
     // 400 Bad Request
     { pattern: 'Invalid', status: 400 },
     { pattern: 'required', status: 400 },
@@ -16,6 +18,8 @@ const errorStatusMap: Array<{ pattern: RegExp | string; status: number }> = [
     { pattern: 'Not found', status: 404 },
     // 409 Conflict
     { pattern: 'already exists', status: 409 },
+    { pattern: 'already retired', status: 409 },
+    { pattern: 'has not been rotated', status: 409 },
 ];
 
 /**
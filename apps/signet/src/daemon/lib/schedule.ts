@@ -0,0 +1,131 @@
+/**
+ * Time-of-day and weekday schedules for apps.
+ *
+ * A schedule is stored as JSON on the KeyUser record and evaluated by the ACL
+ * before anything else can approve a request. Windows are interpreted in the
+ * schedule's own timezone, so a bot scheduled for 09:00-18:00 Europe/Berlin
+ * keeps those hours regardless of where the daemon runs.
+ */
+
+import type { AppSchedule, ScheduleOutsideAction, ScheduleWindow } from '@signet/types';
+import createDebug from 'debug';
+
+const debug = createDebug('signet:schedule');
+
+const VALID_OUTSIDE_ACTIONS: ScheduleOutsideAction[] = ['deny', 'manual'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const WEEKDAYS: Record<string, number> = {
+    Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+/**
+ * Parse a stored schedule. Returns null for missing or malformed JSON;
+ * the schedule is validated before it is stored, so this only guards
+ * against hand-edited rows.
+ */
+export function parseAppSchedule(raw: string | null | undefined): AppSchedule | null {
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed.timezone !== 'string' || !Array.isArray(parsed.windows)) {
+            return null;
+        }
+        return {
+            timezone: parsed.timezone,
+            windows: parsed.windows,
+            outside: VALID_OUTSIDE_ACTIONS.includes(parsed.outside) ? parsed.outside : 'manual',
+        };
+    } catch {
+        debug('ignoring malformed schedule');
+        return null;
+    }
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight, or null if malformed.
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const match = TIME_PATTERN.exec(value);
+    if (!match) {
+        return null;
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check whether a string is a timezone the runtime understands.
+ */
+export function isValidTimezone(timezone: unknown): boolean {
+    if (typeof timezone !== 'string' || !timezone) {
+        return false;
+    }
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the weekday and minutes since midnight for a moment in a timezone.
+ */
+export function getZonedTime(timezone: string, date: Date): { day: number; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? '';
+    return {
+        day: WEEKDAYS[get('weekday')] ?? 0,
+        minutes: Number(get('hour')) * 60 + Number(get('minute')),
+    };
+}
+
+function windowContains(window: ScheduleWindow, day: number, minutes: number): boolean {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+        return false;
+    }
+
+    // Equal start and end covers the whole day
+    if (start === end) {
+        return window.days.includes(day);
+    }
+    if (start < end) {
+        return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+
+    // Overnight window: the tail after midnight belongs to the previous day's window
+    const previousDay = (day + 6) % 7;
+    return (window.days.includes(day) && minutes >= start)
+        || (window.days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * Check whether a moment falls inside any of a schedule's windows.
+ * A schedule with an unknown timezone never matches, so it fails closed.
+ */
+export function isWithinSchedule(schedule: AppSchedule, date = new Date()): boolean {
+    let zoned: { day: number; minutes: number };
+    try {
+        zoned = getZonedTime(schedule.timezone, date);
+    } catch {
+        debug('unknown schedule timezone %s', schedule.timezone);
+        return false;
+    }
+    return schedule.windows.some((window) => windowContains(window, zoned.day, zoned.minutes));
+}
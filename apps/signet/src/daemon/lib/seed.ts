@@ -0,0 +1,47 @@
+import { generateSeedWords, privateKeyFromSeedWords, validateWords } from 'nostr-tools/nip06';
+import { MAX_DERIVATION_INDEX } from '../constants.js';
+
+/**
+ * BIP-39 seeds and NIP-06 key derivation.
+ *
+ * A seed is a BIP-39 mnemonic (English wordlist, no BIP-39 passphrase).
+ * Key number `index` is the secret at m/44'/1237'/<index>'/0/0, the path
+ * NIP-06 wallets use for their accounts, so the same mnemonic restores the
+ * same keys in any NIP-06 client.
+ */
+
+/**
+ * Generate a new 12-word mnemonic
+ */
+export function generateMnemonic(): string {
+    return generateSeedWords();
+}
+
+/**
+ * Tidy a mnemonic as typed (case, spacing, line breaks) and check its words
+ * and checksum
+ */
+export function normalizeMnemonic(text: string): string {
+    const mnemonic = text.trim().toLowerCase().split(/\s+/).join(' ');
+    if (!validateWords(mnemonic)) {
+        throw new Error('Invalid mnemonic: check the words and their order');
+    }
+    return mnemonic;
+}
+
+/**
+ * The derivation path of a key index
+ */
+export function derivationPath(index: number): string {
+    return `m/44'/1237'/${index}'/0/0`;
+}
+
+/**
+ * Derive the secret key at `index` from a mnemonic
+ */
+export function deriveSeedKey(mnemonic: string, index: number): Uint8Array {
+    if (!Number.isInteger(index) || index < 0 || index > MAX_DERIVATION_INDEX) {
+        throw new Error(`Invalid derivation index: must be a whole number from 0 to ${MAX_DERIVATION_INDEX}`);
+    }
+    return privateKeyFromSeedWords(mnemonic, undefined, index);
+}
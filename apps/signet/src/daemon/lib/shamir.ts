@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { getPublicKey } from 'nostr-tools/pure';
+import { bytesToHex, hexToBytes } from './hex.js';
+import { SHAMIR_MAX_SHARES, SHAMIR_SHARE_PREFIX, SHAMIR_SHARE_VERSION } from '../constants.js';
+
+/**
+ * Shamir secret sharing for 32-byte Nostr secret keys.
+ *
+ * Each byte of the key is the constant term of its own random polynomial of
+ * degree threshold - 1 over GF(2^8), reduced by x^8 + x^4 + x^3 + x + 1 (the
+ * AES and SLIP-39 field). Share i holds every polynomial evaluated at x = i,
+ * so any `threshold` shares recover the key by Lagrange interpolation at
+ * x = 0 and fewer reveal nothing about it.
+ *
+ * A share is written as `signet-share:` followed by 43 bytes in hex:
+ *
+ *   0       format version (1)
+ *   1       threshold
+ *   2       share index (1-255)
+ *   3-6     key id: first 4 bytes of the key's public key
+ *   7-38    share value
+ *   39-42   checksum: first 4 bytes of SHA-256 over bytes 0-38
+ *
+ * The key id groups shares of the same key and confirms that the recovered
+ * key is the one that was split.
+ */
+
+const SECRET_LENGTH = 32;
+const KEY_ID_LENGTH = 4;
+const CHECKSUM_LENGTH = 4;
+const HEADER_LENGTH = 3 + KEY_ID_LENGTH;
+const SHARE_LENGTH = HEADER_LENGTH + SECRET_LENGTH + CHECKSUM_LENGTH;
+
+/**
+ * A decoded share
+ */
+export interface KeyShare {
+    threshold: number;
+    index: number;
+    /** Hex of the first 4 bytes of the key's public key */
+    keyId: string;
+    value: Uint8Array;
+}
+
+// Log and antilog tables for GF(2^8), generated by 0x03
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+    let x = 1;
+    for (let i = 0; i < 255; i++) {
+        EXP[i] = x;
+        EXP[i + 255] = x;
+        LOG[x] = i;
+        // Multiply by 0x03: x * 2 (reduced) xor x
+        x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+    }
+}
+
+function mul(a: number, b: number): number {
+    if (a === 0 || b === 0) {
+        return 0;
+    }
+    return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+    if (a === 0) {
+        return 0;
+    }
+    return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+function checksum(bytes: Uint8Array): Buffer {
+    return crypto.createHash('sha256').update(bytes).digest().subarray(0, CHECKSUM_LENGTH);
+}
+
+function keyIdOf(secret: Uint8Array): string {
+    return getPublicKey(secret).slice(0, KEY_ID_LENGTH * 2);
+}
+
+/**
+ * Check a threshold and share count before splitting
+ */
+export function validateShareCounts(threshold: number, shares: number): { valid: boolean; error?: string } {
+    if (!Number.isInteger(shares) || shares < 2 || shares > SHAMIR_MAX_SHARES) {
+        return { valid: false, error: `Share count must be between 2 and ${SHAMIR_MAX_SHARES}` };
+    }
+    if (!Number.isInteger(threshold) || threshold < 2 || threshold > shares) {
+        return { valid: false, error: 'Threshold must be at least 2 and no more than the share count' };
+    }
+    return { valid: true };
+}
+
+/**
+ * Split a 32-byte secret key into `shares` encoded shares, any `threshold`
+ * of which recover it.
+ */
+export function splitKey(secret: Uint8Array, threshold: number, shares: number): string[] {
+    if (secret.length !== SECRET_LENGTH) {
+        throw new Error('Invalid secret key length');
+    }
+    const counts = validateShareCounts(threshold, shares);
+    if (!counts.valid) {
+        throw new Error(counts.error);
+    }
+
+    const keyId = hexToBytes(keyIdOf(secret));
+    // coefficients[k][j] is the x^(k+1) coefficient of the polynomial for byte j
+    const coefficients = Array.from({ length: threshold - 1 }, () => crypto.randomBytes(SECRET_LENGTH));
+
+    const encoded: string[] = [];
+    for (let index = 1; index <= shares; index++) {
+        const share = new Uint8Array(SHARE_LENGTH);
+        share.set([SHAMIR_SHARE_VERSION, threshold, index], 0);
+        share.set(keyId, 3);
+
+        for (let j = 0; j < SECRET_LENGTH; j++) {
+            // Horner's rule, highest coefficient first
+            let y = 0;
+            for (let k = coefficients.length - 1; k >= 0; k--) {
+                y = mul(y ^ coefficients[k][j], index);
+            }
+            share[HEADER_LENGTH + j] = y ^ secret[j];
+        }
+
+        share.set(checksum(share.subarray(0, HEADER_LENGTH + SECRET_LENGTH)), HEADER_LENGTH + SECRET_LENGTH);
+        encoded.push(`${SHAMIR_SHARE_PREFIX}${bytesToHex(share)}`);
+    }
+
+    for (const row of coefficients) {
+        row.fill(0);
+    }
+    return encoded;
+}
+
+/**
+ * Decode a share and check its checksum
+ */
+export function parseShare(text: string): KeyShare {
+    const trimmed = text.trim().toLowerCase();
+    if (!trimmed.startsWith(SHAMIR_SHARE_PREFIX)) {
+        throw new Error(`Invalid share: expected it to start with ${SHAMIR_SHARE_PREFIX}`);
+    }
+
+    let bytes: Uint8Array;
+    try {
+        bytes = hexToBytes(trimmed.slice(SHAMIR_SHARE_PREFIX.length));
+    } catch {
+        throw new Error('Invalid share: not hex encoded');
+    }
+    if (bytes.length !== SHARE_LENGTH) {
+        throw new Error('Invalid share: wrong length');
+    }
+
+    const body = bytes.subarray(0, HEADER_LENGTH + SECRET_LENGTH);
+    if (!checksum(body).equals(bytes.subarray(HEADER_LENGTH + SECRET_LENGTH))) {
+        throw new Error('Invalid share: checksum mismatch (check for typos)');
+    }
+    if (bytes[0] !== SHAMIR_SHARE_VERSION) {
+        throw new Error(`Invalid share: unsupported version ${bytes[0]}`);
+    }
+
+    const [, threshold, index] = bytes;
+    if (threshold < 2 || index === 0) {
+        throw new Error('Invalid share: bad threshold or index');
+    }
+
+    return {
+        threshold,
+        index,
+        keyId: bytesToHex(bytes.subarray(3, HEADER_LENGTH)),
+        value: bytes.slice(HEADER_LENGTH, HEADER_LENGTH + SECRET_LENGTH),
+    };
+}
+
+/**
+ * Recover a secret key from encoded shares. Needs at least the threshold
+ * the shares were made with; extra shares are ignored.
+ */
+export function combineKeyShares(texts: string[]): Uint8Array {
+    const parsed = texts.filter((text) => text.trim()).map(parseShare);
+    if (parsed.length === 0) {
+        throw new Error('At least one share is required');
+    }
+
+    const [first] = parsed;
+    const byIndex = new Map<number, KeyShare>();
+    for (const share of parsed) {
+        if (share.keyId !== first.keyId || share.threshold !== first.threshold) {
+            throw new Error('Invalid shares: they belong to different keys or splits');
+        }
+        const seen = byIndex.get(share.index);
+        if (seen && bytesToHex(seen.value) !== bytesToHex(share.value)) {
+            throw new Error(`Invalid shares: two different shares numbered ${share.index}`);
+        }
+        byIndex.set(share.index, share);
+    }
+
+    if (byIndex.size < first.threshold) {
+        throw new Error(`Invalid shares: ${first.threshold} different shares are required, got ${byIndex.size}`);
+    }
+
+    const shares = Array.from(byIndex.values()).slice(0, first.threshold);
+    const secret = new Uint8Array(SECRET_LENGTH);
+    for (const share of shares) {
+        // Lagrange basis polynomial for this share, evaluated at x = 0
+        let basis = 1;
+        for (const other of shares) {
+            if (other.index !== share.index) {
+                basis = mul(basis, div(other.index, other.index ^ share.index));
+            }
+        }
+        for (let j = 0; j < SECRET_LENGTH; j++) {
+            secret[j] ^= mul(share.value[j], basis);
+        }
+    }
+
+    let keyId: string;
+    try {
+        keyId = keyIdOf(secret);
+    } catch {
+        throw new Error('Invalid shares: they do not recover a valid key');
+    }
+    if (keyId !== first.keyId) {
+        throw new Error('Invalid shares: the recovered key does not match the key id');
+    }
+    return secret;
+}
@@ -43,6 +43,7 @@ type SubscriptionManagerListener = (event: SubscriptionManagerEvent) => void;
  *
  * Features:
  * - Listens for pool-reset events and recreates subscriptions
+ * - Moves subscriptions on the shared relays when failover swaps one (relays-changed)
  * - Periodic health checks that rotate through subscriptions, recreating one per check
  * - Each health check both tests AND refreshes the subscription (test IS the fix)
  * - Automatic full restart on failure
@@ -91,11 +92,14 @@ export class SubscriptionManager {
         this.isRunning = true;
         this.lastHealthCheck = Date.now();
 
-        // Listen for pool-reset events to recreate subscriptions
+        // Listen for pool-reset and failover events to recreate subscriptions
         this.poolListenerCleanup = this.pool.on((event) => {
             if (event.type === 'pool-reset') {
                 debug('received pool-reset event, scheduling subscription restart');
                 this.scheduleRestart('pool-reset');
+            } else if (event.type === 'relays-changed') {
+                debug('shared relays changed, scheduling subscription restart');
+                this.scheduleRestart('relays-changed');
             }
         });
 
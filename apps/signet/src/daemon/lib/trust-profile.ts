@@ -0,0 +1,62 @@
+/**
+ * Custom trust profiles.
+ *
+ * A profile replaces an app's trust level for auto-approval. Kinds and
+ * methods are stored as JSON arrays on the TrustProfile record and parsed
+ * into sets once, when the ACL caches the app.
+ */
+
+import type { TrustProfileMethod } from '@signet/types';
+import createDebug from 'debug';
+import { TRUST_PROFILE_METHODS } from '../constants.js';
+
+const debug = createDebug('signet:trust-profile');
+
+/**
+ * Parsed profile rules used by the ACL
+ */
+export interface TrustProfileRules {
+    kinds: Set<number>;
+    methods: Set<TrustProfileMethod>;
+}
+
+/**
+ * Parse a stored JSON array of event kinds. Malformed values are dropped.
+ */
+export function parseProfileKinds(raw: string | null | undefined): number[] {
+    try {
+        const parsed = JSON.parse(raw ?? '[]');
+        return Array.isArray(parsed)
+            ? parsed.filter((kind): kind is number => Number.isInteger(kind) && kind >= 0)
+            : [];
+    } catch {
+        debug('ignoring malformed profile kinds');
+        return [];
+    }
+}
+
+/**
+ * Parse a stored JSON array of methods. Unknown methods are dropped.
+ */
+export function parseProfileMethods(raw: string | null | undefined): TrustProfileMethod[] {
+    try {
+        const parsed = JSON.parse(raw ?? '[]');
+        return Array.isArray(parsed)
+            ? parsed.filter((method): method is TrustProfileMethod => isTrustProfileMethod(method))
+            : [];
+    } catch {
+        debug('ignoring malformed profile methods');
+        return [];
+    }
+}
+
+export function isTrustProfileMethod(value: unknown): value is TrustProfileMethod {
+    return (TRUST_PROFILE_METHODS as readonly unknown[]).includes(value);
+}
+
+export function toTrustProfileRules(profile: { kinds: string; methods: string }): TrustProfileRules {
+    return {
+        kinds: new Set(parseProfileKinds(profile.kinds)),
+        methods: new Set(parseProfileMethods(profile.methods)),
+    };
+}
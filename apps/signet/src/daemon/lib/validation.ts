@@ -12,7 +12,14 @@ import {
     MAX_PASSPHRASE_LENGTH,
     MAX_URI_LENGTH,
     MAX_RELAYS_PER_CONNECTION,
+    MAX_QUOTA_RULES,
+    MAX_QUOTA_LIMIT,
+    MAX_SCHEDULE_WINDOWS,
+    MAX_CONSTRAINT_TAGS,
+    MAX_CONSTRAINT_PATTERN_LENGTH,
+    MAX_CONSTRAINT_MINUTES,
 } from '../constants.js';
+import { isValidTimezone, parseTimeOfDay } from './schedule.js';
 
 export interface ValidationResult {
     valid: boolean;
@@ -25,20 +32,20 @@ export interface ValidationResult {
  * - Must not exceed max length
  * - Must contain only safe characters (alphanumeric, dash, underscore)
  */
-export function validateKeyName(name: string | undefined | null): ValidationResult {
+export function validateKeyName(name: string | undefined | null, label = 'Key name'): ValidationResult {
     if (!name || !name.trim()) {
-        return { valid: false, error: 'Key name is required' };
+        return { valid: false, error: `${label} is required` };
     }
 
     const trimmed = name.trim();
 
     if (trimmed.length > MAX_KEY_NAME_LENGTH) {
-        return { valid: false, error: `Key name must be at most ${MAX_KEY_NAME_LENGTH} characters` };
+        return { valid: false, error: `${label} must be at most ${MAX_KEY_NAME_LENGTH} characters` };
     }
 
     // Only allow safe characters for key names
     if (!/^[a-zA-Z0-9_-]+$/.test(trimmed)) {
-        return { valid: false, error: 'Key name can only contain letters, numbers, dashes, and underscores' };
+        return { valid: false, error: `${label} can only contain letters, numbers, dashes, and underscores` };
     }
 
     return { valid: true };
@@ -132,6 +139,201 @@ export function validateRelays(relays: string[] | undefined | null): ValidationR
     return { valid: true };
 }
 
+/**
+ * Validate an app quota config.
+ * - Overflow action must be 'deny' or 'manual'
+ * - Must not exceed max number of rules
+ * - Each rule needs at least one limit, and limits must be positive integers
+ */
+export function validateQuotaConfig(config: unknown): ValidationResult {
+    if (!config || typeof config !== 'object') {
+        return { valid: false, error: 'Invalid quota config' };
+    }
+
+    const { rules, overflow } = config as { rules?: unknown; overflow?: unknown };
+
+    if (overflow !== 'deny' && overflow !== 'manual') {
+        return { valid: false, error: 'Invalid quota overflow action' };
+    }
+
+    if (!Array.isArray(rules)) {
+        return { valid: false, error: 'Quota rules are required' };
+    }
+
+    if (rules.length > MAX_QUOTA_RULES) {
+        return { valid: false, error: `At most ${MAX_QUOTA_RULES} quota rules allowed` };
+    }
+
+    for (const rule of rules) {
+        if (!rule || typeof rule !== 'object') {
+            return { valid: false, error: 'Invalid quota rule' };
+        }
+
+        const { method, kind, perMinute, perHour, perDay } = rule as Record<string, unknown>;
+
+        if (method !== undefined && (typeof method !== 'string' || !method.trim())) {
+            return { valid: false, error: 'Invalid quota rule method' };
+        }
+
+        if (kind !== undefined && (!Number.isInteger(kind) || (kind as number) < 0)) {
+            return { valid: false, error: 'Invalid quota rule kind' };
+        }
+
+        const limits = [perMinute, perHour, perDay].filter((limit) => limit !== undefined);
+        if (limits.length === 0) {
+            return { valid: false, error: 'Quota rule requires at least one limit' };
+        }
+
+        for (const limit of limits) {
+            if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_QUOTA_LIMIT) {
+                return { valid: false, error: `Quota limits must be whole numbers between 1 and ${MAX_QUOTA_LIMIT}` };
+            }
+        }
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Validate an app schedule.
+ * Every window needs at least one weekday (0-6) and HH:MM start/end times.
+ */
+export function validateAppSchedule(schedule: unknown): ValidationResult {
+    if (!schedule || typeof schedule !== 'object') {
+        return { valid: false, error: 'Invalid schedule' };
+    }
+
+    const { timezone, windows, outside } = schedule as { timezone?: unknown; windows?: unknown; outside?: unknown };
+
+    if (!isValidTimezone(timezone)) {
+        return { valid: false, error: 'Invalid schedule timezone' };
+    }
+
+    if (outside !== 'deny' && outside !== 'manual') {
+        return { valid: false, error: 'Invalid schedule outside action' };
+    }
+
+    if (!Array.isArray(windows) || windows.length === 0) {
+        return { valid: false, error: 'Schedule windows are required' };
+    }
+
+    if (windows.length > MAX_SCHEDULE_WINDOWS) {
+        return { valid: false, error: `Invalid schedule: at most ${MAX_SCHEDULE_WINDOWS} windows allowed` };
+    }
+
+    for (const window of windows) {
+        if (!window || typeof window !== 'object') {
+            return { valid: false, error: 'Invalid schedule window' };
+        }
+
+        const { days, start, end } = window as Record<string, unknown>;
+
+        if (!Array.isArray(days) || days.length === 0 || days.length > 7 ||
+            !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+            return { valid: false, error: 'Invalid schedule days (use 0-6, Sunday = 0)' };
+        }
+
+        if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null) {
+            return { valid: false, error: 'Invalid schedule time (use HH:MM)' };
+        }
+    }
+
+    return { valid: true };
+}
+
+function isTagName(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0 && value.length <= 64;
+}
+
+function isValidPattern(pattern: unknown): boolean {
+    if (typeof pattern !== 'string' || !pattern || pattern.length > MAX_CONSTRAINT_PATTERN_LENGTH) {
+        return false;
+    }
+    try {
+        new RegExp(pattern, 'u');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isWholeNumber(value: unknown, max: number): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+}
+
+/**
+ * Validate event constraints for a signing condition.
+ * - Tag lists must not exceed max length and need non-empty tag names
+ * - Regex patterns must compile and stay under the max length
+ * - Lengths and time skews must be non-negative integers
+ * - At least one constraint must be set
+ */
+export function validateEventConstraints(constraints: unknown): ValidationResult {
+    if (!constraints || typeof constraints !== 'object' || Array.isArray(constraints)) {
+        return { valid: false, error: 'Invalid event constraints' };
+    }
+
+    const {
+        forbidTags,
+        requireTags,
+        contentMatches,
+        contentNotMatches,
+        maxContentLength,
+        maxPastMinutes,
+        maxFutureMinutes,
+    } = constraints as Record<string, unknown>;
+
+    if (forbidTags !== undefined) {
+        if (!Array.isArray(forbidTags) || forbidTags.length > MAX_CONSTRAINT_TAGS || !forbidTags.every(isTagName)) {
+            return { valid: false, error: 'Invalid forbidden tags' };
+        }
+    }
+
+    if (requireTags !== undefined) {
+        if (!Array.isArray(requireTags) || requireTags.length > MAX_CONSTRAINT_TAGS) {
+            return { valid: false, error: 'Invalid required tags' };
+        }
+        for (const tag of requireTags) {
+            const { name, value } = (tag ?? {}) as { name?: unknown; value?: unknown };
+            if (!isTagName(name) || (value !== undefined && typeof value !== 'string')) {
+                return { valid: false, error: 'Invalid required tags' };
+            }
+        }
+    }
+
+    for (const pattern of [contentMatches, contentNotMatches]) {
+        if (pattern !== undefined && !isValidPattern(pattern)) {
+            return { valid: false, error: `Invalid content pattern (must be a valid regex of at most ${MAX_CONSTRAINT_PATTERN_LENGTH} characters)` };
+        }
+    }
+
+    if (maxContentLength !== undefined && !isWholeNumber(maxContentLength, Number.MAX_SAFE_INTEGER)) {
+        return { valid: false, error: 'Invalid max content length' };
+    }
+
+    for (const minutes of [maxPastMinutes, maxFutureMinutes]) {
+        if (minutes !== undefined && !isWholeNumber(minutes, MAX_CONSTRAINT_MINUTES)) {
+            return { valid: false, error: `Invalid created_at window (must be 0-${MAX_CONSTRAINT_MINUTES} minutes)` };
+        }
+    }
+
+    const hasConstraint = [
+        forbidTags,
+        requireTags,
+        contentMatches,
+        contentNotMatches,
+        maxContentLength,
+        maxPastMinutes,
+        maxFutureMinutes,
+    ].some((value) => value !== undefined);
+
+    if (!hasConstraint) {
+        return { valid: false, error: 'At least one event constraint is required' };
+    }
+
+    return { valid: true };
+}
+
 /**
  * Sanitize a string for safe storage.
  * Trims whitespace and removes control characters.
@@ -0,0 +1,169 @@
+/**
+ * Outbound webhook payloads and signing.
+ *
+ * Payloads are built field by field from server events rather than copied,
+ * so request params, event content, decrypted plaintext, bunker URIs and
+ * admin command text never leave the daemon. Each body is signed with
+ * HMAC-SHA256 over `<timestamp>.<body>` so receivers can check it came from
+ * Signet and reject replays.
+ */
+
+import crypto from 'crypto';
+import type { WebhookEventType } from '@signet/types';
+import type { ServerEvent } from '../services/event-service.js';
+import { WEBHOOK_RETRY_DELAYS_MS } from '../constants.js';
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+    'request:created',
+    'request:approved',
+    'request:denied',
+    'request:expired',
+    'request:auto_approved',
+    'app:connected',
+    'app:revoked',
+    'key:created',
+    'key:unlocked',
+    'key:locked',
+    'key:deleted',
+    'deadman:panic',
+    'backup:failed',
+    'admin:event',
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-signet-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-signet-timestamp';
+export const WEBHOOK_EVENT_HEADER = 'x-signet-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-signet-delivery';
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+    return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a stored comma-separated list, dropping unknown event types
+ */
+export function parseWebhookEvents(value: string): WebhookEventType[] {
+    return value.split(',').map((type) => type.trim()).filter(isWebhookEventType);
+}
+
+export function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Signature sent in the X-Signet-Signature header
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${digest}`;
+}
+
+/**
+ * Delay before the next attempt, or null once every retry is used up
+ */
+export function getRetryDelay(attempts: number): number | null {
+    return WEBHOOK_RETRY_DELAYS_MS[attempts - 1] ?? null;
+}
+
+/**
+ * Only http(s) URLs can receive webhooks
+ */
+export function parseWebhookUrl(value: unknown): string | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    try {
+        const url = new URL(value.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The safe part of a server event, or null if webhooks don't carry it
+ */
+export function toWebhookData(event: ServerEvent): { type: WebhookEventType; data: Record<string, unknown> } | null {
+    switch (event.type) {
+        case 'request:created':
+            return {
+                type: event.type,
+                data: {
+                    requestId: event.request.id,
+                    keyName: event.request.keyName,
+                    method: event.request.method,
+                    eventKind: event.request.eventPreview?.kind ?? null,
+                    remotePubkey: event.request.remotePubkey,
+                    appName: event.request.appName ?? null,
+                    expiresAt: event.request.expiresAt,
+                },
+            };
+        case 'request:approved':
+        case 'request:denied':
+        case 'request:auto_approved':
+            return {
+                type: event.type,
+                data: {
+                    requestId: 'requestId' in event ? event.requestId : null,
+                    keyName: event.activity.keyName ?? null,
+                    method: event.activity.method ?? null,
+                    eventKind: event.activity.eventKind ?? null,
+                    remotePubkey: event.activity.userPubkey ?? null,
+                    appName: event.activity.appName ?? null,
+                    approvalType: event.activity.approvalType ?? null,
+                },
+            };
+        case 'request:expired':
+            return { type: event.type, data: { requestId: event.requestId } };
+        case 'app:connected':
+            return {
+                type: event.type,
+                data: {
+                    appId: event.app.id,
+                    keyName: event.app.keyName,
+                    remotePubkey: event.app.userPubkey,
+                    appName: event.app.description ?? null,
+                    trustLevel: event.app.trustLevel,
+                },
+            };
+        case 'app:revoked':
+            return { type: event.type, data: { appId: event.appId } };
+        case 'key:created':
+            return { type: event.type, data: { keyName: event.key.name, npub: event.key.npub ?? null } };
+        case 'key:unlocked':
+        case 'key:locked':
+        case 'key:deleted':
+            return { type: event.type, data: { keyName: event.keyName } };
+        case 'deadman:panic':
+            return {
+                type: event.type,
+                data: {
+                    panicTriggeredAt: event.status.panicTriggeredAt,
+                    timeframeSec: event.status.timeframeSec,
+                },
+            };
+        case 'backup:failed':
+            return {
+                type: event.type,
+                data: {
+                    failedAt: event.status.lastFailureAt,
+                    error: event.status.lastError,
+                    lastSuccessAt: event.status.lastSuccessAt,
+                },
+            };
+        case 'admin:event':
+            return {
+                type: event.type,
+                data: {
+                    eventType: event.activity.eventType,
+                    keyName: event.activity.keyName ?? null,
+                    appId: event.activity.appId ?? null,
+                    appName: event.activity.appName ?? null,
+                    actor: event.activity.actor ?? null,
+                    clientName: event.activity.clientName ?? null,
+                },
+            };
+        default:
+            return null;
+    }
+}
@@ -8,10 +8,13 @@ import { bytesToHex } from './lib/hex.js';
 import { toErrorMessage } from './lib/errors.js';
 import { logger } from './lib/logger.js';
 import { TTLCache } from './lib/ttl-cache.js';
+import { describeSigner } from './lib/capabilities.js';
 import prisma from '../db.js';
 import type { RelayPool } from './lib/relay-pool.js';
 import type { SubscriptionManager } from './lib/subscription-manager.js';
-import { getConnectionTokenService } from './services/index.js';
+import { publishResponse, describeDeliveryFailures } from './lib/response-delivery.js';
+import { requestRepository } from './repositories/request-repository.js';
+import { getConnectionTokenService, getPolicyService, getEventService, appService } from './services/index.js';
 
 const debug = createDebug('signet:nip46');
 
@@ -32,7 +35,9 @@ type Nip46Method =
     | 'nip04_encrypt' | 'nip04_decrypt'
     | 'nip44_encrypt' | 'nip44_decrypt'
     | 'ping'
-    | 'switch_relays';
+    | 'switch_relays'
+    | 'get_relays'
+    | 'describe';
 
 interface Nip46Request {
     id: string;
@@ -51,6 +56,22 @@ export interface PermitCallbackParams {
     method: Nip46Method;
     pubkey: string;
     params?: string[];
+    /** Relays the response will be published to */
+    relays?: string[];
+}
+
+/**
+ * A request that was waiting for approval when the daemon restarted.
+ * Its original handler is gone, so the backend answers it directly.
+ */
+export interface ResumedRequest {
+    /** NIP-46 request ID */
+    id: string;
+    method: string;
+    remotePubkey: string;
+    params: string[];
+    /** Relays the response goes out on (the key's relays when omitted) */
+    relays?: string[];
 }
 
 export type PermitCallback = (params: PermitCallbackParams) => Promise<boolean>;
@@ -62,6 +83,8 @@ export interface Nip46BackendConfig {
     subscriptionManager?: SubscriptionManager;
     permitCallback: PermitCallback;
     adminSecret?: string;
+    /** Relays this key listens and responds on (pool relays when omitted or empty) */
+    relays?: string[];
 }
 
 /**
@@ -77,6 +100,7 @@ export class Nip46Backend {
     private readonly subscriptionManager?: SubscriptionManager;
     private readonly permitCallback: PermitCallback;
     private readonly adminSecret?: string;
+    private readonly relays?: string[];
 
     private unsubscribe?: () => void;
     private isRunning = false;
@@ -92,6 +116,14 @@ export class Nip46Backend {
         this.subscriptionManager = config.subscriptionManager;
         this.permitCallback = config.permitCallback;
         this.adminSecret = config.adminSecret;
+        this.relays = config.relays?.length ? [...config.relays] : undefined;
+    }
+
+    /**
+     * Relays this key listens on, answers on and advertises to clients.
+     */
+    public getRelays(): string[] {
+        return this.relays ? [...this.relays] : this.pool.getRelays();
     }
 
     /**
@@ -120,15 +152,15 @@ export class Nip46Backend {
         // Use SubscriptionManager if available (provides auto-reconnect after sleep)
         // Otherwise fall back to direct pool subscription
         if (this.subscriptionManager) {
-            this.unsubscribe = this.subscriptionManager.subscribe(subscriptionId, filter, onEvent);
+            this.unsubscribe = this.subscriptionManager.subscribe(subscriptionId, filter, onEvent, this.relays);
             debug('[%s] using managed subscription', this.keyName);
         } else {
-            this.unsubscribe = this.pool.subscribe(filter, onEvent, subscriptionId);
+            this.unsubscribe = this.pool.subscribe(filter, onEvent, subscriptionId, undefined, this.relays);
             debug('[%s] using direct pool subscription', this.keyName);
         }
 
         this.isRunning = true;
-        logger.info('NIP-46 subscription active', { key: this.keyName });
+        logger.info('NIP-46 subscription active', { key: this.keyName, relayCount: this.getRelays().length });
     }
 
     /**
@@ -174,12 +206,12 @@ export class Nip46Backend {
             return;
         }
 
-        // Skip relays that are already in the pool
-        const poolRelays = new Set(this.pool.getRelays());
-        const uniqueRelays = relays.filter(r => !poolRelays.has(r));
+        // Skip relays the key already listens on
+        const keyRelays = new Set(this.getRelays());
+        const uniqueRelays = relays.filter(r => !keyRelays.has(r));
 
         if (uniqueRelays.length === 0) {
-            debug('[%s] app %d relays already covered by pool, skipping', this.keyName, appId);
+            debug('[%s] app %d relays already covered by key relays, skipping', this.keyName, appId);
             return;
         }
 
@@ -302,23 +334,36 @@ export class Nip46Backend {
             return this.handleConnect(id, params, remotePubkey);
         }
 
-        // switch_relays: return signer's preferred relays (no permission required, but must be connected)
-        if (method === 'switch_relays') {
+        // switch_relays/get_relays: return signer's preferred relays (no permission required, but must be connected)
+        if (method === 'switch_relays' || method === 'get_relays') {
             return this.handleSwitchRelays(remotePubkey);
         }
 
+        // describe: capability discovery (no permission required)
+        if (method === 'describe') {
+            return JSON.stringify(await describeSigner(this.keyName, remotePubkey));
+        }
+
         // Check permissions via callback
         const permitted = await this.permitCallback({
             id,
             method,
             pubkey: remotePubkey,
             params,
+            relays: this.getRelays(),
         });
 
         if (!permitted) {
             return undefined; // Will send "Not authorized"
         }
 
+        return this.executeMethod(method, params);
+    }
+
+    /**
+     * Run a permitted method and return its result.
+     */
+    private async executeMethod(method: Nip46Method, params: string[]): Promise<string> {
         // Dispatch to method handlers
         switch (method) {
             case 'get_public_key':
@@ -349,9 +394,10 @@ export class Nip46Backend {
 
     /**
      * Handle connect request with secret validation.
-     * Validates against one-time connection tokens first, then falls back to admin secret.
-     * Secret validates the connection attempt but does NOT auto-approve.
-     * User must still approve and select trust level via the UI.
+     * A policy token secret approves the connect and grants the policy's rules.
+     * Otherwise validates against one-time connection tokens, then falls back to admin secret.
+     * Those secrets validate the connection attempt but do NOT auto-approve;
+     * the user must still approve and select trust level via the UI.
      */
     private async handleConnect(
         id: string,
@@ -362,7 +408,23 @@ export class Nip46Backend {
         const humanPubkey = npubEncode(remotePubkey);
 
         if (providedSecret) {
-            // First, try to validate as a one-time connection token
+            // Policy tokens grant their policy's permissions and approve the connect directly
+            try {
+                const appId = await getPolicyService().redeemToken(this.keyName, remotePubkey, providedSecret);
+                if (appId !== null) {
+                    logger.info('Connect approved via policy token', { key: this.keyName, from: humanPubkey });
+                    const app = await appService.getAppById(appId);
+                    if (app) {
+                        getEventService().emitAppConnected(app);
+                    }
+                    return 'ack';
+                }
+            } catch (error) {
+                debug('[%s] connect with unusable policy token from %s: %s', this.keyName, humanPubkey, toErrorMessage(error));
+                return undefined; // Silent rejection - no response sent
+            }
+
+            // Next, try to validate as a one-time connection token
             const tokenService = getConnectionTokenService();
             const tokenValid = await tokenService.validateAndRedeemToken(providedSecret, this.keyName);
 
@@ -394,12 +456,13 @@ export class Nip46Backend {
             method: 'connect',
             pubkey: remotePubkey,
             params,
+            relays: this.getRelays(),
         });
         return permitted ? 'ack' : undefined;
     }
 
     /**
-     * Handle switch_relays request.
+     * Handle switch_relays and get_relays requests.
      * Returns the signer's preferred relay list if the client is connected,
      * otherwise returns undefined (not authorized).
      * See: https://github.com/nostr-protocol/nips/pull/2193
@@ -421,7 +484,7 @@ export class Nip46Backend {
             return undefined;
         }
 
-        const relays = this.pool.getRelays();
+        const relays = this.getRelays();
         debug('[%s] switch_relays: returning %d relays', this.keyName, relays.length);
         return JSON.stringify(relays);
     }
@@ -488,27 +551,56 @@ export class Nip46Backend {
         return nip04Decrypt(privkeyHex, thirdPartyPubkey, ciphertext);
     }
 
+    /**
+     * Answer a resumed request that has since been approved.
+     * Connect approvals already granted their permissions, so they just ack.
+     */
+    public async completeResumedRequest(request: ResumedRequest): Promise<void> {
+        const { id, method, remotePubkey, params, relays } = request;
+        logger.info('Answering resumed NIP-46 request', { key: this.keyName, requestId: id, method });
+
+        try {
+            const result = method === 'connect'
+                ? 'ack'
+                : await this.executeMethod(method as Nip46Method, params);
+            await this.sendResponse(id, remotePubkey, result, relays);
+        } catch (err) {
+            const message = toErrorMessage(err);
+            logger.error('Error handling resumed NIP-46 method', { key: this.keyName, method, error: message });
+            await this.sendError(id, remotePubkey, message, relays);
+        }
+    }
+
+    /**
+     * Answer a resumed request with an error (denied or expired).
+     */
+    public async rejectResumedRequest(request: ResumedRequest, error: string): Promise<void> {
+        logger.info('Rejecting resumed NIP-46 request', { key: this.keyName, requestId: request.id, error });
+        await this.sendError(request.id, request.remotePubkey, error, request.relays);
+    }
+
     /**
      * Send a success response.
      */
-    private async sendResponse(id: string, remotePubkey: string, result: string): Promise<void> {
+    private async sendResponse(id: string, remotePubkey: string, result: string, relays?: string[]): Promise<void> {
         const response: Nip46Response = { id, result };
-        await this.sendEncryptedResponse(remotePubkey, response);
+        await this.sendEncryptedResponse(remotePubkey, response, relays);
     }
 
     /**
      * Send an error response.
      */
-    private async sendError(id: string, remotePubkey: string, error: string): Promise<void> {
+    private async sendError(id: string, remotePubkey: string, error: string, relays?: string[]): Promise<void> {
         const response: Nip46Response = { id, result: 'error', error };
-        await this.sendEncryptedResponse(remotePubkey, response);
+        await this.sendEncryptedResponse(remotePubkey, response, relays);
     }
 
     /**
      * Encrypt and publish a response.
-     * Publishes to both pool relays and any custom relays the app connected with.
+     * Publishes to both the key's relays (or the given relays) and any custom relays the app connected with,
+     * retrying on alternate relays if none accept it, then records the outcome on the request.
      */
-    private async sendEncryptedResponse(remotePubkey: string, response: Nip46Response): Promise<void> {
+    private async sendEncryptedResponse(remotePubkey: string, response: Nip46Response, relays?: string[]): Promise<void> {
         // Encrypt with NIP-44
         const conversationKey = getConversationKey(this.nsec, remotePubkey);
         const encrypted = nip44Encrypt(JSON.stringify(response), conversationKey);
@@ -544,125 +636,27 @@ export class Nip46Backend {
             debug('[%s] failed to lookup app relays: %s', this.keyName, (err as Error).message);
         }
 
-        // Publish to pool relays first
-        await this.pool.publish(event);
-
-        // If app has custom relays not in pool, also publish there
-        if (appRelays.length > 0) {
-            const poolRelays = new Set(this.pool.getRelays());
-            const uniqueAppRelays = appRelays.filter(r => !poolRelays.has(r));
-
-            if (uniqueAppRelays.length > 0) {
-                debug('[%s] also publishing to %d app-specific relays', this.keyName, uniqueAppRelays.length);
-                try {
-                    await this.pool.publish(event, uniqueAppRelays);
-                } catch (err) {
-                    // Log but don't fail - we already published to pool relays
-                    debug('[%s] failed to publish to app relays: %s', this.keyName, (err as Error).message);
-                }
-            }
-        }
-    }
+        // The key's relays plus any app-specific relays they don't cover
+        const primaryRelays = relays ?? this.getRelays();
+        const delivery = await publishResponse(this.pool, event, [...primaryRelays, ...appRelays]);
 
-    /**
-     * Apply a token to grant permissions to a remote pubkey.
-     * This is used for token-based authorization flow.
-     *
-     * Uses atomic token claiming to prevent race conditions where
-     * two requests could redeem the same token simultaneously.
-     */
-    public async applyToken(remotePubkey: string, token: string): Promise<void> {
-        // Validate token exists and get its data
-        const record = await this.fetchTokenRecord(token);
-
-        // Atomically claim the token - only succeeds if redeemedAt is still null
-        // This prevents race conditions where two requests pass validation simultaneously
-        const claimed = await prisma.token.updateMany({
-            where: {
-                id: record.id,
-                redeemedAt: null, // Only claim if not already redeemed
-            },
-            data: {
-                redeemedAt: new Date(),
-            },
-        });
-
-        if (claimed.count === 0) {
-            throw new Error('Token already redeemed');
+        if (delivery.status === 'failed') {
+            logger.warn('NIP-46 response not delivered', {
+                key: this.keyName,
+                requestId: response.id,
+                failures: describeDeliveryFailures(delivery),
+            });
+        } else if (delivery.relays.some(result => result.retry)) {
+            logger.info('NIP-46 response delivered on retry', { key: this.keyName, requestId: response.id });
         }
 
-        // Token successfully claimed - now create permissions
         try {
-            const keyUser = await prisma.keyUser.upsert({
-                where: { unique_key_user: { keyName: record.keyName, userPubkey: remotePubkey } },
-                update: {},
-                create: {
-                    keyName: record.keyName,
-                    userPubkey: remotePubkey,
-                    description: record.clientName,
-                },
-            });
-
-            // Link token to keyUser
-            await prisma.token.update({
-                where: { id: record.id },
-                data: { keyUserId: keyUser.id },
-            });
-
-            await prisma.signingCondition.create({
-                data: {
-                    keyUserId: keyUser.id,
-                    method: 'connect',
-                    allowed: true,
-                },
-            });
-
-            for (const rule of record.policy!.rules) {
-                await prisma.signingCondition.create({
-                    data: {
-                        keyUserId: keyUser.id,
-                        method: rule.method,
-                        allowed: true,
-                        kind: rule.kind !== null && rule.kind !== undefined ? rule.kind.toString() : undefined,
-                    },
-                });
+            const recordId = await requestRepository.recordDelivery(this.keyName, response.id, remotePubkey, delivery);
+            if (recordId) {
+                getEventService().emitRequestDelivery(recordId, delivery);
             }
-        } catch (error) {
-            // If permission creation fails, unclaim the token so it can be retried
-            await prisma.token.update({
-                where: { id: record.id },
-                data: { redeemedAt: null, keyUserId: null },
-            });
-            throw error;
-        }
-    }
-
-    /**
-     * Fetch and validate a token record.
-     * Does NOT check redeemedAt - that's handled atomically in applyToken.
-     */
-    private async fetchTokenRecord(token: string) {
-        const record = await prisma.token.findUnique({
-            where: { token },
-            include: { policy: { include: { rules: true } } },
-        });
-
-        if (!record) {
-            throw new Error('Token not found');
-        }
-
-        if (record.redeemedAt) {
-            throw new Error('Token already redeemed');
-        }
-
-        if (!record.policy) {
-            throw new Error('Token policy missing');
-        }
-
-        if (record.expiresAt && record.expiresAt < new Date()) {
-            throw new Error('Token expired');
+        } catch (err) {
+            debug('[%s] failed to record delivery of %s: %s', this.keyName, response.id, toErrorMessage(err));
         }
-
-        return record;
     }
 }
@@ -47,7 +47,11 @@ describe('AppRepository', () => {
       expect(result).toEqual(mockApps);
       expect(mockPrisma.keyUser.findMany).toHaveBeenCalledWith({
         where: { revokedAt: null },
-        include: { signingConditions: true },
+        include: {
+          signingConditions: true,
+          Token: expect.objectContaining({ include: { policy: { include: { rules: true } } } }),
+          trustProfile: { select: { id: true, name: true } },
+        },
         orderBy: { lastUsedAt: 'desc' },
       });
     });
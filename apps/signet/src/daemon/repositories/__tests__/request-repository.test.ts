@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RequestRepository } from '../request-repository.js';
 import { createMockRequest } from '../../testing/mocks.js';
+import { decisionBus } from '../../lib/decision-bus.js';
 
 // Mock the db module - must use inline factory to avoid hoisting issues
 vi.mock('../../../db.js', () => ({
@@ -39,7 +40,13 @@ describe('RequestRepository', () => {
       expect(result).toEqual(mockRequest);
       expect(mockPrisma.request.findUnique).toHaveBeenCalledWith({
         where: { id: 'test-request-id' },
-        include: { KeyUser: true },
+        include: {
+          KeyUser: true,
+          approvals: {
+            include: { Approver: { select: { name: true } } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
       });
     });
 
@@ -109,6 +116,15 @@ describe('RequestRepository', () => {
         },
       });
     });
+
+    it('should publish the approval to waiting handlers', async () => {
+      const listener = vi.fn();
+      decisionBus.subscribe('test-request-id', listener);
+
+      await repository.approve('test-request-id');
+
+      expect(listener).toHaveBeenCalledWith('approved');
+    });
   });
 
   describe('deny', () => {
@@ -123,5 +139,43 @@ describe('RequestRepository', () => {
         },
       });
     });
+
+    it('should publish the denial to waiting handlers', async () => {
+      const listener = vi.fn();
+      decisionBus.subscribe('test-request-id', listener);
+
+      await repository.deny('test-request-id');
+
+      expect(listener).toHaveBeenCalledWith('denied');
+    });
+  });
+
+  describe('findUnanswered', () => {
+    it('should only return resumable requests for the key', async () => {
+      await repository.findUnanswered('test-key');
+
+      expect(mockPrisma.request.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          keyName: 'test-key',
+          respondedAt: null,
+          rpcParams: { not: null },
+        },
+        orderBy: { createdAt: 'asc' },
+      }));
+    });
+  });
+
+  describe('markResponded', () => {
+    it('should set respondedAt and drop the stored params', async () => {
+      await repository.markResponded('test-request-id');
+
+      expect(mockPrisma.request.update).toHaveBeenCalledWith({
+        where: { id: 'test-request-id' },
+        data: {
+          respondedAt: expect.any(Date),
+          rpcParams: null,
+        },
+      });
+    });
   });
 });
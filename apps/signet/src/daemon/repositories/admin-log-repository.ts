@@ -6,6 +6,8 @@ export type AdminEventType =
     | 'key_encrypted'
     | 'key_migrated'
     | 'key_exported'
+    | 'key_rotated'
+    | 'seed_exported'
     | 'auth_failed'
     | 'app_connected'
     | 'app_suspended'
@@ -15,7 +17,9 @@ export type AdminEventType =
     | 'status_checked'
     | 'command_executed'
     | 'panic_triggered'
-    | 'deadman_reset';
+    | 'deadman_reset'
+    | 'backup_created'
+    | 'backup_restored';
 
 export interface AdminLogEntry {
     id: number;
@@ -29,6 +33,7 @@ export interface AdminLogEntry {
     ipAddress: string | null;
     command: string | null;
     commandResult: string | null;
+    actor: string | null;
 }
 
 export interface AdminActivityEntry {
@@ -44,12 +49,15 @@ export interface AdminActivityEntry {
     ipAddress?: string;
     command?: string;
     commandResult?: string;
+    actor?: string;
 }
 
 export interface ClientInfo {
     clientName?: string;
     clientVersion?: string;
     ipAddress?: string;
+    /** `token:<name>` for API tokens, or the pubkey of a dashboard login */
+    actor?: string;
 }
 
 export class AdminLogRepository {
@@ -63,6 +71,7 @@ export class AdminLogRepository {
         ipAddress?: string;
         command?: string;
         commandResult?: string;
+        actor?: string;
     }): Promise<AdminLogEntry> {
         return prisma.adminLog.create({
             data: {
@@ -76,12 +85,14 @@ export class AdminLogRepository {
                 ipAddress: data.ipAddress,
                 command: data.command,
                 commandResult: data.commandResult,
+                actor: data.actor,
             },
         });
     }
 
-    async findRecent(limit: number): Promise<AdminLogEntry[]> {
+    async findRecent(limit: number, keyNames: string[] | null = null): Promise<AdminLogEntry[]> {
         return prisma.adminLog.findMany({
+            where: keyNames ? { keyName: { in: keyNames } } : undefined,
             take: limit,
             orderBy: { timestamp: 'desc' },
         });
@@ -90,8 +101,11 @@ export class AdminLogRepository {
     async findAll(options: {
         limit?: number;
         offset?: number;
+        /** Only events for these keys (null or omitted for every event) */
+        keyNames?: string[] | null;
     } = {}): Promise<AdminLogEntry[]> {
         return prisma.adminLog.findMany({
+            where: options.keyNames ? { keyName: { in: options.keyNames } } : undefined,
             take: options.limit ?? 50,
             skip: options.offset ?? 0,
             orderBy: { timestamp: 'desc' },
@@ -125,6 +139,7 @@ export class AdminLogRepository {
             ipAddress: log.ipAddress ?? undefined,
             command: log.command ?? undefined,
             commandResult: log.commandResult ?? undefined,
+            actor: log.actor ?? undefined,
         };
     }
 }
@@ -1,6 +1,30 @@
+import type { AppQuotaConfig, AppSchedule, EventConstraints } from '@signet/types';
 import prisma from '../../db.js';
 import { invalidateAclCache, invalidateAclCacheForKey, clearAclCache } from '../lib/acl.js';
 
+/**
+ * The policy an app connected with, if it redeemed a policy token
+ */
+export interface AppPolicyRecord {
+    policy: {
+        id: number;
+        name: string;
+        expiresAt: Date | null;
+        deletedAt: Date | null;
+        rules: Array<{ id: number; method: string; kind: string | null; maxUsageCount: number | null; currentUsageCount: number | null }>;
+    } | null;
+}
+
+// Only the most recently redeemed policy token matters for display
+const POLICY_TOKEN_INCLUDE = {
+    where: { policyId: { not: null }, redeemedAt: { not: null } },
+    include: { policy: { include: { rules: true } } },
+    orderBy: { redeemedAt: 'desc' },
+    take: 1,
+} as const;
+
+const TRUST_PROFILE_SELECT = { select: { id: true, name: true } } as const;
+
 export interface AppRecord {
     id: number;
     keyName: string;
@@ -12,6 +36,10 @@ export interface AppRecord {
     revokedAt: Date | null;
     suspendedAt: Date | null;
     suspendUntil: Date | null;
+    quotas: string | null;
+    schedule: string | null;
+    trustProfileId: number | null;
+    trustProfile?: { id: number; name: string } | null;
     signingConditions: Array<{
         id: number;
         method: string | null;
@@ -20,14 +48,17 @@ export interface AppRecord {
         allowed: boolean | null;
         keyUserId: number | null;
         keyUserKeyName: string | null;
+        policyRuleId: number | null;
+        usageCount: number;
     }>;
+    Token?: AppPolicyRecord[];
 }
 
 export class AppRepository {
     async findAll(): Promise<AppRecord[]> {
         return prisma.keyUser.findMany({
             where: { revokedAt: null },
-            include: { signingConditions: true },
+            include: { signingConditions: true, Token: POLICY_TOKEN_INCLUDE, trustProfile: TRUST_PROFILE_SELECT },
             orderBy: { lastUsedAt: 'desc' },
         });
     }
@@ -51,11 +82,19 @@ export class AppRepository {
         trustLevel: string | null;
         createdAt: Date;
         lastUsedAt: Date | null;
-        signingConditions: { method: string | null; kind: string | null; allowed: boolean | null }[];
+        quotas: string | null;
+        schedule: string | null;
+        trustProfile: { id: number; name: string } | null;
+        signingConditions: { id: number; method: string | null; kind: string | null; content: string | null; allowed: boolean | null; policyRuleId: number | null; usageCount: number }[];
+        Token: AppPolicyRecord[];
     } | null> {
         return prisma.keyUser.findUnique({
             where: { id, revokedAt: null },
-            include: { signingConditions: { select: { method: true, kind: true, allowed: true } } },
+            include: {
+                signingConditions: { select: { id: true, method: true, kind: true, content: true, allowed: true, policyRuleId: true, usageCount: true } },
+                Token: POLICY_TOKEN_INCLUDE,
+                trustProfile: TRUST_PROFILE_SELECT,
+            },
         });
     }
 
@@ -88,6 +127,78 @@ export class AppRepository {
         });
     }
 
+    /**
+     * Replace an app's quota config. Pass null to remove all rate limits.
+     */
+    async updateQuotas(id: number, quotas: AppQuotaConfig | null): Promise<void> {
+        const keyUser = await prisma.keyUser.update({
+            where: { id },
+            data: { quotas: quotas ? JSON.stringify(quotas) : null },
+            select: { keyName: true, userPubkey: true },
+        });
+        invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
+    }
+
+    /**
+     * Replace an app's schedule. Pass null to let the app act at any time.
+     */
+    async updateSchedule(id: number, schedule: AppSchedule | null): Promise<void> {
+        const keyUser = await prisma.keyUser.update({
+            where: { id },
+            data: { schedule: schedule ? JSON.stringify(schedule) : null },
+            select: { keyName: true, userPubkey: true },
+        });
+        invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
+    }
+
+    /**
+     * Add an explicit allow/deny condition to an app.
+     * Constraints are stored as JSON in the condition's content column.
+     */
+    async createCondition(id: number, condition: {
+        method: string;
+        kind?: string;
+        allowed: boolean;
+        constraints?: EventConstraints;
+    }): Promise<number> {
+        const keyUser = await prisma.keyUser.findUniqueOrThrow({
+            where: { id },
+            select: { keyName: true, userPubkey: true },
+        });
+        const created = await prisma.signingCondition.create({
+            data: {
+                keyUserId: id,
+                method: condition.method,
+                kind: condition.kind,
+                allowed: condition.allowed,
+                content: condition.constraints ? JSON.stringify(condition.constraints) : null,
+            },
+        });
+        invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
+        return created.id;
+    }
+
+    /**
+     * Remove a condition from an app.
+     * @returns false if the condition doesn't belong to the app
+     */
+    async deleteCondition(id: number, conditionId: number): Promise<boolean> {
+        const result = await prisma.signingCondition.deleteMany({
+            where: { id: conditionId, keyUserId: id },
+        });
+        if (result.count === 0) {
+            return false;
+        }
+        const keyUser = await prisma.keyUser.findUnique({
+            where: { id },
+            select: { keyName: true, userPubkey: true },
+        });
+        if (keyUser) {
+            invalidateAclCache(keyUser.keyName, keyUser.userPubkey);
+        }
+        return true;
+    }
+
     async getRequestCount(keyUserId: number): Promise<number> {
         return prisma.log.count({ where: { keyUserId } });
     }
@@ -211,6 +322,20 @@ export class AppRepository {
         return result.count;
     }
 
+    /**
+     * Move a key's active apps, with their permissions, to another key.
+     * Used when a key is rotated.
+     */
+    async moveToKey(fromKey: string, toKey: string): Promise<number> {
+        const result = await prisma.keyUser.updateMany({
+            where: { keyName: fromKey, revokedAt: null },
+            data: { keyName: toKey },
+        });
+        invalidateAclCacheForKey(fromKey);
+        invalidateAclCacheForKey(toKey);
+        return result.count;
+    }
+
     /**
      * Suspend an app, preventing all requests until unsuspended.
      * @param id - The app ID
@@ -1,4 +1,5 @@
 import prisma from '../../db.js';
+import type { ResponseDeliveryStatus } from '@signet/types';
 import type { ApprovalType } from '../lib/acl.js';
 import { extractEventKind } from '../lib/parse.js';
 
@@ -13,6 +14,8 @@ export interface LogEntry {
     approvalType: string | null;
     keyName: string | null;
     remotePubkey: string | null;
+    requestId: string | null;
+    deliveryStatus: string | null;
     KeyUser?: {
         keyName: string;
         userPubkey: string;
@@ -31,6 +34,8 @@ export interface ActivityEntry {
     appName?: string;
     autoApproved: boolean;
     approvalType?: ApprovalType;
+    requestId?: string;
+    delivery?: ResponseDeliveryStatus;
 }
 
 export class LogRepository {
@@ -43,6 +48,7 @@ export class LogRepository {
         approvalType?: ApprovalType;
         keyName?: string;
         remotePubkey?: string;
+        requestId?: string;
     }): Promise<LogEntry> {
         return prisma.log.create({
             data: {
@@ -55,12 +61,17 @@ export class LogRepository {
                 approvalType: data.approvalType,
                 keyName: data.keyName,
                 remotePubkey: data.remotePubkey,
+                requestId: data.requestId,
             },
         });
     }
 
-    async findRecent(limit: number): Promise<LogEntry[]> {
+    async findRecent(limit: number, keyNames: string[] | null = null): Promise<LogEntry[]> {
         return prisma.log.findMany({
+            // Denials store the key directly; everything else goes through the app
+            where: keyNames
+                ? { OR: [{ keyName: { in: keyNames } }, { KeyUser: { keyName: { in: keyNames } } }] }
+                : undefined,
             take: limit,
             orderBy: { timestamp: 'desc' },
             include: { KeyUser: true },
@@ -116,6 +127,8 @@ export class LogRepository {
             appName: log.KeyUser?.description ?? undefined,
             autoApproved: log.autoApproved,
             approvalType: log.approvalType as ApprovalType | undefined,
+            requestId: log.requestId ?? undefined,
+            delivery: (log.deliveryStatus as ResponseDeliveryStatus | null) ?? undefined,
         };
     }
 }
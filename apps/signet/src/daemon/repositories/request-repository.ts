@@ -1,7 +1,9 @@
 import prisma from '../../db.js';
 import type { Prisma } from '@prisma/client';
-import type { ApprovalType } from '@signet/types';
+import type { ApprovalType, ResponseDelivery } from '@signet/types';
 import { REQUEST_EXPIRY_MS } from '../constants.js';
+import type { RequestApprovalRecord } from '../lib/quorum.js';
+import { decisionBus } from '../lib/decision-bus.js';
 
 export type RequestStatus = 'all' | 'pending' | 'approved' | 'denied' | 'expired';
 
@@ -9,6 +11,8 @@ export interface RequestQueryOptions {
     status: RequestStatus;
     limit: number;
     offset: number;
+    /** Only requests for these keys (null or omitted for every key) */
+    keyNames?: string[] | null;
 }
 
 export interface RequestRecord {
@@ -23,27 +27,56 @@ export interface RequestRecord {
     autoApproved: boolean;
     approvalType: string | null;
     keyUserId: number | null;
+    quorumThreshold: number | null;
+    deliveryStatus: string | null;
+    deliveryRelays: string | null;
+    deliveryAt: Date | null;
     KeyUser?: {
         keyName: string;
         userPubkey: string;
         description: string | null;
     } | null;
+    approvals?: RequestApprovalRecord[];
 }
 
+/**
+ * A manual-approval request whose NIP-46 client has not been answered yet
+ */
+export interface UnansweredRequestRecord {
+    id: string;
+    requestId: string;
+    keyName: string | null;
+    method: string;
+    remotePubkey: string;
+    allowed: boolean | null;
+    createdAt: Date;
+    rpcParams: string | null;
+    relays: string | null;
+}
+
+// Requests shown in the dashboard include quorum approval progress
+const REQUEST_INCLUDE = {
+    KeyUser: true,
+    approvals: {
+        include: { Approver: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' },
+    },
+} satisfies Prisma.RequestInclude;
+
 export class RequestRepository {
     private readonly REQUEST_TTL_MS = REQUEST_EXPIRY_MS;
 
     async findById(id: string): Promise<RequestRecord | null> {
         return prisma.request.findUnique({
             where: { id },
-            include: { KeyUser: true },
+            include: REQUEST_INCLUDE,
         });
     }
 
     async findPending(id: string): Promise<RequestRecord | null> {
         const record = await prisma.request.findUnique({
             where: { id },
-            include: { KeyUser: true },
+            include: REQUEST_INCLUDE,
         });
         if (!record || record.allowed !== null) {
             return null;
@@ -88,12 +121,32 @@ export class RequestRepository {
                 break;
         }
 
+        if (options.keyNames) {
+            where = { ...where, keyName: { in: options.keyNames } };
+        }
+
         return prisma.request.findMany({
             where,
             orderBy: { createdAt: 'desc' },
             skip: options.offset,
             take: options.limit,
-            include: { KeyUser: true },
+            include: REQUEST_INCLUDE,
+        });
+    }
+
+    /**
+     * Find pending, unexpired requests whose ID starts with the given prefix
+     */
+    async findPendingByIdPrefix(prefix: string, limit: number): Promise<RequestRecord[]> {
+        const expiryThreshold = new Date(Date.now() - this.REQUEST_TTL_MS);
+        return prisma.request.findMany({
+            where: {
+                id: { startsWith: prefix },
+                allowed: null,
+                createdAt: { gte: expiryThreshold },
+            },
+            take: limit,
+            include: REQUEST_INCLUDE,
         });
     }
 
@@ -116,6 +169,7 @@ export class RequestRepository {
                 approvalType: approvalType ?? 'manual',
             },
         });
+        decisionBus.publish(id, 'approved');
     }
 
     async deny(id: string): Promise<void> {
@@ -126,6 +180,7 @@ export class RequestRepository {
                 processedAt: new Date(),
             },
         });
+        decisionBus.publish(id, 'denied');
     }
 
     async create(data: {
@@ -164,6 +219,83 @@ export class RequestRepository {
         });
     }
 
+    /**
+     * Requests for a key that still owe their NIP-46 client a response.
+     * Only requests stored with their full params can be resumed.
+     */
+    async findUnanswered(keyName: string): Promise<UnansweredRequestRecord[]> {
+        return prisma.request.findMany({
+            where: {
+                keyName,
+                respondedAt: null,
+                rpcParams: { not: null },
+            },
+            select: {
+                id: true,
+                requestId: true,
+                keyName: true,
+                method: true,
+                remotePubkey: true,
+                allowed: true,
+                createdAt: true,
+                rpcParams: true,
+                relays: true,
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * Record that the NIP-46 client got its response and drop the stored params
+     */
+    async markResponded(id: string): Promise<void> {
+        await prisma.request.update({
+            where: { id },
+            data: {
+                respondedAt: new Date(),
+                rpcParams: null,
+            },
+        });
+    }
+
+    /**
+     * Attach the delivery outcome of a NIP-46 response to the request it
+     * answers and that request's log entries.
+     * Returns the request record's id, or null if the request wasn't stored (e.g. pings).
+     */
+    async recordDelivery(
+        keyName: string,
+        requestId: string,
+        remotePubkey: string,
+        delivery: ResponseDelivery
+    ): Promise<string | null> {
+        // NIP-46 request IDs are picked by the client, so take the latest match
+        const record = await prisma.request.findFirst({
+            where: { keyName, requestId, remotePubkey },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true },
+        });
+        if (!record) {
+            return null;
+        }
+
+        await prisma.$transaction([
+            prisma.request.update({
+                where: { id: record.id },
+                data: {
+                    deliveryStatus: delivery.status,
+                    deliveryRelays: JSON.stringify(delivery.relays),
+                    deliveryAt: new Date(delivery.at),
+                },
+            }),
+            prisma.log.updateMany({
+                where: { requestId: record.id },
+                data: { deliveryStatus: delivery.status },
+            }),
+        ]);
+        return record.id;
+    }
+
     async cleanupExpired(maxAge: Date): Promise<number> {
         const result = await prisma.request.deleteMany({
             where: {
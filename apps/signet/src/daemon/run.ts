@@ -3,10 +3,13 @@ import { hexToBytes } from './lib/hex.js';
 import { ConnectionManager } from './connection-manager.js';
 import { Nip46Backend, type PermitCallbackParams } from './nip46-backend.js';
 import { RelayPool } from './lib/relay-pool.js';
+import { resolveRelayAuthSigner } from './lib/relay-auth.js';
+import { LocalRelay, resolveLocalRelayUrl } from './lib/local-relay.js';
 import { SubscriptionManager } from './lib/subscription-manager.js';
 import { printServerInfo } from './lib/network.js';
-import { requestAuthorization } from './authorize.js';
+import { requestAuthorization, resumePendingRequests } from './authorize.js';
 import type { DaemonBootstrapConfig } from './types.js';
+import type { QuotaHit } from '@signet/types';
 import { checkRequestPermission, type RpcMethod, type ApprovalType } from './lib/acl.js';
 import { TTLCache, getAllCacheStats } from './lib/ttl-cache.js';
 import { extractEventKind } from './lib/parse.js';
@@ -18,6 +21,12 @@ import {
     RequestService,
     AppService,
     DashboardService,
+    DashboardAuthService,
+    setDashboardAuthService,
+    getOperatorService,
+    getWebhookService,
+    MetricsService,
+    setMetricsService,
     RelayService,
     PublishLogger,
     EventService,
@@ -33,6 +42,9 @@ import {
     type DeadManSwitchService,
     TrustScoreService,
     initSystemService,
+    initBackupService,
+    initScheduledBackupService,
+    type ScheduledBackupService,
 } from './services/index.js';
 import { requestRepository, logRepository } from './repositories/index.js';
 import { adminLogRepository } from './repositories/admin-log-repository.js';
@@ -106,13 +118,44 @@ function shouldLogAutoApproval(keyUserId: number, method: string): boolean {
     return true;
 }
 
+// Rate limiting for quota notifications: 1 event per app per minute
+// A misbehaving client can trip its quota hundreds of times in a row
+const QUOTA_NOTIFY_INTERVAL_MS = 60 * 1000; // 1 minute
+const quotaNotifyTimestamps = new TTLCache<boolean>('quota-notify', {
+    ttlMs: QUOTA_NOTIFY_INTERVAL_MS,
+    maxSize: 10_000, // Safety cap
+});
+
+async function notifyQuotaExceeded(keyUserId: number, keyName: string, hit: QuotaHit): Promise<void> {
+    if (quotaNotifyTimestamps.has(String(keyUserId))) {
+        return;
+    }
+    quotaNotifyTimestamps.set(String(keyUserId), true);
+
+    const keyUser = await prisma.keyUser.findUnique({
+        where: { id: keyUserId },
+        select: { description: true },
+    });
+
+    logger.warn('App quota exceeded', {
+        key: keyName,
+        appId: keyUserId,
+        method: hit.method,
+        limit: `${hit.limit}/${hit.window}`,
+        action: hit.action,
+    });
+
+    const eventService = getEventService();
+    eventService.emitAppQuotaExceeded(keyUserId, keyUser?.description ?? null, keyName, hit);
+}
+
 function buildAuthorizationCallback(
     keyName: string,
     connectionManager: ConnectionManager
 ) {
     const keyLogger = logger.child({ key: keyName });
 
-    return async ({ id, method, pubkey, params }: PermitCallbackParams): Promise<boolean> => {
+    return async ({ id, method, pubkey, params, relays }: PermitCallbackParams): Promise<boolean> => {
         const humanPubkey = npubEncode(pubkey);
         keyLogger.info('Request received', { requestId: id, from: humanPubkey, method });
 
@@ -124,6 +167,16 @@ function buildAuthorizationCallback(
             primaryParam
         );
 
+        if (result.quotaExceeded && result.keyUserId) {
+            notifyQuotaExceeded(result.keyUserId, keyName, result.quotaExceeded).catch(err => {
+                logger.error('Failed to emit quota event', { error: toErrorMessage(err) });
+            });
+        }
+
+        if (result.outsideSchedule) {
+            keyLogger.info('Request outside app schedule', { npub: humanPubkey, method });
+        }
+
         if (result.permitted !== undefined) {
             const accessType = result.autoApproved ? 'auto-approved' : 'granted';
             keyLogger.info(`Access ${result.permitted ? accessType : 'denied'} via ACL`, { npub: humanPubkey });
@@ -144,7 +197,10 @@ function buildAuthorizationCallback(
         keyLogger.info('No ACL decision, proceeding to authorization request', { npub: humanPubkey });
 
         try {
-            await requestAuthorization(connectionManager, keyName, pubkey, id, method, primaryParam);
+            await requestAuthorization(connectionManager, keyName, pubkey, id, method, primaryParam, {
+                params: Array.isArray(params) ? params : [],
+                relays,
+            });
             return true;
         } catch (error) {
             keyLogger.info('Authorization rejected', { error: toErrorMessage(error) });
@@ -175,7 +231,7 @@ async function logAutoApproval(
     const eventKind = method === 'sign_event' ? extractEventKind(paramsStr) : undefined;
 
     // Create request record (so it appears in Activity page)
-    await requestRepository.createAutoApproved({
+    const request = await requestRepository.createAutoApproved({
         requestId,
         keyName,
         method,
@@ -193,6 +249,7 @@ async function logAutoApproval(
         keyUserId,
         autoApproved,
         approvalType,
+        requestId: request.id,
     });
 
     // Emit SSE event
@@ -208,6 +265,7 @@ async function logAutoApproval(
         appName: keyUser?.description ?? undefined,
         autoApproved,
         approvalType,
+        requestId: request.id,
     });
 
     // Emit stats update (activity count changed)
@@ -250,7 +308,11 @@ class Daemon {
     private readonly adminCommandService?: AdminCommandService;
     private readonly deadManSwitchService: DeadManSwitchService;
     private readonly trustScoreService: TrustScoreService;
+    private readonly scheduledBackupService: ScheduledBackupService;
+    private readonly metricsService: MetricsService;
     private readonly backends: Map<string, Nip46Backend> = new Map();
+    private readonly localRelay?: LocalRelay;
+    private readonly localRelayUrl?: string;
     private httpServer?: HttpServer;
     private lastPoolReset: Date | null = null;
 
@@ -263,14 +325,24 @@ class Daemon {
     constructor(config: DaemonBootstrapConfig) {
         this.config = config;
 
+        // Embedded relay for LAN/offline pairing; it joins the shared relays
+        const localRelayConfig = config.nostr.localRelay;
+        if (localRelayConfig?.enabled) {
+            this.localRelay = new LocalRelay({ host: localRelayConfig.host, port: localRelayConfig.port });
+            this.localRelayUrl = resolveLocalRelayUrl(localRelayConfig);
+        }
+        const sharedRelays = this.localRelayUrl
+            ? Array.from(new Set([...config.nostr.relays, this.localRelayUrl]))
+            : config.nostr.relays;
+
         // Create shared relay pool
-        this.pool = new RelayPool(config.nostr.relays);
+        this.pool = new RelayPool(sharedRelays);
 
         // Create subscription manager for automatic reconnection after sleep/wake
         this.subscriptionManager = new SubscriptionManager({ pool: this.pool });
 
         // Initialize relay health monitoring
-        this.relayService = new RelayService(this.pool);
+        this.relayService = new RelayService(this.pool, config.nostr.failover);
 
         // Wire up relay status change callback to emit SSE events
         this.pool.setStatusChangeCallback(() => {
@@ -284,10 +356,14 @@ class Daemon {
         this.keyService = new KeyService({
             configFile: config.configFile,
             allKeys: config.allKeys,
-            nostrRelays: config.nostr.relays,
+            nostrRelays: sharedRelays,
+            getSharedRelays: () => this.pool.getRelays(),
             adminSecret: config.admin.secret,
         }, config.keys);
 
+        // Answer NIP-42 AUTH challenges with the key configured for each relay
+        this.pool.setAuthResolver((url) => resolveRelayAuthSigner(url, config.nostr.auth, this.keyService.getActiveKeys()));
+
         this.requestService = new RequestService({
             allKeys: config.allKeys,
         });
@@ -300,6 +376,17 @@ class Daemon {
         });
         setDashboardService(this.dashboardService);
 
+        // Dashboard logins (owners on the allow-list and operators sign a challenge)
+        const dashboardAuthService = new DashboardAuthService({
+            adminNpubs: config.adminNpubs ?? [],
+            keyService: this.keyService,
+            operatorService: getOperatorService(),
+        });
+        setDashboardAuthService(dashboardAuthService);
+        if (config.requireAuth && !dashboardAuthService.loginEnabled) {
+            logger.warn('requireAuth is enabled but no adminNpubs are configured - nobody can log in to the dashboard');
+        }
+
         // Initialize event service for real-time updates
         this.eventService = new EventService();
         setEventService(this.eventService);
@@ -313,6 +400,7 @@ class Daemon {
             key: config.admin.key,
             relays: config.nostr.relays,
             secret: config.admin.secret,
+            extraRelays: this.localRelayUrl ? [this.localRelayUrl] : undefined,
         }, config.configFile, this.pool);
 
         // Initialize admin command service (kill switch) if configured
@@ -321,6 +409,7 @@ class Daemon {
                 config: config.killSwitch,
                 keyService: this.keyService,
                 appService: this.appService,
+                requestService: this.requestService,
                 getActiveKeySecrets: () => this.keyService.getActiveKeys(),
                 daemonVersion,
             });
@@ -334,8 +423,16 @@ class Daemon {
             // Warning DM callback will be set up after admin command service starts
         });
 
-        // Initialize trust score service for relay reputation
-        this.trustScoreService = new TrustScoreService(config.nostr.relays);
+        // Initialize metrics for the Prometheus endpoint
+        this.metricsService = new MetricsService({
+            pool: this.pool,
+            subscriptionManager: this.subscriptionManager,
+            getDeadManStatus: () => this.deadManSwitchService.getStatus(),
+        });
+        setMetricsService(this.metricsService);
+
+        // Initialize trust score service for relay reputation (backups may be promoted)
+        this.trustScoreService = new TrustScoreService([...config.nostr.relays, ...(config.nostr.failover?.backupRelays ?? [])]);
 
         // Initialize nostrconnect service for client-initiated connections
         const nostrconnectService = initNostrconnectService({
@@ -345,6 +442,20 @@ class Daemon {
         // Initialize system service for local/remote configuration
         initSystemService(config, config.configFile);
 
+        // Initialize backup service for encrypted backup and restore
+        initBackupService({
+            configFile: config.configFile,
+            keyService: this.keyService,
+            signetVersion: daemonVersion,
+        });
+
+        // Initialize scheduled snapshots (started only when enabled in signet.json)
+        this.scheduledBackupService = initScheduledBackupService({
+            configFile: config.configFile,
+            settings: config.backups,
+            signetVersion: daemonVersion,
+        });
+
         // Wire up per-app subscription callbacks
         nostrconnectService.setOnAppConnected((keyName, appId, relays) => {
             const backend = this.backends.get(keyName);
@@ -364,6 +475,8 @@ class Daemon {
     }
 
     public async start(): Promise<void> {
+        await this.startLocalRelay();
+
         logger.info('Connecting to relays...');
 
         // RelayPool connects lazily, but let's log what we're configured with
@@ -379,6 +492,10 @@ class Daemon {
                 logger.info('System wake detected, refreshing connections', { source: 'killswitch' });
                 this.adminCommandService?.refresh();
             }
+            if (event.type === 'relays-changed') {
+                // Keys with their own relay sets may still use the demoted relay
+                this.syncKeyRelays();
+            }
             if (event.type === 'pool-reset') {
                 this.lastPoolReset = new Date();
                 // Log health status after pool reset for visibility
@@ -388,6 +505,9 @@ class Daemon {
 
         this.relayService.start();
         this.publishLogger.start();
+        await getOperatorService().load();
+        await getWebhookService().start(getEventService());
+        this.metricsService.start(this.eventService);
         await this.startWebAuth();
 
         // Wire up callback to start bunker backend when keys are unlocked/created via HTTP
@@ -408,6 +528,16 @@ class Daemon {
             this.logHealthStatus();
         });
 
+        // Wire up callback to move a running bunker backend onto its new relays
+        this.keyService.setOnKeyRelaysChanged(async (keyName: string) => {
+            const secret = this.keyService.getActiveKeys()[keyName];
+            if (!secret) {
+                return;
+            }
+            this.stopKey(keyName);
+            await this.startKey(keyName, secret);
+        });
+
         await this.startConfiguredKeys();
         await this.loadPlainKeys();
 
@@ -422,6 +552,8 @@ class Daemon {
         // Start trust score service (fetches relay trust scores)
         await this.trustScoreService.start();
 
+        this.scheduledBackupService.start();
+
         this.startCleanupTasks();
 
         // Log daemon_started event
@@ -456,15 +588,19 @@ class Daemon {
         // Stop relay pool and monitoring
         this.pool.stopMonitoring();
         this.pool.close();
+        await this.localRelay?.stop();
 
         // Stop services
         this.relayService.stop();
         this.publishLogger.stop();
+        getWebhookService().stop();
+        this.metricsService.stop();
         if (this.adminCommandService) {
             this.adminCommandService.stop();
         }
         await this.deadManSwitchService.stop();
         await this.trustScoreService.stop();
+        this.scheduledBackupService.stop();
 
         // Disconnect Prisma
         await prisma.$disconnect();
@@ -532,10 +668,12 @@ class Daemon {
         this.adminCommandService?.stop();
         this.deadManSwitchService.stop();
         this.trustScoreService.stop();
+        this.scheduledBackupService.stop();
         this.relayService.stop();
         this.publishLogger.stop();
         this.subscriptionManager.stop();
         this.pool.close();
+        await this.localRelay?.stop();
 
         // Close HTTP server
         if (this.httpServer) {
@@ -569,11 +707,13 @@ class Daemon {
         const mem = process.memoryUsage();
         const keyStats = this.keyService.getKeyStats();
         const relayConnected = this.pool.getConnectedCount();
-        const relayTotal = this.pool.getRelays().length;
+        const relayTotal = this.pool.getTrackedRelays().length;
         const logStats = logBuffer.getStats();
+        const backups = this.scheduledBackupService.getStatus();
 
         return {
-            status: relayConnected > 0 ? 'ok' : 'degraded',
+            // A failed snapshot stays degraded until the next one succeeds
+            status: relayConnected > 0 && !backups.lastError ? 'ok' : 'degraded',
             uptime: Math.round(process.uptime()),
             memory: {
                 heapMB: Math.round(mem.heapUsed / 1024 / 1024),
@@ -597,6 +737,7 @@ class Daemon {
                 maxEntries: logStats.maxEntries,
                 estimatedKB: Math.round(logStats.estimatedBytes / 1024),
             },
+            ...(backups.enabled ? { backups } : {}),
         };
     }
 
@@ -682,6 +823,12 @@ class Daemon {
     }
 
     private async startKey(name: string, secret: string): Promise<void> {
+        // Retired keys keep their secret to sign migration events, but stop serving NIP-46
+        if (this.config.allKeys[name]?.retired) {
+            logger.info('Key retired, not serving NIP-46', { key: name, successor: this.config.allKeys[name].retired!.successor });
+            return;
+        }
+
         // Parse secret to bytes
         let secretBytes: Uint8Array;
         if (secret.startsWith('nsec1')) {
@@ -703,11 +850,18 @@ class Daemon {
                 subscriptionManager: this.subscriptionManager,
                 permitCallback: buildAuthorizationCallback(name, this.connectionManager),
                 adminSecret: this.config.admin.secret,
+                relays: this.config.allKeys[name]?.relays,
             });
 
             backend.start();
             this.backends.set(name, backend);
-            logger.info('Key online', { key: name });
+            this.syncKeyRelays();
+            logger.info('Key online', { key: name, relays: backend.getRelays() });
+
+            // Answer requests that were still waiting when the daemon last stopped
+            resumePendingRequests(name, backend).catch((error) => {
+                logger.error('Failed to resume pending requests', { key: name, error: toErrorMessage(error) });
+            });
         } catch (error) {
             logger.error('Failed to start key', { key: name, error: toErrorMessage(error) });
         }
@@ -718,10 +872,38 @@ class Daemon {
         if (backend) {
             backend.stop();
             this.backends.delete(name);
+            this.syncKeyRelays();
             logger.info('Key locked', { key: name });
         }
     }
 
+    /**
+     * Track status for every relay a running key uses beyond nostr.relays
+     */
+    private syncKeyRelays(): void {
+        const relays = new Set<string>();
+        for (const backend of this.backends.values()) {
+            for (const url of backend.getRelays()) {
+                relays.add(url);
+            }
+        }
+        this.pool.setExtraRelays(Array.from(relays));
+    }
+
+    private async startLocalRelay(): Promise<void> {
+        if (!this.localRelay) {
+            return;
+        }
+
+        try {
+            await this.localRelay.start();
+            logger.info('Local relay added to shared relays', { url: this.localRelayUrl });
+        } catch (error) {
+            // Public relays keep working; the pool reports the local one as disconnected
+            logger.error('Failed to start local relay', { error: toErrorMessage(error) });
+        }
+    }
+
     private async startWebAuth(): Promise<void> {
         // Support both new (SIGNET_*) and legacy (AUTH_*) env var names
         const portEnv = process.env.SIGNET_PORT ?? process.env.AUTH_PORT;
@@ -742,7 +924,6 @@ class Daemon {
             allowedOrigins: this.config.allowedOrigins ?? [],
             requireAuth: this.config.requireAuth ?? false,
             connectionManager: this.connectionManager,
-            nostrConfig: this.config.nostr,
             keyService: this.keyService,
             requestService: this.requestService,
             appService: this.appService,
@@ -768,6 +949,7 @@ class Daemon {
     private emitRelayStatus(): void {
         const statuses = this.relayService.getStatus();
         const connected = this.relayService.getConnectedCount();
+        const relayKeys = this.keyService.getRelayKeys();
         this.eventService.emitRelaysUpdated({
             connected,
             total: statuses.length,
@@ -777,6 +959,10 @@ class Daemon {
                 lastConnected: s.lastConnected?.toISOString() ?? null,
                 lastDisconnected: s.lastDisconnected?.toISOString() ?? null,
                 trustScore: this.trustScoreService.getScore(s.url),
+                auth: s.auth,
+                authSigner: s.authSigner,
+                authError: s.authError,
+                keys: relayKeys.get(s.url) ?? [],
             })),
         });
     }
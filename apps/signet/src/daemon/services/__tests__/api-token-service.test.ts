@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiTokenService } from '../api-token-service.js';
+import { hashApiToken } from '../../lib/api-tokens.js';
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    apiToken: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    request: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    keyUser: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+function makeToken(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: 'ci',
+    tokenHash: 'hash',
+    prefix: 'signet_abcdef',
+    scopes: 'read,requests',
+    keyNames: null,
+    createdAt: new Date('2026-01-17T09:00:00Z'),
+    expiresAt: null,
+    lastUsedAt: null,
+    ...overrides,
+  };
+}
+
+describe('ApiTokenService', () => {
+  let service: ApiTokenService;
+  let mockPrisma: any;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    mockPrisma.apiToken.count.mockResolvedValue(0);
+    mockPrisma.apiToken.create.mockImplementation(({ data }: any) => Promise.resolve(makeToken(data)));
+    mockPrisma.apiToken.update.mockResolvedValue(makeToken());
+    service = new ApiTokenService();
+  });
+
+  describe('createToken', () => {
+    it('should return the secret once and store only its hash', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(null);
+
+      const { token, secret } = await service.createToken({ name: ' ci ', scopes: ['requests', 'read'] });
+
+      const data = mockPrisma.apiToken.create.mock.calls[0][0].data;
+      expect(data.name).toBe('ci');
+      expect(data.tokenHash).toBe(hashApiToken(secret));
+      expect(data.scopes).toBe('read,requests');
+      expect(data.keyNames).toBeNull();
+      expect(JSON.stringify(data)).not.toContain(secret);
+      expect(token.scopes).toEqual(['read', 'requests']);
+      expect(token.prefix).toBe(secret.slice(0, token.prefix.length));
+    });
+
+    it('should store key restrictions and expiry', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(null);
+
+      await service.createToken({ name: 'ci', scopes: ['keys'], keyNames: ['main', 'main', 'alt'], expiresInDays: 30 });
+
+      const data = mockPrisma.apiToken.create.mock.calls[0][0].data;
+      expect(data.keyNames).toBe('main,alt');
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject missing or unknown scopes', async () => {
+      await expect(service.createToken({ name: 'ci', scopes: [] })).rejects.toThrow('At least one scope is required');
+      await expect(service.createToken({ name: 'ci', scopes: ['admin' as any] })).rejects.toThrow('Invalid scope: admin');
+    });
+
+    it('should reject bad expiry values', async () => {
+      await expect(service.createToken({ name: 'ci', scopes: ['read'], expiresInDays: 0 })).rejects.toThrow('Invalid expiry');
+      await expect(service.createToken({ name: 'ci', scopes: ['read'], expiresInDays: 1.5 })).rejects.toThrow('Invalid expiry');
+    });
+
+    it('should reject an empty key restriction', async () => {
+      await expect(service.createToken({ name: 'ci', scopes: ['read'], keyNames: [] })).rejects.toThrow('Invalid key restriction');
+    });
+
+    it('should reject duplicate names', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue({ id: 2 });
+      await expect(service.createToken({ name: 'ci', scopes: ['read'] })).rejects.toThrow('API token "ci" already exists');
+    });
+  });
+
+  describe('authorize', () => {
+    const SECRET = 'signet_secret';
+
+    it('should reject unknown tokens', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(null);
+
+      const result = await service.authorize(SECRET, { method: 'GET', routeUrl: '/dashboard' });
+
+      expect(result).toEqual({ ok: false, status: 401, error: 'Invalid or expired API token' });
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+      const result = await service.authorize(SECRET, { method: 'GET', routeUrl: '/dashboard' });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should allow routes covered by the token scopes', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken());
+
+      const result = await service.authorize(SECRET, { method: 'GET', routeUrl: '/dashboard' });
+
+      expect(result).toEqual({ ok: true, identity: { id: 1, name: 'ci', scopes: ['read', 'requests'], keyNames: null } });
+      expect(mockPrisma.apiToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashApiToken(SECRET) } });
+    });
+
+    it('should refuse routes outside the token scopes', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken());
+
+      const result = await service.authorize(SECRET, { method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'main' } });
+
+      expect(result).toEqual({ ok: false, status: 403, error: 'API token is missing the keys scope' });
+    });
+
+    it('should refuse token management even with every scope', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken({ scopes: 'read,requests,apps,keys' }));
+
+      const result = await service.authorize(SECRET, { method: 'POST', routeUrl: '/api-tokens' });
+
+      expect(result).toEqual({ ok: false, status: 403, error: 'API tokens cannot access this endpoint' });
+    });
+
+    it('should limit restricted tokens to their keys', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken({ scopes: 'keys', keyNames: 'main' }));
+
+      const allowed = await service.authorize(SECRET, { method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'main' } });
+      const denied = await service.authorize(SECRET, { method: 'POST', routeUrl: '/keys/:keyName/lock', params: { keyName: 'alt' } });
+      const everyKey = await service.authorize(SECRET, { method: 'POST', routeUrl: '/keys/lock-all' });
+
+      expect(allowed.ok).toBe(true);
+      expect(denied).toEqual({ ok: false, status: 403, error: 'API token is not allowed to use this key' });
+      expect(everyKey.ok).toBe(false);
+    });
+
+    it('should resolve the key behind requests and apps', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(makeToken({ scopes: 'requests,apps', keyNames: 'main' }));
+      mockPrisma.request.findUnique.mockResolvedValue({ keyName: 'alt' });
+      mockPrisma.request.findMany.mockResolvedValue([{ keyName: 'main' }]);
+      mockPrisma.keyUser.findUnique.mockResolvedValue({ keyName: 'main' });
+
+      const deny = await service.authorize(SECRET, { method: 'DELETE', routeUrl: '/requests/:id', params: { id: 'req-1' } });
+      const batch = await service.authorize(SECRET, { method: 'POST', routeUrl: '/requests/batch', body: { ids: ['req-2'] } });
+      const revoke = await service.authorize(SECRET, { method: 'POST', routeUrl: '/apps/:id/revoke', params: { id: '4' } });
+
+      expect(deny.ok).toBe(false);
+      expect(batch.ok).toBe(true);
+      expect(revoke.ok).toBe(true);
+      expect(mockPrisma.keyUser.findUnique).toHaveBeenCalledWith({ where: { id: 4 }, select: { keyName: true } });
+    });
+
+    it('should stop accepting a token once it is deleted', async () => {
+      const token = makeToken({ tokenHash: hashApiToken(SECRET) });
+      mockPrisma.apiToken.findUnique.mockResolvedValue(token);
+      await service.authorize(SECRET, { method: 'GET', routeUrl: '/dashboard' });
+
+      await service.deleteToken(1);
+      mockPrisma.apiToken.findUnique.mockResolvedValue(null);
+
+      const result = await service.authorize(SECRET, { method: 'GET', routeUrl: '/dashboard' });
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('deleteToken', () => {
+    it('should throw for unknown tokens', async () => {
+      mockPrisma.apiToken.findUnique.mockResolvedValue(null);
+      await expect(service.deleteToken(9)).rejects.toThrow('API token not found');
+    });
+  });
+});
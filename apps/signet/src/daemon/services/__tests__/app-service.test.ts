@@ -5,8 +5,16 @@ import { createMockKeyUser } from '../../testing/mocks.js';
 // Mock the acl module to prevent db.ts from loading
 vi.mock('../../lib/acl.js', () => ({
   updateTrustLevel: vi.fn(),
+  updateTrustProfile: vi.fn(),
 }));
 
+vi.mock('../trust-profile-service.js', () => {
+  const requireProfile = vi.fn();
+  return {
+    getTrustProfileService: () => ({ requireProfile }),
+  };
+});
+
 // Mock the repository
 vi.mock('../../repositories/index.js', () => ({
   appRepository: {
@@ -88,6 +96,30 @@ describe('AppService', () => {
 
       expect(result[0].requestCount).toBe(0);
     });
+
+    it('should report policy usage per app for apps sharing a policy', async () => {
+      const policy = {
+        id: 3,
+        name: 'Notes',
+        expiresAt: null,
+        deletedAt: null,
+        rules: [{ id: 31, method: 'sign_event', kind: '1', maxUsageCount: 10, currentUsageCount: 12 }],
+      };
+      const withPolicy = (id: number, usageCount: number) => ({
+        ...createMockKeyUser({ id }),
+        signingConditions: [{ id: id * 10, method: 'sign_event', kind: '1', allowed: true, policyRuleId: 31, usageCount }],
+        Token: [{ policy }],
+      });
+
+      mockAppRepository.findAll.mockResolvedValue([withPolicy(1, 10), withPolicy(2, 2)]);
+      mockAppRepository.getRequestCountsBatch.mockResolvedValue(new Map());
+      mockAppRepository.getMethodBreakdownsBatch.mockResolvedValue(new Map());
+
+      const [busy, quiet] = await service.listApps();
+
+      expect(busy.policy?.rules[0]).toMatchObject({ usageCount: 10, remainingUsage: 0 });
+      expect(quiet.policy?.rules[0]).toMatchObject({ usageCount: 2, remainingUsage: 8 });
+    });
   });
 
   describe('revokeApp', () => {
@@ -128,6 +160,41 @@ describe('AppService', () => {
     });
   });
 
+  describe('updateTrustProfile', () => {
+    it('should move the app onto an existing profile', async () => {
+      const { updateTrustProfile } = await import('../../lib/acl.js');
+      const { getTrustProfileService } = await import('../trust-profile-service.js');
+      vi.mocked(getTrustProfileService().requireProfile).mockResolvedValue({ id: 3, name: 'Blogging client' });
+      mockAppRepository.findById.mockResolvedValue(createMockKeyUser({ id: 1 }));
+      mockAppRepository.findByIdWithConditions.mockResolvedValue(null);
+
+      await service.updateTrustProfile(1, 3);
+
+      expect(getTrustProfileService().requireProfile).toHaveBeenCalledWith(3);
+      expect(updateTrustProfile).toHaveBeenCalledWith(1, 3);
+    });
+
+    it('should not assign a missing profile', async () => {
+      const { updateTrustProfile } = await import('../../lib/acl.js');
+      const { getTrustProfileService } = await import('../trust-profile-service.js');
+      vi.mocked(getTrustProfileService().requireProfile).mockRejectedValue(new Error('Trust profile not found'));
+      mockAppRepository.findById.mockResolvedValue(createMockKeyUser({ id: 1 }));
+
+      await expect(service.updateTrustProfile(1, 99)).rejects.toThrow('Trust profile not found');
+      expect(updateTrustProfile).not.toHaveBeenCalled();
+    });
+
+    it('should go back to the stored trust level when cleared', async () => {
+      const { updateTrustLevel } = await import('../../lib/acl.js');
+      mockAppRepository.findById.mockResolvedValue({ ...createMockKeyUser({ id: 1 }), trustLevel: 'paranoid' });
+      mockAppRepository.findByIdWithConditions.mockResolvedValue(null);
+
+      await service.updateTrustProfile(1, null);
+
+      expect(updateTrustLevel).toHaveBeenCalledWith(1, 'paranoid');
+    });
+  });
+
   describe('countActive', () => {
     it('should return active app count', async () => {
       mockAppRepository.countActive.mockResolvedValue(5);
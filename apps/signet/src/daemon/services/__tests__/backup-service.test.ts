@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateSecretKey } from 'nostr-tools/pure';
+import { nsecEncode } from 'nostr-tools/nip19';
+import { BackupService } from '../backup-service.js';
+import { encryptNip49 } from '../../lib/nip49.js';
+import { bytesToHex } from '../../lib/hex.js';
+import type { ConfigFile } from '../../../config/types.js';
+
+const state = vi.hoisted(() => ({ config: {} as ConfigFile }));
+
+vi.mock('../../../config/config.js', () => ({
+  loadConfig: vi.fn(async () => structuredClone(state.config)),
+  saveConfig: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../lib/acl.js', () => ({
+  clearAclCache: vi.fn(),
+}));
+
+// Real backups use many more PBKDF2 rounds; keep the tests fast
+vi.mock('../../constants.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../constants.js')>()),
+  BACKUP_PBKDF2_ITERATIONS: 1000,
+}));
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    keyUser: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn(), count: vi.fn() },
+    setting: { findMany: vi.fn(), findUnique: vi.fn(), upsert: vi.fn() },
+    trustProfile: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn() },
+    policy: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+    policyRule: { create: vi.fn() },
+    request: { findMany: vi.fn(), createMany: vi.fn() },
+    log: { findMany: vi.fn(), createMany: vi.fn() },
+    adminLog: { findMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+const PASSPHRASE = 'backup passphrase';
+const APP_PUBKEY = 'a'.repeat(64);
+const OTHER_APP_PUBKEY = 'b'.repeat(64);
+const created = new Date('2026-01-10T08:00:00Z');
+
+const plainSecret = generateSecretKey();
+const plainNsec = nsecEncode(plainSecret);
+const lockedNcryptsec = encryptNip49(bytesToHex(generateSecretKey()), 'key passphrase');
+
+function sourceConfig(): ConfigFile {
+  return {
+    nostr: { relays: ['wss://relay.example'] },
+    admin: { key: 'admin-key', secret: 'admin-secret' },
+    database: 'sqlite:///old/machine/signet.db',
+    keys: {
+      hot: { key: plainNsec },
+      cold: { ncryptsec: lockedNcryptsec, relays: ['wss://cold.example'] },
+    },
+    verbose: false,
+    jwtSecret: 'source-jwt',
+  };
+}
+
+function sourceApp(userPubkey: string, conditions: Array<{ policyRuleId: number | null; usageCount?: number }>) {
+  return {
+    id: userPubkey === APP_PUBKEY ? 1 : 2,
+    keyName: 'hot',
+    userPubkey,
+    description: 'Client',
+    trustLevel: 'reasonable',
+    trustProfileId: 7,
+    trustProfile: { name: 'Blogging' },
+    nostrconnectRelays: null,
+    quotas: null,
+    schedule: null,
+    createdAt: created,
+    updatedAt: created,
+    lastUsedAt: null,
+    revokedAt: null,
+    suspendedAt: null,
+    suspendUntil: null,
+    signingConditions: conditions.map((condition, index) => ({
+      id: index + 1,
+      method: 'sign_event',
+      kind: '1',
+      content: null,
+      allowed: true,
+      keyUserKeyName: 'hot',
+      keyUserId: 1,
+      usageCount: 0,
+      ...condition,
+    })),
+  };
+}
+
+describe('BackupService', () => {
+  let mockPrisma: any;
+  let saveConfig: any;
+
+  async function createArchive(includeHistory = false) {
+    state.config = sourceConfig();
+    mockPrisma.keyUser.findMany.mockResolvedValue([
+      sourceApp(APP_PUBKEY, [{ policyRuleId: null }, { policyRuleId: 31, usageCount: 3 }]),
+      sourceApp(OTHER_APP_PUBKEY, []),
+    ]);
+    mockPrisma.setting.findMany.mockResolvedValue([{ key: 'deadManSwitch.enabled', value: 'false' }]);
+    mockPrisma.trustProfile.findMany.mockResolvedValue([
+      { id: 7, name: 'Blogging', description: null, kinds: '[1]', methods: '[]' },
+    ]);
+    mockPrisma.policy.findMany.mockResolvedValue([{
+      id: 3,
+      name: 'Limited',
+      description: null,
+      createdAt: created,
+      expiresAt: null,
+      rules: [{ id: 31, method: 'sign_event', kind: '1', maxUsageCount: 10, currentUsageCount: 4 }],
+    }]);
+    mockPrisma.request.findMany.mockResolvedValue([]);
+    mockPrisma.log.findMany.mockResolvedValue([{
+      id: 1, timestamp: created, type: 'approval', method: 'sign_event', params: null, keyUserId: 1,
+      autoApproved: true, approvalType: 'auto_trust', keyName: null, remotePubkey: null, requestId: null, deliveryStatus: null,
+    }]);
+    mockPrisma.adminLog.findMany.mockResolvedValue([]);
+
+    return new BackupService({ configFile: '/old/signet.json', signetVersion: '0.0.3' })
+      .createBackup({ passphrase: PASSPHRASE, includeHistory });
+  }
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    saveConfig = (await import('../../../config/config.js')).saveConfig;
+    vi.clearAllMocks();
+
+    mockPrisma.$transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => fn(mockPrisma));
+    mockPrisma.keyUser.count.mockResolvedValue(0);
+    mockPrisma.keyUser.findUnique.mockResolvedValue(null);
+    mockPrisma.keyUser.create.mockImplementation(async ({ data }: any) => ({ id: 100, ...data }));
+    mockPrisma.setting.findUnique.mockResolvedValue(null);
+    mockPrisma.trustProfile.findUnique.mockResolvedValue(null);
+    mockPrisma.trustProfile.create.mockResolvedValue({ id: 70 });
+    mockPrisma.policy.findFirst.mockResolvedValue(null);
+    mockPrisma.policy.create.mockResolvedValue({ id: 30 });
+    mockPrisma.policyRule.create.mockResolvedValue({ id: 310 });
+  });
+
+  describe('createBackup', () => {
+    it('should back up every key as ncryptsec and describe the contents', async () => {
+      const { archive, manifest } = await createArchive();
+
+      expect(archive).not.toContain(plainNsec);
+      expect(manifest).toMatchObject({
+        signetVersion: '0.0.3',
+        includesHistory: false,
+        counts: { keys: 2, apps: 2, signingConditions: 2, trustProfiles: 1, policies: 1, settings: 1, logs: 0 },
+      });
+      expect(mockPrisma.log.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should include history when asked', async () => {
+      const { manifest } = await createArchive(true);
+
+      expect(manifest.includesHistory).toBe(true);
+      expect(manifest.counts.logs).toBe(1);
+    });
+  });
+
+  describe('restoreBackup', () => {
+    const target = (): ConfigFile => ({
+      nostr: { relays: ['wss://relay.example'] },
+      admin: { key: 'new-admin-key', secret: 'new-admin-secret' },
+      database: 'sqlite://signet.db',
+      keys: {},
+      verbose: false,
+      jwtSecret: 'target-jwt',
+    });
+
+    it('should restore everything into an empty install in full mode', async () => {
+      const { archive } = await createArchive(true);
+      state.config = target();
+
+      const report = await new BackupService({ configFile: '/new/signet.json' })
+        .restoreBackup(archive, PASSPHRASE, { mode: 'full' });
+
+      expect(report.restored).toMatchObject({ keys: 2, apps: 2, signingConditions: 2, trustProfiles: 1, policies: 1, settings: 1, logs: 1 });
+      expect(report.conflicts).toEqual([]);
+      expect(report.restartRequired).toBe(true);
+
+      const saved = saveConfig.mock.calls[0][1] as ConfigFile;
+      expect(saved.keys.hot).toEqual({ key: plainNsec });
+      expect(saved.keys.cold).toEqual({ ncryptsec: lockedNcryptsec, relays: ['wss://cold.example'] });
+      expect(saved.admin.key).toBe('admin-key');
+      expect(saved.jwtSecret).toBe('source-jwt');
+      // Paths belong to the machine, not the backup
+      expect(saved.database).toBe('sqlite://signet.db');
+
+      // Profile and policy rule ids are remapped to the new install's
+      expect(mockPrisma.keyUser.create.mock.calls[0][0].data).toMatchObject({
+        trustProfileId: 70,
+        signingConditions: { create: [{ policyRuleId: null, usageCount: 0 }, { policyRuleId: 310, usageCount: 3 }] },
+      });
+      expect(mockPrisma.log.createMany.mock.calls[0][0].data[0]).toMatchObject({ keyUserId: 100, type: 'approval' });
+    });
+
+    it('should keep rotated keys retired', async () => {
+      state.config = sourceConfig();
+      const retired = { at: '2026-01-12T09:00:00.000Z', successor: 'hot-2', successorPubkey: 'c'.repeat(64) };
+      state.config.keys.hot.retired = retired;
+      mockPrisma.keyUser.findMany.mockResolvedValue([]);
+      mockPrisma.setting.findMany.mockResolvedValue([]);
+      mockPrisma.trustProfile.findMany.mockResolvedValue([]);
+      mockPrisma.policy.findMany.mockResolvedValue([]);
+      const { archive } = await new BackupService({ configFile: '/old/signet.json' }).createBackup({ passphrase: PASSPHRASE });
+      state.config = target();
+
+      await new BackupService({ configFile: '/new/signet.json' }).restoreBackup(archive, PASSPHRASE, { mode: 'full' });
+
+      const saved = saveConfig.mock.calls[0][1] as ConfigFile;
+      expect(saved.keys.hot).toEqual({ key: plainNsec, retired });
+      expect(saved.keys.cold.retired).toBeUndefined();
+    });
+
+    it('should refuse a full restore into an install that has data', async () => {
+      const { archive } = await createArchive();
+      state.config = { ...target(), keys: { existing: { key: plainNsec } } };
+
+      await expect(new BackupService({ configFile: '/new/signet.json' }).restoreBackup(archive, PASSPHRASE, { mode: 'full' }))
+        .rejects.toThrow('Signet data already exists');
+    });
+
+    it('should keep local data and report conflicts when merging', async () => {
+      const { archive } = await createArchive(true);
+      state.config = { ...target(), keys: { cold: { ncryptsec: encryptNip49(bytesToHex(generateSecretKey()), 'other') } } };
+      mockPrisma.keyUser.findUnique.mockImplementation(async ({ where }: any) =>
+        where.unique_key_user.userPubkey === APP_PUBKEY
+          ? { id: 5, trustLevel: 'full', description: 'Client', revokedAt: null, trustProfile: null }
+          : null);
+      mockPrisma.policy.findFirst.mockResolvedValue({
+        id: 9, name: 'Limited', rules: [{ id: 91, method: 'sign_event', kind: '1', maxUsageCount: 50 }],
+      });
+
+      const report = await new BackupService({ configFile: '/new/signet.json' }).restoreBackup(archive, PASSPHRASE);
+
+      expect(report.mode).toBe('merge');
+      expect(report.restored).toMatchObject({ keys: 1, apps: 1, policies: 0, logs: 0 });
+      expect(report.conflicts.map((conflict) => `${conflict.section}:${conflict.name}`)).toEqual([
+        'keys:cold',
+        'config:admin',
+        'config:jwtSecret',
+        'policies:Limited',
+        `apps:hot:${APP_PUBKEY}`,
+      ]);
+      expect(report.notes).toContain('History is only restored in full mode, so it was skipped');
+      expect(mockPrisma.log.createMany).not.toHaveBeenCalled();
+
+      const saved = saveConfig.mock.calls[0][1] as ConfigFile;
+      expect(Object.keys(saved.keys).sort()).toEqual(['cold', 'hot']);
+      expect(saved.jwtSecret).toBe('target-jwt');
+    });
+
+    it('should merge seeds by name and note derived keys without their seed', async () => {
+      state.config = sourceConfig();
+      state.config.seeds = {
+        main: { mnemonic: 'main seed words', nextIndex: 1, createdAt: '2026-01-02T00:00:00.000Z' },
+        spare: { mnemonic: 'spare seed words', nextIndex: 0, createdAt: '2026-01-03T00:00:00.000Z' },
+      };
+      state.config.keys.hot.derivation = { seed: 'main', index: 0 };
+      state.config.keys.cold.derivation = { seed: 'deleted', index: 3 };
+      mockPrisma.keyUser.findMany.mockResolvedValue([]);
+      mockPrisma.setting.findMany.mockResolvedValue([]);
+      mockPrisma.trustProfile.findMany.mockResolvedValue([]);
+      mockPrisma.policy.findMany.mockResolvedValue([]);
+      const { archive, manifest } = await new BackupService({ configFile: '/old/signet.json' }).createBackup({ passphrase: PASSPHRASE });
+      const localSpare = { mnemonic: 'other spare words', nextIndex: 4, createdAt: '2026-01-04T00:00:00.000Z' };
+      state.config = { ...target(), seeds: { spare: localSpare } };
+
+      const report = await new BackupService({ configFile: '/new/signet.json' }).restoreBackup(archive, PASSPHRASE);
+
+      expect(manifest.counts.seeds).toBe(2);
+      expect(report.restored).toMatchObject({ keys: 2, seeds: 1 });
+      expect(report.conflicts.map((conflict) => `${conflict.section}:${conflict.name}`)).toContain('seeds:spare');
+      expect(report.conflicts.map((conflict) => conflict.name)).not.toContain('seeds');
+      expect(report.notes).toContain('Key "cold" was derived from seed "deleted", which isn\'t in the backup or on this install');
+
+      const saved = saveConfig.mock.calls[0][1] as ConfigFile;
+      expect(saved.seeds).toEqual({ main: expect.objectContaining({ mnemonic: 'main seed words' }), spare: localSpare });
+      expect(saved.keys.hot.derivation).toEqual({ seed: 'main', index: 0 });
+    });
+
+    it('should drop policy grants whose policy was not restored', async () => {
+      const { archive } = await createArchive();
+      state.config = target();
+      mockPrisma.keyUser.findUnique.mockResolvedValue(null);
+      mockPrisma.policy.findFirst.mockResolvedValue({
+        id: 9, name: 'Limited', rules: [{ id: 91, method: 'sign_event', kind: '1', maxUsageCount: 50 }],
+      });
+
+      await new BackupService({ configFile: '/new/signet.json' }).restoreBackup(archive, PASSPHRASE);
+
+      expect(mockPrisma.keyUser.create.mock.calls[0][0].data.signingConditions.create).toEqual([
+        expect.objectContaining({ policyRuleId: null }),
+      ]);
+    });
+
+    it('should change nothing on a dry run', async () => {
+      const { archive } = await createArchive();
+      state.config = target();
+
+      const report = await new BackupService({ configFile: '/new/signet.json' })
+        .restoreBackup(archive, PASSPHRASE, { mode: 'full', dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.restored.keys).toBe(2);
+      expect(saveConfig).not.toHaveBeenCalled();
+    });
+  });
+});
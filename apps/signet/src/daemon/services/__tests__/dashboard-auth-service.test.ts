@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { npubEncode } from 'nostr-tools/nip19';
+import { DashboardAuthService, HTTP_AUTH_KIND } from '../dashboard-auth-service.js';
+import type { KeyService } from '../key-service.js';
+import type { OperatorService } from '../operator-service.js';
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    dashboardSession: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    request: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+const ADMIN_SECRET = generateSecretKey();
+const ADMIN_PUBKEY = getPublicKey(ADMIN_SECRET);
+const LOGIN_URL = 'https://signet.example.com/api/auth/login';
+const ORIGINS = ['https://signet.example.com'];
+
+function signLogin(challenge: string, overrides: { kind?: number; createdAt?: number; url?: string; method?: string } = {}, secret = ADMIN_SECRET) {
+  return finalizeEvent({
+    kind: overrides.kind ?? HTTP_AUTH_KIND,
+    created_at: overrides.createdAt ?? Math.floor(Date.now() / 1000),
+    content: '',
+    tags: [
+      ['u', overrides.url ?? LOGIN_URL],
+      ['method', overrides.method ?? 'POST'],
+      ['challenge', challenge],
+    ],
+  }, secret);
+}
+
+function makeSession(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    pubkey: ADMIN_PUBKEY,
+    method: 'nip07',
+    userAgent: null,
+    createdAt: new Date('2026-01-16T09:00:00Z'),
+    expiresAt: new Date(Date.now() + 60_000),
+    lastSeenAt: new Date('2026-01-16T09:00:00Z'),
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe('DashboardAuthService', () => {
+  let service: DashboardAuthService;
+  let mockPrisma: any;
+  let keyService: { signWithPassphrase: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    mockPrisma.dashboardSession.create.mockImplementation(({ data }: any) => Promise.resolve(makeSession({ ...data })));
+    mockPrisma.dashboardSession.update.mockResolvedValue(makeSession());
+
+    keyService = { signWithPassphrase: vi.fn() };
+    service = new DashboardAuthService({
+      adminNpubs: [npubEncode(ADMIN_PUBKEY), 'not-an-npub'],
+      keyService: keyService as unknown as KeyService,
+    });
+  });
+
+  describe('verifyLoginEvent', () => {
+    it('should accept a signed challenge from an admin', () => {
+      const { challenge } = service.createChallenge();
+
+      expect(service.verifyLoginEvent(signLogin(challenge), ORIGINS)).toBe(ADMIN_PUBKEY);
+    });
+
+    it('should only accept a challenge once', () => {
+      const { challenge } = service.createChallenge();
+      service.verifyLoginEvent(signLogin(challenge), ORIGINS);
+
+      expect(() => service.verifyLoginEvent(signLogin(challenge), ORIGINS)).toThrow('unknown or expired challenge');
+    });
+
+    it('should reject a challenge it did not issue', () => {
+      expect(() => service.verifyLoginEvent(signLogin('made-up'), ORIGINS)).toThrow('unknown or expired challenge');
+    });
+
+    it('should reject pubkeys that are not on the allow-list', () => {
+      const { challenge } = service.createChallenge();
+
+      expect(() => service.verifyLoginEvent(signLogin(challenge, {}, generateSecretKey()), ORIGINS))
+        .toThrow('pubkey is not an admin');
+    });
+
+    it('should reject the wrong kind, method or url', () => {
+      const cases = [
+        [{ kind: 1 }, 'expected a kind 27235 event'],
+        [{ method: 'GET' }, 'method tag must be POST'],
+        [{ url: 'https://signet.example.com/api/keys' }, 'u tag must point at /auth/login'],
+      ] as const;
+
+      for (const [overrides, message] of cases) {
+        const { challenge } = service.createChallenge();
+        expect(() => service.verifyLoginEvent(signLogin(challenge, overrides), ORIGINS)).toThrow(message);
+      }
+    });
+
+    it('should reject events signed for another host', () => {
+      const { challenge } = service.createChallenge();
+      const event = signLogin(challenge, { url: 'https://evil.example.com/auth/login' });
+
+      expect(() => service.verifyLoginEvent(event, ORIGINS)).toThrow('u tag points at another host');
+    });
+
+    it('should reject stale events', () => {
+      const { challenge } = service.createChallenge();
+      const createdAt = Math.floor(Date.now() / 1000) - 600;
+
+      expect(() => service.verifyLoginEvent(signLogin(challenge, { createdAt }), ORIGINS)).toThrow('timestamp is out of range');
+    });
+
+    it('should reject tampered events', () => {
+      const { challenge } = service.createChallenge();
+      // Round-trip through JSON like a request body (drops nostr-tools' verified marker)
+      const event = { ...JSON.parse(JSON.stringify(signLogin(challenge))), content: 'tampered' };
+
+      expect(() => service.verifyLoginEvent(event, ORIGINS)).toThrow('bad signature');
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => service.verifyLoginEvent({ kind: HTTP_AUTH_KIND }, ORIGINS)).toThrow('login event is required');
+    });
+  });
+
+  describe('loginWithEvent', () => {
+    it('should create a session for the admin', async () => {
+      const { challenge } = service.createChallenge();
+
+      const result = await service.loginWithEvent(signLogin(challenge), ORIGINS, 'nip46', 'Firefox');
+
+      expect(result).toEqual({ pubkey: ADMIN_PUBKEY, sessionId: 'session-1' });
+      expect(mockPrisma.dashboardSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ pubkey: ADMIN_PUBKEY, method: 'nip46', userAgent: 'Firefox' }),
+      });
+    });
+  });
+
+  describe('loginWithKey', () => {
+    it('should sign the challenge with the unlocked key', async () => {
+      keyService.signWithPassphrase.mockImplementation((_name: string, _passphrase: string, template: any) =>
+        finalizeEvent(template, ADMIN_SECRET));
+      const { challenge } = service.createChallenge();
+
+      const result = await service.loginWithKey(challenge, 'main', 'hunter2', LOGIN_URL);
+
+      expect(result.pubkey).toBe(ADMIN_PUBKEY);
+      expect(keyService.signWithPassphrase).toHaveBeenCalledWith('main', 'hunter2', expect.objectContaining({
+        kind: HTTP_AUTH_KIND,
+        tags: expect.arrayContaining([['challenge', challenge]]),
+      }));
+      expect(mockPrisma.dashboardSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ method: 'key' }),
+      });
+    });
+
+    it('should burn the challenge on a wrong passphrase', async () => {
+      keyService.signWithPassphrase.mockImplementation(() => {
+        throw new Error('Decryption failed');
+      });
+      const { challenge } = service.createChallenge();
+
+      await expect(service.loginWithKey(challenge, 'main', 'wrong', LOGIN_URL))
+        .rejects.toThrow('wrong key name or passphrase');
+      expect(() => service.verifyLoginEvent(signLogin(challenge), ORIGINS)).toThrow('unknown or expired challenge');
+    });
+
+    it('should not decrypt the key for a made-up challenge', async () => {
+      keyService.signWithPassphrase.mockImplementation((_name: string, _passphrase: string, template: any) =>
+        finalizeEvent(template, ADMIN_SECRET));
+
+      await expect(service.loginWithKey('made-up', 'main', 'hunter2', LOGIN_URL))
+        .rejects.toThrow('Login failed: wrong key name or passphrase');
+      expect(keyService.signWithPassphrase).not.toHaveBeenCalled();
+    });
+
+    it('should give the same error when the key may not log in', async () => {
+      keyService.signWithPassphrase.mockImplementation((_name: string, _passphrase: string, template: any) =>
+        finalizeEvent(template, generateSecretKey()));
+      const { challenge } = service.createChallenge();
+
+      await expect(service.loginWithKey(challenge, 'other', 'hunter2', LOGIN_URL))
+        .rejects.toThrow('Login failed: wrong key name or passphrase');
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should accept an active session for the token pubkey', async () => {
+      mockPrisma.dashboardSession.findUnique.mockResolvedValue(makeSession());
+
+      expect(await service.isSessionActive('session-1', ADMIN_PUBKEY)).toBe(true);
+      expect(await service.isSessionActive('session-1', 'someone-else')).toBe(false);
+    });
+
+    it('should reject revoked and expired sessions', async () => {
+      mockPrisma.dashboardSession.findUnique.mockResolvedValueOnce(makeSession({ revokedAt: new Date() }));
+      expect(await service.isSessionActive('session-1', ADMIN_PUBKEY)).toBe(false);
+
+      mockPrisma.dashboardSession.findUnique.mockResolvedValueOnce(makeSession({ expiresAt: new Date(Date.now() - 1) }));
+      expect(await service.isSessionActive('session-1', ADMIN_PUBKEY)).toBe(false);
+    });
+
+    it('should stop accepting a session once it is revoked', async () => {
+      mockPrisma.dashboardSession.findUnique.mockResolvedValue(makeSession());
+      expect(await service.isSessionActive('session-1', ADMIN_PUBKEY)).toBe(true);
+
+      await service.revokeSession('session-1');
+      mockPrisma.dashboardSession.findUnique.mockResolvedValue(makeSession({ revokedAt: new Date() }));
+
+      expect(await service.isSessionActive('session-1', ADMIN_PUBKEY)).toBe(false);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should flag the current session', async () => {
+      mockPrisma.dashboardSession.findMany.mockResolvedValue([
+        makeSession({ id: 'a' }),
+        makeSession({ id: 'b', method: 'key' }),
+      ]);
+
+      const sessions = await service.listSessions('b');
+
+      expect(sessions.map((session) => [session.id, session.current])).toEqual([['a', false], ['b', true]]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should throw for unknown sessions', async () => {
+      mockPrisma.dashboardSession.findUnique.mockResolvedValue(null);
+
+      await expect(service.revokeSession('missing')).rejects.toThrow('Session not found');
+    });
+  });
+
+  describe('operators', () => {
+    const OPERATOR_SECRET = generateSecretKey();
+    const OPERATOR_PUBKEY = getPublicKey(OPERATOR_SECRET);
+    let operatorService: { getAccess: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      operatorService = {
+        getAccess: vi.fn((pubkey: string) => pubkey === OPERATOR_PUBKEY
+          ? { role: 'approver', scopes: ['read', 'requests'], keyNames: ['main'] }
+          : null),
+      };
+      service = new DashboardAuthService({
+        adminNpubs: [npubEncode(ADMIN_PUBKEY)],
+        keyService: keyService as unknown as KeyService,
+        operatorService: operatorService as unknown as OperatorService,
+      });
+    });
+
+    it('should let operators log in', () => {
+      const { challenge } = service.createChallenge();
+
+      expect(service.verifyLoginEvent(signLogin(challenge, {}, OPERATOR_SECRET), ORIGINS)).toBe(OPERATOR_PUBKEY);
+    });
+
+    it('should give owners full access', async () => {
+      expect(service.getAccess(ADMIN_PUBKEY)?.role).toBe('owner');
+      expect(await service.authorize(ADMIN_PUBKEY, { method: 'POST', routeUrl: '/operators' })).toEqual({ ok: true, keyNames: null });
+    });
+
+    it('should hold operators to their role', async () => {
+      expect(await service.authorize(OPERATOR_PUBKEY, { method: 'GET', routeUrl: '/keys' })).toEqual({ ok: true, keyNames: ['main'] });
+      expect(await service.authorize(OPERATOR_PUBKEY, { method: 'DELETE', routeUrl: '/keys/:keyName', params: { keyName: 'main' } }))
+        .toEqual({ ok: false, status: 403, error: 'The approver role cannot do this' });
+      expect(await service.authorize(OPERATOR_PUBKEY, { method: 'POST', routeUrl: '/policies' }))
+        .toEqual({ ok: false, status: 403, error: 'Only owners can do this' });
+    });
+
+    it('should only let operators approve requests for their keys', async () => {
+      mockPrisma.request.findUnique.mockResolvedValueOnce({ keyName: 'main' }).mockResolvedValueOnce({ keyName: 'alt' });
+
+      const own = await service.authorize(OPERATOR_PUBKEY, { method: 'POST', routeUrl: '/requests/:id', params: { id: 'a' } });
+      const other = await service.authorize(OPERATOR_PUBKEY, { method: 'POST', routeUrl: '/requests/:id', params: { id: 'b' } });
+
+      expect(own).toEqual({ ok: true, keyNames: ['main'] });
+      expect(other).toEqual({ ok: false, status: 403, error: 'You are not allowed to use this key' });
+    });
+
+    it('should let any operator log out', async () => {
+      operatorService.getAccess.mockReturnValue({ role: 'viewer', scopes: ['read'], keyNames: null });
+
+      expect(await service.authorize(OPERATOR_PUBKEY, { method: 'POST', routeUrl: '/auth/logout' })).toEqual({ ok: true, keyNames: null });
+    });
+
+    it('should refuse pubkeys that lost their access', async () => {
+      operatorService.getAccess.mockReturnValue(null);
+
+      const result = await service.authorize(OPERATOR_PUBKEY, { method: 'GET', routeUrl: '/dashboard' });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+});
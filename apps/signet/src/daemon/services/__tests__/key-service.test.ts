@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { nsecEncode } from 'nostr-tools/nip19';
+import { combineKeyShares } from '../../lib/shamir.js';
+import { deriveSeedKey } from '../../lib/seed.js';
+import { KeyService } from '../key-service.js';
+import type { StoredKey, StoredSeed } from '../../../config/types.js';
+
+const savedConfig = vi.hoisted(() => ({ keys: {} as Record<string, StoredKey>, seeds: undefined as Record<string, StoredSeed> | undefined }));
+const emitKeyUpdated = vi.hoisted(() => vi.fn());
+const emitKeyCreated = vi.hoisted(() => vi.fn());
+const emitKeyRenamed = vi.hoisted(() => vi.fn());
+
+vi.mock('../../../config/config.js', () => ({
+  loadConfig: vi.fn(async () => savedConfig),
+  saveConfig: vi.fn(async () => undefined),
+}));
+
+const renameKey = vi.hoisted(() => vi.fn(async () => undefined));
+const moveToKey = vi.hoisted(() => vi.fn(async () => 2));
+const copyProfile = vi.hoisted(() => vi.fn(async () => [0, 3]));
+const publishMigration = vi.hoisted(() => vi.fn(async () => ({ eventIds: ['migration-id'], relays: 3 })));
+
+vi.mock('../../repositories/index.js', () => ({
+  keyRepository: { renameKey },
+  appRepository: { moveToKey },
+}));
+
+vi.mock('../../lib/profile.js', () => ({
+  copyProfile,
+  createSkeletonProfile: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../lib/key-migration.js', () => ({ publishMigration }));
+
+vi.mock('../event-service.js', () => ({
+  getEventService: () => ({ emitKeyUpdated, emitKeyCreated, emitKeyRenamed }),
+}));
+
+const SHARED = ['wss://relay.shared.example'];
+const WORK = ['wss://relay.work.example', 'wss://relay2.work.example'];
+
+describe('KeyService relays', () => {
+  let allKeys: Record<string, StoredKey>;
+  let work: string;
+  let personal: string;
+  let service: KeyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    work = nsecEncode(generateSecretKey());
+    personal = nsecEncode(generateSecretKey());
+    allKeys = {
+      work: { key: work, relays: [...WORK] },
+      personal: { key: personal },
+    };
+    savedConfig.keys = { ...allKeys };
+    service = new KeyService(
+      { configFile: '/tmp/signet.json', allKeys, nostrRelays: SHARED },
+      { work, personal }
+    );
+  });
+
+  describe('getKeyRelays', () => {
+    it('should use the key\'s own relays when it has them', () => {
+      expect(service.getKeyRelays('work')).toEqual(WORK);
+    });
+
+    it('should fall back to the shared relays', () => {
+      expect(service.getKeyRelays('personal')).toEqual(SHARED);
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => service.getKeyRelays('missing')).toThrow('Key not found');
+    });
+  });
+
+  describe('getRelayKeys', () => {
+    it('should list the active keys on each relay', () => {
+      const relayKeys = service.getRelayKeys();
+
+      expect(relayKeys.get(WORK[0])).toEqual(['work']);
+      expect(relayKeys.get(SHARED[0])).toEqual(['personal']);
+    });
+  });
+
+  describe('buildBunkerUriWithToken', () => {
+    it('should advertise only the key\'s relays', () => {
+      const uri = service.buildBunkerUriWithToken('work', 'token')!;
+
+      expect(uri).toContain(`relay=${encodeURIComponent(WORK[0])}`);
+      expect(uri).toContain(`relay=${encodeURIComponent(WORK[1])}`);
+      expect(uri).not.toContain(encodeURIComponent(SHARED[0]));
+    });
+  });
+
+  describe('setKeyRelays', () => {
+    it('should save a trimmed, de-duplicated relay set and restart the key', async () => {
+      const onChanged = vi.fn(async () => undefined);
+      service.setOnKeyRelaysChanged(onChanged);
+
+      const relays = await service.setKeyRelays('personal', [' wss://home.example ', 'wss://home.example']);
+
+      expect(relays).toEqual(['wss://home.example']);
+      expect(savedConfig.keys.personal).toEqual({ key: personal, relays: ['wss://home.example'] });
+      expect(allKeys.personal.relays).toEqual(['wss://home.example']);
+      expect(onChanged).toHaveBeenCalledWith('personal', ['wss://home.example']);
+      expect(emitKeyUpdated).toHaveBeenCalledWith('personal');
+    });
+
+    it('should return the key to the shared relays on an empty list', async () => {
+      const relays = await service.setKeyRelays('work', []);
+
+      expect(relays).toEqual(SHARED);
+      expect(savedConfig.keys.work).toEqual({ key: work });
+    });
+
+    it('should reject relay URLs that are not websockets', async () => {
+      await expect(service.setKeyRelays('work', ['https://relay.example'])).rejects.toThrow('Invalid relay URL');
+      expect(allKeys.work.relays).toEqual(WORK);
+    });
+
+    it('should reject unknown keys', async () => {
+      await expect(service.setKeyRelays('missing', WORK)).rejects.toThrow('Key not found');
+    });
+  });
+
+  it('should keep a key\'s relays when it is encrypted', async () => {
+    await service.encryptKey('work', 'correct horse battery', 'correct horse battery', 'nip49');
+
+    expect(allKeys.work.ncryptsec).toBeDefined();
+    expect(allKeys.work.relays).toEqual(WORK);
+  });
+});
+
+describe('KeyService shares', () => {
+  let secret: Uint8Array;
+  let allKeys: Record<string, StoredKey>;
+  let service: KeyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    secret = generateSecretKey();
+    allKeys = { org: { key: nsecEncode(secret) } };
+    savedConfig.keys = { ...allKeys };
+    service = new KeyService(
+      { configFile: '/tmp/signet.json', allKeys, nostrRelays: SHARED },
+      { org: nsecEncode(secret) }
+    );
+  });
+
+  it('should split a key into shares that recover it', async () => {
+    const { shares, threshold } = await service.exportKeyShares('org', undefined, 2, 3);
+
+    expect(threshold).toBe(2);
+    expect(shares).toHaveLength(3);
+    expect(combineKeyShares([shares[2], shares[0]])).toEqual(secret);
+  });
+
+  it('should reject a threshold above the share count', async () => {
+    await expect(service.exportKeyShares('org', undefined, 4, 3)).rejects.toThrow('Invalid share settings');
+  });
+
+  it('should import a key recovered from shares', async () => {
+    const { shares } = await service.exportKeyShares('org', undefined, 3, 5);
+
+    const key = await service.createKey({ keyName: 'restored', shares: [shares[1], shares[3], shares[4]] });
+
+    expect(savedConfig.keys.restored).toEqual({ key: nsecEncode(secret) });
+    expect(key.pubkey).toBe(getPublicKey(secret));
+    expect(emitKeyCreated).toHaveBeenCalled();
+  });
+
+  it('should not import from too few shares', async () => {
+    const { shares } = await service.exportKeyShares('org', undefined, 3, 5);
+
+    await expect(service.createKey({ keyName: 'restored', shares: shares.slice(0, 2) })).rejects.toThrow('3 different shares are required');
+    expect(savedConfig.keys.restored).toBeUndefined();
+  });
+});
+
+describe('KeyService rotation', () => {
+  let secret: Uint8Array;
+  let allKeys: Record<string, StoredKey>;
+  let service: KeyService;
+  let onKeyLocked: ReturnType<typeof vi.fn<(keyName: string) => void>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    secret = generateSecretKey();
+    allKeys = { main: { key: nsecEncode(secret), relays: [...WORK] } };
+    savedConfig.keys = { ...allKeys };
+    service = new KeyService(
+      { configFile: '/tmp/signet.json', allKeys, nostrRelays: SHARED },
+      { main: nsecEncode(secret) }
+    );
+    onKeyLocked = vi.fn();
+    service.setOnKeyLocked(onKeyLocked);
+  });
+
+  it('should create a successor, announce it from the old key and retire the old key', async () => {
+    const result = await service.rotateKey('main', { successorName: 'main-2', reason: 'lost laptop' });
+
+    const successorPubkey = result.successor.pubkey!;
+    expect(savedConfig.keys['main-2'].relays).toEqual(WORK);
+    expect(copyProfile).toHaveBeenCalledWith(getPublicKey(secret), expect.any(Uint8Array), WORK);
+    expect(publishMigration).toHaveBeenCalledWith(secret, successorPubkey, WORK, expect.objectContaining({ reason: 'lost laptop' }));
+    expect(moveToKey).toHaveBeenCalledWith('main', 'main-2');
+    expect(result).toMatchObject({ copiedKinds: [0, 3], migrationEventIds: ['migration-id'], movedApps: 2 });
+
+    expect(savedConfig.keys.main.retired).toMatchObject({ successor: 'main-2', successorPubkey });
+    expect(service.isKeyRetired('main')).toBe(true);
+    // The backend stops but the secret stays loaded for the migration events
+    expect(onKeyLocked).toHaveBeenCalledWith('main');
+    expect(service.isKeyActive('main')).toBe(true);
+  });
+
+  it('should leave apps in place when asked to', async () => {
+    const result = await service.rotateKey('main', { successorName: 'main-2', moveApps: false });
+
+    expect(moveToKey).not.toHaveBeenCalled();
+    expect(result.movedApps).toBe(0);
+  });
+
+  it('should still retire the key when relays are unreachable', async () => {
+    publishMigration.mockRejectedValueOnce(new Error('no relays'));
+
+    const result = await service.rotateKey('main', { successorName: 'main-2' });
+
+    expect(result.migrationRelays).toBe(0);
+    expect(service.isKeyRetired('main')).toBe(true);
+  });
+
+  it('should refuse to rotate a retired key or reuse a name', async () => {
+    await expect(service.rotateKey('main', { successorName: 'main' })).rejects.toThrow('already exists');
+
+    await service.rotateKey('main', { successorName: 'main-2' });
+
+    await expect(service.rotateKey('main', { successorName: 'main-3' })).rejects.toThrow('already retired');
+  });
+
+  it('should follow the successor when it is renamed', async () => {
+    await service.rotateKey('main', { successorName: 'main-2' });
+
+    await service.renameKey('main-2', 'primary');
+
+    expect(allKeys.main.retired?.successor).toBe('primary');
+    expect(savedConfig.keys.main.retired?.successor).toBe('primary');
+  });
+
+  it('should republish migration events only for retired keys', async () => {
+    await expect(service.republishMigration('main', undefined)).rejects.toThrow('has not been rotated');
+
+    const { successor } = await service.rotateKey('main', { successorName: 'main-2' });
+    publishMigration.mockClear();
+    await service.republishMigration('main', undefined, { announce: false });
+
+    expect(publishMigration).toHaveBeenCalledWith(secret, successor.pubkey, WORK, { announce: false });
+  });
+});
+
+describe('KeyService seeds', () => {
+  const MNEMONIC = 'leader monkey parrot ring guide accident before fence cannon height naive bean';
+  let allKeys: Record<string, StoredKey>;
+  let service: KeyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    allKeys = {};
+    savedConfig.keys = {};
+    savedConfig.seeds = undefined;
+    service = new KeyService({ configFile: '/tmp/signet.json', allKeys, nostrRelays: SHARED });
+  });
+
+  it('should derive keys at successive indexes and list them under their seed', async () => {
+    await service.createSeed({ seedName: 'family', mnemonic: MNEMONIC });
+
+    const first = await service.createKey({ keyName: 'alice', seed: 'family' });
+    const second = await service.createKey({ keyName: 'bob', seed: 'family' });
+
+    expect(first.pubkey).toBe(getPublicKey(deriveSeedKey(MNEMONIC, 0)));
+    expect(second.derivation).toEqual({ seed: 'family', index: 1 });
+    expect(savedConfig.keys.bob.derivation).toEqual({ seed: 'family', index: 1 });
+
+    const [seed] = await service.listSeeds();
+    expect(seed).toMatchObject({ name: 'family', isEncrypted: false, nextIndex: 2 });
+    expect(seed.keys).toEqual([{ name: 'alice', index: 0 }, { name: 'bob', index: 1 }]);
+  });
+
+  it('should not hand out an index twice', async () => {
+    await service.createSeed({ seedName: 'family', mnemonic: MNEMONIC });
+    await service.createKey({ keyName: 'alice', seed: 'family', derivationIndex: 5 });
+
+    await expect(service.createKey({ keyName: 'again', seed: 'family', derivationIndex: 5 })).rejects.toThrow('already exists');
+    const next = await service.createKey({ keyName: 'bob', seed: 'family' });
+    expect(next.derivation?.index).toBe(6);
+  });
+
+  it('should encrypt the mnemonic and need its passphrase to derive', async () => {
+    const { mnemonic } = await service.createSeed({
+      seedName: 'work',
+      passphrase: 'correct horse battery',
+      confirmPassphrase: 'correct horse battery',
+    });
+
+    expect(mnemonic?.split(' ')).toHaveLength(12);
+    expect(JSON.stringify(savedConfig)).not.toContain(mnemonic);
+
+    await expect(service.createKey({ keyName: 'ops', seed: 'work' })).rejects.toThrow('Seed passphrase is required');
+    await expect(service.createKey({ keyName: 'ops', seed: 'work', seedPassphrase: 'wrong' })).rejects.toThrow('Invalid passphrase');
+
+    const key = await service.createKey({ keyName: 'ops', seed: 'work', seedPassphrase: 'correct horse battery' });
+    expect(key.pubkey).toBe(getPublicKey(deriveSeedKey(mnemonic!, 0)));
+    expect(await service.exportSeed('work', 'correct horse battery')).toBe(mnemonic);
+  }, 20_000);
+
+  it('should keep the derivation when the key is encrypted', async () => {
+    await service.createSeed({ seedName: 'family', mnemonic: MNEMONIC });
+    await service.createKey({ keyName: 'alice', seed: 'family' });
+
+    await service.encryptKey('alice', 'correct horse battery', 'correct horse battery', 'nip49');
+
+    expect(allKeys.alice.derivation).toEqual({ seed: 'family', index: 0 });
+  });
+
+  it('should reject unknown seeds, duplicate names and invalid mnemonics', async () => {
+    await expect(service.createKey({ keyName: 'alice', seed: 'missing' })).rejects.toThrow('Seed not found');
+    await expect(service.createSeed({ seedName: 'bad', mnemonic: 'not a real mnemonic' })).rejects.toThrow('Invalid mnemonic');
+
+    await service.createSeed({ seedName: 'family', mnemonic: MNEMONIC });
+    await expect(service.createSeed({ seedName: 'family' })).rejects.toThrow('already exists');
+    expect(savedConfig.keys).toEqual({});
+  });
+});
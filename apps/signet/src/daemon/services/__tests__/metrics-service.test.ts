@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MetricsService } from '../metrics-service.js';
+import { EventService } from '../event-service.js';
+
+vi.mock('../../repositories/index.js', () => ({
+  requestRepository: {
+    countPending: vi.fn(),
+  },
+}));
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+  let eventService: EventService;
+  let subscriptionListener: ((event: any) => void) | null;
+  let mockRequestRepository: any;
+
+  beforeEach(async () => {
+    const repositories = await import('../../repositories/index.js');
+    mockRequestRepository = repositories.requestRepository;
+    vi.clearAllMocks();
+    mockRequestRepository.countPending.mockResolvedValue(2);
+
+    subscriptionListener = null;
+    eventService = new EventService();
+    service = new MetricsService({
+      pool: {
+        getStatus: () => [
+          { url: 'wss://relay.one', connected: true, lastConnected: null, lastDisconnected: null, lastError: null, auth: 'none', authSigner: null, authError: null },
+          { url: 'wss://relay.two', connected: false, lastConnected: null, lastDisconnected: null, lastError: 'timeout', auth: 'none', authSigner: null, authError: null },
+        ],
+      },
+      subscriptionManager: {
+        on: (listener: (event: any) => void) => {
+          subscriptionListener = listener;
+          return () => { subscriptionListener = null; };
+        },
+        getSubscriptionCount: () => 3,
+      },
+      getDeadManStatus: async () => ({
+        enabled: true,
+        timeframeSec: 86400,
+        lastResetAt: 0,
+        remainingSec: 3600,
+        panicTriggeredAt: null,
+      }),
+    });
+    service.start(eventService);
+  });
+
+  it('should count request outcomes with their labels', async () => {
+    eventService.emit({
+      type: 'request:created',
+      request: {
+        id: 'req-1',
+        keyName: 'main',
+        method: 'sign_event',
+        remotePubkey: 'abc',
+        params: null,
+        eventPreview: { kind: 1, content: '', tags: [] },
+        createdAt: new Date(Date.now() - 30_000).toISOString(),
+        expiresAt: new Date().toISOString(),
+        ttlSeconds: 60,
+        requiresPassword: false,
+        autoApproved: false,
+      },
+    });
+    eventService.emit({
+      type: 'request:approved',
+      requestId: 'req-1',
+      activity: { id: 'req-1', timestamp: '', type: 'approval', method: 'sign_event', eventKind: 1, autoApproved: false, approvalType: 'manual' },
+    });
+    eventService.emit({
+      type: 'request:auto_approved',
+      activity: { id: 'req-2', timestamp: '', type: 'approval', method: 'nip44_encrypt', autoApproved: true, approvalType: 'auto_trust' },
+    });
+    eventService.emit({ type: 'request:expired', requestId: 'unknown' });
+
+    const text = await service.render('prometheus');
+
+    expect(text).toContain('signet_requests_total{method="sign_event",kind="1",approval_type="manual",outcome="approved"} 1');
+    expect(text).toContain('signet_requests_total{method="nip44_encrypt",kind="",approval_type="auto_trust",outcome="approved"} 1');
+    expect(text).toContain('signet_requests_total{method="unknown",kind="",approval_type="none",outcome="expired"} 1');
+    // Approved after ~30 seconds
+    expect(text).toContain('signet_approval_latency_seconds_bucket{outcome="approved",le="15"} 0');
+    expect(text).toContain('signet_approval_latency_seconds_bucket{outcome="approved",le="60"} 1');
+    expect(text).toContain('signet_approval_latency_seconds_count{outcome="approved"} 1');
+  });
+
+  it('should report gauges read at scrape time', async () => {
+    const text = await service.render('prometheus');
+
+    expect(text).toContain('signet_requests_pending 2');
+    expect(text).toContain('signet_relay_connected{relay="wss://relay.one"} 1');
+    expect(text).toContain('signet_relay_connected{relay="wss://relay.two"} 0');
+    expect(text).toContain('signet_relays_connected 1');
+    expect(text).toContain('signet_subscriptions 3');
+    expect(text).toContain('signet_deadman_remaining_seconds 3600');
+  });
+
+  it('should count subscription health checks', async () => {
+    subscriptionListener?.({ type: 'health-check-failed', data: { subscriptionId: 'sub' } });
+    subscriptionListener?.({ type: 'health-check-passed', data: { subscriptionId: 'sub' } });
+    subscriptionListener?.({ type: 'health-check-failed', data: { subscriptionId: 'sub' } });
+
+    const text = await service.render('prometheus');
+
+    expect(text).toContain('signet_subscription_health_checks_total{result="failed"} 2');
+    expect(text).toContain('signet_subscription_health_checks_total{result="passed"} 1');
+  });
+
+  it('should keep serving metrics when the database is unavailable', async () => {
+    mockRequestRepository.countPending.mockRejectedValue(new Error('database is locked'));
+
+    const text = await service.render('openmetrics');
+
+    expect(text).not.toContain('signet_requests_pending');
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('should stop listening when stopped', () => {
+    service.stop();
+    expect(subscriptionListener).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { npubEncode } from 'nostr-tools/nip19';
+import { OperatorService } from '../operator-service.js';
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    operator: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    dashboardSession: {
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const PUBKEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+
+function makeOperator(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: 'alice',
+    pubkey: PUBKEY,
+    role: 'approver',
+    keyNames: null,
+    createdAt: new Date('2026-01-18T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('OperatorService', () => {
+  let service: OperatorService;
+  let mockPrisma: any;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    mockPrisma.operator.count.mockResolvedValue(0);
+    mockPrisma.operator.findFirst.mockResolvedValue(null);
+    mockPrisma.operator.create.mockImplementation(({ data }: any) => Promise.resolve(makeOperator(data)));
+    service = new OperatorService();
+  });
+
+  describe('load', () => {
+    it('should map roles to scopes', async () => {
+      mockPrisma.operator.findMany.mockResolvedValue([makeOperator({ role: 'app-manager', keyNames: 'main' })]);
+
+      await service.load();
+
+      expect(service.getAccess(PUBKEY)).toEqual({
+        role: 'app-manager',
+        scopes: ['read', 'requests', 'apps'],
+        keyNames: ['main'],
+      });
+      expect(service.getAccess('f'.repeat(64))).toBeNull();
+    });
+  });
+
+  describe('createOperator', () => {
+    it('should accept an npub and grant access at once', async () => {
+      const operator = await service.createOperator({ name: ' alice ', pubkey: npubEncode(PUBKEY), role: 'viewer' });
+
+      expect(operator.pubkey).toBe(PUBKEY);
+      expect(operator.name).toBe('alice');
+      expect(service.getAccess(PUBKEY)?.scopes).toEqual(['read']);
+    });
+
+    it('should store key limits', async () => {
+      await service.createOperator({ name: 'alice', pubkey: PUBKEY, role: 'approver', keyNames: ['main', 'main'] });
+
+      expect(mockPrisma.operator.create.mock.calls[0][0].data.keyNames).toBe('main');
+    });
+
+    it('should reject unknown roles and bad pubkeys', async () => {
+      await expect(service.createOperator({ name: 'alice', pubkey: PUBKEY, role: 'root' as any }))
+        .rejects.toThrow('Invalid role: root');
+      await expect(service.createOperator({ name: 'alice', pubkey: 'npub1nope', role: 'viewer' }))
+        .rejects.toThrow('Invalid operator pubkey');
+    });
+
+    it('should reject duplicates', async () => {
+      mockPrisma.operator.findFirst.mockResolvedValue({ name: 'bob' });
+
+      await expect(service.createOperator({ name: 'alice', pubkey: PUBKEY, role: 'viewer' }))
+        .rejects.toThrow('An operator with this pubkey already exists');
+    });
+  });
+
+  describe('updateOperator', () => {
+    it('should change the role and clear key limits', async () => {
+      mockPrisma.operator.findUnique.mockResolvedValue(makeOperator({ keyNames: 'main' }));
+      mockPrisma.operator.update.mockImplementation(({ data }: any) => Promise.resolve(makeOperator(data)));
+
+      await service.updateOperator(1, { role: 'key-admin', keyNames: null });
+
+      expect(mockPrisma.operator.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { role: 'key-admin', keyNames: null } });
+      expect(service.getAccess(PUBKEY)).toEqual({
+        role: 'key-admin',
+        scopes: ['read', 'requests', 'apps', 'keys'],
+        keyNames: null,
+      });
+    });
+
+    it('should throw for unknown operators', async () => {
+      mockPrisma.operator.findUnique.mockResolvedValue(null);
+
+      await expect(service.updateOperator(9, { role: 'viewer' })).rejects.toThrow('Operator not found');
+    });
+  });
+
+  describe('deleteOperator', () => {
+    it('should remove access and revoke sessions', async () => {
+      await service.createOperator({ name: 'alice', pubkey: PUBKEY, role: 'viewer' });
+      mockPrisma.operator.findUnique.mockResolvedValue(makeOperator());
+
+      await service.deleteOperator(1);
+
+      expect(service.getAccess(PUBKEY)).toBeNull();
+      expect(mockPrisma.dashboardSession.updateMany).toHaveBeenCalledWith({
+        where: { pubkey: PUBKEY, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PolicyService } from '../policy-service.js';
+
+vi.mock('../../lib/acl.js', () => ({
+  invalidateAclCache: vi.fn(),
+  clearAclCache: vi.fn(),
+}));
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    policy: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    token: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+    keyUser: {
+      upsert: vi.fn(),
+    },
+    signingCondition: {
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+function makeTokenRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 5,
+    keyName: 'main-key',
+    token: 'secret',
+    clientName: 'Bot',
+    deletedAt: null,
+    redeemedAt: null,
+    expiresAt: null,
+    policy: {
+      id: 2,
+      name: 'Bot policy',
+      expiresAt: null,
+      deletedAt: null,
+      rules: [
+        { id: 10, method: 'sign_event', kind: null, maxUsageCount: 100, currentUsageCount: 0 },
+        { id: 11, method: 'nip44_encrypt', kind: null, maxUsageCount: null, currentUsageCount: 0 },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('PolicyService', () => {
+  let service: PolicyService;
+  let mockPrisma: any;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    service = new PolicyService();
+  });
+
+  describe('createPolicy', () => {
+    it('should require a name', async () => {
+      await expect(service.createPolicy({ name: ' ', rules: [{ method: 'ping' }] })).rejects.toThrow('Policy name is required');
+    });
+
+    it('should require at least one rule', async () => {
+      await expect(service.createPolicy({ name: 'Empty', rules: [] })).rejects.toThrow('required');
+    });
+
+    it('should reject unknown methods', async () => {
+      await expect(service.createPolicy({ name: 'Bad', rules: [{ method: 'steal_key' }] })).rejects.toThrow('Invalid method(s): steal_key');
+    });
+
+    it('should reject invalid usage counts', async () => {
+      await expect(service.createPolicy({ name: 'Bad', rules: [{ method: 'sign_event', maxUsageCount: 0 }] })).rejects.toThrow('Invalid max usage count');
+    });
+
+    it('should reject expiry dates in the past', async () => {
+      await expect(service.createPolicy({
+        name: 'Old',
+        expiresAt: '2000-01-01T00:00:00Z',
+        rules: [{ method: 'sign_event' }],
+      })).rejects.toThrow('Invalid expiresAt');
+    });
+  });
+
+  describe('redeemToken', () => {
+    it('should return null for secrets that are not policy tokens', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(null);
+      await expect(service.redeemToken('main-key', 'pubkey', 'nope')).resolves.toBeNull();
+    });
+
+    it('should return null for tokens minted for another key', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord({ keyName: 'other-key' }));
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).resolves.toBeNull();
+    });
+
+    it('should reject redeemed or expired tokens', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord({ redeemedAt: new Date() }));
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).rejects.toThrow('already redeemed');
+
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).rejects.toThrow('Token expired');
+    });
+
+    it('should reject tokens whose policy was deleted', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord({
+        policy: { ...makeTokenRecord().policy, deletedAt: new Date() },
+      }));
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).rejects.toThrow('policy missing');
+    });
+
+    it('should fail if another connect claimed the token first', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord());
+      mockPrisma.token.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).rejects.toThrow('already redeemed');
+    });
+
+    it('should grant one condition per rule linked back to the rule', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord());
+      mockPrisma.token.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.keyUser.upsert.mockResolvedValue({ id: 42 });
+
+      const appId = await service.redeemToken('main-key', 'pubkey', 'secret');
+
+      expect(appId).toBe(42);
+      expect(mockPrisma.keyUser.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ trustLevel: 'paranoid' }),
+      }));
+      expect(mockPrisma.signingCondition.createMany).toHaveBeenCalledWith({
+        data: [
+          { keyUserId: 42, method: 'connect', allowed: true },
+          { keyUserId: 42, method: 'sign_event', allowed: true, kind: 'all', policyRuleId: 10 },
+          { keyUserId: 42, method: 'nip44_encrypt', allowed: true, kind: undefined, policyRuleId: 11 },
+        ],
+      });
+    });
+
+    it('should unclaim the token if granting permissions fails', async () => {
+      mockPrisma.token.findUnique.mockResolvedValue(makeTokenRecord());
+      mockPrisma.token.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.keyUser.upsert.mockRejectedValue(new Error('db down'));
+
+      await expect(service.redeemToken('main-key', 'pubkey', 'secret')).rejects.toThrow('db down');
+      expect(mockPrisma.token.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { redeemedAt: null, keyUserId: null },
+      });
+    });
+  });
+
+  describe('deletePolicy', () => {
+    it('should throw when the policy does not exist', async () => {
+      mockPrisma.policy.findFirst.mockResolvedValue(null);
+      await expect(service.deletePolicy(1)).rejects.toThrow('Policy not found');
+    });
+
+    it('should soft delete and withdraw granted conditions', async () => {
+      mockPrisma.policy.findFirst.mockResolvedValue({ id: 3 });
+
+      await service.deletePolicy(3);
+
+      expect(mockPrisma.policy.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.signingCondition.deleteMany).toHaveBeenCalledWith({
+        where: { policyRule: { policyId: 3 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QuorumService } from '../quorum-service.js';
+import { hashApproverToken } from '../../lib/quorum.js';
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    approver: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    quorumRule: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      aggregate: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+    },
+    requestApproval: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+const PUBKEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+const OWNER_PUBKEY = 'f'.repeat(64);
+
+function makeApproval(approverId: number, name: string) {
+  return { approverId, createdAt: new Date('2026-01-14T09:00:00Z'), Approver: { name } };
+}
+
+describe('QuorumService', () => {
+  let service: QuorumService;
+  let mockPrisma: any;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    service = new QuorumService();
+  });
+
+  describe('createApprover', () => {
+    it('should store the hex pubkey', async () => {
+      mockPrisma.approver.count.mockResolvedValue(0);
+      mockPrisma.approver.findFirst.mockResolvedValue(null);
+      mockPrisma.approver.create.mockImplementation(({ data }: any) => Promise.resolve({
+        id: 1,
+        ...data,
+        sessionTokenHash: null,
+        createdAt: new Date('2026-01-14T09:00:00Z'),
+      }));
+
+      const approver = await service.createApprover({ name: ' Alice ', pubkey: PUBKEY });
+
+      expect(mockPrisma.approver.create).toHaveBeenCalledWith({ data: { name: 'Alice', pubkey: PUBKEY } });
+      expect(approver).toMatchObject({ id: 1, name: 'Alice', pubkey: PUBKEY, hasSession: false });
+    });
+
+    it('should reject invalid pubkeys', async () => {
+      await expect(service.createApprover({ name: 'Alice', pubkey: 'alice' }))
+        .rejects.toThrow('Invalid approver pubkey');
+    });
+
+    it('should reject duplicate names', async () => {
+      mockPrisma.approver.count.mockResolvedValue(1);
+      mockPrisma.approver.findFirst.mockResolvedValue({ name: 'Alice' });
+
+      await expect(service.createApprover({ name: 'Alice' })).rejects.toThrow('already exists');
+    });
+  });
+
+  describe('deleteApprover', () => {
+    it('should refuse when a rule could no longer be met', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.approver.count.mockResolvedValue(2);
+      mockPrisma.quorumRule.aggregate.mockResolvedValue({ _max: { threshold: 2 } });
+
+      await expect(service.deleteApprover(1)).rejects.toThrow('requires 2 approvers');
+      expect(mockPrisma.approver.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the approver does not exist', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValue(null);
+
+      await expect(service.deleteApprover(9)).rejects.toThrow('Approver not found');
+    });
+  });
+
+  describe('claimSession', () => {
+    const named = { id: 2, name: 'Bob', pubkey: null, sessionTokenHash: null };
+
+    it('should bind an approver without a pubkey', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValueOnce(named).mockResolvedValue(null);
+
+      const token = await service.claimSession(2, { pubkey: OWNER_PUBKEY });
+
+      expect(mockPrisma.approver.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { sessionTokenHash: hashApproverToken(token) },
+      });
+    });
+
+    it('should refuse approvers with a pubkey', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValue({ ...named, name: 'Alice', pubkey: PUBKEY });
+
+      await expect(service.claimSession(2, { pubkey: OWNER_PUBKEY }))
+        .rejects.toThrow('Alice approves by logging in with their pubkey');
+      expect(mockPrisma.approver.update).not.toHaveBeenCalled();
+    });
+
+    it('should not re-bind an approver that already has a session', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValue({ ...named, sessionTokenHash: 'hash' });
+
+      await expect(service.claimSession(2, { pubkey: OWNER_PUBKEY })).rejects.toThrow('already exists for Bob');
+      expect(mockPrisma.approver.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a browser that already approves as someone else', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValueOnce(named).mockResolvedValue(null);
+      mockPrisma.approver.findFirst.mockResolvedValue({ id: 3, name: 'Carol' });
+
+      await expect(service.claimSession(2, { pubkey: OWNER_PUBKEY, sessionToken: 'carol-token' }))
+        .rejects.toThrow('this browser already approves as Carol');
+    });
+  });
+
+  describe('createRule', () => {
+    it('should require a key or a kind', async () => {
+      await expect(service.createRule({ threshold: 2 })).rejects.toThrow('A key or an event kind is required');
+    });
+
+    it('should not allow more approvals than approvers', async () => {
+      mockPrisma.approver.count.mockResolvedValue(2);
+
+      await expect(service.createRule({ kind: 0, threshold: 3 })).rejects.toThrow('only 2 approvers configured');
+      expect(mockPrisma.quorumRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a rule for a kind', async () => {
+      mockPrisma.approver.count.mockResolvedValue(3);
+      mockPrisma.quorumRule.create.mockImplementation(({ data }: any) => Promise.resolve({
+        id: 5,
+        ...data,
+        createdAt: new Date('2026-01-14T09:00:00Z'),
+      }));
+
+      const rule = await service.createRule({ kind: 3, threshold: 2 });
+
+      expect(rule).toEqual({ id: 5, keyName: null, kind: 3, threshold: 2, createdAt: '2026-01-14T09:00:00.000Z' });
+    });
+  });
+
+  describe('resolveApprover', () => {
+    it('should prefer the login pubkey', async () => {
+      mockPrisma.approver.findUnique.mockResolvedValueOnce({ id: 1, name: 'Alice' });
+
+      const approver = await service.resolveApprover({ pubkey: PUBKEY, sessionToken: 'token' });
+
+      expect(approver).toEqual({ id: 1, name: 'Alice' });
+      expect(mockPrisma.approver.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the session token of an approver without a pubkey', async () => {
+      mockPrisma.approver.findFirst.mockResolvedValue({ id: 2, name: 'Bob' });
+
+      await service.resolveApprover({ sessionToken: 'token' });
+
+      expect(mockPrisma.approver.findFirst).toHaveBeenCalledWith({
+        where: { sessionTokenHash: hashApproverToken('token'), pubkey: null },
+        select: { id: true, name: true },
+      });
+    });
+  });
+
+  describe('recordApproval', () => {
+    beforeEach(() => {
+      mockPrisma.approver.findUnique.mockResolvedValue({ id: 2, name: 'Bob' });
+      mockPrisma.requestApproval.findUnique.mockResolvedValue(null);
+      mockPrisma.requestApproval.findFirst.mockResolvedValue(null);
+    });
+
+    it('should report progress until the threshold is met', async () => {
+      mockPrisma.requestApproval.findMany.mockResolvedValue([makeApproval(2, 'Bob')]);
+
+      const result = await service.recordApproval('req-1', 2, { pubkey: PUBKEY });
+
+      expect(mockPrisma.requestApproval.create).toHaveBeenCalledWith({
+        data: { requestId: 'req-1', approverId: 2, approvedBy: PUBKEY },
+      });
+      expect(result.met).toBe(false);
+      expect(result.quorum.approvals).toHaveLength(1);
+    });
+
+    it('should report when the threshold is met', async () => {
+      mockPrisma.requestApproval.findMany.mockResolvedValue([makeApproval(1, 'Alice'), makeApproval(2, 'Bob')]);
+
+      const result = await service.recordApproval('req-1', 2, { pubkey: PUBKEY });
+
+      expect(result.met).toBe(true);
+    });
+
+    it('should reject a second approval from the same approver', async () => {
+      mockPrisma.requestApproval.findUnique.mockResolvedValue({ id: 7 });
+
+      await expect(service.recordApproval('req-1', 2, { pubkey: PUBKEY }))
+        .rejects.toThrow('Bob has already approved this request');
+      expect(mockPrisma.requestApproval.create).not.toHaveBeenCalled();
+    });
+
+    it('should require an approver identity', async () => {
+      await expect(service.recordApproval('req-1', 2, {})).rejects.toThrow('Approver identity required');
+    });
+
+    it('should require a dashboard login for approver sessions', async () => {
+      mockPrisma.approver.findFirst.mockResolvedValue({ id: 2, name: 'Bob' });
+
+      await expect(service.recordApproval('req-1', 2, { sessionToken: 'token' })).rejects.toThrow('Approver identity required');
+      expect(mockPrisma.requestApproval.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let one login meet a 2-of-2 quorum by switching approvers', async () => {
+      const approvals: Array<{ approverId: number; approvedBy: string; Approver: { name: string } }> = [];
+      const names: Record<string, { id: number; name: string }> = {
+        [hashApproverToken('alice-token')]: { id: 1, name: 'Alice' },
+        [hashApproverToken('bob-token')]: { id: 2, name: 'Bob' },
+      };
+      mockPrisma.approver.findUnique.mockResolvedValue(null);
+      mockPrisma.approver.findFirst.mockImplementation(({ where }: any) => Promise.resolve(names[where.sessionTokenHash] ?? null));
+      mockPrisma.requestApproval.findFirst.mockImplementation(({ where }: any) => Promise.resolve(
+        approvals.find((approval) => approval.approvedBy === where.approvedBy) ?? null
+      ));
+      mockPrisma.requestApproval.create.mockImplementation(({ data }: any) => {
+        approvals.push({ ...data, Approver: { name: data.approverId === 1 ? 'Alice' : 'Bob' } });
+        return Promise.resolve({ id: approvals.length });
+      });
+      mockPrisma.requestApproval.findMany.mockImplementation(() => Promise.resolve(
+        approvals.map((approval) => makeApproval(approval.approverId, approval.Approver.name))
+      ));
+
+      const first = await service.recordApproval('req-1', 2, { pubkey: OWNER_PUBKEY, sessionToken: 'alice-token' });
+      const second = service.recordApproval('req-1', 2, { pubkey: OWNER_PUBKEY, sessionToken: 'bob-token' });
+
+      expect(first.met).toBe(false);
+      await expect(second).rejects.toThrow('this login has already approved this request as Alice');
+      expect(approvals).toHaveLength(1);
+    });
+  });
+});
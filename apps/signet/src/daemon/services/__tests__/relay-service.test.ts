@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RelayService } from '../relay-service.js';
+import type { RelayPool, RelayPoolEvent } from '../../lib/relay-pool.js';
+import { RELAY_PROBE_INTERVAL_MS } from '../../constants.js';
+
+const PRIMARY = 'wss://primary.example';
+const FLAKY = 'wss://flaky.example';
+const BACKUP = 'wss://backup.example';
+const DEAD_BACKUP = 'wss://dead-backup.example';
+
+/**
+ * Pool stand-in whose probes succeed or fail per relay
+ */
+function createPool(relays: string[], healthy: Set<string>) {
+  const listeners = new Set<(event: RelayPoolEvent) => void>();
+  const emit = (event: RelayPoolEvent) => listeners.forEach((listener) => listener(event));
+  const shared = [...relays];
+
+  const pool = {
+    getRelays: () => [...shared],
+    getTrackedRelays: () => [...shared],
+    on: (listener: (event: RelayPoolEvent) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    probeRelay: vi.fn(async (url: string) => {
+      const ok = healthy.has(url);
+      emit({ type: 'relay-sample', data: { url, type: 'connect', ok, latencyMs: ok ? 50 : undefined } });
+      emit({ type: 'relay-sample', data: { url, type: 'eose', ok, latencyMs: ok ? 100 : undefined } });
+    }),
+    replaceRelay: vi.fn((demoted: string, promoted: string) => {
+      shared[shared.indexOf(demoted)] = promoted;
+    }),
+    setAlternateRelayProvider: vi.fn(),
+  };
+  return pool;
+}
+
+describe('RelayService failover', () => {
+  let healthy: Set<string>;
+  let pool: ReturnType<typeof createPool>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    healthy = new Set([PRIMARY, BACKUP]);
+    pool = createPool([PRIMARY, FLAKY], healthy);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // start() runs the first probe round; each interval runs another
+  async function probeRounds(rounds: number): Promise<void> {
+    await vi.advanceTimersByTimeAsync(0);
+    for (let i = 1; i < rounds; i++) {
+      await vi.advanceTimersByTimeAsync(RELAY_PROBE_INTERVAL_MS);
+    }
+  }
+
+  it('should swap a failing shared relay for a healthy backup', async () => {
+    const service = new RelayService(pool as unknown as RelayPool, { backupRelays: [BACKUP, DEAD_BACKUP] });
+    service.start();
+
+    await probeRounds(2);
+
+    expect(pool.replaceRelay).toHaveBeenCalledWith(FLAKY, BACKUP);
+    const roles = Object.fromEntries(service.getHealthReport().relays.map((r) => [r.url, r.role]));
+    expect(roles).toEqual({
+      [PRIMARY]: 'active',
+      [BACKUP]: 'promoted',
+      [FLAKY]: 'demoted',
+      [DEAD_BACKUP]: 'backup',
+    });
+  });
+
+  it('should probe backups and record history without failover when disabled', async () => {
+    const service = new RelayService(pool as unknown as RelayPool, { backupRelays: [BACKUP], enabled: false });
+    service.start();
+
+    await probeRounds(2);
+
+    expect(pool.probeRelay).toHaveBeenCalledWith(BACKUP);
+    expect(pool.replaceRelay).not.toHaveBeenCalled();
+    const report = service.getHealthReport();
+    expect(report.failover).toEqual({ enabled: false, minScore: 40 });
+    const flaky = report.relays.find((r) => r.url === FLAKY)!;
+    expect(flaky.health.score).toBeLessThan(40);
+    expect(flaky.history).toHaveLength(2);
+  });
+
+  it('should leave relays alone when no backup is healthy', async () => {
+    healthy.delete(BACKUP);
+    const service = new RelayService(pool as unknown as RelayPool, { backupRelays: [BACKUP] });
+    service.start();
+
+    await probeRounds(2);
+
+    expect(pool.replaceRelay).not.toHaveBeenCalled();
+  });
+
+  it('should not demote a promoted relay again within the cooldown', async () => {
+    const service = new RelayService(pool as unknown as RelayPool, { backupRelays: [BACKUP], minScore: 60 });
+    service.start();
+    await probeRounds(2);
+    expect(pool.replaceRelay).toHaveBeenCalledTimes(1);
+
+    // The backup goes down and the demoted relay recovers
+    healthy.delete(BACKUP);
+    healthy.add(FLAKY);
+    await vi.advanceTimersByTimeAsync(RELAY_PROBE_INTERVAL_MS * 3);
+    expect(pool.replaceRelay).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(RELAY_PROBE_INTERVAL_MS * 3);
+    expect(pool.replaceRelay).toHaveBeenLastCalledWith(BACKUP, FLAKY);
+  });
+});
+
+describe('RelayService alternate relays', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rank untried relays healthiest first for response retries', async () => {
+    const pool = createPool([PRIMARY, FLAKY], new Set([PRIMARY, BACKUP]));
+    const service = new RelayService(pool as unknown as RelayPool, { backupRelays: [DEAD_BACKUP, BACKUP], enabled: false });
+    service.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(RELAY_PROBE_INTERVAL_MS);
+
+    expect(service.getAlternateRelays([PRIMARY])).toEqual([BACKUP, FLAKY, DEAD_BACKUP]);
+    expect(pool.setAlternateRelayProvider).toHaveBeenCalledWith(expect.any(Function));
+
+    service.stop();
+    expect(pool.setAlternateRelayProvider).toHaveBeenLastCalledWith(undefined);
+  });
+});
@@ -5,7 +5,9 @@ import { createMockRequest, createMockStoredKeys } from '../../testing/mocks.js'
 // Mock the repository
 vi.mock('../../repositories/index.js', () => ({
   requestRepository: {
+    findById: vi.fn(),
     findPending: vi.fn(),
+    findPendingByIdPrefix: vi.fn(),
     findMany: vi.fn(),
     countPending: vi.fn(),
     approve: vi.fn(),
@@ -13,6 +15,49 @@ vi.mock('../../repositories/index.js', () => ({
   },
 }));
 
+vi.mock('../../../db.js', () => ({
+  default: {
+    keyUser: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    log: {
+      create: vi.fn().mockResolvedValue({ id: 1 }),
+    },
+  },
+}));
+
+vi.mock('../../lib/acl.js', () => ({
+  grantPermissionsByTrustLevel: vi.fn(),
+  permitAllRequests: vi.fn(),
+}));
+
+vi.mock('../app-service.js', () => ({
+  appService: { getAppById: vi.fn() },
+}));
+
+vi.mock('../trust-profile-service.js', () => ({
+  getTrustProfileService: () => ({ requireProfile: vi.fn() }),
+}));
+
+const mockEvents = vi.hoisted(() => ({
+  emitRequestApproved: vi.fn(),
+  emitRequestDenied: vi.fn(),
+  emitRequestQuorum: vi.fn(),
+  emitAppConnected: vi.fn(),
+}));
+
+vi.mock('../event-service.js', () => ({
+  getEventService: () => mockEvents,
+  emitCurrentStats: vi.fn(),
+}));
+
+const mockRecordApproval = vi.hoisted(() => vi.fn());
+
+vi.mock('../quorum-service.js', () => ({
+  getQuorumService: () => ({ recordApproval: mockRecordApproval }),
+}));
+
 describe('RequestService', () => {
   let service: RequestService;
   let mockRequestRepository: any;
@@ -149,4 +194,74 @@ describe('RequestService', () => {
       expect(mockRequestRepository.deny).toHaveBeenCalledWith('test-id');
     });
   });
+
+  describe('findPendingByIdPrefix', () => {
+    it('should return the only match', async () => {
+      const mockRequest = createMockRequest();
+      mockRequestRepository.findPendingByIdPrefix.mockResolvedValue([mockRequest]);
+
+      const result = await service.findPendingByIdPrefix('test-req');
+
+      expect(result).toEqual(mockRequest);
+      expect(mockRequestRepository.findPendingByIdPrefix).toHaveBeenCalledWith('test-req', 2);
+    });
+
+    it('should reject ambiguous prefixes', async () => {
+      mockRequestRepository.findPendingByIdPrefix.mockResolvedValue([
+        createMockRequest({ id: 'abcd-1' }),
+        createMockRequest({ id: 'abcd-2' }),
+      ]);
+
+      await expect(service.findPendingByIdPrefix('abcd')).rejects.toThrow('matches several pending requests');
+    });
+  });
+
+  describe('approvePendingRequest', () => {
+    it('should throw when the request is not pending', async () => {
+      mockRequestRepository.findPending.mockResolvedValue(null);
+
+      await expect(service.approvePendingRequest('test-id')).rejects.toThrow('Request not found or already processed');
+    });
+
+    it('should approve and emit an approval event', async () => {
+      mockRequestRepository.findPending.mockResolvedValue(createMockRequest({ method: 'nip44_encrypt' }));
+
+      const result = await service.approvePendingRequest('test-request-id');
+
+      expect(result).toEqual({ status: 'approved' });
+      expect(mockRequestRepository.approve).toHaveBeenCalledWith('test-request-id');
+      expect(mockEvents.emitRequestApproved).toHaveBeenCalledWith('test-request-id', expect.objectContaining({ type: 'approval' }));
+    });
+
+    it('should keep quorum requests pending until the quorum is met', async () => {
+      const quorum = { threshold: 2, approvals: [] };
+      mockRequestRepository.findPending.mockResolvedValue(createMockRequest({ quorumThreshold: 2 }));
+      mockRecordApproval.mockResolvedValue({ quorum, met: false });
+
+      const result = await service.approvePendingRequest('test-request-id', { approver: { sessionToken: 'token' } });
+
+      expect(result).toEqual({ status: 'pending', quorum });
+      expect(mockRecordApproval).toHaveBeenCalledWith('test-request-id', 2, { sessionToken: 'token' });
+      expect(mockRequestRepository.approve).not.toHaveBeenCalled();
+      expect(mockEvents.emitRequestQuorum).toHaveBeenCalledWith('test-request-id', quorum);
+    });
+  });
+
+  describe('denyPendingRequest', () => {
+    it('should deny and emit a denial event', async () => {
+      mockRequestRepository.findById.mockResolvedValue(createMockRequest());
+
+      await service.denyPendingRequest('test-request-id');
+
+      expect(mockRequestRepository.deny).toHaveBeenCalledWith('test-request-id');
+      expect(mockEvents.emitRequestDenied).toHaveBeenCalledWith('test-request-id', expect.objectContaining({ type: 'denial' }));
+    });
+
+    it('should refuse requests that were already processed', async () => {
+      mockRequestRepository.findById.mockResolvedValue(createMockRequest({ allowed: true }));
+
+      await expect(service.denyPendingRequest('test-request-id')).rejects.toThrow('Request already processed');
+      expect(mockRequestRepository.deny).not.toHaveBeenCalled();
+    });
+  });
 });
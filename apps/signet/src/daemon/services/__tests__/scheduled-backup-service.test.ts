@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScheduledBackupService } from '../scheduled-backup-service.js';
+import { EventService, setEventService, type ServerEvent } from '../event-service.js';
+import { openSnapshot } from '../../lib/backup-archive.js';
+import { SNAPSHOT_RETRY_MS } from '../../constants.js';
+
+// Real snapshots use many more PBKDF2 rounds; keep the tests fast
+vi.mock('../../constants.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../constants.js')>()),
+  BACKUP_PBKDF2_ITERATIONS: 1000,
+}));
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    $executeRaw: vi.fn(),
+  },
+}));
+
+const PASSPHRASE = 'snapshot passphrase';
+const CONFIG = '{"nostr":{"relays":["wss://relay.example"]}}\n';
+const DATABASE = Buffer.from('SQLite format 3\0 database pages');
+
+describe('ScheduledBackupService', () => {
+  let root: string;
+  let configFile: string;
+  let directory: string;
+  let events: ServerEvent[];
+  let mockPrisma: any;
+
+  function createService(settings: Record<string, unknown> = {}) {
+    return new ScheduledBackupService({
+      configFile,
+      settings: { enabled: true, passphrase: PASSPHRASE, ...settings },
+      signetVersion: '0.0.3',
+    });
+  }
+
+  function snapshotFiles(): string[] {
+    return readdirSync(directory).sort();
+  }
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), 'signet-snapshots-'));
+    configFile = join(root, 'signet.json');
+    directory = join(root, 'backups');
+    writeFileSync(configFile, CONFIG);
+
+    mockPrisma = (await import('../../../db.js')).default;
+    vi.clearAllMocks();
+    // VACUUM INTO writes the copy to the path it is given
+    mockPrisma.$executeRaw.mockImplementation(async (_sql: TemplateStringsArray, path: string) => {
+      writeFileSync(path, DATABASE);
+      return 0;
+    });
+
+    const eventService = new EventService();
+    events = [];
+    eventService.subscribe((event) => events.push(event));
+    setEventService(eventService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write a verified snapshot next to signet.json and announce it', async () => {
+    const status = await createService().runNow();
+
+    expect(snapshotFiles()).toEqual([status.lastFile]);
+    expect(status).toMatchObject({ snapshots: 1, lastError: null, running: false, directory });
+
+    const opened = openSnapshot(readFileSync(join(directory, status.lastFile!), 'utf8'), PASSPHRASE);
+    expect(opened.config).toBe(CONFIG);
+    expect(opened.database.equals(DATABASE)).toBe(true);
+    expect(opened.manifest.signetVersion).toBe('0.0.3');
+    expect(events.map((event) => event.type)).toEqual(['backup:completed']);
+  });
+
+  it('should keep only the newest snapshots and drop old ones', async () => {
+    const service = createService({ keep: 2, maxAgeDays: 10 });
+    await service.runNow();
+    // Seed older snapshots around the one just written
+    const [current] = snapshotFiles();
+    rmSync(join(directory, current));
+    for (const stamp of ['20200101-000000', '21000101-000000', '21000102-000000']) {
+      writeFileSync(join(directory, `signet-snapshot-${stamp}.json`), '{}');
+    }
+    writeFileSync(join(directory, 'notes.txt'), 'not a snapshot');
+
+    vi.useFakeTimers({ now: new Date('2100-01-05T00:00:00Z'), toFake: ['Date'] });
+    const status = await service.runNow();
+
+    // The 2020 snapshot is too old and one 2100 snapshot is over the count
+    expect(snapshotFiles()).toEqual(['notes.txt', 'signet-snapshot-21000102-000000.json', status.lastFile].sort());
+    expect(status.snapshots).toBe(2);
+  });
+
+  it('should report a failure and retry sooner than the next interval', async () => {
+    vi.useFakeTimers({ now: new Date('2026-02-01T03:00:00Z'), toFake: ['Date'] });
+    const service = createService({ passphrase: undefined });
+
+    await expect(service.runNow()).rejects.toThrow('No backup passphrase');
+
+    const status = service.getStatus();
+    expect(status.lastError).toContain('No backup passphrase');
+    expect(status.lastFailureAt).toBe('2026-02-01T03:00:00.000Z');
+    expect(status.nextRunAt).toBe(new Date(Date.now() + SNAPSHOT_RETRY_MS).toISOString());
+    expect(events.map((event) => event.type)).toEqual(['backup:failed']);
+  });
+
+  it('should not leave a snapshot behind when the database copy is unusable', async () => {
+    mockPrisma.$executeRaw.mockImplementation(async (_sql: TemplateStringsArray, path: string) => {
+      writeFileSync(path, 'garbage');
+      return 0;
+    });
+
+    await expect(createService().runNow()).rejects.toThrow('not a SQLite file');
+
+    expect(snapshotFiles()).toEqual([]);
+  });
+
+  it('should schedule the next snapshot from the newest one on disk', async () => {
+    const first = await createService({ intervalHours: 6 }).runNow();
+
+    const service = createService({ intervalHours: 6 });
+    service.start();
+    service.stop();
+
+    const status = service.getStatus();
+    expect(status.lastFile).toBe(first.lastFile);
+    expect(Date.parse(status.nextRunAt!) - Date.parse(status.lastSuccessAt!)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('should stay idle when not enabled', () => {
+    const service = createService({ enabled: false });
+    service.start();
+
+    expect(service.getStatus()).toMatchObject({ enabled: false, directory: null, nextRunAt: null });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TrustProfileService } from '../trust-profile-service.js';
+
+vi.mock('../../lib/acl.js', () => ({
+  SAFE_KINDS: new Set([1, 7]),
+  getTrustLevelInfo: (level: string) => ({ label: level, description: `${level} description`, icon: '' }),
+  invalidateAclCacheForApps: vi.fn(),
+}));
+
+vi.mock('../event-service.js', () => {
+  const emitAppsUpdated = vi.fn();
+  return {
+    getEventService: () => ({ emitAppsUpdated }),
+  };
+});
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    trustProfile: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    keyUser: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+function makeProfileRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 3,
+    name: 'Blogging client',
+    description: null,
+    kinds: '[1,30023,30024]',
+    methods: '["nip44_encrypt"]',
+    createdAt: new Date('2026-01-13T10:00:00Z'),
+    updatedAt: new Date('2026-01-13T10:00:00Z'),
+    _count: { KeyUser: 2 },
+    ...overrides,
+  };
+}
+
+const BLOGGING = { name: 'Blogging client', kinds: [1, 30023, 30024], methods: ['nip44_encrypt' as const] };
+
+describe('TrustProfileService', () => {
+  let service: TrustProfileService;
+  let mockPrisma: any;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    service = new TrustProfileService();
+  });
+
+  describe('listProfiles', () => {
+    it('should list the built-in levels as read-only profiles alongside custom ones', async () => {
+      mockPrisma.trustProfile.findMany.mockResolvedValue([makeProfileRecord()]);
+
+      const result = await service.listProfiles();
+
+      expect(result.builtIn.map((profile) => profile.trustLevel)).toEqual(['paranoid', 'reasonable', 'full']);
+      expect(result.builtIn[1].kinds).toEqual([1, 7]);
+      expect(result.builtIn[2].kinds).toBe('all');
+      expect(result.profiles).toEqual([{
+        id: 3,
+        name: 'Blogging client',
+        description: null,
+        kinds: [1, 30023, 30024],
+        methods: ['nip44_encrypt'],
+        appCount: 2,
+        createdAt: '2026-01-13T10:00:00.000Z',
+        updatedAt: '2026-01-13T10:00:00.000Z',
+      }]);
+    });
+  });
+
+  describe('createProfile', () => {
+    it('should require a name', async () => {
+      await expect(service.createProfile({ ...BLOGGING, name: ' ' })).rejects.toThrow('Trust profile name is required');
+    });
+
+    it('should not shadow a built-in trust level', async () => {
+      await expect(service.createProfile({ ...BLOGGING, name: 'Full' })).rejects.toThrow('reserved for a built-in');
+    });
+
+    it('should reject invalid kinds and methods', async () => {
+      await expect(service.createProfile({ ...BLOGGING, kinds: [-1] })).rejects.toThrow('Invalid trust profile kinds');
+      await expect(service.createProfile({ ...BLOGGING, methods: ['sign_event' as never] })).rejects.toThrow('Invalid method(s): sign_event');
+    });
+
+    it('should reject duplicate names', async () => {
+      mockPrisma.trustProfile.findUnique.mockResolvedValue({ id: 9 });
+      await expect(service.createProfile(BLOGGING)).rejects.toThrow('already exists');
+    });
+
+    it('should store deduplicated, sorted kinds', async () => {
+      mockPrisma.trustProfile.findUnique.mockResolvedValue(null);
+      mockPrisma.trustProfile.create.mockResolvedValue(makeProfileRecord({ _count: { KeyUser: 0 } }));
+
+      await service.createProfile({ ...BLOGGING, kinds: [30024, 1, 30023, 1] });
+
+      expect(mockPrisma.trustProfile.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'Blogging client',
+          description: null,
+          kinds: '[1,30023,30024]',
+          methods: '["nip44_encrypt"]',
+        },
+      }));
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should invalidate the ACL cache for every app using the profile', async () => {
+      const { invalidateAclCacheForApps } = await import('../../lib/acl.js');
+      const { getEventService } = await import('../event-service.js');
+      const apps = [
+        { keyName: 'main-key', userPubkey: 'a'.repeat(64) },
+        { keyName: 'alt-key', userPubkey: 'b'.repeat(64) },
+      ];
+      mockPrisma.trustProfile.findUnique
+        .mockResolvedValueOnce({ id: 3, name: 'Blogging client' })
+        .mockResolvedValueOnce({ id: 3 });
+      mockPrisma.trustProfile.update.mockResolvedValue(makeProfileRecord());
+      mockPrisma.keyUser.findMany.mockResolvedValue(apps);
+
+      await service.updateProfile(3, { ...BLOGGING, kinds: [1] });
+
+      expect(mockPrisma.keyUser.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { trustProfileId: 3 } }));
+      expect(invalidateAclCacheForApps).toHaveBeenCalledWith(apps);
+      expect(getEventService().emitAppsUpdated).toHaveBeenCalled();
+    });
+
+    it('should throw when the profile does not exist', async () => {
+      mockPrisma.trustProfile.findUnique.mockResolvedValue(null);
+      await expect(service.updateProfile(99, BLOGGING)).rejects.toThrow('Trust profile not found');
+    });
+  });
+
+  describe('deleteProfile', () => {
+    it('should invalidate the ACL cache for apps that were using the profile', async () => {
+      const { invalidateAclCacheForApps } = await import('../../lib/acl.js');
+      const apps = [{ keyName: 'main-key', userPubkey: 'a'.repeat(64) }];
+      mockPrisma.trustProfile.findUnique.mockResolvedValue({ id: 3, name: 'Blogging client' });
+      mockPrisma.keyUser.findMany.mockResolvedValue(apps);
+
+      await service.deleteProfile(3);
+
+      expect(mockPrisma.trustProfile.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+      expect(invalidateAclCacheForApps).toHaveBeenCalledWith(apps);
+    });
+  });
+});
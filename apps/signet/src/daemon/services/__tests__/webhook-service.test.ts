@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookService } from '../webhook-service.js';
+import { EventService } from '../event-service.js';
+import { WEBHOOK_RETRY_DELAYS_MS } from '../../constants.js';
+
+vi.mock('../../../db.js', () => ({
+  default: {
+    webhook: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+function makeWebhook(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: 'alerts',
+    url: 'https://example.com/hook',
+    events: 'request:created,key:locked',
+    secret: 'whsec_test',
+    enabled: true,
+    createdAt: new Date('2026-01-19T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let eventService: EventService;
+  let mockPrisma: any;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let deliveries: Map<string, any>;
+
+  beforeEach(async () => {
+    const dbModule = await import('../../../db.js');
+    mockPrisma = dbModule.default;
+    vi.clearAllMocks();
+
+    // Keep deliveries in memory so attempts see the rows enqueue wrote
+    deliveries = new Map();
+    mockPrisma.webhookDelivery.create.mockImplementation(({ data }: any) => {
+      const delivery = {
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt: new Date(),
+        deliveredAt: null,
+        ...data,
+      };
+      deliveries.set(delivery.id, delivery);
+      return Promise.resolve(delivery);
+    });
+    mockPrisma.webhookDelivery.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(deliveries.get(where.id) ?? null));
+    mockPrisma.webhookDelivery.update.mockImplementation(({ where, data }: any) => {
+      const delivery = { ...deliveries.get(where.id), ...data };
+      deliveries.set(where.id, delivery);
+      return Promise.resolve(delivery);
+    });
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([]);
+
+    mockPrisma.webhook.findMany.mockResolvedValue([makeWebhook()]);
+    mockPrisma.webhook.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === 1 || where.name === 'alerts' ? makeWebhook() : null));
+    mockPrisma.webhook.count.mockResolvedValue(0);
+    mockPrisma.webhook.create.mockImplementation(({ data }: any) => Promise.resolve(makeWebhook({ id: 2, ...data })));
+
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    eventService = new EventService();
+    service = new WebhookService();
+    await service.start(eventService);
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('createWebhook', () => {
+    it('should return the secret once and keep it out of the webhook', async () => {
+      const { webhook, secret } = await service.createWebhook({
+        name: 'ntfy',
+        url: 'https://ntfy.example/signet',
+        events: ['key:locked', 'request:created'],
+      });
+
+      expect(secret.startsWith('whsec_')).toBe(true);
+      expect(webhook).not.toHaveProperty('secret');
+      // Events are stored in canonical order
+      expect(mockPrisma.webhook.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ events: 'request:created,key:locked', secret }),
+      });
+    });
+
+    it('should reject non-http URLs', async () => {
+      await expect(service.createWebhook({ name: 'x', url: 'file:///etc/passwd', events: ['key:locked'] }))
+        .rejects.toThrow('Invalid webhook URL');
+    });
+
+    it('should reject unknown events', async () => {
+      await expect(service.createWebhook({ name: 'x', url: 'https://example.com', events: ['log:entry' as any] }))
+        .rejects.toThrow('Invalid event: log:entry');
+      await expect(service.createWebhook({ name: 'x', url: 'https://example.com', events: [] }))
+        .rejects.toThrow('At least one event is required');
+    });
+
+    it('should reject duplicate names', async () => {
+      await expect(service.createWebhook({ name: 'alerts', url: 'https://example.com', events: ['key:locked'] }))
+        .rejects.toThrow('Webhook "alerts" already exists');
+    });
+  });
+
+  describe('delivery', () => {
+    it('should POST a signed payload for subscribed events', async () => {
+      eventService.emit({ type: 'key:locked', keyName: 'main' });
+
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(init.headers['x-signet-event']).toBe('key:locked');
+      expect(init.headers['x-signet-signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(JSON.parse(init.body)).toMatchObject({ type: 'key:locked', data: { keyName: 'main' } });
+
+      await vi.waitFor(() => expect([...deliveries.values()][0].status).toBe('delivered'));
+    });
+
+    it('should ignore events the webhook does not subscribe to', async () => {
+      eventService.emit({ type: 'key:unlocked', keyName: 'main' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockPrisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a retry when the receiver fails', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+      eventService.emit({ type: 'key:locked', keyName: 'main' });
+
+      await vi.waitFor(() => expect([...deliveries.values()][0]?.attempts).toBe(1));
+      const delivery = [...deliveries.values()][0];
+      expect(delivery.status).toBe('pending');
+      expect(delivery.error).toBe('HTTP 503');
+      expect(delivery.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + WEBHOOK_RETRY_DELAYS_MS[0] - 5000);
+    });
+
+    it('should give up after the last retry', async () => {
+      fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([{ id: 'd1', nextAttemptAt: new Date() }]);
+      deliveries.set('d1', {
+        id: 'd1',
+        webhookId: 1,
+        eventType: 'key:locked',
+        payload: '{}',
+        status: 'pending',
+        attempts: WEBHOOK_RETRY_DELAYS_MS.length,
+      });
+
+      // Restarting picks up the pending delivery
+      service.stop();
+      await service.start(eventService);
+
+      await vi.waitFor(() => expect(deliveries.get('d1').status).toBe('failed'));
+      expect(deliveries.get('d1').error).toBe('connect ECONNREFUSED');
+      expect(deliveries.get('d1').nextAttemptAt).toBeNull();
+    });
+  });
+
+  describe('sendTest', () => {
+    it('should deliver a test event and return the outcome', async () => {
+      mockPrisma.webhook.findMany.mockResolvedValue([makeWebhook({ enabled: false })]);
+      mockPrisma.webhook.findUnique.mockResolvedValue(makeWebhook({ enabled: false }));
+      await service.start(eventService);
+
+      const delivery = await service.sendTest(1);
+
+      expect(delivery.eventType).toBe('webhook:test');
+      expect(delivery.status).toBe('delivered');
+      expect(delivery.attempts).toBe(1);
+    });
+
+    it('should throw for unknown webhooks', async () => {
+      mockPrisma.webhook.findUnique.mockResolvedValue(null);
+
+      await expect(service.sendTest(99)).rejects.toThrow('Webhook not found');
+    });
+  });
+});
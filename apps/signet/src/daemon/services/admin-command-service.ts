@@ -9,12 +9,16 @@ import { bytesToHex, hexToBytes } from '../lib/hex.js';
 import { logger } from '../lib/logger.js';
 import type { KeyService } from './key-service.js';
 import type { AppService } from './app-service.js';
+import type { RequestService } from './request-service.js';
 import { emitCurrentStats, getEventService } from './event-service.js';
 import { getDeadManSwitchService } from './dead-man-switch-service.js';
 import { adminLogRepository, type AdminEventType } from '../repositories/admin-log-repository.js';
 import { getKillSwitchClientInfo } from '../lib/client-info.js';
 import { TTLCache } from '../lib/ttl-cache.js';
 import { toErrorMessage } from '../lib/errors.js';
+import { extractEventKind } from '../lib/parse.js';
+import { formatPendingRequestDm, parseRequestDecision, shortRequestId, type RequestDecision } from '../lib/request-notifications.js';
+import type { PendingRequest } from '@signet/types';
 
 // TTL for processed event IDs: 1 hour (reduced from 24h to limit memory usage)
 const PROCESSED_EVENT_TTL_MS = 60 * 60 * 1000;
@@ -53,12 +57,15 @@ type LockKeyResult =
 /**
  * AdminCommandService listens for Nostr DMs from an authorized admin
  * and executes kill switch commands (lock keys, suspend apps).
+ * It also lets the admin approve or deny pending requests by DM, and
+ * can notify the admin when a request needs approval.
  */
 export class AdminCommandService {
     private readonly config: KillSwitchConfig;
     private readonly adminPubkey: string;
     private readonly keyService: KeyService;
     private readonly appService: AppService;
+    private readonly requestService: RequestService;
     private readonly getActiveKeySecrets: () => Record<string, string>;
     private readonly daemonVersion: string;
     private websockets: WebSocket[] = [];
@@ -74,17 +81,21 @@ export class AdminCommandService {
     private reconnectTimers: Set<NodeJS.Timeout> = new Set();
     // Track retry counts per relay for exponential backoff
     private relayRetryCounts: Map<string, number> = new Map();
+    // Unsubscribes from pending request notifications
+    private unsubscribeRequests: (() => void) | null = null;
 
     constructor(options: {
         config: KillSwitchConfig;
         keyService: KeyService;
         appService: AppService;
+        requestService: RequestService;
         getActiveKeySecrets: () => Record<string, string>;
         daemonVersion: string;
     }) {
         this.config = options.config;
         this.keyService = options.keyService;
         this.appService = options.appService;
+        this.requestService = options.requestService;
         this.getActiveKeySecrets = options.getActiveKeySecrets;
         this.daemonVersion = options.daemonVersion;
 
@@ -149,6 +160,17 @@ export class AdminCommandService {
         debug('Admin relays: %s', this.config.adminRelays.join(', '));
 
         this.subscribeToAllKeys();
+
+        if (this.config.notifyRequests) {
+            this.unsubscribeRequests = getEventService().subscribe((event) => {
+                if (event.type === 'request:created') {
+                    this.notifyPendingRequest(event.request).catch((error) => {
+                        logger.error('Failed to send pending request DM', { error: toErrorMessage(error) });
+                    });
+                }
+            });
+        }
+
         this.isRunning = true;
     }
 
@@ -182,6 +204,8 @@ export class AdminCommandService {
         }
 
         logger.info('Stopping kill switch listener');
+        this.unsubscribeRequests?.();
+        this.unsubscribeRequests = null;
         this.closeAllWebsockets();
         this.processedEventIds.destroy();
         this.isRunning = false;
@@ -684,8 +708,14 @@ export class AdminCommandService {
                     const appName = command.slice(7); // Extract app name after "resume "
                     result = await this.resumeSingleApp(appName);
                     logger.info('Kill switch resume app', { appName, result });
+                } else if (command.startsWith('approve ') || command.startsWith('deny ')) {
+                    const decision = parseRequestDecision(command);
+                    result = decision
+                        ? await this.decideRequest(decision)
+                        : '⚠ Usage: approve <id> [always] or deny <id>';
+                    logger.info('Kill switch request decision', { command, result });
                 } else {
-                    result = `⚠ Unknown command: "${command}".\n\nValid commands:\n• panic (or lockall, killswitch) - emergency lock all\n• lockall keys\n• lock <keyname>\n• suspendall apps [for <keyname>]\n• suspend <appname>\n• resumeall apps [for <keyname>]\n• resume <appname>\n• alive - reset dead man's switch timer\n• status`;
+                    result = `⚠ Unknown command: "${command}".\n\nValid commands:\n• panic (or lockall, killswitch) - emergency lock all\n• lockall keys\n• lock <keyname>\n• suspendall apps [for <keyname>]\n• suspend <appname>\n• resumeall apps [for <keyname>]\n• resume <appname>\n• approve <id> [always]\n• deny <id>\n• alive - reset dead man's switch timer\n• status`;
                     logger.warn('Kill switch unknown command', { command });
                     changesState = false;
                 }
@@ -830,6 +860,63 @@ export class AdminCommandService {
         }
     }
 
+    /**
+     * Approve or deny a pending request by (short) request ID
+     */
+    private async decideRequest(decision: RequestDecision): Promise<string> {
+        let record;
+        try {
+            record = await this.requestService.findPendingByIdPrefix(decision.requestId);
+        } catch (error) {
+            return `⚠ ${toErrorMessage(error)}`;
+        }
+        if (!record) {
+            return `⚠ No pending request '${decision.requestId}'`;
+        }
+
+        const id = shortRequestId(record.id);
+        try {
+            if (decision.action === 'deny') {
+                await this.requestService.denyPendingRequest(record.id);
+                return `✓ Denied request ${id}`;
+            }
+
+            const kind = record.method === 'sign_event' ? extractEventKind(record.params) : undefined;
+            const result = await this.requestService.approvePendingRequest(record.id, {
+                alwaysAllow: decision.always,
+                allowKind: decision.always ? kind : undefined,
+                // The admin counts as an approver if their npub is registered as one
+                approver: { pubkey: this.adminPubkey },
+            });
+            if (result.status === 'pending') {
+                return `✓ Approval recorded for request ${id} (${result.quorum.approvals.length} of ${result.quorum.threshold})`;
+            }
+            return decision.always
+                ? `✓ Approved request ${id} and future ${record.method} requests${kind !== undefined ? ` (kind ${kind})` : ''}`
+                : `✓ Approved request ${id}`;
+        } catch (error) {
+            return `⚠ Could not ${decision.action} request ${id}: ${toErrorMessage(error)}`;
+        }
+    }
+
+    /**
+     * DM the admin a summary of a request that is waiting for approval
+     */
+    private async notifyPendingRequest(request: PendingRequest): Promise<void> {
+        const activeKeys = this.getActiveKeySecrets();
+        // Send from the requested key, or the configured notifier key. Any other
+        // key would tell the admin which unrelated keys this daemon holds.
+        const senderName = request.keyName && activeKeys[request.keyName] ? request.keyName : this.config.notifyKey;
+        const nsec = senderName ? activeKeys[senderName] : undefined;
+        if (!nsec) {
+            debug('No unlocked key to notify admin about request %s', request.id);
+            return;
+        }
+
+        await this.sendConfirmation(formatPendingRequestDm(request), nsec, this.getPubkeyFromNsec(nsec));
+        debug('Notified admin about request %s', request.id);
+    }
+
     /**
      * Resume all suspended apps
      */
@@ -0,0 +1,246 @@
+import type { ApiToken, CreateApiTokenRequest } from '@signet/types';
+import prisma from '../../db.js';
+import {
+    API_TOKEN_SCOPES,
+    generateApiToken,
+    getDisplayPrefix,
+    hashApiToken,
+    isApiTokenScope,
+    parseKeyNames,
+    parseScopes,
+    type ApiTokenIdentity,
+} from '../lib/api-tokens.js';
+import { checkRouteAccess, matchesPrefix, type RouteContext } from '../lib/access.js';
+import { TTLCache } from '../lib/ttl-cache.js';
+import { logger } from '../lib/logger.js';
+import { validateKeyName } from '../lib/validation.js';
+import {
+    API_TOKEN_CACHE_TTL_MS,
+    MAX_API_TOKEN_EXPIRY_DAYS,
+    MAX_API_TOKENS,
+    MAX_APP_NAME_LENGTH,
+    SESSION_TOUCH_INTERVAL_MS,
+} from '../constants.js';
+
+type ApiTokenRecord = {
+    id: number;
+    name: string;
+    tokenHash: string;
+    prefix: string;
+    scopes: string;
+    keyNames: string | null;
+    createdAt: Date;
+    expiresAt: Date | null;
+    lastUsedAt: Date | null;
+};
+
+type CachedToken = {
+    identity: ApiTokenIdentity;
+    expiresAt: number | null;
+};
+
+export type ApiTokenAuthResult =
+    | { ok: true; identity: ApiTokenIdentity }
+    | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Service for scoped API tokens.
+ *
+ * Tokens are checked by the auth middleware next to dashboard sessions.
+ * Lookups are cached briefly by token hash; deleting a token clears its
+ * cache entry, so revocation takes effect at once.
+ */
+export class ApiTokenService {
+    private readonly tokens = new TTLCache<CachedToken>('api-tokens', {
+        ttlMs: API_TOKEN_CACHE_TTL_MS,
+        maxSize: 1000,
+    });
+    private readonly lastTouched = new Map<number, number>();
+
+    private toApiToken(token: ApiTokenRecord): ApiToken {
+        return {
+            id: token.id,
+            name: token.name,
+            prefix: token.prefix,
+            scopes: parseScopes(token.scopes),
+            keyNames: parseKeyNames(token.keyNames),
+            createdAt: token.createdAt.toISOString(),
+            expiresAt: token.expiresAt?.toISOString() ?? null,
+            lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+        };
+    }
+
+    async listTokens(): Promise<ApiToken[]> {
+        const tokens = await prisma.apiToken.findMany({ orderBy: { createdAt: 'desc' } });
+        return tokens.map((token) => this.toApiToken(token));
+    }
+
+    /**
+     * Create a token. The secret is returned once and only its hash is kept.
+     */
+    async createToken(request: CreateApiTokenRequest): Promise<{ token: ApiToken; secret: string }> {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Token name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid token name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+
+        if (!Array.isArray(request.scopes) || request.scopes.length === 0) {
+            throw new Error('At least one scope is required');
+        }
+        const invalidScope = request.scopes.find((scope) => !isApiTokenScope(scope));
+        if (invalidScope !== undefined) {
+            throw new Error(`Invalid scope: ${String(invalidScope)} (use ${API_TOKEN_SCOPES.join(', ')})`);
+        }
+        const scopes = API_TOKEN_SCOPES.filter((scope) => request.scopes.includes(scope));
+
+        let keyNames: string[] | null = null;
+        if (request.keyNames !== undefined && request.keyNames !== null) {
+            if (!Array.isArray(request.keyNames) || request.keyNames.length === 0) {
+                throw new Error('Invalid key restriction: list at least one key or omit keyNames');
+            }
+            keyNames = [];
+            for (const keyName of request.keyNames) {
+                const validation = validateKeyName(keyName);
+                if (!validation.valid) {
+                    throw new Error(`Invalid key name: ${validation.error}`);
+                }
+                if (!keyNames.includes(keyName)) {
+                    keyNames.push(keyName);
+                }
+            }
+        }
+
+        let expiresAt: Date | null = null;
+        if (request.expiresInDays !== undefined && request.expiresInDays !== null) {
+            const days = request.expiresInDays;
+            if (!Number.isInteger(days) || days < 1 || days > MAX_API_TOKEN_EXPIRY_DAYS) {
+                throw new Error(`Invalid expiry: use 1-${MAX_API_TOKEN_EXPIRY_DAYS} days`);
+            }
+            expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+        }
+
+        const count = await prisma.apiToken.count();
+        if (count >= MAX_API_TOKENS) {
+            throw new Error(`Invalid token: at most ${MAX_API_TOKENS} API tokens allowed`);
+        }
+
+        const existing = await prisma.apiToken.findUnique({ where: { name }, select: { id: true } });
+        if (existing) {
+            throw new Error(`API token "${name}" already exists`);
+        }
+
+        const secret = generateApiToken();
+        const token = await prisma.apiToken.create({
+            data: {
+                name,
+                tokenHash: hashApiToken(secret),
+                prefix: getDisplayPrefix(secret),
+                scopes: scopes.join(','),
+                keyNames: keyNames?.join(',') ?? null,
+                expiresAt,
+            },
+        });
+        logger.info('API token created', { name, scopes });
+        return { token: this.toApiToken(token), secret };
+    }
+
+    async deleteToken(id: number): Promise<void> {
+        const token = await prisma.apiToken.findUnique({ where: { id } });
+        if (!token) {
+            throw new Error('API token not found');
+        }
+        await prisma.apiToken.delete({ where: { id } });
+        this.tokens.delete(token.tokenHash);
+        this.lastTouched.delete(id);
+        logger.info('API token deleted', { name: token.name });
+    }
+
+    /**
+     * Look up an unexpired token, or null if it is unknown
+     */
+    async authenticate(secret: string): Promise<ApiTokenIdentity | null> {
+        const tokenHash = hashApiToken(secret);
+        let cached = this.tokens.get(tokenHash);
+        if (!cached) {
+            const token = await prisma.apiToken.findUnique({ where: { tokenHash } });
+            if (!token) {
+                return null;
+            }
+            cached = {
+                identity: {
+                    id: token.id,
+                    name: token.name,
+                    scopes: parseScopes(token.scopes),
+                    keyNames: parseKeyNames(token.keyNames),
+                },
+                expiresAt: token.expiresAt?.getTime() ?? null,
+            };
+            this.tokens.set(tokenHash, cached);
+        }
+
+        if (cached.expiresAt !== null && cached.expiresAt <= Date.now()) {
+            return null;
+        }
+
+        this.touch(cached.identity.id);
+        return cached.identity;
+    }
+
+    /**
+     * Check a token against the route it is calling: the token must exist,
+     * have the scope the route needs, and (if restricted) cover the keys the
+     * route acts on. Login and session routes are off limits to tokens.
+     */
+    async authorize(secret: string, context: RouteContext): Promise<ApiTokenAuthResult> {
+        const identity = await this.authenticate(secret);
+        if (!identity) {
+            return { ok: false, status: 401, error: 'Invalid or expired API token' };
+        }
+
+        const denial = matchesPrefix(context.routeUrl, '/auth')
+            ? { reason: 'endpoint' as const }
+            : await checkRouteAccess(identity, context);
+        if (denial?.reason === 'endpoint') {
+            return { ok: false, status: 403, error: 'API tokens cannot access this endpoint' };
+        }
+        if (denial?.reason === 'scope') {
+            return { ok: false, status: 403, error: `API token is missing the ${denial.scope} scope` };
+        }
+        if (denial?.reason === 'key') {
+            return { ok: false, status: 403, error: 'API token is not allowed to use this key' };
+        }
+
+        return { ok: true, identity };
+    }
+
+    private touch(id: number): void {
+        const now = Date.now();
+        if (now - (this.lastTouched.get(id) ?? 0) < SESSION_TOUCH_INTERVAL_MS) {
+            return;
+        }
+        this.lastTouched.set(id, now);
+        prisma.apiToken.update({
+            where: { id },
+            data: { lastUsedAt: new Date(now) },
+        }).catch((error: unknown) => {
+            logger.warn('Failed to update API token activity', { id, error: String(error) });
+        });
+    }
+}
+
+// Singleton instance
+let apiTokenService: ApiTokenService | null = null;
+
+export function getApiTokenService(): ApiTokenService {
+    if (!apiTokenService) {
+        apiTokenService = new ApiTokenService();
+    }
+    return apiTokenService;
+}
+
+export function setApiTokenService(service: ApiTokenService): void {
+    apiTokenService = service;
+}
@@ -1,11 +1,42 @@
-import type { ConnectedApp, TrustLevel, MethodBreakdown } from '@signet/types';
+import type { ConnectedApp, TrustLevel, MethodBreakdown, AppQuotaConfig, AppSchedule, AppSigningCondition, AppPolicyUsage, CreateSigningConditionRequest } from '@signet/types';
 import { appRepository } from '../repositories/index.js';
-import { updateTrustLevel as updateTrustLevelAcl } from '../lib/acl.js';
+import type { AppPolicyRecord } from '../repositories/app-repository.js';
+import { updateTrustLevel as updateTrustLevelAcl, updateTrustProfile as updateTrustProfileAcl } from '../lib/acl.js';
+import { parseQuotaConfig, quotaTracker } from '../lib/quota.js';
+import { parseAppSchedule } from '../lib/schedule.js';
+import { parseEventConstraints } from '../lib/event-constraints.js';
+import { isPolicyExpired, toAppPolicyRuleUsage } from '../lib/policy-usage.js';
+import { validateQuotaConfig, validateAppSchedule, validateEventConstraints } from '../lib/validation.js';
 import { VALID_TRUST_LEVELS } from '../constants.js';
 import { getEventService } from './event-service.js';
 import { getNostrconnectService } from './nostrconnect-service.js';
+import { getTrustProfileService } from './trust-profile-service.js';
 
 export class AppService {
+    /**
+     * Build the policy usage summary for an app connected via a policy token,
+     * with the app's own uses of each rule
+     */
+    private buildPolicyUsage(
+        tokens: AppPolicyRecord[] | undefined,
+        conditions: Array<{ policyRuleId?: number | null; usageCount?: number }>
+    ): AppPolicyUsage | null {
+        const policy = tokens?.[0]?.policy;
+        if (!policy || policy.deletedAt) {
+            return null;
+        }
+        const usage = new Map(conditions
+            .filter((condition) => condition.policyRuleId != null)
+            .map((condition) => [condition.policyRuleId, condition.usageCount ?? 0]));
+        return {
+            policyId: policy.id,
+            name: policy.name,
+            expiresAt: policy.expiresAt?.toISOString() ?? null,
+            expired: isPolicyExpired(policy),
+            rules: policy.rules.map((rule) => toAppPolicyRuleUsage(rule, usage.get(rule.id) ?? 0)),
+        };
+    }
+
     /**
      * Build a ConnectedApp object from a keyUser record
      */
@@ -20,13 +51,27 @@ export class AppService {
             lastUsedAt: Date | null;
             suspendedAt?: Date | null;
             suspendUntil?: Date | null;
-            signingConditions: { method: string | null; kind: string | null; allowed: boolean | null }[];
+            quotas?: string | null;
+            schedule?: string | null;
+            trustProfile?: { id: number; name: string } | null;
+            signingConditions: { id: number; method: string | null; kind: string | null; content?: string | null; allowed: boolean | null; policyRuleId?: number | null; usageCount?: number }[];
+            Token?: AppPolicyRecord[];
         },
         requestCount: number,
         methodBreakdownRaw: Record<string, number>
     ): ConnectedApp {
         const permissions: string[] = [];
+        const conditions: AppSigningCondition[] = [];
         for (const condition of keyUser.signingConditions) {
+            if (condition.method && condition.method !== 'connect' && condition.allowed !== null) {
+                conditions.push({
+                    id: condition.id,
+                    method: condition.method,
+                    kind: condition.kind,
+                    allowed: condition.allowed,
+                    constraints: parseEventConstraints(condition.content),
+                });
+            }
             if (condition.allowed && condition.method) {
                 if (condition.method === 'connect') continue;
                 if (condition.kind) {
@@ -53,6 +98,7 @@ export class AppService {
             userPubkey: keyUser.userPubkey,
             description: keyUser.description ?? undefined,
             trustLevel: (keyUser.trustLevel as TrustLevel) ?? 'reasonable',
+            trustProfile: keyUser.trustProfile ? { id: keyUser.trustProfile.id, name: keyUser.trustProfile.name } : null,
             permissions: permissions.length > 0 ? permissions : ['All methods'],
             connectedAt: keyUser.createdAt.toISOString(),
             lastUsedAt: keyUser.lastUsedAt?.toISOString() ?? null,
@@ -60,6 +106,11 @@ export class AppService {
             suspendUntil: keyUser.suspendUntil?.toISOString() ?? null,
             requestCount,
             methodBreakdown,
+            quotas: parseQuotaConfig(keyUser.quotas),
+            lastQuotaHit: quotaTracker.getLastHit(keyUser.id),
+            schedule: parseAppSchedule(keyUser.schedule),
+            conditions,
+            policy: this.buildPolicyUsage(keyUser.Token, keyUser.signingConditions),
         };
     }
 
@@ -163,6 +214,201 @@ export class AppService {
         }
     }
 
+    /**
+     * Move an app onto a custom trust profile. Pass null to take it off
+     * the profile and back to its stored trust level.
+     */
+    async updateTrustProfile(appId: number, trustProfileId: number | null): Promise<void> {
+        if (trustProfileId !== null && !Number.isInteger(trustProfileId)) {
+            throw new Error('Invalid trust profile ID');
+        }
+
+        const app = await appRepository.findById(appId);
+        if (!app) {
+            throw new Error('App not found');
+        }
+
+        if (trustProfileId === null) {
+            await updateTrustLevelAcl(appId, (app.trustLevel as TrustLevel) ?? 'paranoid');
+        } else {
+            await getTrustProfileService().requireProfile(trustProfileId);
+            await updateTrustProfileAcl(appId, trustProfileId);
+        }
+
+        // Emit event for real-time updates
+        const updatedApp = await this.getAppById(appId);
+        if (updatedApp) {
+            getEventService().emitAppUpdated(updatedApp);
+        }
+    }
+
+    /**
+     * Replace an app's rate limits. Pass null to remove them.
+     */
+    async updateQuotas(appId: number, quotas: AppQuotaConfig | null): Promise<void> {
+        if (quotas !== null) {
+            const validation = validateQuotaConfig(quotas);
+            if (!validation.valid) {
+                throw new Error(validation.error);
+            }
+        }
+
+        const app = await appRepository.findById(appId);
+        if (!app) {
+            throw new Error('App not found');
+        }
+
+        // Only keep the fields we understand so arbitrary JSON isn't persisted
+        const normalized: AppQuotaConfig | null = quotas && quotas.rules.length > 0
+            ? {
+                overflow: quotas.overflow,
+                rules: quotas.rules.map(({ method, kind, perMinute, perHour, perDay }) => ({
+                    method: method?.trim() || undefined,
+                    kind,
+                    perMinute,
+                    perHour,
+                    perDay,
+                })),
+            }
+            : null;
+
+        await appRepository.updateQuotas(appId, normalized);
+        if (!normalized) {
+            quotaTracker.reset(appId);
+        }
+
+        // Emit event for real-time updates
+        const updatedApp = await this.getAppById(appId);
+        if (updatedApp) {
+            getEventService().emitAppUpdated(updatedApp);
+        }
+    }
+
+    /**
+     * Replace an app's schedule. Pass null to remove it.
+     */
+    async updateSchedule(appId: number, schedule: AppSchedule | null): Promise<void> {
+        if (schedule !== null) {
+            const validation = validateAppSchedule(schedule);
+            if (!validation.valid) {
+                throw new Error(validation.error);
+            }
+        }
+
+        const app = await appRepository.findById(appId);
+        if (!app) {
+            throw new Error('App not found');
+        }
+
+        // Only keep the fields we understand so arbitrary JSON isn't persisted
+        const normalized: AppSchedule | null = schedule
+            ? {
+                timezone: schedule.timezone,
+                outside: schedule.outside,
+                windows: schedule.windows.map(({ days, start, end }) => ({
+                    days: [...new Set(days)].sort((a, b) => a - b),
+                    start,
+                    end,
+                })),
+            }
+            : null;
+
+        await appRepository.updateSchedule(appId, normalized);
+
+        // Emit event for real-time updates
+        const updatedApp = await this.getAppById(appId);
+        if (updatedApp) {
+            getEventService().emitAppUpdated(updatedApp);
+        }
+    }
+
+    /**
+     * Add an explicit allow/deny condition to an app.
+     * Event constraints are only supported for sign_event.
+     * @returns The new condition's id
+     */
+    async addCondition(appId: number, request: CreateSigningConditionRequest): Promise<number> {
+        const method = request?.method?.trim();
+        if (!method) {
+            throw new Error('Condition method is required');
+        }
+        if (typeof request.allowed !== 'boolean') {
+            throw new Error('Condition allowed flag is required');
+        }
+
+        const { kind, constraints } = request;
+        if (kind !== undefined && kind !== 'all' && (!Number.isInteger(kind) || kind < 0)) {
+            throw new Error('Invalid condition kind');
+        }
+        if (kind !== undefined && method !== 'sign_event') {
+            throw new Error('Invalid condition: kind only applies to sign_event');
+        }
+
+        if (constraints !== undefined) {
+            if (method !== 'sign_event') {
+                throw new Error('Invalid condition: event constraints only apply to sign_event');
+            }
+            const validation = validateEventConstraints(constraints);
+            if (!validation.valid) {
+                throw new Error(validation.error);
+            }
+        }
+
+        const app = await appRepository.findById(appId);
+        if (!app) {
+            throw new Error('App not found');
+        }
+
+        // Only keep the fields we understand so arbitrary JSON isn't persisted
+        const normalized = constraints
+            ? {
+                forbidTags: constraints.forbidTags,
+                requireTags: constraints.requireTags?.map(({ name, value }) => ({ name, value })),
+                contentMatches: constraints.contentMatches,
+                contentNotMatches: constraints.contentNotMatches,
+                maxContentLength: constraints.maxContentLength,
+                maxPastMinutes: constraints.maxPastMinutes,
+                maxFutureMinutes: constraints.maxFutureMinutes,
+            }
+            : undefined;
+
+        const conditionId = await appRepository.createCondition(appId, {
+            method,
+            kind: kind !== undefined ? kind.toString() : undefined,
+            allowed: request.allowed,
+            constraints: normalized,
+        });
+
+        // Emit event for real-time updates
+        const updatedApp = await this.getAppById(appId);
+        if (updatedApp) {
+            getEventService().emitAppUpdated(updatedApp);
+        }
+
+        return conditionId;
+    }
+
+    /**
+     * Remove an explicit condition from an app.
+     */
+    async removeCondition(appId: number, conditionId: number): Promise<void> {
+        const app = await appRepository.findById(appId);
+        if (!app) {
+            throw new Error('App not found');
+        }
+
+        const removed = await appRepository.deleteCondition(appId, conditionId);
+        if (!removed) {
+            throw new Error('Condition not found');
+        }
+
+        // Emit event for real-time updates
+        const updatedApp = await this.getAppById(appId);
+        if (updatedApp) {
+            getEventService().emitAppUpdated(updatedApp);
+        }
+    }
+
     /**
      * Suspend an app, preventing all requests until unsuspended.
      * @param appId - The app ID
@@ -0,0 +1,886 @@
+import type { BackupCounts, BackupManifest, EncryptionFormat, RestoreMode, RestoreReport } from '@signet/types';
+import { getPublicKey } from 'nostr-tools/pure';
+import { nsecEncode, decode as nip19Decode } from 'nostr-tools/nip19';
+import prisma from '../../db.js';
+import type { Prisma } from '../../generated/client';
+import type { ConfigFile, KeyDerivation, RetiredKey, StoredKey, StoredSeed } from '../../config/types.js';
+import { loadConfig, saveConfig } from '../../config/config.js';
+import { encryptNip49, decryptNip49 } from '../../config/keyring.js';
+import { sealBackup, openBackup } from '../lib/backup-archive.js';
+import { bytesToHex, hexToBytes } from '../lib/hex.js';
+import { clearAclCache } from '../lib/acl.js';
+import type { KeyService } from './key-service.js';
+
+type Transaction = Prisma.TransactionClient;
+
+/** signet.json settings describing this machine, never copied between installs */
+const LOCAL_CONFIG_FIELDS = new Set(['keys', 'database', 'logs', 'backups']);
+
+const HISTORY_BATCH_SIZE = 500;
+
+interface BackupKey {
+    name: string;
+    /** How the key is stored in signet.json; it is restored the same way */
+    encryption: EncryptionFormat;
+    /** NIP-49 keys as stored; unencrypted keys encrypted with the backup passphrase */
+    ncryptsec?: string;
+    /** Legacy-encrypted keys are copied as they are */
+    legacy?: { iv: string; data: string };
+    /** Known when the key is unencrypted or unlocked */
+    pubkey?: string;
+    relays?: string[];
+    /** Rotated keys stay retired after a restore, so they don't serve NIP-46 again */
+    retired?: RetiredKey;
+    derivation?: KeyDerivation;
+}
+
+interface BackupTrustProfile {
+    name: string;
+    description: string | null;
+    kinds: string;
+    methods: string;
+}
+
+interface BackupPolicy {
+    id: number;
+    name: string;
+    description: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    rules: Array<{
+        id: number;
+        method: string;
+        kind: string | null;
+        maxUsageCount: number | null;
+        currentUsageCount: number | null;
+    }>;
+}
+
+interface BackupApp {
+    keyName: string;
+    userPubkey: string;
+    description: string | null;
+    trustLevel: string;
+    trustProfile: string | null;
+    nostrconnectRelays: string | null;
+    quotas: string | null;
+    schedule: string | null;
+    createdAt: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    suspendedAt: string | null;
+    suspendUntil: string | null;
+    signingConditions: Array<{
+        method: string | null;
+        kind: string | null;
+        content: string | null;
+        allowed: boolean | null;
+        /** Backed-up policy rule that granted the condition */
+        policyRuleId: number | null;
+        /** The app's uses of that rule; missing in older backups */
+        usageCount?: number;
+    }>;
+}
+
+/** App a history record belongs to, since app ids differ between installs */
+interface AppRef {
+    keyName: string;
+    userPubkey: string;
+}
+
+interface BackupRequest {
+    id: string;
+    keyName: string | null;
+    createdAt: string;
+    processedAt: string | null;
+    requestId: string;
+    remotePubkey: string;
+    method: string;
+    params: string | null;
+    allowed: boolean | null;
+    autoApproved: boolean;
+    approvalType: string | null;
+    quorumThreshold: number | null;
+    deliveryStatus: string | null;
+    deliveryAt: string | null;
+    app: AppRef | null;
+}
+
+interface BackupLog {
+    timestamp: string;
+    type: string;
+    method: string | null;
+    params: string | null;
+    autoApproved: boolean;
+    approvalType: string | null;
+    keyName: string | null;
+    remotePubkey: string | null;
+    requestId: string | null;
+    deliveryStatus: string | null;
+    app: AppRef | null;
+}
+
+interface BackupAdminLog {
+    timestamp: string;
+    eventType: string;
+    keyName: string | null;
+    appName: string | null;
+    clientName: string | null;
+    clientVersion: string | null;
+    ipAddress: string | null;
+    command: string | null;
+    commandResult: string | null;
+    actor: string | null;
+    app: AppRef | null;
+}
+
+/**
+ * Decrypted contents of a backup archive
+ */
+interface BackupData {
+    /** Archives from before `seeds` was its own section keep them in here */
+    config: Omit<ConfigFile, 'keys'>;
+    /** Mnemonics as stored in signet.json (encrypted ones stay encrypted) */
+    seeds?: Record<string, StoredSeed>;
+    settings: Array<{ key: string; value: string }>;
+    keys: BackupKey[];
+    trustProfiles: BackupTrustProfile[];
+    policies: BackupPolicy[];
+    apps: BackupApp[];
+    history?: {
+        requests: BackupRequest[];
+        logs: BackupLog[];
+        adminLogs: BackupAdminLog[];
+    };
+}
+
+// Thrown inside the restore transaction to roll a dry run back
+class DryRunRollback extends Error {}
+
+function iso(date: Date): string;
+function iso(date: Date | null): string | null;
+function iso(date: Date | null): string | null {
+    return date ? date.toISOString() : null;
+}
+
+function appRefKey(ref: AppRef): string {
+    return `${ref.keyName}:${ref.userPubkey}`;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function emptyCounts(): BackupCounts {
+    return {
+        keys: 0,
+        seeds: 0,
+        apps: 0,
+        signingConditions: 0,
+        trustProfiles: 0,
+        policies: 0,
+        settings: 0,
+        requests: 0,
+        logs: 0,
+        adminLogs: 0,
+    };
+}
+
+function countBackup(data: BackupData): BackupCounts {
+    return {
+        keys: data.keys.length,
+        seeds: Object.keys(data.seeds ?? {}).length,
+        apps: data.apps.length,
+        signingConditions: data.apps.reduce((total, app) => total + app.signingConditions.length, 0),
+        trustProfiles: data.trustProfiles.length,
+        policies: data.policies.length,
+        settings: data.settings.length,
+        requests: data.history?.requests.length ?? 0,
+        logs: data.history?.logs.length ?? 0,
+        adminLogs: data.history?.adminLogs.length ?? 0,
+    };
+}
+
+function secretHexFromStored(value: string): string {
+    if (!value.startsWith('nsec1')) {
+        return value;
+    }
+    return bytesToHex(nip19Decode(value).data as Uint8Array);
+}
+
+/**
+ * Comparable policy rules, ignoring ids and usage so far
+ */
+function ruleSignature(rule: { method: string; kind: string | null; maxUsageCount: number | null }): string {
+    return `${rule.method}|${rule.kind ?? ''}|${rule.maxUsageCount ?? ''}`;
+}
+
+export interface BackupServiceConfig {
+    configFile: string;
+    /** Running daemon's key service: used for unlocked keys' pubkeys and told about restored keys */
+    keyService?: KeyService;
+    /** Recorded in the manifest */
+    signetVersion?: string;
+}
+
+/**
+ * Service for encrypted backups of a whole Signet install, used by the
+ * `signet backup` / `signet restore` commands and the /backup routes.
+ *
+ * A backup holds the keys (as ncryptsec), the seeds they were derived
+ * from, apps with their signing conditions, trust profiles, policies,
+ * database settings and signet.json settings, and optionally the request,
+ * activity and admin history.
+ * Restoring writes the database in one transaction before touching
+ * signet.json, so a failed restore leaves the install as it was.
+ */
+export class BackupService {
+    private readonly config: BackupServiceConfig;
+
+    constructor(config: BackupServiceConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Create an archive encrypted with `passphrase`
+     */
+    async createBackup(options: { passphrase: string; includeHistory?: boolean }): Promise<{ archive: string; manifest: BackupManifest }> {
+        const { keys: storedKeys, seeds = {}, ...config } = await loadConfig(this.config.configFile);
+        const activeKeys = this.config.keyService?.getActiveKeys() ?? {};
+
+        const apps = await prisma.keyUser.findMany({
+            include: { signingConditions: true, trustProfile: { select: { name: true } } },
+            orderBy: { id: 'asc' },
+        });
+
+        const data: BackupData = {
+            config,
+            seeds,
+            settings: (await prisma.setting.findMany({ orderBy: { key: 'asc' } }))
+                .map(({ key, value }) => ({ key, value })),
+            keys: Object.entries(storedKeys).map(([name, record]) =>
+                this.toBackupKey(name, record, activeKeys[name], options.passphrase)),
+            trustProfiles: (await prisma.trustProfile.findMany({ orderBy: { id: 'asc' } }))
+                .map(({ name, description, kinds, methods }) => ({ name, description, kinds, methods })),
+            policies: (await prisma.policy.findMany({
+                where: { deletedAt: null },
+                include: { rules: true },
+                orderBy: { id: 'asc' },
+            })).map((policy) => ({
+                id: policy.id,
+                name: policy.name,
+                description: policy.description,
+                createdAt: iso(policy.createdAt),
+                expiresAt: iso(policy.expiresAt),
+                rules: policy.rules.map(({ id, method, kind, maxUsageCount, currentUsageCount }) =>
+                    ({ id, method, kind, maxUsageCount, currentUsageCount })),
+            })),
+            apps: apps.map((app) => ({
+                keyName: app.keyName,
+                userPubkey: app.userPubkey,
+                description: app.description,
+                trustLevel: app.trustLevel,
+                trustProfile: app.trustProfile?.name ?? null,
+                nostrconnectRelays: app.nostrconnectRelays,
+                quotas: app.quotas,
+                schedule: app.schedule,
+                createdAt: iso(app.createdAt),
+                lastUsedAt: iso(app.lastUsedAt),
+                revokedAt: iso(app.revokedAt),
+                suspendedAt: iso(app.suspendedAt),
+                suspendUntil: iso(app.suspendUntil),
+                signingConditions: app.signingConditions.map(({ method, kind, content, allowed, policyRuleId, usageCount }) =>
+                    ({ method, kind, content, allowed, policyRuleId, usageCount })),
+            })),
+        };
+
+        if (options.includeHistory) {
+            const refs = new Map<number, AppRef>(apps.map((app) => [app.id, { keyName: app.keyName, userPubkey: app.userPubkey }]));
+            data.history = await this.exportHistory(refs);
+        }
+
+        return sealBackup({
+            createdAt: new Date().toISOString(),
+            signetVersion: this.config.signetVersion,
+            includesHistory: !!data.history,
+            counts: countBackup(data),
+        }, data, options.passphrase);
+    }
+
+    /**
+     * Restore an archive. In merge mode (the default) records already on
+     * this install win, and differing ones are reported as conflicts. Full
+     * mode needs an install without keys or apps and also restores
+     * signet.json settings and history.
+     */
+    async restoreBackup(
+        archive: string,
+        passphrase: string,
+        options: { mode?: RestoreMode; dryRun?: boolean } = {}
+    ): Promise<RestoreReport> {
+        const mode = options.mode ?? 'merge';
+        const dryRun = options.dryRun ?? false;
+        const { manifest, data } = openBackup<BackupData>(archive, passphrase);
+        const config = await loadConfig(this.config.configFile);
+
+        if (mode === 'full') {
+            const appCount = await prisma.keyUser.count();
+            if (Object.keys(config.keys).length > 0 || appCount > 0) {
+                throw new Error('Signet data already exists on this install; restore in merge mode instead');
+            }
+        }
+
+        const report: RestoreReport = {
+            mode,
+            dryRun,
+            manifest,
+            restored: emptyCounts(),
+            unchanged: 0,
+            conflicts: [],
+            notes: [],
+            restartRequired: false,
+        };
+
+        const { seeds: legacySeeds, ...backupConfig } = data.config;
+        const backupSeeds = data.seeds ?? legacySeeds ?? {};
+        const keys = this.planKeys(data.keys, config, passphrase, report);
+        const seeds = this.planSeeds(backupSeeds, config, report);
+        this.checkDerivations(keys, backupSeeds, { ...config.seeds, ...seeds }, report);
+        const configChanges = this.planConfig(backupConfig, config, mode, report);
+
+        try {
+            await prisma.$transaction(async (tx) => {
+                const profileIds = await this.restoreTrustProfiles(tx, data.trustProfiles, report);
+                const ruleIds = await this.restorePolicies(tx, data.policies, report);
+                const appIds = await this.restoreApps(tx, data.apps, profileIds, ruleIds, report);
+                await this.restoreSettings(tx, data.settings, mode, report);
+
+                if (data.history && mode === 'full') {
+                    await this.restoreHistory(tx, data.history, appIds, report);
+                } else if (data.history) {
+                    report.notes.push('History is only restored in full mode, so it was skipped');
+                }
+
+                if (dryRun) {
+                    throw new DryRunRollback();
+                }
+            }, { timeout: 120_000 });
+        } catch (error) {
+            if (!(error instanceof DryRunRollback)) {
+                throw error;
+            }
+        }
+
+        if (report.restartRequired) {
+            report.notes.push('Restart Signet to apply the restored signet.json settings');
+        }
+        if (dryRun) {
+            return report;
+        }
+
+        if (Object.keys(keys).length > 0 || Object.keys(seeds).length > 0 || Object.keys(configChanges).length > 0) {
+            const latest = await loadConfig(this.config.configFile);
+            await saveConfig(this.config.configFile, {
+                ...latest,
+                ...configChanges,
+                keys: { ...keys, ...latest.keys },
+                ...(Object.keys(seeds).length > 0 && { seeds: { ...seeds, ...latest.seeds } }),
+            });
+        }
+        await this.config.keyService?.addRestoredKeys(keys);
+        clearAclCache();
+
+        return report;
+    }
+
+    private toBackupKey(name: string, record: StoredKey, activeSecret: string | undefined, passphrase: string): BackupKey {
+        // Per-key settings restored along with the key
+        const settings = {
+            ...(record.relays?.length ? { relays: record.relays } : {}),
+            ...(record.retired ? { retired: record.retired } : {}),
+            ...(record.derivation ? { derivation: record.derivation } : {}),
+        };
+        const pubkeyOf = (secret: string) => getPublicKey(hexToBytes(secretHexFromStored(secret)));
+
+        if (record.ncryptsec) {
+            return {
+                name,
+                encryption: 'nip49',
+                ncryptsec: record.ncryptsec,
+                ...(activeSecret ? { pubkey: pubkeyOf(activeSecret) } : {}),
+                ...settings,
+            };
+        }
+        if (record.iv && record.data) {
+            return {
+                name,
+                encryption: 'legacy',
+                legacy: { iv: record.iv, data: record.data },
+                ...(activeSecret ? { pubkey: pubkeyOf(activeSecret) } : {}),
+                ...settings,
+            };
+        }
+        if (record.key) {
+            const secretHex = secretHexFromStored(record.key);
+            return {
+                name,
+                encryption: 'none',
+                ncryptsec: encryptNip49(secretHex, passphrase),
+                pubkey: getPublicKey(hexToBytes(secretHex)),
+                ...settings,
+            };
+        }
+        throw new Error(`Key "${name}" has no key material to back up`);
+    }
+
+    /**
+     * signet.json entries for the backed-up keys that aren't here yet
+     */
+    private planKeys(
+        backupKeys: BackupKey[],
+        config: ConfigFile,
+        passphrase: string,
+        report: RestoreReport
+    ): Record<string, StoredKey> {
+        const keys: Record<string, StoredKey> = {};
+
+        for (const backupKey of backupKeys) {
+            let record: StoredKey;
+            if (backupKey.encryption === 'legacy' && backupKey.legacy) {
+                record = { ...backupKey.legacy };
+            } else if (backupKey.encryption === 'none' && backupKey.ncryptsec) {
+                record = { key: nsecEncode(hexToBytes(decryptNip49(backupKey.ncryptsec, passphrase))) };
+            } else if (backupKey.ncryptsec) {
+                record = { ncryptsec: backupKey.ncryptsec };
+            } else {
+                throw new Error(`Invalid backup: key "${backupKey.name}" has no key material`);
+            }
+            if (backupKey.relays?.length) {
+                record.relays = backupKey.relays;
+            }
+            if (backupKey.retired) {
+                record.retired = backupKey.retired;
+            }
+            if (backupKey.derivation) {
+                record.derivation = backupKey.derivation;
+            }
+
+            const local = config.keys[backupKey.name];
+            if (!local) {
+                keys[backupKey.name] = record;
+                report.restored.keys++;
+            } else if (this.sameKeyMaterial(local, record)) {
+                report.unchanged++;
+            } else {
+                report.conflicts.push({
+                    section: 'keys',
+                    name: backupKey.name,
+                    reason: 'A different key is stored under this name; kept the local key',
+                });
+            }
+        }
+
+        return keys;
+    }
+
+    private sameKeyMaterial(a: StoredKey, b: StoredKey): boolean {
+        if (a.ncryptsec || b.ncryptsec) {
+            return a.ncryptsec === b.ncryptsec;
+        }
+        if (a.data || b.data) {
+            return a.data === b.data;
+        }
+        return !!a.key && !!b.key && secretHexFromStored(a.key) === secretHexFromStored(b.key);
+    }
+
+    /**
+     * signet.json entries for the backed-up seeds that aren't here yet
+     */
+    private planSeeds(
+        backupSeeds: Record<string, StoredSeed>,
+        config: ConfigFile,
+        report: RestoreReport
+    ): Record<string, StoredSeed> {
+        const seeds: Record<string, StoredSeed> = {};
+
+        for (const [name, seed] of Object.entries(backupSeeds)) {
+            const local = config.seeds?.[name];
+            if (!local) {
+                seeds[name] = seed;
+                report.restored.seeds++;
+            } else if (this.sameSeed(local, seed)) {
+                report.unchanged++;
+            } else {
+                report.conflicts.push({
+                    section: 'seeds',
+                    name,
+                    reason: 'A different seed is stored under this name; kept the local seed',
+                });
+            }
+        }
+
+        return seeds;
+    }
+
+    private sameSeed(a: StoredSeed, b: StoredSeed): boolean {
+        if (a.data || b.data) {
+            return a.data === b.data;
+        }
+        return !!a.mnemonic && a.mnemonic === b.mnemonic;
+    }
+
+    /**
+     * Notes for restored derived keys whose seed won't be on this install
+     * afterwards, so the key can't be re-derived from it
+     */
+    private checkDerivations(
+        keys: Record<string, StoredKey>,
+        backupSeeds: Record<string, StoredSeed>,
+        seedsAfterRestore: Record<string, StoredSeed>,
+        report: RestoreReport
+    ): void {
+        for (const [name, { derivation }] of Object.entries(keys)) {
+            if (!derivation) {
+                continue;
+            }
+            const backupSeed = backupSeeds[derivation.seed];
+            const seed = seedsAfterRestore[derivation.seed];
+            if (!seed) {
+                report.notes.push(`Key "${name}" was derived from seed "${derivation.seed}", which isn't in the backup or on this install`);
+            } else if (backupSeed && !this.sameSeed(seed, backupSeed)) {
+                report.notes.push(`Key "${name}" was derived from seed "${derivation.seed}", but this install has a different seed under that name`);
+            }
+        }
+    }
+
+    /**
+     * signet.json settings to write: all of them in full mode, only the
+     * missing ones in merge mode
+     */
+    private planConfig(
+        backupConfig: Omit<ConfigFile, 'keys'>,
+        config: ConfigFile,
+        mode: RestoreMode,
+        report: RestoreReport
+    ): Partial<ConfigFile> {
+        const changes: Record<string, unknown> = {};
+        const local = config as unknown as Record<string, unknown>;
+
+        for (const [field, value] of Object.entries(backupConfig)) {
+            if (LOCAL_CONFIG_FIELDS.has(field) || value === undefined || sameJson(local[field], value)) {
+                continue;
+            }
+            if (mode === 'full' || local[field] === undefined) {
+                changes[field] = value;
+            } else {
+                report.conflicts.push({
+                    section: 'config',
+                    name: field,
+                    reason: 'signet.json already has a different value; kept the local one',
+                });
+            }
+        }
+
+        report.restartRequired = Object.keys(changes).length > 0;
+        return changes as Partial<ConfigFile>;
+    }
+
+    /**
+     * Returns the local id of each backed-up profile, by name
+     */
+    private async restoreTrustProfiles(
+        tx: Transaction,
+        profiles: BackupTrustProfile[],
+        report: RestoreReport
+    ): Promise<Map<string, number>> {
+        const ids = new Map<string, number>();
+
+        for (const profile of profiles) {
+            const existing = await tx.trustProfile.findUnique({ where: { name: profile.name } });
+            if (!existing) {
+                const created = await tx.trustProfile.create({ data: profile });
+                ids.set(profile.name, created.id);
+                report.restored.trustProfiles++;
+                continue;
+            }
+
+            // Apps restored with this profile use the local one either way
+            ids.set(profile.name, existing.id);
+            if (existing.kinds === profile.kinds && existing.methods === profile.methods && existing.description === profile.description) {
+                report.unchanged++;
+            } else {
+                report.conflicts.push({
+                    section: 'trustProfiles',
+                    name: profile.name,
+                    reason: 'A different profile has this name; kept the local one for restored apps',
+                });
+            }
+        }
+
+        return ids;
+    }
+
+    /**
+     * Returns the local id of each backed-up policy rule
+     */
+    private async restorePolicies(
+        tx: Transaction,
+        policies: BackupPolicy[],
+        report: RestoreReport
+    ): Promise<Map<number, number>> {
+        const ruleIds = new Map<number, number>();
+
+        for (const policy of policies) {
+            const existing = await tx.policy.findFirst({
+                where: { name: policy.name, deletedAt: null },
+                include: { rules: true },
+            });
+
+            if (existing) {
+                const localRules = new Map(existing.rules.map((rule) => [ruleSignature(rule), rule.id]));
+                const sameRules = existing.rules.length === policy.rules.length
+                    && policy.rules.every((rule) => localRules.has(ruleSignature(rule)));
+
+                if (sameRules) {
+                    for (const rule of policy.rules) {
+                        ruleIds.set(rule.id, localRules.get(ruleSignature(rule))!);
+                    }
+                    report.unchanged++;
+                } else {
+                    report.conflicts.push({
+                        section: 'policies',
+                        name: policy.name,
+                        reason: 'A policy with this name has different rules; kept the local one',
+                    });
+                }
+                continue;
+            }
+
+            const created = await tx.policy.create({
+                data: {
+                    name: policy.name,
+                    description: policy.description,
+                    createdAt: policy.createdAt,
+                    expiresAt: policy.expiresAt,
+                },
+            });
+            for (const rule of policy.rules) {
+                const createdRule = await tx.policyRule.create({
+                    data: {
+                        method: rule.method,
+                        kind: rule.kind,
+                        maxUsageCount: rule.maxUsageCount,
+                        currentUsageCount: rule.currentUsageCount,
+                        policyId: created.id,
+                    },
+                });
+                ruleIds.set(rule.id, createdRule.id);
+            }
+            report.restored.policies++;
+        }
+
+        return ruleIds;
+    }
+
+    /**
+     * Returns the local id of each backed-up app, by `key:pubkey`
+     */
+    private async restoreApps(
+        tx: Transaction,
+        apps: BackupApp[],
+        profileIds: Map<string, number>,
+        ruleIds: Map<number, number>,
+        report: RestoreReport
+    ): Promise<Map<string, number>> {
+        const ids = new Map<string, number>();
+
+        for (const app of apps) {
+            const existing = await tx.keyUser.findUnique({
+                where: { unique_key_user: { keyName: app.keyName, userPubkey: app.userPubkey } },
+                include: { trustProfile: { select: { name: true } } },
+            });
+
+            if (existing) {
+                ids.set(appRefKey(app), existing.id);
+                const same = existing.trustLevel === app.trustLevel
+                    && (existing.trustProfile?.name ?? null) === app.trustProfile
+                    && existing.description === app.description
+                    && !!existing.revokedAt === !!app.revokedAt;
+                if (same) {
+                    report.unchanged++;
+                } else {
+                    report.conflicts.push({
+                        section: 'apps',
+                        name: appRefKey(app),
+                        reason: 'This app is already connected with different settings; kept the local permissions',
+                    });
+                }
+                continue;
+            }
+
+            // A policy grant whose policy wasn't restored is dropped rather
+            // than restored without its usage limit
+            const conditions = app.signingConditions
+                .filter((condition) => condition.policyRuleId === null || ruleIds.has(condition.policyRuleId))
+                .map((condition) => ({
+                    method: condition.method,
+                    kind: condition.kind,
+                    content: condition.content,
+                    allowed: condition.allowed,
+                    keyUserKeyName: app.keyName,
+                    policyRuleId: condition.policyRuleId === null ? null : ruleIds.get(condition.policyRuleId)!,
+                    usageCount: condition.usageCount ?? 0,
+                }));
+
+            const created = await tx.keyUser.create({
+                data: {
+                    keyName: app.keyName,
+                    userPubkey: app.userPubkey,
+                    description: app.description,
+                    trustLevel: app.trustLevel,
+                    trustProfileId: app.trustProfile ? profileIds.get(app.trustProfile) ?? null : null,
+                    nostrconnectRelays: app.nostrconnectRelays,
+                    quotas: app.quotas,
+                    schedule: app.schedule,
+                    createdAt: app.createdAt,
+                    lastUsedAt: app.lastUsedAt,
+                    revokedAt: app.revokedAt,
+                    suspendedAt: app.suspendedAt,
+                    suspendUntil: app.suspendUntil,
+                    signingConditions: { create: conditions },
+                },
+            });
+            ids.set(appRefKey(app), created.id);
+            report.restored.apps++;
+            report.restored.signingConditions += conditions.length;
+        }
+
+        return ids;
+    }
+
+    private async restoreSettings(
+        tx: Transaction,
+        settings: Array<{ key: string; value: string }>,
+        mode: RestoreMode,
+        report: RestoreReport
+    ): Promise<void> {
+        for (const { key, value } of settings) {
+            const existing = await tx.setting.findUnique({ where: { key } });
+            if (existing?.value === value) {
+                report.unchanged++;
+            } else if (!existing || mode === 'full') {
+                await tx.setting.upsert({ where: { key }, update: { value }, create: { key, value } });
+                report.restored.settings++;
+            } else {
+                report.conflicts.push({
+                    section: 'settings',
+                    name: key,
+                    reason: 'This setting already has a different value; kept the local one',
+                });
+            }
+        }
+    }
+
+    private async restoreHistory(
+        tx: Transaction,
+        history: NonNullable<BackupData['history']>,
+        appIds: Map<string, number>,
+        report: RestoreReport
+    ): Promise<void> {
+        const appId = (ref: AppRef | null) => (ref ? appIds.get(appRefKey(ref)) ?? null : null);
+
+        for (let i = 0; i < history.requests.length; i += HISTORY_BATCH_SIZE) {
+            const batch = history.requests.slice(i, i + HISTORY_BATCH_SIZE);
+            await tx.request.createMany({
+                data: batch.map(({ app, ...request }) => ({ ...request, keyUserId: appId(app) })),
+            });
+        }
+        for (let i = 0; i < history.logs.length; i += HISTORY_BATCH_SIZE) {
+            const batch = history.logs.slice(i, i + HISTORY_BATCH_SIZE);
+            await tx.log.createMany({
+                data: batch.map(({ app, ...log }) => ({ ...log, keyUserId: appId(app) })),
+            });
+        }
+        for (let i = 0; i < history.adminLogs.length; i += HISTORY_BATCH_SIZE) {
+            const batch = history.adminLogs.slice(i, i + HISTORY_BATCH_SIZE);
+            await tx.adminLog.createMany({
+                data: batch.map(({ app, ...entry }) => ({ ...entry, appId: appId(app) })),
+            });
+        }
+
+        report.restored.requests = history.requests.length;
+        report.restored.logs = history.logs.length;
+        report.restored.adminLogs = history.adminLogs.length;
+    }
+
+    private async exportHistory(apps: Map<number, AppRef>): Promise<NonNullable<BackupData['history']>> {
+        const ref = (id: number | null) => (id !== null ? apps.get(id) ?? null : null);
+
+        const [requests, logs, adminLogs] = await Promise.all([
+            // Pending requests can't be answered from another install
+            prisma.request.findMany({ where: { allowed: { not: null } }, orderBy: { createdAt: 'asc' } }),
+            prisma.log.findMany({ orderBy: { id: 'asc' } }),
+            prisma.adminLog.findMany({ orderBy: { id: 'asc' } }),
+        ]);
+
+        return {
+            requests: requests.map((request) => ({
+                id: request.id,
+                keyName: request.keyName,
+                createdAt: iso(request.createdAt),
+                processedAt: iso(request.processedAt),
+                requestId: request.requestId,
+                remotePubkey: request.remotePubkey,
+                method: request.method,
+                params: request.params,
+                allowed: request.allowed,
+                autoApproved: request.autoApproved,
+                approvalType: request.approvalType,
+                quorumThreshold: request.quorumThreshold,
+                deliveryStatus: request.deliveryStatus,
+                deliveryAt: iso(request.deliveryAt),
+                app: ref(request.keyUserId),
+            })),
+            logs: logs.map((log) => ({
+                timestamp: iso(log.timestamp),
+                type: log.type,
+                method: log.method,
+                params: log.params,
+                autoApproved: log.autoApproved,
+                approvalType: log.approvalType,
+                keyName: log.keyName,
+                remotePubkey: log.remotePubkey,
+                requestId: log.requestId,
+                deliveryStatus: log.deliveryStatus,
+                app: ref(log.keyUserId),
+            })),
+            adminLogs: adminLogs.map((entry) => ({
+                timestamp: iso(entry.timestamp),
+                eventType: entry.eventType,
+                keyName: entry.keyName,
+                appName: entry.appName,
+                clientName: entry.clientName,
+                clientVersion: entry.clientVersion,
+                ipAddress: entry.ipAddress,
+                command: entry.command,
+                commandResult: entry.commandResult,
+                actor: entry.actor,
+                app: ref(entry.appId),
+            })),
+        };
+    }
+}
+
+let backupService: BackupService | null = null;
+
+export function initBackupService(config: BackupServiceConfig): BackupService {
+    backupService = new BackupService(config);
+    return backupService;
+}
+
+export function getBackupService(): BackupService {
+    if (!backupService) {
+        throw new Error('BackupService not initialized');
+    }
+    return backupService;
+}
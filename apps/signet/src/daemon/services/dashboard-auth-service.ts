@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import { verifyEvent, type Event } from 'nostr-tools/pure';
+import type { AuthChallengeResponse, DashboardSession, LoginMethod, SignedLoginEvent } from '@signet/types';
+import prisma from '../../db.js';
+import { TTLCache } from '../lib/ttl-cache.js';
+import { logger } from '../lib/logger.js';
+import { toErrorMessage } from '../lib/errors.js';
+import { checkRouteAccess, type RouteContext } from '../lib/access.js';
+import { OWNER_ACCESS, parseOperatorPubkey, type DashboardAccess } from '../lib/operators.js';
+import type { KeyService } from './key-service.js';
+import type { OperatorService } from './operator-service.js';
+import {
+    LOGIN_CHALLENGE_TTL_MS,
+    LOGIN_EVENT_MAX_AGE_SECONDS,
+    SESSION_CACHE_TTL_MS,
+    SESSION_EXPIRY_MS,
+    SESSION_TOUCH_INTERVAL_MS,
+} from '../constants.js';
+
+/** NIP-98 HTTP auth event kind */
+export const HTTP_AUTH_KIND = 27235;
+
+/** Path the login event's `u` tag must point at */
+export const LOGIN_PATH = '/auth/login';
+
+type DashboardSessionRecord = {
+    id: string;
+    pubkey: string;
+    method: string;
+    userAgent: string | null;
+    createdAt: Date;
+    expiresAt: Date;
+    lastSeenAt: Date;
+    revokedAt: Date | null;
+};
+
+export interface DashboardAuthServiceConfig {
+    /** Admin npubs (or hex pubkeys) allowed to log in */
+    adminNpubs: string[];
+    keyService: KeyService;
+    /** Operators who may log in with a limited role */
+    operatorService?: OperatorService;
+}
+
+export interface LoginResult {
+    pubkey: string;
+    sessionId: string;
+}
+
+function getTag(event: Pick<Event, 'tags'>, name: string): string | undefined {
+    return event.tags.find((tag) => tag[0] === name)?.[1];
+}
+
+export type RouteAuthResult = { ok: true; keyNames: string[] | null } | { ok: false; status: 403; error: string };
+
+function isSignedEvent(value: unknown): value is SignedLoginEvent {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const event = value as Record<string, unknown>;
+    return typeof event.id === 'string'
+        && typeof event.pubkey === 'string'
+        && typeof event.created_at === 'number'
+        && typeof event.kind === 'number'
+        && typeof event.content === 'string'
+        && typeof event.sig === 'string'
+        && Array.isArray(event.tags)
+        && event.tags.every((tag) => Array.isArray(tag) && tag.every((item) => typeof item === 'string'));
+}
+
+/**
+ * Service for dashboard logins.
+ *
+ * The client asks for a one-time challenge and returns it inside a signed
+ * NIP-98 HTTP auth event (kind 27235, `u` = the login URL, `method` = POST).
+ * A valid event from an allow-listed admin (owner) or an operator creates a
+ * session; the JWT in the auth cookie carries the session id, so sessions
+ * can be listed and revoked without rotating the JWT secret. Operators are
+ * held to their role on every request (see authorize()).
+ */
+export class DashboardAuthService {
+    private readonly adminPubkeys: Set<string>;
+    private readonly keyService: KeyService;
+    private readonly operatorService: OperatorService | null;
+    private readonly challenges = new TTLCache<true>('login-challenges', {
+        ttlMs: LOGIN_CHALLENGE_TTL_MS,
+        maxSize: 1000,
+    });
+    // Session id -> pubkey for sessions known to be active
+    private readonly activeSessions = new TTLCache<string>('dashboard-sessions', {
+        ttlMs: SESSION_CACHE_TTL_MS,
+        maxSize: 1000,
+    });
+    private readonly lastTouched = new Map<string, number>();
+
+    constructor(config: DashboardAuthServiceConfig) {
+        this.keyService = config.keyService;
+        this.operatorService = config.operatorService ?? null;
+        this.adminPubkeys = new Set();
+        for (const npub of config.adminNpubs) {
+            const pubkey = parseOperatorPubkey(npub);
+            if (pubkey) {
+                this.adminPubkeys.add(pubkey);
+            } else {
+                logger.warn('Ignoring invalid admin npub', { npub });
+            }
+        }
+    }
+
+    /**
+     * Whether anyone can log in at all
+     */
+    get loginEnabled(): boolean {
+        return this.adminPubkeys.size > 0;
+    }
+
+    isAdmin(pubkey: string): boolean {
+        return this.adminPubkeys.has(pubkey);
+    }
+
+    /**
+     * What a pubkey may do: everything for owners, their role for operators,
+     * or null if it may not log in at all
+     */
+    getAccess(pubkey: string): DashboardAccess | null {
+        if (this.isAdmin(pubkey)) {
+            return OWNER_ACCESS;
+        }
+        return this.operatorService?.getAccess(pubkey) ?? null;
+    }
+
+    /**
+     * Check a logged-in pubkey against the route it is calling
+     */
+    async authorize(pubkey: string, context: RouteContext): Promise<RouteAuthResult> {
+        const access = this.getAccess(pubkey);
+        if (!access) {
+            return { ok: false, status: 403, error: 'You no longer have access to this dashboard' };
+        }
+        if (access.role === 'owner') {
+            return { ok: true, keyNames: null };
+        }
+
+        const denial = await checkRouteAccess(access, context);
+        if (denial?.reason === 'endpoint') {
+            return { ok: false, status: 403, error: 'Only owners can do this' };
+        }
+        if (denial?.reason === 'scope') {
+            return { ok: false, status: 403, error: `The ${access.role} role cannot do this` };
+        }
+        if (denial?.reason === 'key') {
+            return { ok: false, status: 403, error: 'You are not allowed to use this key' };
+        }
+        return { ok: true, keyNames: access.keyNames };
+    }
+
+    createChallenge(): AuthChallengeResponse {
+        const challenge = crypto.randomBytes(32).toString('hex');
+        this.challenges.set(challenge, true);
+        return {
+            challenge,
+            expiresAt: new Date(Date.now() + LOGIN_CHALLENGE_TTL_MS).toISOString(),
+        };
+    }
+
+    private consumeChallenge(challenge: string): boolean {
+        if (!this.challenges.has(challenge)) {
+            return false;
+        }
+        this.challenges.delete(challenge);
+        return true;
+    }
+
+    /**
+     * Check a signed login event and return the admin pubkey it proves.
+     * The `u` tag must point at the login endpoint on one of `origins`, so an
+     * event signed for another site can't be replayed here.
+     * The challenge is consumed whether or not the rest of the event checks out.
+     */
+    verifyLoginEvent(event: unknown, origins: string[]): string {
+        if (!isSignedEvent(event)) {
+            throw new Error('Login failed: login event is required');
+        }
+
+        const challenge = getTag(event, 'challenge');
+        if (!challenge || !this.consumeChallenge(challenge)) {
+            throw new Error('Login failed: unknown or expired challenge');
+        }
+
+        return this.checkLoginEvent(event, origins);
+    }
+
+    /**
+     * The checks of verifyLoginEvent after its challenge has been consumed
+     */
+    private checkLoginEvent(event: Event, origins: string[]): string {
+        if (event.kind !== HTTP_AUTH_KIND) {
+            throw new Error(`Login failed: expected a kind ${HTTP_AUTH_KIND} event`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (Math.abs(now - event.created_at) > LOGIN_EVENT_MAX_AGE_SECONDS) {
+            throw new Error('Login failed: event timestamp is out of range');
+        }
+
+        if (getTag(event, 'method')?.toUpperCase() !== 'POST') {
+            throw new Error('Login failed: method tag must be POST');
+        }
+
+        let url: URL | null = null;
+        try {
+            url = new URL(getTag(event, 'u') ?? '');
+        } catch {
+            // Handled below
+        }
+        if (!url?.pathname.replace(/\/+$/, '').endsWith(LOGIN_PATH)) {
+            throw new Error(`Login failed: u tag must point at ${LOGIN_PATH}`);
+        }
+        if (!origins.includes(url.origin)) {
+            throw new Error('Login failed: u tag points at another host');
+        }
+
+        if (!verifyEvent(event)) {
+            throw new Error('Login failed: bad signature');
+        }
+
+        if (!this.getAccess(event.pubkey)) {
+            throw new Error('Login failed: pubkey is not an admin or operator');
+        }
+
+        return event.pubkey;
+    }
+
+    /**
+     * Log in with a signed NIP-98 event from a NIP-07 extension or NIP-46 bunker
+     */
+    async loginWithEvent(event: unknown, origins: string[], method: LoginMethod, userAgent?: string): Promise<LoginResult> {
+        const pubkey = this.verifyLoginEvent(event, origins);
+        return this.createSession(pubkey, method, userAgent);
+    }
+
+    /**
+     * Log in with one of Signet's own keys. The key signs the challenge
+     * server-side after being decrypted with its passphrase, so the same
+     * checks apply as for an externally signed event.
+     *
+     * The challenge is consumed before the key is decrypted, and every
+     * failure gets the same error, so the endpoint can't be used to test
+     * passphrases. The reason is only logged.
+     */
+    async loginWithKey(
+        challenge: string,
+        keyName: string,
+        passphrase: string,
+        loginUrl: string,
+        userAgent?: string
+    ): Promise<LoginResult> {
+        if (!challenge || !keyName || !passphrase) {
+            throw new Error('Challenge, key name and passphrase are required');
+        }
+
+        let pubkey: string;
+        try {
+            if (!this.consumeChallenge(challenge)) {
+                throw new Error('unknown or expired challenge');
+            }
+            const event = this.keyService.signWithPassphrase(keyName, passphrase, {
+                kind: HTTP_AUTH_KIND,
+                created_at: Math.floor(Date.now() / 1000),
+                content: '',
+                tags: [
+                    ['u', loginUrl],
+                    ['method', 'POST'],
+                    ['challenge', challenge],
+                ],
+            });
+            // The server built the URL itself, so its origin is the one to expect
+            pubkey = this.checkLoginEvent(event, [new URL(loginUrl).origin]);
+        } catch (error) {
+            logger.warn('Dashboard key login failed', { keyName, error: toErrorMessage(error) });
+            throw new Error('Login failed: wrong key name or passphrase');
+        }
+
+        return this.createSession(pubkey, 'key', userAgent);
+    }
+
+    private async createSession(pubkey: string, method: LoginMethod, userAgent?: string): Promise<LoginResult> {
+        const session = await prisma.dashboardSession.create({
+            data: {
+                pubkey,
+                method,
+                userAgent: userAgent?.slice(0, 256) ?? null,
+                expiresAt: new Date(Date.now() + SESSION_EXPIRY_MS),
+            },
+        });
+        this.activeSessions.set(session.id, pubkey);
+        logger.info('Dashboard login', { pubkey, method });
+        return { pubkey, sessionId: session.id };
+    }
+
+    /**
+     * Whether a session is still valid for the pubkey in its token.
+     * Results are cached briefly; revoking clears the cache entry.
+     */
+    async isSessionActive(sessionId: string, pubkey: string): Promise<boolean> {
+        const cached = this.activeSessions.get(sessionId);
+        if (cached !== undefined) {
+            this.touch(sessionId);
+            return cached === pubkey;
+        }
+
+        const session = await prisma.dashboardSession.findUnique({ where: { id: sessionId } });
+        if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+            return false;
+        }
+        // An admin removed from the allow-list loses their sessions on restart
+        if (!this.getAccess(session.pubkey)) {
+            return false;
+        }
+
+        this.activeSessions.set(sessionId, session.pubkey);
+        this.touch(sessionId);
+        return session.pubkey === pubkey;
+    }
+
+    private touch(sessionId: string): void {
+        const now = Date.now();
+        if (now - (this.lastTouched.get(sessionId) ?? 0) < SESSION_TOUCH_INTERVAL_MS) {
+            return;
+        }
+        this.lastTouched.set(sessionId, now);
+        prisma.dashboardSession.update({
+            where: { id: sessionId },
+            data: { lastSeenAt: new Date(now) },
+        }).catch((error: unknown) => {
+            logger.warn('Failed to update session activity', { sessionId, error: String(error) });
+        });
+    }
+
+    async listSessions(currentSessionId?: string): Promise<DashboardSession[]> {
+        const sessions = await prisma.dashboardSession.findMany({
+            where: { revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastSeenAt: 'desc' },
+        });
+        return sessions
+            .filter((session) => this.getAccess(session.pubkey) !== null)
+            .map((session) => this.toSession(session, currentSessionId));
+    }
+
+    async revokeSession(id: string): Promise<void> {
+        const session = await prisma.dashboardSession.findUnique({ where: { id } });
+        if (!session || session.revokedAt) {
+            throw new Error('Session not found');
+        }
+
+        await prisma.dashboardSession.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+        });
+        this.activeSessions.delete(id);
+        this.lastTouched.delete(id);
+        logger.info('Dashboard session revoked', { pubkey: session.pubkey });
+    }
+
+    private toSession(session: DashboardSessionRecord, currentSessionId?: string): DashboardSession {
+        return {
+            id: session.id,
+            pubkey: session.pubkey,
+            method: session.method as LoginMethod,
+            userAgent: session.userAgent,
+            createdAt: session.createdAt.toISOString(),
+            expiresAt: session.expiresAt.toISOString(),
+            lastSeenAt: session.lastSeenAt.toISOString(),
+            current: session.id === currentSessionId,
+        };
+    }
+}
+
+let dashboardAuthService: DashboardAuthService | null = null;
+
+export function getDashboardAuthService(): DashboardAuthService {
+    if (!dashboardAuthService) {
+        throw new Error('DashboardAuthService not initialized');
+    }
+    return dashboardAuthService;
+}
+
+export function setDashboardAuthService(service: DashboardAuthService): void {
+    dashboardAuthService = service;
+}
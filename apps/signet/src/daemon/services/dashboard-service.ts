@@ -51,7 +51,11 @@ export class DashboardService {
         };
     }
 
-    async getDashboardData(): Promise<DashboardData> {
+    /**
+     * Stats, recent activity and hourly activity. The activity feed is limited
+     * to `keyNames` for key-limited callers; stats are counts across all keys.
+     */
+    async getDashboardData(keyNames: string[] | null = null): Promise<DashboardData> {
         const totalKeys = Object.keys(this.config.allKeys).length;
         const activeKeys = this.config.getActiveKeyCount();
 
@@ -72,9 +76,9 @@ export class DashboardService {
             requestRepository.countPending(),
             logRepository.countSince(yesterday),
             logRepository.getHourlyActivityRaw(),
-            logRepository.findRecent(5),
-            adminLogRepository.findRecent(5),
-            requestRepository.findMany({ status: 'pending', limit: 5, offset: 0 }),
+            logRepository.findRecent(5, keyNames),
+            adminLogRepository.findRecent(5, keyNames),
+            requestRepository.findMany({ status: 'pending', limit: 5, offset: 0, keyNames }),
         ]);
 
         // Convert to activity entries
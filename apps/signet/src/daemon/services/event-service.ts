@@ -1,5 +1,5 @@
 import createDebug from 'debug';
-import type { PendingRequest, ConnectedApp, DashboardStats, KeyInfo, RelayStatusResponse, ActivityEntry, LogEntry, HealthStatus } from '@signet/types';
+import type { PendingRequest, ConnectedApp, DashboardStats, KeyInfo, RelayStatusResponse, ActivityEntry, LogEntry, HealthStatus, QuotaHit, RequestQuorum, ResponseDelivery, ScheduledBackupStatus } from '@signet/types';
 import type { AdminActivityEntry } from '../repositories/admin-log-repository.js';
 import { getDashboardService } from './dashboard-service.js';
 import { logger } from '../lib/logger.js';
@@ -23,10 +23,13 @@ export type ServerEvent =
     | { type: 'request:denied'; requestId: string; activity: ActivityEntry }
     | { type: 'request:expired'; requestId: string }
     | { type: 'request:auto_approved'; activity: ActivityEntry }
+    | { type: 'request:quorum'; requestId: string; quorum: RequestQuorum }
+    | { type: 'request:delivery'; requestId: string; delivery: ResponseDelivery }
     | { type: 'app:connected'; app: ConnectedApp }
     | { type: 'app:revoked'; appId: number }
     | { type: 'app:updated'; app: ConnectedApp }
     | { type: 'apps:updated' }
+    | { type: 'app:quota_exceeded'; appId: number; appName: string | null; keyName: string; hit: QuotaHit }
     | { type: 'key:created'; key: KeyInfo }
     | { type: 'key:unlocked'; keyName: string }
     | { type: 'key:locked'; keyName: string }
@@ -41,6 +44,8 @@ export type ServerEvent =
     | { type: 'deadman:updated'; status: DeadManSwitchStatus }
     | { type: 'log:entry'; entry: LogEntry }
     | { type: 'health:updated'; health: HealthStatus }
+    | { type: 'backup:completed'; status: ScheduledBackupStatus }
+    | { type: 'backup:failed'; status: ScheduledBackupStatus }
     | { type: 'ping' };
 
 export type EventCallback = (event: ServerEvent) => void;
@@ -106,6 +111,20 @@ export class EventService {
         this.emit({ type: 'request:denied', requestId, activity });
     }
 
+    /**
+     * Emit a request:quorum event (an approval was recorded but the quorum isn't met yet)
+     */
+    emitRequestQuorum(requestId: string, quorum: RequestQuorum): void {
+        this.emit({ type: 'request:quorum', requestId, quorum });
+    }
+
+    /**
+     * Emit a request:delivery event (the response was published, or failed to be)
+     */
+    emitRequestDelivery(requestId: string, delivery: ResponseDelivery): void {
+        this.emit({ type: 'request:delivery', requestId, delivery });
+    }
+
     /**
      * Emit a request:expired event
      */
@@ -190,6 +209,13 @@ export class EventService {
         this.emit({ type: 'apps:updated' });
     }
 
+    /**
+     * Emit an app:quota_exceeded event when an app trips one of its rate limits
+     */
+    emitAppQuotaExceeded(appId: number, appName: string | null, keyName: string, hit: QuotaHit): void {
+        this.emit({ type: 'app:quota_exceeded', appId, appName, keyName, hit });
+    }
+
     /**
      * Emit a key:renamed event
      */
@@ -245,6 +271,20 @@ export class EventService {
     emitHealthUpdated(health: HealthStatus): void {
         this.emit({ type: 'health:updated', health });
     }
+
+    /**
+     * Emit a backup:completed event when a scheduled snapshot was written and verified
+     */
+    emitBackupCompleted(status: ScheduledBackupStatus): void {
+        this.emit({ type: 'backup:completed', status });
+    }
+
+    /**
+     * Emit a backup:failed event when a scheduled snapshot could not be written or verified
+     */
+    emitBackupFailed(status: ScheduledBackupStatus): void {
+        this.emit({ type: 'backup:failed', status });
+    }
 }
 
 // Singleton instance for global access
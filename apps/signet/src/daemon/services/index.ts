@@ -2,12 +2,22 @@ export { KeyService, type KeyServiceConfig, type ActiveKeyMap } from './key-serv
 export { RequestService, type RequestServiceConfig, type RequestQueryParams } from './request-service.js';
 export { AppService, appService } from './app-service.js';
 export { DashboardService, type DashboardServiceConfig, type DashboardData, type MixedActivityEntry, getDashboardService, setDashboardService } from './dashboard-service.js';
+export { DashboardAuthService, getDashboardAuthService, setDashboardAuthService, type DashboardAuthServiceConfig, type RouteAuthResult } from './dashboard-auth-service.js';
+export { OperatorService, getOperatorService, setOperatorService } from './operator-service.js';
+export { ApiTokenService, getApiTokenService, setApiTokenService, type ApiTokenAuthResult } from './api-token-service.js';
+export { WebhookService, getWebhookService, setWebhookService } from './webhook-service.js';
+export { MetricsService, getMetricsService, setMetricsService, type MetricsServiceConfig } from './metrics-service.js';
 export { RelayService } from './relay-service.js';
 export { PublishLogger } from './publish-logger.js';
 export { EventService, getEventService, setEventService, emitCurrentStats, emitCurrentHealth, setHealthStatusGetter, type ServerEvent, type EventCallback, type DeadManSwitchStatus } from './event-service.js';
 export { ConnectionTokenService, getConnectionTokenService, setConnectionTokenService, type ConnectionTokenResult } from './connection-token-service.js';
+export { PolicyService, getPolicyService, setPolicyService } from './policy-service.js';
+export { TrustProfileService, getTrustProfileService, setTrustProfileService } from './trust-profile-service.js';
+export { QuorumService, getQuorumService, setQuorumService } from './quorum-service.js';
 export { AdminCommandService } from './admin-command-service.js';
 export { NostrconnectService, initNostrconnectService, getNostrconnectService, type NostrconnectServiceConfig } from './nostrconnect-service.js';
 export { DeadManSwitchService, getDeadManSwitchService, setDeadManSwitchService, initDeadManSwitchService, type DeadManSwitchServiceConfig } from './dead-man-switch-service.js';
 export { TrustScoreService } from './trust-score-service.js';
 export { SystemService, initSystemService, getSystemService, type RemoteAccessStatus } from './system-service.js';
+export { BackupService, initBackupService, getBackupService, type BackupServiceConfig } from './backup-service.js';
+export { ScheduledBackupService, initScheduledBackupService, getScheduledBackupService, type ScheduledBackupServiceConfig } from './scheduled-backup-service.js';
@@ -1,14 +1,18 @@
-import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { generateSecretKey, getPublicKey, finalizeEvent, type Event, type EventTemplate } from 'nostr-tools/pure';
 import { npubEncode, nsecEncode, decode as nip19Decode } from 'nostr-tools/nip19';
 import { hexToBytes, bytesToHex } from '../lib/hex.js';
 import { toErrorMessage } from '../lib/errors.js';
 import { logger } from '../lib/logger.js';
-import type { KeyInfo, KeySummary, EncryptionFormat } from '@signet/types';
-import type { StoredKey } from '../../config/types.js';
+import type { KeyInfo, KeySummary, EncryptionFormat, RotateKeyResult, SeedInfo, CreateSeedResult } from '@signet/types';
+import type { KeyDerivation, StoredKey, StoredSeed } from '../../config/types.js';
 import { encryptSecret, decryptSecret, encryptNip49, decryptNip49, isNcryptsec } from '../../config/keyring.js';
 import { loadConfig, saveConfig } from '../../config/config.js';
 import { keyRepository, appRepository } from '../repositories/index.js';
-import { createSkeletonProfile } from '../lib/profile.js';
+import { copyProfile, createSkeletonProfile } from '../lib/profile.js';
+import { publishMigration, type MigrationOptions } from '../lib/key-migration.js';
+import { combineKeyShares, splitKey, validateShareCounts } from '../lib/shamir.js';
+import { deriveSeedKey, generateMnemonic, normalizeMnemonic } from '../lib/seed.js';
+import { validateRelays } from '../lib/validation.js';
 import { getEventService } from './event-service.js';
 
 /**
@@ -27,6 +31,52 @@ function getEncryptionFormat(record: StoredKey): EncryptionFormat {
     return 'none';
 }
 
+/**
+ * Carry per-key settings over when a key's secret material is re-encrypted
+ */
+function keepKeySettings(previous: StoredKey, next: StoredKey): StoredKey {
+    return {
+        ...next,
+        ...(previous.relays && { relays: previous.relays }),
+        ...(previous.retired && { retired: previous.retired }),
+        ...(previous.derivation && { derivation: previous.derivation }),
+    };
+}
+
+/**
+ * Get a seed's mnemonic, decrypting it if needed
+ */
+function readMnemonic(seed: StoredSeed, passphrase: string | undefined): string {
+    if (seed.mnemonic) {
+        return seed.mnemonic;
+    }
+    if (!seed.iv || !seed.data) {
+        throw new Error('No mnemonic found for seed');
+    }
+    if (!passphrase) {
+        throw new Error('Seed passphrase is required');
+    }
+    try {
+        return decryptSecret({ iv: seed.iv, data: seed.data }, passphrase);
+    } catch {
+        throw new Error('Invalid passphrase for seed');
+    }
+}
+
+/**
+ * Trim and de-duplicate a relay list, checking each URL
+ */
+function normalizeKeyRelays(relays: string[]): string[] {
+    const normalized = Array.from(new Set(relays.map(relay => relay.trim()).filter(Boolean)));
+    if (normalized.length > 0) {
+        const result = validateRelays(normalized);
+        if (!result.valid) {
+            throw new Error(result.error);
+        }
+    }
+    return normalized;
+}
+
 export type ActiveKeyMap = Record<string, string>;
 
 /**
@@ -41,13 +91,22 @@ export type OnKeyActivatedCallback = (keyName: string, secret: string) => Promis
  */
 export type OnKeyLockedCallback = (keyName: string) => void;
 
+/**
+ * Callback invoked when a key's relay set changes.
+ * Used to restart the bunker backend on the new relays.
+ */
+export type OnKeyRelaysChangedCallback = (keyName: string, relays: string[]) => Promise<void>;
+
 export interface KeyServiceConfig {
     configFile: string;
     allKeys: Record<string, StoredKey>;
     nostrRelays: string[];
+    /** Shared relays currently in use, which failover may change (defaults to nostrRelays) */
+    getSharedRelays?: () => string[];
     adminSecret?: string;
     onKeyActivated?: OnKeyActivatedCallback;
     onKeyLocked?: OnKeyLockedCallback;
+    onKeyRelaysChanged?: OnKeyRelaysChangedCallback;
 }
 
 export class KeyService {
@@ -79,10 +138,90 @@ export class KeyService {
         this.config.onKeyLocked = callback;
     }
 
+    /**
+     * Set the callback for when a key's relay set changes.
+     * Used to move the bunker backend onto the new relays.
+     */
+    setOnKeyRelaysChanged(callback: OnKeyRelaysChangedCallback): void {
+        this.config.onKeyRelaysChanged = callback;
+    }
+
+    /**
+     * Relays a key listens on and advertises: its own set, or the shared nostr.relays.
+     */
+    getKeyRelays(keyName: string): string[] {
+        const record = this.config.allKeys[keyName];
+        if (!record) {
+            throw new Error('Key not found');
+        }
+        return record.relays?.length ? [...record.relays] : this.getSharedRelays();
+    }
+
+    private getSharedRelays(): string[] {
+        return this.config.getSharedRelays?.() ?? [...this.config.nostrRelays];
+    }
+
+    /**
+     * Which active keys listen on each relay.
+     */
+    getRelayKeys(): Map<string, string[]> {
+        const relayKeys = new Map<string, string[]>();
+        for (const keyName of Object.keys(this.activeKeys)) {
+            if (!this.config.allKeys[keyName]) {
+                continue;
+            }
+            for (const url of this.getKeyRelays(keyName)) {
+                relayKeys.set(url, [...(relayKeys.get(url) ?? []), keyName]);
+            }
+        }
+        return relayKeys;
+    }
+
+    /**
+     * Replace a key's relay set. An empty list returns the key to the shared nostr.relays.
+     */
+    async setKeyRelays(keyName: string, relays: string[]): Promise<string[]> {
+        const record = this.config.allKeys[keyName];
+        if (!record) {
+            throw new Error('Key not found');
+        }
+
+        const normalized = normalizeKeyRelays(relays);
+        const newRecord: StoredKey = { ...record, relays: normalized };
+        if (normalized.length === 0) {
+            delete newRecord.relays;
+        }
+
+        // Save to config
+        const config = await loadConfig(this.config.configFile);
+        config.keys[keyName] = newRecord;
+        await saveConfig(this.config.configFile, config);
+
+        // Update in-memory
+        this.config.allKeys[keyName] = newRecord;
+
+        const effective = this.getKeyRelays(keyName);
+        if (this.activeKeys[keyName] && this.config.onKeyRelaysChanged) {
+            await this.config.onKeyRelaysChanged(keyName, effective);
+        }
+
+        // Emit event
+        getEventService().emitKeyUpdated(keyName);
+
+        return effective;
+    }
+
     isKeyActive(keyName: string): boolean {
         return !!this.activeKeys[keyName];
     }
 
+    /**
+     * Check if a key has been rotated out in favour of a successor
+     */
+    isKeyRetired(keyName: string): boolean {
+        return !!this.config.allKeys[keyName]?.retired;
+    }
+
     /**
      * Get the secret (nsec) for an active key.
      * Returns null if the key is not active.
@@ -184,14 +323,43 @@ export class KeyService {
         passphrase?: string;
         confirmPassphrase?: string;
         nsec?: string;
+        /** Shamir shares to recover the key from, instead of an nsec */
+        shares?: string[];
+        /** Stored seed to derive the key from, instead of an nsec */
+        seed?: string;
+        seedPassphrase?: string;
+        /** NIP-06 account index (defaults to the seed's next index) */
+        derivationIndex?: number;
         encryption?: EncryptionFormat;
+        relays?: string[];
     }): Promise<KeyInfo> {
-        const { keyName, passphrase, confirmPassphrase, nsec, encryption = 'none' } = options;
+        const { keyName, passphrase, confirmPassphrase, encryption = 'none' } = options;
+        let { nsec } = options;
 
         if (this.config.allKeys[keyName]) {
             throw new Error('A key with this name already exists');
         }
 
+        const keyRelays = normalizeKeyRelays(options.relays ?? []);
+
+        if (options.shares && options.shares.length > 0) {
+            if (nsec) {
+                throw new Error('Provide either an nsec or shares, not both');
+            }
+            nsec = nsecEncode(combineKeyShares(options.shares));
+        }
+
+        // Derived keys are stored like imported ones, plus where they came from
+        let derivation: KeyDerivation | undefined;
+        if (options.seed) {
+            if (nsec) {
+                throw new Error('Provide only one of an nsec, shares or a seed');
+            }
+            const derived = await this.deriveFromSeed(options.seed, options.seedPassphrase, options.derivationIndex);
+            nsec = nsecEncode(derived.secret);
+            derivation = derived.derivation;
+        }
+
         // Check if importing an ncryptsec (already encrypted) - passphrase is for decryption, not new encryption
         const isImportingNcryptsec = nsec && isNcryptsec(nsec);
 
@@ -237,7 +405,7 @@ export class KeyService {
             secretKeyBytes = generateSecretKey();
             secretHex = bytesToHex(secretKeyBytes);
             try {
-                await createSkeletonProfile(secretKeyBytes, this.config.nostrRelays);
+                await createSkeletonProfile(secretKeyBytes, keyRelays.length > 0 ? keyRelays : this.getSharedRelays());
             } catch (error) {
                 logger.warn('Failed to create skeleton profile', { error: toErrorMessage(error) });
             }
@@ -270,6 +438,16 @@ export class KeyService {
             finalEncryptionFormat = 'none';
         }
 
+        if (keyRelays.length > 0) {
+            storedKey.relays = keyRelays;
+        }
+
+        const seed = derivation && config.seeds?.[derivation.seed];
+        if (derivation && seed) {
+            storedKey.derivation = derivation;
+            seed.nextIndex = Math.max(seed.nextIndex, derivation.index + 1);
+        }
+
         config.keys[keyName] = storedKey;
         await saveConfig(this.config.configFile, config);
 
@@ -282,7 +460,7 @@ export class KeyService {
             await this.config.onKeyActivated(keyName, secretNsec);
         }
 
-        const bunkerUri = this.buildBunkerUri(pubkey);
+        const bunkerUri = this.buildBunkerUri(keyName, pubkey);
 
         const keyInfo: KeyInfo = {
             name: keyName,
@@ -292,10 +470,13 @@ export class KeyService {
             status: 'online',
             isEncrypted: finalEncryptionFormat !== 'none',
             encryptionFormat: finalEncryptionFormat,
+            relays: this.getKeyRelays(keyName),
+            customRelays: keyRelays.length > 0,
             userCount: 0,
             tokenCount: 0,
             requestCount: 0,
             lastUsedAt: null,
+            ...(storedKey.derivation && { derivation: storedKey.derivation }),
         };
 
         // Emit event for real-time updates
@@ -363,10 +544,65 @@ export class KeyService {
         }
     }
 
+    /**
+     * Sign an event with a stored key, decrypting it with the passphrase.
+     * The key's state is unchanged (a locked key stays locked).
+     * Throws if the passphrase is invalid or the key is not encrypted.
+     */
+    signWithPassphrase(keyName: string, passphrase: string, template: EventTemplate): Event {
+        const record = this.config.allKeys[keyName];
+        if (!record) {
+            throw new Error('Key not found');
+        }
+
+        if (!isKeyEncrypted(record)) {
+            throw new Error('Key is not encrypted');
+        }
+
+        let secretBytes: Uint8Array;
+        if (record.ncryptsec) {
+            secretBytes = hexToBytes(decryptNip49(record.ncryptsec, passphrase));
+        } else if (record.iv && record.data) {
+            const decoded = nip19Decode(decryptSecret({ iv: record.iv, data: record.data }, passphrase));
+            if (decoded.type !== 'nsec') {
+                throw new Error('Invalid nsec');
+            }
+            secretBytes = decoded.data;
+        } else {
+            throw new Error('No encrypted key material found');
+        }
+
+        return finalizeEvent(template, secretBytes);
+    }
+
     loadKeyMaterial(keyName: string, nsec: string): void {
         this.activeKeys[keyName] = nsec;
     }
 
+    /**
+     * Take on keys a backup restore wrote to the config file. Encrypted keys
+     * stay locked until unlocked as usual; unencrypted ones start right away,
+     * as they would at startup.
+     */
+    async addRestoredKeys(keys: Record<string, StoredKey>): Promise<void> {
+        for (const [keyName, record] of Object.entries(keys)) {
+            if (this.config.allKeys[keyName]) {
+                continue;
+            }
+            this.config.allKeys[keyName] = record;
+
+            if (record.key) {
+                const secret = record.key.startsWith('nsec1') ? record.key : nsecEncode(hexToBytes(record.key));
+                this.activeKeys[keyName] = secret;
+                if (this.config.onKeyActivated) {
+                    await this.config.onKeyActivated(keyName, secret);
+                }
+            }
+
+            getEventService().emitKeyUpdated(keyName);
+        }
+    }
+
     async listKeys(): Promise<KeyInfo[]> {
         const keyNames = Object.keys(this.config.allKeys);
         if (keyNames.length === 0) {
@@ -393,7 +629,7 @@ export class KeyService {
                     const derived = this.deriveKeysFromSecret(this.activeKeys[name]);
                     pubkey = derived.pubkey;
                     npub = derived.npub;
-                    bunkerUri = this.buildBunkerUri(pubkey);
+                    bunkerUri = this.buildBunkerUri(name, pubkey);
                 } catch (error) {
                     logger.warn('Unable to get info for key', { key: name, error: toErrorMessage(error) });
                 }
@@ -405,12 +641,17 @@ export class KeyService {
                     const derived = this.deriveKeysFromSecret(secret);
                     pubkey = derived.pubkey;
                     npub = derived.npub;
-                    bunkerUri = this.buildBunkerUri(pubkey);
+                    bunkerUri = this.buildBunkerUri(name, pubkey);
                 } catch (error) {
                     logger.warn('Unable to get info for key', { key: name, error: toErrorMessage(error) });
                 }
             }
 
+            // Retired keys no longer answer NIP-46 requests
+            if (entry.retired) {
+                bunkerUri = undefined;
+            }
+
             const stats = allStats.get(name) ?? {
                 userCount: 0,
                 tokenCount: 0,
@@ -426,10 +667,14 @@ export class KeyService {
                 status,
                 isEncrypted: encrypted,
                 encryptionFormat,
+                relays: this.getKeyRelays(name),
+                customRelays: !!entry.relays?.length,
                 userCount: stats.userCount,
                 tokenCount: stats.tokenCount,
                 requestCount: stats.requestCount,
                 lastUsedAt: stats.lastUsedAt?.toISOString() ?? null,
+                ...(entry.retired && { retired: entry.retired }),
+                ...(entry.derivation && { derivation: entry.derivation }),
             });
         }
 
@@ -478,8 +723,8 @@ export class KeyService {
         return keys;
     }
 
-    private buildBunkerUri(pubkey: string): string {
-        const relayParams = this.config.nostrRelays
+    private buildBunkerUri(keyName: string, pubkey: string): string {
+        const relayParams = this.getKeyRelays(keyName)
             .map(relay => `relay=${encodeURIComponent(relay)}`)
             .join('&');
         const secret = this.config.adminSecret?.trim().toLowerCase();
@@ -496,7 +741,7 @@ export class KeyService {
         if (!secret) return null;
 
         const { pubkey } = this.deriveKeysFromSecret(secret);
-        const relayParams = this.config.nostrRelays
+        const relayParams = this.getKeyRelays(keyName)
             .map(relay => `relay=${encodeURIComponent(relay)}`)
             .join('&');
         return `bunker://${pubkey}?${relayParams}&secret=${encodeURIComponent(token)}`;
@@ -546,7 +791,7 @@ export class KeyService {
         }
 
         // Encrypt the key (legacy format for backwards compatibility)
-        const encrypted = encryptSecret(nsec, passphrase);
+        const encrypted = keepKeySettings(record, encryptSecret(nsec, passphrase));
 
         // Save to config file
         const config = await loadConfig(this.config.configFile);
@@ -582,11 +827,22 @@ export class KeyService {
         const config = await loadConfig(this.config.configFile);
         config.keys[newName] = config.keys[oldName];
         delete config.keys[oldName];
+        // Keys retired in favour of this one follow the new name
+        for (const stored of Object.values(config.keys)) {
+            if (stored.retired?.successor === oldName) {
+                stored.retired = { ...stored.retired, successor: newName };
+            }
+        }
         await saveConfig(this.config.configFile, config);
 
         // Update in-memory structures
         this.config.allKeys[newName] = this.config.allKeys[oldName];
         delete this.config.allKeys[oldName];
+        for (const [name, stored] of Object.entries(this.config.allKeys)) {
+            if (stored.retired?.successor === oldName) {
+                this.config.allKeys[name] = { ...stored, retired: { ...stored.retired, successor: newName } };
+            }
+        }
 
         if (this.activeKeys[oldName]) {
             this.activeKeys[newName] = this.activeKeys[oldName];
@@ -684,6 +940,7 @@ export class KeyService {
         } else {
             newRecord = encryptSecret(nsec, passphrase);
         }
+        newRecord = keepKeySettings(record, newRecord);
 
         // Save to config
         const config = await loadConfig(this.config.configFile);
@@ -731,7 +988,7 @@ export class KeyService {
         const secretHex = bytesToHex(decoded.data as Uint8Array);
 
         // Re-encrypt with NIP-49
-        const newRecord: StoredKey = { ncryptsec: encryptNip49(secretHex, passphrase) };
+        const newRecord = keepKeySettings(record, { ncryptsec: encryptNip49(secretHex, passphrase) });
 
         // Save to config
         const config = await loadConfig(this.config.configFile);
@@ -746,16 +1003,10 @@ export class KeyService {
     }
 
     /**
-     * Export a key in the specified format.
-     * Used by the /keys/:name/export endpoint.
+     * Read a key's secret for export or rotation: from memory if it is
+     * unlocked, otherwise from disk with its passphrase.
      */
-    async exportKey(
-        keyName: string,
-        currentPassphrase: string | undefined,
-        format: 'nip49' | 'nsec',
-        exportPassphrase?: string,
-        confirmExportPassphrase?: string
-    ): Promise<{ key: string; format: 'ncryptsec' | 'nsec' }> {
+    private readSecret(keyName: string, currentPassphrase: string | undefined): { secretNsec: string; secretHex: string } {
         const record = this.config.allKeys[keyName];
         if (!record) {
             throw new Error('Key not found');
@@ -795,6 +1046,22 @@ export class KeyService {
             throw new Error('No key material found');
         }
 
+        return { secretNsec, secretHex };
+    }
+
+    /**
+     * Export a key in the specified format.
+     * Used by the /keys/:name/export endpoint.
+     */
+    async exportKey(
+        keyName: string,
+        currentPassphrase: string | undefined,
+        format: 'nip49' | 'nsec',
+        exportPassphrase?: string,
+        confirmExportPassphrase?: string
+    ): Promise<{ key: string; format: 'ncryptsec' | 'nsec' }> {
+        const { secretNsec, secretHex } = this.readSecret(keyName, currentPassphrase);
+
         // Export in requested format
         if (format === 'nip49') {
             if (!exportPassphrase) {
@@ -808,4 +1075,233 @@ export class KeyService {
             return { key: secretNsec, format: 'nsec' as const };
         }
     }
+
+    /**
+     * Split a key into Shamir shares, any `threshold` of which recover it
+     * (see lib/shamir.ts for the share format).
+     */
+    async exportKeyShares(
+        keyName: string,
+        currentPassphrase: string | undefined,
+        threshold: number,
+        shareCount: number
+    ): Promise<{ shares: string[]; threshold: number }> {
+        const counts = validateShareCounts(threshold, shareCount);
+        if (!counts.valid) {
+            throw new Error(`Invalid share settings: ${counts.error}`);
+        }
+
+        const { secretHex } = this.readSecret(keyName, currentPassphrase);
+        return { shares: splitKey(hexToBytes(secretHex), threshold, shareCount), threshold };
+    }
+
+    /**
+     * Replace a key with a freshly generated successor.
+     *
+     * The successor takes over the key's relays, profile, contact list and
+     * relay list, and (unless `moveApps` is false) its connected apps. The
+     * old key then publishes migration events pointing at the successor and
+     * is retired: it stays in signet.json so it can sign those events again,
+     * but no longer answers NIP-46 requests.
+     */
+    async rotateKey(keyName: string, options: {
+        successorName: string;
+        currentPassphrase?: string;
+        passphrase?: string;
+        confirmPassphrase?: string;
+        encryption?: EncryptionFormat;
+        moveApps?: boolean;
+    } & MigrationOptions): Promise<RotateKeyResult> {
+        const record = this.config.allKeys[keyName];
+        if (!record) {
+            throw new Error('Key not found');
+        }
+        if (record.retired) {
+            throw new Error('Key is already retired');
+        }
+        if (this.config.allKeys[options.successorName]) {
+            throw new Error('A key with this name already exists');
+        }
+
+        const { secretHex } = this.readSecret(keyName, options.currentPassphrase);
+        const oldSecret = hexToBytes(secretHex);
+        const oldPubkey = getPublicKey(oldSecret);
+        const relays = this.getKeyRelays(keyName);
+
+        const successorSecret = generateSecretKey();
+        const successor = await this.createKey({
+            keyName: options.successorName,
+            passphrase: options.passphrase,
+            confirmPassphrase: options.confirmPassphrase,
+            nsec: nsecEncode(successorSecret),
+            encryption: options.encryption,
+            relays: record.relays,
+        });
+        const successorPubkey = getPublicKey(successorSecret);
+
+        // Publishing is best effort: the rotation stands even if relays are unreachable
+        let copiedKinds: number[] = [];
+        try {
+            copiedKinds = await copyProfile(oldPubkey, successorSecret, relays);
+        } catch (error) {
+            logger.warn('Failed to copy profile to successor key', { key: keyName, error: toErrorMessage(error) });
+        }
+
+        let migration = { eventIds: [] as string[], relays: 0 };
+        try {
+            migration = await publishMigration(oldSecret, successorPubkey, relays, options);
+        } catch (error) {
+            logger.warn('Failed to publish key migration', { key: keyName, error: toErrorMessage(error) });
+        }
+
+        const movedApps = options.moveApps === false
+            ? 0
+            : await appRepository.moveToKey(keyName, options.successorName);
+
+        const retired: StoredKey = {
+            ...record,
+            retired: { at: new Date().toISOString(), successor: options.successorName, successorPubkey },
+        };
+        const config = await loadConfig(this.config.configFile);
+        config.keys[keyName] = retired;
+        await saveConfig(this.config.configFile, config);
+        this.config.allKeys[keyName] = retired;
+
+        // Stop the bunker backend; the secret stays loaded so the key can still sign its migration events
+        if (this.activeKeys[keyName] && this.config.onKeyLocked) {
+            this.config.onKeyLocked(keyName);
+        }
+
+        getEventService().emitKeyUpdated(keyName);
+
+        return {
+            successor,
+            copiedKinds,
+            migrationEventIds: migration.eventIds,
+            migrationRelays: migration.relays,
+            movedApps,
+        };
+    }
+
+    /**
+     * Sign and publish a retired key's migration events again, e.g. after
+     * relays were unreachable during the rotation.
+     */
+    async republishMigration(
+        keyName: string,
+        currentPassphrase: string | undefined,
+        options: MigrationOptions = {}
+    ): Promise<{ eventIds: string[]; relays: number }> {
+        const record = this.config.allKeys[keyName];
+        if (!record) {
+            throw new Error('Key not found');
+        }
+        if (!record.retired) {
+            throw new Error('Key has not been rotated');
+        }
+
+        const { secretHex } = this.readSecret(keyName, currentPassphrase);
+        return publishMigration(hexToBytes(secretHex), record.retired.successorPubkey, this.getKeyRelays(keyName), options);
+    }
+
+    /**
+     * Derive the secret at a seed's NIP-06 index. Without an index, the
+     * seed's next unused one is taken.
+     */
+    private async deriveFromSeed(
+        seedName: string,
+        passphrase: string | undefined,
+        index: number | undefined
+    ): Promise<{ secret: Uint8Array; derivation: KeyDerivation }> {
+        const seed = await this.getSeed(seedName);
+        const derivationIndex = index ?? seed.nextIndex;
+
+        const existing = Object.values(this.config.allKeys).some(
+            (record) => record.derivation?.seed === seedName && record.derivation.index === derivationIndex
+        );
+        if (existing) {
+            throw new Error(`A key derived from this seed at index ${derivationIndex} already exists`);
+        }
+
+        const secret = deriveSeedKey(readMnemonic(seed, passphrase), derivationIndex);
+        return { secret, derivation: { seed: seedName, index: derivationIndex } };
+    }
+
+    private async getSeed(seedName: string): Promise<StoredSeed> {
+        const config = await loadConfig(this.config.configFile);
+        const seed = config.seeds?.[seedName];
+        if (!seed) {
+            throw new Error('Seed not found');
+        }
+        return seed;
+    }
+
+    private toSeedInfo(name: string, seed: StoredSeed): SeedInfo {
+        const keys = Object.entries(this.config.allKeys)
+            .flatMap(([keyName, record]) =>
+                record.derivation?.seed === name ? [{ name: keyName, index: record.derivation.index }] : []
+            )
+            .sort((a, b) => a.index - b.index);
+
+        return {
+            name,
+            isEncrypted: !!(seed.iv && seed.data),
+            nextIndex: seed.nextIndex,
+            createdAt: seed.createdAt,
+            keys,
+        };
+    }
+
+    /**
+     * List stored seeds with the keys derived from each
+     */
+    async listSeeds(): Promise<SeedInfo[]> {
+        const config = await loadConfig(this.config.configFile);
+        return Object.entries(config.seeds ?? {}).map(([name, seed]) => this.toSeedInfo(name, seed));
+    }
+
+    /**
+     * Store a BIP-39 seed to derive keys from (see lib/seed.ts). Without a
+     * mnemonic a new one is generated and returned once, to be written down.
+     */
+    async createSeed(options: {
+        seedName: string;
+        mnemonic?: string;
+        passphrase?: string;
+        confirmPassphrase?: string;
+    }): Promise<CreateSeedResult> {
+        const { seedName, passphrase } = options;
+
+        const config = await loadConfig(this.config.configFile);
+        if (config.seeds?.[seedName]) {
+            throw new Error('A seed with this name already exists');
+        }
+        if (passphrase && passphrase !== options.confirmPassphrase) {
+            throw new Error('Passphrase confirmation does not match');
+        }
+
+        const imported = options.mnemonic?.trim();
+        const generated = !imported;
+        const mnemonic = imported ? normalizeMnemonic(imported) : generateMnemonic();
+
+        const seed: StoredSeed = {
+            ...(passphrase ? encryptSecret(mnemonic, passphrase) : { mnemonic }),
+            nextIndex: 0,
+            createdAt: new Date().toISOString(),
+        };
+        config.seeds = { ...config.seeds, [seedName]: seed };
+        await saveConfig(this.config.configFile, config);
+
+        return {
+            seed: this.toSeedInfo(seedName, seed),
+            ...(generated && { mnemonic }),
+        };
+    }
+
+    /**
+     * Reveal a seed's mnemonic, e.g. to back it up
+     */
+    async exportSeed(seedName: string, passphrase: string | undefined): Promise<string> {
+        return readMnemonic(await this.getSeed(seedName), passphrase);
+    }
 }
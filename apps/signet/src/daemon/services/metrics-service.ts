@@ -0,0 +1,243 @@
+import type { DeadManSwitchStatus } from '@signet/types';
+import type { RelayPool } from '../lib/relay-pool.js';
+import type { SubscriptionManager } from '../lib/subscription-manager.js';
+import type { EventService, ServerEvent } from './event-service.js';
+import { requestRepository } from '../repositories/index.js';
+import { getAllCacheStats } from '../lib/ttl-cache.js';
+import { Counter, Histogram, gauge, renderMetrics, type MetricFamily, type MetricsFormat } from '../lib/metrics.js';
+import { logger } from '../lib/logger.js';
+import { toErrorMessage } from '../lib/errors.js';
+import { APPROVAL_LATENCY_BUCKETS_SEC, REQUEST_EXPIRY_MS } from '../constants.js';
+
+export interface MetricsServiceConfig {
+    pool: Pick<RelayPool, 'getStatus'>;
+    subscriptionManager: Pick<SubscriptionManager, 'on' | 'getSubscriptionCount'>;
+    getDeadManStatus: () => Promise<DeadManSwitchStatus>;
+}
+
+type PendingInfo = {
+    createdAt: number;
+    method: string;
+    kind: string;
+};
+
+/**
+ * Service behind GET /metrics.
+ *
+ * Request outcomes and approval latency are counted from server events as
+ * they happen; relay, subscription, cache and dead man's switch state is
+ * read at scrape time. Counters start from zero when the daemon starts, as
+ * Prometheus expects.
+ */
+export class MetricsService {
+    private readonly config: MetricsServiceConfig;
+    private readonly pending = new Map<string, PendingInfo>();
+    private readonly unsubscribers: Array<() => void> = [];
+
+    private readonly requests = new Counter(
+        'signet_requests',
+        'NIP-46 requests by method, event kind, approval type and outcome',
+        ['method', 'kind', 'approval_type', 'outcome']
+    );
+    private readonly approvalLatency = new Histogram(
+        'signet_approval_latency_seconds',
+        'Time from a request arriving to a manual approval or denial',
+        APPROVAL_LATENCY_BUCKETS_SEC,
+        ['outcome']
+    );
+    private readonly healthChecks = new Counter(
+        'signet_subscription_health_checks',
+        'Subscription health checks by result',
+        ['result']
+    );
+    private readonly subscriptionRestarts = new Counter(
+        'signet_subscription_restarts',
+        'Full subscription restarts by reason',
+        ['reason']
+    );
+
+    constructor(config: MetricsServiceConfig) {
+        this.config = config;
+    }
+
+    start(eventService: EventService): void {
+        this.stop();
+        this.unsubscribers.push(eventService.subscribe((event) => this.handleEvent(event)));
+        this.unsubscribers.push(this.config.subscriptionManager.on((event) => {
+            if (event.type === 'health-check-passed') {
+                this.healthChecks.inc({ result: 'passed' });
+            } else if (event.type === 'health-check-failed') {
+                this.healthChecks.inc({ result: 'failed' });
+            } else if (event.type === 'subscription-restarted') {
+                this.subscriptionRestarts.inc({ reason: event.data.reason });
+            }
+        }));
+    }
+
+    stop(): void {
+        for (const unsubscribe of this.unsubscribers.splice(0)) {
+            unsubscribe();
+        }
+    }
+
+    /**
+     * Render every metric in the given exposition format
+     */
+    async render(format: MetricsFormat): Promise<string> {
+        const families: MetricFamily[] = [
+            gauge('signet_uptime_seconds', 'Seconds since the daemon started', [{ value: Math.round(process.uptime()) }]),
+            this.requests.collect(),
+            this.approvalLatency.collect(),
+        ];
+
+        try {
+            families.push(gauge('signet_requests_pending', 'Requests waiting for approval', [
+                { value: await requestRepository.countPending() },
+            ]));
+        } catch (error) {
+            logger.warn('Failed to count pending requests for metrics', { error: toErrorMessage(error) });
+        }
+
+        const relays = this.config.pool.getStatus();
+        families.push(
+            gauge('signet_relay_connected', 'Whether each relay is connected (1) or not (0)', relays.map((relay) => ({
+                labels: { relay: relay.url },
+                value: relay.connected ? 1 : 0,
+            }))),
+            gauge('signet_relays_connected', 'Connected relays', [
+                { value: relays.filter((relay) => relay.connected).length },
+            ]),
+            gauge('signet_subscriptions', 'Active relay subscriptions', [
+                { value: this.config.subscriptionManager.getSubscriptionCount() },
+            ]),
+            this.healthChecks.collect(),
+            this.subscriptionRestarts.collect(),
+            ...this.collectCacheMetrics()
+        );
+
+        try {
+            families.push(...this.collectDeadManMetrics(await this.config.getDeadManStatus()));
+        } catch (error) {
+            logger.warn('Failed to read dead man switch status for metrics', { error: toErrorMessage(error) });
+        }
+
+        return renderMetrics(families, format);
+    }
+
+    private collectCacheMetrics(): MetricFamily[] {
+        const stats = Object.entries(getAllCacheStats());
+        return [
+            gauge('signet_cache_entries', 'Entries held in each in-memory cache', stats.map(([cache, { size }]) => ({
+                labels: { cache },
+                value: size,
+            }))),
+            {
+                name: 'signet_cache_hits',
+                help: 'Cache lookups that found a live entry',
+                type: 'counter',
+                samples: stats.map(([cache, { hits }]) => ({ suffix: '_total', labels: { cache }, value: hits })),
+            },
+            {
+                name: 'signet_cache_misses',
+                help: 'Cache lookups that found nothing or an expired entry',
+                type: 'counter',
+                samples: stats.map(([cache, { misses }]) => ({ suffix: '_total', labels: { cache }, value: misses })),
+            },
+            gauge('signet_cache_hit_ratio', 'Share of cache lookups that hit, since startup', stats.map(([cache, { hits, misses }]) => ({
+                labels: { cache },
+                value: hits + misses === 0 ? 0 : hits / (hits + misses),
+            }))),
+        ];
+    }
+
+    private collectDeadManMetrics(status: DeadManSwitchStatus): MetricFamily[] {
+        const families = [
+            gauge('signet_deadman_enabled', 'Whether the dead man\'s switch is armed', [{ value: status.enabled ? 1 : 0 }]),
+            gauge('signet_deadman_panic', 'Whether the dead man\'s switch has fired and locked every key', [
+                { value: status.panicTriggeredAt ? 1 : 0 },
+            ]),
+        ];
+        if (status.remainingSec !== null) {
+            families.push(gauge('signet_deadman_remaining_seconds', 'Seconds until the dead man\'s switch fires', [
+                { value: status.remainingSec },
+            ]));
+        }
+        return families;
+    }
+
+    private handleEvent(event: ServerEvent): void {
+        switch (event.type) {
+            case 'request:created': {
+                this.prunePending();
+                const createdAt = Date.parse(event.request.createdAt);
+                this.pending.set(event.request.id, {
+                    createdAt: Number.isNaN(createdAt) ? Date.now() : createdAt,
+                    method: event.request.method,
+                    kind: event.request.eventPreview?.kind?.toString() ?? '',
+                });
+                break;
+            }
+            case 'request:approved':
+            case 'request:denied': {
+                const outcome = event.type === 'request:approved' ? 'approved' : 'denied';
+                const pending = this.pending.get(event.requestId);
+                this.pending.delete(event.requestId);
+                this.requests.inc({
+                    method: event.activity.method ?? pending?.method ?? 'unknown',
+                    kind: event.activity.eventKind?.toString() ?? pending?.kind ?? '',
+                    approval_type: event.activity.approvalType ?? 'manual',
+                    outcome,
+                });
+                if (pending) {
+                    this.approvalLatency.observe({ outcome }, (Date.now() - pending.createdAt) / 1000);
+                }
+                break;
+            }
+            case 'request:auto_approved':
+                this.requests.inc({
+                    method: event.activity.method ?? 'unknown',
+                    kind: event.activity.eventKind?.toString() ?? '',
+                    approval_type: event.activity.approvalType ?? 'auto_permission',
+                    outcome: 'approved',
+                });
+                break;
+            case 'request:expired': {
+                const pending = this.pending.get(event.requestId);
+                this.pending.delete(event.requestId);
+                this.requests.inc({
+                    method: pending?.method ?? 'unknown',
+                    kind: pending?.kind ?? '',
+                    approval_type: 'none',
+                    outcome: 'expired',
+                });
+                break;
+            }
+        }
+    }
+
+    /**
+     * Forget requests that never got a decision or expiry event
+     */
+    private prunePending(): void {
+        const cutoff = Date.now() - REQUEST_EXPIRY_MS;
+        for (const [id, info] of this.pending) {
+            if (info.createdAt < cutoff) {
+                this.pending.delete(id);
+            }
+        }
+    }
+}
+
+// Singleton instance
+let metricsService: MetricsService | null = null;
+
+export function getMetricsService(): MetricsService {
+    if (!metricsService) {
+        throw new Error('MetricsService not initialized');
+    }
+    return metricsService;
+}
+
+export function setMetricsService(service: MetricsService): void {
+    metricsService = service;
+}
@@ -0,0 +1,192 @@
+import type { CreateOperatorRequest, Operator, OperatorRole, UpdateOperatorRequest } from '@signet/types';
+import prisma from '../../db.js';
+import { parseKeyNames } from '../lib/api-tokens.js';
+import { getRoleScopes, isOperatorRole, OPERATOR_ROLES, parseOperatorPubkey, type DashboardAccess } from '../lib/operators.js';
+import { validateKeyName } from '../lib/validation.js';
+import { logger } from '../lib/logger.js';
+import { MAX_APP_NAME_LENGTH, MAX_OPERATORS } from '../constants.js';
+
+type OperatorRecord = {
+    id: number;
+    name: string;
+    pubkey: string;
+    role: string;
+    keyNames: string | null;
+    createdAt: Date;
+};
+
+function parseRole(value: unknown): OperatorRole {
+    if (!isOperatorRole(value)) {
+        throw new Error(`Invalid role: ${String(value)} (use ${OPERATOR_ROLES.join(', ')})`);
+    }
+    return value;
+}
+
+/**
+ * Validate a key limit. Undefined and null mean every key.
+ */
+function parseKeyLimit(keyNames: string[] | null | undefined): string[] | null {
+    if (keyNames === undefined || keyNames === null) {
+        return null;
+    }
+    if (!Array.isArray(keyNames) || keyNames.length === 0) {
+        throw new Error('Invalid key restriction: list at least one key or omit keyNames');
+    }
+    const unique: string[] = [];
+    for (const keyName of keyNames) {
+        const validation = validateKeyName(keyName);
+        if (!validation.valid) {
+            throw new Error(`Invalid key name: ${validation.error}`);
+        }
+        if (!unique.includes(keyName)) {
+            unique.push(keyName);
+        }
+    }
+    return unique;
+}
+
+/**
+ * Service for dashboard operators: people who may log in with a limited role.
+ *
+ * Operators are kept in memory (there are only a handful) so the auth
+ * middleware can check roles on every request without a database round
+ * trip. Call load() once at startup.
+ */
+export class OperatorService {
+    private readonly byPubkey = new Map<string, Operator>();
+
+    private toOperator(operator: OperatorRecord): Operator {
+        return {
+            id: operator.id,
+            name: operator.name,
+            pubkey: operator.pubkey,
+            role: isOperatorRole(operator.role) ? operator.role : 'viewer',
+            keyNames: parseKeyNames(operator.keyNames),
+            createdAt: operator.createdAt.toISOString(),
+        };
+    }
+
+    async load(): Promise<void> {
+        const operators = await prisma.operator.findMany();
+        this.byPubkey.clear();
+        for (const operator of operators) {
+            this.byPubkey.set(operator.pubkey, this.toOperator(operator));
+        }
+    }
+
+    /**
+     * What an operator may do, or null if the pubkey isn't an operator
+     */
+    getAccess(pubkey: string): DashboardAccess | null {
+        const operator = this.byPubkey.get(pubkey);
+        if (!operator) {
+            return null;
+        }
+        return {
+            role: operator.role,
+            scopes: getRoleScopes(operator.role),
+            keyNames: operator.keyNames,
+        };
+    }
+
+    async listOperators(): Promise<Operator[]> {
+        const operators = await prisma.operator.findMany({ orderBy: { name: 'asc' } });
+        return operators.map((operator) => this.toOperator(operator));
+    }
+
+    async createOperator(request: CreateOperatorRequest): Promise<Operator> {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Operator name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid operator name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+
+        const pubkey = parseOperatorPubkey(request.pubkey ?? '');
+        if (!pubkey) {
+            throw new Error('Invalid operator pubkey (use an npub or hex pubkey)');
+        }
+
+        const role = parseRole(request.role);
+        const keyNames = parseKeyLimit(request.keyNames);
+
+        const count = await prisma.operator.count();
+        if (count >= MAX_OPERATORS) {
+            throw new Error(`Invalid operator: at most ${MAX_OPERATORS} operators allowed`);
+        }
+
+        const existing = await prisma.operator.findFirst({
+            where: { OR: [{ name }, { pubkey }] },
+            select: { name: true },
+        });
+        if (existing) {
+            throw new Error(existing.name === name
+                ? `Operator "${name}" already exists`
+                : 'An operator with this pubkey already exists');
+        }
+
+        const operator = this.toOperator(await prisma.operator.create({
+            data: { name, pubkey, role, keyNames: keyNames?.join(',') ?? null },
+        }));
+        this.byPubkey.set(operator.pubkey, operator);
+        logger.info('Operator added', { name, role });
+        return operator;
+    }
+
+    /**
+     * Change an operator's role or key limit. Takes effect on their next request.
+     */
+    async updateOperator(id: number, request: UpdateOperatorRequest): Promise<Operator> {
+        await this.requireOperator(id);
+
+        const data: { role?: OperatorRole; keyNames?: string | null } = {};
+        if (request?.role !== undefined) {
+            data.role = parseRole(request.role);
+        }
+        if (request?.keyNames !== undefined) {
+            data.keyNames = parseKeyLimit(request.keyNames)?.join(',') ?? null;
+        }
+
+        const operator = this.toOperator(await prisma.operator.update({ where: { id }, data }));
+        this.byPubkey.set(operator.pubkey, operator);
+        return operator;
+    }
+
+    /**
+     * Remove an operator and revoke their dashboard sessions
+     */
+    async deleteOperator(id: number): Promise<void> {
+        const operator = await this.requireOperator(id);
+
+        await prisma.operator.delete({ where: { id } });
+        this.byPubkey.delete(operator.pubkey);
+        await prisma.dashboardSession.updateMany({
+            where: { pubkey: operator.pubkey, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        logger.info('Operator removed', { name: operator.name });
+    }
+
+    private async requireOperator(id: number): Promise<OperatorRecord> {
+        const operator = await prisma.operator.findUnique({ where: { id } });
+        if (!operator) {
+            throw new Error('Operator not found');
+        }
+        return operator;
+    }
+}
+
+// Singleton instance
+let operatorService: OperatorService | null = null;
+
+export function getOperatorService(): OperatorService {
+    if (!operatorService) {
+        operatorService = new OperatorService();
+    }
+    return operatorService;
+}
+
+export function setOperatorService(service: OperatorService): void {
+    operatorService = service;
+}
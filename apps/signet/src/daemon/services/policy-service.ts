@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import type { CreatePolicyRequest, CreatePolicyTokenRequest, PolicyInfo, PolicyToken } from '@signet/types';
+import prisma from '../../db.js';
+import { clearAclCache, invalidateAclCache } from '../lib/acl.js';
+import { isPolicyExpired, toPolicyRuleInfo } from '../lib/policy-usage.js';
+import { validateAppName, validateKeyName } from '../lib/validation.js';
+import { MAX_APP_NAME_LENGTH, MAX_POLICY_RULES, MAX_POLICY_USAGE_COUNT, MAX_TOKEN_EXPIRY_HOURS } from '../constants.js';
+
+export const POLICY_METHODS = new Set([
+    'connect',
+    'sign_event',
+    'get_public_key',
+    'encrypt', 'decrypt',
+    'nip04_encrypt', 'nip04_decrypt',
+    'nip44_encrypt', 'nip44_decrypt',
+    'ping',
+]);
+
+// Listed instead of the secret, which is only returned when a token is minted
+const TOKEN_PREFIX_LENGTH = 6;
+
+type PolicyRecord = {
+    id: number;
+    name: string;
+    description: string | null;
+    createdAt: Date;
+    expiresAt: Date | null;
+    rules: Array<{ id: number; method: string; kind: string | null; maxUsageCount: number | null; currentUsageCount: number | null }>;
+    _count: { Token: number };
+};
+
+/**
+ * Service for policies and the tokens minted from them.
+ *
+ * A token is a connect secret tied to a key and a policy. Redeeming it
+ * registers the app at paranoid trust with one signing condition per policy
+ * rule, so the policy is the only thing that auto-approves its requests.
+ */
+export class PolicyService {
+    private toPolicyInfo(policy: PolicyRecord): PolicyInfo {
+        return {
+            id: policy.id,
+            name: policy.name,
+            description: policy.description,
+            createdAt: policy.createdAt.toISOString(),
+            expiresAt: policy.expiresAt?.toISOString() ?? null,
+            expired: isPolicyExpired(policy),
+            rules: policy.rules.map(toPolicyRuleInfo),
+            tokenCount: policy._count.Token,
+        };
+    }
+
+    async listPolicies(): Promise<PolicyInfo[]> {
+        const policies = await prisma.policy.findMany({
+            where: { deletedAt: null },
+            include: { rules: true, _count: { select: { Token: true } } },
+            orderBy: { createdAt: 'desc' },
+        });
+        return policies.map((policy) => this.toPolicyInfo(policy));
+    }
+
+    async createPolicy(request: CreatePolicyRequest): Promise<PolicyInfo> {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Policy name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid policy name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+
+        const rules = request.rules ?? [];
+        if (!Array.isArray(rules) || rules.length === 0) {
+            throw new Error('At least one policy rule is required');
+        }
+        if (rules.length > MAX_POLICY_RULES) {
+            throw new Error(`Invalid policy: at most ${MAX_POLICY_RULES} rules allowed`);
+        }
+
+        const invalidMethods = rules.map((rule) => rule?.method).filter((method) => !POLICY_METHODS.has(method));
+        if (invalidMethods.length > 0) {
+            throw new Error(`Invalid method(s): ${invalidMethods.join(', ')}. Valid methods: ${[...POLICY_METHODS].join(', ')}`);
+        }
+
+        for (const rule of rules) {
+            if (rule.kind !== undefined && rule.kind !== 'all' && !/^\d+$/.test(String(rule.kind))) {
+                throw new Error('Invalid policy rule kind');
+            }
+            if (rule.maxUsageCount !== undefined && rule.maxUsageCount !== null) {
+                if (!Number.isInteger(rule.maxUsageCount) || rule.maxUsageCount < 1 || rule.maxUsageCount > MAX_POLICY_USAGE_COUNT) {
+                    throw new Error(`Invalid max usage count (must be 1-${MAX_POLICY_USAGE_COUNT})`);
+                }
+            }
+        }
+
+        let expiresAt: Date | undefined;
+        if (request.expiresAt) {
+            expiresAt = new Date(request.expiresAt);
+            if (isNaN(expiresAt.getTime())) {
+                throw new Error('Invalid expiresAt date');
+            }
+            if (expiresAt.getTime() <= Date.now()) {
+                throw new Error('Invalid expiresAt: must be in the future');
+            }
+        }
+
+        const policy = await prisma.policy.create({
+            data: {
+                name,
+                description: request.description?.trim() || undefined,
+                expiresAt,
+                rules: {
+                    create: rules.map((rule) => ({
+                        method: rule.method,
+                        kind: rule.kind !== undefined ? String(rule.kind) : undefined,
+                        maxUsageCount: rule.maxUsageCount ?? null,
+                        currentUsageCount: 0,
+                    })),
+                },
+            },
+            include: { rules: true, _count: { select: { Token: true } } },
+        });
+
+        return this.toPolicyInfo(policy);
+    }
+
+    /**
+     * Delete a policy. Permissions it granted are withdrawn immediately,
+     * and unredeemed tokens minted from it stop working.
+     */
+    async deletePolicy(policyId: number): Promise<void> {
+        const policy = await prisma.policy.findFirst({
+            where: { id: policyId, deletedAt: null },
+            select: { id: true },
+        });
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+
+        // Soft delete: tokens and signing conditions still reference the policy's rules
+        await prisma.policy.update({
+            where: { id: policyId },
+            data: { deletedAt: new Date() },
+        });
+        await prisma.signingCondition.deleteMany({
+            where: { policyRule: { policyId } },
+        });
+
+        clearAclCache();
+    }
+
+    async listTokens(keyName?: string): Promise<PolicyToken[]> {
+        const tokens = await prisma.token.findMany({
+            where: { deletedAt: null, ...(keyName ? { keyName } : {}) },
+            include: {
+                policy: { select: { name: true } },
+                KeyUser: { select: { description: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return tokens.map((token) => ({
+            id: token.id,
+            keyName: token.keyName,
+            clientName: token.clientName,
+            prefix: token.token.slice(0, TOKEN_PREFIX_LENGTH),
+            policyId: token.policyId,
+            policyName: token.policy?.name ?? null,
+            createdAt: token.createdAt.toISOString(),
+            expiresAt: token.expiresAt?.toISOString() ?? null,
+            redeemedAt: token.redeemedAt?.toISOString() ?? null,
+            redeemedBy: token.KeyUser?.description ?? null,
+        }));
+    }
+
+    async createToken(request: CreatePolicyTokenRequest, createdBy = 'web-admin'): Promise<{ id: number; token: string; expiresAt: Date | null }> {
+        const keyValidation = validateKeyName(request?.keyName);
+        if (!keyValidation.valid) {
+            throw new Error(keyValidation.error);
+        }
+        if (!request.clientName?.trim()) {
+            throw new Error('clientName is required');
+        }
+        const clientValidation = validateAppName(request.clientName);
+        if (!clientValidation.valid) {
+            throw new Error(`Invalid client name: ${clientValidation.error}`);
+        }
+        if (!Number.isInteger(request.policyId)) {
+            throw new Error('policyId is required');
+        }
+        if (request.expiresInHours !== undefined && (
+            typeof request.expiresInHours !== 'number' ||
+            request.expiresInHours <= 0 ||
+            request.expiresInHours > MAX_TOKEN_EXPIRY_HOURS
+        )) {
+            throw new Error(`Invalid expiresInHours (must be between 0 and ${MAX_TOKEN_EXPIRY_HOURS})`);
+        }
+
+        const policy = await prisma.policy.findFirst({
+            where: { id: request.policyId, deletedAt: null },
+        });
+        if (!policy) {
+            throw new Error('Policy not found');
+        }
+        if (isPolicyExpired(policy)) {
+            throw new Error('Invalid policy: it has expired');
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = request.expiresInHours
+            ? new Date(Date.now() + request.expiresInHours * 60 * 60 * 1000)
+            : null;
+
+        const created = await prisma.token.create({
+            data: {
+                keyName: request.keyName.trim(),
+                clientName: request.clientName.trim(),
+                createdBy,
+                token,
+                policyId: policy.id,
+                expiresAt,
+            },
+        });
+
+        return { id: created.id, token: created.token, expiresAt: created.expiresAt };
+    }
+
+    async deleteToken(tokenId: number): Promise<void> {
+        const result = await prisma.token.updateMany({
+            where: { id: tokenId, deletedAt: null },
+            data: { deletedAt: new Date() },
+        });
+        if (result.count === 0) {
+            throw new Error('Token not found');
+        }
+    }
+
+    /**
+     * Redeem a policy token presented as a connect secret.
+     *
+     * Claiming is atomic, so two connects racing with the same token can't
+     * both succeed.
+     * @returns The app id, or null if the secret isn't a policy token for this key
+     * @throws If the token exists but can't be redeemed (expired, used, policy gone)
+     */
+    async redeemToken(keyName: string, remotePubkey: string, secret: string): Promise<number | null> {
+        const record = await prisma.token.findUnique({
+            where: { token: secret },
+            include: { policy: { include: { rules: true } } },
+        });
+
+        if (!record || record.keyName !== keyName || record.deletedAt) {
+            return null;
+        }
+        if (record.redeemedAt) {
+            throw new Error('Token already redeemed');
+        }
+        if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+            throw new Error('Token expired');
+        }
+        if (!record.policy || record.policy.deletedAt) {
+            throw new Error('Token policy missing');
+        }
+        if (isPolicyExpired(record.policy)) {
+            throw new Error('Token policy expired');
+        }
+
+        // Atomically claim the token - only succeeds if redeemedAt is still null
+        const claimed = await prisma.token.updateMany({
+            where: { id: record.id, redeemedAt: null },
+            data: { redeemedAt: new Date() },
+        });
+        if (claimed.count === 0) {
+            throw new Error('Token already redeemed');
+        }
+
+        try {
+            const keyUser = await prisma.keyUser.upsert({
+                where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
+                update: { revokedAt: null },
+                create: {
+                    keyName,
+                    userPubkey: remotePubkey,
+                    description: record.clientName,
+                    trustLevel: 'paranoid',
+                },
+            });
+
+            await prisma.token.update({
+                where: { id: record.id },
+                data: { keyUserId: keyUser.id },
+            });
+
+            await prisma.signingCondition.createMany({
+                data: [
+                    { keyUserId: keyUser.id, method: 'connect', allowed: true },
+                    ...record.policy.rules
+                        .filter((rule) => rule.method !== 'connect')
+                        .map((rule) => ({
+                            keyUserId: keyUser.id,
+                            method: rule.method,
+                            allowed: true,
+                            // A sign_event rule without a kind covers every kind
+                            kind: rule.kind ?? (rule.method === 'sign_event' ? 'all' : undefined),
+                            policyRuleId: rule.id,
+                        })),
+                ],
+            });
+
+            invalidateAclCache(keyName, remotePubkey);
+            return keyUser.id;
+        } catch (error) {
+            // If permission creation fails, unclaim the token so it can be retried
+            await prisma.token.update({
+                where: { id: record.id },
+                data: { redeemedAt: null, keyUserId: null },
+            });
+            throw error;
+        }
+    }
+}
+
+// Singleton instance
+let policyService: PolicyService | null = null;
+
+export function getPolicyService(): PolicyService {
+    if (!policyService) {
+        policyService = new PolicyService();
+    }
+    return policyService;
+}
+
+export function setPolicyService(service: PolicyService): void {
+    policyService = service;
+}
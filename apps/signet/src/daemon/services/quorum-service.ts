@@ -0,0 +1,310 @@
+import type { Approver, CreateApproverRequest, CreateQuorumRuleRequest, QuorumResponse, QuorumRule, RequestQuorum } from '@signet/types';
+import prisma from '../../db.js';
+import {
+    generateApproverToken,
+    hashApproverToken,
+    invalidateQuorumRuleCache,
+    parseApproverPubkey,
+    toRequestQuorum,
+} from '../lib/quorum.js';
+import { validateKeyName } from '../lib/validation.js';
+import { MAX_APP_NAME_LENGTH, MAX_APPROVERS } from '../constants.js';
+
+type ApproverRecord = {
+    id: number;
+    name: string;
+    pubkey: string | null;
+    sessionTokenHash: string | null;
+    createdAt: Date;
+};
+
+type QuorumRuleRecord = {
+    id: number;
+    keyName: string | null;
+    kind: number | null;
+    threshold: number;
+    createdAt: Date;
+};
+
+/**
+ * Who is approving: the pubkey of the dashboard login and/or the
+ * approver session cookie of this browser. Approvals always need the
+ * login, which counts once per request whichever approver it acts as.
+ */
+export interface ApproverIdentity {
+    pubkey?: string | null;
+    sessionToken?: string | null;
+}
+
+/**
+ * Service for approvers, quorum rules and the approvals collected for
+ * quorum requests.
+ *
+ * A request that matches a quorum rule is only marked allowed once the
+ * rule's threshold of distinct approvers has approved it. Until then the
+ * signer keeps waiting, so nothing is signed early.
+ *
+ * Approvers with a pubkey approve by logging in with it. Approvers
+ * without one approve from a browser an owner bound to them; each
+ * dashboard login still counts as one approval per request, so one person
+ * can't meet a quorum by switching between approvers.
+ */
+export class QuorumService {
+    private toApprover(approver: ApproverRecord): Approver {
+        return {
+            id: approver.id,
+            name: approver.name,
+            pubkey: approver.pubkey,
+            hasSession: approver.sessionTokenHash !== null,
+            createdAt: approver.createdAt.toISOString(),
+        };
+    }
+
+    private toQuorumRule(rule: QuorumRuleRecord): QuorumRule {
+        return {
+            id: rule.id,
+            keyName: rule.keyName,
+            kind: rule.kind,
+            threshold: rule.threshold,
+            createdAt: rule.createdAt.toISOString(),
+        };
+    }
+
+    async listQuorum(currentApproverId: number | null): Promise<QuorumResponse> {
+        const [approvers, rules] = await Promise.all([
+            prisma.approver.findMany({ orderBy: { name: 'asc' } }),
+            prisma.quorumRule.findMany({ orderBy: { createdAt: 'asc' } }),
+        ]);
+        return {
+            approvers: approvers.map((approver) => this.toApprover(approver)),
+            rules: rules.map((rule) => this.toQuorumRule(rule)),
+            currentApproverId,
+        };
+    }
+
+    async createApprover(request: CreateApproverRequest): Promise<Approver> {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Approver name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid approver name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+
+        let pubkey: string | null = null;
+        if (request.pubkey?.trim()) {
+            pubkey = parseApproverPubkey(request.pubkey);
+            if (!pubkey) {
+                throw new Error('Invalid approver pubkey (use an npub or hex pubkey)');
+            }
+        }
+
+        const count = await prisma.approver.count();
+        if (count >= MAX_APPROVERS) {
+            throw new Error(`Invalid approver: at most ${MAX_APPROVERS} approvers allowed`);
+        }
+
+        const existing = await prisma.approver.findFirst({
+            where: pubkey ? { OR: [{ name }, { pubkey }] } : { name },
+            select: { name: true },
+        });
+        if (existing) {
+            throw new Error(existing.name === name
+                ? `Approver "${name}" already exists`
+                : 'An approver with this pubkey already exists');
+        }
+
+        const approver = await prisma.approver.create({ data: { name, pubkey } });
+        return this.toApprover(approver);
+    }
+
+    /**
+     * Remove an approver. Refuses if a quorum rule could no longer be met.
+     */
+    async deleteApprover(id: number): Promise<void> {
+        await this.requireApprover(id);
+
+        const [count, strictest] = await Promise.all([
+            prisma.approver.count(),
+            prisma.quorumRule.aggregate({ _max: { threshold: true } }),
+        ]);
+        const required = strictest._max.threshold ?? 0;
+        if (count - 1 < required) {
+            throw new Error(`Invalid approver removal: a quorum rule requires ${required} approvers`);
+        }
+
+        await prisma.approver.delete({ where: { id } });
+    }
+
+    /**
+     * Bind an approver without a pubkey to the calling browser (owners
+     * only, checked by the route). Returns the session token to store in
+     * the approver cookie. An approver already bound elsewhere has to be
+     * released there first, and a browser can only act as one approver.
+     */
+    async claimSession(id: number, holder: ApproverIdentity): Promise<string> {
+        const approver = await prisma.approver.findUnique({ where: { id } });
+        if (!approver) {
+            throw new Error('Approver not found');
+        }
+        if (approver.pubkey) {
+            throw new Error(`Invalid approver session: ${approver.name} approves by logging in with their pubkey`);
+        }
+        if (approver.sessionTokenHash) {
+            throw new Error(`An approver session already exists for ${approver.name}; stop using that device first`);
+        }
+        const current = await this.resolveApprover(holder);
+        if (current) {
+            throw new Error(`Invalid approver session: this browser already approves as ${current.name}`);
+        }
+
+        const token = generateApproverToken();
+        await prisma.approver.update({
+            where: { id },
+            data: { sessionTokenHash: hashApproverToken(token) },
+        });
+        return token;
+    }
+
+    async releaseSession(id: number): Promise<void> {
+        await prisma.approver.update({
+            where: { id },
+            data: { sessionTokenHash: null },
+        });
+    }
+
+    async createRule(request: CreateQuorumRuleRequest): Promise<QuorumRule> {
+        const keyName = request?.keyName?.trim() || null;
+        const kind = request?.kind ?? null;
+
+        if (keyName === null && kind === null) {
+            throw new Error('A key or an event kind is required for a quorum rule');
+        }
+        if (keyName !== null) {
+            const validation = validateKeyName(keyName);
+            if (!validation.valid) {
+                throw new Error(`Invalid key name: ${validation.error}`);
+            }
+        }
+        if (kind !== null && (!Number.isInteger(kind) || kind < 0 || kind > 65535)) {
+            throw new Error('Invalid event kind (use 0-65535)');
+        }
+
+        const threshold = request.threshold;
+        if (!Number.isInteger(threshold) || threshold < 1) {
+            throw new Error('Invalid threshold: must be a whole number of at least 1');
+        }
+        const approverCount = await prisma.approver.count();
+        if (threshold > approverCount) {
+            throw new Error(`Invalid threshold: only ${approverCount} approver${approverCount === 1 ? '' : 's'} configured`);
+        }
+
+        const rule = await prisma.quorumRule.create({
+            data: { keyName, kind, threshold },
+        });
+        invalidateQuorumRuleCache();
+        return this.toQuorumRule(rule);
+    }
+
+    /**
+     * Delete a rule. Requests already waiting keep the threshold they were created with.
+     */
+    async deleteRule(id: number): Promise<void> {
+        const rule = await prisma.quorumRule.findUnique({ where: { id }, select: { id: true } });
+        if (!rule) {
+            throw new Error('Quorum rule not found');
+        }
+        await prisma.quorumRule.delete({ where: { id } });
+        invalidateQuorumRuleCache();
+    }
+
+    /**
+     * Find the approver for the calling session. The dashboard login's
+     * pubkey takes precedence over a claimed UI session.
+     */
+    async resolveApprover(identity: ApproverIdentity): Promise<{ id: number; name: string } | null> {
+        if (identity.pubkey) {
+            const approver = await prisma.approver.findUnique({
+                where: { pubkey: identity.pubkey },
+                select: { id: true, name: true },
+            });
+            if (approver) {
+                return approver;
+            }
+        }
+        if (identity.sessionToken) {
+            // Pubkey approvers only count through their own login
+            return prisma.approver.findFirst({
+                where: { sessionTokenHash: hashApproverToken(identity.sessionToken), pubkey: null },
+                select: { id: true, name: true },
+            });
+        }
+        return null;
+    }
+
+    /**
+     * Record an approval for a quorum request and report whether the
+     * threshold has been reached
+     */
+    async recordApproval(
+        requestId: string,
+        threshold: number,
+        identity: ApproverIdentity
+    ): Promise<{ quorum: RequestQuorum; met: boolean }> {
+        const approver = identity.pubkey ? await this.resolveApprover(identity) : null;
+        if (!identity.pubkey || !approver) {
+            throw new Error(`Approver identity required: this request needs ${threshold} approvers`);
+        }
+
+        const byLogin = await prisma.requestApproval.findFirst({
+            where: { requestId, approvedBy: identity.pubkey },
+            include: { Approver: { select: { name: true } } },
+        });
+        if (byLogin) {
+            throw new Error(`Invalid approval: this login has already approved this request as ${byLogin.Approver.name}`);
+        }
+
+        const existing = await prisma.requestApproval.findUnique({
+            where: { requestId_approverId: { requestId, approverId: approver.id } },
+            select: { id: true },
+        });
+        if (existing) {
+            throw new Error(`Invalid approval: ${approver.name} has already approved this request`);
+        }
+
+        await prisma.requestApproval.create({
+            data: { requestId, approverId: approver.id, approvedBy: identity.pubkey },
+        });
+
+        const approvals = await prisma.requestApproval.findMany({
+            where: { requestId },
+            include: { Approver: { select: { name: true } } },
+            orderBy: { createdAt: 'asc' },
+        });
+        return {
+            quorum: toRequestQuorum(threshold, approvals),
+            met: approvals.length >= threshold,
+        };
+    }
+
+    private async requireApprover(id: number): Promise<void> {
+        const approver = await prisma.approver.findUnique({ where: { id }, select: { id: true } });
+        if (!approver) {
+            throw new Error('Approver not found');
+        }
+    }
+}
+
+// Singleton instance
+let quorumService: QuorumService | null = null;
+
+export function getQuorumService(): QuorumService {
+    if (!quorumService) {
+        quorumService = new QuorumService();
+    }
+    return quorumService;
+}
+
+export function setQuorumService(service: QuorumService): void {
+    quorumService = service;
+}
@@ -1,16 +1,48 @@
+import type { RelayHealth, RelayHealthResponse, RelayRole } from '@signet/types';
 import type { RelayPool, RelayStatus } from '../lib/relay-pool.js';
+import type { RelayFailoverConfig } from '../../config/types.js';
+import { RelayHealthTracker } from '../lib/relay-health.js';
 import { logger } from '../lib/logger.js';
+import { toErrorMessage } from '../lib/errors.js';
+import {
+    RELAY_FAILOVER_COOLDOWN_MS,
+    RELAY_FAILOVER_MIN_SCORE,
+    RELAY_PROBE_INTERVAL_MS,
+} from '../constants.js';
 
 /**
  * Monitors relay health and provides status to the UI.
- * Delegates to RelayPool for actual status tracking.
+ * Delegates to RelayPool for connection status tracking.
+ *
+ * Relay quality is scored from samples the pool reports plus a probe of
+ * every relay each round (including idle backups). When failover is on, a
+ * shared relay scoring below the threshold is swapped for the best healthy
+ * backup; a demoted relay becomes a backup candidate itself. Swaps only
+ * last until restart: nostr.relays in the config file is left alone.
  */
 export class RelayService {
     private readonly pool: RelayPool;
+    private readonly health = new RelayHealthTracker();
+    private readonly configuredRelays: string[];
+    private readonly backupRelays: string[];
+    private readonly failoverEnabled: boolean;
+    private readonly minScore: number;
+    // Configured relays failover took out of use
+    private readonly demoted = new Set<string>();
+    // When failover last promoted or demoted each relay
+    private readonly changedAt = new Map<string, number>();
+    private probeTimer?: NodeJS.Timeout;
+    private unsubscribe?: () => void;
+    private probing = false;
     private isRunning = false;
 
-    constructor(pool: RelayPool) {
+    constructor(pool: RelayPool, failover?: RelayFailoverConfig) {
         this.pool = pool;
+        this.configuredRelays = pool.getRelays();
+        this.backupRelays = Array.from(new Set(failover?.backupRelays ?? []))
+            .filter(url => !this.configuredRelays.includes(url));
+        this.failoverEnabled = failover?.enabled !== false && this.backupRelays.length > 0;
+        this.minScore = failover?.minScore ?? RELAY_FAILOVER_MIN_SCORE;
     }
 
     /**
@@ -22,7 +54,25 @@ export class RelayService {
         }
 
         this.isRunning = true;
-        logger.info('Relay health monitoring started');
+        this.unsubscribe = this.pool.on((event) => {
+            if (event.type === 'relay-sample') {
+                this.health.record(event.data);
+            }
+        });
+        this.pool.setAlternateRelayProvider((exclude) => this.getAlternateRelays(exclude));
+
+        const probe = () => {
+            this.runProbes().catch((error) => {
+                logger.error('Relay health probe failed', { error: toErrorMessage(error) });
+            });
+        };
+        this.probeTimer = setInterval(probe, RELAY_PROBE_INTERVAL_MS);
+        probe();
+
+        logger.info('Relay health monitoring started', {
+            backupRelays: this.backupRelays.length,
+            failover: this.failoverEnabled,
+        });
     }
 
     /**
@@ -34,6 +84,13 @@ export class RelayService {
         }
 
         this.isRunning = false;
+        if (this.probeTimer) {
+            clearInterval(this.probeTimer);
+            this.probeTimer = undefined;
+        }
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+        this.pool.setAlternateRelayProvider(undefined);
         logger.info('Relay health monitoring stopped');
     }
 
@@ -44,6 +101,13 @@ export class RelayService {
         return this.pool.getStatus();
     }
 
+    /**
+     * Shared relays currently in use (nostr.relays after any failover)
+     */
+    public getRelays(): string[] {
+        return this.pool.getRelays();
+    }
+
     /**
      * Get count of connected relays
      */
@@ -73,4 +137,152 @@ export class RelayService {
     public resetPool(): void {
         this.pool.resetPool();
     }
+
+    /**
+     * Health score and metrics for one relay
+     */
+    public getHealth(url: string): RelayHealth {
+        return this.health.getHealth(url);
+    }
+
+    /**
+     * Health, history and failover role of every relay Signet scores
+     */
+    public getHealthReport(): RelayHealthResponse {
+        return {
+            failover: { enabled: this.failoverEnabled, minScore: this.minScore },
+            relays: this.getScoredRelays().map((url) => {
+                const changedAt = this.changedAt.get(url);
+                return {
+                    url,
+                    role: this.getRole(url),
+                    health: this.health.getHealth(url),
+                    history: this.health.getHistory(url),
+                    changedAt: changedAt ? new Date(changedAt).toISOString() : null,
+                };
+            }),
+        };
+    }
+
+    /**
+     * Relays to retry a response on after every relay it went to failed:
+     * everything scored except `exclude`, healthiest first. Relays without
+     * enough samples rank as if they sat at the failover threshold.
+     */
+    public getAlternateRelays(exclude: string[]): string[] {
+        const tried = new Set(exclude);
+        const rank = (url: string) => this.health.getHealth(url).score ?? this.minScore;
+
+        return this.getScoredRelays()
+            .filter(url => !tried.has(url))
+            .map(url => ({ url, score: rank(url) }))
+            .sort((a, b) => b.score - a.score)
+            .map(({ url }) => url);
+    }
+
+    /**
+     * Probe every scored relay once, record a history point and fail over
+     * shared relays that score too low.
+     */
+    public async runProbes(): Promise<void> {
+        if (this.probing) {
+            return;
+        }
+
+        this.probing = true;
+        try {
+            const urls = this.getScoredRelays();
+            await Promise.allSettled(urls.map(url => this.pool.probeRelay(url)));
+            this.health.snapshot(urls);
+            this.health.retain(urls);
+            this.failOver();
+        } finally {
+            this.probing = false;
+        }
+    }
+
+    /**
+     * Relays in use (shared and per-key), configured relays that were demoted, and backups
+     */
+    private getScoredRelays(): string[] {
+        return Array.from(new Set([
+            ...this.pool.getTrackedRelays(),
+            ...this.configuredRelays,
+            ...this.backupRelays,
+        ]));
+    }
+
+    private getRole(url: string): RelayRole {
+        if (this.pool.getRelays().includes(url)) {
+            return this.configuredRelays.includes(url) ? 'active' : 'promoted';
+        }
+        if (this.demoted.has(url)) {
+            return 'demoted';
+        }
+        if (this.backupRelays.includes(url)) {
+            return 'backup';
+        }
+        return 'key';
+    }
+
+    private failOver(): void {
+        if (!this.failoverEnabled) {
+            return;
+        }
+
+        const now = Date.now();
+        for (const url of this.pool.getRelays()) {
+            const { score } = this.health.getHealth(url);
+            if (score === null || score >= this.minScore) {
+                continue;
+            }
+            const changedAt = this.changedAt.get(url);
+            if (changedAt !== undefined && now - changedAt < RELAY_FAILOVER_COOLDOWN_MS) {
+                continue;
+            }
+
+            const replacement = this.pickReplacement(score);
+            if (!replacement) {
+                logger.debug('Relay below failover threshold but no healthy backup', { relay: url, score });
+                continue;
+            }
+
+            this.pool.replaceRelay(url, replacement.url);
+            if (this.configuredRelays.includes(url)) {
+                this.demoted.add(url);
+            }
+            this.demoted.delete(replacement.url);
+            this.changedAt.set(url, now);
+            this.changedAt.set(replacement.url, now);
+            logger.warn('Relay failover', {
+                demoted: url,
+                score,
+                promoted: replacement.url,
+                promotedScore: replacement.score,
+            });
+        }
+    }
+
+    /**
+     * Best idle candidate that clears the threshold and beats the relay it replaces
+     */
+    private pickReplacement(currentScore: number): { url: string; score: number } | null {
+        const inUse = new Set(this.pool.getTrackedRelays());
+        let best: { url: string; score: number } | null = null;
+
+        for (const url of new Set([...this.demoted, ...this.backupRelays])) {
+            if (inUse.has(url)) {
+                continue;
+            }
+            const { score } = this.health.getHealth(url);
+            if (score === null || score < this.minScore || score <= currentScore) {
+                continue;
+            }
+            if (!best || score > best.score) {
+                best = { url, score };
+            }
+        }
+
+        return best;
+    }
 }
@@ -1,12 +1,20 @@
-import type { PendingRequest, ApprovalType } from '@signet/types';
+import type { PendingRequest, ApprovalType, ActivityEntry, RequestQuorum, TrustLevel } from '@signet/types';
 import type { StoredKey } from '../../config/types.js';
+import prisma from '../../db.js';
 import { REQUEST_EXPIRY_MS } from '../constants.js';
 import {
     requestRepository,
     type RequestStatus,
     type RequestRecord,
 } from '../repositories/index.js';
-import { parseEventPreview } from '../lib/parse.js';
+import { grantPermissionsByTrustLevel, permitAllRequests, type AllowScope } from '../lib/acl.js';
+import { extractEventKind, parseEventPreview } from '../lib/parse.js';
+import { toRequestQuorum } from '../lib/quorum.js';
+import { toResponseDelivery } from '../lib/response-delivery.js';
+import { appService } from './app-service.js';
+import { emitCurrentStats, getEventService } from './event-service.js';
+import { getQuorumService, type ApproverIdentity } from './quorum-service.js';
+import { getTrustProfileService } from './trust-profile-service.js';
 
 export interface RequestServiceConfig {
     allKeys: Record<string, StoredKey>;
@@ -16,8 +24,29 @@ export interface RequestQueryParams {
     status?: string;
     limit?: number;
     offset?: number;
+    /** Only requests for these keys (null or omitted for every key) */
+    keyNames?: string[] | null;
 }
 
+export interface ApproveRequestOptions {
+    /** Trust level for connect requests (defaults to 'reasonable') */
+    trustLevel?: TrustLevel;
+    /** Custom trust profile for connect requests (replaces trustLevel) */
+    trustProfileId?: number;
+    /** Grant the method for future requests too */
+    alwaysAllow?: boolean;
+    /** Limit an "always allow" grant to one event kind */
+    allowKind?: number;
+    /** App name for connect requests */
+    appName?: string;
+    /** Who is approving, for requests that need an approval quorum */
+    approver?: ApproverIdentity;
+}
+
+export type ApproveRequestResult =
+    | { status: 'approved' }
+    | { status: 'pending'; quorum: RequestQuorum };
+
 export class RequestService {
     private readonly config: RequestServiceConfig;
     private readonly REQUEST_TTL_MS = REQUEST_EXPIRY_MS;
@@ -35,7 +64,7 @@ export class RequestService {
         const limit = Math.min(50, Math.max(1, params.limit ?? 10));
         const offset = Math.max(0, params.offset ?? 0);
 
-        const records = await requestRepository.findMany({ status, limit, offset });
+        const records = await requestRepository.findMany({ status, limit, offset, keyNames: params.keyNames });
         const nowMillis = Date.now();
 
         return records.map(record => this.toApiResponse(record, nowMillis));
@@ -45,6 +74,198 @@ export class RequestService {
         return requestRepository.countPending();
     }
 
+    /**
+     * Find a pending request by the first characters of its ID.
+     * Throws if the prefix matches more than one pending request.
+     */
+    async findPendingByIdPrefix(prefix: string): Promise<RequestRecord | null> {
+        const matches = await requestRepository.findPendingByIdPrefix(prefix, 2);
+        if (matches.length > 1) {
+            throw new Error(`Invalid request ID: '${prefix}' matches several pending requests`);
+        }
+        return matches[0] ?? null;
+    }
+
+    /**
+     * Manually approve a pending request: grant permissions, log the approval
+     * and notify the dashboard. Requests that need an approval quorum only
+     * record the approval until enough approvers have approved.
+     */
+    async approvePendingRequest(id: string, options: ApproveRequestOptions = {}): Promise<ApproveRequestResult> {
+        const record = await requestRepository.findPending(id);
+        if (!record) {
+            throw new Error('Request not found or already processed');
+        }
+
+        const trustLevel = options.trustLevel ?? 'reasonable';
+        const { trustProfileId, alwaysAllow, allowKind, appName } = options;
+
+        // A custom trust profile replaces the trust level (connect only)
+        if (trustProfileId !== undefined && record.method === 'connect') {
+            if (!Number.isInteger(trustProfileId)) {
+                throw new Error('Invalid trust profile ID');
+            }
+            await getTrustProfileService().requireProfile(trustProfileId);
+        }
+
+        // Quorum requests only resolve once enough distinct approvers have approved
+        if (record.quorumThreshold !== null) {
+            const { quorum, met } = await getQuorumService().recordApproval(
+                record.id,
+                record.quorumThreshold,
+                options.approver ?? {}
+            );
+            if (!met) {
+                getEventService().emitRequestQuorum(record.id, quorum);
+                return { status: 'pending', quorum };
+            }
+        }
+
+        const processedAt = new Date();
+        await requestRepository.approve(record.id);
+
+        // For connect requests, use the trust level system (only if keyName is present)
+        if (record.keyName) {
+            if (record.method === 'connect') {
+                const appId = await grantPermissionsByTrustLevel(
+                    record.remotePubkey,
+                    record.keyName,
+                    trustLevel,
+                    appName || undefined,
+                    trustProfileId
+                );
+
+                // Emit app:connected event for real-time updates
+                const app = await appService.getAppById(appId);
+                if (app) {
+                    getEventService().emitAppConnected(app);
+                }
+            } else if (alwaysAllow) {
+                // For non-connect requests with "always allow", grant the specific method for future requests
+                // If allowKind is specified, only grant for that kind; otherwise grant for all kinds
+                const scope: AllowScope = allowKind !== undefined ? { kind: allowKind } : { kind: 'all' };
+                await permitAllRequests(record.remotePubkey, record.keyName, record.method, undefined, scope);
+            }
+            // If alwaysAllow is false, we only approve this single request (no SigningCondition created)
+        }
+
+        // Log the approved request
+        let logId = 0;
+        let loggedAppName: string | undefined;
+        if (record.keyName && record.remotePubkey) {
+            const keyUser = await prisma.keyUser.findUnique({
+                where: {
+                    unique_key_user: {
+                        keyName: record.keyName,
+                        userPubkey: record.remotePubkey,
+                    },
+                },
+            });
+
+            if (keyUser) {
+                loggedAppName = keyUser.description ?? undefined;
+                const log = await prisma.log.create({
+                    data: {
+                        timestamp: new Date(),
+                        type: 'approval',
+                        method: record.method,
+                        params: record.params,
+                        keyUserId: keyUser.id,
+                        approvalType: 'manual',
+                        requestId: record.id,
+                    },
+                });
+                logId = log.id;
+            }
+        }
+
+        const activity: ActivityEntry = {
+            id: logId,
+            timestamp: processedAt.toISOString(),
+            type: 'approval',
+            method: record.method ?? undefined,
+            eventKind: record.method === 'sign_event' ? extractEventKind(record.params) : undefined,
+            keyName: record.keyName ?? undefined,
+            userPubkey: record.remotePubkey ?? undefined,
+            appName: appName || loggedAppName,
+            autoApproved: false,
+            approvalType: 'manual',
+            requestId: record.id,
+        };
+
+        // Emit approval event for real-time updates
+        getEventService().emitRequestApproved(record.id, activity);
+
+        // Emit stats update (pending count and possibly app count changed)
+        await emitCurrentStats();
+
+        return { status: 'approved' };
+    }
+
+    /**
+     * Deny a pending request, log the denial and notify the dashboard
+     */
+    async denyPendingRequest(id: string): Promise<void> {
+        const record = await requestRepository.findById(id);
+        if (!record) {
+            throw new Error('Request not found');
+        }
+        if (record.allowed !== null) {
+            throw new Error('Request already processed');
+        }
+
+        await requestRepository.deny(id);
+
+        // Log the denial (no KeyUser created for denied apps)
+        let logId = 0;
+        if (record.keyName) {
+            const log = await prisma.log.create({
+                data: {
+                    timestamp: new Date(),
+                    type: 'denial',
+                    method: record.method,
+                    params: record.params,
+                    keyName: record.keyName,
+                    remotePubkey: record.remotePubkey,
+                    requestId: record.id,
+                },
+            });
+            logId = log.id;
+        }
+
+        // Look up app name from KeyUser if the app was already connected
+        let appName: string | undefined;
+        if (record.keyName && record.remotePubkey) {
+            const keyUser = await prisma.keyUser.findFirst({
+                where: {
+                    keyName: record.keyName,
+                    userPubkey: record.remotePubkey,
+                },
+                select: { description: true },
+            });
+            appName = keyUser?.description ?? undefined;
+        }
+
+        const activity: ActivityEntry = {
+            id: logId,
+            timestamp: new Date().toISOString(),
+            type: 'denial',
+            method: record.method ?? undefined,
+            eventKind: record.method === 'sign_event' ? extractEventKind(record.params) : undefined,
+            keyName: record.keyName ?? undefined,
+            userPubkey: record.remotePubkey ?? undefined,
+            appName,
+            autoApproved: false,
+            approvalType: undefined,
+            requestId: id,
+        };
+
+        getEventService().emitRequestDenied(id, activity);
+
+        // Emit stats update (pending count changed)
+        await emitCurrentStats();
+    }
+
     async approve(id: string): Promise<void> {
         await requestRepository.approve(id);
     }
@@ -78,6 +299,10 @@ export class RequestService {
             approvalType: (record.approvalType as ApprovalType) ?? undefined,
             appName: record.KeyUser?.description ?? null,
             allowed: record.allowed,
+            quorum: record.quorumThreshold !== null
+                ? toRequestQuorum(record.quorumThreshold, record.approvals ?? [])
+                : null,
+            delivery: toResponseDelivery(record.deliveryStatus, record.deliveryRelays, record.deliveryAt),
         };
     }
 }
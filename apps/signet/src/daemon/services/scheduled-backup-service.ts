@@ -0,0 +1,307 @@
+import createDebug from 'debug';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { ScheduledBackupStatus } from '@signet/types';
+import prisma from '../../db.js';
+import type { ScheduledBackupConfig } from '../../config/types.js';
+import { archiveFileStamp, openSnapshot, sealSnapshot } from '../lib/backup-archive.js';
+import { toErrorMessage } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import { getEventService } from './event-service.js';
+import {
+    SNAPSHOT_CHECK_INTERVAL_MS,
+    SNAPSHOT_INTERVAL_HOURS,
+    SNAPSHOT_KEEP,
+    SNAPSHOT_MAX_AGE_DAYS,
+    SNAPSHOT_RETRY_MS,
+} from '../constants.js';
+
+const debug = createDebug('signet:snapshots');
+
+const SNAPSHOT_FILE = /^signet-snapshot-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})\.json$/;
+const SQLITE_HEADER = 'SQLite format 3\0';
+const PASSPHRASE_ENV = 'SIGNET_BACKUP_PASSPHRASE';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface SnapshotFile {
+    name: string;
+    createdAt: number;
+}
+
+export interface ScheduledBackupServiceConfig {
+    configFile: string;
+    settings?: ScheduledBackupConfig;
+    signetVersion?: string;
+}
+
+/**
+ * Scheduled Backup Service
+ *
+ * Periodically writes an encrypted snapshot of signet.json and a consistent
+ * copy of the database, reads it back to verify it, then prunes old
+ * snapshots by count and age. Each outcome is emitted as a server event so
+ * failures show up on the dashboard.
+ */
+export class ScheduledBackupService {
+    private readonly configFile: string;
+    private readonly settings: ScheduledBackupConfig;
+    private readonly signetVersion?: string;
+    private readonly directory: string;
+    private readonly intervalMs: number;
+    private readonly keep: number;
+    private readonly maxAgeDays: number;
+
+    private checkTimer?: NodeJS.Timeout;
+    private running = false;
+    private snapshotCount = 0;
+    private nextRunAt: number | null = null;
+    private lastSuccessAt: number | null = null;
+    private lastFile: string | null = null;
+    private lastSizeBytes: number | null = null;
+    private lastFailureAt: number | null = null;
+    private lastError: string | null = null;
+
+    constructor(config: ScheduledBackupServiceConfig) {
+        this.configFile = config.configFile;
+        this.settings = config.settings ?? {};
+        this.signetVersion = config.signetVersion;
+        this.directory = resolve(dirname(config.configFile), this.settings.directory ?? 'backups');
+        this.intervalMs = positiveOr(this.settings.intervalHours, SNAPSHOT_INTERVAL_HOURS) * HOUR_MS;
+        this.keep = Math.floor(positiveOr(this.settings.keep, SNAPSHOT_KEEP));
+        this.maxAgeDays = this.settings.maxAgeDays !== undefined && this.settings.maxAgeDays >= 0
+            ? this.settings.maxAgeDays
+            : SNAPSHOT_MAX_AGE_DAYS;
+    }
+
+    get enabled(): boolean {
+        return this.settings.enabled === true;
+    }
+
+    /**
+     * Pick up where earlier runs left off and start checking whether a
+     * snapshot is due. Does nothing unless enabled in signet.json.
+     */
+    start(): void {
+        if (!this.enabled || this.checkTimer) {
+            return;
+        }
+
+        const snapshots = this.listSnapshots();
+        this.snapshotCount = snapshots.length;
+        const newest = snapshots[0];
+        if (newest) {
+            this.lastSuccessAt = newest.createdAt;
+            this.lastFile = newest.name;
+            this.lastSizeBytes = statSync(join(this.directory, newest.name)).size;
+        }
+        // Overdue snapshots are taken on the first check, a minute after startup
+        this.nextRunAt = newest ? newest.createdAt + this.intervalMs : Date.now();
+
+        if (!this.getPassphrase()) {
+            logger.warn(`Scheduled backups are enabled but no passphrase is set (${PASSPHRASE_ENV} or backups.passphrase)`);
+        }
+
+        this.checkTimer = setInterval(() => {
+            if (this.nextRunAt !== null && Date.now() >= this.nextRunAt && !this.running) {
+                this.runNow().catch(() => {
+                    // Already logged and emitted
+                });
+            }
+        }, SNAPSHOT_CHECK_INTERVAL_MS);
+
+        logger.info('Scheduled backups active', {
+            directory: this.directory,
+            intervalHours: this.intervalMs / HOUR_MS,
+            nextRunAt: new Date(this.nextRunAt).toISOString(),
+        });
+    }
+
+    stop(): void {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+            this.checkTimer = undefined;
+        }
+        debug('stopped');
+    }
+
+    getStatus(): ScheduledBackupStatus {
+        return {
+            enabled: this.enabled,
+            directory: this.enabled ? this.directory : null,
+            intervalHours: this.intervalMs / HOUR_MS,
+            keep: this.keep,
+            maxAgeDays: this.maxAgeDays,
+            snapshots: this.snapshotCount,
+            running: this.running,
+            lastSuccessAt: toIso(this.lastSuccessAt),
+            lastFile: this.lastFile,
+            lastSizeBytes: this.lastSizeBytes,
+            lastFailureAt: toIso(this.lastFailureAt),
+            lastError: this.lastError,
+            nextRunAt: this.enabled ? toIso(this.nextRunAt) : null,
+        };
+    }
+
+    /**
+     * Take a snapshot now. Resolves with the updated status, or rejects
+     * with the reason the snapshot failed.
+     */
+    async runNow(): Promise<ScheduledBackupStatus> {
+        if (this.running) {
+            throw new Error('A snapshot is already being written');
+        }
+        this.running = true;
+
+        try {
+            const { name, sizeBytes, createdAt } = await this.writeSnapshot();
+            const pruned = this.prune(name);
+
+            this.lastSuccessAt = createdAt;
+            this.lastFile = name;
+            this.lastSizeBytes = sizeBytes;
+            this.lastFailureAt = null;
+            this.lastError = null;
+            this.nextRunAt = createdAt + this.intervalMs;
+            this.snapshotCount = this.listSnapshots().length;
+            this.running = false;
+
+            logger.info('Snapshot written', { file: name, sizeBytes, pruned });
+            const status = this.getStatus();
+            getEventService().emitBackupCompleted(status);
+            return status;
+        } catch (error) {
+            this.lastFailureAt = Date.now();
+            this.lastError = toErrorMessage(error);
+            this.nextRunAt = this.lastFailureAt + SNAPSHOT_RETRY_MS;
+            this.running = false;
+
+            logger.error('Snapshot failed', { error: this.lastError, directory: this.directory });
+            getEventService().emitBackupFailed(this.getStatus());
+            throw error;
+        }
+    }
+
+    private async writeSnapshot(): Promise<{ name: string; sizeBytes: number; createdAt: number }> {
+        const passphrase = this.getPassphrase();
+        if (!passphrase) {
+            throw new Error(`No backup passphrase: set ${PASSPHRASE_ENV} or backups.passphrase in signet.json`);
+        }
+
+        mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+        const now = new Date();
+        const name = `signet-snapshot-${archiveFileStamp(now.toISOString())}.json`;
+        const path = join(this.directory, name);
+        const databaseCopy = join(this.directory, `.${name}.db.tmp`);
+        const partial = join(this.directory, `.${name}.tmp`);
+
+        let database: Buffer;
+        try {
+            rmSync(databaseCopy, { force: true });
+            // VACUUM INTO copies a consistent view of the database, even while it is being written to
+            await prisma.$executeRaw`VACUUM INTO ${databaseCopy}`;
+            database = readFileSync(databaseCopy);
+        } finally {
+            rmSync(databaseCopy, { force: true });
+        }
+        if (database.subarray(0, SQLITE_HEADER.length).toString('latin1') !== SQLITE_HEADER) {
+            throw new Error('Database copy is not a SQLite file');
+        }
+
+        const config = readFileSync(this.configFile, 'utf8');
+        const { archive, manifest } = sealSnapshot(
+            { createdAt: now.toISOString(), signetVersion: this.signetVersion },
+            config,
+            database,
+            passphrase
+        );
+
+        // Written under a temporary name so a crash never leaves a truncated snapshot behind
+        writeFileSync(partial, archive, { encoding: 'utf8', mode: 0o600 });
+        renameSync(partial, path);
+
+        try {
+            const written = openSnapshot(readFileSync(path, 'utf8'), passphrase);
+            if (written.manifest.configChecksum !== manifest.configChecksum
+                || written.manifest.databaseChecksum !== manifest.databaseChecksum) {
+                throw new Error('checksums differ from what was written');
+            }
+        } catch (error) {
+            rmSync(path, { force: true });
+            throw new Error(`Snapshot verification failed: ${toErrorMessage(error)}`);
+        }
+
+        return { name, sizeBytes: Buffer.byteLength(archive), createdAt: now.getTime() };
+    }
+
+    /**
+     * Delete snapshots beyond the newest `keep`, and any older than
+     * `maxAgeDays`. The snapshot just written is always kept.
+     */
+    private prune(latest: string): number {
+        const cutoff = this.maxAgeDays > 0 ? Date.now() - this.maxAgeDays * DAY_MS : null;
+        let pruned = 0;
+
+        this.listSnapshots().forEach((snapshot, index) => {
+            if (snapshot.name === latest) {
+                return;
+            }
+            if (index >= this.keep || (cutoff !== null && snapshot.createdAt < cutoff)) {
+                try {
+                    rmSync(join(this.directory, snapshot.name));
+                    pruned++;
+                } catch (error) {
+                    logger.warn('Failed to delete old snapshot', { file: snapshot.name, error: toErrorMessage(error) });
+                }
+            }
+        });
+        return pruned;
+    }
+
+    /**
+     * Snapshots in the directory, newest first
+     */
+    private listSnapshots(): SnapshotFile[] {
+        if (!existsSync(this.directory)) {
+            return [];
+        }
+
+        const snapshots: SnapshotFile[] = [];
+        for (const name of readdirSync(this.directory)) {
+            const match = SNAPSHOT_FILE.exec(name);
+            if (match) {
+                const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+                snapshots.push({ name, createdAt: Date.UTC(year, month - 1, day, hour, minute, second) });
+            }
+        }
+        return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    private getPassphrase(): string | undefined {
+        return process.env[PASSPHRASE_ENV] || this.settings.passphrase || undefined;
+    }
+}
+
+function positiveOr(value: number | undefined, fallback: number): number {
+    return value !== undefined && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function toIso(timestamp: number | null): string | null {
+    return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+let scheduledBackupService: ScheduledBackupService | null = null;
+
+export function initScheduledBackupService(config: ScheduledBackupServiceConfig): ScheduledBackupService {
+    scheduledBackupService = new ScheduledBackupService(config);
+    return scheduledBackupService;
+}
+
+export function getScheduledBackupService(): ScheduledBackupService {
+    if (!scheduledBackupService) {
+        throw new Error('ScheduledBackupService not initialized');
+    }
+    return scheduledBackupService;
+}
@@ -0,0 +1,214 @@
+import type { AppTrustProfile, BuiltInTrustProfile, SaveTrustProfileRequest, TrustLevel, TrustProfile, TrustProfileMethod, TrustProfilesResponse } from '@signet/types';
+import prisma from '../../db.js';
+import { SAFE_KINDS, getTrustLevelInfo, invalidateAclCacheForApps } from '../lib/acl.js';
+import { isTrustProfileMethod, parseProfileKinds, parseProfileMethods } from '../lib/trust-profile.js';
+import { MAX_APP_NAME_LENGTH, MAX_TRUST_PROFILE_KINDS, TRUST_PROFILE_METHODS, VALID_TRUST_LEVELS } from '../constants.js';
+import { getEventService } from './event-service.js';
+
+type TrustProfileRecord = {
+    id: number;
+    name: string;
+    description: string | null;
+    kinds: string;
+    methods: string;
+    createdAt: Date;
+    updatedAt: Date;
+    _count: { KeyUser: number };
+};
+
+const APP_COUNT_INCLUDE = { _count: { select: { KeyUser: { where: { revokedAt: null } } } } } as const;
+
+function builtIn(trustLevel: TrustLevel, kinds: number[] | 'all', methods: TrustProfileMethod[]): BuiltInTrustProfile {
+    const info = getTrustLevelInfo(trustLevel);
+    return { trustLevel, name: info.label, description: info.description, kinds, methods };
+}
+
+/**
+ * The built-in trust levels, described in profile terms. These are read-only.
+ */
+export function getBuiltInTrustProfiles(): BuiltInTrustProfile[] {
+    return [
+        builtIn('paranoid', [], []),
+        builtIn('reasonable', [...SAFE_KINDS], ['nip44_encrypt', 'nip44_decrypt']),
+        builtIn('full', 'all', [...TRUST_PROFILE_METHODS]),
+    ];
+}
+
+/**
+ * Service for custom trust profiles.
+ *
+ * A profile replaces an app's trust level: connect, ping and get_public_key
+ * are always approved, and only the profile's kinds and methods are
+ * auto-approved beyond that. Changing or deleting a profile invalidates the
+ * ACL cache for every app using it; deleted profiles leave their apps at
+ * paranoid.
+ */
+export class TrustProfileService {
+    private toTrustProfile(profile: TrustProfileRecord): TrustProfile {
+        return {
+            id: profile.id,
+            name: profile.name,
+            description: profile.description,
+            kinds: parseProfileKinds(profile.kinds),
+            methods: parseProfileMethods(profile.methods),
+            appCount: profile._count.KeyUser,
+            createdAt: profile.createdAt.toISOString(),
+            updatedAt: profile.updatedAt.toISOString(),
+        };
+    }
+
+    /**
+     * Validate and normalize a profile from the API
+     */
+    private parseRequest(request: SaveTrustProfileRequest): { name: string; description: string | null; kinds: number[]; methods: TrustProfileMethod[] } {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Trust profile name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid trust profile name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+        if ((VALID_TRUST_LEVELS as readonly string[]).includes(name.toLowerCase())) {
+            throw new Error('Invalid trust profile name: reserved for a built-in trust level');
+        }
+
+        const kinds = request.kinds ?? [];
+        if (!Array.isArray(kinds) || !kinds.every((kind) => Number.isInteger(kind) && kind >= 0 && kind <= 65535)) {
+            throw new Error('Invalid trust profile kinds (use event kind numbers 0-65535)');
+        }
+        if (kinds.length > MAX_TRUST_PROFILE_KINDS) {
+            throw new Error(`Invalid trust profile: at most ${MAX_TRUST_PROFILE_KINDS} kinds allowed`);
+        }
+
+        const methods = request.methods ?? [];
+        if (!Array.isArray(methods)) {
+            throw new Error('Invalid trust profile methods');
+        }
+        const invalidMethods = methods.filter((method) => !isTrustProfileMethod(method));
+        if (invalidMethods.length > 0) {
+            throw new Error(`Invalid method(s): ${invalidMethods.join(', ')}. Valid methods: ${TRUST_PROFILE_METHODS.join(', ')}`);
+        }
+
+        return {
+            name,
+            description: request.description?.trim() || null,
+            kinds: [...new Set(kinds)].sort((a, b) => a - b),
+            methods: [...new Set(methods)],
+        };
+    }
+
+    private async assertNameAvailable(name: string, excludeId?: number): Promise<void> {
+        const existing = await prisma.trustProfile.findUnique({
+            where: { name },
+            select: { id: true },
+        });
+        if (existing && existing.id !== excludeId) {
+            throw new Error(`Trust profile "${name}" already exists`);
+        }
+    }
+
+    private async findProfileApps(trustProfileId: number): Promise<Array<{ keyName: string; userPubkey: string }>> {
+        return prisma.keyUser.findMany({
+            where: { trustProfileId },
+            select: { keyName: true, userPubkey: true },
+        });
+    }
+
+    /**
+     * Drop cached ACL decisions for a profile's apps and tell clients to refetch apps
+     */
+    private refreshApps(apps: Array<{ keyName: string; userPubkey: string }>): void {
+        if (apps.length === 0) {
+            return;
+        }
+        invalidateAclCacheForApps(apps);
+        getEventService().emitAppsUpdated();
+    }
+
+    async listProfiles(): Promise<TrustProfilesResponse> {
+        const profiles = await prisma.trustProfile.findMany({
+            include: APP_COUNT_INCLUDE,
+            orderBy: { name: 'asc' },
+        });
+        return {
+            builtIn: getBuiltInTrustProfiles(),
+            profiles: profiles.map((profile) => this.toTrustProfile(profile)),
+        };
+    }
+
+    /**
+     * Look up a profile for assigning it to an app
+     */
+    async requireProfile(id: number): Promise<AppTrustProfile> {
+        const profile = await prisma.trustProfile.findUnique({
+            where: { id },
+            select: { id: true, name: true },
+        });
+        if (!profile) {
+            throw new Error('Trust profile not found');
+        }
+        return profile;
+    }
+
+    async createProfile(request: SaveTrustProfileRequest): Promise<TrustProfile> {
+        const data = this.parseRequest(request);
+        await this.assertNameAvailable(data.name);
+
+        const profile = await prisma.trustProfile.create({
+            data: {
+                name: data.name,
+                description: data.description,
+                kinds: JSON.stringify(data.kinds),
+                methods: JSON.stringify(data.methods),
+            },
+            include: APP_COUNT_INCLUDE,
+        });
+        return this.toTrustProfile(profile);
+    }
+
+    async updateProfile(id: number, request: SaveTrustProfileRequest): Promise<TrustProfile> {
+        await this.requireProfile(id);
+        const data = this.parseRequest(request);
+        await this.assertNameAvailable(data.name, id);
+
+        const profile = await prisma.trustProfile.update({
+            where: { id },
+            data: {
+                name: data.name,
+                description: data.description,
+                kinds: JSON.stringify(data.kinds),
+                methods: JSON.stringify(data.methods),
+            },
+            include: APP_COUNT_INCLUDE,
+        });
+
+        this.refreshApps(await this.findProfileApps(id));
+        return this.toTrustProfile(profile);
+    }
+
+    /**
+     * Delete a profile. Apps using it fall back to paranoid.
+     */
+    async deleteProfile(id: number): Promise<void> {
+        await this.requireProfile(id);
+
+        // Collect the apps before the relation is cleared so their cache entries can be dropped
+        const apps = await this.findProfileApps(id);
+        await prisma.trustProfile.delete({ where: { id } });
+        this.refreshApps(apps);
+    }
+}
+
+// Singleton instance
+let trustProfileService: TrustProfileService | null = null;
+
+export function getTrustProfileService(): TrustProfileService {
+    if (!trustProfileService) {
+        trustProfileService = new TrustProfileService();
+    }
+    return trustProfileService;
+}
+
+export function setTrustProfileService(service: TrustProfileService): void {
+    trustProfileService = service;
+}
@@ -0,0 +1,407 @@
+import crypto from 'crypto';
+import type {
+    CreateWebhookRequest,
+    UpdateWebhookRequest,
+    Webhook,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEventType,
+    WebhookPayload,
+} from '@signet/types';
+import prisma from '../../db.js';
+import type { EventService, ServerEvent } from './event-service.js';
+import {
+    WEBHOOK_DELIVERY_HEADER,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_EVENT_TYPES,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    generateWebhookSecret,
+    getRetryDelay,
+    isWebhookEventType,
+    parseWebhookEvents,
+    parseWebhookUrl,
+    signWebhookPayload,
+    toWebhookData,
+} from '../lib/webhooks.js';
+import { logger } from '../lib/logger.js';
+import { toErrorMessage } from '../lib/errors.js';
+import {
+    MAX_APP_NAME_LENGTH,
+    MAX_WEBHOOK_DELIVERIES,
+    MAX_WEBHOOKS,
+    WEBHOOK_TIMEOUT_MS,
+} from '../constants.js';
+
+type WebhookRecord = {
+    id: number;
+    name: string;
+    url: string;
+    events: string;
+    secret: string;
+    enabled: boolean;
+    createdAt: Date;
+};
+
+type DeliveryRecord = {
+    id: string;
+    webhookId: number;
+    eventType: string;
+    payload: string;
+    status: string;
+    attempts: number;
+    responseStatus: number | null;
+    error: string | null;
+    nextAttemptAt: Date | null;
+    createdAt: Date;
+    deliveredAt: Date | null;
+};
+
+/** Delivery log entries returned per request */
+const DELIVERY_PAGE_SIZE = 50;
+
+function parseEvents(events: unknown): WebhookEventType[] {
+    if (!Array.isArray(events) || events.length === 0) {
+        throw new Error('At least one event is required');
+    }
+    const invalid = events.find((type) => !isWebhookEventType(type));
+    if (invalid !== undefined) {
+        throw new Error(`Invalid event: ${String(invalid)} (use ${WEBHOOK_EVENT_TYPES.join(', ')})`);
+    }
+    return WEBHOOK_EVENT_TYPES.filter((type) => events.includes(type));
+}
+
+function parseUrl(url: unknown): string {
+    const parsed = parseWebhookUrl(url);
+    if (!parsed) {
+        throw new Error('Invalid webhook URL (use http or https)');
+    }
+    return parsed;
+}
+
+/**
+ * Service for outbound webhooks.
+ *
+ * Subscribes to the event service and POSTs a signed JSON payload to every
+ * enabled webhook that wants the event. Failed deliveries are retried with
+ * backoff; each attempt is recorded in a per-webhook delivery log, and
+ * pending retries are picked up again after a restart.
+ */
+export class WebhookService {
+    private readonly webhooks = new Map<number, WebhookRecord>();
+    private readonly retryTimers = new Map<string, NodeJS.Timeout>();
+    private unsubscribe: (() => void) | null = null;
+
+    private toWebhook(webhook: WebhookRecord): Webhook {
+        return {
+            id: webhook.id,
+            name: webhook.name,
+            url: webhook.url,
+            events: parseWebhookEvents(webhook.events),
+            enabled: webhook.enabled,
+            createdAt: webhook.createdAt.toISOString(),
+        };
+    }
+
+    private toDelivery(delivery: DeliveryRecord): WebhookDelivery {
+        return {
+            id: delivery.id,
+            webhookId: delivery.webhookId,
+            eventType: delivery.eventType,
+            status: delivery.status as WebhookDeliveryStatus,
+            attempts: delivery.attempts,
+            responseStatus: delivery.responseStatus,
+            error: delivery.error,
+            nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+            createdAt: delivery.createdAt.toISOString(),
+            deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+        };
+    }
+
+    /**
+     * Load webhooks, resume pending retries and start listening for events
+     */
+    async start(eventService: EventService): Promise<void> {
+        const webhooks = await prisma.webhook.findMany();
+        this.webhooks.clear();
+        for (const webhook of webhooks) {
+            this.webhooks.set(webhook.id, webhook);
+        }
+
+        const pending = await prisma.webhookDelivery.findMany({
+            where: { status: 'pending' },
+            select: { id: true, nextAttemptAt: true },
+        });
+        for (const delivery of pending) {
+            this.scheduleAttempt(delivery.id, (delivery.nextAttemptAt?.getTime() ?? 0) - Date.now());
+        }
+        if (pending.length > 0) {
+            logger.info('Resuming webhook deliveries', { count: pending.length });
+        }
+
+        this.unsubscribe?.();
+        this.unsubscribe = eventService.subscribe((event) => this.handleEvent(event));
+    }
+
+    stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        for (const timer of this.retryTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.retryTimers.clear();
+    }
+
+    async listWebhooks(): Promise<Webhook[]> {
+        const webhooks = await prisma.webhook.findMany({ orderBy: { name: 'asc' } });
+        return webhooks.map((webhook) => this.toWebhook(webhook));
+    }
+
+    /**
+     * Create a webhook. The signing secret is returned once.
+     */
+    async createWebhook(request: CreateWebhookRequest): Promise<{ webhook: Webhook; secret: string }> {
+        const name = request?.name?.trim();
+        if (!name) {
+            throw new Error('Webhook name is required');
+        }
+        if (name.length > MAX_APP_NAME_LENGTH) {
+            throw new Error(`Invalid webhook name: must be at most ${MAX_APP_NAME_LENGTH} characters`);
+        }
+        const url = parseUrl(request.url);
+        const events = parseEvents(request.events);
+
+        const count = await prisma.webhook.count();
+        if (count >= MAX_WEBHOOKS) {
+            throw new Error(`Invalid webhook: at most ${MAX_WEBHOOKS} webhooks allowed`);
+        }
+
+        const existing = await prisma.webhook.findUnique({ where: { name }, select: { id: true } });
+        if (existing) {
+            throw new Error(`Webhook "${name}" already exists`);
+        }
+
+        const secret = generateWebhookSecret();
+        const webhook = await prisma.webhook.create({
+            data: { name, url, events: events.join(','), secret },
+        });
+        this.webhooks.set(webhook.id, webhook);
+        logger.info('Webhook created', { name, events });
+        return { webhook: this.toWebhook(webhook), secret };
+    }
+
+    async updateWebhook(id: number, request: UpdateWebhookRequest): Promise<Webhook> {
+        await this.requireWebhook(id);
+
+        const data: { url?: string; events?: string; enabled?: boolean } = {};
+        if (request?.url !== undefined) {
+            data.url = parseUrl(request.url);
+        }
+        if (request?.events !== undefined) {
+            data.events = parseEvents(request.events).join(',');
+        }
+        if (request?.enabled !== undefined) {
+            if (typeof request.enabled !== 'boolean') {
+                throw new Error('Invalid enabled flag');
+            }
+            data.enabled = request.enabled;
+        }
+
+        const webhook = await prisma.webhook.update({ where: { id }, data });
+        this.webhooks.set(webhook.id, webhook);
+        return this.toWebhook(webhook);
+    }
+
+    /**
+     * Delete a webhook and its delivery log. Pending retries are dropped.
+     */
+    async deleteWebhook(id: number): Promise<void> {
+        const webhook = await this.requireWebhook(id);
+        await prisma.webhook.delete({ where: { id } });
+        this.webhooks.delete(id);
+        logger.info('Webhook deleted', { name: webhook.name });
+    }
+
+    async listDeliveries(id: number): Promise<WebhookDelivery[]> {
+        await this.requireWebhook(id);
+        const deliveries = await prisma.webhookDelivery.findMany({
+            where: { webhookId: id },
+            orderBy: { createdAt: 'desc' },
+            take: DELIVERY_PAGE_SIZE,
+        });
+        return deliveries.map((delivery) => this.toDelivery(delivery));
+    }
+
+    /**
+     * Send a `webhook:test` event, whatever the webhook subscribes to
+     */
+    async sendTest(id: number): Promise<WebhookDelivery> {
+        const webhook = await this.requireWebhook(id);
+        const delivery = await this.enqueue(webhook, 'webhook:test', { webhookId: webhook.id, name: webhook.name });
+        await this.attempt(delivery.id);
+        const result = await prisma.webhookDelivery.findUnique({ where: { id: delivery.id } });
+        return this.toDelivery(result ?? delivery);
+    }
+
+    private handleEvent(event: ServerEvent): void {
+        const message = toWebhookData(event);
+        if (!message) {
+            return;
+        }
+
+        for (const webhook of this.webhooks.values()) {
+            if (!webhook.enabled || !parseWebhookEvents(webhook.events).includes(message.type)) {
+                continue;
+            }
+            this.enqueue(webhook, message.type, message.data)
+                .then((delivery) => this.attempt(delivery.id))
+                .catch((error: unknown) => {
+                    logger.error('Failed to queue webhook delivery', { webhook: webhook.name, error: toErrorMessage(error) });
+                });
+        }
+    }
+
+    private async enqueue(
+        webhook: WebhookRecord,
+        type: WebhookPayload['type'],
+        data: Record<string, unknown>
+    ): Promise<DeliveryRecord> {
+        const id = crypto.randomUUID();
+        const payload: WebhookPayload = { id, type, timestamp: new Date().toISOString(), data };
+        const delivery = await prisma.webhookDelivery.create({
+            data: {
+                id,
+                webhookId: webhook.id,
+                eventType: type,
+                payload: JSON.stringify(payload),
+                status: 'pending',
+                nextAttemptAt: new Date(),
+            },
+        });
+        await this.pruneDeliveries(webhook.id);
+        return delivery;
+    }
+
+    /**
+     * Keep the delivery log to the newest entries per webhook
+     */
+    private async pruneDeliveries(webhookId: number): Promise<void> {
+        const stale = await prisma.webhookDelivery.findMany({
+            where: { webhookId },
+            orderBy: { createdAt: 'desc' },
+            skip: MAX_WEBHOOK_DELIVERIES,
+            select: { id: true },
+        });
+        if (stale.length > 0) {
+            await prisma.webhookDelivery.deleteMany({ where: { id: { in: stale.map((delivery) => delivery.id) } } });
+        }
+    }
+
+    private scheduleAttempt(deliveryId: string, delayMs: number): void {
+        clearTimeout(this.retryTimers.get(deliveryId));
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(deliveryId);
+            this.attempt(deliveryId).catch((error: unknown) => {
+                logger.error('Webhook delivery failed', { deliveryId, error: toErrorMessage(error) });
+            });
+        }, Math.max(0, delayMs));
+        timer.unref?.();
+        this.retryTimers.set(deliveryId, timer);
+    }
+
+    /**
+     * Send a delivery once, then record the outcome and schedule a retry if needed
+     */
+    private async attempt(deliveryId: string): Promise<void> {
+        const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+        if (!delivery || delivery.status !== 'pending') {
+            return;
+        }
+        const webhook = this.webhooks.get(delivery.webhookId);
+        if (!webhook) {
+            return;
+        }
+        if (!webhook.enabled && delivery.eventType !== 'webhook:test') {
+            await prisma.webhookDelivery.update({
+                where: { id: deliveryId },
+                data: { status: 'failed', error: 'Webhook disabled', nextAttemptAt: null },
+            });
+            return;
+        }
+
+        const attempts = delivery.attempts + 1;
+        const timestamp = Math.floor(Date.now() / 1000);
+        let responseStatus: number | null = null;
+        let error: string | null = null;
+
+        try {
+            const response = await fetch(webhook.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'Signet-Webhook',
+                    [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+                    [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+                    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+                },
+                body: delivery.payload,
+                signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+            });
+            responseStatus = response.status;
+            if (!response.ok) {
+                error = `HTTP ${response.status}`;
+            }
+        } catch (err) {
+            error = toErrorMessage(err);
+        }
+
+        if (!error) {
+            await prisma.webhookDelivery.update({
+                where: { id: deliveryId },
+                data: { status: 'delivered', attempts, responseStatus, error: null, nextAttemptAt: null, deliveredAt: new Date() },
+            });
+            return;
+        }
+
+        const retryDelay = getRetryDelay(attempts);
+        await prisma.webhookDelivery.update({
+            where: { id: deliveryId },
+            data: {
+                status: retryDelay === null ? 'failed' : 'pending',
+                attempts,
+                responseStatus,
+                error,
+                nextAttemptAt: retryDelay === null ? null : new Date(Date.now() + retryDelay),
+            },
+        });
+
+        if (retryDelay === null) {
+            logger.warn('Webhook delivery failed', { webhook: webhook.name, event: delivery.eventType, attempts, error });
+            return;
+        }
+        this.scheduleAttempt(deliveryId, retryDelay);
+    }
+
+    private async requireWebhook(id: number): Promise<WebhookRecord> {
+        const webhook = await prisma.webhook.findUnique({ where: { id } });
+        if (!webhook) {
+            throw new Error('Webhook not found');
+        }
+        return webhook;
+    }
+}
+
+// Singleton instance
+let webhookService: WebhookService | null = null;
+
+export function getWebhookService(): WebhookService {
+    if (!webhookService) {
+        webhookService = new WebhookService();
+    }
+    return webhookService;
+}
+
+export function setWebhookService(service: WebhookService): void {
+    webhookService = service;
+}
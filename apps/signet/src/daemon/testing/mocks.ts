@@ -73,6 +73,7 @@ export function createMockRequest(overrides: Partial<{
   allowed: boolean | null;
   createdAt: Date;
   processedAt: Date | null;
+  quorumThreshold: number | null;
 }> = {}) {
   return {
     id: 'test-request-id',
@@ -83,6 +84,7 @@ export function createMockRequest(overrides: Partial<{
     allowed: null,
     createdAt: new Date(),
     processedAt: null,
+    quorumThreshold: null,
     ...overrides,
   };
 }
@@ -101,7 +101,14 @@ exports.Prisma.RequestScalarFieldEnum = {
   allowed: 'allowed',
   autoApproved: 'autoApproved',
   approvalType: 'approvalType',
-  keyUserId: 'keyUserId'
+  keyUserId: 'keyUserId',
+  quorumThreshold: 'quorumThreshold',
+  rpcParams: 'rpcParams',
+  relays: 'relays',
+  respondedAt: 'respondedAt',
+  deliveryStatus: 'deliveryStatus',
+  deliveryRelays: 'deliveryRelays',
+  deliveryAt: 'deliveryAt'
 };
 
 exports.Prisma.KeyUserScalarFieldEnum = {
@@ -116,7 +123,20 @@ exports.Prisma.KeyUserScalarFieldEnum = {
   lastUsedAt: 'lastUsedAt',
   description: 'description',
   trustLevel: 'trustLevel',
-  nostrconnectRelays: 'nostrconnectRelays'
+  nostrconnectRelays: 'nostrconnectRelays',
+  quotas: 'quotas',
+  schedule: 'schedule',
+  trustProfileId: 'trustProfileId'
+};
+
+exports.Prisma.TrustProfileScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  kinds: 'kinds',
+  methods: 'methods',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
 };
 
 exports.Prisma.KeyScalarFieldEnum = {
@@ -135,7 +155,9 @@ exports.Prisma.SigningConditionScalarFieldEnum = {
   content: 'content',
   keyUserKeyName: 'keyUserKeyName',
   allowed: 'allowed',
-  keyUserId: 'keyUserId'
+  keyUserId: 'keyUserId',
+  policyRuleId: 'policyRuleId',
+  usageCount: 'usageCount'
 };
 
 exports.Prisma.LogScalarFieldEnum = {
@@ -148,7 +170,9 @@ exports.Prisma.LogScalarFieldEnum = {
   autoApproved: 'autoApproved',
   approvalType: 'approvalType',
   keyName: 'keyName',
-  remotePubkey: 'remotePubkey'
+  remotePubkey: 'remotePubkey',
+  requestId: 'requestId',
+  deliveryStatus: 'deliveryStatus'
 };
 
 exports.Prisma.PolicyScalarFieldEnum = {
@@ -205,7 +229,8 @@ exports.Prisma.AdminLogScalarFieldEnum = {
   clientVersion: 'clientVersion',
   ipAddress: 'ipAddress',
   command: 'command',
-  commandResult: 'commandResult'
+  commandResult: 'commandResult',
+  actor: 'actor'
 };
 
 exports.Prisma.SettingScalarFieldEnum = {
@@ -213,6 +238,86 @@ exports.Prisma.SettingScalarFieldEnum = {
   value: 'value'
 };
 
+exports.Prisma.ApproverScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  pubkey: 'pubkey',
+  sessionTokenHash: 'sessionTokenHash',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.QuorumRuleScalarFieldEnum = {
+  id: 'id',
+  keyName: 'keyName',
+  kind: 'kind',
+  threshold: 'threshold',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RequestApprovalScalarFieldEnum = {
+  id: 'id',
+  requestId: 'requestId',
+  approverId: 'approverId',
+  approvedBy: 'approvedBy',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.DashboardSessionScalarFieldEnum = {
+  id: 'id',
+  pubkey: 'pubkey',
+  method: 'method',
+  userAgent: 'userAgent',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  lastSeenAt: 'lastSeenAt',
+  revokedAt: 'revokedAt'
+};
+
+exports.Prisma.ApiTokenScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  tokenHash: 'tokenHash',
+  prefix: 'prefix',
+  scopes: 'scopes',
+  keyNames: 'keyNames',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  lastUsedAt: 'lastUsedAt'
+};
+
+exports.Prisma.OperatorScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  pubkey: 'pubkey',
+  role: 'role',
+  keyNames: 'keyNames',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WebhookScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  url: 'url',
+  events: 'events',
+  secret: 'secret',
+  enabled: 'enabled',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WebhookDeliveryScalarFieldEnum = {
+  id: 'id',
+  webhookId: 'webhookId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  responseStatus: 'responseStatus',
+  error: 'error',
+  nextAttemptAt: 'nextAttemptAt',
+  createdAt: 'createdAt',
+  deliveredAt: 'deliveredAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -227,6 +332,7 @@ exports.Prisma.NullsOrder = {
 exports.Prisma.ModelName = {
   Request: 'Request',
   KeyUser: 'KeyUser',
+  TrustProfile: 'TrustProfile',
   Key: 'Key',
   SigningCondition: 'SigningCondition',
   Log: 'Log',
@@ -235,7 +341,15 @@ exports.Prisma.ModelName = {
   Token: 'Token',
   ConnectionToken: 'ConnectionToken',
   AdminLog: 'AdminLog',
-  Setting: 'Setting'
+  Setting: 'Setting',
+  Approver: 'Approver',
+  QuorumRule: 'QuorumRule',
+  RequestApproval: 'RequestApproval',
+  DashboardSession: 'DashboardSession',
+  ApiToken: 'ApiToken',
+  Operator: 'Operator',
+  Webhook: 'Webhook',
+  WebhookDelivery: 'WebhookDelivery'
 };
 /**
  * Create the Client
@@ -245,10 +359,10 @@ const config = {
   "clientVersion": "7.3.0",
   "engineVersion": "9d6ad21cbbceab97458517b147a6a09ff43aa735",
   "activeProvider": "sqlite",
-  "inlineSchema": "generator client {\n  provider   = \"prisma-client-js\"\n  output     = \"../src/generated/client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel Request {\n  id           String    @id @default(uuid())\n  keyName      String?\n  createdAt    DateTime  @default(now())\n  processedAt  DateTime?\n  requestId    String\n  remotePubkey String\n  method       String\n  params       String?\n  allowed      Boolean?\n  autoApproved Boolean   @default(false)\n  approvalType String? // 'manual' | 'auto_trust' | 'auto_permission'\n  keyUserId    Int?\n  KeyUser      KeyUser?  @relation(fields: [keyUserId], references: [id])\n\n  @@index([allowed, createdAt])\n  @@index([remotePubkey])\n  @@index([keyUserId])\n}\n\nmodel KeyUser {\n  id                 Int                @id @default(autoincrement())\n  keyName            String\n  userPubkey         String\n  createdAt          DateTime           @default(now())\n  updatedAt          DateTime           @default(now()) @updatedAt\n  revokedAt          DateTime?\n  suspendedAt        DateTime? // When set, app is suspended and all requests are denied\n  suspendUntil       DateTime? // If set, app auto-resumes after this time\n  lastUsedAt         DateTime?\n  description        String?\n  trustLevel         String             @default(\"reasonable\") // 'paranoid' | 'reasonable' | 'full'\n  nostrconnectRelays String? // JSON array of relay URLs for nostrconnect apps (null for bunker apps)\n  logs               Log[]\n  signingConditions  SigningCondition[]\n  Token              Token[]\n  requests           Request[]\n\n  @@unique([keyName, userPubkey], name: \"unique_key_user\")\n  @@index([revokedAt])\n  @@index([suspendedAt])\n}\n\nmodel Key {\n  id        Int       @id @default(autoincrement())\n  keyName   String    @unique\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @default(now()) @updatedAt\n  deletedAt DateTime?\n  pubkey    String\n}\n\nmodel SigningCondition {\n  id             Int      @id @default(autoincrement())\n  method         String?\n  kind           String?\n  content        String?\n  keyUserKeyName String?\n  allowed        Boolean?\n  keyUserId      Int?\n  KeyUser        KeyUser? @relation(fields: [keyUserId], references: [id])\n\n  @@index([keyUserId])\n}\n\nmodel Log {\n  id           Int      @id @default(autoincrement())\n  timestamp    DateTime\n  type         String\n  method       String?\n  params       String?\n  keyUserId    Int?\n  autoApproved Boolean  @default(false)\n  approvalType String? // 'manual' | 'auto_trust' | 'auto_permission'\n  keyName      String? // Direct storage for denials (no KeyUser)\n  remotePubkey String? // Direct storage for denials (no KeyUser)\n  KeyUser      KeyUser? @relation(fields: [keyUserId], references: [id])\n\n  @@index([timestamp])\n  @@index([keyUserId])\n}\n\nmodel Policy {\n  id          Int          @id @default(autoincrement())\n  name        String\n  createdAt   DateTime     @default(now())\n  updatedAt   DateTime     @default(now()) @updatedAt\n  expiresAt   DateTime?\n  deletedAt   DateTime?\n  description String?\n  rules       PolicyRule[]\n  Token       Token[]\n}\n\nmodel PolicyRule {\n  id                Int     @id @default(autoincrement())\n  method            String\n  kind              String?\n  maxUsageCount     Int?\n  currentUsageCount Int?\n  policyId          Int?\n  Policy            Policy? @relation(fields: [policyId], references: [id])\n}\n\nmodel Token {\n  id         Int       @id @default(autoincrement())\n  keyName    String\n  token      String    @unique\n  clientName String\n  createdBy  String\n  createdAt  DateTime  @default(now())\n  updatedAt  DateTime  @default(now()) @updatedAt\n  deletedAt  DateTime?\n  expiresAt  DateTime?\n  redeemedAt DateTime?\n  keyUserId  Int?\n  policyId   Int?\n  policy     Policy?   @relation(fields: [policyId], references: [id])\n  KeyUser    KeyUser?  @relation(fields: [keyUserId], references: [id])\n\n  @@index([keyName])\n}\n\nmodel ConnectionToken {\n  id         Int       @id @default(autoincrement())\n  keyName    String\n  token      String    @unique\n  createdAt  DateTime  @default(now())\n  expiresAt  DateTime\n  redeemedAt DateTime?\n\n  @@index([keyName])\n  @@index([token])\n}\n\nmodel AdminLog {\n  id            Int      @id @default(autoincrement())\n  timestamp     DateTime @default(now())\n  eventType     String // key_locked, key_unlocked, app_suspended, app_unsuspended, daemon_started, command_executed\n  keyName       String? // For key events\n  appId         Int? // For app events (KeyUser id)\n  appName       String? // Denormalized for display\n  clientName    String? // signet-ui, signet-android, kill-switch\n  clientVersion String? // e.g., 1.3.0\n  ipAddress     String? // Client IP address\n  command       String? // For command_executed: the command that was sent\n  commandResult String? // For command_executed: the result/outcome\n\n  @@index([timestamp])\n  @@index([eventType])\n}\n\nmodel Setting {\n  key   String @id\n  value String\n}\n"
+  "inlineSchema": "generator client {\n  provider   = \"prisma-client-js\"\n  output     = \"../src/generated/client\"\n  engineType = \"client\"\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\nmodel Request {\n  id              String            @id @default(uuid())\n  keyName         String?\n  createdAt       DateTime          @default(now())\n  processedAt     DateTime?\n  requestId       String\n  remotePubkey    String\n  method          String\n  params          String?\n  allowed         Boolean?\n  autoApproved    Boolean           @default(false)\n  approvalType    String? // 'manual' | 'auto_trust' | 'auto_permission'\n  keyUserId       Int?\n  KeyUser         KeyUser?          @relation(fields: [keyUserId], references: [id])\n  quorumThreshold Int? // Approvals required before the request is allowed (null = one manual approval)\n  approvals       RequestApproval[]\n  rpcParams       String? // Full NIP-46 params (JSON) kept until the client is answered, so it can be resumed after a restart\n  relays          String? // Relays (JSON) the response goes out on\n  respondedAt     DateTime? // When the NIP-46 client was answered (null while a response is still owed)\n  deliveryStatus  String? // 'delivered' | 'failed' once the response was published\n  deliveryRelays  String? // Per-relay publish results (JSON)\n  deliveryAt      DateTime? // When the last publish attempt finished\n\n  @@index([allowed, createdAt])\n  @@index([remotePubkey])\n  @@index([keyUserId])\n}\n\nmodel KeyUser {\n  id                 Int                @id @default(autoincrement())\n  keyName            String\n  userPubkey         String\n  createdAt          DateTime           @default(now())\n  updatedAt          DateTime           @default(now()) @updatedAt\n  revokedAt          DateTime?\n  suspendedAt        DateTime? // When set, app is suspended and all requests are denied\n  suspendUntil       DateTime? // If set, app auto-resumes after this time\n  lastUsedAt         DateTime?\n  description        String?\n  trustLevel         String             @default(\"reasonable\") // 'paranoid' | 'reasonable' | 'full'\n  nostrconnectRelays String? // JSON array of relay URLs for nostrconnect apps (null for bunker apps)\n  quotas             String? // JSON rate limit config: { rules: QuotaRule[], overflow: 'deny' | 'manual' }\n  schedule           String? // JSON schedule: { timezone, windows: ScheduleWindow[], outside: 'deny' | 'manual' }\n  trustProfileId     Int? // Custom trust profile; replaces trustLevel for auto-approval when set\n  trustProfile       TrustProfile?      @relation(fields: [trustProfileId], references: [id], onDelete: SetNull)\n  logs               Log[]\n  signingConditions  SigningCondition[]\n  Token              Token[]\n  requests           Request[]\n\n  @@unique([keyName, userPubkey], name: \"unique_key_user\")\n  @@index([revokedAt])\n  @@index([suspendedAt])\n  @@index([trustProfileId])\n}\n\nmodel TrustProfile {\n  id          Int       @id @default(autoincrement())\n  name        String    @unique\n  description String?\n  kinds       String // JSON array of event kinds auto-approved for sign_event\n  methods     String // JSON array of other methods auto-approved (nip04/nip44 encrypt/decrypt)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @default(now()) @updatedAt\n  KeyUser     KeyUser[]\n}\n\nmodel Key {\n  id        Int       @id @default(autoincrement())\n  keyName   String    @unique\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @default(now()) @updatedAt\n  deletedAt DateTime?\n  pubkey    String\n}\n\nmodel SigningCondition {\n  id             Int         @id @default(autoincrement())\n  method         String?\n  kind           String?\n  content        String?\n  keyUserKeyName String?\n  allowed        Boolean?\n  keyUserId      Int?\n  KeyUser        KeyUser?    @relation(fields: [keyUserId], references: [id])\n  policyRuleId   Int? // Set when granted by a policy token; the rule's maxUsageCount applies per app\n  policyRule     PolicyRule? @relation(fields: [policyRuleId], references: [id])\n  usageCount     Int         @default(0) // Approvals through the policy rule for this app\n\n  @@index([keyUserId])\n  @@index([policyRuleId])\n}\n\nmodel Log {\n  id             Int      @id @default(autoincrement())\n  timestamp      DateTime\n  type           String\n  method         String?\n  params         String?\n  keyUserId      Int?\n  autoApproved   Boolean  @default(false)\n  approvalType   String? // 'manual' | 'auto_trust' | 'auto_permission'\n  keyName        String? // Direct storage for denials (no KeyUser)\n  remotePubkey   String? // Direct storage for denials (no KeyUser)\n  requestId      String? // Request record this entry logs, if any\n  deliveryStatus String? // Copied from the request once its response was published\n  KeyUser        KeyUser? @relation(fields: [keyUserId], references: [id])\n\n  @@index([timestamp])\n  @@index([keyUserId])\n  @@index([requestId])\n}\n\nmodel Policy {\n  id          Int          @id @default(autoincrement())\n  name        String\n  createdAt   DateTime     @default(now())\n  updatedAt   DateTime     @default(now()) @updatedAt\n  expiresAt   DateTime?\n  deletedAt   DateTime?\n  description String?\n  rules       PolicyRule[]\n  Token       Token[]\n}\n\nmodel PolicyRule {\n  id                Int                @id @default(autoincrement())\n  method            String\n  kind              String?\n  maxUsageCount     Int? // Limit for each app connected with the policy\n  currentUsageCount Int? // Approvals by every app together\n  policyId          Int?\n  Policy            Policy?            @relation(fields: [policyId], references: [id])\n  signingConditions SigningCondition[]\n}\n\nmodel Token {\n  id         Int       @id @default(autoincrement())\n  keyName    String\n  token      String    @unique\n  clientName String\n  createdBy  String\n  createdAt  DateTime  @default(now())\n  updatedAt  DateTime  @default(now()) @updatedAt\n  deletedAt  DateTime?\n  expiresAt  DateTime?\n  redeemedAt DateTime?\n  keyUserId  Int?\n  policyId   Int?\n  policy     Policy?   @relation(fields: [policyId], references: [id])\n  KeyUser    KeyUser?  @relation(fields: [keyUserId], references: [id])\n\n  @@index([keyName])\n}\n\nmodel ConnectionToken {\n  id         Int       @id @default(autoincrement())\n  keyName    String\n  token      String    @unique\n  createdAt  DateTime  @default(now())\n  expiresAt  DateTime\n  redeemedAt DateTime?\n\n  @@index([keyName])\n  @@index([token])\n}\n\nmodel AdminLog {\n  id            Int      @id @default(autoincrement())\n  timestamp     DateTime @default(now())\n  eventType     String // key_locked, key_unlocked, app_suspended, app_unsuspended, daemon_started, command_executed\n  keyName       String? // For key events\n  appId         Int? // For app events (KeyUser id)\n  appName       String? // Denormalized for display\n  clientName    String? // signet-ui, signet-android, kill-switch\n  clientVersion String? // e.g., 1.3.0\n  ipAddress     String? // Client IP address\n  command       String? // For command_executed: the command that was sent\n  commandResult String? // For command_executed: the result/outcome\n  actor         String? // token:<name> for API tokens, hex pubkey for dashboard logins\n\n  @@index([timestamp])\n  @@index([eventType])\n}\n\nmodel Setting {\n  key   String @id\n  value String\n}\n\n// A person allowed to approve requests that need a quorum\nmodel Approver {\n  id               Int               @id @default(autoincrement())\n  name             String            @unique\n  pubkey           String?           @unique // Hex pubkey, matched against the dashboard login\n  sessionTokenHash String?           @unique // SHA-256 of the approver cookie for a claimed UI session\n  createdAt        DateTime          @default(now())\n  approvals        RequestApproval[]\n}\n\n// Requires M approvers to sign matching events (per key, per kind, or both)\nmodel QuorumRule {\n  id        Int      @id @default(autoincrement())\n  keyName   String? // null = every key\n  kind      Int? // null = every event kind\n  threshold Int\n  createdAt DateTime @default(now())\n\n  @@index([keyName])\n}\n\nmodel RequestApproval {\n  id         Int      @id @default(autoincrement())\n  requestId  String\n  approverId Int\n  approvedBy String? // Hex pubkey of the dashboard login that approved; one approval per login\n  createdAt  DateTime @default(now())\n  Request    Request  @relation(fields: [requestId], references: [id], onDelete: Cascade)\n  Approver   Approver @relation(fields: [approverId], references: [id], onDelete: Cascade)\n\n  @@unique([requestId, approverId])\n  @@unique([requestId, approvedBy])\n}\n\n// A dashboard login, referenced by the auth cookie so it can be revoked\nmodel DashboardSession {\n  id         String    @id @default(uuid())\n  pubkey     String // Hex pubkey of the admin who logged in\n  method     String // nip07, nip46 or key\n  userAgent  String?\n  createdAt  DateTime  @default(now())\n  expiresAt  DateTime\n  lastSeenAt DateTime  @default(now())\n  revokedAt  DateTime?\n\n  @@index([pubkey])\n}\n\n// Long-lived token for scripts calling the REST API\nmodel ApiToken {\n  id         Int       @id @default(autoincrement())\n  name       String    @unique\n  tokenHash  String    @unique // SHA-256 of the token; the token itself is never stored\n  prefix     String // First characters of the token, for display\n  scopes     String // Comma-separated: read, requests, apps, keys\n  keyNames   String? // Comma-separated key names the token is limited to (null = every key)\n  createdAt  DateTime  @default(now())\n  expiresAt  DateTime?\n  lastUsedAt DateTime?\n}\n\n// Person allowed to log in to the dashboard with a limited role\nmodel Operator {\n  id        Int      @id @default(autoincrement())\n  name      String   @unique\n  pubkey    String   @unique\n  role      String // viewer, approver, app-manager, key-admin\n  keyNames  String? // Comma-separated key names the operator is limited to (null = every key)\n  createdAt DateTime @default(now())\n}\n\n// Outbound HTTP notification for server events\nmodel Webhook {\n  id         Int               @id @default(autoincrement())\n  name       String            @unique\n  url        String\n  events     String // Comma-separated event types, e.g. request:created,key:locked\n  secret     String // HMAC-SHA256 signing key, shown once when the webhook is created\n  enabled    Boolean           @default(true)\n  createdAt  DateTime          @default(now())\n  deliveries WebhookDelivery[]\n}\n\n// One event sent (or being retried) to a webhook\nmodel WebhookDelivery {\n  id             String    @id @default(uuid())\n  webhookId      Int\n  eventType      String\n  payload        String // JSON body, kept so retries survive a restart\n  status         String // pending, delivered, failed\n  attempts       Int       @default(0)\n  responseStatus Int?\n  error          String?\n  nextAttemptAt  DateTime?\n  createdAt      DateTime  @default(now())\n  deliveredAt    DateTime?\n  Webhook        Webhook   @relation(fields: [webhookId], references: [id], onDelete: Cascade)\n\n  @@index([webhookId, createdAt])\n  @@index([status])\n}\n"
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Request\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"remotePubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"autoApproved\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"approvalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToRequest\"}],\"dbName\":null},\"KeyUser\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userPubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trustLevel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nostrconnectRelays\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"Log\",\"relationName\":\"KeyUserToLog\"},{\"name\":\"signingConditions\",\"kind\":\"object\",\"type\":\"SigningCondition\",\"relationName\":\"KeyUserToSigningCondition\"},{\"name\":\"Token\",\"kind\":\"object\",\"type\":\"Token\",\"relationName\":\"KeyUserToToken\"},{\"name\":\"requests\",\"kind\":\"object\",\"type\":\"Request\",\"relationName\":\"KeyUserToRequest\"}],\"dbName\":null},\"Key\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pubkey\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"SigningCondition\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserKeyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToSigningCondition\"}],\"dbName\":null},\"Log\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"autoApproved\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"approvalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"remotePubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToLog\"}],\"dbName\":null},\"Policy\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rules\",\"kind\":\"object\",\"type\":\"PolicyRule\",\"relationName\":\"PolicyToPolicyRule\"},{\"name\":\"Token\",\"kind\":\"object\",\"type\":\"Token\",\"relationName\":\"PolicyToToken\"}],\"dbName\":null},\"PolicyRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxUsageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currentUsageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policyId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"Policy\",\"kind\":\"object\",\"type\":\"Policy\",\"relationName\":\"PolicyToPolicyRule\"}],\"dbName\":null},\"Token\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"redeemedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policyId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policy\",\"kind\":\"object\",\"type\":\"Policy\",\"relationName\":\"PolicyToToken\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToToken\"}],\"dbName\":null},\"ConnectionToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"redeemedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AdminLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"appName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"command\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"commandResult\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Setting\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Request\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"remotePubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"autoApproved\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"approvalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToRequest\"},{\"name\":\"quorumThreshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"RequestApproval\",\"relationName\":\"RequestToRequestApproval\"},{\"name\":\"rpcParams\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"relays\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"respondedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveryStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryRelays\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"KeyUser\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userPubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trustLevel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nostrconnectRelays\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quotas\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"schedule\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trustProfileId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"trustProfile\",\"kind\":\"object\",\"type\":\"TrustProfile\",\"relationName\":\"KeyUserToTrustProfile\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"Log\",\"relationName\":\"KeyUserToLog\"},{\"name\":\"signingConditions\",\"kind\":\"object\",\"type\":\"SigningCondition\",\"relationName\":\"KeyUserToSigningCondition\"},{\"name\":\"Token\",\"kind\":\"object\",\"type\":\"Token\",\"relationName\":\"KeyUserToToken\"},{\"name\":\"requests\",\"kind\":\"object\",\"type\":\"Request\",\"relationName\":\"KeyUserToRequest\"}],\"dbName\":null},\"TrustProfile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kinds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"methods\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToTrustProfile\"}],\"dbName\":null},\"Key\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pubkey\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"SigningCondition\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserKeyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToSigningCondition\"},{\"name\":\"policyRuleId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policyRule\",\"kind\":\"object\",\"type\":\"PolicyRule\",\"relationName\":\"PolicyRuleToSigningCondition\"},{\"name\":\"usageCount\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"Log\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"autoApproved\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"approvalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"remotePubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deliveryStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToLog\"}],\"dbName\":null},\"Policy\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rules\",\"kind\":\"object\",\"type\":\"PolicyRule\",\"relationName\":\"PolicyToPolicyRule\"},{\"name\":\"Token\",\"kind\":\"object\",\"type\":\"Token\",\"relationName\":\"PolicyToToken\"}],\"dbName\":null},\"PolicyRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxUsageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currentUsageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policyId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"Policy\",\"kind\":\"object\",\"type\":\"Policy\",\"relationName\":\"PolicyToPolicyRule\"},{\"name\":\"signingConditions\",\"kind\":\"object\",\"type\":\"SigningCondition\",\"relationName\":\"PolicyRuleToSigningCondition\"}],\"dbName\":null},\"Token\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"redeemedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"keyUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policyId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"policy\",\"kind\":\"object\",\"type\":\"Policy\",\"relationName\":\"PolicyToToken\"},{\"name\":\"KeyUser\",\"kind\":\"object\",\"type\":\"KeyUser\",\"relationName\":\"KeyUserToToken\"}],\"dbName\":null},\"ConnectionToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"redeemedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AdminLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"appName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"command\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"commandResult\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actor\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Setting\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Approver\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionTokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"RequestApproval\",\"relationName\":\"ApproverToRequestApproval\"}],\"dbName\":null},\"QuorumRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"keyName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RequestApproval\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"requestId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"approverId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"approvedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Request\",\"kind\":\"object\",\"type\":\"Request\",\"relationName\":\"RequestToRequestApproval\"},{\"name\":\"Approver\",\"kind\":\"object\",\"type\":\"Approver\",\"relationName\":\"ApproverToRequestApproval\"}],\"dbName\":null},\"DashboardSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"method\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastSeenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ApiToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyNames\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Operator\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pubkey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyNames\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Webhook\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"events\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"secret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveries\",\"kind\":\"object\",\"type\":\"WebhookDelivery\",\"relationName\":\"WebhookToWebhookDelivery\"}],\"dbName\":null},\"WebhookDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"webhookId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"responseStatus\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Webhook\",\"kind\":\"object\",\"type\":\"Webhook\",\"relationName\":\"WebhookToWebhookDelivery\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.compilerWasm = {
   getRuntime: async () => require('./query_compiler_fast_bg.js'),
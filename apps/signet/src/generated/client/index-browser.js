@@ -129,7 +129,14 @@ exports.Prisma.RequestScalarFieldEnum = {
   allowed: 'allowed',
   autoApproved: 'autoApproved',
   approvalType: 'approvalType',
-  keyUserId: 'keyUserId'
+  keyUserId: 'keyUserId',
+  quorumThreshold: 'quorumThreshold',
+  rpcParams: 'rpcParams',
+  relays: 'relays',
+  respondedAt: 'respondedAt',
+  deliveryStatus: 'deliveryStatus',
+  deliveryRelays: 'deliveryRelays',
+  deliveryAt: 'deliveryAt'
 };
 
 exports.Prisma.KeyUserScalarFieldEnum = {
@@ -144,7 +151,20 @@ exports.Prisma.KeyUserScalarFieldEnum = {
   lastUsedAt: 'lastUsedAt',
   description: 'description',
   trustLevel: 'trustLevel',
-  nostrconnectRelays: 'nostrconnectRelays'
+  nostrconnectRelays: 'nostrconnectRelays',
+  quotas: 'quotas',
+  schedule: 'schedule',
+  trustProfileId: 'trustProfileId'
+};
+
+exports.Prisma.TrustProfileScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  kinds: 'kinds',
+  methods: 'methods',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
 };
 
 exports.Prisma.KeyScalarFieldEnum = {
@@ -163,7 +183,9 @@ exports.Prisma.SigningConditionScalarFieldEnum = {
   content: 'content',
   keyUserKeyName: 'keyUserKeyName',
   allowed: 'allowed',
-  keyUserId: 'keyUserId'
+  keyUserId: 'keyUserId',
+  policyRuleId: 'policyRuleId',
+  usageCount: 'usageCount'
 };
 
 exports.Prisma.LogScalarFieldEnum = {
@@ -176,7 +198,9 @@ exports.Prisma.LogScalarFieldEnum = {
   autoApproved: 'autoApproved',
   approvalType: 'approvalType',
   keyName: 'keyName',
-  remotePubkey: 'remotePubkey'
+  remotePubkey: 'remotePubkey',
+  requestId: 'requestId',
+  deliveryStatus: 'deliveryStatus'
 };
 
 exports.Prisma.PolicyScalarFieldEnum = {
@@ -233,7 +257,8 @@ exports.Prisma.AdminLogScalarFieldEnum = {
   clientVersion: 'clientVersion',
   ipAddress: 'ipAddress',
   command: 'command',
-  commandResult: 'commandResult'
+  commandResult: 'commandResult',
+  actor: 'actor'
 };
 
 exports.Prisma.SettingScalarFieldEnum = {
@@ -241,6 +266,86 @@ exports.Prisma.SettingScalarFieldEnum = {
   value: 'value'
 };
 
+exports.Prisma.ApproverScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  pubkey: 'pubkey',
+  sessionTokenHash: 'sessionTokenHash',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.QuorumRuleScalarFieldEnum = {
+  id: 'id',
+  keyName: 'keyName',
+  kind: 'kind',
+  threshold: 'threshold',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RequestApprovalScalarFieldEnum = {
+  id: 'id',
+  requestId: 'requestId',
+  approverId: 'approverId',
+  approvedBy: 'approvedBy',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.DashboardSessionScalarFieldEnum = {
+  id: 'id',
+  pubkey: 'pubkey',
+  method: 'method',
+  userAgent: 'userAgent',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  lastSeenAt: 'lastSeenAt',
+  revokedAt: 'revokedAt'
+};
+
+exports.Prisma.ApiTokenScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  tokenHash: 'tokenHash',
+  prefix: 'prefix',
+  scopes: 'scopes',
+  keyNames: 'keyNames',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  lastUsedAt: 'lastUsedAt'
+};
+
+exports.Prisma.OperatorScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  pubkey: 'pubkey',
+  role: 'role',
+  keyNames: 'keyNames',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WebhookScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  url: 'url',
+  events: 'events',
+  secret: 'secret',
+  enabled: 'enabled',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WebhookDeliveryScalarFieldEnum = {
+  id: 'id',
+  webhookId: 'webhookId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  responseStatus: 'responseStatus',
+  error: 'error',
+  nextAttemptAt: 'nextAttemptAt',
+  createdAt: 'createdAt',
+  deliveredAt: 'deliveredAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -255,6 +360,7 @@ exports.Prisma.NullsOrder = {
 exports.Prisma.ModelName = {
   Request: 'Request',
   KeyUser: 'KeyUser',
+  TrustProfile: 'TrustProfile',
   Key: 'Key',
   SigningCondition: 'SigningCondition',
   Log: 'Log',
@@ -263,7 +369,15 @@ exports.Prisma.ModelName = {
   Token: 'Token',
   ConnectionToken: 'ConnectionToken',
   AdminLog: 'AdminLog',
-  Setting: 'Setting'
+  Setting: 'Setting',
+  Approver: 'Approver',
+  QuorumRule: 'QuorumRule',
+  RequestApproval: 'RequestApproval',
+  DashboardSession: 'DashboardSession',
+  ApiToken: 'ApiToken',
+  Operator: 'Operator',
+  Webhook: 'Webhook',
+  WebhookDelivery: 'WebhookDelivery'
 };
 
 /**
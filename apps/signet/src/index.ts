@@ -7,6 +7,7 @@ import { hideBin } from 'yargs/helpers';
 import { addKey } from './commands/add.js';
 import { runStart } from './commands/start.js';
 import { resetApp } from './commands/reset.js';
+import { createBackup, restoreBackup, unpackSnapshot } from './commands/backup.js';
 
 const defaultConfigPath = join(homedir(), '.signet-config', 'signet.json');
 
@@ -21,7 +22,7 @@ async function main() {
         })
         .command(
             'add',
-            'Add a key (nsec or ncryptsec)',
+            'Add a key (nsec, ncryptsec or Shamir shares)',
             (command) =>
                 command
                     .option('name', {
@@ -44,6 +45,10 @@ async function main() {
                         type: 'boolean',
                         describe: 'Use legacy AES-256-GCM encryption',
                         conflicts: ['no-encrypt', 'nip49'],
+                    })
+                    .option('shares', {
+                        type: 'boolean',
+                        describe: 'Recover the key from Shamir shares instead of an nsec',
                     }),
             async (argv) => {
                 await addKey({
@@ -52,6 +57,7 @@ async function main() {
                     noEncrypt: argv['no-encrypt'] as boolean | undefined,
                     useNip49: argv.nip49 as boolean | undefined,
                     useLegacy: argv.legacy as boolean | undefined,
+                    fromShares: argv.shares as boolean | undefined,
                 });
             }
         )
@@ -79,6 +85,80 @@ async function main() {
                 });
             }
         )
+        .command(
+            'backup',
+            'Write an encrypted backup of keys, apps, policies and settings',
+            (command) =>
+                command
+                    .option('output', {
+                        alias: 'o',
+                        type: 'string',
+                        describe: 'File to write (default: signet-backup-<date>.json)',
+                    })
+                    .option('history', {
+                        type: 'boolean',
+                        default: false,
+                        describe: 'Also back up requests, activity and admin logs',
+                    }),
+            async (argv) => {
+                await createBackup({
+                    configPath: argv.config as string,
+                    output: argv.output as string | undefined,
+                    includeHistory: argv.history as boolean,
+                });
+            }
+        )
+        .command(
+            'restore <file>',
+            'Restore an encrypted backup',
+            (command) =>
+                command
+                    .positional('file', {
+                        type: 'string',
+                        demandOption: true,
+                        describe: 'Backup file written by "signet backup"',
+                    })
+                    .option('mode', {
+                        choices: ['merge', 'full'] as const,
+                        default: 'merge' as const,
+                        describe: 'merge: add to this install, keeping local data on conflicts; full: restore everything into an empty install',
+                    })
+                    .option('dry-run', {
+                        type: 'boolean',
+                        default: false,
+                        describe: 'Show what would be restored without changing anything',
+                    }),
+            async (argv) => {
+                await restoreBackup({
+                    configPath: argv.config as string,
+                    file: argv.file as string,
+                    mode: argv.mode,
+                    dryRun: argv['dry-run'] as boolean,
+                });
+            }
+        )
+        .command(
+            'unpack-snapshot <file>',
+            'Decrypt a scheduled snapshot into signet.json and signet.db',
+            (command) =>
+                command
+                    .positional('file', {
+                        type: 'string',
+                        demandOption: true,
+                        describe: 'Snapshot file from the backups directory',
+                    })
+                    .option('output', {
+                        alias: 'o',
+                        type: 'string',
+                        describe: 'Directory to write to (default: signet-snapshot-<date>)',
+                    }),
+            async (argv) => {
+                await unpackSnapshot({
+                    file: argv.file as string,
+                    output: argv.output as string | undefined,
+                });
+            }
+        )
         .command(
             'reset',
             'Factory reset (deletes all keys and data)',
@@ -0,0 +1,61 @@
+/**
+ * Scoped API token types.
+ *
+ * API tokens let scripts and automation call the REST API with
+ * `Authorization: Bearer signet_...`. Each token carries scopes and can be
+ * limited to specific keys.
+ */
+
+/**
+ * What an API token may do:
+ * - `read`: read-only access (GET endpoints)
+ * - `requests`: approve and deny requests
+ * - `apps`: manage connected apps
+ * - `keys`: manage keys
+ */
+export type ApiTokenScope = 'read' | 'requests' | 'apps' | 'keys';
+
+/**
+ * An API token (the secret is only returned when it is created)
+ */
+export interface ApiToken {
+    id: number;
+    name: string;
+    /** First characters of the token, to tell tokens apart */
+    prefix: string;
+    scopes: ApiTokenScope[];
+    /** Keys the token is limited to, or null for every key */
+    keyNames: string[] | null;
+    createdAt: string;
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+}
+
+/**
+ * Response from GET /api-tokens
+ */
+export interface ApiTokensResponse {
+    tokens: ApiToken[];
+}
+
+/**
+ * Request body for POST /api-tokens
+ */
+export interface CreateApiTokenRequest {
+    name: string;
+    scopes: ApiTokenScope[];
+    /** Limit the token to these keys (omit for every key) */
+    keyNames?: string[];
+    /** Days until the token expires (omit for no expiry) */
+    expiresInDays?: number;
+}
+
+/**
+ * Response from POST /api-tokens
+ */
+export interface CreateApiTokenResponse {
+    ok: true;
+    token: ApiToken;
+    /** The full token. Shown once; only its hash is stored. */
+    secret: string;
+}
@@ -1,3 +1,6 @@
+import type { AppPolicyUsage } from './policies.js';
+import type { AppTrustProfile } from './trust-profiles.js';
+
 /**
  * Trust level for an app - determines auto-approval behavior
  */
@@ -16,6 +19,130 @@ export interface MethodBreakdown {
     other: number;
 }
 
+/**
+ * Time window a quota limit applies to
+ */
+export type QuotaWindow = 'minute' | 'hour' | 'day';
+
+/**
+ * What happens to a request that would exceed a quota:
+ * - deny: reject immediately
+ * - manual: skip auto-approval and queue for manual approval
+ */
+export type QuotaOverflowAction = 'deny' | 'manual';
+
+/**
+ * A single rate limit rule for an app.
+ * Omitting method/kind makes the rule apply to all methods/kinds.
+ */
+export interface QuotaRule {
+    method?: string;
+    kind?: number;
+    perMinute?: number;
+    perHour?: number;
+    perDay?: number;
+}
+
+/**
+ * Rate limit configuration stored on an app
+ */
+export interface AppQuotaConfig {
+    rules: QuotaRule[];
+    overflow: QuotaOverflowAction;
+}
+
+/**
+ * Details of a request that tripped a quota
+ */
+export interface QuotaHit {
+    method: string;
+    kind?: number;
+    window: QuotaWindow;
+    limit: number;
+    action: QuotaOverflowAction;
+    at: string;
+}
+
+/**
+ * What happens to a request that arrives outside an app's schedule:
+ * - deny: reject immediately
+ * - manual: skip auto-approval and queue for manual approval
+ */
+export type ScheduleOutsideAction = 'deny' | 'manual';
+
+/**
+ * A recurring time window. Times are "HH:MM" in the schedule's timezone.
+ * If end is earlier than start the window runs past midnight into the next day.
+ */
+export interface ScheduleWindow {
+    /** Days the window starts on, 0 = Sunday through 6 = Saturday */
+    days: number[];
+    start: string;
+    end: string;
+}
+
+/**
+ * When an app may act, stored on the app alongside its trust level
+ */
+export interface AppSchedule {
+    /** IANA timezone name, e.g. "Europe/Berlin" */
+    timezone: string;
+    windows: ScheduleWindow[];
+    outside: ScheduleOutsideAction;
+}
+
+/**
+ * A tag requirement for an event constraint.
+ * Omitting value matches any tag with that name.
+ */
+export interface TagRequirement {
+    name: string;
+    value?: string;
+}
+
+/**
+ * Checks applied to the event being signed, stored in SigningCondition.content.
+ * A condition only matches an event that satisfies every constraint set here.
+ */
+export interface EventConstraints {
+    /** Tag names the event must not contain (e.g. ['p'] for no mentions) */
+    forbidTags?: string[];
+    /** Tags the event must contain */
+    requireTags?: TagRequirement[];
+    /** Regex the content must match */
+    contentMatches?: string;
+    /** Regex the content must not match */
+    contentNotMatches?: string;
+    /** Maximum content length in characters */
+    maxContentLength?: number;
+    /** How far created_at may lag behind the current time */
+    maxPastMinutes?: number;
+    /** How far created_at may run ahead of the current time */
+    maxFutureMinutes?: number;
+}
+
+/**
+ * An explicit allow/deny rule for an app
+ */
+export interface AppSigningCondition {
+    id: number;
+    method: string;
+    /** Event kind for sign_event ('all' for every kind), or null */
+    kind: string | null;
+    allowed: boolean;
+    constraints: EventConstraints | null;
+}
+
+/**
+ * Request body for adding a signing condition to an app
+ */
+export interface CreateSigningConditionRequest {
+    method: string;
+    kind?: number | 'all';
+    allowed: boolean;
+    constraints?: EventConstraints;
+}
+
 /**
  * A connected application/client with access to a key
  */
@@ -25,6 +152,8 @@ export interface ConnectedApp {
     userPubkey: string;
     description?: string;
     trustLevel: TrustLevel;
+    /** Custom trust profile that replaces the trust level, if any */
+    trustProfile: AppTrustProfile | null;
     permissions: string[];
     connectedAt: string;
     lastUsedAt: string | null;
@@ -32,6 +161,15 @@ export interface ConnectedApp {
     suspendUntil: string | null;
     requestCount: number;
     methodBreakdown: MethodBreakdown;
+    quotas: AppQuotaConfig | null;
+    /** Most recent quota hit since the daemon started, if any */
+    lastQuotaHit: QuotaHit | null;
+    /** Allowed time windows, or null if the app may act at any time */
+    schedule: AppSchedule | null;
+    /** Allow/deny rules that inspect the event being signed */
+    conditions: AppSigningCondition[];
+    /** Policy the app connected with via a token, if any */
+    policy: AppPolicyUsage | null;
 }
 
 /**
@@ -45,6 +183,12 @@ export type PermissionRisk = 'high' | 'medium' | 'low';
 export interface UpdateAppRequest {
     description?: string;
     trustLevel?: TrustLevel;
+    /** Switch to a custom trust profile, or null to go back to the trust level */
+    trustProfileId?: number | null;
+    /** Set to null to remove all rate limits */
+    quotas?: AppQuotaConfig | null;
+    /** Set to null to remove the schedule */
+    schedule?: AppSchedule | null;
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * Dashboard login types.
+ *
+ * Admins log in by signing a one-time challenge as a NIP-98 HTTP auth event
+ * (kind 27235), with a NIP-07 extension, a NIP-46 bunker, or one of Signet's
+ * own keys. Only owners (the `adminNpubs` allow-list) and operators can log in.
+ */
+
+import type { ApiTokenScope } from './api-tokens.js';
+import type { DashboardRole } from './operators.js';
+
+/**
+ * How a dashboard session was established
+ */
+export type LoginMethod = 'nip07' | 'nip46' | 'key';
+
+/**
+ * Response from GET /auth/status
+ */
+export interface AuthStatusResponse {
+    /** Whether the API requires a login */
+    requireAuth: boolean;
+    /** Whether the caller has a valid session */
+    authenticated: boolean;
+    /** Hex pubkey of the logged-in admin */
+    pubkey: string | null;
+    /** Whether any admin npubs are configured (login is impossible otherwise) */
+    loginEnabled: boolean;
+    /** Role of the logged-in user, or null when not logged in */
+    role: DashboardRole | null;
+    /** Scopes the role grants (owners can do everything) */
+    scopes: ApiTokenScope[];
+    /** Keys the user is limited to, or null for every key */
+    keyNames: string[] | null;
+}
+
+/**
+ * Response from POST /auth/challenge
+ */
+export interface AuthChallengeResponse {
+    challenge: string;
+    expiresAt: string;
+}
+
+/**
+ * A signed Nostr event as sent by the client
+ */
+export interface SignedLoginEvent {
+    id: string;
+    pubkey: string;
+    created_at: number;
+    kind: number;
+    tags: string[][];
+    content: string;
+    sig: string;
+}
+
+/**
+ * Request body for POST /auth/login
+ */
+export interface LoginRequest {
+    /** Signed kind 27235 event carrying the challenge (or sent as `Authorization: Nostr <base64>`) */
+    event?: SignedLoginEvent;
+    /** How the event was signed, for the session list */
+    method?: Exclude<LoginMethod, 'key'>;
+}
+
+/**
+ * Request body for POST /auth/login/key
+ */
+export interface KeyLoginRequest {
+    challenge: string;
+    keyName: string;
+    passphrase: string;
+}
+
+/**
+ * Response from the login endpoints
+ */
+export interface LoginResponse {
+    ok: true;
+    pubkey: string;
+    sessionId: string;
+    /** CSRF token for subsequent state-changing requests */
+    csrfToken: string;
+}
+
+/**
+ * A dashboard login session
+ */
+export interface DashboardSession {
+    id: string;
+    pubkey: string;
+    method: LoginMethod;
+    userAgent: string | null;
+    createdAt: string;
+    expiresAt: string;
+    lastSeenAt: string;
+    /** Whether this is the session making the request */
+    current: boolean;
+}
+
+/**
+ * Response from GET /auth/sessions
+ */
+export interface DashboardSessionsResponse {
+    sessions: DashboardSession[];
+}
@@ -0,0 +1,134 @@
+/**
+ * Number of records of each kind in a backup, or restored from one
+ */
+export interface BackupCounts {
+    keys: number;
+    seeds: number;
+    apps: number;
+    signingConditions: number;
+    trustProfiles: number;
+    policies: number;
+    settings: number;
+    requests: number;
+    logs: number;
+    adminLogs: number;
+}
+
+/**
+ * Description of a backup archive, stored encrypted alongside its contents
+ */
+export interface BackupManifest {
+    /** Archive format version */
+    version: number;
+    createdAt: string;
+    /** Signet version that wrote the backup, if known */
+    signetVersion?: string;
+    /** Whether request, activity and admin history is included */
+    includesHistory: boolean;
+    counts: BackupCounts;
+    /** SHA-256 (hex) of the backup contents, checked on restore */
+    checksum: string;
+}
+
+/**
+ * Body for POST /backup
+ */
+export interface CreateBackupRequest {
+    /** Passphrase the archive is encrypted with */
+    passphrase: string;
+    confirmPassphrase: string;
+    /** Also back up requests, activity and admin logs (default: false) */
+    includeHistory?: boolean;
+}
+
+/**
+ * How a backup is restored:
+ * - full: into an install with no keys or apps yet, settings and history included
+ * - merge: alongside existing data, keeping local records where they differ
+ */
+export type RestoreMode = 'full' | 'merge';
+
+/**
+ * Body for POST /backup/restore
+ */
+export interface RestoreBackupRequest {
+    /** Archive contents, as produced by POST /backup or `signet backup` */
+    archive: string;
+    passphrase: string;
+    /** Default: merge */
+    mode?: RestoreMode;
+    /** Report what would be restored without changing anything */
+    dryRun?: boolean;
+}
+
+/**
+ * Part of the backup a conflict was found in
+ */
+export type RestoreSection = 'keys' | 'seeds' | 'apps' | 'trustProfiles' | 'policies' | 'settings' | 'config';
+
+/**
+ * A backed-up record that was not restored because the install already has
+ * a different one under the same name
+ */
+export interface RestoreConflict {
+    section: RestoreSection;
+    /** Key or seed name, app (`key:pubkey`), profile or policy name, or setting key */
+    name: string;
+    reason: string;
+}
+
+/**
+ * Outcome of a restore (or what a dry run would do)
+ */
+export interface RestoreReport {
+    mode: RestoreMode;
+    dryRun: boolean;
+    manifest: BackupManifest;
+    restored: BackupCounts;
+    /** Records already present locally with the same contents */
+    unchanged: number;
+    conflicts: RestoreConflict[];
+    /** Things the admin should know, e.g. that history was skipped */
+    notes: string[];
+    /** Restored signet.json settings only take effect after a restart */
+    restartRequired: boolean;
+}
+
+/**
+ * Description of a scheduled snapshot, stored encrypted alongside the
+ * signet.json and database copies
+ */
+export interface SnapshotManifest {
+    /** Snapshot format version */
+    version: number;
+    createdAt: string;
+    signetVersion?: string;
+    /** SHA-256 (hex) of the signet.json copy */
+    configChecksum: string;
+    /** SHA-256 (hex) of the database copy */
+    databaseChecksum: string;
+    databaseBytes: number;
+}
+
+/**
+ * State of scheduled snapshots, as shown on the dashboard
+ */
+export interface ScheduledBackupStatus {
+    enabled: boolean;
+    directory: string | null;
+    intervalHours: number;
+    keep: number;
+    maxAgeDays: number;
+    /** Snapshots currently in the directory */
+    snapshots: number;
+    /** A snapshot is being written */
+    running: boolean;
+    lastSuccessAt: string | null;
+    /** File name of the newest snapshot */
+    lastFile: string | null;
+    lastSizeBytes: number | null;
+    /** Set when the most recent attempt failed; cleared by the next success */
+    lastFailureAt: string | null;
+    lastError: string | null;
+    nextRunAt: string | null;
+}
@@ -18,6 +18,15 @@ export interface ConnectionInfo {
     nostrRelays?: string[];
 }
 
+/**
+ * NIP-42 AUTH state of a relay connection
+ * - none: no AUTH challenge answered (not required, or no key configured)
+ * - authenticating: signed AUTH event sent, waiting for the relay's OK
+ * - authenticated: relay accepted the AUTH event
+ * - failed: relay rejected AUTH, or the configured key is locked
+ */
+export type RelayAuthState = 'none' | 'authenticating' | 'authenticated' | 'failed';
+
 /**
  * Status of a single relay connection
  */
@@ -32,6 +41,14 @@ export interface RelayStatus {
     lastDisconnected: string | null;
     /** Trust score from trustedrelays.xyz (0-100, null if unavailable) */
     trustScore: number | null;
+    /** NIP-42 AUTH state */
+    auth: RelayAuthState;
+    /** Key that answers AUTH on this relay (key name or 'relay-auth key') */
+    authSigner: string | null;
+    /** Why AUTH failed, if it did */
+    authError: string | null;
+    /** Keys that listen on this relay (empty for relays only the shared pool uses) */
+    keys?: string[];
 }
 
 /**
@@ -46,6 +63,74 @@ export interface RelayStatusResponse {
     relays: RelayStatus[];
 }
 
+/**
+ * Role of a relay in Signet's failover
+ * - active: shared relay from nostr.relays, in use
+ * - promoted: backup relay standing in for a demoted shared relay
+ * - demoted: shared relay taken out of use for a low health score
+ * - backup: idle backup relay, probed but not listened on
+ * - key: relay only used by a key's own relay set (never failed over)
+ */
+export type RelayRole = 'active' | 'promoted' | 'demoted' | 'backup' | 'key';
+
+/**
+ * Relay quality measured by Signet itself over the last hour
+ */
+export interface RelayHealth {
+    /** 0-100, null until there are enough samples */
+    score: number | null;
+    /** Share of connection attempts that succeeded (0-1) */
+    connectRate: number | null;
+    /** Share of publishes the relay acknowledged (0-1) */
+    publishRate: number | null;
+    /** Median time for the relay to acknowledge a publish */
+    publishLatencyMs: number | null;
+    /** Median time to EOSE on health probes */
+    eoseLatencyMs: number | null;
+    /** Failed connects, publishes and probes in the last 15 minutes */
+    recentFailures: number;
+    /** Samples in the scoring window */
+    samples: number;
+}
+
+/**
+ * One point of a relay's health history
+ */
+export interface RelayHealthPoint {
+    /** When the point was recorded */
+    at: string;
+    score: number | null;
+    connectRate: number | null;
+    publishLatencyMs: number | null;
+    eoseLatencyMs: number | null;
+}
+
+/**
+ * Health and history of one relay
+ */
+export interface RelayHealthEntry {
+    url: string;
+    role: RelayRole;
+    health: RelayHealth;
+    /** Oldest first, one point per probe round, up to 24 hours */
+    history: RelayHealthPoint[];
+    /** When a promoted relay took over, or a demoted one was dropped */
+    changedAt: string | null;
+}
+
+/**
+ * Response from GET /relays/health
+ */
+export interface RelayHealthResponse {
+    failover: {
+        /** Whether low-scoring shared relays are swapped for backups */
+        enabled: boolean;
+        /** Score below which a shared relay is demoted */
+        minScore: number;
+    };
+    relays: RelayHealthEntry[];
+}
+
 /**
  * Response from POST /relays/trust-scores for on-demand trust score lookup
  */
@@ -1,3 +1,5 @@
+import type { ResponseDeliveryStatus } from './delivery.js';
+
 /**
  * Dashboard statistics summary
  */
@@ -31,6 +33,10 @@ export interface ActivityEntry {
     appName?: string;
     autoApproved: boolean;
     approvalType?: ApprovalType;
+    /** Request record the entry belongs to */
+    requestId?: string;
+    /** Whether the response reached a relay (unset until it was sent) */
+    delivery?: ResponseDeliveryStatus;
 }
 
 /**
@@ -42,6 +48,8 @@ export type AdminEventType =
     | 'key_encrypted'
     | 'key_migrated'
     | 'key_exported'
+    | 'key_rotated'
+    | 'seed_exported'
     | 'auth_failed'
     | 'app_connected'
     | 'app_suspended'
@@ -50,7 +58,9 @@ export type AdminEventType =
     | 'status_checked'
     | 'command_executed'
     | 'panic_triggered'
-    | 'deadman_reset';
+    | 'deadman_reset'
+    | 'backup_created'
+    | 'backup_restored';
 
 /**
  * An admin activity entry (key lock/unlock, app suspend/unsuspend, daemon start, status check, command executed)
@@ -68,6 +78,8 @@ export interface AdminActivityEntry {
     ipAddress?: string;
     command?: string;
     commandResult?: string;
+    /** Who acted: `token:<name>` for API tokens, or the hex pubkey of a dashboard login */
+    actor?: string;
 }
 
 /**
@@ -0,0 +1,35 @@
+/**
+ * NIP-46 response delivery types.
+ *
+ * Every response Signet publishes records which relays accepted it. When
+ * none did, the response is retried on alternate relays before it's marked
+ * as failed.
+ */
+
+/**
+ * Whether any relay accepted the response
+ */
+export type ResponseDeliveryStatus = 'delivered' | 'failed';
+
+/**
+ * Outcome of publishing a response to one relay
+ */
+export interface RelayDeliveryResult {
+    url: string;
+    /** Whether the relay answered OK */
+    ok: boolean;
+    /** Why the relay failed or rejected the event */
+    error?: string;
+    /** Published on the retry after every first-choice relay failed */
+    retry?: boolean;
+}
+
+/**
+ * Delivery outcome of the response to a request
+ */
+export interface ResponseDelivery {
+    status: ResponseDeliveryStatus;
+    relays: RelayDeliveryResult[];
+    /** When the last publish attempt finished */
+    at: string;
+}
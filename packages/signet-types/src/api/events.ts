@@ -1,5 +1,9 @@
 import type { PendingRequest, ConnectedApp, DashboardStats, KeyInfo, RelayStatusResponse, ActivityEntry, LogEntry, HealthStatus } from './index.js';
 import type { AdminActivityEntry } from './dashboard.js';
+import type { QuotaHit } from './apps.js';
+import type { RequestQuorum } from './quorum.js';
+import type { ResponseDelivery } from './delivery.js';
+import type { ScheduledBackupStatus } from './backup.js';
 
 export interface DeadManSwitchStatus {
     enabled: boolean;
@@ -18,10 +22,13 @@ export type ServerEvent =
     | { type: 'request:denied'; requestId: string; activity: ActivityEntry }
     | { type: 'request:expired'; requestId: string }
     | { type: 'request:auto_approved'; activity: ActivityEntry }
+    | { type: 'request:quorum'; requestId: string; quorum: RequestQuorum }
+    | { type: 'request:delivery'; requestId: string; delivery: ResponseDelivery }
     | { type: 'app:connected'; app: ConnectedApp }
     | { type: 'app:revoked'; appId: number }
     | { type: 'app:updated'; app: ConnectedApp }
     | { type: 'apps:updated' }
+    | { type: 'app:quota_exceeded'; appId: number; appName: string | null; keyName: string; hit: QuotaHit }
     | { type: 'key:created'; key: KeyInfo }
     | { type: 'key:unlocked'; keyName: string }
     | { type: 'key:locked'; keyName: string }
@@ -36,4 +43,6 @@ export type ServerEvent =
     | { type: 'deadman:updated'; status: DeadManSwitchStatus }
     | { type: 'log:entry'; entry: LogEntry }
     | { type: 'health:updated'; health: HealthStatus }
+    | { type: 'backup:completed'; status: ScheduledBackupStatus }
+    | { type: 'backup:failed'; status: ScheduledBackupStatus }
     | { type: 'ping' };
@@ -8,6 +8,8 @@ export interface CacheStats {
     evictions: number;
 }
 
+import type { ScheduledBackupStatus } from './backup.js';
+
 /**
  * Health status returned by the /health endpoint.
  */
@@ -36,4 +38,6 @@ export interface HealthStatus {
         maxEntries: number;
         estimatedKB: number;
     };
+    /** Scheduled snapshots, when enabled in signet.json */
+    backups?: ScheduledBackupStatus;
 }
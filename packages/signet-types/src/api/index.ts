@@ -1,5 +1,16 @@
 // Connection types
-export type { ConnectionInfo, RelayStatus, RelayStatusResponse, RelayTrustScoreResponse } from './connection.js';
+export type {
+    ConnectionInfo,
+    RelayAuthState,
+    RelayStatus,
+    RelayStatusResponse,
+    RelayTrustScoreResponse,
+    RelayRole,
+    RelayHealth,
+    RelayHealthPoint,
+    RelayHealthEntry,
+    RelayHealthResponse,
+} from './connection.js';
 
 // Request types
 export type {
@@ -19,6 +30,12 @@ export type {
     KeyUserSummary,
     CreateKeyRequest,
     CreateKeyResponse,
+    SetKeyRelaysRequest,
+    RotateKeyRequest,
+    RotateKeyResult,
+    SeedInfo,
+    CreateSeedRequest,
+    CreateSeedResult,
 } from './keys.js';
 
 // App types
@@ -27,10 +44,122 @@ export type {
     MethodBreakdown,
     ConnectedApp,
     PermissionRisk,
+    QuotaWindow,
+    QuotaOverflowAction,
+    QuotaRule,
+    AppQuotaConfig,
+    ScheduleOutsideAction,
+    ScheduleWindow,
+    AppSchedule,
+    QuotaHit,
+    TagRequirement,
+    EventConstraints,
+    AppSigningCondition,
+    CreateSigningConditionRequest,
     UpdateAppRequest,
     AppOperationResponse,
 } from './apps.js';
 
+// Policy types
+export type {
+    PolicyRuleInfo,
+    AppPolicyRuleUsage,
+    PolicyInfo,
+    CreatePolicyRequest,
+    PolicyToken,
+    CreatePolicyTokenRequest,
+    CreatePolicyTokenResponse,
+    AppPolicyUsage,
+} from './policies.js';
+
+// Trust profile types
+export type {
+    TrustProfileMethod,
+    TrustProfile,
+    BuiltInTrustProfile,
+    TrustProfilesResponse,
+    SaveTrustProfileRequest,
+    AppTrustProfile,
+} from './trust-profiles.js';
+
+// Approval quorum types
+export type {
+    Approver,
+    QuorumRule,
+    QuorumResponse,
+    CreateApproverRequest,
+    CreateQuorumRuleRequest,
+    RequestApprovalInfo,
+    RequestQuorum,
+} from './quorum.js';
+
+// Response delivery types
+export type {
+    ResponseDeliveryStatus,
+    RelayDeliveryResult,
+    ResponseDelivery,
+} from './delivery.js';
+
+// Dashboard login types
+export type {
+    LoginMethod,
+    AuthStatusResponse,
+    AuthChallengeResponse,
+    SignedLoginEvent,
+    LoginRequest,
+    KeyLoginRequest,
+    LoginResponse,
+    DashboardSession,
+    DashboardSessionsResponse,
+} from './auth.js';
+
+// API token types
+export type {
+    ApiTokenScope,
+    ApiToken,
+    ApiTokensResponse,
+    CreateApiTokenRequest,
+    CreateApiTokenResponse,
+} from './api-tokens.js';
+
+// Operator types
+export type {
+    OperatorRole,
+    DashboardRole,
+    Operator,
+    OperatorsResponse,
+    CreateOperatorRequest,
+    UpdateOperatorRequest,
+} from './operators.js';
+
+// Webhook types
+export type {
+    WebhookEventType,
+    WebhookPayload,
+    Webhook,
+    WebhookDeliveryStatus,
+    WebhookDelivery,
+    WebhooksResponse,
+    WebhookDeliveriesResponse,
+    CreateWebhookRequest,
+    CreateWebhookResponse,
+    UpdateWebhookRequest,
+} from './webhooks.js';
+
+// Backup types
+export type {
+    BackupCounts,
+    BackupManifest,
+    CreateBackupRequest,
+    RestoreMode,
+    RestoreBackupRequest,
+    RestoreSection,
+    RestoreConflict,
+    RestoreReport,
+    SnapshotManifest,
+    ScheduledBackupStatus,
+} from './backup.js';
+
 // Dashboard types
 export type {
     DashboardStats,
@@ -1,4 +1,4 @@
-import type { EncryptionFormat } from '../config/types.js';
+import type { EncryptionFormat, KeyDerivation, RetiredKey } from '../config/types.js';
 
 /**
  * Key status indicating availability
@@ -30,10 +30,18 @@ export interface KeyInfo {
     isEncrypted: boolean;
     /** Encryption format: 'none', 'legacy' (AES-256-GCM), or 'nip49' (ncryptsec) */
     encryptionFormat: EncryptionFormat;
+    /** Relays the key listens on and advertises in its bunker URI */
+    relays: string[];
+    /** Whether the key has its own relay set instead of the shared nostr.relays list */
+    customRelays: boolean;
     userCount: number;
     tokenCount: number;
     requestCount: number;
     lastUsedAt: string | null;
+    /** Present once the key has been rotated out in favour of a successor */
+    retired?: RetiredKey;
+    /** Present when the key was derived from a seed */
+    derivation?: KeyDerivation;
 }
 
 /**
@@ -57,6 +65,14 @@ export interface CreateKeyRequest {
     keyName: string;
     /** The secret to import (nsec1... or ncryptsec1...) */
     nsec?: string;
+    /** Shamir shares (signet-share:...) to recover the secret from, instead of nsec */
+    shares?: string[];
+    /** Name of a stored seed to derive the secret from, instead of nsec */
+    seed?: string;
+    /** Passphrase of the seed, if it is encrypted */
+    seedPassphrase?: string;
+    /** NIP-06 account index to derive (default: the seed's next unused index) */
+    derivationIndex?: number;
     /** Encryption format to use: 'none', 'legacy', or 'nip49' */
     encryption?: EncryptionFormat;
     /** Passphrase for encryption (required if encryption is not 'none') */
@@ -74,6 +90,84 @@ export interface CreateKeyResponse {
     error?: string;
 }
 
+/**
+ * Request body for PUT /keys/:keyName/relays
+ */
+export interface SetKeyRelaysRequest {
+    /** Relay URLs for this key; an empty list falls back to the shared nostr.relays */
+    relays: string[];
+}
+
+/**
+ * Request body for POST /keys/:keyName/rotate
+ */
+export interface RotateKeyRequest {
+    /** Name for the successor key */
+    successorName: string;
+    /** Passphrase of the key being rotated, if it is locked */
+    currentPassphrase?: string;
+    /** Encryption for the successor key */
+    encryption?: EncryptionFormat;
+    /** Passphrase for the successor key (required if encryption is not 'none') */
+    passphrase?: string;
+    confirmPassphrase?: string;
+    /** Move connected apps and their permissions to the successor (default: true) */
+    moveApps?: boolean;
+    /** Why the key is being rotated, published in the migration event */
+    reason?: string;
+    /** Also publish a kind 1 note pointing followers at the successor (default: true) */
+    announce?: boolean;
+}
+
+/**
+ * Result of rotating a key
+ */
+export interface RotateKeyResult {
+    successor: KeyInfo;
+    /** Profile kinds (0, 3, 10002) copied to the successor */
+    copiedKinds: number[];
+    /** IDs of the migration events signed by the retired key */
+    migrationEventIds: string[];
+    /** Relays that accepted the migration event */
+    migrationRelays: number;
+    /** Apps moved to the successor */
+    movedApps: number;
+}
+
+/**
+ * A stored seed and the keys derived from it
+ */
+export interface SeedInfo {
+    name: string;
+    isEncrypted: boolean;
+    /** Account index the next derived key gets by default */
+    nextIndex: number;
+    createdAt: string;
+    /** Keys derived from this seed, by account index */
+    keys: Array<{ name: string; index: number }>;
+}
+
+/**
+ * Request body for POST /seeds
+ */
+export interface CreateSeedRequest {
+    seedName: string;
+    /** BIP-39 mnemonic to import; a new 12-word mnemonic is generated when omitted */
+    mnemonic?: string;
+    /** Encrypt the seed with this passphrase (stored unencrypted when omitted) */
+    passphrase?: string;
+    confirmPassphrase?: string;
+}
+
+/**
+ * Result of creating a seed
+ */
+export interface CreateSeedResult {
+    seed: SeedInfo;
+    /** The generated mnemonic, returned once so it can be written down */
+    mnemonic?: string;
+}
+
 /**
  * Response from generating a one-time connection token
  */
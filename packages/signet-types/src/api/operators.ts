@@ -0,0 +1,60 @@
+/**
+ * Dashboard operator types.
+ *
+ * Operators are people who may log in to the dashboard besides the owners
+ * listed in `adminNpubs`. Each has a role and can be limited to specific keys.
+ */
+
+/**
+ * What an operator may do. Each role includes the ones before it:
+ * - `viewer`: read-only access
+ * - `approver`: also approve and deny requests
+ * - `app-manager`: also manage connected apps
+ * - `key-admin`: also manage keys
+ */
+export type OperatorRole = 'viewer' | 'approver' | 'app-manager' | 'key-admin';
+
+/**
+ * Role of a dashboard login: an operator role, or `owner` for the npubs in
+ * `adminNpubs`, who can also manage operators, tokens and settings
+ */
+export type DashboardRole = OperatorRole | 'owner';
+
+export interface Operator {
+    id: number;
+    name: string;
+    /** Hex pubkey the operator logs in with */
+    pubkey: string;
+    role: OperatorRole;
+    /** Keys the operator is limited to, or null for every key */
+    keyNames: string[] | null;
+    createdAt: string;
+}
+
+/**
+ * Response from GET /operators
+ */
+export interface OperatorsResponse {
+    operators: Operator[];
+}
+
+/**
+ * Request body for POST /operators
+ */
+export interface CreateOperatorRequest {
+    name: string;
+    /** npub or hex pubkey */
+    pubkey: string;
+    role: OperatorRole;
+    /** Limit the operator to these keys (omit for every key) */
+    keyNames?: string[];
+}
+
+/**
+ * Request body for PATCH /operators/:id
+ */
+export interface UpdateOperatorRequest {
+    role?: OperatorRole;
+    /** New key limit, or null to allow every key */
+    keyNames?: string[] | null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Policy and policy token types.
+ *
+ * A policy is a named set of rules. Minting a token ties a policy to a key;
+ * an app that connects with the token as its secret gets the policy's rules
+ * as its permissions, and each rule's usage is counted as requests are approved.
+ */
+
+/**
+ * A single rule in a policy
+ */
+export interface PolicyRuleInfo {
+    id: number;
+    method: string;
+    /** Event kind for sign_event, or null for all kinds */
+    kind: string | null;
+    /** Maximum approvals for each app connected with the policy, or null for unlimited */
+    maxUsageCount: number | null;
+    /** Approvals so far, by every app together */
+    currentUsageCount: number;
+}
+
+/**
+ * A policy rule as it applies to one app
+ */
+export interface AppPolicyRuleUsage {
+    id: number;
+    method: string;
+    kind: string | null;
+    maxUsageCount: number | null;
+    /** Approvals so far for this app */
+    usageCount: number;
+    /** Approvals left for this app, or null for unlimited */
+    remainingUsage: number | null;
+}
+
+/**
+ * A policy with its rules
+ */
+export interface PolicyInfo {
+    id: number;
+    name: string;
+    description: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    /** True once expiresAt has passed */
+    expired: boolean;
+    rules: PolicyRuleInfo[];
+    /** Number of tokens minted from this policy */
+    tokenCount: number;
+}
+
+/**
+ * Request body for creating a policy
+ */
+export interface CreatePolicyRequest {
+    name: string;
+    description?: string;
+    expiresAt?: string;
+    rules: Array<{
+        method: string;
+        kind?: number | string;
+        maxUsageCount?: number;
+    }>;
+}
+
+/**
+ * A token minted from a policy
+ */
+export interface PolicyToken {
+    id: number;
+    keyName: string;
+    clientName: string;
+    /** First characters of the secret, to tell tokens apart; the secret itself is only returned when minted */
+    prefix: string;
+    policyId: number | null;
+    policyName: string | null;
+    createdAt: string;
+    expiresAt: string | null;
+    redeemedAt: string | null;
+    redeemedBy: string | null;
+}
+
+/**
+ * Request body for minting a token
+ */
+export interface CreatePolicyTokenRequest {
+    keyName: string;
+    clientName: string;
+    policyId: number;
+    expiresInHours?: number;
+}
+
+/**
+ * Response from minting a token
+ */
+export interface CreatePolicyTokenResponse {
+    ok: boolean;
+    token: {
+        id: number;
+        token: string;
+        expiresAt: string | null;
+    };
+    /** Bunker URI with the token as its secret, if the key is unlocked */
+    bunkerUri: string | null;
+}
+
+/**
+ * The policy an app was connected with, and how much of it is left
+ */
+export interface AppPolicyUsage {
+    policyId: number;
+    name: string;
+    expiresAt: string | null;
+    expired: boolean;
+    rules: AppPolicyRuleUsage[];
+}
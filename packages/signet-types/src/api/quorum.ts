@@ -0,0 +1,78 @@
+/**
+ * Approval quorum types.
+ *
+ * Quorum rules make sensitive sign_event requests wait for M distinct
+ * approvers before Signet signs. Approvers are identified by the pubkey
+ * of their dashboard login or by a UI session claimed on their device.
+ */
+
+/**
+ * A person allowed to approve quorum requests
+ */
+export interface Approver {
+    id: number;
+    name: string;
+    /** Hex pubkey matched against the dashboard login, if set */
+    pubkey: string | null;
+    /** Whether a UI session has been claimed for this approver */
+    hasSession: boolean;
+    createdAt: string;
+}
+
+/**
+ * Requires `threshold` approvers for sign_event requests matching the rule
+ */
+export interface QuorumRule {
+    id: number;
+    /** Key the rule applies to, or null for every key */
+    keyName: string | null;
+    /** Event kind the rule applies to, or null for every kind */
+    kind: number | null;
+    threshold: number;
+    createdAt: string;
+}
+
+/**
+ * Response from GET /quorum
+ */
+export interface QuorumResponse {
+    approvers: Approver[];
+    rules: QuorumRule[];
+    /** Approver identity of the current session, if any */
+    currentApproverId: number | null;
+}
+
+/**
+ * Request body for adding an approver
+ */
+export interface CreateApproverRequest {
+    name: string;
+    /** npub or hex pubkey (optional; approvers without one claim a UI session) */
+    pubkey?: string;
+}
+
+/**
+ * Request body for adding a quorum rule. At least one of keyName or kind is required.
+ */
+export interface CreateQuorumRuleRequest {
+    keyName?: string;
+    kind?: number;
+    threshold: number;
+}
+
+/**
+ * An approval collected for a quorum request
+ */
+export interface RequestApprovalInfo {
+    approverId: number;
+    approverName: string;
+    approvedAt: string;
+}
+
+/**
+ * Approval progress for a request that needs a quorum
+ */
+export interface RequestQuorum {
+    threshold: number;
+    approvals: RequestApprovalInfo[];
+}
@@ -1,4 +1,6 @@
 import type { ApprovalType } from './dashboard.js';
+import type { RequestQuorum } from './quorum.js';
+import type { ResponseDelivery } from './delivery.js';
 
 /**
  * Preview of an event being signed
@@ -30,6 +32,10 @@ export interface PendingRequest {
     appName?: string | null;
     /** Whether the request was allowed (true=approved, false=denied, null=pending/expired) */
     allowed?: boolean | null;
+    /** Approval progress, for requests that need more than one approver */
+    quorum?: RequestQuorum | null;
+    /** Which relays accepted the response (null until it was sent) */
+    delivery?: ResponseDelivery | null;
 }
 
 /**
@@ -0,0 +1,73 @@
+import type { TrustLevel } from './apps.js';
+
+/**
+ * Trust profile types.
+ *
+ * A trust profile is a named set of event kinds and methods that are
+ * auto-approved for apps using it. The three built-in trust levels are
+ * listed alongside custom profiles but cannot be edited.
+ */
+
+/**
+ * Methods a custom profile can auto-approve besides sign_event.
+ * connect, ping and get_public_key are always auto-approved.
+ */
+export type TrustProfileMethod =
+    | 'nip04_encrypt'
+    | 'nip04_decrypt'
+    | 'nip44_encrypt'
+    | 'nip44_decrypt';
+
+/**
+ * A user-defined trust profile
+ */
+export interface TrustProfile {
+    id: number;
+    name: string;
+    description: string | null;
+    /** Event kinds auto-approved for sign_event */
+    kinds: number[];
+    methods: TrustProfileMethod[];
+    /** Number of apps currently using this profile */
+    appCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * One of the built-in trust levels, described as a read-only profile
+ */
+export interface BuiltInTrustProfile {
+    trustLevel: TrustLevel;
+    name: string;
+    description: string;
+    /** Event kinds auto-approved for sign_event, or 'all' */
+    kinds: number[] | 'all';
+    methods: TrustProfileMethod[];
+}
+
+/**
+ * Response from GET /trust-profiles
+ */
+export interface TrustProfilesResponse {
+    builtIn: BuiltInTrustProfile[];
+    profiles: TrustProfile[];
+}
+
+/**
+ * Request body for creating or updating a trust profile
+ */
+export interface SaveTrustProfileRequest {
+    name: string;
+    description?: string;
+    kinds: number[];
+    methods: TrustProfileMethod[];
+}
+
+/**
+ * Custom profile an app is using, as shown on the app
+ */
+export interface AppTrustProfile {
+    id: number;
+    name: string;
+}
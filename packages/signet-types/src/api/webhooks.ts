@@ -0,0 +1,109 @@
+/**
+ * Webhook types.
+ *
+ * Webhooks POST a JSON notification to a URL when selected server events
+ * happen. Bodies are signed with HMAC-SHA256 and never contain decrypted
+ * content, event content or secrets.
+ */
+
+/**
+ * Events a webhook can subscribe to
+ */
+export type WebhookEventType =
+    | 'request:created'
+    | 'request:approved'
+    | 'request:denied'
+    | 'request:expired'
+    | 'request:auto_approved'
+    | 'app:connected'
+    | 'app:revoked'
+    | 'key:created'
+    | 'key:unlocked'
+    | 'key:locked'
+    | 'key:deleted'
+    | 'deadman:panic'
+    | 'backup:failed'
+    | 'admin:event';
+
+/**
+ * Body POSTed to a webhook URL. `type` is `webhook:test` for test deliveries.
+ */
+export interface WebhookPayload {
+    /** Delivery ID, also sent as the X-Signet-Delivery header */
+    id: string;
+    type: WebhookEventType | 'webhook:test';
+    /** ISO timestamp of the event */
+    timestamp: string;
+    data: Record<string, unknown>;
+}
+
+export interface Webhook {
+    id: number;
+    name: string;
+    url: string;
+    events: WebhookEventType[];
+    enabled: boolean;
+    createdAt: string;
+}
+
+/**
+ * Delivery state: `pending` while it is being sent or waiting for a retry
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: number;
+    eventType: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    /** HTTP status of the last attempt, if the endpoint answered */
+    responseStatus: number | null;
+    /** Why the last attempt failed */
+    error: string | null;
+    nextAttemptAt: string | null;
+    createdAt: string;
+    deliveredAt: string | null;
+}
+
+/**
+ * Response from GET /webhooks
+ */
+export interface WebhooksResponse {
+    webhooks: Webhook[];
+}
+
+/**
+ * Response from GET /webhooks/:id/deliveries
+ */
+export interface WebhookDeliveriesResponse {
+    deliveries: WebhookDelivery[];
+}
+
+/**
+ * Request body for POST /webhooks
+ */
+export interface CreateWebhookRequest {
+    name: string;
+    url: string;
+    events: WebhookEventType[];
+}
+
+/**
+ * Response from POST /webhooks
+ */
+export interface CreateWebhookResponse {
+    ok: true;
+    webhook: Webhook;
+    /** HMAC signing secret. Shown once. */
+    secret: string;
+}
+
+/**
+ * Request body for PATCH /webhooks/:id
+ */
+export interface UpdateWebhookRequest {
+    url?: string;
+    events?: WebhookEventType[];
+    enabled?: boolean;
+}
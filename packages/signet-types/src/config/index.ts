@@ -1,9 +1,16 @@
 export type {
     EncryptionFormat,
     StoredKey,
+    RetiredKey,
+    KeyDerivation,
+    StoredSeed,
     KillSwitchDmType,
     KillSwitchConfig,
     AdminConfig,
     NostrConfig,
+    RelayAuthConfig,
+    RelayFailoverConfig,
+    LocalRelayConfig,
+    ScheduledBackupConfig,
     ConfigFile,
 } from './types.js';
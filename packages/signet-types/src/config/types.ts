@@ -3,6 +3,28 @@
  */
 export type EncryptionFormat = 'none' | 'legacy' | 'nip49';
 
+/**
+ * A key that was replaced by a successor during rotation
+ */
+export interface RetiredKey {
+    /** When the key was rotated (ISO timestamp) */
+    at: string;
+    /** Name of the successor key */
+    successor: string;
+    /** Successor's public key (hex), which still identifies it if it is renamed */
+    successorPubkey: string;
+}
+
+/**
+ * Where a key was derived from: a stored seed and its NIP-06 account index
+ * (path m/44'/1237'/<index>'/0/0)
+ */
+export interface KeyDerivation {
+    /** Name of the seed in `seeds` */
+    seed: string;
+    index: number;
+}
+
 /**
  * Encrypted or plain-text key storage format
  *
@@ -20,6 +42,32 @@ export interface StoredKey {
     key?: string;
     /** NIP-49 encrypted key (ncryptsec bech32 string) */
     ncryptsec?: string;
+    /** Relays this key listens on and advertises in its bunker URI (defaults to nostr.relays) */
+    relays?: string[];
+    /** Set once the key is rotated out; it then only signs its migration events */
+    retired?: RetiredKey;
+    /** Set when the key was derived from a seed, so the seed's mnemonic backs it up */
+    derivation?: KeyDerivation;
+}
+
+/**
+ * A BIP-39 mnemonic that keys are derived from
+ *
+ * Detection logic matches StoredKey:
+ * - Has `iv` + `data` → encrypted (AES-256-GCM; NIP-49 only covers 32-byte keys)
+ * - Has `mnemonic` only → unencrypted
+ */
+export interface StoredSeed {
+    /** Initialization vector for encrypted seeds (hex) */
+    iv?: string;
+    /** Encrypted mnemonic (hex) */
+    data?: string;
+    /** Plain-text mnemonic (if not encrypted) */
+    mnemonic?: string;
+    /** Next account index handed out, so deleted keys' indexes aren't reused by accident */
+    nextIndex: number;
+    /** When the seed was created or imported (ISO timestamp) */
+    createdAt: string;
 }
 
 /**
@@ -37,6 +85,10 @@ export interface KillSwitchConfig {
     adminRelays: string[];
     /** DM protocol type (NIP04 or NIP17) */
     dmType: KillSwitchDmType;
+    /** DM the admin a summary of each request waiting for approval */
+    notifyRequests?: boolean;
+    /** Key that sends notifications for requests whose own key is locked */
+    notifyKey?: string;
 }
 
 /**
@@ -49,11 +101,72 @@ export interface AdminConfig {
     secret?: string;
 }
 
+/**
+ * NIP-42 AUTH settings for relays that require authentication
+ */
+export interface RelayAuthConfig {
+    /** Dedicated key (nsec or hex) that answers AUTH on relays not listed in `relays` */
+    key?: string;
+    /** Name of the Signet key that answers AUTH on each relay URL */
+    relays?: Record<string, string>;
+}
+
+/**
+ * Automatic failover for the shared relay list, driven by Signet's own
+ * relay health scores
+ */
+export interface RelayFailoverConfig {
+    /** Relays promoted in place of shared relays whose score drops */
+    backupRelays?: string[];
+    /** Score (0-100) below which a shared relay is demoted (default: 40) */
+    minScore?: number;
+    /** Set to false to keep scoring relays without swapping them (default: true) */
+    enabled?: boolean;
+}
+
+/**
+ * Embedded relay for NIP-46 traffic on the local network
+ */
+export interface LocalRelayConfig {
+    /** Run the relay and add it to the shared relays (default: false) */
+    enabled?: boolean;
+    /** Address to bind (default: 0.0.0.0) */
+    host?: string;
+    /** Port to listen on (default: 4869) */
+    port?: number;
+    /** URL advertised in bunker URIs (default: ws://<LAN address>:<port>) */
+    url?: string;
+}
+
 /**
  * Nostr relay configuration
  */
 export interface NostrConfig {
     relays: string[];
+    /** NIP-42 AUTH settings (relays' challenges are ignored when omitted) */
+    auth?: RelayAuthConfig;
+    /** Backup relays and failover thresholds (no failover when omitted) */
+    failover?: RelayFailoverConfig;
+    /** Embedded local relay (off when omitted) */
+    localRelay?: LocalRelayConfig;
+}
+
+/**
+ * Scheduled encrypted snapshots of signet.json and the database
+ */
+export interface ScheduledBackupConfig {
+    /** Take snapshots on a schedule (default: false) */
+    enabled?: boolean;
+    /** Directory snapshots are written to (default: `backups` next to signet.json) */
+    directory?: string;
+    /** Hours between snapshots (default: 24) */
+    intervalHours?: number;
+    /** Most snapshots to keep (default: 7) */
+    keep?: number;
+    /** Delete snapshots older than this many days, 0 to keep them regardless of age (default: 30) */
+    maxAgeDays?: number;
+    /** Passphrase snapshots are encrypted with (SIGNET_BACKUP_PASSPHRASE takes precedence) */
+    passphrase?: string;
 }
 
 /**
@@ -76,6 +189,8 @@ export interface ConfigFile {
     logs?: string;
     /** Stored keys (encrypted or plain) */
     keys: Record<string, StoredKey>;
+    /** BIP-39 seeds keys can be derived from */
+    seeds?: Record<string, StoredSeed>;
     /** Enable verbose logging */
     verbose: boolean;
     /** Secret key for signing JWT tokens (auto-generated if not provided) */
@@ -84,6 +199,10 @@ export interface ConfigFile {
     allowedOrigins?: string[];
     /** Require authentication for API access (default: false for local use) */
     requireAuth?: boolean;
+    /** Npubs allowed to log in to the dashboard */
+    adminNpubs?: string[];
     /** Kill switch configuration for remote admin commands */
     killSwitch?: KillSwitchConfig;
+    /** Scheduled snapshots (off when omitted) */
+    backups?: ScheduledBackupConfig;
 }